@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "sites" ADD COLUMN     "publish_mode" TEXT NOT NULL DEFAULT 'direct';
+
+-- AlterTable
+ALTER TABLE "articles" ADD COLUMN     "pull_request_number" INTEGER,
+ADD COLUMN     "pull_request_url" TEXT;
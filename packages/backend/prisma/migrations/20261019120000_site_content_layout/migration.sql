@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "sites" ADD COLUMN     "content_root" TEXT NOT NULL DEFAULT 'content',
+ADD COLUMN     "file_naming" TEXT NOT NULL DEFAULT '{slug}.md',
+ADD COLUMN     "media_root" TEXT NOT NULL DEFAULT 'assets/images';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "articles" ADD COLUMN     "extra_front_matter" JSONB;
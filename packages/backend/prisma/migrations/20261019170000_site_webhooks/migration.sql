@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "site_webhooks" (
+    "id" TEXT NOT NULL,
+    "site_id" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "site_webhooks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "site_webhooks_site_id_key" ON "site_webhooks"("site_id");
+
+-- AddForeignKey
+ALTER TABLE "site_webhooks" ADD CONSTRAINT "site_webhooks_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
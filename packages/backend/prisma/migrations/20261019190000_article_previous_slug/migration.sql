@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "articles" ADD COLUMN     "previous_slug" TEXT;
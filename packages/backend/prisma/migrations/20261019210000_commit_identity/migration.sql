@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "commit_email" TEXT,
+ADD COLUMN     "commit_name" TEXT;
+
+-- AlterTable
+ALTER TABLE "sites" ADD COLUMN     "commit_message_template" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "media" ADD COLUMN     "commit_sha" TEXT;
+
+-- AlterTable
+ALTER TABLE "sites" ADD COLUMN     "media_url_strategy" TEXT NOT NULL DEFAULT 'raw';
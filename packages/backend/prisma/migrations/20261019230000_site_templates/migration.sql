@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "sites" ADD COLUMN     "template_id" TEXT,
+ADD COLUMN     "template_version" TEXT;
+
+-- CreateTable
+CREATE TABLE "site_templates" (
+    "id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "repo" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "preview_url" TEXT,
+    "files" TEXT[],
+    "placeholders" JSONB,
+    "version" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "site_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "site_templates_platform_repo_key" ON "site_templates"("platform", "repo");
+
+-- AddForeignKey
+ALTER TABLE "sites" ADD CONSTRAINT "sites_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "site_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "sites" ADD COLUMN     "deploy_commit_sha" TEXT,
+ADD COLUMN     "deploy_duration" INTEGER,
+ADD COLUMN     "deploy_run_url" TEXT,
+ADD COLUMN     "deploy_started_at" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "sites" ADD COLUMN     "custom_domain" TEXT;
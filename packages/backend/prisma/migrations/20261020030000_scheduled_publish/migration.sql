@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "articles" ADD COLUMN     "schedule_error" TEXT,
+ADD COLUMN     "scheduled_at" TIMESTAMP(3);
@@ -0,0 +1,11 @@
+-- AlterTable
+-- Title weighs most, then excerpt and tags, then the body
+ALTER TABLE "articles" ADD COLUMN     "search_vector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("excerpt", '')), 'B') ||
+  setweight(to_tsvector('english', replace(coalesce("tags", ''), ',', ' ')), 'B') ||
+  setweight(to_tsvector('english', "content"), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "articles_search_vector_idx" ON "articles" USING GIN ("search_vector");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "articles" ADD COLUMN     "previous_published_at" TIMESTAMP(3);
@@ -1,11 +1,11 @@
 import { Effect, Layer, ManagedRuntime } from 'effect';
 import { describe, it, expect, beforeEach } from 'vitest';
 
-import {
-  GitProviderRepository,
-  type GitProviderRepositoryService,
-  type SiteConfig,
+import type {
+  GitProviderRepositoryService,
+  SiteConfig,
 } from '../../repositories/git-provider-repository';
+
 import { PrismaArticleRepositoryLive } from '../../repositories/implementations/prisma-article-repository';
 import { PrismaMediaRepositoryLive } from '../../repositories/implementations/prisma-media-repository';
 import { PrismaSiteRepositoryLive } from '../../repositories/implementations/prisma-site-repository';
@@ -25,7 +25,10 @@ import {
   TestDatabaseServiceLayer,
 } from '../helpers/mock-database';
 import { mockGitIntegration, mockSite } from '../helpers/mock-factories';
-import { makeMockGitProvider } from '../helpers/mock-git-provider';
+import {
+  makeMockGitProvider,
+  makeMockGitProviderLayer,
+} from '../helpers/mock-git-provider';
 import { TestRedisServiceLayer } from '../helpers/mock-redis';
 import { TestRepositoryLayer } from '../helpers/test-layers';
 
@@ -396,7 +399,7 @@ describe('Sites API Contracts', () => {
         TestRedisServiceLayer,
         ConfigLayer,
         RepositoryLayer,
-        Layer.succeed(GitProviderRepository, configGitProvider),
+        makeMockGitProviderLayer(configGitProvider),
         MockAuthProviderLive,
         MockArticleServiceLive,
         AuthServiceLive,
@@ -22,6 +22,8 @@ describe('Users API Contract Tests', () => {
         displayName: 'Test User',
         email: 'test@example.com',
         avatarUrl: 'https://example.com/avatar.jpg',
+        commitName: null,
+        commitEmail: null,
         createdAt: new Date(),
         updatedAt: new Date(),
         gitIntegrations: [
@@ -69,6 +71,8 @@ describe('Users API Contract Tests', () => {
         displayName: 'Test User',
         email: 'test@example.com',
         avatarUrl: 'https://example.com/avatar.jpg',
+        commitName: null,
+        commitEmail: null,
         createdAt: new Date(),
         updatedAt: new Date(),
         gitIntegrations: [],
@@ -105,6 +109,8 @@ describe('Users API Contract Tests', () => {
         displayName: 'Test User',
         email: 'test@example.com',
         avatarUrl: 'https://example.com/avatar.jpg',
+        commitName: null,
+        commitEmail: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
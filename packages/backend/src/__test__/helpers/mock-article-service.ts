@@ -24,15 +24,37 @@ export const makeMockArticleService = (): ArticleServiceInterface => ({
       articles: [],
     }),
   publishArticleToGit: notImplemented('publishArticleToGit'),
+  getArticleConflict: notImplemented('getArticleConflict'),
+  resolveArticleConflict: notImplemented('resolveArticleConflict'),
+  getArticleHistory: notImplemented('getArticleHistory'),
+  getArticleVersion: notImplemented('getArticleVersion'),
   syncArticlesFromGit: () =>
     Effect.succeed({
       created: 1,
       updated: 0,
       markedDraft: 0,
+      merged: 0,
       unchanged: 1,
       total: 2,
       mediaImported: 0,
+      apiCallsSaved: 1,
     }),
+  listArticleRevisions: notImplemented('listArticleRevisions'),
+  getArticleRevision: notImplemented('getArticleRevision'),
+  diffArticleRevision: notImplemented('diffArticleRevision'),
+  saveArticleRevision: notImplemented('saveArticleRevision'),
+  restoreArticleRevision: notImplemented('restoreArticleRevision'),
+  scheduleArticlePublish: notImplemented('scheduleArticlePublish'),
+  cancelScheduledPublish: notImplemented('cancelScheduledPublish'),
+  runScheduledPublish: notImplemented('runScheduledPublish'),
+  processScheduledPublishes: notImplemented('processScheduledPublishes'),
+  restoreScheduledPublishes: notImplemented('restoreScheduledPublishes'),
+  bulkPublishArticles: notImplemented('bulkPublishArticles'),
+  bulkUnpublishArticles: notImplemented('bulkUnpublishArticles'),
+  bulkDeleteArticles: notImplemented('bulkDeleteArticles'),
+  bulkUpdateArticleTags: notImplemented('bulkUpdateArticleTags'),
+  bulkUpdateArticleDate: notImplemented('bulkUpdateArticleDate'),
+  searchSiteArticles: notImplemented('searchSiteArticles'),
   validateTitle: notImplemented('validateTitle'),
   validateSlug: notImplemented('validateSlug'),
   generateSlugFromTitle: notImplemented('generateSlugFromTitle'),
@@ -1,10 +1,15 @@
 import { Effect, Layer } from 'effect';
 
 import {
+  AuthProviderRegistry,
   AuthProviderRepository,
   type AuthProviderRepositoryService,
   type PlatformUser,
 } from '../../repositories/auth-provider-repository';
+import {
+  GitHubAppRepository,
+  type GitHubAppRepositoryService,
+} from '../../repositories/github-app-repository';
 
 // Mock implementation for testing
 export const makeMockAuthProvider = (): AuthProviderRepositoryService => ({
@@ -25,8 +30,36 @@ export const makeMockAuthProvider = (): AuthProviderRepositoryService => ({
     }),
 });
 
+// GitHub App that is not configured unless a test enables it
+export const makeMockGitHubApp = (
+  overrides: Partial<GitHubAppRepositoryService> = {}
+): GitHubAppRepositoryService => ({
+  enabled: false,
+  installUrl: 'https://github.com/apps/inland-test/installations/new',
+  listUserInstallationIds: () => Effect.succeed(['42']),
+  createInstallationToken: (installationId, repoFullName) =>
+    Effect.succeed({
+      token: `installation-token:${installationId}:${repoFullName}`,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    }),
+  ...overrides,
+});
+
+// Provides the given mock both directly and through the registry,
+// which resolves every platform to it
+export const makeMockAuthProviderLayer = (
+  provider: AuthProviderRepositoryService,
+  githubApp: GitHubAppRepositoryService = makeMockGitHubApp()
+) =>
+  Layer.mergeAll(
+    Layer.succeed(AuthProviderRepository, provider),
+    Layer.succeed(AuthProviderRegistry, {
+      forPlatform: () => Effect.succeed(provider),
+    }),
+    Layer.succeed(GitHubAppRepository, githubApp)
+  );
+
 // Mock layer for testing
-export const MockAuthProviderLive = Layer.succeed(
-  AuthProviderRepository,
+export const MockAuthProviderLive = makeMockAuthProviderLayer(
   makeMockAuthProvider()
 );
@@ -1,7 +1,10 @@
 import type {
   Article,
+  ArticleRevision,
   GitIntegration,
+  Media,
   Site,
+  SiteTemplate,
   User,
 } from '../../../generated/prisma/client';
 
@@ -13,6 +16,8 @@ export const mockUser = (overrides: Partial<User> = {}): User => ({
   displayName: 'Test User',
   email: 'test@example.com',
   avatarUrl: 'https://example.com/avatar.png',
+  commitName: null,
+  commitEmail: null,
   createdAt: now,
   updatedAt: now,
   ...overrides,
@@ -26,8 +31,21 @@ export const mockSite = (overrides: Partial<Site> = {}): Site => ({
   description: null,
   gitRepo: 'testuser/test-repo',
   platform: 'github',
+  publishMode: 'direct',
+  contentRoot: 'content',
+  fileNaming: '{slug}.md',
+  mediaRoot: 'assets/images',
+  commitMessageTemplate: null,
+  mediaUrlStrategy: 'raw',
+  templateId: null,
+  templateVersion: null,
   deployStatus: 'deployed',
   deployUrl: 'https://testuser.github.io/test-repo',
+  customDomain: null,
+  deployCommitSha: null,
+  deployRunUrl: null,
+  deployStartedAt: null,
+  deployDuration: null,
   createdAt: now,
   updatedAt: now,
   ...overrides,
@@ -47,11 +65,35 @@ export const mockArticle = (overrides: Partial<Article> = {}): Article => ({
   gitSyncedAt: null,
   contentHash: null,
   gitSyncedHash: null,
+  pullRequestNumber: null,
+  pullRequestUrl: null,
+  extraFrontMatter: null,
+  previousSlug: null,
+  previousPublishedAt: null,
+  scheduledAt: null,
+  scheduleError: null,
   createdAt: now,
   updatedAt: now,
   ...overrides,
 });
 
+export const mockArticleRevision = (
+  overrides: Partial<ArticleRevision> = {}
+): ArticleRevision => ({
+  id: 'revision-1',
+  articleId: 'article-1',
+  kind: 'autosave',
+  label: null,
+  title: 'Test Article',
+  slug: 'test-article',
+  content: 'This is a test article',
+  excerpt: null,
+  tags: null,
+  contentHash: 'revisionhash',
+  createdAt: now,
+  ...overrides,
+});
+
 export const mockGitIntegration = (
   overrides: Partial<GitIntegration> = {}
 ): GitIntegration => ({
@@ -65,3 +107,39 @@ export const mockGitIntegration = (
   updatedAt: now,
   ...overrides,
 });
+
+export const mockMedia = (overrides: Partial<Media> = {}): Media => ({
+  id: 'media-1',
+  siteId: 'site-1',
+  filename: 'image-abc123.png',
+  originalName: 'image.png',
+  filePath: 'assets/images/image-abc123.png',
+  fileSize: BigInt(1024),
+  mimeType: 'image/png',
+  storageType: 'github',
+  contentHash: 'sha256hash',
+  externalUrl: null,
+  commitSha: null,
+  alt: null,
+  createdAt: now,
+  updatedAt: now,
+  ...overrides,
+});
+
+export const mockSiteTemplate = (
+  overrides: Partial<SiteTemplate> = {}
+): SiteTemplate => ({
+  id: 'template-1',
+  platform: 'github',
+  repo: 'acme/inland-template-docs',
+  name: 'Docs',
+  description: 'Documentation site with a sidebar',
+  previewUrl:
+    'https://raw.githubusercontent.com/acme/inland-template-docs/templatesha1/preview.png',
+  files: ['build/index.js', 'templates/layout.html', 'assets/docs.css'],
+  placeholders: { '%%TITLE%%': 'siteName' },
+  version: 'templatesha1',
+  createdAt: now,
+  updatedAt: now,
+  ...overrides,
+});
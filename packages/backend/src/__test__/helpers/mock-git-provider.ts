@@ -1,15 +1,36 @@
 import { Effect, Layer } from 'effect';
 
 import {
-  GitProviderRepository,
+  GitProviderRegistry,
   type GitProviderRepositoryService,
   type GitRepo,
   type CreateRepoData,
+  type DeployRun,
+  type FileChange,
+  type GitFile,
   type TemplateData,
+  type TemplateSource,
   type SiteConfig,
   type ImportedArticle,
   type ImportedMedia,
+  type WebhookHeaders,
 } from '../../repositories/git-provider-repository';
+import {
+  headerValue,
+  parseGitHubPushPayload,
+  verifyHmacSignature,
+} from '../../repositories/implementations/webhook-utils';
+
+// Articles every mock repository holds on its default branch
+const MOCK_REMOTE_ARTICLES: readonly ImportedArticle[] = [
+  {
+    title: 'Test Article',
+    slug: 'test-article',
+    content: 'This is a test article content.',
+    status: 'published',
+    gitSha: 'abc123blobsha',
+  },
+];
 
 // Mock implementation for testing
 export const makeMockGitProvider = (): GitProviderRepositoryService => ({
@@ -31,11 +52,41 @@ export const makeMockGitProvider = (): GitProviderRepositoryService => ({
   deleteArticleFromRepo: (
     _accessToken: string,
     _repoFullName: string,
-    articleSlug: string
+    articleSlug: string,
+    filePath = `content/${articleSlug}.md`
   ) =>
     Effect.succeed({
       deleted: true,
-      filePath: `content/${articleSlug}.md`,
+      filePath,
+    }),
+
+  proposeArticleChange: (
+    _accessToken: string,
+    repoFullName: string,
+    articleSlug: string,
+    _markdownContent: string,
+    opts: { branch: string; title: string; filePath?: string }
+  ) =>
+    Effect.succeed({
+      filePath: opts.filePath ?? `content/${articleSlug}.md`,
+      commitSha: 'abc123def456',
+      blobSha: 'newblobsha789',
+      pullRequest: {
+        number: 7,
+        url: `https://github.com/${repoFullName}/pull/7`,
+        state: 'open' as const,
+      },
+    }),
+
+  getPullRequest: (
+    _accessToken: string,
+    repoFullName: string,
+    pullRequestNumber: number
+  ) =>
+    Effect.succeed({
+      number: pullRequestNumber,
+      url: `https://github.com/${repoFullName}/pull/${pullRequestNumber}`,
+      state: 'open' as const,
     }),
 
   getArticleFileSha: (
@@ -44,30 +95,90 @@ export const makeMockGitProvider = (): GitProviderRepositoryService => ({
     _articleSlug: string
   ) => Effect.succeed('abc123blobsha' as string | null),
 
-  getMarkdownFilesFromRepo: (
+  listFileCommits: (
     _accessToken: string,
-    _repoFullName: string,
-    _defaultBranch: string
+    repoFullName: string,
+    _filePath: string
   ) =>
     Effect.succeed([
       {
-        title: 'Test Article',
-        slug: 'test-article',
-        content: 'This is a test article content.',
-        status: 'published' as const,
-        gitSha: 'abc123blobsha',
+        sha: 'commit-2',
+        message: 'Fix typo',
+        authorName: 'Jane Doe',
+        authorEmail: 'jane@example.com',
+        authorDate: '2026-02-01T00:00:00Z',
+        url: `https://github.com/${repoFullName}/commit/commit-2`,
+      },
+      {
+        sha: 'commit-1',
+        message: 'Publish article',
+        authorName: 'Test User',
+        authorEmail: 'test@example.com',
+        authorDate: '2026-01-01T00:00:00Z',
+        url: `https://github.com/${repoFullName}/commit/commit-1`,
       },
-    ] as ImportedArticle[]),
+    ]),
+
+  getFileAtRef: (
+    _accessToken: string,
+    _repoFullName: string,
+    _filePath: string,
+    _ref: string
+  ) =>
+    Effect.succeed(
+      '---\ntitle: Old Title\nexcerpt: Old excerpt\ntags:\n  - old\n---\n# Old content' as
+        | string
+        | null
+    ),
+
+  getBlobContent: (
+    _accessToken: string,
+    _repoFullName: string,
+    _blobSha: string
+  ) => Effect.succeed('# Mock blob' as string | null),
+
+  getMarkdownFilesFromRepo: (
+    _accessToken: string,
+    _repoFullName: string,
+    _defaultBranch: string
+  ) => Effect.succeed([...MOCK_REMOTE_ARTICLES]),
+
+  listArticleFiles: (
+    _accessToken: string,
+    _repoFullName: string,
+    _defaultBranch: string
+  ) =>
+    Effect.succeed(
+      MOCK_REMOTE_ARTICLES.map(
+        (article): GitFile => ({
+          path: article.filePath ?? `content/${article.slug}.md`,
+          sha: article.gitSha ?? '',
+        })
+      )
+    ),
+
+  readArticleFiles: (
+    _accessToken: string,
+    _repoFullName: string,
+    _defaultBranch: string,
+    files: readonly GitFile[]
+  ) =>
+    Effect.succeed(
+      MOCK_REMOTE_ARTICLES.filter((article) =>
+        files.some((file) => file.sha === article.gitSha)
+      )
+    ),
 
   publishArticleToRepo: (
     _accessToken: string,
     _repoFullName: string,
     articleSlug: string,
-    _markdownContent: string
+    _markdownContent: string,
+    filePath = `content/${articleSlug}.md`
   ) =>
     Effect.succeed({
       published: true,
-      filePath: `content/${articleSlug}.md`,
+      filePath,
       commitSha: 'abc123def456',
       blobSha: 'newblobsha789',
       wasUpdate: false,
@@ -83,6 +194,24 @@ export const makeMockGitProvider = (): GitProviderRepositoryService => ({
       html_url: `https://github.com/${repoFullName}`, // GitHub API format
     }),
 
+  getCommitDeployRun: (
+    _accessToken: string,
+    repoFullName: string,
+    _commitSha: string
+  ) =>
+    Effect.succeed<DeployRun | null>({
+      url: `https://github.com/${repoFullName}/actions/runs/1`,
+      status: 'success',
+      startedAt: new Date('2026-01-01T00:00:00Z'),
+      finishedAt: new Date('2026-01-01T00:01:30Z'),
+    }),
+
+  getBranchHead: (
+    _accessToken: string,
+    _repoFullName: string,
+    _branch: string
+  ) => Effect.succeed('headcommitsha123'),
+
   checkPagesStatus: (_accessToken: string, _repoFullName: string) =>
     Effect.succeed({
       enabled: true,
@@ -90,11 +219,27 @@ export const makeMockGitProvider = (): GitProviderRepositoryService => ({
       source: 'workflow',
     }),
 
+  buildInlandWorkflowChanges: (
+    _accessToken: string,
+    _repoFullName: string,
+    _templateData: TemplateData,
+    _options?: { overrideExistingFiles?: boolean; template?: TemplateSource }
+  ) =>
+    Effect.succeed({
+      changes: ['.github/workflows/deploy.yml', 'build/index.js'].map(
+        (path) => ({
+          path,
+          base64Content: Buffer.from(`# ${path}\n`).toString('base64'),
+        })
+      ),
+      filesSkipped: [],
+    }),
+
   injectInlandWorkflow: (
     _accessToken: string,
     _repoFullName: string,
     _templateData: TemplateData,
-    _options?: { overrideExistingFiles?: boolean }
+    _options?: { overrideExistingFiles?: boolean; template?: TemplateSource }
   ) =>
     Effect.succeed({
       filesCreated: [
@@ -112,6 +257,17 @@ export const makeMockGitProvider = (): GitProviderRepositoryService => ({
   enablePages: (_accessToken: string, repoFullName: string) =>
     Effect.succeed(`https://testuser.github.io/${repoFullName.split('/')[1]}`),
 
+  setPagesDomain: (
+    _accessToken: string,
+    repoFullName: string,
+    domain: string | null
+  ) =>
+    Effect.succeed(
+      domain
+        ? `https://${domain}`
+        : `https://testuser.github.io/${repoFullName.split('/')[1]}`
+    ),
+
   getMediaFilesFromRepo: (
     _accessToken: string,
     _repoFullName: string,
@@ -145,15 +301,72 @@ export const makeMockGitProvider = (): GitProviderRepositoryService => ({
       commitSha: 'mockconfigsha789',
     }),
 
+  commitChangeset: (
+    _accessToken: string,
+    _repoFullName: string,
+    opts: { message: string; changes: readonly FileChange[] }
+  ) =>
+    Effect.succeed({
+      commitSha: 'mockchangesetsha',
+      blobShas: Object.fromEntries(
+        opts.changes
+          .filter((change) => change.base64Content !== null)
+          .map((change) => [change.path, 'newblobsha789'])
+      ),
+    }),
+
   checkRepoExists: (_accessToken: string, _repoFullName: string) =>
     Effect.succeed(true),
 
   getSiteConfig: (_accessToken: string, _repoFullName: string) =>
     Effect.succeed(null),
+
+  getRawFileUrl: (repoFullName: string, ref: string, filePath: string) =>
+    `https://raw.githubusercontent.com/${repoFullName}/${ref}/${filePath}`,
+
+  getPublicUrls: (
+    repoFullName: string,
+    user: { username: string; avatarUrl: string }
+  ) => ({
+    pagesUrl: `https://testuser.github.io/${repoFullName.split('/')[1]}`,
+    avatarUrl: `https://github.com/${user.username}.png`,
+    authorUrl: `https://github.com/${user.username}`,
+  }),
+
+  registerPushWebhook: (
+    _accessToken: string,
+    _repoFullName: string,
+    _opts: { url: string; secret: string }
+  ) => Effect.void,
+
+  parsePushEvent: (headers: WebhookHeaders, payload: unknown) =>
+    headerValue(headers, 'X-GitHub-Event') === 'push'
+      ? parseGitHubPushPayload(payload)
+      : null,
+
+  verifyWebhookSignature: (
+    headers: WebhookHeaders,
+    rawBody: Buffer,
+    secret: string
+  ) =>
+    verifyHmacSignature(
+      headerValue(headers, 'X-Hub-Signature-256'),
+      rawBody,
+      secret,
+      'sha256='
+    ),
 });
 
+// Provides the given mock through the registry, which resolves every
+// platform to it
+export const makeMockGitProviderLayer = (
+  provider: GitProviderRepositoryService
+) =>
+  Layer.succeed(GitProviderRegistry, {
+    forPlatform: () => Effect.succeed(provider),
+  });
+
 // Mock layer for testing
-export const MockGitProviderLive = Layer.succeed(
-  GitProviderRepository,
+export const MockGitProviderLive = makeMockGitProviderLayer(
   makeMockGitProvider()
 );
@@ -1,19 +1,29 @@
 import { Layer } from 'effect';
 
+import type { GitProviderRepositoryService } from '../../repositories/git-provider-repository';
+
 import { PrismaArticleRepositoryLive } from '../../repositories/implementations/prisma-article-repository';
+import { PrismaArticleRevisionRepositoryLive } from '../../repositories/implementations/prisma-article-revision-repository';
 import { PrismaMediaRepositoryLive } from '../../repositories/implementations/prisma-media-repository';
 import { PrismaSiteRepositoryLive } from '../../repositories/implementations/prisma-site-repository';
+import { PrismaSiteTemplateRepositoryLive } from '../../repositories/implementations/prisma-site-template-repository';
 import { PrismaUserRepositoryLive } from '../../repositories/implementations/prisma-user-repository';
+import { RedisPublishQueueRepositoryLive } from '../../repositories/implementations/redis-publish-queue-repository';
+import { RedisSiteSyncQueueRepositoryLive } from '../../repositories/implementations/redis-site-sync-queue-repository';
 import { AuthServiceLive } from '../../services/auth/auth-service-live';
 import { makeConfigService } from '../../services/config-service';
 import { MediaServiceLive } from '../../services/media';
 import { SessionServiceLive } from '../../services/session/session-service-live';
 import { SiteServiceLive } from '../../services/site/site-service-live';
+import { TemplateServiceLive } from '../../services/template';
 import { UserServiceLive } from '../../services/user/user-service-live';
 import { MockArticleServiceLive } from './mock-article-service';
 import { MockAuthProviderLive } from './mock-auth-provider';
 import { TestDatabaseServiceLayer } from './mock-database';
-import { MockGitProviderLive } from './mock-git-provider';
+import {
+  makeMockGitProvider,
+  makeMockGitProviderLayer,
+} from './mock-git-provider';
 import { TestRedisServiceLayer } from './mock-redis';
 
 const ConfigLayer = makeConfigService;
@@ -21,27 +31,44 @@ const ConfigLayer = makeConfigService;
 // Prisma repositories depend on DatabaseService
 const RepositoryLayer = Layer.mergeAll(
   PrismaArticleRepositoryLive,
+  PrismaArticleRevisionRepositoryLive,
   PrismaMediaRepositoryLive,
   PrismaSiteRepositoryLive,
+  PrismaSiteTemplateRepositoryLive,
   PrismaUserRepositoryLive
 ).pipe(Layer.provide(TestDatabaseServiceLayer));
 
+const QueueLayer = Layer.merge(
+  RedisPublishQueueRepositoryLive,
+  RedisSiteSyncQueueRepositoryLive
+).pipe(Layer.provide(TestRedisServiceLayer));
+
 // SessionServiceLive depends on RedisService + ConfigService
 const SessionLayer = SessionServiceLive.pipe(
   Layer.provide(Layer.merge(TestRedisServiceLayer, ConfigLayer))
 );
 
+// Same as TestRepositoryLayer, with the given Git provider behind the registry
+export const makeTestRepositoryLayer = (
+  gitProvider: GitProviderRepositoryService
+) =>
+  Layer.mergeAll(
+    TestRedisServiceLayer,
+    ConfigLayer,
+    RepositoryLayer,
+    QueueLayer,
+    makeMockGitProviderLayer(gitProvider),
+    MockAuthProviderLive,
+    MockArticleServiceLive,
+    AuthServiceLive,
+    MediaServiceLive,
+    SessionLayer,
+    SiteServiceLive,
+    TemplateServiceLive,
+    UserServiceLive
+  );
+
 // Test layer that provides repositories with mock database, Git provider, and Auth provider
-export const TestRepositoryLayer = Layer.mergeAll(
-  TestRedisServiceLayer,
-  ConfigLayer,
-  RepositoryLayer,
-  MockGitProviderLive,
-  MockAuthProviderLive,
-  MockArticleServiceLive,
-  AuthServiceLive,
-  MediaServiceLive,
-  SessionLayer,
-  SiteServiceLive,
-  UserServiceLive
+export const TestRepositoryLayer = makeTestRepositoryLayer(
+  makeMockGitProvider()
 );
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+
+import type { FileCommit } from '../../repositories/git-provider-repository';
+
+import {
+  commitAuthorFor,
+  findCoAuthors,
+  renderCommitMessage,
+} from '../../services/article/article-commit';
+import { mockGitIntegration, mockUser } from '../helpers/mock-factories';
+
+const values = {
+  action: 'Update',
+  title: 'Hello World',
+  slug: 'hello',
+} as const;
+
+const fileCommit = (
+  sha: string,
+  authorName: string,
+  authorEmail: string | null
+): FileCommit => ({
+  sha,
+  message: 'Edit article',
+  authorName,
+  authorEmail,
+  authorDate: '2026-01-01T00:00:00Z',
+  url: null,
+});
+
+const user = { ...mockUser(), gitIntegrations: [mockGitIntegration()] };
+
+describe('renderCommitMessage', () => {
+  it('should use the default template without a site template', () => {
+    expect(renderCommitMessage(null, values)).toBe('Update article: hello');
+  });
+
+  it("should fill in the site's placeholders", () => {
+    expect(
+      renderCommitMessage('docs({slug}): {action} "{title}"', values)
+    ).toBe('docs(hello): Update "Hello World"');
+  });
+
+  it('should add the note as the body and co-authors as trailers', () => {
+    const message = renderCommitMessage(null, values, {
+      note: '  Reworded the intro\n',
+      coAuthors: [
+        { name: 'Jane Doe', email: 'jane@example.com' },
+        { name: 'Bob', email: 'bob@example.com' },
+      ],
+    });
+
+    expect(message).toBe(
+      [
+        'Update article: hello',
+        '',
+        'Reworded the intro',
+        '',
+        'Co-authored-by: Jane Doe <jane@example.com>',
+        'Co-authored-by: Bob <bob@example.com>',
+      ].join('\n')
+    );
+  });
+});
+
+describe('findCoAuthors', () => {
+  it("should credit authors since the user's last commit once each", () => {
+    const coAuthors = findCoAuthors(
+      [
+        fileCommit('c4', 'Jane Doe', 'Jane@Example.com'),
+        fileCommit('c3', 'Bob', 'bob@example.com'),
+        fileCommit('c2', 'Jane Doe', 'jane@example.com'),
+        fileCommit('c1', 'testuser', 'noreply@github.com'),
+        fileCommit('c0', 'Carol', 'carol@example.com'),
+      ],
+      user
+    );
+
+    expect(coAuthors).toEqual([
+      { name: 'Jane Doe', email: 'Jane@Example.com' },
+      { name: 'Bob', email: 'bob@example.com' },
+    ]);
+  });
+
+  it('should recognise the configured commit email as the user', () => {
+    const coAuthors = findCoAuthors(
+      [
+        fileCommit('c2', 'Jane Doe', 'jane@example.com'),
+        fileCommit('c1', 'Someone', 'me@work.example'),
+      ],
+      {
+        ...user,
+        commitName: 'Me',
+        commitEmail: 'me@work.example',
+      }
+    );
+
+    expect(coAuthors).toEqual([
+      { name: 'Jane Doe', email: 'jane@example.com' },
+    ]);
+  });
+
+  it('should skip commits without an author email', () => {
+    expect(findCoAuthors([fileCommit('c1', 'Jane Doe', null)], user)).toEqual(
+      []
+    );
+  });
+});
+
+describe('commitAuthorFor', () => {
+  it('should only set an author when name and email are both configured', () => {
+    expect(commitAuthorFor(user)).toBeUndefined();
+    expect(commitAuthorFor({ ...user, commitName: 'Me' })).toBeUndefined();
+    expect(
+      commitAuthorFor({
+        ...user,
+        commitName: 'Me',
+        commitEmail: 'me@example.com',
+      })
+    ).toEqual({ name: 'Me', email: 'me@example.com' });
+  });
+});
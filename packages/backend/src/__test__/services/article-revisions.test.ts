@@ -0,0 +1,236 @@
+import { ManagedRuntime, Exit } from 'effect';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import * as ArticleService from '../../services/article';
+import { diffLines } from '../../services/article/article-diff';
+import { AUTOSAVE_LIMIT } from '../../services/article/revisions/record-article-revision';
+import { mockPrisma, resetMockPrisma } from '../helpers/mock-database';
+import {
+  mockArticle,
+  mockArticleRevision,
+  mockGitIntegration,
+  mockUser,
+} from '../helpers/mock-factories';
+import { TestRepositoryLayer } from '../helpers/test-layers';
+
+const testRuntime = ManagedRuntime.make(TestRepositoryLayer);
+
+const articleWithSite = {
+  ...mockArticle({ id: 'article-1', siteId: 'site-1' }),
+  site: {
+    id: 'site-1',
+    name: 'Test Site',
+    userId: 'user-1',
+    gitRepo: 'testuser/test-repo',
+  },
+};
+
+const minutesAgo = (minutes: number) =>
+  new Date(Date.now() - minutes * 60 * 1000);
+
+describe('Article revisions', () => {
+  beforeEach(() => {
+    resetMockPrisma();
+    mockPrisma.article.findUnique.mockResolvedValue(articleWithSite);
+    mockPrisma.articleRevision.create.mockResolvedValue(mockArticleRevision());
+  });
+
+  describe('diffLines', () => {
+    it('should split content into shared runs and changes', () => {
+      expect(diffLines('a\nb\nc\nd', 'a\nB\nc\nd\ne')).toEqual([
+        { kind: 'same', lines: ['a'] },
+        { kind: 'change', removed: ['b'], added: ['B'] },
+        { kind: 'same', lines: ['c', 'd'] },
+        { kind: 'change', removed: [], added: ['e'] },
+      ]);
+    });
+
+    it('should return a single run for identical content', () => {
+      expect(diffLines('a\nb', 'a\nb')).toEqual([
+        { kind: 'same', lines: ['a', 'b'] },
+      ]);
+    });
+  });
+
+  describe('auto-save checkpoints', () => {
+    it('should keep the previous state when the last checkpoint is old', async () => {
+      mockPrisma.articleRevision.findFirst.mockResolvedValue(
+        mockArticleRevision({ createdAt: minutesAgo(30) })
+      );
+      mockPrisma.articleRevision.findMany.mockResolvedValue([]);
+      mockPrisma.articleRevision.deleteMany.mockResolvedValue({ count: 0 });
+      mockPrisma.article.update.mockResolvedValue({
+        ...articleWithSite,
+        content: 'Edited',
+      });
+
+      await testRuntime.runPromise(
+        ArticleService.updateArticle('article-1', 'user-1', {
+          content: 'Edited',
+        })
+      );
+
+      expect(mockPrisma.articleRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          articleId: 'article-1',
+          kind: 'autosave',
+          content: 'This is a test article',
+        }),
+      });
+      expect(mockPrisma.articleRevision.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ skip: AUTOSAVE_LIMIT })
+      );
+    });
+
+    it('should not checkpoint again within the auto-save interval', async () => {
+      mockPrisma.articleRevision.findFirst.mockResolvedValue(
+        mockArticleRevision({ createdAt: minutesAgo(2) })
+      );
+      mockPrisma.article.update.mockResolvedValue(articleWithSite);
+
+      await testRuntime.runPromise(
+        ArticleService.updateArticle('article-1', 'user-1', {
+          content: 'Edited',
+        })
+      );
+
+      expect(mockPrisma.articleRevision.create).not.toHaveBeenCalled();
+      expect(mockPrisma.article.update).toHaveBeenCalled();
+    });
+  });
+
+  describe('saveArticleRevision', () => {
+    it('should save the current state as a labelled version', async () => {
+      mockPrisma.articleRevision.create.mockResolvedValue(
+        mockArticleRevision({ kind: 'manual', label: 'First draft' })
+      );
+
+      const revision = await testRuntime.runPromise(
+        ArticleService.saveArticleRevision(
+          'article-1',
+          'user-1',
+          ' First draft '
+        )
+      );
+
+      expect(revision.kind).toBe('manual');
+      expect(mockPrisma.articleRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          kind: 'manual',
+          label: 'First draft',
+          title: 'Test Article',
+        }),
+      });
+      expect(mockPrisma.articleRevision.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreArticleRevision', () => {
+    it('should keep the current state and put the revision back', async () => {
+      mockPrisma.articleRevision.findUnique.mockResolvedValue(
+        mockArticleRevision({
+          id: 'revision-2',
+          title: 'Old Title',
+          content: 'Old content',
+        })
+      );
+      mockPrisma.articleRevision.findFirst.mockResolvedValue(
+        mockArticleRevision({ createdAt: minutesAgo(1) })
+      );
+      mockPrisma.articleRevision.findMany.mockResolvedValue([]);
+      mockPrisma.articleRevision.deleteMany.mockResolvedValue({ count: 0 });
+      mockPrisma.article.update.mockResolvedValue({
+        ...articleWithSite,
+        title: 'Old Title',
+        content: 'Old content',
+      });
+
+      const result = await testRuntime.runPromise(
+        ArticleService.restoreArticleRevision(
+          'article-1',
+          'revision-2',
+          'user-1'
+        )
+      );
+
+      expect(result.article.content).toBe('Old content');
+      expect(mockPrisma.articleRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          kind: 'autosave',
+          content: 'This is a test article',
+        }),
+      });
+      expect(mockPrisma.article.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            title: 'Old Title',
+            content: 'Old content',
+          }),
+        })
+      );
+    });
+
+    it('should fail for a revision of another article', async () => {
+      mockPrisma.articleRevision.findUnique.mockResolvedValue(
+        mockArticleRevision({ articleId: 'article-2' })
+      );
+
+      const result = await testRuntime.runPromiseExit(
+        ArticleService.restoreArticleRevision(
+          'article-1',
+          'revision-1',
+          'user-1'
+        )
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+      expect(mockPrisma.article.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('diffArticleRevision', () => {
+    it('should compare a revision with the current article', async () => {
+      mockPrisma.articleRevision.findUnique.mockResolvedValue(
+        mockArticleRevision({ content: 'This is a draft' })
+      );
+
+      const diff = await testRuntime.runPromise(
+        ArticleService.diffArticleRevision('article-1', 'revision-1', 'user-1')
+      );
+
+      expect(diff.to).toBeNull();
+      expect(diff.from).not.toHaveProperty('content');
+      expect(diff.hunks).toEqual([
+        {
+          kind: 'change',
+          removed: ['This is a draft'],
+          added: ['This is a test article'],
+        },
+      ]);
+    });
+  });
+
+  describe('publishing', () => {
+    it('should record the published state', async () => {
+      mockPrisma.gitIntegration.findFirst.mockResolvedValue(
+        mockGitIntegration()
+      );
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser());
+      mockPrisma.article.update.mockResolvedValue({
+        ...articleWithSite,
+        status: 'published',
+      });
+
+      await testRuntime.runPromise(
+        ArticleService.publishArticleToGit('article-1', 'user-1')
+      );
+
+      expect(mockPrisma.articleRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          kind: 'publish',
+          content: 'This is a test article',
+        }),
+      });
+    });
+  });
+});
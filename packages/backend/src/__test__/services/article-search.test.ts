@@ -0,0 +1,105 @@
+import { Exit, ManagedRuntime } from 'effect';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import * as ArticleService from '../../services/article';
+import { mockPrisma, resetMockPrisma } from '../helpers/mock-database';
+import { mockSite } from '../helpers/mock-factories';
+import { TestRepositoryLayer } from '../helpers/test-layers';
+
+const testRuntime = ManagedRuntime.make(TestRepositoryLayer);
+
+const page = { page: 1, limit: 20 };
+
+// What the database returns for a match, \u0002 and \u0003 marking hits
+const searchRow = {
+  id: 'article-1',
+  title: 'Installing on Linux',
+  slug: 'guides/install-linux',
+  status: 'published',
+  tags: 'guides, linux',
+  publishedAt: new Date('2026-10-01T00:00:00Z'),
+  rank: 0.6,
+  titleHeadline: '\u0002Installing\u0003 on Linux',
+  contentHeadline:
+    'Run the \u0002installer\u0003 as root ... then \u0002install\u0003 the service',
+};
+
+describe('Article search', () => {
+  beforeEach(() => {
+    resetMockPrisma();
+    mockPrisma.site.findUnique.mockResolvedValue(mockSite());
+  });
+
+  describe('parseHeadline', () => {
+    it('should split headlines into highlighted segments', () => {
+      expect(ArticleService.parseHeadline(searchRow.titleHeadline)).toEqual([
+        { text: 'Installing', highlighted: true },
+        { text: ' on Linux', highlighted: false },
+      ]);
+      expect(ArticleService.parseHeadline('No match here')).toEqual([
+        { text: 'No match here', highlighted: false },
+      ]);
+    });
+  });
+
+  describe('searchSiteArticles', () => {
+    it('should return ranked hits with snippets and matched words', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([searchRow]);
+
+      const hits = await testRuntime.runPromise(
+        ArticleService.searchSiteArticles(
+          'site-1',
+          'user-1',
+          { text: '"install linux"', status: 'published' },
+          page
+        )
+      );
+
+      expect(hits).toHaveLength(1);
+      expect(hits[0]).toMatchObject({
+        id: 'article-1',
+        rank: 0.6,
+        snippet: [
+          { text: 'Run the ', highlighted: false },
+          { text: 'installer', highlighted: true },
+          { text: ' as root ... then ', highlighted: false },
+          { text: 'install', highlighted: true },
+          { text: ' the service', highlighted: false },
+        ],
+        matches: ['installer', 'install', 'installing'],
+      });
+    });
+
+    it('should not query for a blank search', async () => {
+      const hits = await testRuntime.runPromise(
+        ArticleService.searchSiteArticles(
+          'site-1',
+          'user-1',
+          { text: '   ' },
+          page
+        )
+      );
+
+      expect(hits).toEqual([]);
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should reject sites the user does not own', async () => {
+      mockPrisma.site.findUnique.mockResolvedValue(
+        mockSite({ userId: 'user-2' })
+      );
+
+      const result = await testRuntime.runPromiseExit(
+        ArticleService.searchSiteArticles(
+          'site-1',
+          'user-1',
+          { text: 'install' },
+          page
+        )
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+});
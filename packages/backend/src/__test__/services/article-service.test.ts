@@ -79,6 +79,7 @@ describe('ArticleService', () => {
               name: true,
               userId: true,
               gitRepo: true,
+              platform: true,
             },
           },
         },
@@ -171,6 +172,13 @@ describe('ArticleService', () => {
               name: true,
               userId: true,
               gitRepo: true,
+              platform: true,
+              publishMode: true,
+              contentRoot: true,
+              fileNaming: true,
+              commitMessageTemplate: true,
+              mediaUrlStrategy: true,
+              deployUrl: true,
             },
           },
         },
@@ -331,6 +339,79 @@ describe('ArticleService', () => {
       expect(mockPrisma.article.update).not.toHaveBeenCalled();
     });
 
+    it('should remember the slug a synced article had in the repository', async () => {
+      mockPrisma.article.findUnique.mockResolvedValue({
+        ...articleWithSite,
+        slug: 'old-name',
+        gitSha: 'abc123blobsha',
+      });
+      mockPrisma.article.update.mockResolvedValue(articleWithSite);
+
+      await testRuntime.runPromise(
+        ArticleService.updateArticle('article-1', 'user-1', {
+          slug: 'new-name',
+        })
+      );
+
+      expect(mockPrisma.article.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            slug: 'new-name',
+            previousSlug: 'old-name',
+          }),
+        })
+      );
+    });
+
+    it('should forget the old slug when renamed back to it', async () => {
+      mockPrisma.article.findUnique.mockResolvedValue({
+        ...articleWithSite,
+        slug: 'new-name',
+        previousSlug: 'old-name',
+        gitSha: 'abc123blobsha',
+      });
+      mockPrisma.article.update.mockResolvedValue(articleWithSite);
+
+      await testRuntime.runPromise(
+        ArticleService.updateArticle('article-1', 'user-1', {
+          slug: 'old-name',
+        })
+      );
+
+      expect(mockPrisma.article.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            slug: 'old-name',
+            previousSlug: null,
+          }),
+        })
+      );
+    });
+
+    it('should remember the date a synced article was published with', async () => {
+      mockPrisma.article.findUnique.mockResolvedValue({
+        ...articleWithSite,
+        publishedAt: new Date('2026-01-15T00:00:00Z'),
+        gitSha: 'abc123blobsha',
+      });
+      mockPrisma.article.update.mockResolvedValue(articleWithSite);
+
+      await testRuntime.runPromise(
+        ArticleService.updateArticle('article-1', 'user-1', {
+          publishedAt: '2026-02-01T00:00:00.000Z',
+        })
+      );
+
+      expect(mockPrisma.article.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            publishedAt: new Date('2026-02-01T00:00:00Z'),
+            previousPublishedAt: new Date('2026-01-15T00:00:00Z'),
+          }),
+        })
+      );
+    });
+
     it('should fail when article not found', async () => {
       mockPrisma.article.findUnique.mockResolvedValue(null);
 
@@ -464,9 +545,27 @@ describe('ArticleService', () => {
       expect(Exit.isFailure(result)).toBe(true);
     });
 
-    it('should fail for slug exceeding 100 characters', async () => {
+    it('should accept nested article paths', async () => {
+      const result = await testRuntime.runPromise(
+        ArticleService.validateSlug('guides/install/linux')
+      );
+      expect(result).toBe('guides/install/linux');
+    });
+
+    it('should fail for paths with empty folders', async () => {
+      const leading = await testRuntime.runPromiseExit(
+        ArticleService.validateSlug('/guides/linux')
+      );
+      const doubled = await testRuntime.runPromiseExit(
+        ArticleService.validateSlug('guides//linux')
+      );
+      expect(Exit.isFailure(leading)).toBe(true);
+      expect(Exit.isFailure(doubled)).toBe(true);
+    });
+
+    it('should fail for slug exceeding 200 characters', async () => {
       const result = await testRuntime.runPromiseExit(
-        ArticleService.validateSlug('a'.repeat(101))
+        ArticleService.validateSlug('a'.repeat(201))
       );
       expect(Exit.isFailure(result)).toBe(true);
     });
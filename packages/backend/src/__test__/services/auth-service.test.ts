@@ -1,14 +1,19 @@
 import { Effect, Layer, ManagedRuntime, Exit } from 'effect';
 import { describe, it, expect, beforeEach } from 'vitest';
 
-import {
-  AuthProviderRepository,
-  type AuthProviderRepositoryService,
-} from '../../repositories/auth-provider-repository';
+import type { AuthProviderRepositoryService } from '../../repositories/auth-provider-repository';
+import type { GitHubAppRepositoryService } from '../../repositories/github-app-repository';
+
+import { GitHubAppError } from '../../repositories/github-app-repository';
 import { AuthService } from '../../services/auth';
-import { makeMockAuthProvider } from '../helpers/mock-auth-provider';
+import {
+  makeMockAuthProvider,
+  makeMockAuthProviderLayer,
+  makeMockGitHubApp,
+} from '../helpers/mock-auth-provider';
 import { mockPrisma, resetMockPrisma } from '../helpers/mock-database';
 import { mockGitIntegration, mockUser } from '../helpers/mock-factories';
+import { mockRedis, resetMockRedis } from '../helpers/mock-redis';
 import { TestRepositoryLayer } from '../helpers/test-layers';
 
 const testRuntime = ManagedRuntime.make(TestRepositoryLayer);
@@ -79,7 +84,7 @@ describe('AuthService', () => {
       };
       const invalidTokenLayer = Layer.merge(
         TestRepositoryLayer,
-        Layer.succeed(AuthProviderRepository, invalidTokenProvider)
+        makeMockAuthProviderLayer(invalidTokenProvider)
       );
       const invalidRuntime = ManagedRuntime.make(invalidTokenLayer);
 
@@ -109,6 +114,123 @@ describe('AuthService', () => {
     });
   });
 
+  describe('GitHub App installations', () => {
+    const makeAppRuntime = (
+      overrides: Partial<GitHubAppRepositoryService> = {}
+    ) =>
+      ManagedRuntime.make(
+        Layer.merge(
+          TestRepositoryLayer,
+          makeMockAuthProviderLayer(
+            makeMockAuthProvider(),
+            makeMockGitHubApp({ enabled: true, ...overrides })
+          )
+        )
+      );
+
+    beforeEach(() => {
+      resetMockRedis();
+      mockRedis.get.mockResolvedValue(null);
+      mockPrisma.gitIntegration.findFirst.mockResolvedValue(
+        mockGitIntegration({ accessToken: 'oauth-token', installationId: '42' })
+      );
+      mockPrisma.gitIntegration.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('should mint and cache a token for a repo the installation covers', async () => {
+      const result = await makeAppRuntime().runPromise(
+        Effect.flatMap(AuthService, (auth) =>
+          auth.getUserAuthToken('user-1', 'github', 'testuser/blog')
+        )
+      );
+
+      expect(result).toBe('installation-token:42:testuser/blog');
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        'auth:installation:42:testuser/blog',
+        'installation-token:42:testuser/blog',
+        'EX',
+        expect.any(Number)
+      );
+    });
+
+    it('should reuse a cached installation token', async () => {
+      mockRedis.get.mockResolvedValue('cached-token');
+      let minted = 0;
+      const runtime = makeAppRuntime({
+        createInstallationToken: () =>
+          Effect.sync(() => {
+            minted++;
+            return { token: 'fresh-token', expiresAt: new Date() };
+          }),
+      });
+
+      const result = await runtime.runPromise(
+        Effect.flatMap(AuthService, (auth) =>
+          auth.getUserAuthToken('user-1', 'github', 'testuser/blog')
+        )
+      );
+
+      expect(result).toBe('cached-token');
+      expect(minted).toBe(0);
+    });
+
+    it('should fall back to the OAuth token and unlink a removed installation', async () => {
+      const runtime = makeAppRuntime({
+        createInstallationToken: () =>
+          Effect.fail(
+            new GitHubAppError({ message: 'Not Found', status: 404 })
+          ),
+      });
+
+      const result = await runtime.runPromise(
+        Effect.flatMap(AuthService, (auth) =>
+          auth.getUserAuthToken('user-1', 'github', 'testuser/blog')
+        )
+      );
+
+      expect(result).toBe('oauth-token');
+      expect(mockPrisma.gitIntegration.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', platform: 'github' },
+        data: { installationId: null },
+      });
+    });
+
+    it('should use the OAuth token when no repo is given', async () => {
+      const result = await makeAppRuntime().runPromise(
+        Effect.flatMap(AuthService, (auth) => auth.getUserAuthToken('user-1'))
+      );
+
+      expect(result).toBe('oauth-token');
+      expect(mockRedis.get).not.toHaveBeenCalled();
+    });
+
+    it('should link an installation the user can access', async () => {
+      await makeAppRuntime().runPromise(
+        Effect.flatMap(AuthService, (auth) =>
+          auth.linkGitHubInstallation('user-1', '42')
+        )
+      );
+
+      expect(mockPrisma.gitIntegration.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', platform: 'github' },
+        data: { installationId: '42' },
+      });
+    });
+
+    it('should refuse to link an installation of someone else', async () => {
+      const error = await makeAppRuntime().runPromise(
+        Effect.flip(
+          Effect.flatMap(AuthService, (auth) =>
+            auth.linkGitHubInstallation('user-1', '7')
+          )
+        )
+      );
+
+      expect(error._tag).toBe('InstallationAccessError');
+      expect(mockPrisma.gitIntegration.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
   describe('clearUserAuth', () => {
     it('should clear auth token via user repository', async () => {
       mockPrisma.gitIntegration.updateMany.mockResolvedValue({
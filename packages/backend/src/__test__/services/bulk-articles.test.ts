@@ -0,0 +1,436 @@
+import { Effect, Exit, ManagedRuntime } from 'effect';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import {
+  GitProviderError,
+  type GitProviderRepositoryService,
+} from '../../repositories/git-provider-repository';
+import * as ArticleService from '../../services/article';
+import { mockPrisma, resetMockPrisma } from '../helpers/mock-database';
+import {
+  mockArticle,
+  mockArticleRevision,
+  mockGitIntegration,
+  mockSite,
+  mockUser,
+} from '../helpers/mock-factories';
+import { makeMockGitProvider } from '../helpers/mock-git-provider';
+import { makeTestRepositoryLayer } from '../helpers/test-layers';
+
+const siteArticle = (
+  id: string,
+  overrides: Parameters<typeof mockArticle>[0] = {}
+) => ({
+  ...mockArticle({ id, slug: id, siteId: 'site-1', ...overrides }),
+  site: {
+    id: 'site-1',
+    name: 'Test Site',
+    userId: 'user-1',
+    gitRepo: 'testuser/test-repo',
+  },
+});
+
+const makeBulkRuntime = (
+  commitChangeset = makeMockGitProvider().commitChangeset,
+  // Blob SHAs of the files in the repository by path
+  remoteShas: Record<string, string> = {},
+  // What every blob in the repository reads as
+  blobContent = '# Mock blob'
+) => {
+  const commit = vi.fn<GitProviderRepositoryService['commitChangeset']>(
+    (...args) => commitChangeset(...args)
+  );
+  const runtime = ManagedRuntime.make(
+    makeTestRepositoryLayer({
+      ...makeMockGitProvider(),
+      getArticleFileSha: (_accessToken, _repoFullName, _slug, filePath) =>
+        Effect.succeed((filePath && remoteShas[filePath]) ?? null),
+      getBlobContent: () => Effect.succeed(blobContent),
+      commitChangeset: commit,
+    })
+  );
+  return { runtime, commit };
+};
+
+describe('Bulk article actions', () => {
+  beforeEach(() => {
+    resetMockPrisma();
+    mockPrisma.site.findUnique.mockResolvedValue(mockSite());
+    mockPrisma.site.update.mockResolvedValue(mockSite());
+    mockPrisma.article.update.mockResolvedValue(siteArticle('article-1'));
+    mockPrisma.articleRevision.create.mockResolvedValue(mockArticleRevision());
+    mockPrisma.gitIntegration.findFirst.mockResolvedValue(mockGitIntegration());
+    mockPrisma.user.findUnique.mockResolvedValue(mockUser());
+  });
+
+  describe('bulkPublishArticles', () => {
+    it('should publish every article in one commit', async () => {
+      const { runtime, commit } = makeBulkRuntime();
+      mockPrisma.article.findMany.mockResolvedValue([
+        siteArticle('first'),
+        siteArticle('second'),
+      ]);
+
+      const results = await runtime.runPromise(
+        ArticleService.bulkPublishArticles('site-1', 'user-1', [
+          'first',
+          'second',
+        ])
+      );
+
+      expect(results).toEqual([
+        { articleId: 'first', success: true, error: null },
+        { articleId: 'second', success: true, error: null },
+      ]);
+      expect(commit).toHaveBeenCalledTimes(1);
+      const { message, changes } = commit.mock.calls[0][2];
+      expect(message).toBe('Publish 2 articles\n\n- first\n- second');
+      expect(changes.map((change) => change.path)).toEqual([
+        'content/first.md',
+        'content/second.md',
+      ]);
+      expect(mockPrisma.article.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'second' },
+          data: expect.objectContaining({
+            status: 'published',
+            gitSha: 'newblobsha789',
+          }),
+        })
+      );
+
+      await runtime.dispose();
+    });
+
+    it("should follow the site's commit template and credit collaborators", async () => {
+      const { runtime, commit } = makeBulkRuntime();
+      const user = { ...mockUser(), gitIntegrations: [mockGitIntegration()] };
+      mockPrisma.user.findUnique.mockResolvedValue(user);
+      const article = siteArticle('first', { gitSha: 'abc123blobsha' });
+      const templatedArticle = {
+        ...article,
+        site: {
+          ...article.site,
+          commitMessageTemplate: 'docs: {action} {slug}',
+        },
+      };
+      mockPrisma.article.findMany.mockResolvedValue([templatedArticle]);
+
+      await runtime.runPromise(
+        ArticleService.bulkPublishArticles('site-1', 'user-1', ['first'])
+      );
+
+      expect(commit.mock.calls[0][2].message).toBe(
+        'docs: Publish first\n\nCo-authored-by: Jane Doe <jane@example.com>'
+      );
+
+      await runtime.dispose();
+    });
+
+    it('should report ids that are not articles of the site', async () => {
+      const { runtime } = makeBulkRuntime();
+      mockPrisma.article.findMany.mockResolvedValue([siteArticle('first')]);
+
+      const results = await runtime.runPromise(
+        ArticleService.bulkPublishArticles('site-1', 'user-1', [
+          'first',
+          'elsewhere',
+        ])
+      );
+
+      expect(results).toEqual([
+        { articleId: 'first', success: true, error: null },
+        { articleId: 'elsewhere', success: false, error: 'Article not found' },
+      ]);
+
+      await runtime.dispose();
+    });
+
+    it('should fail every article when the commit fails', async () => {
+      const { runtime } = makeBulkRuntime(() =>
+        Effect.fail(new GitProviderError({ message: 'Push rejected' }))
+      );
+      mockPrisma.article.findMany.mockResolvedValue([
+        siteArticle('first'),
+        siteArticle('second'),
+      ]);
+
+      const results = await runtime.runPromise(
+        ArticleService.bulkPublishArticles('site-1', 'user-1', [
+          'first',
+          'second',
+        ])
+      );
+
+      expect(results.every((result) => !result.success)).toBe(true);
+      expect(results[0].error).toBe('Push rejected');
+      expect(mockPrisma.article.update).not.toHaveBeenCalled();
+
+      await runtime.dispose();
+    });
+
+    it('should reject sites the user does not own', async () => {
+      const { runtime, commit } = makeBulkRuntime();
+      mockPrisma.site.findUnique.mockResolvedValue(
+        mockSite({ userId: 'user-2' })
+      );
+
+      const result = await runtime.runPromiseExit(
+        ArticleService.bulkPublishArticles('site-1', 'user-1', ['first'])
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+      expect(mockPrisma.article.findMany).not.toHaveBeenCalled();
+      expect(commit).not.toHaveBeenCalled();
+
+      await runtime.dispose();
+    });
+  });
+
+  describe('bulkUnpublishArticles', () => {
+    it('should delete published files and skip drafts', async () => {
+      const { runtime, commit } = makeBulkRuntime();
+      mockPrisma.article.findMany.mockResolvedValue([
+        siteArticle('first', { status: 'published', gitSha: 'blobsha' }),
+        siteArticle('second', { status: 'draft' }),
+      ]);
+
+      const results = await runtime.runPromise(
+        ArticleService.bulkUnpublishArticles('site-1', 'user-1', [
+          'first',
+          'second',
+        ])
+      );
+
+      expect(results).toEqual([
+        { articleId: 'first', success: true, error: null },
+        {
+          articleId: 'second',
+          success: false,
+          error: 'Article is not published',
+        },
+      ]);
+      expect(commit.mock.calls[0][2].changes).toEqual([
+        { path: 'content/first.md', base64Content: null },
+      ]);
+      expect(mockPrisma.article.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'first' },
+          data: expect.objectContaining({ status: 'draft', gitSha: null }),
+        })
+      );
+
+      await runtime.dispose();
+    });
+
+    it('should leave articles whose files changed in the repository', async () => {
+      const { runtime, commit } = makeBulkRuntime(undefined, {
+        'content/first.md': 'blobsha',
+        'content/old-second.md': 'edited-sha',
+      });
+      mockPrisma.article.findMany.mockResolvedValue([
+        siteArticle('first', { status: 'published', gitSha: 'blobsha' }),
+        siteArticle('second', {
+          status: 'published',
+          gitSha: 'synced-sha',
+          previousSlug: 'old-second',
+        }),
+      ]);
+
+      const results = await runtime.runPromise(
+        ArticleService.bulkUnpublishArticles('site-1', 'user-1', [
+          'first',
+          'second',
+        ])
+      );
+
+      expect(results).toEqual([
+        { articleId: 'first', success: true, error: null },
+        {
+          articleId: 'second',
+          success: false,
+          error:
+            'The article was modified in the repository since it was last synced',
+        },
+      ]);
+      expect(commit.mock.calls[0][2].changes).toEqual([
+        { path: 'content/first.md', base64Content: null },
+      ]);
+
+      await runtime.dispose();
+    });
+  });
+
+  describe('bulkDeleteArticles', () => {
+    it('should keep published articles whose files were not deleted', async () => {
+      const { runtime } = makeBulkRuntime(() =>
+        Effect.fail(new GitProviderError({ message: 'Push rejected' }))
+      );
+      mockPrisma.article.findMany.mockResolvedValue([
+        siteArticle('first', { status: 'published', gitSha: 'blobsha' }),
+        siteArticle('second', { status: 'draft' }),
+      ]);
+      mockPrisma.article.delete.mockResolvedValue(mockArticle());
+
+      const results = await runtime.runPromise(
+        ArticleService.bulkDeleteArticles('site-1', 'user-1', [
+          'first',
+          'second',
+        ])
+      );
+
+      expect(results).toEqual([
+        { articleId: 'second', success: true, error: null },
+        { articleId: 'first', success: false, error: 'Push rejected' },
+      ]);
+      expect(mockPrisma.article.delete).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.article.delete).toHaveBeenCalledWith({
+        where: { id: 'second' },
+      });
+
+      await runtime.dispose();
+    });
+
+    it('should remove the files of every article in the repository', async () => {
+      const { runtime, commit } = makeBulkRuntime();
+      mockPrisma.article.findMany.mockResolvedValue([
+        siteArticle('first', {
+          status: 'draft',
+          gitSha: 'blobsha',
+          previousSlug: 'old-first',
+        }),
+        siteArticle('second', { status: 'draft' }),
+      ]);
+      mockPrisma.article.delete.mockResolvedValue(mockArticle());
+
+      const results = await runtime.runPromise(
+        ArticleService.bulkDeleteArticles('site-1', 'user-1', [
+          'first',
+          'second',
+        ])
+      );
+
+      expect(results.every((result) => result.success)).toBe(true);
+      expect(commit.mock.calls[0][2].changes).toEqual([
+        { path: 'content/first.md', base64Content: null },
+        { path: 'content/old-first.md', base64Content: null },
+      ]);
+
+      await runtime.dispose();
+    });
+  });
+
+  describe('bulkUpdateArticleDate', () => {
+    it('should move files named after the date in one commit', async () => {
+      const { runtime, commit } = makeBulkRuntime();
+      const article = siteArticle('first', {
+        gitSha: 'blobsha',
+        publishedAt: new Date('2026-01-15T00:00:00Z'),
+      });
+      const datedArticle = {
+        ...article,
+        site: { ...article.site, fileNaming: '{date}-{slug}.md' },
+      };
+      mockPrisma.article.findMany.mockResolvedValue([datedArticle]);
+      mockPrisma.article.findUnique.mockResolvedValue(datedArticle);
+
+      const results = await runtime.runPromise(
+        ArticleService.bulkUpdateArticleDate(
+          'site-1',
+          'user-1',
+          ['first'],
+          '2026-02-01T00:00:00.000Z'
+        )
+      );
+
+      expect(results).toEqual([
+        { articleId: 'first', success: true, error: null },
+      ]);
+      expect(commit.mock.calls[0][2].changes).toEqual([
+        { path: 'content/2026-01-15-first.md', base64Content: null },
+        {
+          path: 'content/2026-02-01-first.md',
+          base64Content: Buffer.from('# Mock blob').toString('base64'),
+        },
+      ]);
+      expect(mockPrisma.article.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'first' },
+          data: expect.objectContaining({
+            publishedAt: new Date('2026-02-01T00:00:00.000Z'),
+          }),
+        })
+      );
+      expect(mockPrisma.article.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'first' },
+          data: expect.objectContaining({ previousPublishedAt: null }),
+        })
+      );
+
+      await runtime.dispose();
+    });
+
+    it('should rewrite the date in the moved file', async () => {
+      const { runtime, commit } = makeBulkRuntime(
+        undefined,
+        {},
+        '---\ntitle: First # kept\ndate: 2026-01-15\n---\n\nBody\n'
+      );
+      const article = siteArticle('first', {
+        gitSha: 'blobsha',
+        publishedAt: new Date('2026-01-15T00:00:00Z'),
+      });
+      const datedArticle = {
+        ...article,
+        site: { ...article.site, fileNaming: '{date}-{slug}.md' },
+      };
+      mockPrisma.article.findMany.mockResolvedValue([datedArticle]);
+      mockPrisma.article.findUnique.mockResolvedValue(datedArticle);
+
+      await runtime.runPromise(
+        ArticleService.bulkUpdateArticleDate(
+          'site-1',
+          'user-1',
+          ['first'],
+          '2026-02-01'
+        )
+      );
+
+      const moved = commit.mock.calls[0][2].changes[1];
+      expect(moved.path).toBe('content/2026-02-01-first.md');
+      expect(Buffer.from(moved.base64Content ?? '', 'base64').toString()).toBe(
+        '---\ntitle: First # kept\ndate: 2026-02-01\n---\n\nBody\n'
+      );
+
+      await runtime.dispose();
+    });
+  });
+
+  describe('bulkUpdateArticleTags', () => {
+    it('should add and remove tags, keeping the others', async () => {
+      const { runtime } = makeBulkRuntime();
+      const article = siteArticle('first', { tags: 'news, Drafts, go' });
+      mockPrisma.article.findMany.mockResolvedValue([article]);
+      mockPrisma.article.findUnique.mockResolvedValue(article);
+
+      const results = await runtime.runPromise(
+        ArticleService.bulkUpdateArticleTags('site-1', 'user-1', ['first'], {
+          add: ['rust', 'news'],
+          remove: ['drafts'],
+        })
+      );
+
+      expect(results).toEqual([
+        { articleId: 'first', success: true, error: null },
+      ]);
+      expect(mockPrisma.article.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ tags: 'news, go, rust' }),
+        })
+      );
+
+      await runtime.dispose();
+    });
+  });
+});
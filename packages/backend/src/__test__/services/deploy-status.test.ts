@@ -0,0 +1,164 @@
+import { Effect, ManagedRuntime } from 'effect';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import {
+  GitProviderError,
+  type DeployRun,
+} from '../../repositories/git-provider-repository';
+import * as SiteService from '../../services/site';
+import { deployUpdateFor } from '../../services/site/git/refresh-deploy-status';
+import { mockPrisma, resetMockPrisma } from '../helpers/mock-database';
+import { mockGitIntegration, mockSite } from '../helpers/mock-factories';
+import { makeMockGitProvider } from '../helpers/mock-git-provider';
+import { makeTestRepositoryLayer } from '../helpers/test-layers';
+
+const buildingSite = () =>
+  mockSite({
+    deployStatus: 'building',
+    deployCommitSha: 'commit-1',
+    deployStartedAt: new Date('2026-01-01T00:00:00Z'),
+  });
+
+const run = (overrides: Partial<DeployRun> = {}): DeployRun => ({
+  url: 'https://github.com/testuser/test-repo/actions/runs/1',
+  status: 'running',
+  startedAt: new Date('2026-01-01T00:00:00Z'),
+  finishedAt: null,
+  ...overrides,
+});
+
+describe('Deploy status', () => {
+  beforeEach(() => {
+    resetMockPrisma();
+  });
+
+  describe('deployUpdateFor', () => {
+    const now = new Date('2026-01-01T00:05:00Z');
+
+    it('should record the outcome and duration of finished runs', () => {
+      expect(
+        deployUpdateFor(
+          buildingSite(),
+          run({
+            status: 'failure',
+            finishedAt: new Date('2026-01-01T00:02:00Z'),
+          }),
+          now
+        )
+      ).toEqual({
+        deployStatus: 'failed',
+        deployRunUrl: 'https://github.com/testuser/test-repo/actions/runs/1',
+        deployDuration: 120,
+      });
+    });
+
+    it('should keep building while the run is in progress', () => {
+      expect(deployUpdateFor(buildingSite(), run(), now)).toEqual({
+        deployRunUrl: 'https://github.com/testuser/test-repo/actions/runs/1',
+      });
+      expect(
+        deployUpdateFor(
+          mockSite({ ...buildingSite(), deployRunUrl: run().url }),
+          run(),
+          now
+        )
+      ).toBeNull();
+    });
+
+    it('should stop waiting for a run that never started', () => {
+      expect(deployUpdateFor(buildingSite(), null, now)).toBeNull();
+      expect(
+        deployUpdateFor(buildingSite(), null, new Date('2026-01-01T00:11:00Z'))
+      ).toEqual({ deployStatus: 'pending' });
+    });
+  });
+
+  describe('refreshDeployStatus', () => {
+    it('should record the run of the building commit', async () => {
+      const runtime = ManagedRuntime.make(
+        makeTestRepositoryLayer(makeMockGitProvider())
+      );
+      mockPrisma.site.findUnique.mockResolvedValue(buildingSite());
+      mockPrisma.gitIntegration.findFirst.mockResolvedValue(
+        mockGitIntegration()
+      );
+      mockPrisma.site.update.mockResolvedValue(
+        mockSite({ ...buildingSite(), deployStatus: 'deployed' })
+      );
+
+      const deployment = await runtime.runPromise(
+        SiteService.refreshDeployStatus('site-1', 'user-1')
+      );
+
+      expect(mockPrisma.site.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            deployStatus: 'deployed',
+            deployRunUrl:
+              'https://github.com/testuser/test-repo/actions/runs/1',
+            deployDuration: 90,
+          }),
+        })
+      );
+      expect(deployment).toMatchObject({
+        status: 'deployed',
+        commitSha: 'commit-1',
+      });
+
+      await runtime.dispose();
+    });
+
+    it('should stop tracking on hosts without deploy runs', async () => {
+      const runtime = ManagedRuntime.make(
+        makeTestRepositoryLayer({
+          ...makeMockGitProvider(),
+          getCommitDeployRun: () =>
+            Effect.fail(
+              new GitProviderError({
+                message: 'Deploy runs are not available',
+                status: 501,
+              })
+            ),
+        })
+      );
+      mockPrisma.site.findUnique.mockResolvedValue(buildingSite());
+      mockPrisma.gitIntegration.findFirst.mockResolvedValue(
+        mockGitIntegration()
+      );
+      mockPrisma.site.update.mockResolvedValue(mockSite());
+
+      await runtime.runPromise(
+        SiteService.refreshDeployStatus('site-1', 'user-1')
+      );
+
+      expect(mockPrisma.site.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            deployStatus: 'pending',
+            deployCommitSha: null,
+          }),
+        })
+      );
+
+      await runtime.dispose();
+    });
+
+    it('should leave sites that are not building alone', async () => {
+      const runtime = ManagedRuntime.make(
+        makeTestRepositoryLayer(makeMockGitProvider())
+      );
+      mockPrisma.site.findUnique.mockResolvedValue(
+        mockSite({ deployStatus: 'deployed' })
+      );
+
+      const deployment = await runtime.runPromise(
+        SiteService.refreshDeployStatus('site-1', 'user-1')
+      );
+
+      expect(deployment.status).toBe('deployed');
+      expect(mockPrisma.site.update).not.toHaveBeenCalled();
+
+      await runtime.dispose();
+    });
+  });
+});
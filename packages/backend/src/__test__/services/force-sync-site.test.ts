@@ -1,13 +1,15 @@
 import { Effect, Layer, ManagedRuntime, Exit } from 'effect';
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 
-import {
-  GitProviderRepository,
-  type GitProviderRepositoryService,
-} from '../../repositories/git-provider-repository';
+import type { AuthProviderRepositoryService } from '../../repositories/auth-provider-repository';
+import type { GitProviderRepositoryService } from '../../repositories/git-provider-repository';
+
+import { GitProviderError } from '../../repositories/git-provider-repository';
 import { PrismaArticleRepositoryLive } from '../../repositories/implementations/prisma-article-repository';
+import { PrismaArticleRevisionRepositoryLive } from '../../repositories/implementations/prisma-article-revision-repository';
 import { PrismaMediaRepositoryLive } from '../../repositories/implementations/prisma-media-repository';
 import { PrismaSiteRepositoryLive } from '../../repositories/implementations/prisma-site-repository';
+import { PrismaSiteTemplateRepositoryLive } from '../../repositories/implementations/prisma-site-template-repository';
 import { PrismaUserRepositoryLive } from '../../repositories/implementations/prisma-user-repository';
 import { AuthServiceLive } from '../../services/auth/auth-service-live';
 import { makeConfigService } from '../../services/config-service';
@@ -17,7 +19,12 @@ import * as SiteService from '../../services/site';
 import { SiteServiceLive } from '../../services/site/site-service-live';
 import { UserServiceLive } from '../../services/user/user-service-live';
 import { MockArticleServiceLive } from '../helpers/mock-article-service';
-import { MockAuthProviderLive } from '../helpers/mock-auth-provider';
+import {
+  makeMockAuthProvider,
+  makeMockAuthProviderLayer,
+  makeMockGitHubApp,
+  MockAuthProviderLive,
+} from '../helpers/mock-auth-provider';
 import {
   mockPrisma,
   resetMockPrisma,
@@ -27,8 +34,13 @@ import {
   mockArticle,
   mockGitIntegration,
   mockSite,
+  mockSiteTemplate,
+  mockUser,
 } from '../helpers/mock-factories';
-import { makeMockGitProvider } from '../helpers/mock-git-provider';
+import {
+  makeMockGitProvider,
+  makeMockGitProviderLayer,
+} from '../helpers/mock-git-provider';
 import { TestRedisServiceLayer } from '../helpers/mock-redis';
 import { TestRepositoryLayer } from '../helpers/test-layers';
 
@@ -45,32 +57,43 @@ const deletedRepoGitProvider: GitProviderRepositoryService = {
 const ConfigLayer = makeConfigService;
 const RepositoryLayer = Layer.mergeAll(
   PrismaArticleRepositoryLive,
+  PrismaArticleRevisionRepositoryLive,
   PrismaMediaRepositoryLive,
   PrismaSiteRepositoryLive,
+  PrismaSiteTemplateRepositoryLive,
   PrismaUserRepositoryLive
 ).pipe(Layer.provide(TestDatabaseServiceLayer));
 const SessionLayer = SessionServiceLive.pipe(
   Layer.provide(Layer.merge(TestRedisServiceLayer, ConfigLayer))
 );
 
-const DeletedRepoLayer = Layer.mergeAll(
-  TestRedisServiceLayer,
-  ConfigLayer,
-  RepositoryLayer,
-  Layer.succeed(GitProviderRepository, deletedRepoGitProvider),
-  MockAuthProviderLive,
-  MockArticleServiceLive,
-  AuthServiceLive,
-  MediaServiceLive,
-  SessionLayer,
-  SiteServiceLive,
-  UserServiceLive
-);
-
-const deletedRepoRuntime = ManagedRuntime.make(DeletedRepoLayer);
+const makeGitProviderRuntime = (
+  gitProvider: GitProviderRepositoryService,
+  authProviderLayer: Layer.Layer<
+    Layer.Layer.Success<typeof MockAuthProviderLive>
+  > = MockAuthProviderLive
+) =>
+  ManagedRuntime.make(
+    Layer.mergeAll(
+      TestRedisServiceLayer,
+      ConfigLayer,
+      RepositoryLayer,
+      makeMockGitProviderLayer(gitProvider),
+      authProviderLayer,
+      MockArticleServiceLive,
+      AuthServiceLive,
+      MediaServiceLive,
+      SessionLayer,
+      SiteServiceLive,
+      UserServiceLive
+    )
+  );
+
+const deletedRepoRuntime = makeGitProviderRuntime(deletedRepoGitProvider);
 
 const setupAuthMocks = () => {
   mockPrisma.gitIntegration.findFirst.mockResolvedValue(mockGitIntegration());
+  mockPrisma.user.findUnique.mockResolvedValue(mockUser());
 };
 
 describe('SiteService', () => {
@@ -233,6 +256,219 @@ describe('SiteService', () => {
         expect(updateCall.data.gitSyncedAt).toBeInstanceOf(Date);
       });
 
+      it('should write workflow files, config, deletions and articles as one changeset', async () => {
+        const commitChangeset = vi.fn<
+          GitProviderRepositoryService['commitChangeset']
+        >((_token, _repo, opts) =>
+          makeMockGitProvider().commitChangeset(_token, _repo, opts)
+        );
+        const publishArticleToRepo =
+          vi.fn<GitProviderRepositoryService['publishArticleToRepo']>();
+        const injectInlandWorkflow =
+          vi.fn<GitProviderRepositoryService['injectInlandWorkflow']>();
+        const runtime = makeGitProviderRuntime({
+          ...makeMockGitProvider(),
+          commitChangeset,
+          publishArticleToRepo,
+          injectInlandWorkflow,
+        });
+
+        mockPrisma.site.findUnique.mockResolvedValue(mockSite());
+        setupAuthMocks();
+        mockPrisma.article.findMany.mockResolvedValue([
+          mockArticle({
+            id: 'a1',
+            slug: 'hello',
+            status: 'published',
+            publishedAt: new Date('2025-01-01'),
+          }),
+        ]);
+
+        await runtime.runPromise(SiteService.forceSyncSite('site-1', 'user-1'));
+
+        expect(publishArticleToRepo).not.toHaveBeenCalled();
+        expect(injectInlandWorkflow).not.toHaveBeenCalled();
+        expect(commitChangeset).toHaveBeenCalledTimes(1);
+        const [, repo, opts] = commitChangeset.mock.calls[0];
+        expect(repo).toBe('testuser/test-repo');
+        expect(
+          opts.changes.map((c) => [c.path, c.base64Content !== null])
+        ).toEqual([
+          ['.github/workflows/deploy.yml', true],
+          ['build/index.js', true],
+          ['inland.config.json', true],
+          ['content/test-article.md', false],
+          ['content/hello.md', true],
+        ]);
+
+        await runtime.dispose();
+      });
+
+      it("should reach the repository through the user's GitHub App installation", async () => {
+        const commitChangeset = vi.fn<
+          GitProviderRepositoryService['commitChangeset']
+        >((_token, _repo, opts) =>
+          makeMockGitProvider().commitChangeset(_token, _repo, opts)
+        );
+        const fetchUser = vi.fn<AuthProviderRepositoryService['fetchUser']>(
+          (token) => makeMockAuthProvider().fetchUser(token)
+        );
+        const runtime = makeGitProviderRuntime(
+          { ...makeMockGitProvider(), commitChangeset },
+          makeMockAuthProviderLayer(
+            { ...makeMockAuthProvider(), fetchUser },
+            makeMockGitHubApp({ enabled: true })
+          )
+        );
+
+        mockPrisma.site.findUnique.mockResolvedValue(mockSite());
+        mockPrisma.gitIntegration.findFirst.mockResolvedValue(
+          mockGitIntegration({
+            accessToken: 'oauth-token',
+            installationId: '42',
+          })
+        );
+        mockPrisma.user.findUnique.mockResolvedValue(mockUser());
+        mockPrisma.article.findMany.mockResolvedValue([]);
+
+        await runtime.runPromise(SiteService.forceSyncSite('site-1', 'user-1'));
+
+        expect(commitChangeset.mock.calls[0][0]).toBe(
+          'installation-token:42:testuser/test-repo'
+        );
+        // The OAuth token only identifies the user
+        expect(fetchUser).toHaveBeenCalledWith('oauth-token');
+
+        await runtime.dispose();
+      });
+
+      it("should keep the generated site config over the template's copy", async () => {
+        const commitChangeset = vi.fn<
+          GitProviderRepositoryService['commitChangeset']
+        >((_token, _repo, opts) =>
+          makeMockGitProvider().commitChangeset(_token, _repo, opts)
+        );
+        const runtime = makeGitProviderRuntime({
+          ...makeMockGitProvider(),
+          buildInlandWorkflowChanges: () =>
+            Effect.succeed({
+              changes: [
+                {
+                  path: 'inland.config.json',
+                  base64Content: Buffer.from('{}').toString('base64'),
+                },
+              ],
+              filesSkipped: [],
+            }),
+          commitChangeset,
+        });
+
+        mockPrisma.site.findUnique.mockResolvedValue(mockSite());
+        setupAuthMocks();
+        mockPrisma.article.findMany.mockResolvedValue([]);
+
+        await runtime.runPromise(SiteService.forceSyncSite('site-1', 'user-1'));
+
+        const configChanges = commitChangeset.mock.calls[0][2].changes.filter(
+          (c) => c.path === 'inland.config.json'
+        );
+        expect(configChanges).toHaveLength(1);
+        expect(
+          Buffer.from(configChanges[0].base64Content ?? '', 'base64').toString()
+        ).not.toBe('{}');
+
+        await runtime.dispose();
+      });
+
+      it('should fail without committing when the workflow files cannot be read', async () => {
+        const commitChangeset =
+          vi.fn<GitProviderRepositoryService['commitChangeset']>();
+        const runtime = makeGitProviderRuntime({
+          ...makeMockGitProvider(),
+          buildInlandWorkflowChanges: () =>
+            Effect.fail(new GitProviderError({ message: 'Bad credentials' })),
+          commitChangeset,
+        });
+
+        mockPrisma.site.findUnique.mockResolvedValue(mockSite());
+        setupAuthMocks();
+        mockPrisma.article.findMany.mockResolvedValue([]);
+
+        const result = await runtime.runPromiseExit(
+          SiteService.forceSyncSite('site-1', 'user-1')
+        );
+
+        expect(Exit.isFailure(result)).toBe(true);
+        expect(commitChangeset).not.toHaveBeenCalled();
+
+        await runtime.dispose();
+      });
+
+      it("should reinject the site's template at the version it came from", async () => {
+        const buildInlandWorkflowChanges = vi.fn<
+          GitProviderRepositoryService['buildInlandWorkflowChanges']
+        >((...args) =>
+          makeMockGitProvider().buildInlandWorkflowChanges(...args)
+        );
+        const runtime = makeGitProviderRuntime({
+          ...makeMockGitProvider(),
+          buildInlandWorkflowChanges,
+        });
+
+        mockPrisma.site.findUnique.mockResolvedValue(
+          mockSite({ templateId: 'template-1', templateVersion: 'oldsha' })
+        );
+        mockPrisma.siteTemplate.findUnique.mockResolvedValue(
+          mockSiteTemplate()
+        );
+        setupAuthMocks();
+        mockPrisma.article.findMany.mockResolvedValue([]);
+
+        await runtime.runPromise(SiteService.forceSyncSite('site-1', 'user-1'));
+
+        expect(buildInlandWorkflowChanges.mock.calls[0][3]).toEqual({
+          overrideExistingFiles: true,
+          template: {
+            repo: 'acme/inland-template-docs',
+            ref: 'oldsha',
+            files: [
+              'build/index.js',
+              'templates/layout.html',
+              'assets/docs.css',
+            ],
+            placeholders: { '%%TITLE%%': 'siteName' },
+          },
+        });
+
+        await runtime.dispose();
+      });
+
+      it('should inject the default files for sites without a template', async () => {
+        const buildInlandWorkflowChanges = vi.fn<
+          GitProviderRepositoryService['buildInlandWorkflowChanges']
+        >((...args) =>
+          makeMockGitProvider().buildInlandWorkflowChanges(...args)
+        );
+        const runtime = makeGitProviderRuntime({
+          ...makeMockGitProvider(),
+          buildInlandWorkflowChanges,
+        });
+
+        mockPrisma.site.findUnique.mockResolvedValue(mockSite());
+        setupAuthMocks();
+        mockPrisma.article.findMany.mockResolvedValue([]);
+
+        await runtime.runPromise(SiteService.forceSyncSite('site-1', 'user-1'));
+
+        expect(mockPrisma.siteTemplate.findUnique).not.toHaveBeenCalled();
+        expect(buildInlandWorkflowChanges.mock.calls[0][3]).toEqual({
+          overrideExistingFiles: true,
+          template: undefined,
+        });
+
+        await runtime.dispose();
+      });
+
       it('should return zero media imported for existing repo', async () => {
         mockPrisma.site.findUnique.mockResolvedValue(mockSite());
         setupAuthMocks();
@@ -303,6 +539,43 @@ describe('SiteService', () => {
           })
         );
       });
+
+      it("should recreate the repo from the site's template", async () => {
+        const createRepositoryWithPages = vi.fn<
+          GitProviderRepositoryService['createRepositoryWithPages']
+        >((...args) =>
+          makeMockGitProvider().createRepositoryWithPages(...args)
+        );
+        const runtime = makeGitProviderRuntime({
+          ...deletedRepoGitProvider,
+          createRepositoryWithPages,
+        });
+
+        mockPrisma.site.findUnique.mockResolvedValue(
+          mockSite({ templateId: 'template-1', templateVersion: 'oldsha' })
+        );
+        mockPrisma.siteTemplate.findUnique.mockResolvedValue(
+          mockSiteTemplate()
+        );
+        setupAuthMocks();
+        mockPrisma.site.update.mockResolvedValue(mockSite());
+        mockPrisma.article.findMany.mockResolvedValue([]);
+
+        await runtime.runPromise(SiteService.forceSyncSite('site-1', 'user-1'));
+
+        expect(createRepositoryWithPages.mock.calls[0][1]).toMatchObject({
+          templateOwner: 'acme',
+          templateRepo: 'inland-template-docs',
+          placeholders: { '%%TITLE%%': 'siteName' },
+        });
+        expect(mockPrisma.site.update).toHaveBeenCalledWith(
+          expect.objectContaining({
+            data: expect.objectContaining({ templateVersion: 'templatesha1' }),
+          })
+        );
+
+        await runtime.dispose();
+      });
     });
   });
 });
@@ -0,0 +1,287 @@
+import { Effect } from 'effect';
+import { describe, it, expect } from 'vitest';
+
+import { RateLimitedError } from '../../repositories/git-provider-repository';
+import {
+  DEFAULT_CONTENT_LAYOUT,
+  addSlugRedirect,
+  articleFilePath,
+  isArticleFile,
+  isMediaFile,
+  mediaFilePath,
+  parseArticleFiles,
+  parseArticleFilePath,
+  parseMarkdownContent,
+} from '../../repositories/implementations/git-content-utils';
+import { buildArticleMarkdown } from '../../services/article/article-markdown';
+
+describe('content layout', () => {
+  const jekyll = {
+    contentRoot: '_posts',
+    fileNaming: '{date}-{slug}.md',
+    mediaRoot: 'assets/img/',
+  };
+
+  it('should default to the Inland template layout', () => {
+    expect(articleFilePath('hello')).toBe('content/hello.md');
+    expect(isArticleFile('content/hello.md')).toBe(true);
+    expect(isArticleFile('README.md')).toBe(false);
+    expect(mediaFilePath('cat.png')).toBe('assets/images/cat.png');
+  });
+
+  it('should fill the date placeholder from the given date', () => {
+    expect(
+      articleFilePath('hello', jekyll, new Date('2025-03-04T10:00:00Z'))
+    ).toBe('_posts/2025-03-04-hello.md');
+  });
+
+  it('should read the slug and date back from a file path', () => {
+    expect(parseArticleFilePath('_posts/2025-03-04-hello.md', jekyll)).toEqual({
+      slug: 'hello',
+      date: '2025-03-04',
+    });
+    expect(parseArticleFilePath('_posts/hello.md', jekyll)).toBeNull();
+  });
+
+  it('should support page bundles and the repository root', () => {
+    const bundles = {
+      ...DEFAULT_CONTENT_LAYOUT,
+      fileNaming: '{slug}/index.md',
+    };
+    const root = { ...DEFAULT_CONTENT_LAYOUT, contentRoot: '' };
+
+    expect(articleFilePath('hello', bundles)).toBe('content/hello/index.md');
+    expect(parseArticleFilePath('content/hello/index.md', bundles)).toEqual({
+      slug: 'hello',
+    });
+    expect(articleFilePath('hello', root)).toBe('hello.md');
+    expect(parseArticleFilePath('docs/hello.md', root)).toEqual({
+      slug: 'docs/hello',
+    });
+  });
+
+  it('should map nested article paths to subfolders', () => {
+    expect(articleFilePath('guides/install/linux')).toBe(
+      'content/guides/install/linux.md'
+    );
+    expect(parseArticleFilePath('content/guides/install/linux.md')).toEqual({
+      slug: 'guides/install/linux',
+    });
+    expect(
+      articleFilePath('guides/linux', jekyll, new Date('2025-03-04'))
+    ).toBe('_posts/guides/2025-03-04-linux.md');
+    expect(isArticleFile('content/.github/notes.md')).toBe(false);
+  });
+
+  it('should find page bundles in nested folders', () => {
+    const bundles = {
+      ...DEFAULT_CONTENT_LAYOUT,
+      fileNaming: '{slug}/index.md',
+    };
+
+    expect(articleFilePath('guides/install', bundles)).toBe(
+      'content/guides/install/index.md'
+    );
+    expect(
+      parseArticleFilePath('content/guides/install/index.md', bundles)
+    ).toEqual({ slug: 'guides/install' });
+  });
+
+  it('should rename nested articles from their front matter slug', () => {
+    const article = parseMarkdownContent(
+      '---\ntitle: Linux\nslug: on-linux\n---\n\nSteps',
+      'content/guides/install/linux.md'
+    );
+
+    expect(article?.slug).toBe('guides/install/on-linux');
+  });
+
+  it('should treat naming characters literally', () => {
+    const layout = { ...DEFAULT_CONTENT_LAYOUT, fileNaming: '{slug}.md' };
+    expect(isArticleFile('content/helloXmd', layout)).toBe(false);
+  });
+
+  it('should match media under the media root only', () => {
+    expect(isMediaFile('assets/img/cat.PNG', jekyll)).toBe(true);
+    expect(isMediaFile('assets/images/cat.png', jekyll)).toBe(false);
+    expect(isMediaFile('assets/img/notes.txt', jekyll)).toBe(false);
+    expect(mediaFilePath('cat.png', jekyll)).toBe('assets/img/cat.png');
+  });
+
+  it('should skip article files that fail to download', async () => {
+    const articles = await Effect.runPromise(
+      parseArticleFiles(
+        [
+          { path: 'content/ok.md', sha: 'sha-ok' },
+          { path: 'content/missing.md', sha: 'sha-missing' },
+        ],
+        undefined,
+        (file) =>
+          file.sha === 'sha-ok'
+            ? Effect.succeed('# OK')
+            : Effect.fail(new Error('not found'))
+      )
+    );
+
+    expect(articles).toMatchObject([{ slug: 'ok', gitSha: 'sha-ok' }]);
+  });
+
+  it('should stop reading article files at a rate limit', async () => {
+    const error = await Effect.runPromise(
+      Effect.flip(
+        parseArticleFiles(
+          [
+            { path: 'content/ok.md', sha: 'sha-ok' },
+            { path: 'content/limited.md', sha: 'sha-limited' },
+          ],
+          undefined,
+          (file) =>
+            file.sha === 'sha-ok'
+              ? Effect.succeed('# OK')
+              : Effect.fail(
+                  new RateLimitedError({
+                    message: 'GitHub API rate limit exceeded',
+                    platform: 'GitHub',
+                    resetAt: new Date(),
+                  })
+                )
+        )
+      )
+    );
+
+    expect(error._tag).toBe('RateLimitedError');
+  });
+
+  it('should take the date from the file name without front matter', () => {
+    const article = parseMarkdownContent(
+      '# Hello',
+      '_posts/2025-03-04-hello-world.md',
+      jekyll
+    );
+
+    expect(article).toMatchObject({
+      slug: 'hello-world',
+      title: 'Hello World',
+      date: '2025-03-04',
+      filePath: '_posts/2025-03-04-hello-world.md',
+    });
+  });
+});
+
+describe('front matter', () => {
+  const hugoPost = [
+    '---',
+    'title: "Release notes: version 2.0"',
+    'date: 2025-03-04',
+    'draft: false',
+    'author: Jane Doe',
+    'cover:',
+    '  image: /images/cover.png',
+    '  alt: A cover',
+    'description: |',
+    '  First line',
+    '  second line',
+    'tags:',
+    '  - release',
+    '  - notes',
+    '---',
+    '',
+    'Body text',
+  ].join('\n');
+
+  it('should parse quoted, multi-line and list values', () => {
+    const article = parseMarkdownContent(hugoPost, 'content/release.md');
+
+    expect(article).toMatchObject({
+      title: 'Release notes: version 2.0',
+      date: '2025-03-04',
+      excerpt: 'First line\nsecond line',
+      tags: 'release, notes',
+      content: 'Body text',
+      status: 'published',
+    });
+  });
+
+  it('should keep keys the CMS does not manage', () => {
+    const article = parseMarkdownContent(hugoPost, 'content/release.md');
+
+    expect(article?.extraFrontMatter).toEqual({
+      draft: false,
+      author: 'Jane Doe',
+      cover: { image: '/images/cover.png', alt: 'A cover' },
+      description: 'First line\nsecond line\n',
+    });
+  });
+
+  it('should write unknown keys back unchanged on publish', () => {
+    const imported = parseMarkdownContent(hugoPost, 'content/release.md');
+    const markdown = buildArticleMarkdown({
+      title: imported?.title ?? '',
+      content: imported?.content ?? '',
+      excerpt: 'Edited excerpt',
+      tags: imported?.tags ?? null,
+      publishedAt: new Date('2025-03-04T00:00:00Z'),
+      updatedAt: new Date('2025-03-05T00:00:00Z'),
+      extraFrontMatter: imported?.extraFrontMatter,
+    });
+    const republished = parseMarkdownContent(markdown, 'content/release.md');
+
+    expect(markdown).toContain('tags: [release, notes]');
+    expect(republished).toMatchObject({
+      title: 'Release notes: version 2.0',
+      excerpt: 'Edited excerpt',
+      tags: 'release, notes',
+      content: 'Body text',
+      extraFrontMatter: imported?.extraFrontMatter,
+    });
+  });
+
+  it('should accept inline tag lists and comma separated tags', () => {
+    const inline = parseMarkdownContent(
+      '---\ntags: [a, "b"]\n---\nBody',
+      'content/inline.md'
+    );
+    const commas = parseMarkdownContent(
+      '---\ntags: a, b\n---\nBody',
+      'content/commas.md'
+    );
+
+    expect(inline?.tags).toBe('a, b');
+    expect(commas?.tags).toBe('a, b');
+    expect(inline?.extraFrontMatter).toBeUndefined();
+  });
+
+  it('should skip files with invalid YAML front matter', () => {
+    expect(
+      parseMarkdownContent('---\ntitle: [oops\n---\nBody', 'content/bad.md')
+    ).toBeNull();
+  });
+});
+
+const parseRedirects = (file: string | null): unknown =>
+  JSON.parse(file ?? 'null');
+
+describe('slug redirects', () => {
+  it('should start a redirects file', () => {
+    expect(parseRedirects(addSlugRedirect(null, 'old', 'new'))).toEqual([
+      { from: 'old', to: 'new' },
+    ]);
+  });
+
+  it('should point earlier redirects at the new slug', () => {
+    const file = JSON.stringify([
+      { from: 'first', to: 'old' },
+      { from: 'new', to: 'elsewhere' },
+    ]);
+
+    expect(parseRedirects(addSlugRedirect(file, 'old', 'new'))).toEqual([
+      { from: 'first', to: 'new' },
+      { from: 'old', to: 'new' },
+    ]);
+  });
+
+  it('should reject a file that is not a list of redirects', () => {
+    expect(addSlugRedirect('{"old": "new"}', 'old', 'new')).toBeNull();
+    expect(addSlugRedirect('not json', 'old', 'new')).toBeNull();
+  });
+});
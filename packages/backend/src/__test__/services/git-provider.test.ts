@@ -1,17 +1,21 @@
 import { ManagedRuntime, Effect } from 'effect';
 import { describe, it, expect } from 'vitest';
 
-import { GitProviderRepository } from '../../repositories/git-provider-repository';
+import { GitProviderRegistry } from '../../repositories/git-provider-repository';
 import { MockGitProviderLive } from '../helpers/mock-git-provider';
 
 // Create test runtime with GitProvider
 const testRuntime = ManagedRuntime.make(MockGitProviderLive);
 
+const mockProvider = Effect.flatMap(GitProviderRegistry, (registry) =>
+  registry.forPlatform('github')
+);
+
 describe('GitProviderRepository', () => {
   describe('enablePages', () => {
     it('should enable pages for a repository successfully', async () => {
       const effect = Effect.gen(function* () {
-        const gitProvider = yield* GitProviderRepository;
+        const gitProvider = yield* mockProvider;
         return yield* gitProvider.enablePages(
           'test-token',
           'testuser/test-repo'
@@ -25,7 +29,7 @@ describe('GitProviderRepository', () => {
 
     it('should handle different repository names correctly', async () => {
       const effect = Effect.gen(function* () {
-        const gitProvider = yield* GitProviderRepository;
+        const gitProvider = yield* mockProvider;
         return yield* gitProvider.enablePages(
           'test-token',
           'myorg/my-awesome-project'
@@ -39,7 +43,7 @@ describe('GitProviderRepository', () => {
 
     it('should work with repository names containing hyphens', async () => {
       const effect = Effect.gen(function* () {
-        const gitProvider = yield* GitProviderRepository;
+        const gitProvider = yield* mockProvider;
         return yield* gitProvider.enablePages(
           'test-token',
           'user/my-project-name'
@@ -55,7 +59,7 @@ describe('GitProviderRepository', () => {
   describe('getRepositoryInfo', () => {
     it('should get repository information successfully', async () => {
       const effect = Effect.gen(function* () {
-        const gitProvider = yield* GitProviderRepository;
+        const gitProvider = yield* mockProvider;
         return yield* gitProvider.getRepositoryInfo(
           'test-token',
           'testuser/test-repo'
@@ -75,7 +79,7 @@ describe('GitProviderRepository', () => {
   describe('checkPagesStatus', () => {
     it('should check pages status successfully', async () => {
       const effect = Effect.gen(function* () {
-        const gitProvider = yield* GitProviderRepository;
+        const gitProvider = yield* mockProvider;
         return yield* gitProvider.checkPagesStatus(
           'test-token',
           'testuser/test-repo'
@@ -102,7 +106,7 @@ describe('GitProviderRepository', () => {
       };
 
       const effect = Effect.gen(function* () {
-        const gitProvider = yield* GitProviderRepository;
+        const gitProvider = yield* mockProvider;
         return yield* gitProvider.injectInlandWorkflow(
           'test-token',
           'testuser/test-repo',
@@ -133,7 +137,7 @@ describe('GitProviderRepository', () => {
       };
 
       const effect = Effect.gen(function* () {
-        const gitProvider = yield* GitProviderRepository;
+        const gitProvider = yield* mockProvider;
         return yield* gitProvider.injectInlandWorkflow(
           'test-token',
           'testuser/test-repo',
@@ -154,7 +158,7 @@ describe('GitProviderRepository', () => {
   describe('getMarkdownFilesFromRepo', () => {
     it('should get markdown files from repository', async () => {
       const effect = Effect.gen(function* () {
-        const gitProvider = yield* GitProviderRepository;
+        const gitProvider = yield* mockProvider;
         return yield* gitProvider.getMarkdownFilesFromRepo(
           'test-token',
           'testuser/test-repo',
@@ -179,7 +183,7 @@ describe('GitProviderRepository', () => {
   describe('publishArticleToRepo', () => {
     it('should publish article to repository successfully', async () => {
       const effect = Effect.gen(function* () {
-        const gitProvider = yield* GitProviderRepository;
+        const gitProvider = yield* mockProvider;
         return yield* gitProvider.publishArticleToRepo(
           'test-token',
           'testuser/test-repo',
@@ -201,7 +205,7 @@ describe('GitProviderRepository', () => {
   describe('deleteArticleFromRepo', () => {
     it('should delete article from repository successfully', async () => {
       const effect = Effect.gen(function* () {
-        const gitProvider = yield* GitProviderRepository;
+        const gitProvider = yield* mockProvider;
         return yield* gitProvider.deleteArticleFromRepo(
           'test-token',
           'testuser/test-repo',
@@ -0,0 +1,178 @@
+import { Effect } from 'effect';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { makeGiteaApiRepository } from '../../repositories/implementations/gitea-api-repository';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+describe('Gitea git provider', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+  const gitea = makeGiteaApiRepository({
+    baseUrl: 'https://gitea.example.com',
+  });
+  const giteaWithPages = makeGiteaApiRepository({
+    baseUrl: 'https://gitea.example.com',
+    pagesUrl: 'https://{owner}.pages.example.com/{repo}',
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const requestBody = (call: number): unknown => {
+    const body = fetchMock.mock.calls[call][1]?.body;
+    return typeof body === 'string' ? JSON.parse(body) : undefined;
+  };
+
+  describe('publishArticleToRepo', () => {
+    it('should create a new article with POST', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ message: 'Not Found' }, 404))
+        .mockResolvedValueOnce(
+          jsonResponse(
+            { commit: { sha: 'commit-sha-1' }, content: { sha: 'blob-1' } },
+            201
+          )
+        );
+
+      const result = await Effect.runPromise(
+        gitea.publishArticleToRepo(
+          'test-token',
+          'alice/my-blog',
+          'hello-world',
+          '# Hello'
+        )
+      );
+
+      expect(result).toEqual({
+        published: true,
+        filePath: 'content/hello-world.md',
+        commitSha: 'commit-sha-1',
+        blobSha: 'blob-1',
+        wasUpdate: false,
+      });
+
+      const [writeUrl, writeInit] = fetchMock.mock.calls[1];
+      expect(writeUrl).toBe(
+        'https://gitea.example.com/api/v1/repos/alice/my-blog/contents/content/hello-world.md'
+      );
+      expect(writeInit?.method).toBe('POST');
+      expect(requestBody(1)).toEqual({
+        message: 'Add article: hello-world',
+        content: Buffer.from('# Hello').toString('base64'),
+      });
+    });
+
+    it('should update an existing article with PUT and its sha', async () => {
+      fetchMock
+        .mockResolvedValueOnce(
+          jsonResponse({
+            content: Buffer.from('# Old').toString('base64'),
+            sha: 'old-blob',
+          })
+        )
+        .mockResolvedValueOnce(
+          jsonResponse({
+            commit: { sha: 'commit-sha-2' },
+            content: { sha: 'blob-2' },
+          })
+        );
+
+      const result = await Effect.runPromise(
+        gitea.publishArticleToRepo(
+          'test-token',
+          'alice/my-blog',
+          'hello-world',
+          '# Hello again'
+        )
+      );
+
+      expect(result.wasUpdate).toBe(true);
+      expect(fetchMock.mock.calls[1][1]?.method).toBe('PUT');
+      expect(requestBody(1)).toMatchObject({
+        message: 'Update article: hello-world',
+        sha: 'old-blob',
+      });
+    });
+
+    it('should report errors as Gitea API errors', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ message: 'Forbidden' }, 403)
+      );
+
+      const error = await Effect.runPromise(
+        Effect.flip(
+          gitea.publishArticleToRepo(
+            'test-token',
+            'alice/my-blog',
+            'hello-world',
+            '# Hello'
+          )
+        )
+      );
+
+      expect(error._tag).toBe('GitProviderError');
+      expect(error).toHaveProperty('status', 403);
+      expect(error.message).toContain('Gitea API error');
+    });
+  });
+
+  describe('checkPagesStatus', () => {
+    it('should report pages as disabled when no pages URL is configured', async () => {
+      const result = await Effect.runPromise(
+        gitea.checkPagesStatus('test-token', 'alice/my-blog')
+      );
+
+      expect(result).toEqual({ enabled: false });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should report pages as enabled once the pages branch exists', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ name: 'pages', commit: { id: 'abc' } })
+      );
+
+      const result = await Effect.runPromise(
+        giteaWithPages.checkPagesStatus('test-token', 'Alice/my-blog')
+      );
+
+      expect(result).toEqual({
+        enabled: true,
+        url: 'https://alice.pages.example.com/my-blog',
+        source: 'pages',
+      });
+    });
+  });
+
+  describe('public URLs', () => {
+    it('should build raw file URLs on the configured instance', () => {
+      expect(
+        gitea.getRawFileUrl('alice/my-blog', 'main', 'assets/images/photo.png')
+      ).toBe(
+        'https://gitea.example.com/alice/my-blog/raw/branch/main/assets/images/photo.png'
+      );
+    });
+
+    it('should fall back to the repository page without a pages URL', () => {
+      const urls = gitea.getPublicUrls('alice/my-blog', {
+        username: 'alice',
+        avatarUrl: 'https://gitea.example.com/avatars/alice',
+      });
+
+      expect(urls).toEqual({
+        pagesUrl: 'https://gitea.example.com/alice/my-blog',
+        avatarUrl: 'https://gitea.example.com/avatars/alice',
+        authorUrl: 'https://gitea.example.com/alice',
+      });
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { Effect } from 'effect';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { computeGitBlobSha } from '../../repositories/implementations/git-content-utils';
+import { makeGitLabApiRepository } from '../../repositories/implementations/gitlab-api-repository';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const project = {
+  id: 42,
+  name: 'my-blog',
+  path: 'my-blog',
+  path_with_namespace: 'MyGroup/blogs/my-blog',
+  web_url: 'https://gitlab.example.com/MyGroup/blogs/my-blog',
+  http_url_to_repo: 'https://gitlab.example.com/MyGroup/blogs/my-blog.git',
+  default_branch: 'main',
+};
+
+describe('GitLab git provider', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+  const gitlab = makeGitLabApiRepository({
+    baseUrl: 'https://gitlab.example.com',
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const requestBody = (call: number): unknown => {
+    const body = fetchMock.mock.calls[call][1]?.body;
+    return typeof body === 'string' ? JSON.parse(body) : undefined;
+  };
+
+  describe('computeGitBlobSha', () => {
+    it('should match the sha git assigns to the blob', () => {
+      // git hash-object on a file containing "hello\n"
+      expect(computeGitBlobSha(Buffer.from('hello\n'))).toBe(
+        'ce013625030ba8dba906f756967f9e9ca394464a'
+      );
+    });
+  });
+
+  describe('publishArticleToRepo', () => {
+    it('should create the article through the commits API', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(project))
+        .mockResolvedValueOnce(jsonResponse({ message: 'Not found' }, 404))
+        .mockResolvedValueOnce(jsonResponse({ id: 'commit-sha-1' }, 201));
+
+      const result = await Effect.runPromise(
+        gitlab.publishArticleToRepo(
+          'test-token',
+          'MyGroup/blogs/my-blog',
+          'hello-world',
+          '# Hello'
+        )
+      );
+
+      expect(result).toEqual({
+        published: true,
+        filePath: 'content/hello-world.md',
+        commitSha: 'commit-sha-1',
+        blobSha: computeGitBlobSha(Buffer.from('# Hello')),
+        wasUpdate: false,
+      });
+
+      const [projectUrl, projectInit] = fetchMock.mock.calls[0];
+      expect(projectUrl).toBe(
+        'https://gitlab.example.com/api/v4/projects/MyGroup%2Fblogs%2Fmy-blog'
+      );
+      expect(projectInit?.headers).toMatchObject({
+        Authorization: 'Bearer test-token',
+      });
+
+      const [commitUrl, commitInit] = fetchMock.mock.calls[2];
+      expect(commitUrl).toBe(
+        'https://gitlab.example.com/api/v4/projects/MyGroup%2Fblogs%2Fmy-blog/repository/commits'
+      );
+      expect(commitInit?.method).toBe('POST');
+      expect(requestBody(2)).toEqual({
+        branch: 'main',
+        commit_message: 'Add article: hello-world',
+        actions: [
+          {
+            action: 'create',
+            file_path: 'content/hello-world.md',
+            content: Buffer.from('# Hello').toString('base64'),
+            encoding: 'base64',
+          },
+        ],
+      });
+    });
+
+    it('should update the article when the file already exists', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(project))
+        .mockResolvedValueOnce(
+          jsonResponse({
+            content: Buffer.from('# Old').toString('base64'),
+            blob_id: 'old-blob',
+            last_commit_id: 'old-commit',
+          })
+        )
+        .mockResolvedValueOnce(jsonResponse({ id: 'commit-sha-2' }, 201));
+
+      const result = await Effect.runPromise(
+        gitlab.publishArticleToRepo(
+          'test-token',
+          'MyGroup/blogs/my-blog',
+          'hello-world',
+          '# Hello again'
+        )
+      );
+
+      expect(result.wasUpdate).toBe(true);
+      expect(requestBody(2)).toMatchObject({
+        commit_message: 'Update article: hello-world',
+        actions: [{ action: 'update', file_path: 'content/hello-world.md' }],
+      });
+    });
+  });
+
+  describe('proposeArticleChange', () => {
+    it('should rebuild the branch from the default branch and open a merge request', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(project))
+        .mockResolvedValueOnce(jsonResponse([]))
+        .mockResolvedValueOnce(jsonResponse({ message: 'Not found' }, 404))
+        .mockResolvedValueOnce(jsonResponse({ id: 'commit-sha-1' }, 201))
+        .mockResolvedValueOnce(
+          jsonResponse(
+            {
+              iid: 5,
+              web_url:
+                'https://gitlab.example.com/MyGroup/blogs/my-blog/-/merge_requests/5',
+              state: 'opened',
+            },
+            201
+          )
+        );
+
+      const result = await Effect.runPromise(
+        gitlab.proposeArticleChange(
+          'test-token',
+          'MyGroup/blogs/my-blog',
+          'hello-world',
+          '# Hello',
+          { branch: 'inland/hello-world', title: 'Publish article: Hello' }
+        )
+      );
+
+      expect(result.pullRequest).toEqual({
+        number: 5,
+        url: 'https://gitlab.example.com/MyGroup/blogs/my-blog/-/merge_requests/5',
+        state: 'open',
+      });
+      expect(requestBody(3)).toMatchObject({
+        branch: 'inland/hello-world',
+        start_branch: 'main',
+        force: true,
+      });
+      expect(requestBody(4)).toEqual({
+        source_branch: 'inland/hello-world',
+        target_branch: 'main',
+        title: 'Publish article: Hello',
+        remove_source_branch: true,
+      });
+    });
+  });
+
+  describe('proposeArticleChange with other changes', () => {
+    it('should commit them with the article, dropping missing deletions', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(project))
+        .mockResolvedValueOnce(jsonResponse([]))
+        .mockResolvedValueOnce(jsonResponse({ message: 'Not found' }, 404))
+        .mockResolvedValueOnce(
+          jsonResponse({
+            content: Buffer.from('# Old').toString('base64'),
+            blob_id: 'old-blob',
+            last_commit_id: 'old-commit',
+          })
+        )
+        .mockResolvedValueOnce(jsonResponse({ message: 'Not found' }, 404))
+        .mockResolvedValueOnce(jsonResponse({ message: 'Not found' }, 404))
+        .mockResolvedValueOnce(jsonResponse({ id: 'commit-sha-1' }, 201))
+        .mockResolvedValueOnce(
+          jsonResponse(
+            {
+              iid: 5,
+              web_url:
+                'https://gitlab.example.com/MyGroup/blogs/my-blog/-/merge_requests/5',
+              state: 'opened',
+            },
+            201
+          )
+        );
+
+      await Effect.runPromise(
+        gitlab.proposeArticleChange(
+          'test-token',
+          'MyGroup/blogs/my-blog',
+          'new-name',
+          '# Hello',
+          {
+            branch: 'inland/new-name',
+            title: 'Publish article: Hello',
+            changes: [
+              { path: 'content/old-name.md', base64Content: null },
+              { path: 'content/gone.md', base64Content: null },
+              { path: 'redirects.json', base64Content: 'W10K' },
+            ],
+          }
+        )
+      );
+
+      expect(requestBody(6)).toMatchObject({
+        branch: 'inland/new-name',
+        actions: [
+          { action: 'delete', file_path: 'content/old-name.md' },
+          { action: 'create', file_path: 'redirects.json' },
+          { action: 'create', file_path: 'content/new-name.md' },
+        ],
+      });
+    });
+  });
+
+  describe('checkPagesStatus', () => {
+    it('should report pages as disabled when GitLab answers 404', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ message: '404 Not Found' }, 404)
+      );
+
+      const result = await Effect.runPromise(
+        gitlab.checkPagesStatus('test-token', 'MyGroup/blogs/my-blog')
+      );
+
+      expect(result).toEqual({ enabled: false });
+    });
+
+    it('should fail on other API errors', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ message: 'Forbidden' }, 403)
+      );
+
+      const error = await Effect.runPromise(
+        Effect.flip(
+          gitlab.checkPagesStatus('test-token', 'MyGroup/blogs/my-blog')
+        )
+      );
+
+      expect(error._tag).toBe('GitProviderError');
+      expect(error).toHaveProperty('status', 403);
+    });
+  });
+
+  describe('public URLs', () => {
+    it('should build raw file URLs on the configured instance', () => {
+      expect(
+        gitlab.getRawFileUrl(
+          'MyGroup/blogs/my-blog',
+          'main',
+          'assets/images/photo.png'
+        )
+      ).toBe(
+        'https://gitlab.example.com/MyGroup/blogs/my-blog/-/raw/main/assets/images/photo.png'
+      );
+    });
+
+    it('should map the top-level group to the Pages subdomain', () => {
+      const urls = gitlab.getPublicUrls('MyGroup/blogs/my-blog', {
+        username: 'alice',
+        avatarUrl: 'https://gitlab.example.com/uploads/alice.png',
+      });
+
+      expect(urls).toEqual({
+        pagesUrl: 'https://mygroup.gitlab.io/blogs/my-blog',
+        avatarUrl: 'https://gitlab.example.com/uploads/alice.png',
+        authorUrl: 'https://gitlab.example.com/alice',
+      });
+    });
+  });
+});
@@ -0,0 +1,400 @@
+import { Effect, Layer, ManagedRuntime } from 'effect';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import type { GitProviderRepositoryService } from '../../repositories/git-provider-repository';
+
+import { computeGitBlobSha } from '../../repositories/implementations/git-content-utils';
+import { makeLocalGitRepository } from '../../repositories/implementations/local-git-repository';
+import {
+  commitChanges,
+  initBareRepo,
+  listTree,
+  readFileAtRef,
+  runGit,
+} from '../../repositories/implementations/local-git-utils';
+import { PrismaArticleRepositoryLive } from '../../repositories/implementations/prisma-article-repository';
+import { PrismaArticleRevisionRepositoryLive } from '../../repositories/implementations/prisma-article-revision-repository';
+import { PrismaMediaRepositoryLive } from '../../repositories/implementations/prisma-media-repository';
+import { PrismaSiteRepositoryLive } from '../../repositories/implementations/prisma-site-repository';
+import { PrismaSiteTemplateRepositoryLive } from '../../repositories/implementations/prisma-site-template-repository';
+import { PrismaUserRepositoryLive } from '../../repositories/implementations/prisma-user-repository';
+import { AuthServiceLive } from '../../services/auth/auth-service-live';
+import { makeConfigService } from '../../services/config-service';
+import { MediaServiceLive } from '../../services/media';
+import { SessionServiceLive } from '../../services/session/session-service-live';
+import * as SiteService from '../../services/site';
+import { SiteServiceLive } from '../../services/site/site-service-live';
+import { UserServiceLive } from '../../services/user/user-service-live';
+import { MockArticleServiceLive } from '../helpers/mock-article-service';
+import { MockAuthProviderLive } from '../helpers/mock-auth-provider';
+import {
+  mockPrisma,
+  resetMockPrisma,
+  TestDatabaseServiceLayer,
+} from '../helpers/mock-database';
+import {
+  mockArticle,
+  mockGitIntegration,
+  mockSite,
+  mockUser,
+} from '../helpers/mock-factories';
+import { makeMockGitProviderLayer } from '../helpers/mock-git-provider';
+import { TestRedisServiceLayer } from '../helpers/mock-redis';
+
+const TEMPLATE_REPO = 'templates/inland-template-basic';
+
+const makeTemplate = (rootDir: string) =>
+  Effect.gen(function* () {
+    const gitDir = path.join(rootDir, `${TEMPLATE_REPO}.git`);
+    yield* initBareRepo(gitDir, 'main');
+    yield* commitChanges(gitDir, {
+      branch: 'main',
+      message: 'Initial template',
+      changes: [
+        {
+          path: 'templates/layout.html',
+          content: Buffer.from('<title>{{SITE_NAME}}</title>\n'),
+        },
+        {
+          path: 'content/welcome.md',
+          content: Buffer.from('---\ntitle: Welcome\n---\n\nHello\n'),
+        },
+      ],
+    });
+  });
+
+const makeRuntime = (provider: GitProviderRepositoryService) => {
+  const ConfigLayer = makeConfigService;
+  const RepositoryLayer = Layer.mergeAll(
+    PrismaArticleRepositoryLive,
+    PrismaArticleRevisionRepositoryLive,
+    PrismaMediaRepositoryLive,
+    PrismaSiteRepositoryLive,
+    PrismaSiteTemplateRepositoryLive,
+    PrismaUserRepositoryLive
+  ).pipe(Layer.provide(TestDatabaseServiceLayer));
+  const SessionLayer = SessionServiceLive.pipe(
+    Layer.provide(Layer.merge(TestRedisServiceLayer, ConfigLayer))
+  );
+
+  return ManagedRuntime.make(
+    Layer.mergeAll(
+      TestRedisServiceLayer,
+      ConfigLayer,
+      RepositoryLayer,
+      makeMockGitProviderLayer(provider),
+      MockAuthProviderLive,
+      MockArticleServiceLive,
+      AuthServiceLive,
+      MediaServiceLive,
+      SessionLayer,
+      SiteServiceLive,
+      UserServiceLive
+    )
+  );
+};
+
+describe('Local git provider', () => {
+  let rootDir: string;
+  let local: GitProviderRepositoryService;
+
+  const repoDir = (repoFullName: string) =>
+    path.join(rootDir, `${repoFullName}.git`);
+
+  const createSite = () =>
+    local.createRepositoryWithPages(
+      'alice',
+      { name: 'my-blog' },
+      {
+        siteName: 'My Blog',
+        siteDescription: 'A blog',
+        siteNameSlug: 'my-blog',
+        siteAuthor: 'Alice',
+        platformUsername: 'alice',
+      }
+    );
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(tmpdir(), 'inland-local-git-'));
+    local = makeLocalGitRepository({
+      rootDir,
+      publicUrl: 'http://localhost:3001/api/local-git',
+      templateRepo: TEMPLATE_REPO,
+    });
+    await Effect.runPromise(makeTemplate(rootDir));
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  describe('createRepositoryWithPages', () => {
+    it('should copy the template and fill in its placeholders', async () => {
+      const repo = await Effect.runPromise(createSite());
+
+      expect(repo).toMatchObject({
+        fullName: 'alice/my-blog',
+        defaultBranch: 'main',
+        htmlUrl: 'http://localhost:3001/api/local-git/alice/my-blog',
+      });
+      expect(repo.pagesUrl).toBeUndefined();
+
+      const layout = await Effect.runPromise(
+        readFileAtRef(repoDir('alice/my-blog'), 'main', 'templates/layout.html')
+      );
+      expect(layout?.content.toString()).toBe('<title>My Blog</title>\n');
+    });
+
+    it('should refuse to overwrite an existing repository', async () => {
+      await Effect.runPromise(createSite());
+
+      const error = await Effect.runPromise(Effect.flip(createSite()));
+
+      expect(error._tag).toBe('RepositoryCreationError');
+    });
+  });
+
+  describe('articles', () => {
+    it('should commit articles with their real blob SHA', async () => {
+      await Effect.runPromise(createSite());
+
+      const created = await Effect.runPromise(
+        local.publishArticleToRepo(
+          'alice',
+          'alice/my-blog',
+          'hello-world',
+          '# Hello'
+        )
+      );
+      expect(created).toMatchObject({
+        published: true,
+        filePath: 'content/hello-world.md',
+        blobSha: computeGitBlobSha(Buffer.from('# Hello')),
+        wasUpdate: false,
+      });
+
+      const updated = await Effect.runPromise(
+        local.publishArticleToRepo(
+          'alice',
+          'alice/my-blog',
+          'hello-world',
+          '# Hello again'
+        )
+      );
+      expect(updated.wasUpdate).toBe(true);
+      expect(updated.commitSha).not.toBe(created.commitSha);
+
+      const sha = await Effect.runPromise(
+        local.getArticleFileSha('alice', 'alice/my-blog', 'hello-world')
+      );
+      expect(sha).toBe(updated.blobSha);
+    });
+
+    it('should read and delete articles', async () => {
+      await Effect.runPromise(createSite());
+
+      const articles = await Effect.runPromise(
+        local.getMarkdownFilesFromRepo('alice', 'alice/my-blog', 'main')
+      );
+      expect(articles).toEqual([
+        expect.objectContaining({ slug: 'welcome', title: 'Welcome' }),
+      ]);
+
+      const deleted = await Effect.runPromise(
+        local.deleteArticleFromRepo('alice', 'alice/my-blog', 'welcome')
+      );
+      expect(deleted).toEqual({
+        deleted: true,
+        filePath: 'content/welcome.md',
+      });
+
+      const missing = await Effect.runPromise(
+        local.deleteArticleFromRepo('alice', 'alice/my-blog', 'welcome')
+      );
+      expect(missing).toEqual({ deleted: false, reason: 'File not found' });
+    });
+
+    it('should keep nested articles in matching subfolders', async () => {
+      await Effect.runPromise(createSite());
+
+      const published = await Effect.runPromise(
+        local.publishArticleToRepo(
+          'alice',
+          'alice/my-blog',
+          'guides/install/linux',
+          '# Linux'
+        )
+      );
+      expect(published.filePath).toBe('content/guides/install/linux.md');
+
+      const articles = await Effect.runPromise(
+        local.getMarkdownFilesFromRepo('alice', 'alice/my-blog', 'main')
+      );
+      expect(articles.map((article) => article.slug).toSorted()).toEqual([
+        'guides/install/linux',
+        'welcome',
+      ]);
+    });
+  });
+
+  describe('commitChangeset', () => {
+    it('should apply writes and deletes in a single commit', async () => {
+      await Effect.runPromise(createSite());
+      const before = await Effect.runPromise(
+        local.getRepositoryInfo('alice', 'alice/my-blog')
+      );
+
+      const result = await Effect.runPromise(
+        local.commitChangeset('alice', 'alice/my-blog', {
+          message: 'Sync',
+          changes: [
+            {
+              path: 'content/hello.md',
+              base64Content: Buffer.from('# Hello').toString('base64'),
+            },
+            { path: 'content/welcome.md', base64Content: null },
+            { path: 'content/missing.md', base64Content: null },
+          ],
+        })
+      );
+
+      expect(result.blobShas).toEqual({
+        'content/hello.md': computeGitBlobSha(Buffer.from('# Hello')),
+      });
+
+      const files = await Effect.runPromise(
+        listTree(repoDir('alice/my-blog'), before.defaultBranch)
+      );
+      const paths = files.map((file) => file.path);
+      expect(paths).toContain('content/hello.md');
+      expect(paths).not.toContain('content/welcome.md');
+
+      const parent = await Effect.runPromise(
+        readFileAtRef(
+          repoDir('alice/my-blog'),
+          `${result.commitSha}~1`,
+          'content/welcome.md'
+        )
+      );
+      expect(parent).not.toBeNull();
+    });
+
+    it('should not commit when every change is a no-op', async () => {
+      await Effect.runPromise(createSite());
+
+      const result = await Effect.runPromise(
+        local.commitChangeset('alice', 'alice/my-blog', {
+          message: 'Nothing',
+          changes: [{ path: 'content/missing.md', base64Content: null }],
+        })
+      );
+
+      expect(result).toEqual({ commitSha: null, blobShas: {} });
+    });
+
+    it("should record the user's identity as author and committer", async () => {
+      await Effect.runPromise(createSite());
+
+      const result = await Effect.runPromise(
+        local.commitChangeset('alice', 'alice/my-blog', {
+          message: 'Sync',
+          changes: [
+            {
+              path: 'content/hello.md',
+              base64Content: Buffer.from('# Hello').toString('base64'),
+            },
+          ],
+          author: { name: 'Alice', email: 'alice@example.com' },
+        })
+      );
+
+      const identity = await Effect.runPromise(
+        runGit(repoDir('alice/my-blog'), [
+          'log',
+          '-1',
+          '--format=%an <%ae>|%cn <%ce>',
+          result.commitSha ?? '',
+        ])
+      );
+      expect(identity.toString().trim()).toBe(
+        'Alice <alice@example.com>|Alice <alice@example.com>'
+      );
+    });
+  });
+
+  describe('repository lookup', () => {
+    it('should report missing repositories', async () => {
+      const exists = await Effect.runPromise(
+        local.checkRepoExists('alice', 'alice/missing')
+      );
+      expect(exists).toBe(false);
+
+      const error = await Effect.runPromise(
+        Effect.flip(local.getRepositoryInfo('alice', 'alice/missing'))
+      );
+      expect(error).toHaveProperty('status', 404);
+    });
+
+    it('should reject names that escape the root directory', async () => {
+      const error = await Effect.runPromise(
+        Effect.flip(local.getRepositoryInfo('alice', '../outside'))
+      );
+      expect(error).toHaveProperty('status', 400);
+    });
+  });
+
+  describe('forceSyncSite', () => {
+    beforeEach(() => {
+      resetMockPrisma();
+    });
+
+    it('should sync the CMS state into the bare repository', async () => {
+      await Effect.runPromise(createSite());
+      const runtime = makeRuntime(local);
+
+      const article = mockArticle({
+        id: 'a1',
+        slug: 'hello-world',
+        status: 'published',
+        content: 'Hello content',
+        publishedAt: new Date('2025-01-01'),
+      });
+
+      mockPrisma.site.findUnique.mockResolvedValue(
+        mockSite({ gitRepo: 'alice/my-blog', platform: 'local' })
+      );
+      mockPrisma.gitIntegration.findFirst.mockResolvedValue(
+        mockGitIntegration({ platform: 'local', accessToken: 'alice' })
+      );
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser());
+      mockPrisma.article.findMany.mockResolvedValue([article]);
+      mockPrisma.article.update.mockResolvedValue(article);
+
+      const result = await runtime.runPromise(
+        SiteService.forceSyncSite('site-1', 'user-1')
+      );
+
+      expect(result).toMatchObject({ published: 1, deleted: 1, failed: 0 });
+
+      const files = await Effect.runPromise(
+        listTree(repoDir('alice/my-blog'), 'main')
+      );
+      const articleFile = files.find(
+        (file) => file.path === 'content/hello-world.md'
+      );
+      expect(files.map((file) => file.path)).not.toContain(
+        'content/welcome.md'
+      );
+      expect(mockPrisma.article.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ gitSha: articleFile?.sha }),
+        })
+      );
+
+      await runtime.dispose();
+    });
+  });
+});
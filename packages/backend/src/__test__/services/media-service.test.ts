@@ -1,42 +1,30 @@
 import { Effect, Layer, ManagedRuntime, Exit } from 'effect';
 import { describe, it, expect, beforeEach } from 'vitest';
 
-import type { Media } from '../../../generated/prisma/client';
+import type { GitProviderRepositoryService } from '../../repositories/git-provider-repository';
 
-import {
-  GitProviderRepository,
-  type GitProviderRepositoryService,
-} from '../../repositories/git-provider-repository';
 import { deleteMedia } from '../../services/media/delete-media';
 import { importMediaFromGit } from '../../services/media/import-media-from-git';
 import { listMedia } from '../../services/media/list-media';
+import {
+  buildMediaUrl,
+  makeMediaUrlRewriter,
+} from '../../services/media/media-url';
 import { uploadMedia } from '../../services/media/upload-media';
 import { mockPrisma, resetMockPrisma } from '../helpers/mock-database';
-import { mockGitIntegration, mockSite } from '../helpers/mock-factories';
-import { makeMockGitProvider } from '../helpers/mock-git-provider';
+import {
+  mockGitIntegration,
+  mockMedia,
+  mockSite,
+} from '../helpers/mock-factories';
+import {
+  makeMockGitProvider,
+  makeMockGitProviderLayer,
+} from '../helpers/mock-git-provider';
 import { TestRepositoryLayer } from '../helpers/test-layers';
 
 const testRuntime = ManagedRuntime.make(TestRepositoryLayer);
 
-const now = new Date();
-
-const mockMedia = (overrides: Partial<Media> = {}): Media => ({
-  id: 'media-1',
-  siteId: 'site-1',
-  filename: 'image-abc123.png',
-  originalName: 'image.png',
-  filePath: 'assets/images/image-abc123.png',
-  fileSize: BigInt(1024),
-  mimeType: 'image/png',
-  storageType: 'github',
-  contentHash: 'sha256hash',
-  externalUrl: null,
-  alt: null,
-  createdAt: now,
-  updatedAt: now,
-  ...overrides,
-});
-
 const setupSiteGitAccess = () => {
   mockPrisma.site.findUnique.mockResolvedValue({
     id: 'site-1',
@@ -55,17 +43,43 @@ describe('MediaService', () => {
     it('should return paginated media for a site', async () => {
       const media = [mockMedia(), mockMedia({ id: 'media-2' })];
 
-      mockPrisma.site.findUnique.mockResolvedValue(mockSite());
+      setupSiteGitAccess();
       mockPrisma.$transaction.mockResolvedValue([media, 2]);
 
       const result = await testRuntime.runPromise(
         listMedia('site-1', 'user-1')
       );
 
-      expect(result.items).toEqual(media);
+      expect(result.items).toEqual(
+        media.map((item) => ({
+          ...item,
+          url: 'https://raw.githubusercontent.com/testuser/test-repo/main/assets/images/image-abc123.png',
+        }))
+      );
       expect(result.total).toBe(2);
     });
 
+    it("should build URLs with the site's media URL strategy", async () => {
+      mockPrisma.site.findUnique.mockResolvedValue(
+        mockSite({ mediaUrlStrategy: 'pinned' })
+      );
+      mockPrisma.gitIntegration.findFirst.mockResolvedValue(
+        mockGitIntegration()
+      );
+      mockPrisma.$transaction.mockResolvedValue([
+        [mockMedia({ commitSha: 'commit-1' })],
+        1,
+      ]);
+
+      const result = await testRuntime.runPromise(
+        listMedia('site-1', 'user-1')
+      );
+
+      expect(result.items[0].url).toBe(
+        'https://raw.githubusercontent.com/testuser/test-repo/commit-1/assets/images/image-abc123.png'
+      );
+    });
+
     it('should fail when user does not own the site', async () => {
       mockPrisma.site.findUnique.mockResolvedValue(
         mockSite({ userId: 'other-user' })
@@ -146,7 +160,9 @@ describe('MediaService', () => {
       expect(result).toHaveProperty('id');
       expect(result).toHaveProperty('filePath');
       expect(result).toHaveProperty('url');
-      expect(mockPrisma.media.create).toHaveBeenCalled();
+      expect(mockPrisma.media.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ commitSha: 'mockcommitsha456' }),
+      });
     });
 
     it('should return existing media when content hash matches', async () => {
@@ -211,7 +227,7 @@ describe('MediaService', () => {
     };
     const mediaImportLayer = Layer.merge(
       TestRepositoryLayer,
-      Layer.succeed(GitProviderRepository, mediaGitProvider)
+      makeMockGitProviderLayer(mediaGitProvider)
     );
     const mediaRuntime = ManagedRuntime.make(mediaImportLayer);
 
@@ -251,4 +267,118 @@ describe('MediaService', () => {
       expect(mockPrisma.media.create).not.toHaveBeenCalled();
     });
   });
+
+  describe('media URLs', () => {
+    const gitProvider = makeMockGitProvider();
+    const context = (site: Parameters<typeof buildMediaUrl>[0]['site']) => ({
+      site,
+      defaultBranch: 'gh-pages',
+      getRawFileUrl: gitProvider.getRawFileUrl,
+    });
+    const media = { filePath: 'assets/images/photo.png', commitSha: 'abc123' };
+
+    it('should point raw URLs at the default branch', () => {
+      expect(
+        buildMediaUrl(
+          context({
+            id: 'site-1',
+            gitRepo: 'alice/blog',
+            mediaUrlStrategy: 'raw',
+          }),
+          media
+        )
+      ).toBe(
+        'https://raw.githubusercontent.com/alice/blog/gh-pages/assets/images/photo.png'
+      );
+    });
+
+    it('should resolve site-relative paths against the deploy URL', () => {
+      const site = {
+        id: 'site-1',
+        gitRepo: 'alice/blog',
+        mediaUrlStrategy: 'site_relative',
+      };
+
+      expect(
+        buildMediaUrl(
+          context({ ...site, deployUrl: 'https://alice.github.io/blog' }),
+          media
+        )
+      ).toBe('https://alice.github.io/blog/assets/images/photo.png');
+      expect(buildMediaUrl(context(site), media)).toBe(
+        '/assets/images/photo.png'
+      );
+    });
+
+    it('should pin URLs to the commit that added the file', () => {
+      const site = {
+        id: 'site-1',
+        gitRepo: 'alice/blog',
+        mediaUrlStrategy: 'pinned',
+      };
+
+      expect(buildMediaUrl(context(site), media)).toBe(
+        'https://raw.githubusercontent.com/alice/blog/abc123/assets/images/photo.png'
+      );
+      expect(buildMediaUrl(context(site), { ...media, commitSha: null })).toBe(
+        'https://raw.githubusercontent.com/alice/blog/gh-pages/assets/images/photo.png'
+      );
+    });
+
+    it("should rewrite references to the site's media only", async () => {
+      mockPrisma.media.findMany.mockResolvedValue([
+        mockMedia({
+          filePath: 'assets/images/photo.png',
+          commitSha: 'abc123',
+        }),
+      ]);
+
+      const rewritten = await testRuntime.runPromise(
+        Effect.flatMap(
+          makeMediaUrlRewriter(
+            {
+              id: 'site-1',
+              gitRepo: 'alice/blog',
+              mediaUrlStrategy: 'pinned',
+            },
+            gitProvider,
+            'token',
+            'master'
+          ),
+          (rewrite) =>
+            rewrite(
+              [
+                '![Photo](https://raw.githubusercontent.com/alice/blog/main/assets/images/photo.png)',
+                '<img src="/assets/images/photo.png?v=2" alt="Photo">',
+                '[Elsewhere](https://example.com/other.png)',
+              ].join('\n')
+            )
+        )
+      );
+
+      expect(rewritten).toBe(
+        [
+          '![Photo](https://raw.githubusercontent.com/alice/blog/abc123/assets/images/photo.png)',
+          '<img src="https://raw.githubusercontent.com/alice/blog/abc123/assets/images/photo.png" alt="Photo">',
+          '[Elsewhere](https://example.com/other.png)',
+        ].join('\n')
+      );
+    });
+
+    it('should not look up media for markdown without links', async () => {
+      const rewritten = await testRuntime.runPromise(
+        Effect.flatMap(
+          makeMediaUrlRewriter(
+            { id: 'site-1', gitRepo: 'alice/blog' },
+            gitProvider,
+            'token'
+          ),
+          (rewrite) => rewrite('# Hello')
+        )
+      );
+
+      expect(rewritten).toBe('# Hello');
+      expect(mockPrisma.media.findMany).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,404 @@
+import { Deferred, Effect, ManagedRuntime } from 'effect';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { GitProviderRegistry } from '../../repositories/git-provider-repository';
+import { makeGitLabApiRepository } from '../../repositories/implementations/gitlab-api-repository';
+import { signWebhookPayload } from '../../repositories/implementations/webhook-utils';
+import {
+  SiteSyncQueueRepository,
+  type SiteSyncQueueRepositoryService,
+} from '../../repositories/site-sync-queue-repository';
+import { ArticleService } from '../../services/article/article-service';
+import {
+  handlePushWebhook,
+  registerSiteWebhook,
+} from '../../services/site/git';
+import { makeMockArticleService } from '../helpers/mock-article-service';
+import { mockPrisma, resetMockPrisma } from '../helpers/mock-database';
+import { mockSite } from '../helpers/mock-factories';
+import { makeMockGitProvider } from '../helpers/mock-git-provider';
+import { mockRedis, resetMockRedis } from '../helpers/mock-redis';
+import {
+  makeTestRepositoryLayer,
+  TestRepositoryLayer,
+} from '../helpers/test-layers';
+
+const testRuntime = ManagedRuntime.make(TestRepositoryLayer);
+
+const SECRET = 'webhook-secret';
+
+const pushPayload = (overrides: Record<string, unknown> = {}) =>
+  Buffer.from(
+    JSON.stringify({
+      ref: 'refs/heads/main',
+      repository: { full_name: 'testuser/test-repo', default_branch: 'main' },
+      commits: [
+        { added: ['content/new.md'], modified: [], removed: [] },
+        {
+          added: [],
+          modified: ['content/hello.md'],
+          removed: ['content/old.md'],
+        },
+      ],
+      ...overrides,
+    })
+  );
+
+const signedHeaders = (body: Buffer, secret = SECRET) => ({
+  'x-github-event': 'push',
+  'x-hub-signature-256': `sha256=${signWebhookPayload(secret, body)}`,
+});
+
+// Stands in for the Redis queue, holding paths and leases in memory
+const makeMemorySyncQueue = () => {
+  const pending = new Map<string, Set<string> | null>();
+  const leases = new Map<string, string>();
+  return SiteSyncQueueRepository.of({
+    enqueue: (siteId, paths) =>
+      Effect.sync(() => {
+        const queued = pending.get(siteId);
+        pending.set(
+          siteId,
+          paths === null || queued === null
+            ? null
+            : new Set([...(queued ?? []), ...paths])
+        );
+      }),
+    takePending: (siteId) =>
+      Effect.sync(() => {
+        if (!pending.has(siteId)) return null;
+        const paths = pending.get(siteId);
+        pending.delete(siteId);
+        return { paths: paths ? [...paths] : null };
+      }),
+    hasPending: (siteId) => Effect.sync(() => pending.has(siteId)),
+    acquireLease: (siteId) =>
+      Effect.sync(() => {
+        if (leases.has(siteId)) return null;
+        const token = `lease-${leases.size + 1}`;
+        leases.set(siteId, token);
+        return token;
+      }),
+    releaseLease: (siteId, token) =>
+      Effect.sync(() => {
+        if (leases.get(siteId) === token) leases.delete(siteId);
+      }),
+  });
+};
+
+// Records the paths each sync was limited to. A sync waits for `gate`
+// when one is given. Without a queue the Redis one runs against the mock
+// client
+const recordSyncs = (
+  gate?: Deferred.Deferred<void>,
+  queue: SiteSyncQueueRepositoryService | null = makeMemorySyncQueue()
+) => {
+  const syncs: Array<{ siteId: string; paths?: readonly string[] }> = [];
+  const articleService = makeMockArticleService();
+  const service = {
+    ...articleService,
+    syncArticlesFromGit: (
+      siteId: string,
+      userId: string,
+      paths?: readonly string[]
+    ) =>
+      Effect.gen(function* () {
+        syncs.push({ siteId, paths });
+        if (gate) yield* Deferred.await(gate);
+        return yield* articleService.syncArticlesFromGit(siteId, userId, paths);
+      }),
+  };
+  return {
+    syncs,
+    provide: <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+      queue
+        ? effect.pipe(
+            Effect.provideService(ArticleService, service),
+            Effect.provideService(SiteSyncQueueRepository, queue)
+          )
+        : effect.pipe(Effect.provideService(ArticleService, service)),
+  };
+};
+
+describe('handlePushWebhook', () => {
+  beforeEach(() => {
+    resetMockPrisma();
+    mockPrisma.siteWebhook.findMany.mockResolvedValue([
+      {
+        secret: SECRET,
+        site: { id: 'site-1', userId: 'user-1' },
+      },
+    ] as never);
+  });
+
+  it('should queue a sync of only the paths a signed push touched', async () => {
+    const body = pushPayload();
+    const { syncs, provide } = recordSyncs();
+
+    const result = await testRuntime.runPromise(
+      handlePushWebhook('github', signedHeaders(body), body).pipe(provide)
+    );
+
+    expect(result.queued).toEqual(['site-1']);
+    await vi.waitFor(() =>
+      expect(syncs).toEqual([
+        {
+          siteId: 'site-1',
+          paths: ['content/new.md', 'content/hello.md', 'content/old.md'],
+        },
+      ])
+    );
+    expect(mockPrisma.siteWebhook.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { site: { platform: 'github', gitRepo: 'testuser/test-repo' } },
+      })
+    );
+  });
+
+  it('should acknowledge the delivery before the sync finishes', async () => {
+    const body = pushPayload();
+    const gate = Effect.runSync(Deferred.make<void>());
+    const { syncs, provide } = recordSyncs(gate);
+
+    const result = await testRuntime.runPromise(
+      handlePushWebhook('github', signedHeaders(body), body).pipe(provide)
+    );
+
+    expect(result.queued).toEqual(['site-1']);
+    await vi.waitFor(() => expect(syncs).toHaveLength(1));
+    Effect.runSync(Deferred.succeed(gate, undefined));
+  });
+
+  it('should merge pushes that arrive while the site is syncing', async () => {
+    const first = pushPayload();
+    const second = pushPayload({
+      commits: [{ added: [], modified: ['content/later.md'], removed: [] }],
+    });
+    const gate = Effect.runSync(Deferred.make<void>());
+    const { syncs, provide } = recordSyncs(gate);
+
+    await testRuntime.runPromise(
+      Effect.gen(function* () {
+        yield* handlePushWebhook('github', signedHeaders(first), first);
+        yield* Effect.promise(() =>
+          vi.waitFor(() => expect(syncs).toHaveLength(1))
+        );
+        yield* handlePushWebhook('github', signedHeaders(second), second);
+        yield* handlePushWebhook('github', signedHeaders(second), second);
+      }).pipe(provide)
+    );
+
+    expect(syncs).toHaveLength(1);
+    Effect.runSync(Deferred.succeed(gate, undefined));
+    await vi.waitFor(() =>
+      expect(syncs).toEqual([
+        {
+          siteId: 'site-1',
+          paths: ['content/new.md', 'content/hello.md', 'content/old.md'],
+        },
+        { siteId: 'site-1', paths: ['content/later.md'] },
+      ])
+    );
+  });
+
+  it('should acknowledge pushes that touched no files', async () => {
+    resetMockRedis();
+    // Redis rejects SADD without members
+    mockRedis.sadd.mockImplementation((...args: unknown[]) =>
+      args.length < 2
+        ? Promise.reject(
+            new Error("ERR wrong number of arguments for 'sadd' command")
+          )
+        : Promise.resolve(args.length - 1)
+    );
+    const body = pushPayload({
+      commits: [{ added: [], modified: [], removed: [] }],
+    });
+    const { syncs, provide } = recordSyncs(undefined, null);
+
+    const result = await testRuntime.runPromise(
+      handlePushWebhook('github', signedHeaders(body), body).pipe(provide)
+    );
+
+    expect(result.queued).toEqual([]);
+    expect(syncs).toEqual([]);
+  });
+
+  it('should queue pushed paths in Redis', async () => {
+    resetMockRedis();
+    mockRedis.sadd.mockResolvedValue(3);
+    const body = pushPayload();
+    const { provide } = recordSyncs(undefined, null);
+
+    await testRuntime.runPromise(
+      handlePushWebhook('github', signedHeaders(body), body).pipe(provide)
+    );
+
+    expect(mockRedis.sadd).toHaveBeenCalledWith(
+      'site-sync:site-1:paths',
+      'content/new.md',
+      'content/hello.md',
+      'content/old.md'
+    );
+  });
+
+  it('should release only the Redis lease the sync acquired', async () => {
+    resetMockRedis();
+    mockRedis.sadd.mockResolvedValue(3);
+    mockRedis.set.mockResolvedValue('OK');
+    mockRedis.exists.mockResolvedValue(0);
+    const transaction = {
+      smembers: () => transaction,
+      del: () => transaction,
+      exec: vi
+        .fn()
+        .mockResolvedValueOnce([[null, ['content/new.md']]])
+        .mockResolvedValue([[null, []]]),
+    };
+    mockRedis.multi.mockReturnValue(transaction as never);
+    const body = pushPayload();
+    const { syncs, provide } = recordSyncs(undefined, null);
+
+    await testRuntime.runPromise(
+      handlePushWebhook('github', signedHeaders(body), body).pipe(provide)
+    );
+
+    await vi.waitFor(() => expect(mockRedis.eval).toHaveBeenCalled());
+    expect(syncs).toEqual([{ siteId: 'site-1', paths: ['content/new.md'] }]);
+    const token = mockRedis.set.mock.calls[0]?.[1];
+    expect(token).toEqual(expect.any(String));
+    expect(mockRedis.eval).toHaveBeenCalledWith(
+      expect.stringContaining("redis.call('GET', KEYS[1]) == ARGV[1]"),
+      1,
+      'site-sync:site-1:lease',
+      token
+    );
+    expect(mockRedis.del).not.toHaveBeenCalled();
+  });
+
+  it('should reject deliveries signed with another secret', async () => {
+    const body = pushPayload();
+    const { syncs, provide } = recordSyncs();
+
+    const error = await testRuntime.runPromise(
+      Effect.flip(
+        handlePushWebhook('github', signedHeaders(body, 'wrong'), body).pipe(
+          provide
+        )
+      )
+    );
+
+    expect(error._tag).toBe('WebhookSignatureError');
+    expect(syncs).toEqual([]);
+  });
+
+  it('should ignore pushes to other branches', async () => {
+    const body = pushPayload({ ref: 'refs/heads/feature' });
+    const { syncs, provide } = recordSyncs();
+
+    const result = await testRuntime.runPromise(
+      handlePushWebhook('github', signedHeaders(body), body).pipe(provide)
+    );
+
+    expect(result.queued).toEqual([]);
+    expect(syncs).toEqual([]);
+  });
+
+  it('should sync every path after a forced push', async () => {
+    const body = pushPayload({ forced: true });
+    const { syncs, provide } = recordSyncs();
+
+    await testRuntime.runPromise(
+      handlePushWebhook('github', signedHeaders(body), body).pipe(provide)
+    );
+
+    await vi.waitFor(() =>
+      expect(syncs).toEqual([{ siteId: 'site-1', paths: undefined }])
+    );
+  });
+
+  it('should reject payloads that are not JSON', async () => {
+    const body = Buffer.from('not json');
+
+    const error = await testRuntime.runPromise(
+      Effect.flip(handlePushWebhook('github', signedHeaders(body), body))
+    );
+
+    expect(error._tag).toBe('WebhookPayloadError');
+  });
+});
+
+describe('registerSiteWebhook', () => {
+  beforeEach(() => {
+    resetMockPrisma();
+  });
+
+  it('should point the hook at the API and store its secret', async () => {
+    const registered: Array<{ url: string; secret: string }> = [];
+    const runtime = ManagedRuntime.make(
+      makeTestRepositoryLayer({
+        ...makeMockGitProvider(),
+        registerPushWebhook: (_accessToken, _repoFullName, opts) =>
+          Effect.sync(() => {
+            registered.push(opts);
+          }),
+      })
+    );
+    const site = mockSite({ gitRepo: 'testuser/test-repo' });
+
+    await runtime.runPromise(
+      Effect.gen(function* () {
+        const gitProvider = yield* Effect.flatMap(
+          GitProviderRegistry,
+          (registry) => registry.forPlatform('github')
+        );
+        yield* registerSiteWebhook(site, gitProvider, 'token');
+      })
+    );
+
+    expect(registered).toHaveLength(1);
+    expect(registered[0].url).toBe('http://localhost:3001/api/webhooks/github');
+    expect(mockPrisma.siteWebhook.upsert).toHaveBeenCalledWith({
+      where: { siteId: 'site-1' },
+      create: { siteId: 'site-1', secret: registered[0].secret },
+      update: { secret: registered[0].secret },
+    });
+  });
+});
+
+describe('GitLab push webhooks', () => {
+  const gitlab = makeGitLabApiRepository({ baseUrl: 'https://gitlab.com' });
+
+  it('should check the secret token and read pushed paths', () => {
+    const headers = {
+      'x-gitlab-event': 'Push Hook',
+      'x-gitlab-token': SECRET,
+    };
+    const payload = {
+      ref: 'refs/heads/main',
+      total_commits_count: 1,
+      project: {
+        path_with_namespace: 'group/blog',
+        default_branch: 'main',
+      },
+      commits: [{ added: [], modified: ['content/hello.md'], removed: [] }],
+    };
+
+    expect(
+      gitlab.verifyWebhookSignature(headers, Buffer.from(''), SECRET)
+    ).toBe(true);
+    expect(gitlab.verifyWebhookSignature(headers, Buffer.from(''), 'x')).toBe(
+      false
+    );
+    expect(gitlab.parsePushEvent(headers, payload)).toEqual({
+      repoFullName: 'group/blog',
+      branch: 'main',
+      defaultBranch: 'main',
+      paths: ['content/hello.md'],
+    });
+    expect(
+      gitlab.parsePushEvent(headers, { ...payload, total_commits_count: 40 })
+        ?.paths
+    ).toBeNull();
+  });
+});
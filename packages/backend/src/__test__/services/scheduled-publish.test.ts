@@ -0,0 +1,299 @@
+import { Effect, Exit, ManagedRuntime } from 'effect';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { GitProviderError } from '../../repositories/git-provider-repository';
+import * as ArticleService from '../../services/article';
+import { mockPrisma, resetMockPrisma } from '../helpers/mock-database';
+import {
+  mockArticle,
+  mockArticleRevision,
+  mockGitIntegration,
+  mockUser,
+} from '../helpers/mock-factories';
+import { makeMockGitProvider } from '../helpers/mock-git-provider';
+import { mockRedis, resetMockRedis } from '../helpers/mock-redis';
+import {
+  makeTestRepositoryLayer,
+  TestRepositoryLayer,
+} from '../helpers/test-layers';
+
+const testRuntime = ManagedRuntime.make(TestRepositoryLayer);
+
+// The host answers every publish with the given status
+const unavailableRuntime = (status: number) =>
+  ManagedRuntime.make(
+    makeTestRepositoryLayer({
+      ...makeMockGitProvider(),
+      publishArticleToRepo: () =>
+        Effect.fail(new GitProviderError({ message: 'Unavailable', status })),
+    })
+  );
+
+const now = new Date('2026-10-20T09:00:00Z');
+
+const scheduledArticle = (
+  overrides: Parameters<typeof mockArticle>[0] = {}
+) => ({
+  ...mockArticle({ id: 'article-1', siteId: 'site-1', ...overrides }),
+  site: {
+    id: 'site-1',
+    name: 'Test Site',
+    userId: 'user-1',
+    gitRepo: 'testuser/test-repo',
+  },
+});
+
+// One due job that this worker claims
+const queueDueArticle = () => {
+  mockRedis.eval.mockResolvedValue(['article-1']);
+  mockPrisma.article.findUnique.mockResolvedValue(
+    scheduledArticle({ scheduledAt: new Date('2026-10-20T08:59:00Z') })
+  );
+};
+
+describe('Scheduled publishing', () => {
+  beforeEach(() => {
+    resetMockPrisma();
+    resetMockRedis();
+    mockPrisma.article.findUnique.mockResolvedValue(scheduledArticle());
+    mockPrisma.article.update.mockResolvedValue(scheduledArticle());
+    mockPrisma.articleRevision.create.mockResolvedValue(mockArticleRevision());
+    mockPrisma.gitIntegration.findFirst.mockResolvedValue(mockGitIntegration());
+    mockPrisma.user.findUnique.mockResolvedValue(mockUser());
+    // The mock takes the type of zadd's INCR overload
+    mockRedis.zadd.mockResolvedValue('1');
+    mockRedis.zrem.mockResolvedValue(1);
+    mockRedis.hdel.mockResolvedValue(1);
+  });
+
+  describe('scheduleArticlePublish', () => {
+    it('should set the publish date and queue the publish', async () => {
+      const publishAt = new Date(Date.now() + 60 * 60 * 1000);
+
+      await testRuntime.runPromise(
+        ArticleService.scheduleArticlePublish('article-1', 'user-1', publishAt)
+      );
+
+      expect(mockPrisma.article.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            publishedAt: publishAt,
+            scheduledAt: publishAt,
+            scheduleError: null,
+          },
+        })
+      );
+      expect(mockRedis.zadd).toHaveBeenCalledWith(
+        'publish-queue:jobs',
+        publishAt.getTime(),
+        'article-1'
+      );
+    });
+
+    it('should reject a time in the past', async () => {
+      const result = await testRuntime.runPromiseExit(
+        ArticleService.scheduleArticlePublish(
+          'article-1',
+          'user-1',
+          new Date(Date.now() - 1000)
+        )
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+      expect(mockPrisma.article.update).not.toHaveBeenCalled();
+      expect(mockRedis.zadd).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelScheduledPublish', () => {
+    it('should clear the schedule and drop the job', async () => {
+      await testRuntime.runPromise(
+        ArticleService.cancelScheduledPublish('article-1', 'user-1')
+      );
+
+      expect(mockPrisma.article.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { scheduledAt: null, scheduleError: null },
+        })
+      );
+      expect(mockRedis.zrem).toHaveBeenCalledWith(
+        'publish-queue:jobs',
+        'article-1'
+      );
+      expect(mockRedis.hdel).toHaveBeenCalledWith(
+        'publish-queue:attempts',
+        'article-1'
+      );
+    });
+  });
+
+  describe('processScheduledPublishes', () => {
+    it('should publish due articles as the site owner', async () => {
+      queueDueArticle();
+
+      const outcomes = await testRuntime.runPromise(
+        ArticleService.processScheduledPublishes(now)
+      );
+
+      expect(outcomes).toEqual(['published']);
+      expect(mockPrisma.article.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: 'published',
+            scheduledAt: null,
+          }),
+        })
+      );
+      expect(mockRedis.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        2,
+        'publish-queue:jobs',
+        'publish-queue:processing',
+        now.getTime(),
+        now.getTime() + 10 * 60 * 1000,
+        10
+      );
+      expect(mockRedis.zrem).toHaveBeenCalledWith(
+        'publish-queue:processing',
+        'article-1'
+      );
+      expect(mockRedis.hdel).toHaveBeenCalledWith(
+        'publish-queue:attempts',
+        'article-1'
+      );
+    });
+
+    it('should leave jobs another worker claimed first', async () => {
+      queueDueArticle();
+      mockRedis.eval.mockResolvedValue([]);
+
+      const outcomes = await testRuntime.runPromise(
+        ArticleService.processScheduledPublishes(now)
+      );
+
+      expect(outcomes).toEqual([]);
+      expect(mockPrisma.article.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should skip articles whose schedule was cancelled', async () => {
+      queueDueArticle();
+      mockPrisma.article.findUnique.mockResolvedValue(scheduledArticle());
+
+      const outcomes = await testRuntime.runPromise(
+        ArticleService.processScheduledPublishes(now)
+      );
+
+      expect(outcomes).toEqual(['skipped']);
+      expect(mockPrisma.article.update).not.toHaveBeenCalled();
+    });
+
+    it('should retry with backoff when the host is unavailable', async () => {
+      const runtime = unavailableRuntime(503);
+      queueDueArticle();
+      mockRedis.hincrby.mockResolvedValue(2);
+
+      const outcomes = await runtime.runPromise(
+        ArticleService.processScheduledPublishes(now)
+      );
+
+      expect(outcomes).toEqual(['retrying']);
+      expect(mockRedis.zadd).toHaveBeenCalledWith(
+        'publish-queue:jobs',
+        now.getTime() + 2 * 60 * 1000,
+        'article-1'
+      );
+      expect(mockRedis.zrem).toHaveBeenCalledWith(
+        'publish-queue:processing',
+        'article-1'
+      );
+      expect(mockPrisma.article.update).not.toHaveBeenCalled();
+
+      await runtime.dispose();
+    });
+
+    it('should keep the lease when the run cannot be recorded', async () => {
+      const runtime = unavailableRuntime(503);
+      queueDueArticle();
+      mockRedis.hincrby.mockRejectedValue(new Error('Connection lost'));
+
+      const outcomes = await runtime.runPromise(
+        ArticleService.processScheduledPublishes(now)
+      );
+
+      expect(outcomes).toEqual(['failed']);
+      expect(mockRedis.zrem).not.toHaveBeenCalled();
+
+      await runtime.dispose();
+    });
+
+    it('should give up once the attempts run out', async () => {
+      const runtime = unavailableRuntime(503);
+      queueDueArticle();
+      mockRedis.hincrby.mockResolvedValue(ArticleService.SCHEDULE_MAX_ATTEMPTS);
+
+      const outcomes = await runtime.runPromise(
+        ArticleService.processScheduledPublishes(now)
+      );
+
+      expect(outcomes).toEqual(['failed']);
+      expect(mockRedis.zadd).not.toHaveBeenCalled();
+      expect(mockPrisma.article.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { scheduledAt: null, scheduleError: 'Unavailable' },
+        })
+      );
+
+      await runtime.dispose();
+    });
+
+    it('should not retry errors that would fail again', async () => {
+      const runtime = unavailableRuntime(404);
+      queueDueArticle();
+
+      const outcomes = await runtime.runPromise(
+        ArticleService.processScheduledPublishes(now)
+      );
+
+      expect(outcomes).toEqual(['failed']);
+      expect(mockRedis.hincrby).not.toHaveBeenCalled();
+
+      await runtime.dispose();
+    });
+  });
+
+  describe('restoreScheduledPublishes', () => {
+    it('should queue scheduled articles without moving queued jobs', async () => {
+      const scheduledAt = new Date('2026-10-21T09:00:00Z');
+      mockPrisma.article.findMany.mockResolvedValue([
+        mockArticle({ id: 'article-1', scheduledAt }),
+      ]);
+      mockRedis.zscore.mockResolvedValue(null);
+
+      const restored = await testRuntime.runPromise(
+        ArticleService.restoreScheduledPublishes()
+      );
+
+      expect(restored).toBe(1);
+      expect(mockRedis.zadd).toHaveBeenCalledWith(
+        'publish-queue:jobs',
+        'NX',
+        scheduledAt.getTime(),
+        'article-1'
+      );
+    });
+
+    it('should leave jobs a worker is running', async () => {
+      mockPrisma.article.findMany.mockResolvedValue([
+        mockArticle({
+          id: 'article-1',
+          scheduledAt: new Date('2026-10-21T09:00:00Z'),
+        }),
+      ]);
+      mockRedis.zscore.mockResolvedValue(String(now.getTime()));
+
+      await testRuntime.runPromise(ArticleService.restoreScheduledPublishes());
+
+      expect(mockRedis.zadd).not.toHaveBeenCalled();
+    });
+  });
+});
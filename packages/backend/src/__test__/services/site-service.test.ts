@@ -1,14 +1,16 @@
 import { Effect, Layer, ManagedRuntime, Exit } from 'effect';
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 
-import {
-  GitProviderRepository,
-  type GitProviderRepositoryService,
-  type SiteConfig,
+import type {
+  GitProviderRepositoryService,
+  SiteConfig,
 } from '../../repositories/git-provider-repository';
+
 import { PrismaArticleRepositoryLive } from '../../repositories/implementations/prisma-article-repository';
+import { PrismaArticleRevisionRepositoryLive } from '../../repositories/implementations/prisma-article-revision-repository';
 import { PrismaMediaRepositoryLive } from '../../repositories/implementations/prisma-media-repository';
 import { PrismaSiteRepositoryLive } from '../../repositories/implementations/prisma-site-repository';
+import { PrismaSiteTemplateRepositoryLive } from '../../repositories/implementations/prisma-site-template-repository';
 import { PrismaUserRepositoryLive } from '../../repositories/implementations/prisma-user-repository';
 import { AuthServiceLive } from '../../services/auth/auth-service-live';
 import { makeConfigService } from '../../services/config-service';
@@ -24,10 +26,21 @@ import {
   resetMockPrisma,
   TestDatabaseServiceLayer,
 } from '../helpers/mock-database';
-import { mockGitIntegration, mockSite } from '../helpers/mock-factories';
-import { makeMockGitProvider } from '../helpers/mock-git-provider';
+import {
+  mockGitIntegration,
+  mockSite,
+  mockSiteTemplate,
+  mockUser,
+} from '../helpers/mock-factories';
+import {
+  makeMockGitProvider,
+  makeMockGitProviderLayer,
+} from '../helpers/mock-git-provider';
 import { TestRedisServiceLayer } from '../helpers/mock-redis';
-import { TestRepositoryLayer } from '../helpers/test-layers';
+import {
+  makeTestRepositoryLayer,
+  TestRepositoryLayer,
+} from '../helpers/test-layers';
 
 // Create test runtime
 const testRuntime = ManagedRuntime.make(TestRepositoryLayer);
@@ -182,6 +195,48 @@ describe('SiteService', () => {
       });
     });
 
+    it('should normalize the content layout', async () => {
+      // Setup mocks
+      mockPrisma.site.findUnique.mockResolvedValue(mockSite());
+      mockPrisma.site.update.mockResolvedValue(mockSite());
+
+      // Execute
+      await testRuntime.runPromise(
+        SiteService.updateSite('site-1', 'user-1', {
+          contentRoot: ' /content/posts/ ',
+          fileNaming: '{date}-{slug}.md',
+          mediaRoot: 'static/',
+        })
+      );
+
+      // Verify
+      expect(mockPrisma.site.update).toHaveBeenCalledWith({
+        where: { id: 'site-1' },
+        data: {
+          contentRoot: 'content/posts',
+          fileNaming: '{date}-{slug}.md',
+          mediaRoot: 'static',
+        },
+      });
+    });
+
+    it('should reject content layouts outside the repository', async () => {
+      // Setup mocks
+      mockPrisma.site.findUnique.mockResolvedValue(mockSite());
+
+      // Execute and verify
+      const escaping = await testRuntime.runPromiseExit(
+        SiteService.updateSite('site-1', 'user-1', { contentRoot: '../posts' })
+      );
+      const withoutSlug = await testRuntime.runPromiseExit(
+        SiteService.updateSite('site-1', 'user-1', { fileNaming: 'post.md' })
+      );
+
+      expect(Exit.isFailure(escaping)).toBe(true);
+      expect(Exit.isFailure(withoutSlug)).toBe(true);
+      expect(mockPrisma.site.update).not.toHaveBeenCalled();
+    });
+
     it('should fail when site is not found', async () => {
       // Setup mocks
       mockPrisma.site.findUnique.mockResolvedValue(null);
@@ -293,6 +348,71 @@ describe('SiteService', () => {
       expect(updateCall.data).toEqual({ displayName: 'Only Name' });
       expect(updateCall.data).not.toHaveProperty('description');
     });
+
+    it('should point Pages at a custom domain and commit its CNAME', async () => {
+      const setPagesDomain = vi.fn<
+        GitProviderRepositoryService['setPagesDomain']
+      >((...args) => makeMockGitProvider().setPagesDomain(...args));
+      const commitChangeset = vi.fn<
+        GitProviderRepositoryService['commitChangeset']
+      >((...args) => makeMockGitProvider().commitChangeset(...args));
+      const domainRuntime = ManagedRuntime.make(
+        makeTestRepositoryLayer({
+          ...makeMockGitProvider(),
+          setPagesDomain,
+          commitChangeset,
+        })
+      );
+      mockPrisma.site.findUnique.mockResolvedValue(mockSite());
+      mockPrisma.gitIntegration.findFirst.mockResolvedValue(
+        mockGitIntegration()
+      );
+      mockPrisma.site.update.mockResolvedValue(
+        mockSite({ customDomain: 'blog.example.com' })
+      );
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser());
+
+      await domainRuntime.runPromise(
+        SiteService.updateSite('site-1', 'user-1', {
+          customDomain: ' Blog.Example.com ',
+        })
+      );
+
+      expect(setPagesDomain).toHaveBeenCalledWith(
+        expect.any(String),
+        'testuser/test-repo',
+        'blog.example.com',
+        null
+      );
+      expect(commitChangeset.mock.calls[0][2].changes).toEqual([
+        {
+          path: 'CNAME',
+          base64Content: Buffer.from('blog.example.com\n').toString('base64'),
+        },
+      ]);
+      expect(mockPrisma.site.update).toHaveBeenCalledWith({
+        where: { id: 'site-1' },
+        data: {
+          customDomain: 'blog.example.com',
+          deployUrl: 'https://blog.example.com',
+        },
+      });
+
+      await domainRuntime.dispose();
+    });
+
+    it('should reject custom domains that are not hostnames', async () => {
+      mockPrisma.site.findUnique.mockResolvedValue(mockSite());
+
+      const result = await testRuntime.runPromiseExit(
+        SiteService.updateSite('site-1', 'user-1', {
+          customDomain: 'https://blog.example.com/',
+        })
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+      expect(mockPrisma.site.update).not.toHaveBeenCalled();
+    });
   });
 
   describe('deleteSite', () => {
@@ -470,6 +590,51 @@ describe('SiteService', () => {
         }),
       });
     });
+
+    it('should record the template and its version', async () => {
+      mockPrisma.siteTemplate.findUnique.mockResolvedValue(mockSiteTemplate());
+      mockPrisma.site.create.mockResolvedValue(
+        mockSite({ templateId: 'template-1', templateVersion: 'templatesha1' })
+      );
+      mockPrisma.gitIntegration.findFirst.mockResolvedValue(
+        mockGitIntegration()
+      );
+
+      await testRuntime.runPromise(
+        SiteService.createSite({
+          userId: 'user-1',
+          name: 'docs-site',
+          templateId: 'template-1',
+        })
+      );
+
+      expect(mockPrisma.site.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          templateId: 'template-1',
+          templateVersion: 'templatesha1',
+        }),
+      });
+    });
+
+    it('should reject a template from another platform', async () => {
+      mockPrisma.siteTemplate.findUnique.mockResolvedValue(
+        mockSiteTemplate({ platform: 'gitlab' })
+      );
+      mockPrisma.gitIntegration.findFirst.mockResolvedValue(
+        mockGitIntegration()
+      );
+
+      const result = await testRuntime.runPromiseExit(
+        SiteService.createSite({
+          userId: 'user-1',
+          name: 'docs-site',
+          templateId: 'template-1',
+        })
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+      expect(mockPrisma.site.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('getRepoConfig', () => {
@@ -503,8 +668,10 @@ describe('SiteService', () => {
       const ConfigLayer = makeConfigService;
       const RepositoryLayer = Layer.mergeAll(
         PrismaArticleRepositoryLive,
+        PrismaArticleRevisionRepositoryLive,
         PrismaMediaRepositoryLive,
         PrismaSiteRepositoryLive,
+        PrismaSiteTemplateRepositoryLive,
         PrismaUserRepositoryLive
       ).pipe(Layer.provide(TestDatabaseServiceLayer));
       const SessionLayer = SessionServiceLive.pipe(
@@ -515,7 +682,7 @@ describe('SiteService', () => {
         TestRedisServiceLayer,
         ConfigLayer,
         RepositoryLayer,
-        Layer.succeed(GitProviderRepository, configGitProvider),
+        makeMockGitProviderLayer(configGitProvider),
         MockAuthProviderLive,
         MockArticleServiceLive,
         AuthServiceLive,
@@ -1,17 +1,32 @@
-import { ManagedRuntime, Exit } from 'effect';
+import { Effect, ManagedRuntime, Exit } from 'effect';
 import { describe, it, expect, beforeEach } from 'vitest';
 
+import type {
+  CommitOptions,
+  FileChange,
+} from '../../repositories/git-provider-repository';
+
 import { deleteArticleFromGit } from '../../services/article/git/delete-article-from-git';
+import { getArticleConflict } from '../../services/article/git/get-article-conflict';
+import { getArticleHistory } from '../../services/article/git/get-article-history';
+import { getArticleVersion } from '../../services/article/git/get-article-version';
 import { importArticlesFromGit } from '../../services/article/git/import-articles-from-git';
 import { publishArticleToGit } from '../../services/article/git/publish-article-to-git';
+import { resolveArticleConflict } from '../../services/article/git/resolve-article-conflict';
 import { syncArticlesFromGit } from '../../services/article/git/sync-articles-from-git';
 import { mockPrisma, resetMockPrisma } from '../helpers/mock-database';
 import {
   mockArticle,
   mockGitIntegration,
+  mockMedia,
   mockSite,
+  mockUser,
 } from '../helpers/mock-factories';
-import { TestRepositoryLayer } from '../helpers/test-layers';
+import { makeMockGitProvider } from '../helpers/mock-git-provider';
+import {
+  makeTestRepositoryLayer,
+  TestRepositoryLayer,
+} from '../helpers/test-layers';
 
 const testRuntime = ManagedRuntime.make(TestRepositoryLayer);
 
@@ -27,10 +42,18 @@ const mockArticleWithSite = (
   },
 });
 
+const mockUserWithIntegrations = (
+  overrides: Parameters<typeof mockUser>[0] = {}
+) => ({
+  ...mockUser(overrides),
+  gitIntegrations: [mockGitIntegration()],
+});
+
 describe('syncArticlesFromGit', () => {
   beforeEach(() => {
     resetMockPrisma();
     mockPrisma.gitIntegration.findFirst.mockResolvedValue(mockGitIntegration());
+    mockPrisma.user.findUnique.mockResolvedValue(mockUserWithIntegrations());
   });
 
   it('should create new articles from repo', async () => {
@@ -125,10 +148,120 @@ describe('syncArticlesFromGit', () => {
     expect(result.unchanged).toBe(1);
     expect(result.created).toBe(0);
     expect(result.updated).toBe(0);
+    expect(result.apiCallsSaved).toBe(1);
     expect(mockPrisma.article.update).not.toHaveBeenCalled();
     expect(mockPrisma.article.create).not.toHaveBeenCalled();
   });
 
+  it('should only download files whose blobs changed', async () => {
+    const downloaded: string[] = [];
+    const gitProvider = makeMockGitProvider();
+    const runtime = ManagedRuntime.make(
+      makeTestRepositoryLayer({
+        ...gitProvider,
+        listArticleFiles: () =>
+          Effect.succeed([
+            { path: 'content/kept.md', sha: 'kept-sha' },
+            { path: 'content/test-article.md', sha: 'abc123blobsha' },
+          ]),
+        readArticleFiles: (accessToken, repoFullName, branch, files) => {
+          downloaded.push(...files.map((file) => file.path));
+          return gitProvider.readArticleFiles(
+            accessToken,
+            repoFullName,
+            branch,
+            files
+          );
+        },
+      })
+    );
+    mockPrisma.site.findUnique.mockResolvedValue(
+      mockSite({ id: 'site-1', userId: 'user-1' })
+    );
+    mockPrisma.article.findMany.mockResolvedValue([
+      mockArticle({
+        id: 'article-1',
+        slug: 'kept',
+        status: 'published',
+        gitSha: 'kept-sha',
+      }),
+      mockArticle({
+        id: 'article-2',
+        slug: 'test-article',
+        status: 'published',
+        gitSha: 'old-sha',
+      }),
+    ]);
+    mockPrisma.article.update.mockResolvedValue(
+      mockArticleWithSite({ id: 'article-2', slug: 'test-article' })
+    );
+
+    const result = await runtime.runPromise(
+      syncArticlesFromGit('site-1', 'user-1')
+    );
+
+    expect(downloaded).toEqual(['content/test-article.md']);
+    expect(result).toMatchObject({
+      updated: 1,
+      unchanged: 1,
+      markedDraft: 0,
+      apiCallsSaved: 1,
+    });
+  });
+
+  it('should import a new file whose blob matches an existing article', async () => {
+    const downloaded: string[] = [];
+    const runtime = ManagedRuntime.make(
+      makeTestRepositoryLayer({
+        ...makeMockGitProvider(),
+        listArticleFiles: () =>
+          Effect.succeed([
+            { path: 'content/original.md', sha: 'same-sha' },
+            { path: 'content/copy.md', sha: 'same-sha' },
+          ]),
+        readArticleFiles: (_accessToken, _repoFullName, _branch, files) => {
+          downloaded.push(...files.map((file) => file.path));
+          return Effect.succeed(
+            files.map((file) => ({
+              title: 'Stub',
+              slug: file.path.slice('content/'.length, -'.md'.length),
+              content: 'Coming soon.',
+              status: 'published',
+              gitSha: file.sha,
+              filePath: file.path,
+            }))
+          );
+        },
+      })
+    );
+    mockPrisma.site.findUnique.mockResolvedValue(
+      mockSite({ id: 'site-1', userId: 'user-1' })
+    );
+    mockPrisma.article.findMany.mockResolvedValue([
+      mockArticle({
+        id: 'article-1',
+        slug: 'original',
+        status: 'published',
+        gitSha: 'same-sha',
+      }),
+    ]);
+    mockPrisma.article.create.mockResolvedValue(
+      mockArticleWithSite({ id: 'article-2', slug: 'copy' })
+    );
+
+    const result = await runtime.runPromise(
+      syncArticlesFromGit('site-1', 'user-1')
+    );
+
+    expect(downloaded).toEqual(['content/copy.md']);
+    expect(mockPrisma.article.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ slug: 'copy', gitSha: 'same-sha' }),
+      })
+    );
+    expect(result).toMatchObject({ created: 1, unchanged: 1 });
+  });
+
   it('should mark deleted remote articles as draft', async () => {
     mockPrisma.site.findUnique.mockResolvedValue(
       mockSite({ id: 'site-1', userId: 'user-1' })
@@ -172,6 +305,114 @@ describe('syncArticlesFromGit', () => {
     );
   });
 
+  it('should leave articles outside the pushed paths alone', async () => {
+    mockPrisma.site.findUnique.mockResolvedValue(
+      mockSite({ id: 'site-1', userId: 'user-1' })
+    );
+    mockPrisma.article.findMany.mockResolvedValue([
+      mockArticle({
+        id: 'article-1',
+        slug: 'elsewhere',
+        status: 'published',
+        gitSha: 'gone-sha',
+      }),
+      mockArticle({
+        id: 'article-2',
+        slug: 'removed',
+        status: 'published',
+        gitSha: 'removed-sha',
+      }),
+    ]);
+    mockPrisma.article.update.mockResolvedValue(
+      mockArticleWithSite({ id: 'article-2', slug: 'removed' })
+    );
+
+    const result = await testRuntime.runPromise(
+      syncArticlesFromGit('site-1', 'user-1', ['content/removed.md'])
+    );
+
+    expect(result).toMatchObject({ created: 0, markedDraft: 1, total: 0 });
+    expect(mockPrisma.article.update).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.article.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'article-2' } })
+    );
+  });
+
+  it('should publish pending articles once their pull request merges', async () => {
+    const runtime = ManagedRuntime.make(
+      makeTestRepositoryLayer({
+        ...makeMockGitProvider(),
+        getPullRequest: (_accessToken, repoFullName, pullRequestNumber) =>
+          Effect.succeed({
+            number: pullRequestNumber,
+            url: `https://github.com/${repoFullName}/pull/${pullRequestNumber}`,
+            state: 'merged' as const,
+          }),
+      })
+    );
+    mockPrisma.site.findUnique.mockResolvedValue(
+      mockSite({ id: 'site-1', userId: 'user-1' })
+    );
+    mockPrisma.article.findMany.mockResolvedValue([
+      mockArticle({
+        id: 'article-1',
+        slug: 'test-article',
+        status: 'pending_review',
+        gitSha: null,
+        pullRequestNumber: 7,
+      }),
+    ]);
+    mockPrisma.article.update.mockResolvedValue(
+      mockArticleWithSite({ id: 'article-1', status: 'published' })
+    );
+
+    const result = await runtime.runPromise(
+      syncArticlesFromGit('site-1', 'user-1')
+    );
+
+    expect(result.merged).toBe(1);
+    expect(result.updated).toBe(0);
+    expect(mockPrisma.article.update).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.article.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'article-1' },
+        data: expect.objectContaining({
+          status: 'published',
+          gitSha: 'abc123blobsha',
+          pullRequestNumber: null,
+          pullRequestUrl: null,
+        }),
+      })
+    );
+
+    await runtime.dispose();
+  });
+
+  it('should leave articles pending while their pull request is open', async () => {
+    mockPrisma.site.findUnique.mockResolvedValue(
+      mockSite({ id: 'site-1', userId: 'user-1' })
+    );
+    mockPrisma.article.findMany.mockResolvedValue([
+      mockArticle({
+        id: 'article-1',
+        slug: 'new-article',
+        status: 'pending_review',
+        pullRequestNumber: 7,
+      }),
+    ]);
+    mockPrisma.article.create.mockResolvedValue(
+      mockArticleWithSite({ slug: 'test-article', status: 'published' })
+    );
+
+    const result = await testRuntime.runPromise(
+      syncArticlesFromGit('site-1', 'user-1')
+    );
+
+    expect(result.merged).toBe(0);
+    expect(result.markedDraft).toBe(0);
+    expect(mockPrisma.article.update).not.toHaveBeenCalled();
+  });
+
   it('should fail when user does not own the site', async () => {
     mockPrisma.site.findUnique.mockResolvedValue(
       mockSite({ userId: 'other-user' })
@@ -199,6 +440,7 @@ describe('publishArticleToGit - conflict detection', () => {
   beforeEach(() => {
     resetMockPrisma();
     mockPrisma.gitIntegration.findFirst.mockResolvedValue(mockGitIntegration());
+    mockPrisma.user.findUnique.mockResolvedValue(mockUserWithIntegrations());
   });
 
   it('should save gitSha after successful publish', async () => {
@@ -232,6 +474,240 @@ describe('publishArticleToGit - conflict detection', () => {
     );
   });
 
+  it('should mark the site as building the published commit', async () => {
+    mockPrisma.article.findUnique.mockResolvedValue(
+      mockArticleWithSite({ id: 'article-1', status: 'draft', gitSha: null })
+    );
+    mockPrisma.article.update.mockResolvedValue(
+      mockArticleWithSite({ id: 'article-1', status: 'published' })
+    );
+
+    const result = await testRuntime.runPromise(
+      publishArticleToGit('article-1', 'user-1')
+    );
+
+    expect(mockPrisma.site.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'site-1' },
+        data: expect.objectContaining({
+          deployStatus: 'building',
+          deployCommitSha: result.commitSha,
+        }),
+      })
+    );
+  });
+
+  it("should rewrite image links to the site's media URL strategy", async () => {
+    const published: string[] = [];
+    const runtime = ManagedRuntime.make(
+      makeTestRepositoryLayer({
+        ...makeMockGitProvider(),
+        publishArticleToRepo: (
+          accessToken,
+          repoFullName,
+          articleSlug,
+          markdownContent,
+          filePath
+        ) => {
+          published.push(markdownContent);
+          return makeMockGitProvider().publishArticleToRepo(
+            accessToken,
+            repoFullName,
+            articleSlug,
+            markdownContent,
+            filePath
+          );
+        },
+      })
+    );
+    const article = mockArticleWithSite({
+      id: 'article-1',
+      content:
+        '![Photo](https://raw.githubusercontent.com/testuser/test-repo/main/assets/images/photo.png)',
+    });
+    const siteRelativeArticle = {
+      ...article,
+      site: {
+        ...article.site,
+        mediaUrlStrategy: 'site_relative',
+        deployUrl: 'https://testuser.github.io/test-repo/',
+      },
+    };
+    mockPrisma.article.findUnique.mockResolvedValue(siteRelativeArticle);
+    mockPrisma.article.update.mockResolvedValue(article);
+    mockPrisma.media.findMany.mockResolvedValue([
+      mockMedia({ filePath: 'assets/images/photo.png' }),
+    ]);
+
+    await runtime.runPromise(publishArticleToGit('article-1', 'user-1'));
+
+    expect(published[0]).toContain(
+      '![Photo](https://testuser.github.io/test-repo/assets/images/photo.png)'
+    );
+  });
+
+  it('should open a pull request when the site publishes through review', async () => {
+    const article = mockArticleWithSite({ id: 'article-1', status: 'draft' });
+    const reviewedArticle = {
+      ...article,
+      site: { ...article.site, publishMode: 'pull_request' },
+    };
+    mockPrisma.article.findUnique.mockResolvedValue(reviewedArticle);
+    mockPrisma.article.update.mockResolvedValue(
+      mockArticleWithSite({ id: 'article-1', status: 'pending_review' })
+    );
+
+    const result = await testRuntime.runPromise(
+      publishArticleToGit('article-1', 'user-1')
+    );
+
+    expect(result.published).toBe(false);
+    expect(result).toMatchObject({
+      pullRequest: { number: 7, state: 'open' },
+    });
+    expect(mockPrisma.article.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          status: 'pending_review',
+          pullRequestNumber: 7,
+          pullRequestUrl: 'https://github.com/testuser/test-repo/pull/7',
+        }),
+      })
+    );
+    expect(mockPrisma.article.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.not.objectContaining({ gitSha: expect.anything() }),
+      })
+    );
+  });
+
+  it('should propose moving a renamed article in its pull request', async () => {
+    const proposals: Array<readonly FileChange[] | undefined> = [];
+    const runtime = ManagedRuntime.make(
+      makeTestRepositoryLayer({
+        ...makeMockGitProvider(),
+        getFileAtRef: () => Effect.succeed(null),
+        proposeArticleChange: (...args) => {
+          proposals.push(args[4].changes);
+          return makeMockGitProvider().proposeArticleChange(...args);
+        },
+      })
+    );
+    const article = mockArticleWithSite({
+      id: 'article-1',
+      slug: 'new-name',
+      previousSlug: 'test-article',
+      status: 'published',
+      gitSha: 'abc123blobsha',
+    });
+    const reviewedArticle = {
+      ...article,
+      site: { ...article.site, publishMode: 'pull_request' },
+    };
+    mockPrisma.article.findUnique.mockResolvedValue(reviewedArticle);
+    mockPrisma.article.update.mockResolvedValue(reviewedArticle);
+
+    await runtime.runPromise(publishArticleToGit('article-1', 'user-1'));
+
+    expect(proposals).toHaveLength(1);
+    const [deleted, redirects] = proposals[0] ?? [];
+    expect(deleted).toEqual({
+      path: 'content/test-article.md',
+      base64Content: null,
+    });
+    expect(redirects.path).toBe('redirects.json');
+    expect(
+      JSON.parse(
+        Buffer.from(redirects.base64Content ?? '', 'base64').toString()
+      )
+    ).toEqual([{ from: 'test-article', to: 'new-name' }]);
+  });
+
+  it("should write to the site's content layout", async () => {
+    const article = mockArticleWithSite({
+      id: 'article-1',
+      slug: 'hello',
+      publishedAt: new Date('2025-03-04T10:00:00Z'),
+    });
+    const jekyllArticle = {
+      ...article,
+      site: {
+        ...article.site,
+        contentRoot: '_posts',
+        fileNaming: '{date}-{slug}.md',
+      },
+    };
+    mockPrisma.article.findUnique.mockResolvedValue(jekyllArticle);
+    mockPrisma.article.update.mockResolvedValue(article);
+
+    const result = await testRuntime.runPromise(
+      publishArticleToGit('article-1', 'user-1')
+    );
+
+    expect(result.filePath).toBe('_posts/2025-03-04-hello.md');
+  });
+
+  it("should commit with the site's template, the note and the user's identity", async () => {
+    const commits: (CommitOptions | undefined)[] = [];
+    const runtime = ManagedRuntime.make(
+      makeTestRepositoryLayer({
+        ...makeMockGitProvider(),
+        publishArticleToRepo: (
+          accessToken,
+          repoFullName,
+          articleSlug,
+          markdownContent,
+          filePath,
+          commit
+        ) => {
+          commits.push(commit);
+          return makeMockGitProvider().publishArticleToRepo(
+            accessToken,
+            repoFullName,
+            articleSlug,
+            markdownContent,
+            filePath
+          );
+        },
+      })
+    );
+    const article = mockArticleWithSite({
+      id: 'article-1',
+      title: 'Hello World',
+      status: 'published',
+      gitSha: 'abc123blobsha',
+    });
+    const templatedArticle = {
+      ...article,
+      site: { ...article.site, commitMessageTemplate: 'blog: {title}' },
+    };
+    mockPrisma.article.findUnique.mockResolvedValue(templatedArticle);
+    mockPrisma.article.update.mockResolvedValue(article);
+    mockPrisma.user.findUnique.mockResolvedValue(
+      mockUserWithIntegrations({
+        commitName: 'Test User',
+        commitEmail: 'me@example.com',
+      })
+    );
+
+    await runtime.runPromise(
+      publishArticleToGit('article-1', 'user-1', { message: 'Fix the intro' })
+    );
+
+    expect(commits).toEqual([
+      {
+        message: [
+          'blog: Hello World',
+          '',
+          'Fix the intro',
+          '',
+          'Co-authored-by: Jane Doe <jane@example.com>',
+        ].join('\n'),
+        author: { name: 'Test User', email: 'me@example.com' },
+      },
+    ]);
+  });
+
   it('should fail with conflict when remote SHA differs', async () => {
     mockPrisma.article.findUnique.mockResolvedValue(
       mockArticleWithSite({
@@ -250,10 +726,340 @@ describe('publishArticleToGit - conflict detection', () => {
   });
 });
 
+describe('slug renames', () => {
+  beforeEach(() => {
+    resetMockPrisma();
+    mockPrisma.gitIntegration.findFirst.mockResolvedValue(mockGitIntegration());
+    mockPrisma.user.findUnique.mockResolvedValue(mockUserWithIntegrations());
+  });
+
+  it('should move a renamed article and redirect its old slug', async () => {
+    const commits: FileChange[][] = [];
+    const runtime = ManagedRuntime.make(
+      makeTestRepositoryLayer({
+        ...makeMockGitProvider(),
+        getFileAtRef: () => Effect.succeed(null),
+        commitChangeset: (accessToken, repoFullName, opts) => {
+          commits.push([...opts.changes]);
+          return makeMockGitProvider().commitChangeset(
+            accessToken,
+            repoFullName,
+            opts
+          );
+        },
+      })
+    );
+    const article = mockArticleWithSite({
+      id: 'article-1',
+      slug: 'new-name',
+      previousSlug: 'test-article',
+      status: 'published',
+      gitSha: 'abc123blobsha',
+    });
+    mockPrisma.article.findUnique.mockResolvedValue(article);
+    mockPrisma.article.update.mockResolvedValue(article);
+
+    const result = await runtime.runPromise(
+      publishArticleToGit('article-1', 'user-1')
+    );
+
+    expect(result.filePath).toBe('content/new-name.md');
+    expect(commits).toHaveLength(1);
+    const [deleted, written, redirects] = commits[0];
+    expect(deleted).toEqual({
+      path: 'content/test-article.md',
+      base64Content: null,
+    });
+    expect(written.path).toBe('content/new-name.md');
+    expect(redirects.path).toBe('redirects.json');
+    expect(
+      JSON.parse(
+        Buffer.from(redirects.base64Content ?? '', 'base64').toString()
+      )
+    ).toEqual([{ from: 'test-article', to: 'new-name' }]);
+    expect(mockPrisma.article.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          gitSha: 'newblobsha789',
+          previousSlug: null,
+        }),
+      })
+    );
+  });
+
+  it('should move a redated article without redirecting its slug', async () => {
+    const commits: FileChange[][] = [];
+    const runtime = ManagedRuntime.make(
+      makeTestRepositoryLayer({
+        ...makeMockGitProvider(),
+        commitChangeset: (accessToken, repoFullName, opts) => {
+          commits.push([...opts.changes]);
+          return makeMockGitProvider().commitChangeset(
+            accessToken,
+            repoFullName,
+            opts
+          );
+        },
+      })
+    );
+    const article = mockArticleWithSite({
+      id: 'article-1',
+      status: 'published',
+      publishedAt: new Date('2026-02-01T00:00:00Z'),
+      previousPublishedAt: new Date('2026-01-15T00:00:00Z'),
+      gitSha: 'abc123blobsha',
+    });
+    const datedArticle = {
+      ...article,
+      site: { ...article.site, fileNaming: '{date}-{slug}.md' },
+    };
+    mockPrisma.article.findUnique.mockResolvedValue(datedArticle);
+    mockPrisma.article.update.mockResolvedValue(datedArticle);
+
+    const result = await runtime.runPromise(
+      publishArticleToGit('article-1', 'user-1')
+    );
+
+    expect(result.filePath).toBe('content/2026-02-01-test-article.md');
+    expect(commits).toHaveLength(1);
+    expect(commits[0].map((change) => change.path)).toEqual([
+      'content/2026-01-15-test-article.md',
+      'content/2026-02-01-test-article.md',
+    ]);
+    expect(commits[0][0].base64Content).toBeNull();
+    expect(mockPrisma.article.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ previousPublishedAt: null }),
+      })
+    );
+  });
+
+  it("should not import the file left at a renamed article's old slug", async () => {
+    mockPrisma.site.findUnique.mockResolvedValue(
+      mockSite({ id: 'site-1', userId: 'user-1' })
+    );
+    mockPrisma.article.findMany.mockResolvedValue([
+      mockArticle({
+        id: 'article-1',
+        slug: 'new-name',
+        previousSlug: 'test-article',
+        status: 'published',
+        gitSha: 'edited-in-repo-sha',
+      }),
+    ]);
+
+    const result = await testRuntime.runPromise(
+      syncArticlesFromGit('site-1', 'user-1')
+    );
+
+    expect(result.created).toBe(0);
+    expect(result.markedDraft).toBe(0);
+    expect(mockPrisma.article.create).not.toHaveBeenCalled();
+    expect(mockPrisma.article.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('article conflicts', () => {
+  const blobs: Record<string, string> = {
+    'base-sha': '---\ntitle: Hello\n---\nFirst line\n',
+    abc123blobsha: '---\ntitle: Hello\n---\nFirst line, fixed\n',
+  };
+  const runtime = ManagedRuntime.make(
+    makeTestRepositoryLayer({
+      ...makeMockGitProvider(),
+      getBlobContent: (_accessToken, _repoFullName, blobSha) =>
+        Effect.succeed(blobs[blobSha] ?? null),
+    })
+  );
+
+  beforeEach(() => {
+    resetMockPrisma();
+    mockPrisma.gitIntegration.findFirst.mockResolvedValue(mockGitIntegration());
+    mockPrisma.user.findUnique.mockResolvedValue(mockUserWithIntegrations());
+  });
+
+  it('should return the synced, local and remote versions', async () => {
+    mockPrisma.article.findUnique.mockResolvedValue(
+      mockArticleWithSite({
+        id: 'article-1',
+        title: 'Hello',
+        content: 'First line\nSecond line',
+        status: 'published',
+        gitSha: 'base-sha',
+      })
+    );
+
+    const conflict = await runtime.runPromise(
+      getArticleConflict('article-1', 'user-1')
+    );
+
+    expect(conflict).toMatchObject({
+      remoteSha: 'abc123blobsha',
+      base: blobs['base-sha'],
+      remote: blobs.abc123blobsha,
+    });
+    expect(conflict?.local).toContain('First line\nSecond line');
+  });
+
+  it('should show the local version with the media links a publish writes', async () => {
+    const article = mockArticleWithSite({
+      id: 'article-1',
+      content:
+        '![Photo](https://raw.githubusercontent.com/testuser/test-repo/main/assets/images/photo.png)',
+      status: 'published',
+      gitSha: 'base-sha',
+    });
+    const siteRelativeArticle = {
+      ...article,
+      site: {
+        ...article.site,
+        mediaUrlStrategy: 'site_relative',
+        deployUrl: 'https://testuser.github.io/test-repo/',
+      },
+    };
+    mockPrisma.article.findUnique.mockResolvedValue(siteRelativeArticle);
+    mockPrisma.media.findMany.mockResolvedValue([
+      mockMedia({ filePath: 'assets/images/photo.png' }),
+    ]);
+
+    const conflict = await runtime.runPromise(
+      getArticleConflict('article-1', 'user-1')
+    );
+
+    expect(conflict?.local).toContain(
+      '![Photo](https://testuser.github.io/test-repo/assets/images/photo.png)'
+    );
+  });
+
+  it('should report no conflict while the remote file is unchanged', async () => {
+    mockPrisma.article.findUnique.mockResolvedValue(
+      mockArticleWithSite({ id: 'article-1', gitSha: 'abc123blobsha' })
+    );
+
+    const conflict = await runtime.runPromise(
+      getArticleConflict('article-1', 'user-1')
+    );
+
+    expect(conflict).toBeNull();
+  });
+
+  it('should publish the merge on top of the remote version', async () => {
+    const article = mockArticleWithSite({
+      id: 'article-1',
+      title: 'Hello',
+      status: 'published',
+      gitSha: 'base-sha',
+    });
+    mockPrisma.article.findUnique
+      .mockResolvedValueOnce(article)
+      .mockResolvedValueOnce({ ...article, gitSha: 'abc123blobsha' });
+    mockPrisma.article.update.mockResolvedValue(article);
+
+    const result = await runtime.runPromise(
+      resolveArticleConflict('article-1', 'user-1', {
+        markdown: '---\ntitle: Hello again\n---\nFirst line, fixed\nMine\n',
+        remoteSha: 'abc123blobsha',
+      })
+    );
+
+    expect(result.published).toBe(true);
+    expect(mockPrisma.article.update).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        data: expect.objectContaining({
+          title: 'Hello again',
+          content: 'First line, fixed\nMine',
+          gitSha: 'abc123blobsha',
+        }),
+      })
+    );
+    expect(mockPrisma.article.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: 'published' }),
+      })
+    );
+  });
+
+  it('should conflict again when the remote moved during the merge', async () => {
+    const article = mockArticleWithSite({
+      id: 'article-1',
+      gitSha: 'base-sha',
+    });
+    mockPrisma.article.findUnique
+      .mockResolvedValueOnce(article)
+      .mockResolvedValueOnce({ ...article, gitSha: 'stale-remote-sha' });
+    mockPrisma.article.update.mockResolvedValue(article);
+
+    const error = await runtime.runPromise(
+      Effect.flip(
+        resolveArticleConflict('article-1', 'user-1', {
+          markdown: '---\ntitle: Hello\n---\nMerged\n',
+          remoteSha: 'stale-remote-sha',
+        })
+      )
+    );
+
+    expect(error._tag).toBe('GitConflictError');
+  });
+});
+
+describe('article history', () => {
+  beforeEach(() => {
+    resetMockPrisma();
+    mockPrisma.gitIntegration.findFirst.mockResolvedValue(mockGitIntegration());
+    mockPrisma.user.findUnique.mockResolvedValue(mockUserWithIntegrations());
+    mockPrisma.article.findUnique.mockResolvedValue(
+      mockArticleWithSite({ id: 'article-1', slug: 'hello' })
+    );
+  });
+
+  it("should list the commits that touched the article's file", async () => {
+    const result = await testRuntime.runPromise(
+      getArticleHistory('article-1', 'user-1')
+    );
+
+    expect(result.filePath).toBe('content/hello.md');
+    expect(result.commits.map((commit) => commit.sha)).toEqual([
+      'commit-2',
+      'commit-1',
+    ]);
+  });
+
+  it('should read the article as a commit had it', async () => {
+    const version = await testRuntime.runPromise(
+      getArticleVersion('article-1', 'user-1', 'commit-1')
+    );
+
+    expect(version).toEqual({
+      commitSha: 'commit-1',
+      title: 'Old Title',
+      content: '# Old content',
+      excerpt: 'Old excerpt',
+      tags: 'old',
+    });
+  });
+
+  it('should fail when the file did not exist at the commit', async () => {
+    const runtime = ManagedRuntime.make(
+      makeTestRepositoryLayer({
+        ...makeMockGitProvider(),
+        getFileAtRef: () => Effect.succeed(null),
+      })
+    );
+
+    const error = await runtime.runPromise(
+      Effect.flip(getArticleVersion('article-1', 'user-1', 'commit-0'))
+    );
+
+    expect(error._tag).toBe('ArticleVersionNotFoundError');
+  });
+});
+
 describe('importArticlesFromGit', () => {
   beforeEach(() => {
     resetMockPrisma();
     mockPrisma.gitIntegration.findFirst.mockResolvedValue(mockGitIntegration());
+    mockPrisma.user.findUnique.mockResolvedValue(mockUserWithIntegrations());
   });
 
   it('should import new articles from repository', async () => {
@@ -338,6 +1144,7 @@ describe('deleteArticleFromGit', () => {
   beforeEach(() => {
     resetMockPrisma();
     mockPrisma.gitIntegration.findFirst.mockResolvedValue(mockGitIntegration());
+    mockPrisma.user.findUnique.mockResolvedValue(mockUserWithIntegrations());
   });
 
   it('should delete article file from git repository', async () => {
@@ -357,6 +1164,25 @@ describe('deleteArticleFromGit', () => {
     expect(result.filePath).toBe('content/test-article.md');
   });
 
+  it("should delete the file from the site's content layout", async () => {
+    const article = mockArticleWithSite({ id: 'article-1', slug: 'hello' });
+    const bundledArticle = {
+      ...article,
+      site: {
+        ...article.site,
+        contentRoot: 'content/posts',
+        fileNaming: '{slug}/index.md',
+      },
+    };
+    mockPrisma.article.findUnique.mockResolvedValue(bundledArticle);
+
+    const result = await testRuntime.runPromise(
+      deleteArticleFromGit('article-1', 'user-1')
+    );
+
+    expect(result.filePath).toBe('content/posts/hello/index.md');
+  });
+
   it('should return not deleted when site has no git repo', async () => {
     mockPrisma.article.findUnique.mockResolvedValue({
       ...mockArticle({ id: 'article-1' }),
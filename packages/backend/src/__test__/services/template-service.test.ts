@@ -0,0 +1,178 @@
+import { Effect, Either, Exit, ManagedRuntime } from 'effect';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ConfigService, resolveConfig } from '../../services/config-service';
+import {
+  parseTemplateManifest,
+  TemplateService,
+} from '../../services/template';
+import { mockPrisma, resetMockPrisma } from '../helpers/mock-database';
+import {
+  mockGitIntegration,
+  mockSiteTemplate,
+  mockUser,
+} from '../helpers/mock-factories';
+import { makeMockGitProvider } from '../helpers/mock-git-provider';
+import {
+  makeTestRepositoryLayer,
+  TestRepositoryLayer,
+} from '../helpers/test-layers';
+
+const testRuntime = ManagedRuntime.make(TestRepositoryLayer);
+
+const asAdmin = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+  Effect.provideService(effect, ConfigService, {
+    ...resolveConfig(),
+    adminUsernames: ['testuser'],
+  });
+
+const manifest = JSON.stringify({
+  name: 'Docs',
+  description: 'A documentation site',
+  preview: 'preview.png',
+  files: ['build/index.js', 'templates/layout.html'],
+  placeholders: { '%%TITLE%%': 'siteName' },
+});
+
+const makeTemplateRepoRuntime = (content: string | null) =>
+  ManagedRuntime.make(
+    makeTestRepositoryLayer({
+      ...makeMockGitProvider(),
+      getFileAtRef: () => Effect.succeed(content),
+    })
+  );
+
+describe('TemplateService', () => {
+  beforeEach(() => {
+    resetMockPrisma();
+  });
+
+  describe('parseTemplateManifest', () => {
+    it('should accept a valid manifest', () => {
+      const result = parseTemplateManifest(manifest);
+
+      expect(Either.isRight(result)).toBe(true);
+    });
+
+    it('should reject files outside the repository', () => {
+      const result = parseTemplateManifest(
+        JSON.stringify({ name: 'Docs', files: ['../secrets.txt'] })
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+    });
+
+    it('should reject unknown placeholder values', () => {
+      const result = parseTemplateManifest(
+        JSON.stringify({
+          name: 'Docs',
+          files: ['build/index.js'],
+          placeholders: { '%%TOKEN%%': 'accessToken' },
+        })
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+    });
+  });
+
+  describe('registerTemplate', () => {
+    it('should reject users who are not admins', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser());
+
+      const result = await testRuntime.runPromiseExit(
+        Effect.flatMap(TemplateService, (svc) =>
+          svc.registerTemplate({
+            userId: 'user-1',
+            platform: 'github',
+            repo: 'acme/inland-template-docs',
+          })
+        )
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+      expect(mockPrisma.siteTemplate.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should record the manifest at the current commit', async () => {
+      const runtime = makeTemplateRepoRuntime(manifest);
+
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser());
+      mockPrisma.gitIntegration.findFirst.mockResolvedValue(
+        mockGitIntegration()
+      );
+      mockPrisma.siteTemplate.upsert.mockResolvedValue(mockSiteTemplate());
+
+      await runtime.runPromise(
+        asAdmin(
+          Effect.flatMap(TemplateService, (svc) =>
+            svc.registerTemplate({
+              userId: 'user-1',
+              platform: 'github',
+              repo: 'acme/inland-template-docs',
+            })
+          )
+        )
+      );
+
+      expect(mockPrisma.siteTemplate.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            platform: 'github',
+            repo: 'acme/inland-template-docs',
+            name: 'Docs',
+            previewUrl:
+              'https://raw.githubusercontent.com/acme/inland-template-docs/headcommitsha123/preview.png',
+            files: ['build/index.js', 'templates/layout.html'],
+            version: 'headcommitsha123',
+          }),
+        })
+      );
+
+      await runtime.dispose();
+    });
+
+    it('should fail when the repository has no manifest', async () => {
+      const runtime = makeTemplateRepoRuntime(null);
+
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser());
+      mockPrisma.gitIntegration.findFirst.mockResolvedValue(
+        mockGitIntegration()
+      );
+
+      const result = await runtime.runPromiseExit(
+        asAdmin(
+          Effect.flatMap(TemplateService, (svc) =>
+            svc.registerTemplate({
+              userId: 'user-1',
+              platform: 'github',
+              repo: 'acme/inland-template-docs',
+            })
+          )
+        )
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+      expect(mockPrisma.siteTemplate.upsert).not.toHaveBeenCalled();
+
+      await runtime.dispose();
+    });
+  });
+
+  describe('deleteTemplate', () => {
+    it('should fail when the template does not exist', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser());
+      mockPrisma.siteTemplate.findUnique.mockResolvedValue(null);
+
+      const result = await testRuntime.runPromiseExit(
+        asAdmin(
+          Effect.flatMap(TemplateService, (svc) =>
+            svc.deleteTemplate('missing', 'user-1')
+          )
+        )
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+      expect(mockPrisma.siteTemplate.delete).not.toHaveBeenCalled();
+    });
+  });
+});
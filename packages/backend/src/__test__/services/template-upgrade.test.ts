@@ -0,0 +1,194 @@
+import { Effect, Exit, ManagedRuntime } from 'effect';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import type { GitProviderRepositoryService } from '../../repositories/git-provider-repository';
+
+import * as SiteService from '../../services/site';
+import { classifyTemplateFile } from '../../services/site/git/load-template-upgrade';
+import { mockPrisma, resetMockPrisma } from '../helpers/mock-database';
+import {
+  mockGitIntegration,
+  mockSite,
+  mockSiteTemplate,
+  mockUser,
+} from '../helpers/mock-factories';
+import { makeMockGitProvider } from '../helpers/mock-git-provider';
+import { makeTestRepositoryLayer } from '../helpers/test-layers';
+
+// Template files at the site's version and at the registered one, and the
+// repository's copies
+const FILES: Record<string, Record<string, string>> = {
+  oldsha: {
+    'build/index.js': 'build v1',
+    'templates/layout.html': '<title>%%TITLE%%</title>',
+    'assets/docs.css': 'body {}',
+  },
+  templatesha1: {
+    'build/index.js': 'build v2',
+    'templates/layout.html': '<title>%%TITLE%%</title><main>',
+    'assets/docs.css': 'body {}',
+  },
+  main: {
+    'build/index.js': 'build v1',
+    'templates/layout.html': '<title>Test Site</title><nav>',
+    'assets/docs.css': 'body { color: red }',
+  },
+};
+
+const makeUpgradeRuntime = (
+  commitChangeset = makeMockGitProvider().commitChangeset
+) =>
+  ManagedRuntime.make(
+    makeTestRepositoryLayer({
+      ...makeMockGitProvider(),
+      getFileAtRef: (_token, _repo, filePath, ref) =>
+        Effect.succeed(FILES[ref]?.[filePath] ?? null),
+      commitChangeset,
+    })
+  );
+
+const setupTemplateSite = () => {
+  mockPrisma.site.findUnique.mockResolvedValue(
+    mockSite({
+      name: 'Test Site',
+      templateId: 'template-1',
+      templateVersion: 'oldsha',
+    })
+  );
+  mockPrisma.siteTemplate.findUnique.mockResolvedValue(mockSiteTemplate());
+  mockPrisma.gitIntegration.findFirst.mockResolvedValue(mockGitIntegration());
+  mockPrisma.user.findUnique.mockResolvedValue(mockUser());
+};
+
+describe('Template upgrade', () => {
+  beforeEach(() => {
+    resetMockPrisma();
+  });
+
+  describe('classifyTemplateFile', () => {
+    it('should classify files by which side changed', () => {
+      expect(classifyTemplateFile(null, 'a', 'b')).toBe('added');
+      expect(classifyTemplateFile('b', 'a', 'b')).toBe('unchanged');
+      expect(classifyTemplateFile('a', 'a', 'b')).toBe('updated');
+      expect(classifyTemplateFile('c', 'a', 'a')).toBe('customized');
+      expect(classifyTemplateFile('c', 'a', 'b')).toBe('conflict');
+      expect(classifyTemplateFile('c', null, 'b')).toBe('conflict');
+    });
+  });
+
+  describe('previewTemplateUpgrade', () => {
+    it('should compare rendered template files with the repository', async () => {
+      const runtime = makeUpgradeRuntime();
+      setupTemplateSite();
+
+      const preview = await runtime.runPromise(
+        SiteService.previewTemplateUpgrade('site-1', 'user-1')
+      );
+
+      expect(preview.fromVersion).toBe('oldsha');
+      expect(preview.toVersion).toBe('templatesha1');
+      expect(
+        preview.files.map(({ path, status }) => ({ path, status }))
+      ).toEqual([
+        { path: 'build/index.js', status: 'updated' },
+        { path: 'templates/layout.html', status: 'conflict' },
+        { path: 'assets/docs.css', status: 'customized' },
+      ]);
+      expect(preview.files[1]).toMatchObject({
+        base: '<title>Test Site</title>',
+        incoming: '<title>Test Site</title><main>',
+      });
+
+      await runtime.dispose();
+    });
+
+    it('should fail for sites without a registered template', async () => {
+      const runtime = makeUpgradeRuntime();
+      mockPrisma.site.findUnique.mockResolvedValue(mockSite());
+
+      const result = await runtime.runPromiseExit(
+        SiteService.previewTemplateUpgrade('site-1', 'user-1')
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+
+      await runtime.dispose();
+    });
+  });
+
+  describe('applyTemplateUpgrade', () => {
+    it('should commit replaced and merged files only', async () => {
+      const commitChangeset = vi.fn<
+        GitProviderRepositoryService['commitChangeset']
+      >((...args) => makeMockGitProvider().commitChangeset(...args));
+      const runtime = makeUpgradeRuntime(commitChangeset);
+      setupTemplateSite();
+      mockPrisma.site.update.mockResolvedValue(mockSite());
+
+      const result = await runtime.runPromise(
+        SiteService.applyTemplateUpgrade({
+          siteId: 'site-1',
+          userId: 'user-1',
+          version: 'templatesha1',
+          files: [
+            { path: 'build/index.js', action: 'replace' },
+            {
+              path: 'templates/layout.html',
+              action: 'merge',
+              content: '<title>Test Site</title><nav><main>',
+            },
+            { path: 'assets/docs.css', action: 'keep' },
+          ],
+        })
+      );
+
+      expect(result.filesChanged).toEqual([
+        'build/index.js',
+        'templates/layout.html',
+      ]);
+      const changes = commitChangeset.mock.calls[0][2].changes;
+      expect(
+        changes.map((change) => ({
+          path: change.path,
+          content: Buffer.from(change.base64Content!, 'base64').toString(),
+        }))
+      ).toEqual([
+        { path: 'build/index.js', content: 'build v2' },
+        {
+          path: 'templates/layout.html',
+          content: '<title>Test Site</title><nav><main>',
+        },
+      ]);
+      expect(mockPrisma.site.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ templateVersion: 'templatesha1' }),
+        })
+      );
+
+      await runtime.dispose();
+    });
+
+    it('should reject decisions made against another version', async () => {
+      const commitChangeset = vi.fn<
+        GitProviderRepositoryService['commitChangeset']
+      >((...args) => makeMockGitProvider().commitChangeset(...args));
+      const runtime = makeUpgradeRuntime(commitChangeset);
+      setupTemplateSite();
+
+      const result = await runtime.runPromiseExit(
+        SiteService.applyTemplateUpgrade({
+          siteId: 'site-1',
+          userId: 'user-1',
+          version: 'stalesha',
+          files: [{ path: 'build/index.js', action: 'replace' }],
+        })
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+      expect(commitChangeset).not.toHaveBeenCalled();
+      expect(mockPrisma.site.update).not.toHaveBeenCalled();
+
+      await runtime.dispose();
+    });
+  });
+});
@@ -3,6 +3,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 
 import * as UserService from '../../services/user';
 import { mockPrisma, resetMockPrisma } from '../helpers/mock-database';
+import { mockUser as buildUser } from '../helpers/mock-factories';
 import { TestRepositoryLayer } from '../helpers/test-layers';
 
 // Create test runtime
@@ -22,6 +23,8 @@ describe('UserService', () => {
         displayName: 'Test User',
         email: 'test@example.com',
         avatarUrl: 'https://example.com/avatar.jpg',
+        commitName: null,
+        commitEmail: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -84,6 +87,8 @@ describe('UserService', () => {
         displayName: 'Test User',
         email: 'test@example.com',
         avatarUrl: 'https://example.com/avatar.jpg',
+        commitName: null,
+        commitEmail: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -125,6 +130,8 @@ describe('UserService', () => {
         displayName: 'Test User',
         email: 'test@example.com',
         avatarUrl: 'https://example.com/avatar.jpg',
+        commitName: null,
+        commitEmail: null,
         createdAt: new Date(),
         updatedAt: new Date(),
         gitIntegrations: [
@@ -175,6 +182,8 @@ describe('UserService', () => {
         displayName: 'Test User',
         email: 'updated@example.com',
         avatarUrl: 'https://example.com/new-avatar.jpg',
+        commitName: null,
+        commitEmail: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -322,4 +331,53 @@ describe('UserService', () => {
       });
     });
   });
+
+  describe('updateCommitIdentity', () => {
+    it('should save a trimmed commit name and email', async () => {
+      mockPrisma.user.update.mockResolvedValue(
+        buildUser({ commitName: 'Jane Doe', commitEmail: 'jane@example.com' })
+      );
+
+      const result = await testRuntime.runPromise(
+        UserService.updateCommitIdentity('user-1', {
+          commitName: '  Jane Doe ',
+          commitEmail: 'jane@example.com',
+        })
+      );
+
+      expect(result.commitName).toBe('Jane Doe');
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { commitName: 'Jane Doe', commitEmail: 'jane@example.com' },
+      });
+    });
+
+    it('should clear the identity when both fields are empty', async () => {
+      mockPrisma.user.update.mockResolvedValue(buildUser());
+
+      await testRuntime.runPromise(
+        UserService.updateCommitIdentity('user-1', {
+          commitName: '',
+          commitEmail: null,
+        })
+      );
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { commitName: null, commitEmail: null },
+      });
+    });
+
+    it('should reject a name without an email', async () => {
+      const result = await testRuntime.runPromiseExit(
+        UserService.updateCommitIdentity('user-1', {
+          commitName: 'Jane Doe',
+          commitEmail: null,
+        })
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
 });
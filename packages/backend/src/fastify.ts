@@ -4,12 +4,16 @@ import Fastify from 'fastify';
 import { fastifyAuthPlugin } from './plugins/auth';
 import { prismaPlugin } from './plugins/database';
 import { runtimePlugin } from './plugins/effect-runtime';
+import { publishSchedulerPlugin } from './plugins/publish-scheduler';
 import { fastifyRedisPlugin } from './plugins/redis';
 import { schemaValidationPlugin } from './plugins/schema-validation';
 import { articleRoutes } from './routes/articles';
 import { authRoutes } from './routes/auth';
+import { localGitRoutes } from './routes/local-git';
 import { mediaRoutes } from './routes/media';
 import { siteRoutes } from './routes/sites';
+import { templateRoutes } from './routes/templates';
+import { webhookRoutes } from './routes/webhooks';
 import { resolveConfig } from './services/config-service';
 
 export const fastify = Fastify({
@@ -19,6 +23,7 @@ export const fastify = Fastify({
 await fastify.register(prismaPlugin);
 await fastify.register(fastifyRedisPlugin);
 await fastify.register(runtimePlugin);
+await fastify.register(publishSchedulerPlugin);
 await fastify.register(fastifyAuthPlugin);
 await fastify.register(schemaValidationPlugin);
 await fastify.register(multipart, {
@@ -36,6 +41,9 @@ await fastify.register(authRoutes, { prefix: '/api' });
 await fastify.register(siteRoutes, { prefix: '/api' });
 await fastify.register(articleRoutes, { prefix: '/api' });
 await fastify.register(mediaRoutes, { prefix: '/api' });
+await fastify.register(templateRoutes, { prefix: '/api' });
+await fastify.register(localGitRoutes, { prefix: '/api' });
+await fastify.register(webhookRoutes, { prefix: '/api' });
 
 fastify.get('/', async () => {
   return { message: 'Inland CMS Backend with Effect-TS!' };
@@ -1,4 +1,45 @@
-import { GitHubAuthRepositoryLive } from '../repositories/implementations/github-auth-repository';
+import { Effect, Layer } from 'effect';
 
-// For now, we only support GitHub auth, but this can be extended to support other providers
-export const AuthProviderLive = GitHubAuthRepositoryLive;
+import {
+  AuthProviderAPIError,
+  AuthProviderRegistry,
+  type AuthProviderRepositoryService,
+} from '../repositories/auth-provider-repository';
+import { makeGiteaAuthRepository } from '../repositories/implementations/gitea-auth-repository';
+import { GitHubAppRepositoryLive } from '../repositories/implementations/github-app-repository';
+import { makeGitHubAuthRepository } from '../repositories/implementations/github-auth-repository';
+import { makeGitLabAuthRepository } from '../repositories/implementations/gitlab-auth-repository';
+import { makeLocalAuthRepository } from '../repositories/implementations/local-auth-repository';
+import { ConfigService } from '../services/config-service';
+
+// Routes auth calls to the platform that issued the access token
+export const AuthProviderRegistryLive = Layer.effect(
+  AuthProviderRegistry,
+  Effect.gen(function* () {
+    const config = yield* ConfigService;
+    const providers: Record<string, AuthProviderRepositoryService> = {
+      github: makeGitHubAuthRepository(),
+      gitlab: makeGitLabAuthRepository({ baseUrl: config.gitlabUrl }),
+      ...(config.giteaUrl && {
+        gitea: makeGiteaAuthRepository({ baseUrl: config.giteaUrl }),
+      }),
+      ...(config.localGitRoot && { local: makeLocalAuthRepository() }),
+    };
+
+    return {
+      forPlatform: (platform: string) =>
+        platform in providers
+          ? Effect.succeed(providers[platform])
+          : Effect.fail(
+              new AuthProviderAPIError({
+                message: `Unsupported auth platform: ${platform}`,
+              })
+            ),
+    };
+  })
+);
+
+export const AuthProviderLive = Layer.merge(
+  AuthProviderRegistryLive,
+  GitHubAppRepositoryLive
+);
@@ -48,6 +48,46 @@ const authPlugin = async (fastify: FastifyInstance) => {
     callbackUri: config.authCallbackUrl,
     scope: ['user:email', 'public_repo', 'workflow'],
   });
+  if (config.gitlabClientId) {
+    await fastify.register(oauth2, {
+      name: 'gitlab',
+      credentials: {
+        client: {
+          id: config.gitlabClientId,
+          secret: config.gitlabClientSecret,
+        },
+        auth: {
+          authorizeHost: config.gitlabUrl,
+          authorizePath: '/oauth/authorize',
+          tokenHost: config.gitlabUrl,
+          tokenPath: '/oauth/token',
+        },
+      },
+      startRedirectPath: '/api/auth/gitlab',
+      callbackUri: config.gitlabAuthCallbackUrl,
+      scope: ['api', 'read_user'],
+    });
+  }
+  if (config.giteaUrl && config.giteaClientId) {
+    await fastify.register(oauth2, {
+      name: 'gitea',
+      credentials: {
+        client: {
+          id: config.giteaClientId,
+          secret: config.giteaClientSecret,
+        },
+        auth: {
+          authorizeHost: config.giteaUrl,
+          authorizePath: '/login/oauth/authorize',
+          tokenHost: config.giteaUrl,
+          tokenPath: '/login/oauth/access_token',
+        },
+      },
+      startRedirectPath: '/api/auth/gitea',
+      callbackUri: config.giteaAuthCallbackUrl,
+      scope: ['read:user', 'write:repository'],
+    });
+  }
 
   registerCookieHelpers(fastify, secureCookie);
 
@@ -1,19 +1,59 @@
 import { Effect, Layer } from 'effect';
 
-import { GitProviderRepository } from '../repositories/git-provider-repository';
+import {
+  GitProviderError,
+  GitProviderRegistry,
+  type GitProviderRepositoryService,
+} from '../repositories/git-provider-repository';
+import { makeGiteaApiRepository } from '../repositories/implementations/gitea-api-repository';
 import { makeGitHubApiRepository } from '../repositories/implementations/github-api-repository';
+import { makeGitLabApiRepository } from '../repositories/implementations/gitlab-api-repository';
+import { makeLocalGitRepository } from '../repositories/implementations/local-git-repository';
+import { makeRedisResponseCache } from '../repositories/implementations/redis-response-cache';
 import { ConfigService } from '../services/config-service';
+import { RedisService } from '../services/redis-service';
 
-// Layer that provides GitHub implementation
-export const GitHubProviderLive = Layer.effect(
-  GitProviderRepository,
+// Routes each site to the implementation matching its `platform` column
+export const GitProviderRegistryLive = Layer.effect(
+  GitProviderRegistry,
   Effect.gen(function* () {
     const config = yield* ConfigService;
-    return makeGitHubApiRepository({
-      templateRepo: config.templateRepo,
-    });
+    const { client: redis } = yield* RedisService;
+    const providers: Record<string, GitProviderRepositoryService> = {
+      github: makeGitHubApiRepository({
+        templateRepo: config.templateRepo,
+        responseCache: makeRedisResponseCache(redis),
+      }),
+      gitlab: makeGitLabApiRepository({
+        baseUrl: config.gitlabUrl,
+        templateRepo: config.gitlabTemplateRepo,
+        pagesDomain: config.gitlabPagesDomain,
+      }),
+      ...(config.giteaUrl && {
+        gitea: makeGiteaApiRepository({
+          baseUrl: config.giteaUrl,
+          templateRepo: config.giteaTemplateRepo,
+          pagesUrl: config.giteaPagesUrl || undefined,
+        }),
+      }),
+      ...(config.localGitRoot && {
+        local: makeLocalGitRepository({
+          rootDir: config.localGitRoot,
+          publicUrl: config.localGitPublicUrl,
+          templateRepo: config.localGitTemplateRepo,
+        }),
+      }),
+    };
+
+    return {
+      forPlatform: (platform: string) =>
+        platform in providers
+          ? Effect.succeed(providers[platform])
+          : Effect.fail(
+              new GitProviderError({
+                message: `Unsupported git platform: ${platform}`,
+              })
+            ),
+    };
   })
 );
-
-// Default provider (currently GitHub)
-export const GitProviderLive = GitHubProviderLive;
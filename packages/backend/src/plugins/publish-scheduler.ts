@@ -0,0 +1,61 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+import fastifyPlugin from 'fastify-plugin';
+
+import { ArticleService } from '../services/article';
+
+// How often the queue is checked for publishes that are due
+const POLL_INTERVAL_MS = 30 * 1000;
+
+async function scheduledPublishPlugin(fastify: FastifyInstance) {
+  let timer: NodeJS.Timeout | undefined;
+  // A poll still running makes the next tick skip
+  let polling: Promise<void> | null = null;
+
+  const poll = () => {
+    if (polling) return;
+    polling = fastify.runtime
+      .runPromise(
+        Effect.flatMap(ArticleService, (articleService) =>
+          articleService.processScheduledPublishes()
+        )
+      )
+      .then(
+        () => undefined,
+        (error: unknown) => {
+          fastify.log.error(error, 'Failed to process scheduled publishes');
+        }
+      )
+      .finally(() => {
+        polling = null;
+      });
+  };
+
+  fastify.addHook('onReady', async () => {
+    // Articles scheduled before a restart, or lost from Redis, are queued
+    // again; the server starts either way
+    try {
+      const restored = await fastify.runtime.runPromise(
+        Effect.flatMap(ArticleService, (articleService) =>
+          articleService.restoreScheduledPublishes()
+        )
+      );
+      fastify.log.info(`Restored ${restored} scheduled publishes`);
+    } catch (error) {
+      fastify.log.error(error, 'Failed to restore scheduled publishes');
+    }
+    timer = setInterval(poll, POLL_INTERVAL_MS);
+  });
+
+  // Before the runtime is disposed, so a running publish can finish
+  fastify.addHook('preClose', async () => {
+    clearInterval(timer);
+    await polling;
+  });
+}
+
+export const publishSchedulerPlugin = fastifyPlugin(scheduledPublishPlugin, {
+  name: 'publish-scheduler',
+  dependencies: ['effect-runtime'],
+});
@@ -6,7 +6,12 @@ import type { Article } from '../../generated/prisma/client';
 import type { PaginatedResult, PaginationOptions } from './pagination';
 import type { RepositoryError } from './repository-error';
 
+export type { Article };
+
 // Domain types for Article operations
+// pending_review: published through a pull request that has not merged yet
+export type ArticleStatus = 'draft' | 'published' | 'pending_review';
+
 export interface ArticleCreateData {
   readonly siteId: string;
   readonly title: string;
@@ -20,6 +25,7 @@ export interface ArticleCreateData {
   readonly gitSyncedAt?: Date;
   readonly contentHash?: string;
   readonly gitSyncedHash?: string;
+  readonly extraFrontMatter?: Record<string, unknown>;
 }
 
 export interface ArticleUpdateData {
@@ -28,19 +34,31 @@ export interface ArticleUpdateData {
   readonly content?: string;
   readonly excerpt?: string | null;
   readonly tags?: string | null;
-  readonly status?: 'draft' | 'published';
+  readonly status?: ArticleStatus;
   readonly publishedAt?: Date | null;
   readonly gitSha?: string | null;
   readonly gitSyncedAt?: Date | null;
   readonly contentHash?: string;
   readonly gitSyncedHash?: string;
+  readonly pullRequestNumber?: number | null;
+  readonly pullRequestUrl?: string | null;
+  readonly extraFrontMatter?: Record<string, unknown> | null;
+  readonly previousSlug?: string | null;
+  readonly previousPublishedAt?: Date | null;
+  readonly scheduledAt?: Date | null;
+  readonly scheduleError?: string | null;
 }
 
 export interface ArticleSyncItem {
   readonly id: string;
   readonly slug: string;
+  readonly previousSlug: string | null;
   readonly status: string;
   readonly gitSha: string | null;
+  readonly pullRequestNumber: number | null;
+  // Places the file on sites whose naming pattern has a {date}
+  readonly publishedAt: Date | null;
+  readonly previousPublishedAt: Date | null;
 }
 
 export interface ArticleWithSite extends Article {
@@ -49,6 +67,13 @@ export interface ArticleWithSite extends Article {
     readonly name: string;
     readonly userId?: string;
     readonly gitRepo?: string | null;
+    readonly platform?: string;
+    readonly publishMode?: string;
+    readonly contentRoot?: string;
+    readonly fileNaming?: string;
+    readonly commitMessageTemplate?: string | null;
+    readonly mediaUrlStrategy?: string;
+    readonly deployUrl?: string | null;
   };
 }
 
@@ -62,10 +87,44 @@ export interface ArticleListItem {
   readonly publishedAt: Date | null;
   readonly contentHash: string | null;
   readonly gitSyncedHash: string | null;
+  readonly pullRequestUrl: string | null;
+  readonly scheduledAt: Date | null;
+  readonly scheduleError: string | null;
   readonly createdAt: Date;
   readonly updatedAt: Date;
 }
 
+// An article waiting for its scheduled publish
+export interface ArticleScheduleItem {
+  readonly id: string;
+  readonly scheduledAt: Date;
+}
+
+export interface ArticleSearchQuery {
+  // Web search syntax: "quoted phrases", OR and -excluded words
+  readonly text: string;
+  readonly status?: ArticleStatus;
+  readonly tag?: string;
+}
+
+// Headlines mark each matching word with these characters, which never
+// appear in article text
+export const SEARCH_HIGHLIGHT_START = '\u0002';
+export const SEARCH_HIGHLIGHT_STOP = '\u0003';
+
+export interface ArticleSearchRow {
+  readonly id: string;
+  readonly title: string;
+  readonly slug: string;
+  readonly status: string;
+  readonly tags: string | null;
+  readonly publishedAt: Date | null;
+  readonly rank: number;
+  // The whole title, and the best fragments of the content
+  readonly titleHeadline: string;
+  readonly contentHeadline: string;
+}
+
 // Repository interface - defines what operations we need
 export interface ArticleRepositoryService {
   readonly create: (
@@ -74,6 +133,11 @@ export interface ArticleRepositoryService {
   readonly findById: (
     id: string
   ) => Effect.Effect<ArticleWithSite | null, RepositoryError>;
+  // The site's articles among ids; ids of other sites' articles are left out
+  readonly findByIds: (
+    siteId: string,
+    ids: readonly string[]
+  ) => Effect.Effect<ArticleWithSite[], RepositoryError>;
   readonly findBySiteIdAndSlug: (
     siteId: string,
     slug: string
@@ -97,6 +161,16 @@ export interface ArticleRepositoryService {
   readonly findAllPublishedBySiteId: (
     siteId: string
   ) => Effect.Effect<Article[], RepositoryError>;
+  readonly findScheduled: () => Effect.Effect<
+    ArticleScheduleItem[],
+    RepositoryError
+  >;
+  // Best matches first
+  readonly search: (
+    siteId: string,
+    query: ArticleSearchQuery,
+    pagination: PaginationOptions
+  ) => Effect.Effect<ArticleSearchRow[], RepositoryError>;
 }
 
 // Context tag for dependency injection
@@ -0,0 +1,52 @@
+import type { Effect } from 'effect';
+
+import { Context } from 'effect';
+
+import type { ArticleRevision } from '../../generated/prisma/client';
+import type { RepositoryError } from './repository-error';
+
+// autosave: throttled checkpoint taken while the article is edited
+// manual: version the author saved explicitly
+// publish: the article as it was published
+export type ArticleRevisionKind = 'autosave' | 'manual' | 'publish';
+
+export interface ArticleRevisionCreateData {
+  readonly articleId: string;
+  readonly kind: ArticleRevisionKind;
+  readonly label?: string | null;
+  readonly title: string;
+  readonly slug: string;
+  readonly content: string;
+  readonly excerpt: string | null;
+  readonly tags: string | null;
+  readonly contentHash: string;
+}
+
+// A revision without its content, for listing
+export type ArticleRevisionSummary = Omit<ArticleRevision, 'content'>;
+
+export interface ArticleRevisionRepositoryService {
+  // Newest first
+  readonly findByArticleId: (
+    articleId: string
+  ) => Effect.Effect<ArticleRevisionSummary[], RepositoryError>;
+  readonly findById: (
+    id: string
+  ) => Effect.Effect<ArticleRevision | null, RepositoryError>;
+  readonly findLatest: (
+    articleId: string
+  ) => Effect.Effect<ArticleRevisionSummary | null, RepositoryError>;
+  readonly create: (
+    data: ArticleRevisionCreateData
+  ) => Effect.Effect<ArticleRevision, RepositoryError>;
+  // Deletes the article's autosaves beyond the newest `keep` and any taken
+  // before `before`, returning how many were deleted
+  readonly pruneAutosaves: (
+    articleId: string,
+    options: { readonly keep: number; readonly before: Date }
+  ) => Effect.Effect<number, RepositoryError>;
+}
+
+export class ArticleRevisionRepository extends Context.Tag(
+  'ArticleRevisionRepository'
+)<ArticleRevisionRepository, ArticleRevisionRepositoryService>() {}
@@ -51,3 +51,15 @@ export interface AuthProviderRepositoryService {
 export class AuthProviderRepository extends Context.Tag(
   'AuthProviderRepository'
 )<AuthProviderRepository, AuthProviderRepositoryService>() {}
+
+// Resolves the auth provider implementation for a git platform
+export interface AuthProviderRegistryService {
+  readonly forPlatform: (
+    platform: string
+  ) => Effect.Effect<AuthProviderRepositoryService, AuthProviderAPIError>;
+}
+
+export class AuthProviderRegistry extends Context.Tag('AuthProviderRegistry')<
+  AuthProviderRegistry,
+  AuthProviderRegistryService
+>() {}
@@ -16,6 +16,7 @@ export interface CreateRepoData {
   readonly description?: string;
   readonly templateOwner?: string;
   readonly templateRepo?: string;
+  readonly placeholders?: TemplatePlaceholders;
 }
 
 export interface TemplateData {
@@ -26,6 +27,19 @@ export interface TemplateData {
   readonly platformUsername: string;
 }
 
+// Placeholder tokens a template uses, mapped to the value replacing them
+export type TemplatePlaceholders = Readonly<Record<string, keyof TemplateData>>;
+
+// Where injected workflow files come from: build files of a registered
+// template, read at the commit a site was created from. Without one,
+// providers inject the configured template's default files
+export interface TemplateSource {
+  readonly repo: string;
+  readonly ref?: string;
+  readonly files: readonly string[];
+  readonly placeholders?: TemplatePlaceholders;
+}
+
 export interface SiteConfig {
   readonly name: string;
   readonly description: string;
@@ -35,12 +49,78 @@ export interface SiteConfig {
   readonly authorUrl: string;
 }
 
+// Where a site keeps its articles and media inside the repository. Roots are
+// repo-relative directories; fileNaming is a path under contentRoot with a
+// {slug} and an optional {date} (YYYY-MM-DD) placeholder, e.g. "{slug}.md",
+// "{date}-{slug}.md" for Jekyll or "{slug}/index.md" for Hugo page bundles
+export interface ContentLayout {
+  readonly contentRoot: string;
+  readonly fileNaming: string;
+  readonly mediaRoot: string;
+}
+
 export interface GitFile {
   readonly path: string;
   readonly sha: string;
   readonly content?: string;
 }
 
+// Name and email a commit is attributed to
+export interface CommitAuthor {
+  readonly name: string;
+  readonly email: string;
+}
+
+// How an article commit is worded and attributed. Without them providers
+// use their own message and the token owner as author
+export interface CommitOptions {
+  readonly message?: string;
+  readonly author?: CommitAuthor;
+}
+
+// One file in a changeset: base64 content to write, or null to delete
+export interface FileChange {
+  readonly path: string;
+  readonly base64Content: string | null;
+}
+
+export interface ChangesetResult {
+  // null when every change was a no-op, e.g. deleting a missing file
+  readonly commitSha: string | null;
+  // Blob SHA of each written file, keyed by path
+  readonly blobShas: Readonly<Record<string, string>>;
+}
+
+// Request headers of a webhook delivery, with lowercase names
+export type WebhookHeaders = Readonly<
+  Record<string, string | readonly string[] | undefined>
+>;
+
+// A push to a branch, as reported by the forge's webhook
+export interface PushEvent {
+  readonly repoFullName: string;
+  readonly branch: string;
+  readonly defaultBranch: string;
+  // Paths the push added, modified or removed, or null when the payload
+  // can't account for all of them and the whole branch needs a sync
+  readonly paths: readonly string[] | null;
+}
+
+export interface PullRequest {
+  readonly number: number;
+  readonly url: string;
+  readonly state: 'open' | 'merged' | 'closed';
+}
+
+export interface FileCommit {
+  readonly sha: string;
+  readonly message: string;
+  readonly authorName: string;
+  readonly authorEmail: string | null;
+  readonly authorDate: string;
+  readonly url: string | null;
+}
+
 export interface ImportedArticle {
   readonly title: string;
   readonly slug: string;
@@ -50,6 +130,10 @@ export interface ImportedArticle {
   readonly status: 'draft' | 'published';
   readonly date?: string;
   readonly gitSha?: string;
+  // Path the article was read from, which the slug alone may not determine
+  readonly filePath?: string;
+  // Front matter keys the CMS does not manage, written back on publish
+  readonly extraFrontMatter?: Record<string, unknown>;
 }
 
 export interface ImportedMedia {
@@ -65,6 +149,13 @@ export class GitProviderError extends Data.TaggedError('GitProviderError')<{
   readonly status?: number;
 }> {}
 
+// The host refused requests until resetAt; retrying earlier is pointless
+export class RateLimitedError extends Data.TaggedError('RateLimitedError')<{
+  readonly message: string;
+  readonly platform: string;
+  readonly resetAt: Date;
+}> {}
+
 export class RepositoryCreationError extends Data.TaggedError(
   'RepositoryCreationError'
 )<{
@@ -79,6 +170,15 @@ export class PagesDeploymentError extends Data.TaggedError(
   readonly reason: string;
 }> {}
 
+// The CI run deploying a commit: a workflow run on GitHub and Gitea, a
+// pipeline on GitLab
+export interface DeployRun {
+  readonly url: string;
+  readonly status: 'queued' | 'running' | 'success' | 'failure';
+  readonly startedAt: Date | null;
+  readonly finishedAt: Date | null;
+}
+
 // Main Git provider interface (platform-agnostic)
 export interface GitProviderRepositoryService {
   /**
@@ -88,18 +188,24 @@ export interface GitProviderRepositoryService {
     accessToken: string,
     data: CreateRepoData,
     templateData?: TemplateData
-  ) => Effect.Effect<GitRepo, RepositoryCreationError | GitProviderError>;
+  ) => Effect.Effect<
+    GitRepo,
+    RepositoryCreationError | GitProviderError | RateLimitedError
+  >;
 
   /**
-   * Delete an article file from the repository
+   * Delete an article file from the repository. filePath defaults to where
+   * the default content layout keeps the article
    */
   readonly deleteArticleFromRepo: (
     accessToken: string,
     repoFullName: string,
-    articleSlug: string
+    articleSlug: string,
+    filePath?: string,
+    commitOptions?: CommitOptions
   ) => Effect.Effect<
     { deleted: boolean; reason?: string; filePath?: string },
-    GitProviderError
+    GitProviderError | RateLimitedError
   >;
 
   /**
@@ -108,17 +214,45 @@ export interface GitProviderRepositoryService {
   readonly getMarkdownFilesFromRepo: (
     accessToken: string,
     repoFullName: string,
-    defaultBranch: string
-  ) => Effect.Effect<ImportedArticle[], GitProviderError>;
+    defaultBranch: string,
+    layout?: ContentLayout
+  ) => Effect.Effect<ImportedArticle[], GitProviderError | RateLimitedError>;
 
   /**
-   * Publish article content to repository
+   * List the article files on a branch with their blob SHAs, without
+   * downloading them
+   */
+  readonly listArticleFiles: (
+    accessToken: string,
+    repoFullName: string,
+    defaultBranch: string,
+    layout?: ContentLayout
+  ) => Effect.Effect<GitFile[], GitProviderError | RateLimitedError>;
+
+  /**
+   * Download and parse the given article files from a branch, a few at a
+   * time. Files that fail to download or parse are skipped; hitting a
+   * rate limit fails the whole read
+   */
+  readonly readArticleFiles: (
+    accessToken: string,
+    repoFullName: string,
+    defaultBranch: string,
+    files: readonly GitFile[],
+    layout?: ContentLayout
+  ) => Effect.Effect<ImportedArticle[], GitProviderError | RateLimitedError>;
+
+  /**
+   * Publish article content to repository. filePath defaults to where the
+   * default content layout keeps the article
    */
   readonly publishArticleToRepo: (
     accessToken: string,
     repoFullName: string,
     articleSlug: string,
-    markdownContent: string
+    markdownContent: string,
+    filePath?: string,
+    commitOptions?: CommitOptions
   ) => Effect.Effect<
     {
       published: boolean;
@@ -127,17 +261,83 @@ export interface GitProviderRepositoryService {
       blobSha: string;
       wasUpdate: boolean;
     },
-    GitProviderError
+    GitProviderError | RateLimitedError
+  >;
+
+  /**
+   * Commit article content to a review branch and open a pull request into
+   * the default branch, or update the one already open from that branch
+   */
+  readonly proposeArticleChange: (
+    accessToken: string,
+    repoFullName: string,
+    articleSlug: string,
+    markdownContent: string,
+    opts: {
+      branch: string;
+      title: string;
+      filePath?: string;
+      commit?: CommitOptions;
+      // Other files the commit changes, such as the file a moved article
+      // leaves behind
+      changes?: readonly FileChange[];
+    }
+  ) => Effect.Effect<
+    {
+      filePath: string;
+      commitSha: string;
+      blobSha: string;
+      pullRequest: PullRequest;
+    },
+    GitProviderError | RateLimitedError
   >;
 
+  /**
+   * Get the current state of a pull request
+   */
+  readonly getPullRequest: (
+    accessToken: string,
+    repoFullName: string,
+    pullRequestNumber: number
+  ) => Effect.Effect<PullRequest, GitProviderError | RateLimitedError>;
+
   /**
    * Get the blob SHA of an article file in the repository
    */
   readonly getArticleFileSha: (
     accessToken: string,
     repoFullName: string,
-    articleSlug: string
-  ) => Effect.Effect<string | null, GitProviderError>;
+    articleSlug: string,
+    filePath?: string
+  ) => Effect.Effect<string | null, GitProviderError | RateLimitedError>;
+
+  /**
+   * Commits on the default branch that touched a file, newest first
+   */
+  readonly listFileCommits: (
+    accessToken: string,
+    repoFullName: string,
+    filePath: string
+  ) => Effect.Effect<FileCommit[], GitProviderError | RateLimitedError>;
+
+  /**
+   * Content of a file as of a commit, or null when it didn't exist there
+   */
+  readonly getFileAtRef: (
+    accessToken: string,
+    repoFullName: string,
+    filePath: string,
+    ref: string
+  ) => Effect.Effect<string | null, GitProviderError | RateLimitedError>;
+
+  /**
+   * Read a blob by its SHA, or null when the repository no longer has it
+   */
+  readonly getBlobContent: (
+    accessToken: string,
+    repoFullName: string,
+    blobSha: string
+  ) => Effect.Effect<string | null, GitProviderError | RateLimitedError>;
 
   /**
    * Get repository information
@@ -147,9 +347,28 @@ export interface GitProviderRepositoryService {
     repoFullName: string
   ) => Effect.Effect<
     { defaultBranch: string; [key: string]: unknown },
-    GitProviderError
+    GitProviderError | RateLimitedError
   >;
 
+  /**
+   * Find the deploy run a commit triggered; null until the platform has
+   * started one
+   */
+  readonly getCommitDeployRun: (
+    accessToken: string,
+    repoFullName: string,
+    commitSha: string
+  ) => Effect.Effect<DeployRun | null, GitProviderError | RateLimitedError>;
+
+  /**
+   * Get the SHA of the commit a branch points at
+   */
+  readonly getBranchHead: (
+    accessToken: string,
+    repoFullName: string,
+    branch: string
+  ) => Effect.Effect<string, GitProviderError | RateLimitedError>;
+
   /**
    * Check if Pages is enabled for the repository
    */
@@ -158,7 +377,21 @@ export interface GitProviderRepositoryService {
     repoFullName: string
   ) => Effect.Effect<
     { enabled: boolean; url?: string; source?: string },
-    GitProviderError
+    GitProviderError | RateLimitedError
+  >;
+
+  /**
+   * Build the Inland CMS workflow and template file changes for the
+   * repository without committing them
+   */
+  readonly buildInlandWorkflowChanges: (
+    accessToken: string,
+    repoFullName: string,
+    templateData: TemplateData,
+    options?: { overrideExistingFiles?: boolean; template?: TemplateSource }
+  ) => Effect.Effect<
+    { changes: FileChange[]; filesSkipped: string[] },
+    GitProviderError | RateLimitedError
   >;
 
   /**
@@ -168,10 +401,10 @@ export interface GitProviderRepositoryService {
     accessToken: string,
     repoFullName: string,
     templateData: TemplateData,
-    options?: { overrideExistingFiles?: boolean }
+    options?: { overrideExistingFiles?: boolean; template?: TemplateSource }
   ) => Effect.Effect<
     { filesCreated: string[]; filesSkipped: string[]; workflowUrl: string },
-    GitProviderError
+    GitProviderError | RateLimitedError
   >;
 
   /**
@@ -180,7 +413,18 @@ export interface GitProviderRepositoryService {
   readonly enablePages: (
     accessToken: string,
     repoFullName: string
-  ) => Effect.Effect<string, GitProviderError>;
+  ) => Effect.Effect<string, GitProviderError | RateLimitedError>;
+
+  /**
+   * Serve the repository's Pages from domain, or from the platform's own host
+   * when domain is null, in place of previousDomain. Returns the Pages URL
+   */
+  readonly setPagesDomain: (
+    accessToken: string,
+    repoFullName: string,
+    domain: string | null,
+    previousDomain: string | null
+  ) => Effect.Effect<string, GitProviderError | RateLimitedError>;
 
   /**
    * Upload a file (binary or text) to the repository
@@ -195,7 +439,7 @@ export interface GitProviderRepositoryService {
     }
   ) => Effect.Effect<
     { filePath: string; blobSha: string; commitSha: string },
-    GitProviderError
+    GitProviderError | RateLimitedError
   >;
 
   /**
@@ -204,8 +448,9 @@ export interface GitProviderRepositoryService {
   readonly getMediaFilesFromRepo: (
     accessToken: string,
     repoFullName: string,
-    defaultBranch: string
-  ) => Effect.Effect<ImportedMedia[], GitProviderError>;
+    defaultBranch: string,
+    layout?: ContentLayout
+  ) => Effect.Effect<ImportedMedia[], GitProviderError | RateLimitedError>;
 
   /**
    * Push inland.config.json to the repository
@@ -214,7 +459,10 @@ export interface GitProviderRepositoryService {
     accessToken: string,
     repoFullName: string,
     config: SiteConfig
-  ) => Effect.Effect<{ filePath: string; commitSha: string }, GitProviderError>;
+  ) => Effect.Effect<
+    { filePath: string; commitSha: string },
+    GitProviderError | RateLimitedError
+  >;
 
   /**
    * Read inland.config.json from the repository, returns null if not found
@@ -222,7 +470,7 @@ export interface GitProviderRepositoryService {
   readonly getSiteConfig: (
     accessToken: string,
     repoFullName: string
-  ) => Effect.Effect<SiteConfig | null, GitProviderError>;
+  ) => Effect.Effect<SiteConfig | null, GitProviderError | RateLimitedError>;
 
   /**
    * Delete a file from the repository
@@ -234,7 +482,24 @@ export interface GitProviderRepositoryService {
       filePath: string;
       commitMessage: string;
     }
-  ) => Effect.Effect<{ deleted: boolean; reason?: string }, GitProviderError>;
+  ) => Effect.Effect<
+    { deleted: boolean; reason?: string },
+    GitProviderError | RateLimitedError
+  >;
+
+  /**
+   * Apply additions, updates and deletions as a single commit on the
+   * default branch, so either every change lands or none does
+   */
+  readonly commitChangeset: (
+    accessToken: string,
+    repoFullName: string,
+    opts: {
+      message: string;
+      changes: readonly FileChange[];
+      author?: CommitAuthor;
+    }
+  ) => Effect.Effect<ChangesetResult, GitProviderError | RateLimitedError>;
 
   /**
    * Check if a repository exists and is accessible
@@ -242,11 +507,61 @@ export interface GitProviderRepositoryService {
   readonly checkRepoExists: (
     accessToken: string,
     repoFullName: string
-  ) => Effect.Effect<boolean, GitProviderError>;
+  ) => Effect.Effect<boolean, GitProviderError | RateLimitedError>;
+
+  /**
+   * Build the URL serving a file's raw content at the given ref
+   */
+  readonly getRawFileUrl: (
+    repoFullName: string,
+    ref: string,
+    filePath: string
+  ) => string;
+
+  /**
+   * Build the public Pages URL and author profile links for a repository
+   */
+  readonly getPublicUrls: (
+    repoFullName: string,
+    user: { username: string; avatarUrl: string }
+  ) => { pagesUrl: string; avatarUrl: string; authorUrl: string };
+
+  /**
+   * Point the repository's push webhook at url, signed with secret. An
+   * existing hook for the same url gets the new secret instead of a twin
+   */
+  readonly registerPushWebhook: (
+    accessToken: string,
+    repoFullName: string,
+    opts: { url: string; secret: string }
+  ) => Effect.Effect<void, GitProviderError | RateLimitedError>;
+
+  /**
+   * Read a branch push from a webhook delivery; null for any other event
+   */
+  readonly parsePushEvent: (
+    headers: WebhookHeaders,
+    payload: unknown
+  ) => PushEvent | null;
+
+  /**
+   * Check that a webhook delivery was signed with secret
+   */
+  readonly verifyWebhookSignature: (
+    headers: WebhookHeaders,
+    rawBody: Buffer,
+    secret: string
+  ) => boolean;
+}
+
+// Resolves the provider implementation for a site's platform
+export interface GitProviderRegistryService {
+  readonly forPlatform: (
+    platform: string
+  ) => Effect.Effect<GitProviderRepositoryService, GitProviderError>;
 }
 
-// Effect Context for dependency injection
-export class GitProviderRepository extends Context.Tag('GitProviderRepository')<
-  GitProviderRepository,
-  GitProviderRepositoryService
+export class GitProviderRegistry extends Context.Tag('GitProviderRegistry')<
+  GitProviderRegistry,
+  GitProviderRegistryService
 >() {}
@@ -0,0 +1,44 @@
+import { Context, Data, type Effect } from 'effect';
+
+export class GitHubAppError extends Data.TaggedError('GitHubAppError')<{
+  readonly message: string;
+  readonly status?: number;
+}> {}
+
+export interface InstallationToken {
+  readonly token: string;
+  readonly expiresAt: Date;
+}
+
+// GitHub App acting on the repositories users install it on
+export interface GitHubAppRepositoryService {
+  /**
+   * Whether this instance is configured with GitHub App credentials
+   */
+  readonly enabled: boolean;
+
+  /**
+   * Page where users install the app on their account or organization
+   */
+  readonly installUrl: string;
+
+  /**
+   * IDs of the installations the owner of an OAuth token can access
+   */
+  readonly listUserInstallationIds: (
+    userAccessToken: string
+  ) => Effect.Effect<string[], GitHubAppError>;
+
+  /**
+   * Mint a short-lived token that can only reach one repository
+   */
+  readonly createInstallationToken: (
+    installationId: string,
+    repoFullName: string
+  ) => Effect.Effect<InstallationToken, GitHubAppError>;
+}
+
+export class GitHubAppRepository extends Context.Tag('GitHubAppRepository')<
+  GitHubAppRepository,
+  GitHubAppRepositoryService
+>() {}
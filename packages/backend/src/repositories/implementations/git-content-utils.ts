@@ -0,0 +1,328 @@
+import { Effect } from 'effect';
+import { createHash } from 'node:crypto';
+
+import type {
+  ContentLayout,
+  GitFile,
+  ImportedArticle,
+} from '../git-provider-repository';
+
+import { parseFrontMatter } from '../../utils/front-matter';
+import { RateLimitedError } from '../git-provider-repository';
+
+// Repository layout shared by every git provider
+export const SITE_CONFIG_PATH = 'inland.config.json';
+export const REDIRECTS_PATH = 'redirects.json';
+
+// Layout of repositories created from the Inland template
+export const DEFAULT_CONTENT_LAYOUT: ContentLayout = {
+  contentRoot: 'content',
+  fileNaming: '{slug}.md',
+  mediaRoot: 'assets/images',
+};
+
+const IMAGE_EXTENSIONS = [
+  '.jpg',
+  '.jpeg',
+  '.png',
+  '.gif',
+  '.webp',
+  '.svg',
+  '.avif',
+];
+
+// Files copied from the template repository when injecting the workflow
+export const INLAND_BUILD_FILES = [
+  'build/index.js',
+  'build/milkdown-compiler.js',
+  'build/template-engine.js',
+  'build/utils.js',
+  'templates/index.html',
+  'templates/article.html',
+  'templates/layout.html',
+  'assets/styles.css',
+  'assets/script.js',
+] as const;
+
+// Some APIs do not echo blob SHAs back, so compute them the way git does
+export const computeGitBlobSha = (content: Buffer): string =>
+  createHash('sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex');
+
+// Sites loaded without their layout columns use the default layout
+export const siteContentLayout = (
+  site: Partial<ContentLayout>
+): ContentLayout => ({
+  contentRoot: site.contentRoot ?? DEFAULT_CONTENT_LAYOUT.contentRoot,
+  fileNaming: site.fileNaming ?? DEFAULT_CONTENT_LAYOUT.fileNaming,
+  mediaRoot: site.mediaRoot ?? DEFAULT_CONTENT_LAYOUT.mediaRoot,
+});
+
+// "" for the repository root, otherwise the directory with a trailing slash
+const dirPrefix = (dir: string): string => {
+  const trimmed = dir.replace(/^\/+|\/+$/g, '');
+  return trimmed === '' ? '' : `${trimmed}/`;
+};
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Splits an article path such as guides/install/linux into its folder
+// ("guides/install/") and the slug the naming pattern is applied to
+const splitArticlePath = (
+  articlePath: string
+): { folder: string; name: string } => {
+  const index = articlePath.lastIndexOf('/');
+  return {
+    folder: articlePath.slice(0, index + 1),
+    name: articlePath.slice(index + 1),
+  };
+};
+
+// Matches file paths produced by the layout in any folder below the content
+// root, skipping hidden folders, and captures the folder, slug and date
+const articlePathPattern = (layout: ContentLayout): RegExp => {
+  const naming = escapeRegExp(layout.fileNaming)
+    .replace('\\{slug\\}', '(?<slug>[^/]+)')
+    .replace('\\{date\\}', '(?<date>\\d{4}-\\d{2}-\\d{2})');
+  return new RegExp(
+    `^${escapeRegExp(dirPrefix(layout.contentRoot))}(?<folder>(?:[^/.][^/]*/)*)${naming}$`
+  );
+};
+
+// Naming patterns with {date} fall back to today for unpublished articles
+export const articleFilePath = (
+  slug: string,
+  layout: ContentLayout = DEFAULT_CONTENT_LAYOUT,
+  date?: Date | null
+): string => {
+  const { folder, name } = splitArticlePath(slug);
+  return (
+    dirPrefix(layout.contentRoot) +
+    folder +
+    layout.fileNaming
+      .replace('{slug}', name)
+      .replace('{date}', formatDate(date ?? new Date()))
+  );
+};
+
+// Where a synced article's file is in the repository. A rename or date
+// change that was never published left it at the old slug or date
+export const syncedArticleFilePath = (
+  article: {
+    readonly slug: string;
+    readonly previousSlug: string | null;
+    readonly publishedAt: Date | null;
+    readonly previousPublishedAt: Date | null;
+  },
+  layout: ContentLayout = DEFAULT_CONTENT_LAYOUT
+): string =>
+  articleFilePath(
+    article.previousSlug ?? article.slug,
+    layout,
+    article.previousPublishedAt ?? article.publishedAt
+  );
+
+export const parseArticleFilePath = (
+  filePath: string,
+  layout: ContentLayout = DEFAULT_CONTENT_LAYOUT
+): { slug: string; date?: string } | null => {
+  const groups = articlePathPattern(layout).exec(filePath)?.groups;
+  if (!groups) return null;
+  return {
+    slug: `${groups.folder}${groups.slug}`,
+    ...(groups.date && { date: groups.date }),
+  };
+};
+
+export const isArticleFile = (
+  filePath: string,
+  layout: ContentLayout = DEFAULT_CONTENT_LAYOUT
+): boolean => parseArticleFilePath(filePath, layout) !== null;
+
+export const mediaFilePath = (
+  filename: string,
+  layout: ContentLayout = DEFAULT_CONTENT_LAYOUT
+): string => `${dirPrefix(layout.mediaRoot)}${filename}`;
+
+export const isMediaFile = (
+  filePath: string,
+  layout: ContentLayout = DEFAULT_CONTENT_LAYOUT
+): boolean =>
+  filePath.startsWith(dirPrefix(layout.mediaRoot)) &&
+  IMAGE_EXTENSIONS.some((ext) => filePath.toLowerCase().endsWith(ext));
+
+export const shouldProcessFile = (filePath: string): boolean => {
+  const textExtensions = [
+    '.html',
+    '.css',
+    '.js',
+    '.json',
+    '.md',
+    '.yml',
+    '.yaml',
+    '.txt',
+  ];
+  return textExtensions.some((ext) => filePath.endsWith(ext));
+};
+
+export interface SlugRedirect {
+  readonly from: string;
+  readonly to: string;
+}
+
+// Adds a from -> to redirect to the repository's redirects file, or null
+// when the file is not a list of redirects. Redirects that pointed at the
+// old slug follow it, and one leaving the new slug is dropped, so the site
+// never chains redirects or sends a live article away
+export const addSlugRedirect = (
+  redirectsFile: string | null,
+  from: string,
+  to: string
+): string | null => {
+  let redirects: unknown = [];
+  if (redirectsFile !== null) {
+    try {
+      redirects = JSON.parse(redirectsFile);
+    } catch {
+      return null;
+    }
+  }
+  if (
+    !Array.isArray(redirects) ||
+    !redirects.every(
+      (entry): entry is SlugRedirect =>
+        typeof entry === 'object' &&
+        entry !== null &&
+        typeof entry.from === 'string' &&
+        typeof entry.to === 'string'
+    )
+  ) {
+    return null;
+  }
+
+  const updated = redirects
+    .filter((entry) => entry.from !== to && entry.from !== from)
+    .map((entry) => (entry.to === from ? { ...entry, to } : entry));
+  updated.push({ from, to });
+
+  return `${JSON.stringify(updated, null, 2)}\n`;
+};
+
+// Keys the CMS reads into article fields and writes back on publish;
+// anything else is kept verbatim in the article's extra front matter
+export const CMS_FRONT_MATTER_KEYS = [
+  'title',
+  'slug',
+  'date',
+  'updatedAt',
+  'excerpt',
+  'tags',
+  'status',
+] as const;
+
+const frontMatterString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return `${value}`;
+  }
+  if (value instanceof Date) return value.toISOString();
+  return undefined;
+};
+
+const frontMatterTags = (value: unknown): string | undefined => {
+  const tags = Array.isArray(value)
+    ? value.map(frontMatterString)
+    : (frontMatterString(value)?.split(',') ?? []);
+  const joined = tags
+    .map((tag) => tag?.trim())
+    .filter(Boolean)
+    .join(', ');
+  return joined || undefined;
+};
+
+export const parseMarkdownContent = (
+  content: string,
+  filePath: string,
+  layout: ContentLayout = DEFAULT_CONTENT_LAYOUT
+): ImportedArticle | null => {
+  try {
+    const parsedPath = parseArticleFilePath(filePath, layout);
+    if (!parsedPath) return null;
+    const { slug } = parsedPath;
+    const { folder, name } = splitArticlePath(slug);
+    const fallbackTitle = name
+      .replace(/-/g, ' ')
+      .replace(/\b\w/g, (l) => l.toUpperCase());
+    const frontMatter = parseFrontMatter(content);
+
+    if (!frontMatter) {
+      return {
+        title: fallbackTitle,
+        slug,
+        content: content.trim(),
+        status: 'published' as const,
+        date: parsedPath.date,
+        filePath,
+      };
+    }
+
+    const { data, body } = frontMatter;
+    const extraFrontMatter = Object.fromEntries(
+      Object.entries(data).filter(
+        ([key]) => !CMS_FRONT_MATTER_KEYS.some((cmsKey) => cmsKey === key)
+      )
+    );
+    const frontMatterSlug = frontMatterString(data.slug);
+
+    return {
+      title: frontMatterString(data.title) ?? fallbackTitle,
+      // A front matter slug renames the article within its folder
+      slug: frontMatterSlug ? `${folder}${frontMatterSlug}` : slug,
+      content: body.trim(),
+      excerpt:
+        frontMatterString(data.excerpt) ?? frontMatterString(data.description),
+      tags: frontMatterTags(data.tags),
+      status: data.status === 'draft' ? 'draft' : 'published',
+      date: frontMatterString(data.date) ?? parsedPath.date,
+      filePath,
+      ...(Object.keys(extraFrontMatter).length > 0 && { extraFrontMatter }),
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Article files downloaded at once during sync and import
+const ARTICLE_READ_CONCURRENCY = 8;
+
+// Downloads and parses article files a few at a time. Files that fail to
+// download or don't parse as articles in the layout are skipped, but a
+// rate limit stops the whole read rather than skipping everything after it
+export const parseArticleFiles = <E, R>(
+  files: readonly GitFile[],
+  layout: ContentLayout | undefined,
+  readContent: (file: GitFile) => Effect.Effect<string, E, R>
+) =>
+  Effect.forEach(
+    files,
+    (file) =>
+      readContent(file).pipe(
+        Effect.map((content): ImportedArticle[] => {
+          const article = parseMarkdownContent(content, file.path, layout);
+          return article ? [{ ...article, gitSha: file.sha }] : [];
+        }),
+        Effect.catchIf(
+          (error) => !(error instanceof RateLimitedError),
+          (error) =>
+            Effect.logError(`Failed to fetch ${file.path}:`, { error }).pipe(
+              Effect.as([])
+            )
+        )
+      ),
+    { concurrency: ARTICLE_READ_CONCURRENCY }
+  ).pipe(Effect.map((articles) => articles.flat()));
@@ -0,0 +1,1384 @@
+import { Effect, Schedule } from 'effect';
+
+import type {
+  GitProviderRepositoryService,
+  GitRepo,
+  CreateRepoData,
+  CommitAuthor,
+  CommitOptions,
+  FileChange,
+  PullRequest,
+  TemplateData,
+  TemplatePlaceholders,
+  TemplateSource,
+  SiteConfig,
+  ImportedMedia,
+  ContentLayout,
+  GitFile,
+  WebhookHeaders,
+  RateLimitedError,
+} from '../git-provider-repository';
+
+import {
+  GitProviderError,
+  RepositoryCreationError,
+  PagesDeploymentError,
+} from '../git-provider-repository';
+import {
+  INLAND_BUILD_FILES,
+  SITE_CONFIG_PATH,
+  articleFilePath,
+  computeGitBlobSha,
+  isArticleFile,
+  isMediaFile,
+  parseArticleFiles,
+  shouldProcessFile,
+} from './git-content-utils';
+import {
+  giteaApi,
+  type GiteaBranchResponse,
+  type GiteaFileChangeResponse,
+  type GiteaFileOperation,
+  type GiteaFileResponse,
+  type GiteaFilesChangeResponse,
+  type GiteaPullRequestResponse,
+  type GiteaTreeResponse,
+  type GiteaUser,
+} from './gitea-utils';
+import {
+  githubFetch,
+  assertFields as sharedAssertFields,
+  buildTemplatePlaceholders,
+  decodeBlob,
+  replacePlaceholders,
+  type GitHubApiTarget,
+  type GitHubBlobResponse,
+  type GitHubHookResponse,
+  type GitHubRepoResponse,
+  type GitHubWorkflowRunsResponse,
+  toDeployRun,
+} from './github-utils';
+import {
+  headerValue,
+  parseGitHubPushPayload,
+  verifyHmacSignature,
+} from './webhook-utils';
+
+const REPO_READY_DELAY_MS = 1000;
+const MAX_RETRY_ATTEMPTS = 9;
+const TREE_PAGE_SIZE = 1000;
+const PULLS_PAGE_SIZE = 50;
+const DEFAULT_TEMPLATE_REPO = 'Saul-Mirone/inland-template-basic';
+
+const WORKFLOW_PATH = '.gitea/workflows/deploy.yml';
+const PAGES_BRANCH = 'pages';
+
+// Gitea has no hosted Pages of its own. Forgejo/Codeberg-style pages servers
+// publish a `pages` branch, so the workflow builds the site and force-pushes
+// `dist/` there.
+const PAGES_WORKFLOW = `# Generated by Inland CMS: builds the site and publishes it to the pages branch
+name: Deploy
+
+on:
+  push:
+
+jobs:
+  deploy:
+    if: github.ref_name == github.event.repository.default_branch
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+      - uses: actions/setup-node@v4
+        with:
+          node-version: 20
+      - run: npm install
+      - run: node build/index.js
+      - name: Publish to ${PAGES_BRANCH} branch
+        env:
+          TOKEN: \${{ github.token }}
+        run: |
+          cd dist
+          git init -b ${PAGES_BRANCH}
+          git config user.name "Inland CMS"
+          git config user.email "inland@localhost"
+          git add -A
+          git commit -m "Deploy \${{ github.sha }}"
+          git -c http.extraHeader="Authorization: token \${TOKEN}" \\
+            push --force "\${{ github.server_url }}/\${{ github.repository }}.git" ${PAGES_BRANCH}
+`;
+
+interface GiteaClient {
+  readonly api: GitHubApiTarget;
+  readonly accessToken: string;
+}
+
+const makeError = (message: string, status?: number) =>
+  new GitProviderError({ message, status });
+
+const makeGiteaApiRequest = <T>(
+  client: GiteaClient,
+  endpoint: string,
+  options: RequestInit = {}
+) =>
+  githubFetch<GitProviderError, T>(
+    client.accessToken,
+    endpoint,
+    makeError,
+    options,
+    client.api
+  );
+
+const assertFields = <T extends Record<string, unknown>>(
+  response: unknown,
+  fields: readonly string[],
+  context: string
+) =>
+  sharedAssertFields<GitProviderError, T>(response, fields, context, makeError);
+
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+const contentsEndpoint = (repoFullName: string, filePath: string) =>
+  `/repos/${repoFullName}/contents/${filePath.split('/').map(encodeURIComponent).join('/')}`;
+
+const decodeContent = (file: GiteaFileResponse): string =>
+  Buffer.from(file.content, 'base64').toString('utf-8');
+
+// Fills `{owner}` and `{repo}` in the configured pages URL template
+const pagesUrlFor = (
+  pagesUrlTemplate: string,
+  repoFullName: string
+): string => {
+  const [owner, repoName] = repoFullName.split('/');
+  return pagesUrlTemplate
+    .replace(/\{owner\}/g, owner.toLowerCase())
+    .replace(/\{repo\}/g, repoName);
+};
+
+// Atomic Gitea operations
+const getRepo = (client: GiteaClient, repoFullName: string) =>
+  Effect.gen(function* () {
+    const response = yield* makeGiteaApiRequest<GitHubRepoResponse>(
+      client,
+      `/repos/${repoFullName}`
+    );
+    yield* assertFields(
+      response,
+      ['id', 'full_name', 'html_url', 'default_branch'],
+      'GET /repos/:owner/:repo'
+    );
+    return response;
+  });
+
+const getCurrentUser = (client: GiteaClient) =>
+  Effect.gen(function* () {
+    const response = yield* makeGiteaApiRequest<GiteaUser>(client, '/user');
+    yield* assertFields(response, ['login'], 'GET /user');
+    return response;
+  });
+
+const createRepoFromTemplate = (
+  client: GiteaClient,
+  opts: {
+    templateRepo: string;
+    owner: string;
+    repoName: string;
+    description: string;
+  }
+) =>
+  Effect.gen(function* () {
+    const response = yield* makeGiteaApiRequest<GitHubRepoResponse>(
+      client,
+      `/repos/${opts.templateRepo}/generate`,
+      jsonRequest('POST', {
+        owner: opts.owner,
+        name: opts.repoName,
+        description: opts.description,
+        private: false,
+        git_content: true,
+      })
+    );
+    yield* assertFields(
+      response,
+      ['id', 'name', 'full_name', 'html_url', 'clone_url', 'default_branch'],
+      'POST /repos/.../generate'
+    );
+    return response;
+  });
+
+const getRepoFiles = (
+  client: GiteaClient,
+  repoFullName: string,
+  branch: string
+) =>
+  Effect.gen(function* () {
+    // The trees endpoint wants a commit SHA rather than a branch name
+    const branchInfo = yield* makeGiteaApiRequest<GiteaBranchResponse>(
+      client,
+      `/repos/${repoFullName}/branches/${encodeURIComponent(branch)}`
+    );
+    yield* assertFields(branchInfo, ['commit'], 'GET /repos/.../branches/...');
+
+    const blobs: GiteaTreeResponse['tree'] = [];
+
+    for (let page = 1; ; page++) {
+      const response = yield* makeGiteaApiRequest<GiteaTreeResponse>(
+        client,
+        `/repos/${repoFullName}/git/trees/${branchInfo.commit.id}?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`
+      );
+      yield* assertFields(response, ['tree'], 'GET /repos/.../git/trees/...');
+
+      blobs.push(...response.tree.filter((item) => item.type === 'blob'));
+
+      if (!response.truncated) break;
+    }
+
+    return blobs;
+  });
+
+const getFileContent = (
+  client: GiteaClient,
+  repoFullName: string,
+  filePath: string,
+  ref?: string
+) =>
+  Effect.gen(function* () {
+    const query = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+    const response = yield* makeGiteaApiRequest<GiteaFileResponse>(
+      client,
+      `${contentsEndpoint(repoFullName, filePath)}${query}`
+    );
+    yield* assertFields(
+      response,
+      ['content', 'sha'],
+      `GET /repos/.../contents/${filePath}`
+    );
+    return response;
+  });
+
+const getFileOrNull = (
+  client: GiteaClient,
+  repoFullName: string,
+  filePath: string,
+  ref?: string
+) =>
+  getFileContent(client, repoFullName, filePath, ref).pipe(
+    Effect.catchTag('GitProviderError', (error) => {
+      if (error.status === 404) {
+        return Effect.succeed(null);
+      }
+      return Effect.fail(error);
+    })
+  );
+
+// Unlike GitHub, Gitea creates files with POST and updates them with PUT
+const writeFile = (
+  client: GiteaClient,
+  repoFullName: string,
+  opts: {
+    filePath: string;
+    base64Content: string;
+    message: string;
+    sha?: string;
+    branch?: string;
+    // Creates this branch from `branch` and commits there instead
+    newBranch?: string;
+    author?: CommitAuthor;
+  }
+) =>
+  Effect.gen(function* () {
+    const response = yield* makeGiteaApiRequest<GiteaFileChangeResponse>(
+      client,
+      contentsEndpoint(repoFullName, opts.filePath),
+      jsonRequest(opts.sha === undefined ? 'POST' : 'PUT', {
+        message: opts.message,
+        content: opts.base64Content,
+        ...(opts.sha !== undefined && { sha: opts.sha }),
+        ...(opts.branch !== undefined && { branch: opts.branch }),
+        ...(opts.newBranch !== undefined && { new_branch: opts.newBranch }),
+        ...(opts.author && { author: opts.author, committer: opts.author }),
+      })
+    );
+    yield* assertFields(
+      response,
+      ['commit', 'content'],
+      `${opts.sha === undefined ? 'POST' : 'PUT'} /repos/.../contents/${opts.filePath}`
+    );
+
+    return {
+      commitSha: response.commit.sha,
+      blobSha: response.content?.sha ?? '',
+    };
+  });
+
+// Applies several file operations as a single commit
+const changeFiles = (
+  client: GiteaClient,
+  repoFullName: string,
+  opts: {
+    branch: string;
+    // Creates this branch from `branch` and commits there instead
+    newBranch?: string;
+    message: string;
+    files: GiteaFileOperation[];
+    author?: CommitAuthor;
+  }
+) =>
+  Effect.gen(function* () {
+    const response = yield* makeGiteaApiRequest<GiteaFilesChangeResponse>(
+      client,
+      `/repos/${repoFullName}/contents`,
+      jsonRequest('POST', {
+        branch: opts.branch,
+        ...(opts.newBranch !== undefined && { new_branch: opts.newBranch }),
+        message: opts.message,
+        files: opts.files,
+        ...(opts.author && { author: opts.author, committer: opts.author }),
+      })
+    );
+    yield* assertFields(response, ['commit'], 'POST /repos/.../contents');
+    return response;
+  });
+
+// Applies a changeset to the default branch as a single commit
+const commitFileChanges = (
+  client: GiteaClient,
+  repoFullName: string,
+  opts: {
+    message: string;
+    changes: readonly FileChange[];
+    author?: CommitAuthor;
+  }
+) =>
+  Effect.gen(function* () {
+    const repo = yield* getRepo(client, repoFullName);
+    const branch = repo.default_branch || 'main';
+    const files = yield* getRepoFiles(client, repoFullName, branch);
+    const existingShas = new Map(files.map((file) => [file.path, file.sha]));
+
+    // Updates and deletes must name the blob they replace
+    const operations: GiteaFileOperation[] = [];
+    const blobShas: Record<string, string> = {};
+
+    for (const change of opts.changes) {
+      const sha = existingShas.get(change.path);
+
+      if (change.base64Content === null) {
+        if (sha) {
+          operations.push({ operation: 'delete', path: change.path, sha });
+        }
+        continue;
+      }
+
+      operations.push({
+        operation: sha ? 'update' : 'create',
+        path: change.path,
+        content: change.base64Content,
+        ...(sha && { sha }),
+      });
+      blobShas[change.path] = computeGitBlobSha(
+        Buffer.from(change.base64Content, 'base64')
+      );
+    }
+
+    if (operations.length === 0) {
+      return { commitSha: null, blobShas };
+    }
+
+    const response = yield* changeFiles(client, repoFullName, {
+      branch,
+      message: opts.message,
+      files: operations,
+      author: opts.author,
+    });
+    return { commitSha: response.commit.sha, blobShas };
+  });
+
+const deletePath = (
+  client: GiteaClient,
+  repoFullName: string,
+  opts: { filePath: string; message: string; author?: CommitAuthor }
+) =>
+  Effect.gen(function* () {
+    const currentFile = yield* getFileOrNull(
+      client,
+      repoFullName,
+      opts.filePath
+    );
+
+    if (!currentFile) {
+      return { deleted: false, reason: 'File not found' };
+    }
+
+    yield* makeGiteaApiRequest(
+      client,
+      contentsEndpoint(repoFullName, opts.filePath),
+      jsonRequest('DELETE', {
+        message: opts.message,
+        sha: currentFile.sha,
+        ...(opts.author && { author: opts.author, committer: opts.author }),
+      })
+    );
+
+    return { deleted: true };
+  });
+
+const toPullRequest = (response: GiteaPullRequestResponse): PullRequest => ({
+  number: response.number,
+  url: response.html_url,
+  state: response.merged
+    ? 'merged'
+    : response.state === 'open'
+      ? 'open'
+      : 'closed',
+});
+
+// The pulls endpoint cannot filter by head branch, so scan the open ones
+const findOpenPullRequest = (
+  client: GiteaClient,
+  repoFullName: string,
+  branch: string
+) =>
+  Effect.gen(function* () {
+    for (let page = 1; ; page++) {
+      const response = yield* makeGiteaApiRequest<GiteaPullRequestResponse[]>(
+        client,
+        `/repos/${repoFullName}/pulls?state=open&limit=${PULLS_PAGE_SIZE}&page=${page}`
+      );
+
+      if (!Array.isArray(response)) {
+        return yield* makeError('Expected array from GET /repos/.../pulls');
+      }
+
+      const match = response.find((pr) => pr.head.ref === branch);
+      if (match) return toPullRequest(match);
+
+      if (response.length < PULLS_PAGE_SIZE) return null;
+    }
+  });
+
+const createPullRequest = (
+  client: GiteaClient,
+  repoFullName: string,
+  opts: { title: string; head: string; base: string }
+) =>
+  Effect.gen(function* () {
+    const response = yield* makeGiteaApiRequest<GiteaPullRequestResponse>(
+      client,
+      `/repos/${repoFullName}/pulls`,
+      jsonRequest('POST', opts)
+    );
+    yield* assertFields(
+      response,
+      ['number', 'html_url', 'state'],
+      'POST /repos/.../pulls'
+    );
+    return toPullRequest(response);
+  });
+
+const deleteBranchIfExists = (
+  client: GiteaClient,
+  repoFullName: string,
+  branch: string
+) =>
+  makeGiteaApiRequest(
+    client,
+    `/repos/${repoFullName}/branches/${encodeURIComponent(branch)}`,
+    { method: 'DELETE' }
+  ).pipe(
+    Effect.catchTag('GitProviderError', (error) =>
+      error.status === 404 ? Effect.void : Effect.fail(error)
+    )
+  );
+
+const ensurePagesWorkflow = (client: GiteaClient, repoFullName: string) =>
+  Effect.gen(function* () {
+    const existing = yield* getFileOrNull(client, repoFullName, WORKFLOW_PATH);
+    if (existing) return false;
+
+    yield* writeFile(client, repoFullName, {
+      filePath: WORKFLOW_PATH,
+      base64Content: Buffer.from(PAGES_WORKFLOW).toString('base64'),
+      message: 'Add pages deployment workflow',
+    });
+    return true;
+  });
+
+// Composite operations
+const replaceTemplatePlaceholders = (
+  client: GiteaClient,
+  repoFullName: string,
+  branch: string,
+  templateData: TemplateData,
+  tokens?: TemplatePlaceholders
+) =>
+  Effect.gen(function* () {
+    yield* Effect.logInfo(
+      `Starting template placeholder replacement for ${repoFullName} on branch ${branch}`
+    );
+
+    const files = yield* getRepoFiles(client, repoFullName, branch).pipe(
+      Effect.retry(
+        Schedule.exponential(REPO_READY_DELAY_MS).pipe(
+          Schedule.intersect(Schedule.recurs(MAX_RETRY_ATTEMPTS)),
+          Schedule.whileInput(
+            (error: GitProviderError | RateLimitedError) =>
+              error._tag === 'GitProviderError' &&
+              (error.status === 404 || error.status === 409)
+          )
+        )
+      )
+    );
+    const placeholders = buildTemplatePlaceholders(templateData, tokens);
+    const operations: GiteaFileOperation[] = [];
+
+    for (const file of files) {
+      if (!shouldProcessFile(file.path)) continue;
+
+      const fileData = yield* getFileContent(
+        client,
+        repoFullName,
+        file.path,
+        branch
+      );
+      const content = decodeContent(fileData);
+      const updatedContent = replacePlaceholders(content, placeholders);
+
+      if (updatedContent !== content) {
+        operations.push({
+          operation: 'update',
+          path: file.path,
+          content: Buffer.from(updatedContent).toString('base64'),
+          sha: fileData.sha,
+        });
+      }
+    }
+
+    if (operations.length > 0) {
+      yield* changeFiles(client, repoFullName, {
+        branch,
+        message: 'Replace template placeholders',
+        files: operations,
+      });
+    }
+
+    return true;
+  });
+
+// Gitea/Forgejo implementation factory
+export const makeGiteaApiRepository = (config: {
+  baseUrl: string;
+  templateRepo?: string;
+  pagesUrl?: string;
+}): GitProviderRepositoryService => {
+  const api = giteaApi(config.baseUrl);
+  const clientFor = (accessToken: string): GiteaClient => ({
+    api,
+    accessToken,
+  });
+  const templateRepoPath = config.templateRepo ?? DEFAULT_TEMPLATE_REPO;
+  const pagesUrlTemplate = config.pagesUrl;
+
+  const enablePages = (accessToken: string, repoFullName: string) =>
+    Effect.gen(function* () {
+      if (!pagesUrlTemplate) {
+        return yield* makeError(
+          'Pages hosting is not configured for this Gitea instance'
+        );
+      }
+      yield* ensurePagesWorkflow(clientFor(accessToken), repoFullName);
+      return pagesUrlFor(pagesUrlTemplate, repoFullName);
+    });
+
+  const listArticleFiles = (
+    accessToken: string,
+    repoFullName: string,
+    defaultBranch: string,
+    layout?: ContentLayout
+  ) =>
+    getRepoFiles(clientFor(accessToken), repoFullName, defaultBranch).pipe(
+      Effect.map((files) =>
+        files
+          .filter((file) => isArticleFile(file.path, layout))
+          .map((file): GitFile => ({ path: file.path, sha: file.sha }))
+      )
+    );
+
+  const readArticleFiles = (
+    accessToken: string,
+    repoFullName: string,
+    defaultBranch: string,
+    files: readonly GitFile[],
+    layout?: ContentLayout
+  ) => {
+    const client = clientFor(accessToken);
+    return parseArticleFiles(files, layout, (file) =>
+      getFileContent(client, repoFullName, file.path, defaultBranch).pipe(
+        Effect.map(decodeContent)
+      )
+    );
+  };
+
+  // Reads the workflow and template build files with placeholders filled in.
+  // Files missing from the template are skipped rather than failing the batch.
+  const buildInlandWorkflowChanges = (
+    accessToken: string,
+    repoFullName: string,
+    templateData: TemplateData,
+    options?: { overrideExistingFiles?: boolean; template?: TemplateSource }
+  ) =>
+    Effect.gen(function* () {
+      const client = clientFor(accessToken);
+      const overrideExisting = options?.overrideExistingFiles ?? false;
+      const template = options?.template;
+      const templateRepo = template?.repo ?? templateRepoPath;
+      const repo = yield* getRepo(client, repoFullName);
+      const branch = repo.default_branch || 'main';
+      const placeholders = buildTemplatePlaceholders(
+        templateData,
+        template?.placeholders
+      );
+
+      const filesSkipped: string[] = [];
+      const changes: FileChange[] = [];
+
+      const filesToInject = [
+        SITE_CONFIG_PATH,
+        WORKFLOW_PATH,
+        ...(template?.files ?? INLAND_BUILD_FILES),
+      ];
+
+      for (const filePath of filesToInject) {
+        const existingFile = yield* getFileOrNull(
+          client,
+          repoFullName,
+          filePath,
+          branch
+        );
+
+        if (existingFile && !overrideExisting) {
+          yield* Effect.logInfo(`Skipping existing file: ${filePath}`);
+          filesSkipped.push(filePath);
+          continue;
+        }
+
+        // The workflow is Gitea-specific, so it is not read from the template
+        let content = PAGES_WORKFLOW;
+        if (filePath !== WORKFLOW_PATH) {
+          const templateFile = yield* getFileOrNull(
+            client,
+            templateRepo,
+            filePath,
+            template?.ref
+          );
+          if (!templateFile) {
+            yield* Effect.logWarning(
+              `${filePath} not found in ${templateRepo}`
+            );
+            continue;
+          }
+          content = replacePlaceholders(
+            decodeContent(templateFile),
+            placeholders
+          );
+        }
+
+        changes.push({
+          path: filePath,
+          base64Content: Buffer.from(content).toString('base64'),
+        });
+      }
+
+      return { changes, filesSkipped };
+    });
+
+  return {
+    createRepositoryWithPages: (
+      accessToken: string,
+      data: CreateRepoData,
+      templateData?: TemplateData
+    ) =>
+      Effect.gen(function* () {
+        const client = clientFor(accessToken);
+        const templateRepo =
+          data.templateOwner && data.templateRepo
+            ? `${data.templateOwner}/${data.templateRepo}`
+            : templateRepoPath;
+        const owner = yield* getCurrentUser(client);
+
+        const repoData = yield* createRepoFromTemplate(client, {
+          templateRepo,
+          owner: owner.login,
+          repoName: data.name,
+          description: data.description ?? `Blog site: ${data.name}`,
+        });
+
+        const gitRepo: GitRepo = {
+          id: repoData.id,
+          name: repoData.name,
+          fullName: repoData.full_name,
+          htmlUrl: repoData.html_url,
+          cloneUrl: repoData.clone_url,
+          defaultBranch: repoData.default_branch || 'main',
+        };
+
+        if (templateData) {
+          yield* replaceTemplatePlaceholders(
+            client,
+            gitRepo.fullName,
+            gitRepo.defaultBranch,
+            templateData,
+            data.placeholders
+          );
+        }
+
+        // Without a pages server the site is created without a public URL
+        if (!pagesUrlTemplate) {
+          return gitRepo;
+        }
+
+        const pagesUrl = yield* enablePages(accessToken, gitRepo.fullName).pipe(
+          Effect.catchAll((error: GitProviderError | RateLimitedError) =>
+            Effect.gen(function* () {
+              yield* Effect.logError(
+                `Failed to set up pages deployment for ${gitRepo.fullName}`,
+                { error }
+              );
+              return yield* new PagesDeploymentError({
+                repoName: gitRepo.fullName,
+                reason: error.message,
+              });
+            })
+          )
+        );
+
+        return { ...gitRepo, pagesUrl };
+      }).pipe(
+        Effect.catchAll(
+          (error) =>
+            new RepositoryCreationError({
+              repoName: data.name,
+              reason: error.message,
+            })
+        )
+      ),
+
+    deleteArticleFromRepo: (
+      accessToken: string,
+      repoFullName: string,
+      articleSlug: string,
+      filePath = articleFilePath(articleSlug),
+      commitOptions?: CommitOptions
+    ) =>
+      Effect.gen(function* () {
+        const result = yield* deletePath(clientFor(accessToken), repoFullName, {
+          filePath,
+          message: commitOptions?.message ?? `Delete article: ${articleSlug}`,
+          author: commitOptions?.author,
+        });
+
+        return result.deleted ? { deleted: true, filePath } : result;
+      }),
+
+    proposeArticleChange: (
+      accessToken: string,
+      repoFullName: string,
+      articleSlug: string,
+      markdownContent: string,
+      opts: {
+        branch: string;
+        title: string;
+        filePath?: string;
+        commit?: CommitOptions;
+        changes?: readonly FileChange[];
+      }
+    ) =>
+      Effect.gen(function* () {
+        const client = clientFor(accessToken);
+        const filePath = opts.filePath ?? articleFilePath(articleSlug);
+        const repo = yield* getRepo(client, repoFullName);
+        const baseBranch = repo.default_branch || 'main';
+
+        const openPullRequest = yield* findOpenPullRequest(
+          client,
+          repoFullName,
+          opts.branch
+        );
+
+        // Without an open pull request the branch is recreated from the
+        // default branch, so it never carries already merged history
+        if (!openPullRequest) {
+          yield* deleteBranchIfExists(client, repoFullName, opts.branch);
+        }
+
+        const sourceRef = openPullRequest ? opts.branch : baseBranch;
+        const existingFile = yield* getFileOrNull(
+          client,
+          repoFullName,
+          filePath,
+          sourceRef
+        );
+        const sha = existingFile ? existingFile.sha : undefined;
+        const base64Content = Buffer.from(markdownContent).toString('base64');
+        const message =
+          opts.commit?.message ??
+          `${sha ? 'Update' : 'Add'} article: ${articleSlug}`;
+        const branches = openPullRequest
+          ? { branch: opts.branch }
+          : { branch: baseBranch, newBranch: opts.branch };
+
+        // Other changes go in the same commit. Updates and deletes must name
+        // the blob they replace, and deleting a missing file is rejected
+        const otherOperations: GiteaFileOperation[] = [];
+        for (const change of opts.changes ?? []) {
+          const current = yield* getFileOrNull(
+            client,
+            repoFullName,
+            change.path,
+            sourceRef
+          );
+          if (change.base64Content === null) {
+            if (current) {
+              otherOperations.push({
+                operation: 'delete',
+                path: change.path,
+                sha: current.sha,
+              });
+            }
+            continue;
+          }
+          otherOperations.push({
+            operation: current ? 'update' : 'create',
+            path: change.path,
+            content: change.base64Content,
+            ...(current && { sha: current.sha }),
+          });
+        }
+
+        const result =
+          otherOperations.length > 0
+            ? yield* changeFiles(client, repoFullName, {
+                ...branches,
+                message,
+                author: opts.commit?.author,
+                files: [
+                  ...otherOperations,
+                  {
+                    operation: sha ? 'update' : 'create',
+                    path: filePath,
+                    content: base64Content,
+                    ...(sha && { sha }),
+                  },
+                ],
+              }).pipe(
+                Effect.map((response) => ({
+                  commitSha: response.commit.sha,
+                  blobSha: computeGitBlobSha(Buffer.from(markdownContent)),
+                }))
+              )
+            : yield* writeFile(client, repoFullName, {
+                ...branches,
+                filePath,
+                base64Content,
+                message,
+                sha,
+                author: opts.commit?.author,
+              });
+
+        const pullRequest =
+          openPullRequest ??
+          (yield* createPullRequest(client, repoFullName, {
+            title: opts.title,
+            head: opts.branch,
+            base: baseBranch,
+          }));
+
+        return {
+          filePath,
+          commitSha: result.commitSha,
+          blobSha: result.blobSha,
+          pullRequest,
+        };
+      }),
+
+    getPullRequest: (
+      accessToken: string,
+      repoFullName: string,
+      pullRequestNumber: number
+    ) =>
+      Effect.gen(function* () {
+        const response = yield* makeGiteaApiRequest<GiteaPullRequestResponse>(
+          clientFor(accessToken),
+          `/repos/${repoFullName}/pulls/${pullRequestNumber}`
+        );
+        yield* assertFields(
+          response,
+          ['number', 'html_url', 'state'],
+          'GET /repos/.../pulls/...'
+        );
+        return toPullRequest(response);
+      }),
+
+    getArticleFileSha: (
+      accessToken: string,
+      repoFullName: string,
+      articleSlug: string,
+      filePath = articleFilePath(articleSlug)
+    ) =>
+      Effect.gen(function* () {
+        const file = yield* getFileOrNull(
+          clientFor(accessToken),
+          repoFullName,
+          filePath
+        );
+        return file ? file.sha : null;
+      }),
+
+    listFileCommits: (_accessToken: string, repoFullName: string) =>
+      makeError(
+        `Article history is not available for Gitea repository ${repoFullName} yet`,
+        501
+      ),
+
+    getFileAtRef: (
+      accessToken: string,
+      repoFullName: string,
+      filePath: string,
+      ref: string
+    ) =>
+      getFileOrNull(clientFor(accessToken), repoFullName, filePath, ref).pipe(
+        Effect.map((file) => (file ? decodeContent(file) : null))
+      ),
+
+    getBlobContent: (
+      accessToken: string,
+      repoFullName: string,
+      blobSha: string
+    ) =>
+      Effect.gen(function* () {
+        const response = yield* makeGiteaApiRequest<GitHubBlobResponse>(
+          clientFor(accessToken),
+          `/repos/${repoFullName}/git/blobs/${blobSha}`
+        );
+        yield* assertFields(
+          response,
+          ['content', 'encoding'],
+          'GET /repos/.../git/blobs/...'
+        );
+        return decodeBlob(response);
+      }).pipe(
+        Effect.catchTag('GitProviderError', (error) =>
+          error.status === 404 ? Effect.succeed(null) : Effect.fail(error)
+        )
+      ),
+
+    getMarkdownFilesFromRepo: (
+      accessToken: string,
+      repoFullName: string,
+      defaultBranch: string,
+      layout?: ContentLayout
+    ) =>
+      Effect.gen(function* () {
+        yield* Effect.logInfo(`Fetching markdown files from ${repoFullName}`);
+
+        const files = yield* listArticleFiles(
+          accessToken,
+          repoFullName,
+          defaultBranch,
+          layout
+        );
+        return yield* readArticleFiles(
+          accessToken,
+          repoFullName,
+          defaultBranch,
+          files,
+          layout
+        );
+      }),
+
+    listArticleFiles,
+
+    readArticleFiles,
+
+    getMediaFilesFromRepo: (
+      accessToken: string,
+      repoFullName: string,
+      defaultBranch: string,
+      layout?: ContentLayout
+    ) =>
+      Effect.gen(function* () {
+        const files = yield* getRepoFiles(
+          clientFor(accessToken),
+          repoFullName,
+          defaultBranch
+        );
+
+        return files
+          .filter((file) => isMediaFile(file.path, layout))
+          .map(
+            (file): ImportedMedia => ({
+              filePath: file.path,
+              filename: file.path.split('/').pop()!,
+              sha: file.sha,
+              size: file.size ?? 0,
+            })
+          );
+      }),
+
+    publishArticleToRepo: (
+      accessToken: string,
+      repoFullName: string,
+      articleSlug: string,
+      markdownContent: string,
+      filePath = articleFilePath(articleSlug),
+      commitOptions?: CommitOptions
+    ) =>
+      Effect.gen(function* () {
+        const client = clientFor(accessToken);
+
+        const existingFile = yield* getFileOrNull(
+          client,
+          repoFullName,
+          filePath
+        );
+        const sha = existingFile ? existingFile.sha : undefined;
+
+        const result = yield* writeFile(client, repoFullName, {
+          filePath,
+          base64Content: Buffer.from(markdownContent).toString('base64'),
+          message:
+            commitOptions?.message ??
+            `${sha ? 'Update' : 'Add'} article: ${articleSlug}`,
+          sha,
+          author: commitOptions?.author,
+        });
+
+        return {
+          published: true,
+          filePath,
+          commitSha: result.commitSha,
+          blobSha: result.blobSha,
+          wasUpdate: sha !== undefined,
+        };
+      }),
+
+    getRepositoryInfo: (accessToken: string, repoFullName: string) =>
+      Effect.gen(function* () {
+        const repo = yield* getRepo(clientFor(accessToken), repoFullName);
+
+        return {
+          ...repo,
+          defaultBranch: repo.default_branch || 'main',
+          htmlUrl: repo.html_url,
+        };
+      }),
+
+    getCommitDeployRun: (
+      accessToken: string,
+      repoFullName: string,
+      commitSha: string
+    ) =>
+      Effect.gen(function* () {
+        const runs = yield* makeGiteaApiRequest<GitHubWorkflowRunsResponse>(
+          clientFor(accessToken),
+          `/repos/${repoFullName}/actions/runs?head_sha=${commitSha}&limit=20`
+        ).pipe(
+          // Instances before the action runs API can't report deploys
+          Effect.catchTag('GitProviderError', (error) =>
+            error.status === 404
+              ? Effect.fail(
+                  makeError(
+                    `Deploy runs are not available for ${repoFullName} on this Gitea version`,
+                    501
+                  )
+                )
+              : Effect.fail(error)
+          )
+        );
+        yield* assertFields(
+          runs,
+          ['workflow_runs'],
+          'GET /repos/.../actions/runs'
+        );
+        return toDeployRun(runs, WORKFLOW_PATH);
+      }),
+
+    getBranchHead: (
+      accessToken: string,
+      repoFullName: string,
+      branch: string
+    ) =>
+      Effect.gen(function* () {
+        const response = yield* makeGiteaApiRequest<GiteaBranchResponse>(
+          clientFor(accessToken),
+          `/repos/${repoFullName}/branches/${encodeURIComponent(branch)}`
+        );
+        yield* assertFields(
+          response,
+          ['commit'],
+          'GET /repos/.../branches/...'
+        );
+        return response.commit.id;
+      }),
+
+    checkPagesStatus: (accessToken: string, repoFullName: string) =>
+      Effect.gen(function* () {
+        yield* Effect.logInfo(`Checking Pages status for ${repoFullName}`);
+
+        if (!pagesUrlTemplate) {
+          return { enabled: false };
+        }
+
+        // Pages are live once the workflow has published the pages branch
+        const branch = yield* makeGiteaApiRequest<GiteaBranchResponse>(
+          clientFor(accessToken),
+          `/repos/${repoFullName}/branches/${PAGES_BRANCH}`
+        ).pipe(
+          Effect.catchTag('GitProviderError', (error) => {
+            if (error.status === 404) {
+              return Effect.succeed(null);
+            }
+            return Effect.fail(error);
+          })
+        );
+
+        if (!branch) {
+          return { enabled: false };
+        }
+
+        return {
+          enabled: true,
+          url: pagesUrlFor(pagesUrlTemplate, repoFullName),
+          source: PAGES_BRANCH,
+        };
+      }),
+
+    buildInlandWorkflowChanges,
+
+    injectInlandWorkflow: (
+      accessToken: string,
+      repoFullName: string,
+      templateData: TemplateData,
+      options?: { overrideExistingFiles?: boolean; template?: TemplateSource }
+    ) =>
+      Effect.gen(function* () {
+        yield* Effect.logInfo(`Injecting Inland workflow into ${repoFullName}`);
+
+        const client = clientFor(accessToken);
+        const repo = yield* getRepo(client, repoFullName);
+        const { changes, filesSkipped } = yield* buildInlandWorkflowChanges(
+          accessToken,
+          repoFullName,
+          templateData,
+          options
+        );
+        const filesCreated = changes.map((change) => change.path);
+
+        if (changes.length > 0) {
+          yield* commitFileChanges(client, repoFullName, {
+            message: 'Add Inland CMS workflow',
+            changes,
+          });
+          yield* Effect.logInfo(`Injected files: ${filesCreated.join(', ')}`);
+        }
+
+        return {
+          filesCreated,
+          filesSkipped,
+          workflowUrl: `${repo.html_url}/actions`,
+        };
+      }),
+
+    enablePages,
+
+    // The Pages server publishing the pages branch owns its domains
+    setPagesDomain: (_accessToken: string, repoFullName: string) =>
+      makeError(
+        `Custom domains are not supported for Gitea Pages of ${repoFullName}`,
+        501
+      ),
+
+    uploadFileToRepo: (
+      accessToken: string,
+      repoFullName: string,
+      opts: {
+        filePath: string;
+        base64Content: string;
+        commitMessage: string;
+      }
+    ) =>
+      Effect.gen(function* () {
+        const client = clientFor(accessToken);
+        const existingFile = yield* getFileOrNull(
+          client,
+          repoFullName,
+          opts.filePath
+        );
+
+        const result = yield* writeFile(client, repoFullName, {
+          filePath: opts.filePath,
+          base64Content: opts.base64Content,
+          message: opts.commitMessage,
+          sha: existingFile ? existingFile.sha : undefined,
+        });
+
+        return {
+          filePath: opts.filePath,
+          blobSha: result.blobSha,
+          commitSha: result.commitSha,
+        };
+      }),
+
+    deleteFileFromRepo: (
+      accessToken: string,
+      repoFullName: string,
+      opts: { filePath: string; commitMessage: string }
+    ) =>
+      deletePath(clientFor(accessToken), repoFullName, {
+        filePath: opts.filePath,
+        message: opts.commitMessage,
+      }),
+
+    commitChangeset: (
+      accessToken: string,
+      repoFullName: string,
+      opts: {
+        message: string;
+        changes: readonly FileChange[];
+        author?: CommitAuthor;
+      }
+    ) => commitFileChanges(clientFor(accessToken), repoFullName, opts),
+
+    checkRepoExists: (accessToken: string, repoFullName: string) =>
+      makeGiteaApiRequest(
+        clientFor(accessToken),
+        `/repos/${repoFullName}`
+      ).pipe(
+        Effect.map(() => true),
+        Effect.catchTag('GitProviderError', (error) => {
+          if (error.status === 404) {
+            return Effect.succeed(false);
+          }
+          return Effect.fail(error);
+        })
+      ),
+
+    pushSiteConfig: (
+      accessToken: string,
+      repoFullName: string,
+      siteConfig: SiteConfig
+    ) =>
+      Effect.gen(function* () {
+        const client = clientFor(accessToken);
+        const filePath = SITE_CONFIG_PATH;
+        const existingFile = yield* getFileOrNull(
+          client,
+          repoFullName,
+          filePath
+        );
+
+        const result = yield* writeFile(client, repoFullName, {
+          filePath,
+          base64Content: Buffer.from(
+            JSON.stringify(siteConfig, null, 2) + '\n'
+          ).toString('base64'),
+          message: 'Update site configuration',
+          sha: existingFile ? existingFile.sha : undefined,
+        });
+
+        return { filePath, commitSha: result.commitSha };
+      }),
+
+    getSiteConfig: (accessToken: string, repoFullName: string) =>
+      Effect.gen(function* () {
+        const file = yield* getFileOrNull(
+          clientFor(accessToken),
+          repoFullName,
+          SITE_CONFIG_PATH
+        );
+        if (!file) return null;
+
+        const parsed = yield* assertFields<{
+          name: string;
+          description: string;
+          url: string;
+          author: string;
+          avatarUrl: string;
+          authorUrl: string;
+        }>(JSON.parse(decodeContent(file)), ['name'], SITE_CONFIG_PATH);
+        return {
+          name: parsed.name,
+          description: parsed.description,
+          url: parsed.url,
+          author: parsed.author,
+          avatarUrl: parsed.avatarUrl,
+          authorUrl: parsed.authorUrl,
+        } satisfies SiteConfig;
+      }).pipe(Effect.catchAll(() => Effect.succeed(null))),
+
+    getRawFileUrl: (repoFullName: string, ref: string, filePath: string) =>
+      `${config.baseUrl}/${repoFullName}/raw/branch/${ref}/${filePath}`,
+
+    getPublicUrls: (
+      repoFullName: string,
+      user: { username: string; avatarUrl: string }
+    ) => ({
+      pagesUrl: pagesUrlTemplate
+        ? pagesUrlFor(pagesUrlTemplate, repoFullName)
+        : `${config.baseUrl}/${repoFullName}`,
+      avatarUrl: user.avatarUrl,
+      authorUrl: `${config.baseUrl}/${user.username}`,
+    }),
+
+    registerPushWebhook: (
+      accessToken: string,
+      repoFullName: string,
+      opts: { url: string; secret: string }
+    ) =>
+      Effect.gen(function* () {
+        const client = clientFor(accessToken);
+        const hooks = yield* makeGiteaApiRequest<GitHubHookResponse[]>(
+          client,
+          `/repos/${repoFullName}/hooks`
+        );
+        const existing = hooks.find((hook) => hook.config.url === opts.url);
+        const hook = {
+          type: 'gitea',
+          active: true,
+          events: ['push'],
+          config: { url: opts.url, content_type: 'json', secret: opts.secret },
+        };
+
+        yield* existing
+          ? makeGiteaApiRequest(
+              client,
+              `/repos/${repoFullName}/hooks/${existing.id}`,
+              jsonRequest('PATCH', hook)
+            )
+          : makeGiteaApiRequest(
+              client,
+              `/repos/${repoFullName}/hooks`,
+              jsonRequest('POST', hook)
+            );
+      }),
+
+    parsePushEvent: (headers: WebhookHeaders, payload: unknown) =>
+      headerValue(headers, 'X-Gitea-Event') === 'push'
+        ? parseGitHubPushPayload(payload)
+        : null,
+
+    verifyWebhookSignature: (
+      headers: WebhookHeaders,
+      rawBody: Buffer,
+      secret: string
+    ) =>
+      verifyHmacSignature(
+        headerValue(headers, 'X-Gitea-Signature'),
+        rawBody,
+        secret
+      ),
+  };
+};
@@ -0,0 +1,75 @@
+import { Effect } from 'effect';
+
+import {
+  type AuthProviderRepositoryService,
+  type PlatformUser,
+  AuthProviderAPIError,
+} from '../auth-provider-repository';
+import { giteaApi, type GiteaUser } from './gitea-utils';
+import { assertFields, githubFetch } from './github-utils';
+
+const makeError = (message: string, status?: number) =>
+  new AuthProviderAPIError({ message, status });
+
+const assertGiteaUser = (
+  data: unknown
+): Effect.Effect<GiteaUser, AuthProviderAPIError> =>
+  assertFields(data, ['id', 'login', 'avatar_url'], '/user', makeError).pipe(
+    // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+    Effect.map((obj) => obj as unknown as GiteaUser)
+  );
+
+const convertGiteaUserToPlatformUser = (
+  giteaUser: GiteaUser
+): PlatformUser => ({
+  id: giteaUser.id,
+  username: giteaUser.login,
+  displayName: giteaUser.full_name || null,
+  email: giteaUser.email || null,
+  avatarUrl: giteaUser.avatar_url,
+});
+
+export const makeGiteaAuthRepository = (config: {
+  baseUrl: string;
+}): AuthProviderRepositoryService => {
+  const api = giteaApi(config.baseUrl);
+
+  const fetchCurrentUser = (accessToken: string) =>
+    githubFetch<AuthProviderAPIError>(
+      accessToken,
+      '/user',
+      makeError,
+      {},
+      api
+    ).pipe(
+      Effect.catchTag('RateLimitedError', (error) =>
+        Effect.fail(makeError(error.message, 429))
+      ),
+      Effect.flatMap(assertGiteaUser)
+    );
+
+  return {
+    fetchUser: (accessToken: string) =>
+      fetchCurrentUser(accessToken).pipe(
+        Effect.map(convertGiteaUserToPlatformUser)
+      ),
+
+    // Gitea returns the primary email on /user for the token owner
+    fetchUserEmail: (accessToken: string) =>
+      fetchCurrentUser(accessToken).pipe(
+        Effect.map((user) => user.email || null),
+        Effect.catchAll(() => Effect.succeed(null))
+      ),
+
+    validateToken: (accessToken: string) =>
+      fetchCurrentUser(accessToken).pipe(
+        Effect.map(() => ({ isValid: true })),
+        Effect.catchAll(() =>
+          Effect.succeed({
+            isValid: false,
+            reason: 'Gitea token validation failed',
+          })
+        )
+      ),
+  };
+};
@@ -0,0 +1,73 @@
+import type { GitHubApiTarget } from './github-utils';
+
+// Gitea and Forgejo expose a GitHub-shaped REST API under /api/v1,
+// so requests go through githubFetch with this target
+export const giteaApi = (baseUrl: string): GitHubApiTarget => ({
+  baseUrl: `${baseUrl}/api/v1`,
+  name: 'Gitea',
+});
+
+// Gitea API response types
+export interface GiteaBranchResponse {
+  readonly name: string;
+  readonly commit: {
+    readonly id: string;
+  };
+}
+
+export interface GiteaTreeResponse {
+  readonly tree: Array<{
+    readonly path: string;
+    readonly type: string;
+    readonly sha: string;
+    readonly size?: number;
+  }>;
+  readonly truncated: boolean;
+  readonly page: number;
+  readonly total_count: number;
+}
+
+export interface GiteaFileResponse {
+  readonly content: string;
+  readonly sha: string;
+}
+
+export interface GiteaFileChangeResponse {
+  readonly commit: {
+    readonly sha: string;
+  };
+  readonly content: {
+    readonly sha: string;
+  } | null;
+}
+
+export interface GiteaFilesChangeResponse {
+  readonly commit: {
+    readonly sha: string;
+  };
+}
+
+export interface GiteaPullRequestResponse {
+  readonly number: number;
+  readonly html_url: string;
+  readonly state: 'open' | 'closed';
+  readonly merged: boolean;
+  readonly head: {
+    readonly ref: string;
+  };
+}
+
+export interface GiteaUser {
+  readonly id: number;
+  readonly login: string;
+  readonly full_name: string;
+  readonly email: string;
+  readonly avatar_url: string;
+}
+
+export interface GiteaFileOperation {
+  readonly operation: 'create' | 'update' | 'delete';
+  readonly path: string;
+  readonly content?: string;
+  readonly sha?: string;
+}
@@ -4,10 +4,20 @@ import type {
   GitProviderRepositoryService,
   GitRepo,
   CreateRepoData,
+  CommitAuthor,
+  CommitOptions,
+  FileChange,
+  FileCommit,
+  PullRequest,
   TemplateData,
+  TemplatePlaceholders,
+  TemplateSource,
   SiteConfig,
-  ImportedArticle,
   ImportedMedia,
+  ContentLayout,
+  GitFile,
+  WebhookHeaders,
+  RateLimitedError,
 } from '../git-provider-repository';
 
 import {
@@ -15,18 +25,48 @@ import {
   RepositoryCreationError,
   PagesDeploymentError,
 } from '../git-provider-repository';
+import {
+  INLAND_BUILD_FILES,
+  SITE_CONFIG_PATH,
+  articleFilePath,
+  isArticleFile,
+  isMediaFile,
+  parseArticleFiles,
+  shouldProcessFile,
+} from './git-content-utils';
 import {
   githubFetch,
   assertFields as sharedAssertFields,
+  type GitHubRequestOptions,
+  type ResponseCache,
   buildTemplatePlaceholders,
   replacePlaceholders,
   type GitHubRepoResponse,
   type GitHubTreeResponse,
   type GitHubFileContentResponse,
+  type GitHubBlobResponse,
+  type GitHubCommitListItem,
+  decodeBlob,
+  type GitHubHookResponse,
+  type GitHubRefResponse,
+  type GitHubCommitResponse,
+  type GitHubShaResponse,
+  type GitHubTreeEntry,
+  type GitHubPullRequestResponse,
+  type GitHubWorkflowRunsResponse,
+  toDeployRun,
 } from './github-utils';
+import {
+  headerValue,
+  parseGitHubPushPayload,
+  verifyHmacSignature,
+} from './webhook-utils';
 
 const REPO_READY_DELAY_MS = 1000;
 const MAX_RETRY_ATTEMPTS = 9;
+const DEFAULT_TEMPLATE_REPO = 'Saul-Mirone/inland-template-basic';
+// One page of history is plenty to find the version worth restoring
+const FILE_HISTORY_LIMIT = 30;
 
 const makeError = (message: string, status?: number) =>
   new GitProviderError({ message, status });
@@ -34,7 +74,7 @@ const makeError = (message: string, status?: number) =>
 const makeGitHubApiRequest = <T>(
   accessToken: string,
   endpoint: string,
-  options: RequestInit = {}
+  options: GitHubRequestOptions = {}
 ) =>
   githubFetch<GitProviderError, T>(accessToken, endpoint, makeError, options);
 
@@ -46,101 +86,9 @@ const assertFields = <T extends Record<string, unknown>>(
   sharedAssertFields<GitProviderError, T>(response, fields, context, makeError);
 
 // Utility functions (pure, module-level)
-const articleFilePath = (slug: string): string => `content/${slug}.md`;
-
-const shouldProcessFile = (filePath: string): boolean => {
-  const textExtensions = [
-    '.html',
-    '.css',
-    '.js',
-    '.json',
-    '.md',
-    '.yml',
-    '.yaml',
-    '.txt',
-  ];
-  return textExtensions.some((ext) => filePath.endsWith(ext));
-};
-
-const parseFrontMatterTags = (
-  frontMatter: Record<string, string>,
-  raw: string
-): string | undefined => {
-  const tagsValue = frontMatter.tags;
-  if (!tagsValue) return undefined;
-
-  // Handle inline array: [tag1, tag2, tag3]
-  const inlineMatch = tagsValue.match(/^\[(.+)\]$/);
-  if (inlineMatch) {
-    return inlineMatch[1]
-      .split(',')
-      .map((t) => t.trim().replace(/^['"]|['"]$/g, ''))
-      .filter(Boolean)
-      .join(', ');
-  }
-
-  // Handle YAML list format (- tag1\n- tag2)
-  const tagsMatch = raw.match(/^tags:\s*\n((?:\s+-\s+.+\n?)+)/m);
-  if (tagsMatch) {
-    return tagsMatch[1]
-      .split('\n')
-      .map((line) => line.replace(/^\s*-\s+/, '').trim())
-      .filter(Boolean)
-      .join(', ');
-  }
-
-  // Simple string value
-  return tagsValue || undefined;
-};
-
-const parseMarkdownContent = (
-  content: string,
-  filePath: string
-): ImportedArticle | null => {
-  try {
-    const slug = filePath.replace('content/', '').replace('.md', '');
-    const frontMatterMatch = content.match(
-      /^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/
-    );
-
-    if (!frontMatterMatch) {
-      return {
-        title: slug.replace(/-/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
-        slug,
-        content: content.trim(),
-        status: 'published' as const,
-      };
-    }
-
-    const [, frontMatterText, markdownContent] = frontMatterMatch;
-    const frontMatter: Record<string, string> = {};
-
-    frontMatterText.split('\n').forEach((line) => {
-      const colonIndex = line.indexOf(':');
-      if (colonIndex > 0) {
-        const key = line.substring(0, colonIndex).trim();
-        const value = line.substring(colonIndex + 1).trim();
-        frontMatter[key] = value;
-      }
-    });
-
-    const excerpt = frontMatter.excerpt || frontMatter.description || undefined;
-    const tags = parseFrontMatterTags(frontMatter, frontMatterText);
-
-    return {
-      title:
-        frontMatter.title ??
-        slug.replace(/-/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
-      slug: frontMatter.slug ?? slug,
-      content: markdownContent.trim(),
-      excerpt,
-      tags,
-      status: frontMatter.status === 'draft' ? 'draft' : 'published',
-      date: frontMatter.date || undefined,
-    };
-  } catch {
-    return null;
-  }
+const pagesUrlFor = (repoFullName: string): string => {
+  const [owner, repoName] = repoFullName.split('/');
+  return `https://${owner}.github.io/${repoName}`;
 };
 
 // Atomic GitHub operations
@@ -178,12 +126,14 @@ const createRepoFromTemplate = (
 const getRepoFiles = (
   accessToken: string,
   repoFullName: string,
-  defaultBranch: string
+  defaultBranch: string,
+  responseCache?: ResponseCache
 ) =>
   Effect.gen(function* () {
     const response = yield* makeGitHubApiRequest<GitHubTreeResponse>(
       accessToken,
-      `/repos/${repoFullName}/git/trees/${encodeURIComponent(defaultBranch)}?recursive=1`
+      `/repos/${repoFullName}/git/trees/${encodeURIComponent(defaultBranch)}?recursive=1`,
+      { responseCache }
     );
     yield* assertFields(response, ['tree'], 'GET /repos/.../git/trees/...');
     return response.tree.filter((item) => item.type === 'blob');
@@ -192,12 +142,16 @@ const getRepoFiles = (
 const getFileContent = (
   accessToken: string,
   repoFullName: string,
-  filePath: string
+  filePath: string,
+  ref?: string,
+  responseCache?: ResponseCache
 ) =>
   Effect.gen(function* () {
+    const query = ref ? `?ref=${encodeURIComponent(ref)}` : '';
     const response = yield* makeGitHubApiRequest<GitHubFileContentResponse>(
       accessToken,
-      `/repos/${repoFullName}/contents/${filePath}`
+      `/repos/${repoFullName}/contents/${filePath}${query}`,
+      { responseCache }
     );
     yield* assertFields(
       response,
@@ -215,6 +169,8 @@ const updateFileContent = (
     content: string;
     message: string;
     sha?: string;
+    branch?: string;
+    author?: CommitAuthor;
   }
 ) =>
   makeGitHubApiRequest(
@@ -227,6 +183,8 @@ const updateFileContent = (
         message: opts.message,
         content: Buffer.from(opts.content).toString('base64'),
         ...(opts.sha !== undefined && { sha: opts.sha }),
+        ...(opts.branch !== undefined && { branch: opts.branch }),
+        ...(opts.author && { author: opts.author, committer: opts.author }),
       }),
     }
   );
@@ -238,6 +196,7 @@ const deleteFile = (
     filePath: string;
     sha: string;
     message: string;
+    author?: CommitAuthor;
   }
 ) =>
   makeGitHubApiRequest(
@@ -246,7 +205,11 @@ const deleteFile = (
     {
       method: 'DELETE',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ message: opts.message, sha: opts.sha }),
+      body: JSON.stringify({
+        message: opts.message,
+        sha: opts.sha,
+        ...(opts.author && { author: opts.author, committer: opts.author }),
+      }),
     }
   );
 
@@ -258,17 +221,18 @@ const enableGitHubPages = (accessToken: string, repoFullName: string) =>
       body: JSON.stringify({ build_type: 'workflow' }),
     });
 
-    const [owner, repoName] = repoFullName.split('/');
-    return `https://${owner}.github.io/${repoName}`;
+    return pagesUrlFor(repoFullName);
   });
 
 const getFileOrNull = (
   accessToken: string,
   repoFullName: string,
-  filePath: string
+  filePath: string,
+  ref?: string,
+  responseCache?: ResponseCache
 ) =>
-  getFileContent(accessToken, repoFullName, filePath).pipe(
-    Effect.catchAll((error) => {
+  getFileContent(accessToken, repoFullName, filePath, ref, responseCache).pipe(
+    Effect.catchTag('GitProviderError', (error) => {
       if (error.status === 404) {
         return Effect.succeed(null);
       }
@@ -276,8 +240,305 @@ const getFileOrNull = (
     })
   );
 
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+// Reads the workflow and template build files with placeholders filled in.
+// Files missing from the template are skipped rather than failing the batch.
+const buildInlandWorkflowChanges = (
+  accessToken: string,
+  repoFullName: string,
+  templateData: TemplateData,
+  defaultTemplateRepo: string,
+  options?: { overrideExistingFiles?: boolean; template?: TemplateSource }
+) =>
+  Effect.gen(function* () {
+    const overrideExisting = options?.overrideExistingFiles ?? false;
+    const template = options?.template;
+    const templateRepo = template?.repo ?? defaultTemplateRepo;
+    const filesSkipped: string[] = [];
+
+    const filesToInject = [
+      SITE_CONFIG_PATH,
+      '.github/workflows/deploy.yml',
+      ...(template?.files ?? INLAND_BUILD_FILES),
+    ];
+
+    const placeholders = buildTemplatePlaceholders(
+      templateData,
+      template?.placeholders
+    );
+    const changes: FileChange[] = [];
+
+    for (const filePath of filesToInject) {
+      const existingFile = yield* getFileOrNull(
+        accessToken,
+        repoFullName,
+        filePath
+      );
+
+      if (existingFile && !overrideExisting) {
+        yield* Effect.logInfo(`Skipping existing file: ${filePath}`);
+        filesSkipped.push(filePath);
+        continue;
+      }
+
+      const templateFile = yield* getFileOrNull(
+        accessToken,
+        templateRepo,
+        filePath,
+        template?.ref
+      );
+      if (!templateFile) {
+        yield* Effect.logWarning(`${filePath} not found in ${templateRepo}`);
+        continue;
+      }
+
+      const content = replacePlaceholders(
+        Buffer.from(templateFile.content, 'base64').toString('utf-8'),
+        placeholders
+      );
+
+      changes.push({
+        path: filePath,
+        base64Content: Buffer.from(content).toString('base64'),
+      });
+    }
+
+    return { changes, filesSkipped };
+  });
+
+const getDefaultBranch = (accessToken: string, repoFullName: string) =>
+  Effect.gen(function* () {
+    const repoInfo = yield* makeGitHubApiRequest(
+      accessToken,
+      `/repos/${repoFullName}`
+    );
+    const { default_branch: branch } = yield* assertFields<{
+      default_branch: string;
+    }>(repoInfo, ['default_branch'], `GET /repos/${repoFullName}`);
+    return branch;
+  });
+
+// Builds one tree and commit through the Git Data API, then fast-forwards
+// the branch, the default one unless given. The ref update fails if the
+// branch moved meanwhile.
+const commitChangeset = (
+  accessToken: string,
+  repoFullName: string,
+  opts: {
+    message: string;
+    changes: readonly FileChange[];
+    author?: CommitAuthor;
+    branch?: string;
+  }
+) =>
+  Effect.gen(function* () {
+    const branch =
+      opts.branch ?? (yield* getDefaultBranch(accessToken, repoFullName));
+
+    const ref = yield* makeGitHubApiRequest<GitHubRefResponse>(
+      accessToken,
+      `/repos/${repoFullName}/git/ref/heads/${branch}`
+    );
+    yield* assertFields(ref, ['object'], 'GET /repos/.../git/ref/heads/...');
+
+    const baseCommit = yield* makeGitHubApiRequest<GitHubCommitResponse>(
+      accessToken,
+      `/repos/${repoFullName}/git/commits/${ref.object.sha}`
+    );
+    yield* assertFields(
+      baseCommit,
+      ['sha', 'tree'],
+      'GET /repos/.../git/commits/...'
+    );
+
+    // Deleting a path that is not in the tree is rejected, so drop those
+    const deletions = opts.changes.filter((c) => c.base64Content === null);
+    const existingPaths = new Set<string>();
+    if (deletions.length > 0) {
+      const files = yield* getRepoFiles(
+        accessToken,
+        repoFullName,
+        baseCommit.tree.sha
+      );
+      for (const file of files) existingPaths.add(file.path);
+    }
+
+    const entries: GitHubTreeEntry[] = [];
+    const blobShas: Record<string, string> = {};
+
+    for (const change of opts.changes) {
+      if (change.base64Content === null) {
+        if (existingPaths.has(change.path)) {
+          entries.push({
+            path: change.path,
+            mode: '100644',
+            type: 'blob',
+            sha: null,
+          });
+        }
+        continue;
+      }
+
+      const blob = yield* makeGitHubApiRequest<GitHubShaResponse>(
+        accessToken,
+        `/repos/${repoFullName}/git/blobs`,
+        jsonRequest('POST', {
+          content: change.base64Content,
+          encoding: 'base64',
+        })
+      );
+      yield* assertFields(blob, ['sha'], 'POST /repos/.../git/blobs');
+
+      entries.push({
+        path: change.path,
+        mode: '100644',
+        type: 'blob',
+        sha: blob.sha,
+      });
+      blobShas[change.path] = blob.sha;
+    }
+
+    if (entries.length === 0) {
+      return { commitSha: null, blobShas };
+    }
+
+    const tree = yield* makeGitHubApiRequest<GitHubShaResponse>(
+      accessToken,
+      `/repos/${repoFullName}/git/trees`,
+      jsonRequest('POST', { base_tree: baseCommit.tree.sha, tree: entries })
+    );
+    yield* assertFields(tree, ['sha'], 'POST /repos/.../git/trees');
+
+    const commit = yield* makeGitHubApiRequest<GitHubShaResponse>(
+      accessToken,
+      `/repos/${repoFullName}/git/commits`,
+      jsonRequest('POST', {
+        message: opts.message,
+        tree: tree.sha,
+        parents: [baseCommit.sha],
+        ...(opts.author && { author: opts.author, committer: opts.author }),
+      })
+    );
+    yield* assertFields(commit, ['sha'], 'POST /repos/.../git/commits');
+
+    yield* makeGitHubApiRequest(
+      accessToken,
+      `/repos/${repoFullName}/git/refs/heads/${branch}`,
+      jsonRequest('PATCH', { sha: commit.sha, force: false })
+    ).pipe(
+      Effect.catchTag('GitProviderError', (error) =>
+        error.status === 422
+          ? Effect.fail(
+              makeError(
+                `Branch ${branch} was updated by another commit, retry the change`,
+                409
+              )
+            )
+          : Effect.fail(error)
+      )
+    );
+
+    return { commitSha: commit.sha, blobShas };
+  });
+
+const toPullRequest = (response: GitHubPullRequestResponse): PullRequest => ({
+  number: response.number,
+  url: response.html_url,
+  state: response.merged_at
+    ? 'merged'
+    : response.state === 'open'
+      ? 'open'
+      : 'closed',
+});
+
+const toFileCommit = (item: GitHubCommitListItem): FileCommit => ({
+  sha: item.sha,
+  message: item.commit.message,
+  authorName: item.commit.author?.name ?? item.author?.login ?? 'Unknown',
+  authorEmail: item.commit.author?.email ?? null,
+  authorDate: item.commit.author?.date ?? '',
+  url: item.html_url,
+});
+
+const findOpenPullRequest = (
+  accessToken: string,
+  repoFullName: string,
+  branch: string
+) =>
+  Effect.gen(function* () {
+    const [owner] = repoFullName.split('/');
+    const response = yield* makeGitHubApiRequest<GitHubPullRequestResponse[]>(
+      accessToken,
+      `/repos/${repoFullName}/pulls?state=open&head=${encodeURIComponent(`${owner}:${branch}`)}`
+    );
+
+    if (!Array.isArray(response)) {
+      return yield* makeError('Expected array from GET /repos/.../pulls');
+    }
+    return response.length > 0 ? toPullRequest(response[0]) : null;
+  });
+
+const createPullRequest = (
+  accessToken: string,
+  repoFullName: string,
+  opts: { title: string; head: string; base: string }
+) =>
+  Effect.gen(function* () {
+    const response = yield* makeGitHubApiRequest<GitHubPullRequestResponse>(
+      accessToken,
+      `/repos/${repoFullName}/pulls`,
+      jsonRequest('POST', opts)
+    );
+    yield* assertFields(
+      response,
+      ['number', 'html_url', 'state'],
+      'POST /repos/.../pulls'
+    );
+    return toPullRequest(response);
+  });
+
+// Points the branch at the head of the base branch, creating it if needed.
+// Only used when no pull request is open, so nothing under review is lost.
+const resetBranch = (
+  accessToken: string,
+  repoFullName: string,
+  branch: string,
+  baseBranch: string
+) =>
+  Effect.gen(function* () {
+    const base = yield* makeGitHubApiRequest<GitHubRefResponse>(
+      accessToken,
+      `/repos/${repoFullName}/git/ref/heads/${baseBranch}`
+    );
+    yield* assertFields(base, ['object'], 'GET /repos/.../git/ref/heads/...');
+
+    yield* makeGitHubApiRequest(
+      accessToken,
+      `/repos/${repoFullName}/git/refs/heads/${branch}`,
+      jsonRequest('PATCH', { sha: base.object.sha, force: true })
+    ).pipe(
+      Effect.catchTag('GitProviderError', (error) =>
+        error.status === 422
+          ? makeGitHubApiRequest(
+              accessToken,
+              `/repos/${repoFullName}/git/refs`,
+              jsonRequest('POST', {
+                ref: `refs/heads/${branch}`,
+                sha: base.object.sha,
+              })
+            )
+          : Effect.fail(error)
+      )
+    );
+  });
+
 // Composite operations
-const processFileWithPlaceholders = (
+const fillFilePlaceholders = (
   accessToken: string,
   repoFullName: string,
   file: { path: string; sha: string },
@@ -292,25 +553,20 @@ const processFileWithPlaceholders = (
     const content = Buffer.from(fileData.content, 'base64').toString('utf-8');
 
     const updatedContent = replacePlaceholders(content, placeholders);
-    const hasChanges = updatedContent !== content;
-
-    if (hasChanges) {
-      yield* updateFileContent(accessToken, repoFullName, {
-        filePath: file.path,
-        content: updatedContent,
-        message: `Replace template placeholders in ${file.path}`,
-        sha: fileData.sha,
-      });
-    }
+    if (updatedContent === content) return null;
 
-    return hasChanges;
+    return {
+      path: file.path,
+      base64Content: Buffer.from(updatedContent).toString('base64'),
+    } satisfies FileChange;
   });
 
 const replaceTemplatePlaceholders = (
   accessToken: string,
   repoFullName: string,
   defaultBranch: string,
-  templateData: TemplateData
+  templateData: TemplateData,
+  tokens?: TemplatePlaceholders
 ) =>
   Effect.gen(function* () {
     yield* Effect.logInfo(
@@ -327,36 +583,85 @@ const replaceTemplatePlaceholders = (
       Effect.retry(
         Schedule.exponential(REPO_READY_DELAY_MS).pipe(
           Schedule.intersect(Schedule.recurs(MAX_RETRY_ATTEMPTS)),
-          Schedule.whileInput((error: GitProviderError) => {
+          Schedule.whileInput((error: GitProviderError | RateLimitedError) => {
             return (
-              error.status === 409 ||
-              error.status === 422 ||
-              error.message?.includes('Git Repository is empty')
+              error._tag === 'GitProviderError' &&
+              (error.status === 409 ||
+                error.status === 422 ||
+                error.message?.includes('Git Repository is empty'))
             );
           })
         )
       )
     );
 
-    const placeholders = buildTemplatePlaceholders(templateData);
+    const placeholders = buildTemplatePlaceholders(templateData, tokens);
+    const changes: FileChange[] = [];
 
     for (const file of files) {
-      if (shouldProcessFile(file.path)) {
-        yield* processFileWithPlaceholders(
-          accessToken,
-          repoFullName,
-          file,
-          placeholders
-        );
-      }
+      if (!shouldProcessFile(file.path)) continue;
+
+      const change = yield* fillFilePlaceholders(
+        accessToken,
+        repoFullName,
+        file,
+        placeholders
+      );
+      if (change) changes.push(change);
+    }
+
+    if (changes.length > 0) {
+      yield* commitChangeset(accessToken, repoFullName, {
+        message: 'Replace template placeholders',
+        changes,
+      });
     }
 
     return true;
   });
 
+const listArticleFiles = (
+  accessToken: string,
+  repoFullName: string,
+  defaultBranch: string,
+  layout?: ContentLayout,
+  responseCache?: ResponseCache
+) =>
+  getRepoFiles(accessToken, repoFullName, defaultBranch, responseCache).pipe(
+    Effect.map((files) =>
+      files
+        .filter((file) => isArticleFile(file.path, layout))
+        .map((file): GitFile => ({ path: file.path, sha: file.sha }))
+    )
+  );
+
+const readArticleFiles = (
+  accessToken: string,
+  repoFullName: string,
+  defaultBranch: string,
+  files: readonly GitFile[],
+  layout?: ContentLayout,
+  responseCache?: ResponseCache
+) =>
+  parseArticleFiles(files, layout, (file) =>
+    getFileContent(
+      accessToken,
+      repoFullName,
+      file.path,
+      defaultBranch,
+      responseCache
+    ).pipe(
+      Effect.map((fileData) =>
+        Buffer.from(fileData.content, 'base64').toString('utf-8')
+      )
+    )
+  );
+
 // GitHub implementation factory
 export const makeGitHubApiRepository = (config?: {
   templateRepo?: string;
+  // ETag cache for tree and file reads
+  responseCache?: ResponseCache;
 }): GitProviderRepositoryService => ({
   createRepositoryWithPages: (
     accessToken: string,
@@ -364,7 +669,13 @@ export const makeGitHubApiRepository = (config?: {
     templateData?: TemplateData
   ) =>
     Effect.gen(function* () {
-      if (!data.templateOwner || !data.templateRepo) {
+      const [defaultOwner, defaultRepo] = (
+        config?.templateRepo ?? DEFAULT_TEMPLATE_REPO
+      ).split('/');
+      const templateOwner = data.templateOwner || defaultOwner;
+      const templateRepo = data.templateRepo || defaultRepo;
+
+      if (!templateOwner || !templateRepo) {
         return yield* new GitProviderError({
           message:
             'templateOwner and templateRepo are required to create a repository',
@@ -372,8 +683,8 @@ export const makeGitHubApiRepository = (config?: {
       }
 
       const repoData = yield* createRepoFromTemplate(accessToken, {
-        templateOwner: data.templateOwner,
-        templateRepo: data.templateRepo,
+        templateOwner,
+        templateRepo,
         repoName: data.name,
         description: data.description ?? `Blog site: ${data.name}`,
       });
@@ -392,7 +703,8 @@ export const makeGitHubApiRepository = (config?: {
           accessToken,
           gitRepo.fullName,
           gitRepo.defaultBranch,
-          templateData
+          templateData,
+          data.placeholders
         );
       }
 
@@ -400,7 +712,7 @@ export const makeGitHubApiRepository = (config?: {
         accessToken,
         gitRepo.fullName
       ).pipe(
-        Effect.catchAll((error: GitProviderError) =>
+        Effect.catchAll((error: GitProviderError | RateLimitedError) =>
           Effect.gen(function* () {
             yield* Effect.logError(
               `Failed to enable GitHub Pages for ${gitRepo.fullName}`,
@@ -428,11 +740,11 @@ export const makeGitHubApiRepository = (config?: {
   deleteArticleFromRepo: (
     accessToken: string,
     repoFullName: string,
-    articleSlug: string
+    articleSlug: string,
+    filePath = articleFilePath(articleSlug),
+    commitOptions?: CommitOptions
   ) =>
     Effect.gen(function* () {
-      const filePath = articleFilePath(articleSlug);
-
       const currentFile = yield* getFileOrNull(
         accessToken,
         repoFullName,
@@ -446,97 +758,265 @@ export const makeGitHubApiRepository = (config?: {
       yield* deleteFile(accessToken, repoFullName, {
         filePath,
         sha: currentFile.sha,
-        message: `Delete article: ${articleSlug}`,
+        message: commitOptions?.message ?? `Delete article: ${articleSlug}`,
+        author: commitOptions?.author,
       });
 
       return { deleted: true, filePath };
     }),
 
+  proposeArticleChange: (
+    accessToken: string,
+    repoFullName: string,
+    articleSlug: string,
+    markdownContent: string,
+    opts: {
+      branch: string;
+      title: string;
+      filePath?: string;
+      commit?: CommitOptions;
+      changes?: readonly FileChange[];
+    }
+  ) =>
+    Effect.gen(function* () {
+      const filePath = opts.filePath ?? articleFilePath(articleSlug);
+      const baseBranch = yield* getDefaultBranch(accessToken, repoFullName);
+
+      const openPullRequest = yield* findOpenPullRequest(
+        accessToken,
+        repoFullName,
+        opts.branch
+      );
+      if (!openPullRequest) {
+        yield* resetBranch(accessToken, repoFullName, opts.branch, baseBranch);
+      }
+
+      // Other changes go in the same commit, built through the Git Data API
+      const written =
+        opts.changes && opts.changes.length > 0
+          ? yield* commitChangeset(accessToken, repoFullName, {
+              branch: opts.branch,
+              message: opts.commit?.message ?? `Update article: ${articleSlug}`,
+              author: opts.commit?.author,
+              changes: [
+                ...opts.changes,
+                {
+                  path: filePath,
+                  base64Content:
+                    Buffer.from(markdownContent).toString('base64'),
+                },
+              ],
+            }).pipe(
+              Effect.map((changeset) => ({
+                commitSha: changeset.commitSha ?? '',
+                blobSha: changeset.blobShas[filePath],
+              }))
+            )
+          : yield* Effect.gen(function* () {
+              const existingFile = yield* getFileOrNull(
+                accessToken,
+                repoFullName,
+                filePath,
+                opts.branch
+              );
+              const sha = existingFile ? existingFile.sha : undefined;
+
+              const response = yield* updateFileContent(
+                accessToken,
+                repoFullName,
+                {
+                  filePath,
+                  content: markdownContent,
+                  message:
+                    opts.commit?.message ??
+                    `${sha ? 'Update' : 'Add'} article: ${articleSlug}`,
+                  sha,
+                  branch: opts.branch,
+                  author: opts.commit?.author,
+                }
+              );
+              const validated = yield* assertFields<{
+                commit: unknown;
+                content: unknown;
+              }>(
+                response,
+                ['commit', 'content'],
+                `PUT /repos/.../contents/${filePath}`
+              );
+              const commit = yield* assertFields<{ sha: string }>(
+                validated.commit,
+                ['sha'],
+                `PUT /repos/.../contents/${filePath} → commit`
+              );
+              const contentInfo = yield* assertFields<{ sha: string }>(
+                validated.content,
+                ['sha'],
+                `PUT /repos/.../contents/${filePath} → content`
+              );
+              return { commitSha: commit.sha, blobSha: contentInfo.sha };
+            });
+
+      const pullRequest =
+        openPullRequest ??
+        (yield* createPullRequest(accessToken, repoFullName, {
+          title: opts.title,
+          head: opts.branch,
+          base: baseBranch,
+        }));
+
+      return {
+        filePath,
+        commitSha: written.commitSha,
+        blobSha: written.blobSha,
+        pullRequest,
+      };
+    }),
+
+  getPullRequest: (
+    accessToken: string,
+    repoFullName: string,
+    pullRequestNumber: number
+  ) =>
+    Effect.gen(function* () {
+      const response = yield* makeGitHubApiRequest<GitHubPullRequestResponse>(
+        accessToken,
+        `/repos/${repoFullName}/pulls/${pullRequestNumber}`
+      );
+      yield* assertFields(
+        response,
+        ['number', 'html_url', 'state'],
+        'GET /repos/.../pulls/...'
+      );
+      return toPullRequest(response);
+    }),
+
   getArticleFileSha: (
     accessToken: string,
     repoFullName: string,
-    articleSlug: string
+    articleSlug: string,
+    filePath = articleFilePath(articleSlug)
   ) =>
     Effect.gen(function* () {
-      const filePath = articleFilePath(articleSlug);
       const file = yield* getFileOrNull(accessToken, repoFullName, filePath);
       return file ? file.sha : null;
     }),
 
+  listFileCommits: (
+    accessToken: string,
+    repoFullName: string,
+    filePath: string
+  ) =>
+    makeGitHubApiRequest<GitHubCommitListItem[]>(
+      accessToken,
+      `/repos/${repoFullName}/commits?path=${encodeURIComponent(filePath)}&per_page=${FILE_HISTORY_LIMIT}`
+    ).pipe(Effect.map((commits) => commits.map(toFileCommit))),
+
+  getFileAtRef: (
+    accessToken: string,
+    repoFullName: string,
+    filePath: string,
+    ref: string
+  ) =>
+    getFileOrNull(accessToken, repoFullName, filePath, ref).pipe(
+      Effect.map((file) =>
+        file ? Buffer.from(file.content, 'base64').toString('utf-8') : null
+      )
+    ),
+
+  getBlobContent: (
+    accessToken: string,
+    repoFullName: string,
+    blobSha: string
+  ) =>
+    Effect.gen(function* () {
+      const response = yield* makeGitHubApiRequest<GitHubBlobResponse>(
+        accessToken,
+        `/repos/${repoFullName}/git/blobs/${blobSha}`
+      );
+      yield* assertFields(
+        response,
+        ['content', 'encoding'],
+        'GET /repos/.../git/blobs/...'
+      );
+      return decodeBlob(response);
+    }).pipe(
+      Effect.catchTag('GitProviderError', (error) =>
+        error.status === 404 ? Effect.succeed(null) : Effect.fail(error)
+      )
+    ),
+
   getMarkdownFilesFromRepo: (
     accessToken: string,
     repoFullName: string,
-    defaultBranch: string
+    defaultBranch: string,
+    layout?: ContentLayout
   ) =>
     Effect.gen(function* () {
       yield* Effect.logInfo(`Fetching markdown files from ${repoFullName}`);
 
-      const files = yield* getRepoFiles(
+      const files = yield* listArticleFiles(
         accessToken,
         repoFullName,
-        defaultBranch
+        defaultBranch,
+        layout,
+        config?.responseCache
       );
-      const markdownFiles = files.filter(
-        (file) => file.path.startsWith('content/') && file.path.endsWith('.md')
+      return yield* readArticleFiles(
+        accessToken,
+        repoFullName,
+        defaultBranch,
+        files,
+        layout,
+        config?.responseCache
       );
+    }),
 
-      const articles: ImportedArticle[] = [];
-
-      for (const file of markdownFiles) {
-        yield* Effect.gen(function* () {
-          const fileData = yield* getFileContent(
-            accessToken,
-            repoFullName,
-            file.path
-          );
-          const content = Buffer.from(fileData.content, 'base64').toString(
-            'utf-8'
-          );
-
-          const article = parseMarkdownContent(content, file.path);
-          if (article) {
-            articles.push({ ...article, gitSha: file.sha });
-          }
-        }).pipe(
-          Effect.catchAll((error) =>
-            Effect.logError(`Failed to fetch ${file.path}:`, {
-              error,
-            })
-          )
-        );
-      }
+  listArticleFiles: (
+    accessToken: string,
+    repoFullName: string,
+    defaultBranch: string,
+    layout?: ContentLayout
+  ) =>
+    listArticleFiles(
+      accessToken,
+      repoFullName,
+      defaultBranch,
+      layout,
+      config?.responseCache
+    ),
 
-      return articles;
-    }),
+  readArticleFiles: (
+    accessToken: string,
+    repoFullName: string,
+    defaultBranch: string,
+    files: readonly GitFile[],
+    layout?: ContentLayout
+  ) =>
+    readArticleFiles(
+      accessToken,
+      repoFullName,
+      defaultBranch,
+      files,
+      layout,
+      config?.responseCache
+    ),
 
   getMediaFilesFromRepo: (
     accessToken: string,
     repoFullName: string,
-    defaultBranch: string
+    defaultBranch: string,
+    layout?: ContentLayout
   ) =>
     Effect.gen(function* () {
       const files = yield* getRepoFiles(
         accessToken,
         repoFullName,
-        defaultBranch
+        defaultBranch,
+        config?.responseCache
       );
 
-      const imageExtensions = [
-        '.jpg',
-        '.jpeg',
-        '.png',
-        '.gif',
-        '.webp',
-        '.svg',
-        '.avif',
-      ];
-
       return files
-        .filter(
-          (file) =>
-            file.path.startsWith('assets/images/') &&
-            imageExtensions.some((ext) => file.path.toLowerCase().endsWith(ext))
-        )
+        .filter((file) => isMediaFile(file.path, layout))
         .map(
           (file): ImportedMedia => ({
             filePath: file.path,
@@ -551,11 +1031,11 @@ export const makeGitHubApiRepository = (config?: {
     accessToken: string,
     repoFullName: string,
     articleSlug: string,
-    markdownContent: string
+    markdownContent: string,
+    filePath = articleFilePath(articleSlug),
+    commitOptions?: CommitOptions
   ) =>
     Effect.gen(function* () {
-      const filePath = articleFilePath(articleSlug);
-
       const existingFile = yield* getFileOrNull(
         accessToken,
         repoFullName,
@@ -563,13 +1043,16 @@ export const makeGitHubApiRepository = (config?: {
       );
 
       const sha = existingFile ? existingFile.sha : undefined;
-      const message = `${sha ? 'Update' : 'Add'} article: ${articleSlug}`;
+      const message =
+        commitOptions?.message ??
+        `${sha ? 'Update' : 'Add'} article: ${articleSlug}`;
 
       const response = yield* updateFileContent(accessToken, repoFullName, {
         filePath,
         content: markdownContent,
         message,
         sha,
+        author: commitOptions?.author,
       });
       const validated = yield* assertFields<{
         commit: unknown;
@@ -617,6 +1100,34 @@ export const makeGitHubApiRepository = (config?: {
       };
     }),
 
+  getCommitDeployRun: (
+    accessToken: string,
+    repoFullName: string,
+    commitSha: string
+  ) =>
+    Effect.gen(function* () {
+      const runs = yield* makeGitHubApiRequest<GitHubWorkflowRunsResponse>(
+        accessToken,
+        `/repos/${repoFullName}/actions/runs?head_sha=${commitSha}&per_page=20`
+      );
+      yield* assertFields(
+        runs,
+        ['workflow_runs'],
+        'GET /repos/.../actions/runs'
+      );
+      return toDeployRun(runs, '.github/workflows/deploy.yml');
+    }),
+
+  getBranchHead: (accessToken: string, repoFullName: string, branch: string) =>
+    Effect.gen(function* () {
+      const ref = yield* makeGitHubApiRequest<GitHubRefResponse>(
+        accessToken,
+        `/repos/${repoFullName}/git/ref/heads/${branch}`
+      );
+      yield* assertFields(ref, ['object'], 'GET /repos/.../git/ref/heads/...');
+      return ref.object.sha;
+    }),
+
   checkPagesStatus: (accessToken: string, repoFullName: string) =>
     Effect.gen(function* () {
       yield* Effect.logInfo(`Checking Pages status for ${repoFullName}`);
@@ -647,86 +1158,45 @@ export const makeGitHubApiRepository = (config?: {
       };
     }),
 
+  buildInlandWorkflowChanges: (
+    accessToken: string,
+    repoFullName: string,
+    templateData: TemplateData,
+    options?: { overrideExistingFiles?: boolean; template?: TemplateSource }
+  ) =>
+    buildInlandWorkflowChanges(
+      accessToken,
+      repoFullName,
+      templateData,
+      config?.templateRepo ?? DEFAULT_TEMPLATE_REPO,
+      options
+    ),
+
   injectInlandWorkflow: (
     accessToken: string,
     repoFullName: string,
     templateData: TemplateData,
-    options?: { overrideExistingFiles?: boolean }
+    options?: { overrideExistingFiles?: boolean; template?: TemplateSource }
   ) =>
     Effect.gen(function* () {
       yield* Effect.logInfo(`Injecting Inland workflow into ${repoFullName}`);
 
-      const overrideExisting = options?.overrideExistingFiles ?? false;
-      const templateRepo =
-        config?.templateRepo ?? 'Saul-Mirone/inland-template-basic';
-      const filesCreated: string[] = [];
-      const filesSkipped: string[] = [];
-
-      const filesToInject = [
-        'inland.config.json',
-        '.github/workflows/deploy.yml',
-        'build/index.js',
-        'build/milkdown-compiler.js',
-        'build/template-engine.js',
-        'build/utils.js',
-        'templates/index.html',
-        'templates/article.html',
-        'templates/layout.html',
-        'assets/styles.css',
-        'assets/script.js',
-      ] as const;
-
-      const placeholders = buildTemplatePlaceholders(templateData);
-
-      for (const filePath of filesToInject) {
-        const injectFileEffect = Effect.gen(function* () {
-          const existingFile = yield* getFileOrNull(
-            accessToken,
-            repoFullName,
-            filePath
-          );
-
-          if (existingFile && !overrideExisting) {
-            yield* Effect.logInfo(`Skipping existing file: ${filePath}`);
-            filesSkipped.push(filePath);
-            return { skipped: true };
-          }
-
-          const templateFile = yield* getFileContent(
-            accessToken,
-            templateRepo,
-            filePath
-          );
-
-          const content = replacePlaceholders(
-            Buffer.from(templateFile.content, 'base64').toString('utf-8'),
-            placeholders
-          );
-
-          const sha = existingFile ? existingFile.sha : undefined;
-
-          yield* updateFileContent(accessToken, repoFullName, {
-            filePath,
-            content,
-            message: `Add Inland CMS workflow: ${filePath}`,
-            sha,
-          });
+      const { changes, filesSkipped } = yield* buildInlandWorkflowChanges(
+        accessToken,
+        repoFullName,
+        templateData,
+        config?.templateRepo ?? DEFAULT_TEMPLATE_REPO,
+        options
+      );
+      const filesCreated = changes.map((change) => change.path);
 
-          filesCreated.push(filePath);
-          yield* Effect.logInfo(`Injected file: ${filePath}`);
-          return { skipped: false };
+      // All files land in one commit, so Pages deploys once
+      if (changes.length > 0) {
+        yield* commitChangeset(accessToken, repoFullName, {
+          message: 'Add Inland CMS workflow',
+          changes,
         });
-
-        yield* injectFileEffect.pipe(
-          Effect.catchAll((error) =>
-            Effect.gen(function* () {
-              yield* Effect.logError(`Failed to inject ${filePath}:`, {
-                error,
-              });
-              return { skipped: false, failed: true };
-            })
-          )
-        );
+        yield* Effect.logInfo(`Injected files: ${filesCreated.join(', ')}`);
       }
 
       return {
@@ -739,6 +1209,35 @@ export const makeGitHubApiRepository = (config?: {
   enablePages: (accessToken: string, repoFullName: string) =>
     enableGitHubPages(accessToken, repoFullName),
 
+  setPagesDomain: (
+    accessToken: string,
+    repoFullName: string,
+    domain: string | null
+  ) =>
+    Effect.gen(function* () {
+      yield* makeGitHubApiRequest(
+        accessToken,
+        `/repos/${repoFullName}/pages`,
+        jsonRequest('PUT', { cname: domain })
+      );
+      if (!domain) return pagesUrlFor(repoFullName);
+
+      // HTTPS can only be enforced once GitHub has issued the domain's
+      // certificate, which may take a while after DNS resolves
+      yield* makeGitHubApiRequest(
+        accessToken,
+        `/repos/${repoFullName}/pages`,
+        jsonRequest('PUT', { cname: domain, https_enforced: true })
+      ).pipe(
+        Effect.catchTag('GitProviderError', (error) =>
+          Effect.logWarning(
+            `Could not enforce HTTPS for ${domain} yet: ${error.message}`
+          )
+        )
+      );
+      return `https://${domain}`;
+    }),
+
   uploadFileToRepo: (
     accessToken: string,
     repoFullName: string,
@@ -821,10 +1320,12 @@ export const makeGitHubApiRepository = (config?: {
       return { deleted: true };
     }),
 
+  commitChangeset,
+
   checkRepoExists: (accessToken: string, repoFullName: string) =>
     makeGitHubApiRequest(accessToken, `/repos/${repoFullName}`).pipe(
       Effect.map(() => true),
-      Effect.catchAll((error) => {
+      Effect.catchTag('GitProviderError', (error) => {
         if (error.status === 404) {
           return Effect.succeed(false);
         }
@@ -838,7 +1339,7 @@ export const makeGitHubApiRepository = (config?: {
     siteConfig: SiteConfig
   ) =>
     Effect.gen(function* () {
-      const filePath = 'inland.config.json';
+      const filePath = SITE_CONFIG_PATH;
       const content = JSON.stringify(siteConfig, null, 2) + '\n';
 
       const existingFile = yield* getFileOrNull(
@@ -872,7 +1373,7 @@ export const makeGitHubApiRepository = (config?: {
       const file = yield* getFileOrNull(
         accessToken,
         repoFullName,
-        'inland.config.json'
+        SITE_CONFIG_PATH
       );
       if (!file) return null;
 
@@ -884,7 +1385,7 @@ export const makeGitHubApiRepository = (config?: {
         author: string;
         avatarUrl: string;
         authorUrl: string;
-      }>(JSON.parse(decoded), ['name'], 'inland.config.json');
+      }>(JSON.parse(decoded), ['name'], SITE_CONFIG_PATH);
       return {
         name: parsed.name,
         description: parsed.description,
@@ -894,4 +1395,61 @@ export const makeGitHubApiRepository = (config?: {
         authorUrl: parsed.authorUrl,
       } satisfies SiteConfig;
     }).pipe(Effect.catchAll(() => Effect.succeed(null))),
+
+  getRawFileUrl: (repoFullName: string, ref: string, filePath: string) =>
+    `https://raw.githubusercontent.com/${repoFullName}/${ref}/${filePath}`,
+
+  getPublicUrls: (repoFullName: string, user: { username: string }) => ({
+    pagesUrl: pagesUrlFor(repoFullName),
+    avatarUrl: `https://github.com/${user.username}.png`,
+    authorUrl: `https://github.com/${user.username}`,
+  }),
+
+  registerPushWebhook: (
+    accessToken: string,
+    repoFullName: string,
+    opts: { url: string; secret: string }
+  ) =>
+    Effect.gen(function* () {
+      const hooks = yield* makeGitHubApiRequest<GitHubHookResponse[]>(
+        accessToken,
+        `/repos/${repoFullName}/hooks`
+      );
+      const existing = hooks.find((hook) => hook.config.url === opts.url);
+      const body = JSON.stringify({
+        name: 'web',
+        active: true,
+        events: ['push'],
+        config: { url: opts.url, content_type: 'json', secret: opts.secret },
+      });
+
+      yield* makeGitHubApiRequest(
+        accessToken,
+        existing
+          ? `/repos/${repoFullName}/hooks/${existing.id}`
+          : `/repos/${repoFullName}/hooks`,
+        {
+          method: existing ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body,
+        }
+      );
+    }),
+
+  parsePushEvent: (headers: WebhookHeaders, payload: unknown) =>
+    headerValue(headers, 'X-GitHub-Event') === 'push'
+      ? parseGitHubPushPayload(payload)
+      : null,
+
+  verifyWebhookSignature: (
+    headers: WebhookHeaders,
+    rawBody: Buffer,
+    secret: string
+  ) =>
+    verifyHmacSignature(
+      headerValue(headers, 'X-Hub-Signature-256'),
+      rawBody,
+      secret,
+      'sha256='
+    ),
 });
@@ -0,0 +1,128 @@
+import { Effect, Layer } from 'effect';
+import jwt from 'jsonwebtoken';
+
+import { ConfigService } from '../../services/config-service';
+import {
+  GitHubAppError,
+  GitHubAppRepository,
+  type GitHubAppRepositoryService,
+} from '../github-app-repository';
+import {
+  assertFields,
+  githubFetch,
+  type GitHubInstallationTokenResponse,
+  type GitHubUserInstallationsResponse,
+} from './github-utils';
+
+export interface GitHubAppConfig {
+  readonly appId: string;
+  readonly slug: string;
+  readonly privateKey: string;
+}
+
+// Everything Inland does to a site repository, and nothing else
+export const INSTALLATION_TOKEN_PERMISSIONS = {
+  contents: 'write',
+  metadata: 'read',
+  pages: 'write',
+  pull_requests: 'write',
+  repository_hooks: 'write',
+  workflows: 'write',
+} as const;
+
+const makeError = (message: string, status?: number) =>
+  new GitHubAppError({ message, status });
+
+const makeGitHubAppRequest = <T>(
+  token: string,
+  endpoint: string,
+  options?: RequestInit
+) =>
+  githubFetch<GitHubAppError, T>(token, endpoint, makeError, options).pipe(
+    Effect.catchTag('RateLimitedError', (error) =>
+      Effect.fail(makeError(error.message, 429))
+    )
+  );
+
+// App JWTs live at most ten minutes; backdating covers clock drift
+const signAppJwt = (config: GitHubAppConfig) =>
+  Effect.try({
+    try: () => {
+      const now = Math.floor(Date.now() / 1000);
+      return jwt.sign(
+        { iat: now - 60, exp: now + 9 * 60, iss: config.appId },
+        config.privateKey,
+        { algorithm: 'RS256' }
+      );
+    },
+    catch: (error) =>
+      makeError(
+        error instanceof Error ? error.message : 'Failed to sign app JWT'
+      ),
+  });
+
+export const makeGitHubAppRepository = (
+  config: GitHubAppConfig
+): GitHubAppRepositoryService => ({
+  enabled: config.appId !== '' && config.privateKey !== '',
+
+  installUrl: `https://github.com/apps/${config.slug}/installations/new`,
+
+  listUserInstallationIds: (userAccessToken) =>
+    Effect.gen(function* () {
+      const response =
+        yield* makeGitHubAppRequest<GitHubUserInstallationsResponse>(
+          userAccessToken,
+          '/user/installations?per_page=100'
+        );
+      yield* assertFields(
+        response,
+        ['installations'],
+        'GET /user/installations',
+        makeError
+      );
+      return response.installations.map((installation) =>
+        installation.id.toString()
+      );
+    }),
+
+  createInstallationToken: (installationId, repoFullName) =>
+    Effect.gen(function* () {
+      const appJwt = yield* signAppJwt(config);
+      const repoName = repoFullName.split('/').at(-1) ?? repoFullName;
+      const response =
+        yield* makeGitHubAppRequest<GitHubInstallationTokenResponse>(
+          appJwt,
+          `/app/installations/${installationId}/access_tokens`,
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              repositories: [repoName],
+              permissions: INSTALLATION_TOKEN_PERMISSIONS,
+            }),
+          }
+        );
+      yield* assertFields(
+        response,
+        ['token', 'expires_at'],
+        'POST /app/installations/.../access_tokens',
+        makeError
+      );
+      return {
+        token: response.token,
+        expiresAt: new Date(response.expires_at),
+      };
+    }),
+});
+
+export const GitHubAppRepositoryLive = Layer.effect(
+  GitHubAppRepository,
+  Effect.map(ConfigService, (config) =>
+    makeGitHubAppRepository({
+      appId: config.githubAppId,
+      slug: config.githubAppSlug,
+      privateKey: config.githubAppPrivateKey,
+    })
+  )
+);
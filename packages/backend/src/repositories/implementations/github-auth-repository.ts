@@ -16,8 +16,13 @@ import {
 const makeError = (message: string, status?: number) =>
   new AuthProviderAPIError({ message, status });
 
+// Auth callers only need to know the request failed
 const makeGitHubApiRequest = <T>(accessToken: string, endpoint: string) =>
-  githubFetch<AuthProviderAPIError, T>(accessToken, endpoint, makeError);
+  githubFetch<AuthProviderAPIError, T>(accessToken, endpoint, makeError).pipe(
+    Effect.catchTag('RateLimitedError', (error) =>
+      Effect.fail(makeError(error.message, 429))
+    )
+  );
 
 const assertGitHubUser = (
   data: unknown
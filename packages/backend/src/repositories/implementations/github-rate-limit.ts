@@ -0,0 +1,133 @@
+import { Duration, Effect } from 'effect';
+import { createHash } from 'node:crypto';
+
+import { RateLimitedError } from '../git-provider-repository';
+
+// Longest pause worth holding a request open for; longer limits fail fast
+export const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+const MAX_RATE_LIMIT_RETRIES = 3;
+// GitHub asks for at least a minute between retries of a secondary limit
+// when it doesn't say how long
+const SECONDARY_RATE_LIMIT_WAIT_MS = 60_000;
+const MAX_TRACKED_BUDGETS = 1000;
+
+interface RateLimitBudget {
+  readonly remaining: number;
+  readonly resetAt: number;
+}
+
+// What each token has left, as reported by the last response it got.
+// Kept per process, which is enough to stop a burst from running dry
+const budgets = new Map<string, RateLimitBudget>();
+
+export const tokenKey = (accessToken: string, baseUrl: string) =>
+  createHash('sha256').update(`${baseUrl}:${accessToken}`).digest('hex');
+
+const pruneBudgets = (now: number) => {
+  for (const [key, budget] of budgets) {
+    if (budget.resetAt <= now) budgets.delete(key);
+  }
+};
+
+// Missing and malformed headers read as null rather than 0
+const numericHeader = (headers: Headers, name: string): number | null => {
+  const value = headers.get(name);
+  return value !== null && Number.isFinite(Number(value))
+    ? Number(value)
+    : null;
+};
+
+const recordBudget = (key: string, headers: Headers) => {
+  const remaining = numericHeader(headers, 'x-ratelimit-remaining');
+  const reset = numericHeader(headers, 'x-ratelimit-reset');
+  if (remaining === null || reset === null) return;
+  if (budgets.size >= MAX_TRACKED_BUDGETS) pruneBudgets(Date.now());
+  budgets.set(key, { remaining, resetAt: reset * 1000 });
+};
+
+// How long until an exhausted token may be used again, or 0 when it has
+// requests left
+const budgetWait = (key: string, now: number): number => {
+  const budget = budgets.get(key);
+  if (!budget || budget.remaining > 0) return 0;
+  if (budget.resetAt <= now) {
+    budgets.delete(key);
+    return 0;
+  }
+  return budget.resetAt - now;
+};
+
+// How long a refused request asks us to wait, or null when the response
+// isn't a rate limit at all. Primary limits answer 403 or 429 with no
+// requests remaining; secondary limits say so in the body
+const rateLimitWait = (response: Response, now: number) =>
+  Effect.gen(function* () {
+    if (response.status !== 403 && response.status !== 429) return null;
+
+    const retryAfter = numericHeader(response.headers, 'retry-after');
+    if (retryAfter !== null) return retryAfter * 1000;
+
+    const reset = numericHeader(response.headers, 'x-ratelimit-reset');
+    if (
+      numericHeader(response.headers, 'x-ratelimit-remaining') === 0 &&
+      reset !== null
+    ) {
+      return Math.max(reset * 1000 - now, 0);
+    }
+
+    if (response.status === 429) return SECONDARY_RATE_LIMIT_WAIT_MS;
+
+    const body = yield* Effect.promise(() =>
+      response
+        .clone()
+        .text()
+        .catch(() => '')
+    );
+    return /rate limit/i.test(body) ? SECONDARY_RATE_LIMIT_WAIT_MS : null;
+  });
+
+const rateLimited = (platform: string, resetAt: number) =>
+  new RateLimitedError({
+    message: `${platform} API rate limit exceeded`,
+    platform,
+    resetAt: new Date(resetAt),
+  });
+
+// Sends a request on behalf of a token, pausing while its budget is spent
+// and retrying responses that ask to back off. Waits too long to sit out
+// fail with RateLimitedError so callers can tell the user when to retry
+export const sendWithRateLimit = <E>(
+  key: string,
+  platform: string,
+  send: () => Effect.Effect<Response, E>
+): Effect.Effect<Response, E | RateLimitedError> =>
+  Effect.gen(function* () {
+    for (let attempt = 0; ; attempt++) {
+      const sentAt = Date.now();
+      const budgetWaitMs = budgetWait(key, sentAt);
+      if (budgetWaitMs > MAX_RATE_LIMIT_WAIT_MS) {
+        return yield* rateLimited(platform, sentAt + budgetWaitMs);
+      }
+      if (budgetWaitMs > 0) {
+        yield* Effect.sleep(Duration.millis(budgetWaitMs));
+      }
+
+      const response = yield* send();
+      recordBudget(key, response.headers);
+
+      const receivedAt = Date.now();
+      const waitMs = yield* rateLimitWait(response, receivedAt);
+      if (waitMs === null) return response;
+
+      if (
+        attempt >= MAX_RATE_LIMIT_RETRIES ||
+        waitMs > MAX_RATE_LIMIT_WAIT_MS
+      ) {
+        return yield* rateLimited(platform, receivedAt + waitMs);
+      }
+      yield* Effect.logWarning(
+        `${platform} rate limit hit, retrying in ${Math.ceil(waitMs / 1000)}s`
+      );
+      yield* Effect.sleep(Duration.millis(waitMs));
+    }
+  });
@@ -1,34 +1,111 @@
 import { Effect } from 'effect';
 
-import type { TemplateData } from '../git-provider-repository';
+import type {
+  DeployRun,
+  RateLimitedError,
+  TemplateData,
+  TemplatePlaceholders,
+} from '../git-provider-repository';
+
+import { sendWithRateLimit, tokenKey } from './github-rate-limit';
 
 interface TaggedError {
   readonly _tag: string;
 }
 
+// Where a GitHub-compatible REST API lives. Gitea and Forgejo serve the
+// same API shape from their own host under /api/v1.
+export interface GitHubApiTarget {
+  readonly baseUrl: string;
+  readonly name: string;
+}
+
+export const GITHUB_API: GitHubApiTarget = {
+  baseUrl: 'https://api.github.com',
+  name: 'GitHub',
+};
+
+// Remembers ETags and the bodies they validate, so a repeated read can be
+// answered by 304 Not Modified, which GitHub doesn't count against the
+// rate limit
+export interface ResponseCache {
+  readonly get: (key: string) => Effect.Effect<string | null>;
+  readonly set: (key: string, value: string) => Effect.Effect<void>;
+}
+
+export type GitHubRequestOptions = RequestInit & {
+  // Only pass for GET requests whose body is worth keeping
+  readonly responseCache?: ResponseCache;
+};
+
+interface CachedResponse {
+  readonly etag: string;
+  readonly body: unknown;
+}
+
+const RESPONSE_CACHE_PREFIX = 'git:etag:';
+
+const readCachedResponse = (cache: ResponseCache, key: string) =>
+  cache.get(key).pipe(
+    Effect.map((value): CachedResponse | null => {
+      if (!value) return null;
+      try {
+        const parsed: unknown = JSON.parse(value);
+        return typeof parsed === 'object' &&
+          parsed !== null &&
+          'etag' in parsed &&
+          typeof parsed.etag === 'string' &&
+          'body' in parsed
+          ? { etag: parsed.etag, body: parsed.body }
+          : null;
+      } catch {
+        return null;
+      }
+    })
+  );
+
 // Shared GitHub API request helper, parameterized over error type
 export const githubFetch = <E extends TaggedError, T = unknown>(
   accessToken: string,
   endpoint: string,
   makeError: (message: string, status?: number) => E,
-  options: RequestInit = {}
-): Effect.Effect<T, E> =>
+  options: GitHubRequestOptions = {},
+  api: GitHubApiTarget = GITHUB_API
+): Effect.Effect<T, E | RateLimitedError> =>
   Effect.gen(function* () {
-    const response = yield* Effect.tryPromise({
-      try: () =>
-        fetch(`https://api.github.com${endpoint}`, {
-          ...options,
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            Accept: 'application/vnd.github.v3+json',
-            'User-Agent': 'Inland-CMS/1.0',
-            // oxlint-disable-next-line typescript/no-misused-spread
-            ...options.headers,
-          },
-        }),
-      catch: (error) =>
-        makeError(error instanceof Error ? error.message : 'Network error'),
-    });
+    const { responseCache, ...init } = options;
+    const budgetKey = tokenKey(accessToken, api.baseUrl);
+    // Shared by every token, since installation tokens rotate hourly. The
+    // request still carries the caller's token, so a token without access
+    // gets an error rather than another token's cached body
+    const cacheKey = `${RESPONSE_CACHE_PREFIX}${api.baseUrl}${endpoint}`;
+    const cached = responseCache
+      ? yield* readCachedResponse(responseCache, cacheKey)
+      : null;
+
+    const response = yield* sendWithRateLimit(budgetKey, api.name, () =>
+      Effect.tryPromise({
+        try: () =>
+          fetch(`${api.baseUrl}${endpoint}`, {
+            ...init,
+            headers: {
+              Authorization: `Bearer ${accessToken}`,
+              Accept: 'application/vnd.github.v3+json',
+              'User-Agent': 'Inland-CMS/1.0',
+              ...(cached && { 'If-None-Match': cached.etag }),
+              // oxlint-disable-next-line typescript/no-misused-spread
+              ...init.headers,
+            },
+          }),
+        catch: (error) =>
+          makeError(error instanceof Error ? error.message : 'Network error'),
+      })
+    );
+
+    if (cached && response.status === 304) {
+      // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+      return cached.body as T;
+    }
 
     if (!response.ok) {
       const errorText = yield* Effect.tryPromise({
@@ -41,11 +118,17 @@ export const githubFetch = <E extends TaggedError, T = unknown>(
           ),
       });
       return yield* Effect.fail(
-        makeError(`GitHub API error: ${errorText}`, response.status)
+        makeError(`${api.name} API error: ${errorText}`, response.status)
       );
     }
 
-    const json = yield* Effect.tryPromise({
+    // Updates such as PUT /repos/.../pages answer with an empty body
+    if (response.status === 204) {
+      // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+      return undefined as T;
+    }
+
+    const json: unknown = yield* Effect.tryPromise({
       try: () => response.json(),
       catch: (error) =>
         makeError(
@@ -55,6 +138,14 @@ export const githubFetch = <E extends TaggedError, T = unknown>(
         ),
     });
 
+    const etag = response.headers.get('etag');
+    if (responseCache && etag) {
+      yield* responseCache.set(
+        cacheKey,
+        JSON.stringify({ etag, body: json } satisfies CachedResponse)
+      );
+    }
+
     // oxlint-disable-next-line typescript/no-unsafe-type-assertion
     return json as T;
   });
@@ -88,27 +179,63 @@ export const assertFields = <
 };
 
 // Shared placeholder building and replacement
+export const DEFAULT_TEMPLATE_PLACEHOLDERS: TemplatePlaceholders = {
+  '{{SITE_NAME}}': 'siteName',
+  '{{SITE_DESCRIPTION}}': 'siteDescription',
+  '{{SITE_NAME_SLUG}}': 'siteNameSlug',
+  '{{SITE_AUTHOR}}': 'siteAuthor',
+  '{{GITHUB_USERNAME}}': 'platformUsername',
+};
+
 export const buildTemplatePlaceholders = (
-  templateData: TemplateData
-): Record<string, string> => ({
-  '{{SITE_NAME}}': templateData.siteName,
-  '{{SITE_DESCRIPTION}}': templateData.siteDescription,
-  '{{SITE_NAME_SLUG}}': templateData.siteNameSlug,
-  '{{SITE_AUTHOR}}': templateData.siteAuthor,
-  '{{GITHUB_USERNAME}}': templateData.platformUsername,
-});
+  templateData: TemplateData,
+  tokens: TemplatePlaceholders = DEFAULT_TEMPLATE_PLACEHOLDERS
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(tokens).map(([token, key]) => [token, templateData[key]])
+  );
 
+// Tokens are replaced literally, since templates may pick any characters
 export const replacePlaceholders = (
   content: string,
   placeholders: Record<string, string>
 ): string => {
   let result = content;
   for (const [placeholder, value] of Object.entries(placeholders)) {
-    result = result.replace(new RegExp(placeholder, 'g'), value);
+    result = result.replaceAll(placeholder, () => value);
   }
   return result;
 };
 
+// Picks the run of the deploy workflow among those a commit triggered and
+// maps GitHub-style status and conclusion onto a deploy run
+export const toDeployRun = (
+  response: GitHubWorkflowRunsResponse,
+  workflowPath: string
+): DeployRun | null => {
+  const run =
+    response.workflow_runs.find((r) => r.path?.startsWith(workflowPath)) ??
+    response.workflow_runs.at(0);
+  if (!run) return null;
+
+  const startedAt = run.run_started_at ?? run.started_at;
+  const finishedAt =
+    run.status === 'completed' ? (run.completed_at ?? run.updated_at) : null;
+  return {
+    url: run.html_url,
+    status:
+      run.status === 'completed'
+        ? run.conclusion === 'success'
+          ? 'success'
+          : 'failure'
+        : run.status === 'in_progress'
+          ? 'running'
+          : 'queued',
+    startedAt: startedAt ? new Date(startedAt) : null,
+    finishedAt: finishedAt ? new Date(finishedAt) : null,
+  };
+};
+
 // GitHub API response types
 export interface GitHubRepoResponse {
   readonly id: number;
@@ -128,11 +255,87 @@ export interface GitHubTreeResponse {
   }>;
 }
 
+export interface GitHubRefResponse {
+  readonly object: {
+    readonly sha: string;
+  };
+}
+
+// Also the shape of Gitea's action runs
+export interface GitHubWorkflowRunsResponse {
+  readonly workflow_runs: ReadonlyArray<{
+    readonly html_url: string;
+    readonly path?: string;
+    readonly status: string | null;
+    readonly conclusion: string | null;
+    readonly run_started_at?: string | null;
+    readonly started_at?: string | null;
+    readonly updated_at?: string | null;
+    readonly completed_at?: string | null;
+  }>;
+}
+
+export interface GitHubCommitResponse {
+  readonly sha: string;
+  readonly tree: {
+    readonly sha: string;
+  };
+}
+
+export interface GitHubShaResponse {
+  readonly sha: string;
+}
+
+export interface GitHubTreeEntry {
+  readonly path: string;
+  readonly mode: '100644';
+  readonly type: 'blob';
+  readonly sha: string | null;
+}
+
+export interface GitHubPullRequestResponse {
+  readonly number: number;
+  readonly html_url: string;
+  readonly state: 'open' | 'closed';
+  readonly merged_at: string | null;
+}
+
+export interface GitHubCommitListItem {
+  readonly sha: string;
+  readonly html_url: string;
+  readonly commit: {
+    readonly message: string;
+    readonly author: {
+      readonly name: string;
+      readonly email: string;
+      readonly date: string;
+    } | null;
+  };
+  readonly author: { readonly login: string } | null;
+}
+
+// Also the shape of Gitea's repository hooks
+export interface GitHubHookResponse {
+  id: number;
+  config: { url?: string };
+}
+
 export interface GitHubFileContentResponse {
   readonly content: string;
   readonly sha: string;
 }
 
+// Also the shape of Gitea's git blobs
+export interface GitHubBlobResponse {
+  readonly content: string;
+  readonly encoding: string;
+}
+
+export const decodeBlob = (blob: GitHubBlobResponse): string =>
+  blob.encoding === 'base64'
+    ? Buffer.from(blob.content, 'base64').toString('utf-8')
+    : blob.content;
+
 export interface GitHubUser {
   readonly id: number;
   readonly login: string;
@@ -146,3 +349,12 @@ export interface GitHubEmail {
   readonly primary: boolean;
   readonly verified: boolean;
 }
+
+export interface GitHubInstallationTokenResponse {
+  readonly token: string;
+  readonly expires_at: string;
+}
+
+export interface GitHubUserInstallationsResponse {
+  readonly installations: ReadonlyArray<{ readonly id: number }>;
+}
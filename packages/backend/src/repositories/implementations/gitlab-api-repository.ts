@@ -0,0 +1,1371 @@
+import { Effect, Schedule } from 'effect';
+
+import type {
+  DeployRun,
+  GitProviderRepositoryService,
+  GitRepo,
+  CreateRepoData,
+  CommitAuthor,
+  CommitOptions,
+  FileChange,
+  PullRequest,
+  TemplateData,
+  TemplatePlaceholders,
+  TemplateSource,
+  SiteConfig,
+  ImportedMedia,
+  ContentLayout,
+  GitFile,
+  WebhookHeaders,
+} from '../git-provider-repository';
+
+import {
+  GitProviderError,
+  RepositoryCreationError,
+  PagesDeploymentError,
+} from '../git-provider-repository';
+import {
+  INLAND_BUILD_FILES,
+  SITE_CONFIG_PATH,
+  articleFilePath,
+  computeGitBlobSha,
+  isArticleFile,
+  isMediaFile,
+  parseArticleFiles,
+  shouldProcessFile,
+} from './git-content-utils';
+import {
+  assertFields as sharedAssertFields,
+  buildTemplatePlaceholders,
+  replacePlaceholders,
+} from './github-utils';
+import {
+  gitlabFetch,
+  projectId,
+  type GitLabProjectResponse,
+  type GitLabTreeItem,
+  type GitLabFileResponse,
+  type GitLabBlobResponse,
+  type GitLabBranchResponse,
+  type GitLabCommitResponse,
+  type GitLabPagesResponse,
+  type GitLabCommitAction,
+  type GitLabMergeRequestResponse,
+  type GitLabHookResponse,
+  type GitLabPipelineResponse,
+} from './gitlab-utils';
+import {
+  headerValue,
+  parseGitLabPushPayload,
+  safeEqual,
+} from './webhook-utils';
+
+const FORK_READY_DELAY_MS = 1000;
+const MAX_RETRY_ATTEMPTS = 9;
+const TREE_PAGE_SIZE = 100;
+const DEFAULT_TEMPLATE_REPO = 'Saul-Mirone/inland-template-basic';
+const DEFAULT_PAGES_DOMAIN = 'gitlab.io';
+
+const CI_CONFIG_PATH = '.gitlab-ci.yml';
+
+// GitLab Pages serves whatever the `pages` job leaves in `public/`
+const PAGES_CI_CONFIG = `# Generated by Inland CMS: builds the site and deploys it to GitLab Pages
+image: node:20
+
+pages:
+  stage: deploy
+  script:
+    - npm install
+    - node build/index.js
+    - rm -rf public && mv dist public
+  artifacts:
+    paths:
+      - public
+  rules:
+    - if: $CI_COMMIT_BRANCH == $CI_DEFAULT_BRANCH
+`;
+
+interface GitLabClient {
+  readonly baseUrl: string;
+  readonly accessToken: string;
+}
+
+const makeError = (message: string, status?: number) =>
+  new GitProviderError({ message, status });
+
+const makeGitLabApiRequest = <T>(
+  client: GitLabClient,
+  endpoint: string,
+  options: RequestInit = {}
+) =>
+  gitlabFetch<GitProviderError, T>(
+    client.baseUrl,
+    client.accessToken,
+    endpoint,
+    makeError,
+    options
+  );
+
+const assertFields = <T extends Record<string, unknown>>(
+  response: unknown,
+  fields: readonly string[],
+  context: string
+) =>
+  sharedAssertFields<GitProviderError, T>(response, fields, context, makeError);
+
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+const filesEndpoint = (repoFullName: string, filePath: string) =>
+  `/projects/${projectId(repoFullName)}/repository/files/${encodeURIComponent(filePath)}`;
+
+// Top-level namespace becomes the Pages subdomain, the rest is the path
+const pagesUrlFor = (repoFullName: string, pagesDomain: string): string => {
+  const [namespace, ...rest] = repoFullName.split('/');
+  return `https://${namespace.toLowerCase()}.${pagesDomain}/${rest.join('/')}`;
+};
+
+// Atomic GitLab operations
+const getProject = (client: GitLabClient, repoFullName: string) =>
+  Effect.gen(function* () {
+    const response = yield* makeGitLabApiRequest<GitLabProjectResponse>(
+      client,
+      `/projects/${projectId(repoFullName)}`
+    );
+    yield* assertFields(
+      response,
+      ['id', 'path_with_namespace', 'web_url', 'default_branch'],
+      'GET /projects/:id'
+    );
+    return response;
+  });
+
+const getDefaultBranch = (client: GitLabClient, repoFullName: string) =>
+  getProject(client, repoFullName).pipe(
+    Effect.map((project) => project.default_branch || 'main')
+  );
+
+const forkTemplateProject = (
+  client: GitLabClient,
+  opts: {
+    templateRepo: string;
+    repoName: string;
+    description: string;
+  }
+) =>
+  Effect.gen(function* () {
+    const response = yield* makeGitLabApiRequest<GitLabProjectResponse>(
+      client,
+      `/projects/${projectId(opts.templateRepo)}/fork`,
+      jsonRequest('POST', {
+        name: opts.repoName,
+        path: opts.repoName,
+        description: opts.description,
+        visibility: 'public',
+      })
+    );
+    yield* assertFields(
+      response,
+      ['id', 'name', 'path_with_namespace', 'web_url', 'http_url_to_repo'],
+      'POST /projects/:id/fork'
+    );
+
+    // Forking is asynchronous; wait until the repository has been copied
+    const project = yield* getProject(
+      client,
+      response.path_with_namespace
+    ).pipe(
+      Effect.filterOrFail(
+        (p) => !p.import_status || p.import_status === 'finished',
+        () => makeError('Fork is still being imported', 409)
+      ),
+      Effect.retry(
+        Schedule.exponential(FORK_READY_DELAY_MS).pipe(
+          Schedule.intersect(Schedule.recurs(MAX_RETRY_ATTEMPTS)),
+          Schedule.whileInput(
+            (error: GitProviderError) =>
+              error.status === 409 || error.status === 404
+          )
+        )
+      )
+    );
+
+    // The new site should not stay linked to the template as a fork
+    yield* makeGitLabApiRequest(client, `/projects/${project.id}/fork`, {
+      method: 'DELETE',
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.logWarning(
+          `Failed to remove fork relationship for ${project.path_with_namespace}`,
+          { error }
+        )
+      )
+    );
+
+    return project;
+  });
+
+const getRepoFiles = (
+  client: GitLabClient,
+  repoFullName: string,
+  ref: string
+) =>
+  Effect.gen(function* () {
+    const blobs: Array<{ path: string; sha: string }> = [];
+
+    for (let page = 1; ; page++) {
+      const response = yield* makeGitLabApiRequest<GitLabTreeItem[]>(
+        client,
+        `/projects/${projectId(repoFullName)}/repository/tree?recursive=true&ref=${encodeURIComponent(ref)}&per_page=${TREE_PAGE_SIZE}&page=${page}`
+      );
+
+      if (!Array.isArray(response)) {
+        return yield* makeError(
+          'Expected array from GET /projects/:id/repository/tree'
+        );
+      }
+
+      for (const item of response) {
+        if (item.type === 'blob') {
+          blobs.push({ path: item.path, sha: item.id });
+        }
+      }
+
+      if (response.length < TREE_PAGE_SIZE) break;
+    }
+
+    return blobs;
+  });
+
+const getFileContent = (
+  client: GitLabClient,
+  repoFullName: string,
+  filePath: string,
+  ref = 'HEAD'
+) =>
+  Effect.gen(function* () {
+    const response = yield* makeGitLabApiRequest<GitLabFileResponse>(
+      client,
+      `${filesEndpoint(repoFullName, filePath)}?ref=${encodeURIComponent(ref)}`
+    );
+    yield* assertFields(
+      response,
+      ['content', 'blob_id'],
+      `GET /projects/:id/repository/files/${filePath}`
+    );
+    return response;
+  });
+
+const getFileOrNull = (
+  client: GitLabClient,
+  repoFullName: string,
+  filePath: string,
+  ref?: string
+) =>
+  getFileContent(client, repoFullName, filePath, ref).pipe(
+    Effect.catchAll((error) => {
+      if (error.status === 404) {
+        return Effect.succeed(null);
+      }
+      return Effect.fail(error);
+    })
+  );
+
+const decodeContent = (file: GitLabFileResponse): string =>
+  Buffer.from(file.content, 'base64').toString('utf-8');
+
+// Every write goes through the commits API so a change lands as one commit
+const commitActions = (
+  client: GitLabClient,
+  repoFullName: string,
+  opts: {
+    branch: string;
+    message: string;
+    actions: GitLabCommitAction[];
+    // Rebuilds `branch` from this branch before committing
+    startBranch?: string;
+    // GitLab always records the token owner as committer
+    author?: CommitAuthor;
+  }
+) =>
+  Effect.gen(function* () {
+    const response = yield* makeGitLabApiRequest<GitLabCommitResponse>(
+      client,
+      `/projects/${projectId(repoFullName)}/repository/commits`,
+      jsonRequest('POST', {
+        branch: opts.branch,
+        commit_message: opts.message,
+        actions: opts.actions,
+        ...(opts.startBranch !== undefined && {
+          start_branch: opts.startBranch,
+          force: true,
+        }),
+        ...(opts.author && {
+          author_name: opts.author.name,
+          author_email: opts.author.email,
+        }),
+      })
+    );
+    yield* assertFields(
+      response,
+      ['id'],
+      'POST /projects/:id/repository/commits'
+    );
+    return response;
+  });
+
+// Applies a changeset to the default branch as a single commit
+const commitFileChanges = (
+  client: GitLabClient,
+  repoFullName: string,
+  opts: {
+    message: string;
+    changes: readonly FileChange[];
+    author?: CommitAuthor;
+  }
+) =>
+  Effect.gen(function* () {
+    const branch = yield* getDefaultBranch(client, repoFullName);
+    const files = yield* getRepoFiles(client, repoFullName, branch);
+    const existingPaths = new Set(files.map((file) => file.path));
+
+    const actions: GitLabCommitAction[] = [];
+    const blobShas: Record<string, string> = {};
+
+    for (const change of opts.changes) {
+      if (change.base64Content === null) {
+        if (existingPaths.has(change.path)) {
+          actions.push({ action: 'delete', file_path: change.path });
+        }
+        continue;
+      }
+
+      actions.push({
+        action: existingPaths.has(change.path) ? 'update' : 'create',
+        file_path: change.path,
+        content: change.base64Content,
+        encoding: 'base64',
+      });
+      blobShas[change.path] = computeGitBlobSha(
+        Buffer.from(change.base64Content, 'base64')
+      );
+    }
+
+    if (actions.length === 0) {
+      return { commitSha: null, blobShas };
+    }
+
+    const commit = yield* commitActions(client, repoFullName, {
+      branch,
+      message: opts.message,
+      actions,
+      author: opts.author,
+    });
+    return { commitSha: commit.id, blobShas };
+  });
+
+const writeFile = (
+  client: GitLabClient,
+  repoFullName: string,
+  opts: {
+    branch: string;
+    filePath: string;
+    content: Buffer;
+    message: string;
+    exists: boolean;
+    author?: CommitAuthor;
+  }
+) =>
+  Effect.gen(function* () {
+    const commit = yield* commitActions(client, repoFullName, {
+      branch: opts.branch,
+      message: opts.message,
+      author: opts.author,
+      actions: [
+        {
+          action: opts.exists ? 'update' : 'create',
+          file_path: opts.filePath,
+          content: opts.content.toString('base64'),
+          encoding: 'base64',
+        },
+      ],
+    });
+
+    return {
+      commitSha: commit.id,
+      blobSha: computeGitBlobSha(opts.content),
+    };
+  });
+
+const deletePath = (
+  client: GitLabClient,
+  repoFullName: string,
+  opts: { filePath: string; message: string; author?: CommitAuthor }
+) =>
+  Effect.gen(function* () {
+    const branch = yield* getDefaultBranch(client, repoFullName);
+    const currentFile = yield* getFileOrNull(
+      client,
+      repoFullName,
+      opts.filePath,
+      branch
+    );
+
+    if (!currentFile) {
+      return { deleted: false, reason: 'File not found' };
+    }
+
+    yield* commitActions(client, repoFullName, {
+      branch,
+      message: opts.message,
+      actions: [{ action: 'delete', file_path: opts.filePath }],
+      author: opts.author,
+    });
+
+    return { deleted: true };
+  });
+
+const toPullRequest = (response: GitLabMergeRequestResponse): PullRequest => ({
+  number: response.iid,
+  url: response.web_url,
+  state:
+    response.state === 'merged'
+      ? 'merged'
+      : response.state === 'opened'
+        ? 'open'
+        : 'closed',
+});
+
+const findOpenMergeRequest = (
+  client: GitLabClient,
+  repoFullName: string,
+  opts: { sourceBranch: string; targetBranch: string }
+) =>
+  Effect.gen(function* () {
+    const response = yield* makeGitLabApiRequest<GitLabMergeRequestResponse[]>(
+      client,
+      `/projects/${projectId(repoFullName)}/merge_requests?state=opened&source_branch=${encodeURIComponent(opts.sourceBranch)}&target_branch=${encodeURIComponent(opts.targetBranch)}`
+    );
+
+    if (!Array.isArray(response)) {
+      return yield* makeError(
+        'Expected array from GET /projects/:id/merge_requests'
+      );
+    }
+    return response.length > 0 ? toPullRequest(response[0]) : null;
+  });
+
+const createMergeRequest = (
+  client: GitLabClient,
+  repoFullName: string,
+  opts: { sourceBranch: string; targetBranch: string; title: string }
+) =>
+  Effect.gen(function* () {
+    const response = yield* makeGitLabApiRequest<GitLabMergeRequestResponse>(
+      client,
+      `/projects/${projectId(repoFullName)}/merge_requests`,
+      jsonRequest('POST', {
+        source_branch: opts.sourceBranch,
+        target_branch: opts.targetBranch,
+        title: opts.title,
+        remove_source_branch: true,
+      })
+    );
+    yield* assertFields(
+      response,
+      ['iid', 'web_url', 'state'],
+      'POST /projects/:id/merge_requests'
+    );
+    return toPullRequest(response);
+  });
+
+const ensurePagesPipeline = (
+  client: GitLabClient,
+  repoFullName: string,
+  branch: string
+) =>
+  Effect.gen(function* () {
+    const existing = yield* getFileOrNull(
+      client,
+      repoFullName,
+      CI_CONFIG_PATH,
+      branch
+    );
+    if (existing) return false;
+
+    yield* writeFile(client, repoFullName, {
+      branch,
+      filePath: CI_CONFIG_PATH,
+      content: Buffer.from(PAGES_CI_CONFIG),
+      message: 'Add GitLab Pages pipeline',
+      exists: false,
+    });
+    return true;
+  });
+
+// Composite operations
+const replaceTemplatePlaceholders = (
+  client: GitLabClient,
+  repoFullName: string,
+  branch: string,
+  templateData: TemplateData,
+  tokens?: TemplatePlaceholders
+) =>
+  Effect.gen(function* () {
+    yield* Effect.logInfo(
+      `Starting template placeholder replacement for ${repoFullName} on branch ${branch}`
+    );
+
+    const files = yield* getRepoFiles(client, repoFullName, branch);
+    const placeholders = buildTemplatePlaceholders(templateData, tokens);
+    const actions: GitLabCommitAction[] = [];
+
+    for (const file of files) {
+      if (!shouldProcessFile(file.path)) continue;
+
+      const fileData = yield* getFileContent(
+        client,
+        repoFullName,
+        file.path,
+        branch
+      );
+      const content = decodeContent(fileData);
+      const updatedContent = replacePlaceholders(content, placeholders);
+
+      if (updatedContent !== content) {
+        actions.push({
+          action: 'update',
+          file_path: file.path,
+          content: updatedContent,
+          encoding: 'text',
+        });
+      }
+    }
+
+    if (actions.length > 0) {
+      yield* commitActions(client, repoFullName, {
+        branch,
+        message: 'Replace template placeholders',
+        actions,
+      });
+    }
+
+    return true;
+  });
+
+// GitLab implementation factory
+export const makeGitLabApiRepository = (config: {
+  baseUrl: string;
+  templateRepo?: string;
+  pagesDomain?: string;
+}): GitProviderRepositoryService => {
+  const clientFor = (accessToken: string): GitLabClient => ({
+    baseUrl: config.baseUrl,
+    accessToken,
+  });
+  const templateRepoPath = config.templateRepo ?? DEFAULT_TEMPLATE_REPO;
+  const pagesDomain = config.pagesDomain ?? DEFAULT_PAGES_DOMAIN;
+
+  const enablePages = (accessToken: string, repoFullName: string) =>
+    Effect.gen(function* () {
+      const client = clientFor(accessToken);
+      const branch = yield* getDefaultBranch(client, repoFullName);
+      yield* ensurePagesPipeline(client, repoFullName, branch);
+      return pagesUrlFor(repoFullName, pagesDomain);
+    });
+
+  const listArticleFiles = (
+    accessToken: string,
+    repoFullName: string,
+    defaultBranch: string,
+    layout?: ContentLayout
+  ) =>
+    getRepoFiles(clientFor(accessToken), repoFullName, defaultBranch).pipe(
+      Effect.map((files) =>
+        files
+          .filter((file) => isArticleFile(file.path, layout))
+          .map((file): GitFile => ({ path: file.path, sha: file.sha }))
+      )
+    );
+
+  const readArticleFiles = (
+    accessToken: string,
+    repoFullName: string,
+    defaultBranch: string,
+    files: readonly GitFile[],
+    layout?: ContentLayout
+  ) => {
+    const client = clientFor(accessToken);
+    return parseArticleFiles(files, layout, (file) =>
+      getFileContent(client, repoFullName, file.path, defaultBranch).pipe(
+        Effect.map(decodeContent)
+      )
+    );
+  };
+
+  // Reads the workflow and template build files with placeholders filled in.
+  // Files missing from the template are skipped rather than failing the batch.
+  const buildInlandWorkflowChanges = (
+    accessToken: string,
+    repoFullName: string,
+    templateData: TemplateData,
+    options?: { overrideExistingFiles?: boolean; template?: TemplateSource }
+  ) =>
+    Effect.gen(function* () {
+      const client = clientFor(accessToken);
+      const overrideExisting = options?.overrideExistingFiles ?? false;
+      const template = options?.template;
+      const templateRepo = template?.repo ?? templateRepoPath;
+      const branch = yield* getDefaultBranch(client, repoFullName);
+      const placeholders = buildTemplatePlaceholders(
+        templateData,
+        template?.placeholders
+      );
+
+      const filesSkipped: string[] = [];
+      const changes: FileChange[] = [];
+
+      const filesToInject = [
+        SITE_CONFIG_PATH,
+        CI_CONFIG_PATH,
+        ...(template?.files ?? INLAND_BUILD_FILES),
+      ];
+
+      for (const filePath of filesToInject) {
+        const existingFile = yield* getFileOrNull(
+          client,
+          repoFullName,
+          filePath,
+          branch
+        );
+
+        if (existingFile && !overrideExisting) {
+          yield* Effect.logInfo(`Skipping existing file: ${filePath}`);
+          filesSkipped.push(filePath);
+          continue;
+        }
+
+        // The pipeline is GitLab-specific, so it is not read from the template
+        let content = PAGES_CI_CONFIG;
+        if (filePath !== CI_CONFIG_PATH) {
+          const templateFile = yield* getFileOrNull(
+            client,
+            templateRepo,
+            filePath,
+            template?.ref
+          );
+          if (!templateFile) {
+            yield* Effect.logWarning(
+              `${filePath} not found in ${templateRepo}`
+            );
+            continue;
+          }
+          content = replacePlaceholders(
+            decodeContent(templateFile),
+            placeholders
+          );
+        }
+
+        changes.push({
+          path: filePath,
+          base64Content: Buffer.from(content).toString('base64'),
+        });
+      }
+
+      return { changes, filesSkipped };
+    });
+
+  return {
+    createRepositoryWithPages: (
+      accessToken: string,
+      data: CreateRepoData,
+      templateData?: TemplateData
+    ) =>
+      Effect.gen(function* () {
+        const client = clientFor(accessToken);
+        const templateRepo =
+          data.templateOwner && data.templateRepo
+            ? `${data.templateOwner}/${data.templateRepo}`
+            : templateRepoPath;
+
+        const project = yield* forkTemplateProject(client, {
+          templateRepo,
+          repoName: data.name,
+          description: data.description ?? `Blog site: ${data.name}`,
+        });
+
+        const gitRepo: GitRepo = {
+          id: project.id,
+          name: project.name,
+          fullName: project.path_with_namespace,
+          htmlUrl: project.web_url,
+          cloneUrl: project.http_url_to_repo,
+          defaultBranch: project.default_branch || 'main',
+        };
+
+        if (templateData) {
+          yield* replaceTemplatePlaceholders(
+            client,
+            gitRepo.fullName,
+            gitRepo.defaultBranch,
+            templateData,
+            data.placeholders
+          );
+        }
+
+        const pagesUrl = yield* enablePages(accessToken, gitRepo.fullName).pipe(
+          Effect.catchAll((error: GitProviderError) =>
+            Effect.gen(function* () {
+              yield* Effect.logError(
+                `Failed to enable GitLab Pages for ${gitRepo.fullName}`,
+                { error }
+              );
+              return yield* new PagesDeploymentError({
+                repoName: gitRepo.fullName,
+                reason: error.message,
+              });
+            })
+          )
+        );
+
+        return { ...gitRepo, pagesUrl };
+      }).pipe(
+        Effect.catchAll(
+          (error) =>
+            new RepositoryCreationError({
+              repoName: data.name,
+              reason: error.message,
+            })
+        )
+      ),
+
+    deleteArticleFromRepo: (
+      accessToken: string,
+      repoFullName: string,
+      articleSlug: string,
+      filePath = articleFilePath(articleSlug),
+      commitOptions?: CommitOptions
+    ) =>
+      Effect.gen(function* () {
+        const result = yield* deletePath(clientFor(accessToken), repoFullName, {
+          filePath,
+          message: commitOptions?.message ?? `Delete article: ${articleSlug}`,
+          author: commitOptions?.author,
+        });
+
+        return result.deleted ? { deleted: true, filePath } : result;
+      }),
+
+    proposeArticleChange: (
+      accessToken: string,
+      repoFullName: string,
+      articleSlug: string,
+      markdownContent: string,
+      opts: {
+        branch: string;
+        title: string;
+        filePath?: string;
+        commit?: CommitOptions;
+        changes?: readonly FileChange[];
+      }
+    ) =>
+      Effect.gen(function* () {
+        const client = clientFor(accessToken);
+        const filePath = opts.filePath ?? articleFilePath(articleSlug);
+        const baseBranch = yield* getDefaultBranch(client, repoFullName);
+        const branches = {
+          sourceBranch: opts.branch,
+          targetBranch: baseBranch,
+        };
+
+        const openMergeRequest = yield* findOpenMergeRequest(
+          client,
+          repoFullName,
+          branches
+        );
+
+        // Without an open merge request the branch is rebuilt from the
+        // default branch, so it never carries already merged history
+        const sourceRef = openMergeRequest ? opts.branch : baseBranch;
+        const existingFile = yield* getFileOrNull(
+          client,
+          repoFullName,
+          filePath,
+          sourceRef
+        );
+        const content = Buffer.from(markdownContent);
+
+        // Other changes go in the same commit; deleting a missing file is
+        // rejected, so those are dropped
+        const otherActions: GitLabCommitAction[] = [];
+        for (const change of opts.changes ?? []) {
+          const exists =
+            (yield* getFileOrNull(
+              client,
+              repoFullName,
+              change.path,
+              sourceRef
+            )) !== null;
+          if (change.base64Content === null) {
+            if (exists) {
+              otherActions.push({ action: 'delete', file_path: change.path });
+            }
+            continue;
+          }
+          otherActions.push({
+            action: exists ? 'update' : 'create',
+            file_path: change.path,
+            content: change.base64Content,
+            encoding: 'base64',
+          });
+        }
+
+        const commit = yield* commitActions(client, repoFullName, {
+          branch: opts.branch,
+          message:
+            opts.commit?.message ??
+            `${existingFile ? 'Update' : 'Add'} article: ${articleSlug}`,
+          author: opts.commit?.author,
+          actions: [
+            ...otherActions,
+            {
+              action: existingFile ? 'update' : 'create',
+              file_path: filePath,
+              content: content.toString('base64'),
+              encoding: 'base64',
+            },
+          ],
+          ...(!openMergeRequest && { startBranch: baseBranch }),
+        });
+
+        const pullRequest =
+          openMergeRequest ??
+          (yield* createMergeRequest(client, repoFullName, {
+            ...branches,
+            title: opts.title,
+          }));
+
+        return {
+          filePath,
+          commitSha: commit.id,
+          blobSha: computeGitBlobSha(content),
+          pullRequest,
+        };
+      }),
+
+    getPullRequest: (
+      accessToken: string,
+      repoFullName: string,
+      pullRequestNumber: number
+    ) =>
+      Effect.gen(function* () {
+        const response =
+          yield* makeGitLabApiRequest<GitLabMergeRequestResponse>(
+            clientFor(accessToken),
+            `/projects/${projectId(repoFullName)}/merge_requests/${pullRequestNumber}`
+          );
+        yield* assertFields(
+          response,
+          ['iid', 'web_url', 'state'],
+          'GET /projects/:id/merge_requests/:iid'
+        );
+        return toPullRequest(response);
+      }),
+
+    getArticleFileSha: (
+      accessToken: string,
+      repoFullName: string,
+      articleSlug: string,
+      filePath = articleFilePath(articleSlug)
+    ) =>
+      Effect.gen(function* () {
+        const file = yield* getFileOrNull(
+          clientFor(accessToken),
+          repoFullName,
+          filePath
+        );
+        return file ? file.blob_id : null;
+      }),
+
+    listFileCommits: (_accessToken: string, repoFullName: string) =>
+      makeError(
+        `Article history is not available for GitLab repository ${repoFullName} yet`,
+        501
+      ),
+
+    getFileAtRef: (
+      accessToken: string,
+      repoFullName: string,
+      filePath: string,
+      ref: string
+    ) =>
+      getFileOrNull(clientFor(accessToken), repoFullName, filePath, ref).pipe(
+        Effect.map((file) => (file ? decodeContent(file) : null))
+      ),
+
+    getBlobContent: (
+      accessToken: string,
+      repoFullName: string,
+      blobSha: string
+    ) =>
+      Effect.gen(function* () {
+        const response = yield* makeGitLabApiRequest<GitLabBlobResponse>(
+          clientFor(accessToken),
+          `/projects/${projectId(repoFullName)}/repository/blobs/${blobSha}`
+        );
+        yield* assertFields(
+          response,
+          ['content', 'encoding'],
+          'GET /projects/:id/repository/blobs/:sha'
+        );
+        return response.encoding === 'base64'
+          ? Buffer.from(response.content, 'base64').toString('utf-8')
+          : response.content;
+      }).pipe(
+        Effect.catchAll((error) =>
+          error.status === 404 ? Effect.succeed(null) : Effect.fail(error)
+        )
+      ),
+
+    getMarkdownFilesFromRepo: (
+      accessToken: string,
+      repoFullName: string,
+      defaultBranch: string,
+      layout?: ContentLayout
+    ) =>
+      Effect.gen(function* () {
+        yield* Effect.logInfo(`Fetching markdown files from ${repoFullName}`);
+
+        const files = yield* listArticleFiles(
+          accessToken,
+          repoFullName,
+          defaultBranch,
+          layout
+        );
+        return yield* readArticleFiles(
+          accessToken,
+          repoFullName,
+          defaultBranch,
+          files,
+          layout
+        );
+      }),
+
+    listArticleFiles,
+
+    readArticleFiles,
+
+    getMediaFilesFromRepo: (
+      accessToken: string,
+      repoFullName: string,
+      defaultBranch: string,
+      layout?: ContentLayout
+    ) =>
+      Effect.gen(function* () {
+        const files = yield* getRepoFiles(
+          clientFor(accessToken),
+          repoFullName,
+          defaultBranch
+        );
+
+        // The tree API does not report blob sizes
+        return files
+          .filter((file) => isMediaFile(file.path, layout))
+          .map(
+            (file): ImportedMedia => ({
+              filePath: file.path,
+              filename: file.path.split('/').pop()!,
+              sha: file.sha,
+              size: 0,
+            })
+          );
+      }),
+
+    publishArticleToRepo: (
+      accessToken: string,
+      repoFullName: string,
+      articleSlug: string,
+      markdownContent: string,
+      filePath = articleFilePath(articleSlug),
+      commitOptions?: CommitOptions
+    ) =>
+      Effect.gen(function* () {
+        const client = clientFor(accessToken);
+        const branch = yield* getDefaultBranch(client, repoFullName);
+
+        const existingFile = yield* getFileOrNull(
+          client,
+          repoFullName,
+          filePath,
+          branch
+        );
+        const wasUpdate = existingFile !== null;
+
+        const result = yield* writeFile(client, repoFullName, {
+          branch,
+          filePath,
+          content: Buffer.from(markdownContent),
+          message:
+            commitOptions?.message ??
+            `${wasUpdate ? 'Update' : 'Add'} article: ${articleSlug}`,
+          exists: wasUpdate,
+          author: commitOptions?.author,
+        });
+
+        return {
+          published: true,
+          filePath,
+          commitSha: result.commitSha,
+          blobSha: result.blobSha,
+          wasUpdate,
+        };
+      }),
+
+    getRepositoryInfo: (accessToken: string, repoFullName: string) =>
+      Effect.gen(function* () {
+        const project = yield* getProject(clientFor(accessToken), repoFullName);
+
+        return {
+          ...project,
+          defaultBranch: project.default_branch || 'main',
+          htmlUrl: project.web_url,
+        };
+      }),
+
+    getCommitDeployRun: (
+      accessToken: string,
+      repoFullName: string,
+      commitSha: string
+    ) =>
+      Effect.gen(function* () {
+        const pipelines = yield* makeGitLabApiRequest<GitLabPipelineResponse[]>(
+          clientFor(accessToken),
+          `/projects/${projectId(repoFullName)}/pipelines?sha=${commitSha}&per_page=1`
+        );
+        const pipeline = pipelines.at(0);
+        if (!pipeline) return null;
+
+        const finished = ['success', 'failed', 'canceled', 'skipped'].includes(
+          pipeline.status
+        );
+        const run: DeployRun = {
+          url: pipeline.web_url,
+          status:
+            pipeline.status === 'success'
+              ? 'success'
+              : finished
+                ? 'failure'
+                : pipeline.status === 'running'
+                  ? 'running'
+                  : 'queued',
+          startedAt: new Date(pipeline.created_at),
+          finishedAt: finished ? new Date(pipeline.updated_at) : null,
+        };
+        return run;
+      }),
+
+    getBranchHead: (
+      accessToken: string,
+      repoFullName: string,
+      branch: string
+    ) =>
+      Effect.gen(function* () {
+        const response = yield* makeGitLabApiRequest<GitLabBranchResponse>(
+          clientFor(accessToken),
+          `/projects/${projectId(repoFullName)}/repository/branches/${encodeURIComponent(branch)}`
+        );
+        yield* assertFields(
+          response,
+          ['commit'],
+          'GET /projects/:id/repository/branches/:branch'
+        );
+        return response.commit.id;
+      }),
+
+    checkPagesStatus: (accessToken: string, repoFullName: string) =>
+      Effect.gen(function* () {
+        yield* Effect.logInfo(`Checking Pages status for ${repoFullName}`);
+
+        const pagesInfo = yield* makeGitLabApiRequest<GitLabPagesResponse>(
+          clientFor(accessToken),
+          `/projects/${projectId(repoFullName)}/pages`
+        ).pipe(
+          Effect.catchTag('GitProviderError', (error) => {
+            if (error.status === 404) {
+              return Effect.succeed(null);
+            }
+            return Effect.fail(error);
+          })
+        );
+
+        if (!pagesInfo) {
+          return { enabled: false };
+        }
+
+        return {
+          enabled: true,
+          url: pagesInfo.url,
+          source: 'gitlab-ci',
+        };
+      }),
+
+    buildInlandWorkflowChanges,
+
+    injectInlandWorkflow: (
+      accessToken: string,
+      repoFullName: string,
+      templateData: TemplateData,
+      options?: { overrideExistingFiles?: boolean; template?: TemplateSource }
+    ) =>
+      Effect.gen(function* () {
+        yield* Effect.logInfo(`Injecting Inland workflow into ${repoFullName}`);
+
+        const client = clientFor(accessToken);
+        const project = yield* getProject(client, repoFullName);
+        const { changes, filesSkipped } = yield* buildInlandWorkflowChanges(
+          accessToken,
+          repoFullName,
+          templateData,
+          options
+        );
+        const filesCreated = changes.map((change) => change.path);
+
+        if (changes.length > 0) {
+          yield* commitFileChanges(client, repoFullName, {
+            message: 'Add Inland CMS workflow',
+            changes,
+          });
+          yield* Effect.logInfo(`Injected files: ${filesCreated.join(', ')}`);
+        }
+
+        return {
+          filesCreated,
+          filesSkipped,
+          workflowUrl: `${project.web_url}/-/pipelines`,
+        };
+      }),
+
+    enablePages,
+
+    setPagesDomain: (
+      accessToken: string,
+      repoFullName: string,
+      domain: string | null,
+      previousDomain: string | null
+    ) =>
+      Effect.gen(function* () {
+        const client = clientFor(accessToken);
+        const domainsPath = `/projects/${projectId(repoFullName)}/pages/domains`;
+
+        if (previousDomain && previousDomain !== domain) {
+          yield* makeGitLabApiRequest(
+            client,
+            `${domainsPath}/${encodeURIComponent(previousDomain)}`,
+            { method: 'DELETE' }
+          ).pipe(
+            Effect.catchTag('GitProviderError', (error) =>
+              error.status === 404 ? Effect.void : Effect.fail(error)
+            )
+          );
+        }
+        if (!domain) return pagesUrlFor(repoFullName, pagesDomain);
+
+        // Let's Encrypt issues the certificate once the domain verifies
+        yield* makeGitLabApiRequest(
+          client,
+          domainsPath,
+          jsonRequest('POST', { domain, auto_ssl_enabled: true })
+        ).pipe(
+          Effect.catchTag('GitProviderError', (error) =>
+            error.status === 409 ? Effect.void : Effect.fail(error)
+          )
+        );
+        return `https://${domain}`;
+      }),
+
+    uploadFileToRepo: (
+      accessToken: string,
+      repoFullName: string,
+      opts: {
+        filePath: string;
+        base64Content: string;
+        commitMessage: string;
+      }
+    ) =>
+      Effect.gen(function* () {
+        const client = clientFor(accessToken);
+        const branch = yield* getDefaultBranch(client, repoFullName);
+        const existingFile = yield* getFileOrNull(
+          client,
+          repoFullName,
+          opts.filePath,
+          branch
+        );
+
+        const result = yield* writeFile(client, repoFullName, {
+          branch,
+          filePath: opts.filePath,
+          content: Buffer.from(opts.base64Content, 'base64'),
+          message: opts.commitMessage,
+          exists: existingFile !== null,
+        });
+
+        return {
+          filePath: opts.filePath,
+          blobSha: result.blobSha,
+          commitSha: result.commitSha,
+        };
+      }),
+
+    deleteFileFromRepo: (
+      accessToken: string,
+      repoFullName: string,
+      opts: { filePath: string; commitMessage: string }
+    ) =>
+      deletePath(clientFor(accessToken), repoFullName, {
+        filePath: opts.filePath,
+        message: opts.commitMessage,
+      }),
+
+    commitChangeset: (
+      accessToken: string,
+      repoFullName: string,
+      opts: {
+        message: string;
+        changes: readonly FileChange[];
+        author?: CommitAuthor;
+      }
+    ) => commitFileChanges(clientFor(accessToken), repoFullName, opts),
+
+    checkRepoExists: (accessToken: string, repoFullName: string) =>
+      makeGitLabApiRequest(
+        clientFor(accessToken),
+        `/projects/${projectId(repoFullName)}`
+      ).pipe(
+        Effect.map(() => true),
+        Effect.catchAll((error) => {
+          if (error.status === 404) {
+            return Effect.succeed(false);
+          }
+          return Effect.fail(error);
+        })
+      ),
+
+    pushSiteConfig: (
+      accessToken: string,
+      repoFullName: string,
+      siteConfig: SiteConfig
+    ) =>
+      Effect.gen(function* () {
+        const client = clientFor(accessToken);
+        const filePath = SITE_CONFIG_PATH;
+        const branch = yield* getDefaultBranch(client, repoFullName);
+        const existingFile = yield* getFileOrNull(
+          client,
+          repoFullName,
+          filePath,
+          branch
+        );
+
+        const result = yield* writeFile(client, repoFullName, {
+          branch,
+          filePath,
+          content: Buffer.from(JSON.stringify(siteConfig, null, 2) + '\n'),
+          message: 'Update site configuration',
+          exists: existingFile !== null,
+        });
+
+        return { filePath, commitSha: result.commitSha };
+      }),
+
+    getSiteConfig: (accessToken: string, repoFullName: string) =>
+      Effect.gen(function* () {
+        const file = yield* getFileOrNull(
+          clientFor(accessToken),
+          repoFullName,
+          SITE_CONFIG_PATH
+        );
+        if (!file) return null;
+
+        const parsed = yield* assertFields<{
+          name: string;
+          description: string;
+          url: string;
+          author: string;
+          avatarUrl: string;
+          authorUrl: string;
+        }>(JSON.parse(decodeContent(file)), ['name'], SITE_CONFIG_PATH);
+        return {
+          name: parsed.name,
+          description: parsed.description,
+          url: parsed.url,
+          author: parsed.author,
+          avatarUrl: parsed.avatarUrl,
+          authorUrl: parsed.authorUrl,
+        } satisfies SiteConfig;
+      }).pipe(Effect.catchAll(() => Effect.succeed(null))),
+
+    getRawFileUrl: (repoFullName: string, ref: string, filePath: string) =>
+      `${config.baseUrl}/${repoFullName}/-/raw/${ref}/${filePath}`,
+
+    getPublicUrls: (
+      repoFullName: string,
+      user: { username: string; avatarUrl: string }
+    ) => ({
+      pagesUrl: pagesUrlFor(repoFullName, pagesDomain),
+      avatarUrl: user.avatarUrl,
+      authorUrl: `${config.baseUrl}/${user.username}`,
+    }),
+
+    registerPushWebhook: (
+      accessToken: string,
+      repoFullName: string,
+      opts: { url: string; secret: string }
+    ) =>
+      Effect.gen(function* () {
+        const client = clientFor(accessToken);
+        const hooksEndpoint = `/projects/${projectId(repoFullName)}/hooks`;
+        const hooks = yield* makeGitLabApiRequest<GitLabHookResponse[]>(
+          client,
+          hooksEndpoint
+        );
+        const existing = hooks.find((hook) => hook.url === opts.url);
+        const hook = {
+          url: opts.url,
+          token: opts.secret,
+          push_events: true,
+          enable_ssl_verification: true,
+        };
+
+        yield* existing
+          ? makeGitLabApiRequest(
+              client,
+              `${hooksEndpoint}/${existing.id}`,
+              jsonRequest('PUT', hook)
+            )
+          : makeGitLabApiRequest(
+              client,
+              hooksEndpoint,
+              jsonRequest('POST', hook)
+            );
+      }),
+
+    parsePushEvent: (headers: WebhookHeaders, payload: unknown) =>
+      headerValue(headers, 'X-Gitlab-Event') === 'Push Hook'
+        ? parseGitLabPushPayload(payload)
+        : null,
+
+    // GitLab sends the secret token itself rather than a signature
+    verifyWebhookSignature: (
+      headers: WebhookHeaders,
+      _rawBody: Buffer,
+      secret: string
+    ) => {
+      const token = headerValue(headers, 'X-Gitlab-Token');
+      return token !== undefined && safeEqual(token, secret);
+    },
+  };
+};
@@ -0,0 +1,67 @@
+import { Effect } from 'effect';
+
+import {
+  type AuthProviderRepositoryService,
+  type PlatformUser,
+  AuthProviderAPIError,
+} from '../auth-provider-repository';
+import { assertFields } from './github-utils';
+import { gitlabFetch, type GitLabUser } from './gitlab-utils';
+
+const makeError = (message: string, status?: number) =>
+  new AuthProviderAPIError({ message, status });
+
+const assertGitLabUser = (
+  data: unknown
+): Effect.Effect<GitLabUser, AuthProviderAPIError> =>
+  assertFields(data, ['id', 'username', 'avatar_url'], '/user', makeError).pipe(
+    // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+    Effect.map((obj) => obj as unknown as GitLabUser)
+  );
+
+const convertGitLabUserToPlatformUser = (
+  gitlabUser: GitLabUser
+): PlatformUser => ({
+  id: gitlabUser.id,
+  username: gitlabUser.username,
+  displayName: gitlabUser.name,
+  email: gitlabUser.public_email || null,
+  avatarUrl: gitlabUser.avatar_url,
+});
+
+export const makeGitLabAuthRepository = (config: {
+  baseUrl: string;
+}): AuthProviderRepositoryService => {
+  const fetchCurrentUser = (accessToken: string) =>
+    gitlabFetch<AuthProviderAPIError>(
+      config.baseUrl,
+      accessToken,
+      '/user',
+      makeError
+    ).pipe(Effect.flatMap(assertGitLabUser));
+
+  return {
+    fetchUser: (accessToken: string) =>
+      fetchCurrentUser(accessToken).pipe(
+        Effect.map(convertGitLabUserToPlatformUser)
+      ),
+
+    // The private email is only returned to the user themselves
+    fetchUserEmail: (accessToken: string) =>
+      fetchCurrentUser(accessToken).pipe(
+        Effect.map((user) => user.email || user.public_email || null),
+        Effect.catchAll(() => Effect.succeed(null))
+      ),
+
+    validateToken: (accessToken: string) =>
+      fetchCurrentUser(accessToken).pipe(
+        Effect.map(() => ({ isValid: true })),
+        Effect.catchAll(() =>
+          Effect.succeed({
+            isValid: false,
+            reason: 'GitLab token validation failed',
+          })
+        )
+      ),
+  };
+};
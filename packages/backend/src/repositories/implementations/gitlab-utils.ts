@@ -0,0 +1,147 @@
+import { Effect } from 'effect';
+
+interface TaggedError {
+  readonly _tag: string;
+}
+
+// Shared GitLab API request helper, parameterized over error type.
+// `baseUrl` is the instance root (https://gitlab.com or a self-managed host).
+export const gitlabFetch = <E extends TaggedError, T = unknown>(
+  baseUrl: string,
+  accessToken: string,
+  endpoint: string,
+  makeError: (message: string, status?: number) => E,
+  options: RequestInit = {}
+): Effect.Effect<T, E> =>
+  Effect.gen(function* () {
+    const response = yield* Effect.tryPromise({
+      try: () =>
+        fetch(`${baseUrl}/api/v4${endpoint}`, {
+          ...options,
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            Accept: 'application/json',
+            'User-Agent': 'Inland-CMS/1.0',
+            // oxlint-disable-next-line typescript/no-misused-spread
+            ...options.headers,
+          },
+        }),
+      catch: (error) =>
+        makeError(error instanceof Error ? error.message : 'Network error'),
+    });
+
+    if (!response.ok) {
+      const errorText = yield* Effect.tryPromise({
+        try: () => response.text(),
+        catch: (error) =>
+          makeError(
+            error instanceof Error
+              ? error.message
+              : 'Failed to read error response'
+          ),
+      });
+      return yield* Effect.fail(
+        makeError(`GitLab API error: ${errorText}`, response.status)
+      );
+    }
+
+    // DELETE endpoints answer with 202/204 and an empty body
+    if (response.status === 202 || response.status === 204) {
+      // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+      return undefined as T;
+    }
+
+    const json = yield* Effect.tryPromise({
+      try: () => response.json(),
+      catch: (error) =>
+        makeError(
+          error instanceof Error
+            ? error.message
+            : 'Failed to parse response JSON'
+        ),
+    });
+
+    // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+    return json as T;
+  });
+
+// GitLab addresses projects by their URL-encoded full path
+export const projectId = (repoFullName: string): string =>
+  encodeURIComponent(repoFullName);
+
+// GitLab API response types
+export interface GitLabProjectResponse {
+  readonly id: number;
+  readonly name: string;
+  readonly path: string;
+  readonly path_with_namespace: string;
+  readonly web_url: string;
+  readonly http_url_to_repo: string;
+  readonly default_branch: string | null;
+  readonly import_status?: string;
+}
+
+export interface GitLabTreeItem {
+  readonly id: string;
+  readonly name: string;
+  readonly type: string;
+  readonly path: string;
+}
+
+export interface GitLabFileResponse {
+  readonly content: string;
+  readonly blob_id: string;
+  readonly last_commit_id: string;
+}
+
+export interface GitLabBlobResponse {
+  readonly content: string;
+  readonly encoding: string;
+}
+
+export interface GitLabCommitResponse {
+  readonly id: string;
+}
+
+export interface GitLabBranchResponse {
+  readonly commit: GitLabCommitResponse;
+}
+
+// Pipelines as listed, which carry no start or finish times
+export interface GitLabPipelineResponse {
+  readonly web_url: string;
+  readonly status: string;
+  readonly created_at: string;
+  readonly updated_at: string;
+}
+
+export interface GitLabMergeRequestResponse {
+  readonly iid: number;
+  readonly web_url: string;
+  readonly state: 'opened' | 'closed' | 'locked' | 'merged';
+}
+
+export interface GitLabPagesResponse {
+  readonly url: string;
+}
+
+export interface GitLabHookResponse {
+  id: number;
+  url: string;
+}
+
+export interface GitLabUser {
+  readonly id: number;
+  readonly username: string;
+  readonly name: string | null;
+  readonly email?: string | null;
+  readonly public_email?: string | null;
+  readonly avatar_url: string;
+}
+
+export interface GitLabCommitAction {
+  readonly action: 'create' | 'update' | 'delete';
+  readonly file_path: string;
+  readonly content?: string;
+  readonly encoding?: 'text' | 'base64';
+}
@@ -0,0 +1,27 @@
+import { Effect } from 'effect';
+
+import type { AuthProviderRepositoryService } from '../auth-provider-repository';
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_-][a-zA-Z0-9_.-]*$/;
+
+// Local repositories have no accounts: the integration's access token is the
+// Inland username that owns the repositories, set when the user connects it
+export const makeLocalAuthRepository = (): AuthProviderRepositoryService => ({
+  fetchUser: (accessToken: string) =>
+    Effect.succeed({
+      id: accessToken,
+      username: accessToken,
+      displayName: null,
+      email: null,
+      avatarUrl: '',
+    }),
+
+  fetchUserEmail: () => Effect.succeed(null),
+
+  validateToken: (accessToken: string) =>
+    Effect.succeed(
+      USERNAME_PATTERN.test(accessToken)
+        ? { isValid: true }
+        : { isValid: false, reason: 'Invalid local repository owner' }
+    ),
+});
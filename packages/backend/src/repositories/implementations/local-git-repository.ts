@@ -0,0 +1,772 @@
+import { Effect } from 'effect';
+import { access } from 'node:fs/promises';
+import path from 'node:path';
+
+import type {
+  GitProviderRepositoryService,
+  GitRepo,
+  CreateRepoData,
+  CommitAuthor,
+  CommitOptions,
+  FileChange,
+  TemplateData,
+  TemplatePlaceholders,
+  TemplateSource,
+  SiteConfig,
+  ImportedMedia,
+  ContentLayout,
+  GitFile,
+  WebhookHeaders,
+} from '../git-provider-repository';
+
+import {
+  GitProviderError,
+  RepositoryCreationError,
+} from '../git-provider-repository';
+import {
+  INLAND_BUILD_FILES,
+  SITE_CONFIG_PATH,
+  articleFilePath,
+  isArticleFile,
+  isMediaFile,
+  parseArticleFiles,
+  shouldProcessFile,
+} from './git-content-utils';
+import {
+  assertFields as sharedAssertFields,
+  buildTemplatePlaceholders,
+  replacePlaceholders,
+} from './github-utils';
+import {
+  commitChanges,
+  getBlobSha,
+  getHeadBranch,
+  initBareRepo,
+  listTree,
+  readBlob,
+  readFileAtRef,
+  resolveBranch,
+  resolveRepoPath,
+  runGit,
+  type LocalFileChange,
+} from './local-git-utils';
+import {
+  headerValue,
+  parseGitHubPushPayload,
+  verifyHmacSignature,
+} from './webhook-utils';
+
+const DEFAULT_TEMPLATE_REPO = 'Saul-Mirone/inland-template-basic';
+const DEFAULT_BRANCH = 'main';
+
+const makeError = (message: string, status?: number) =>
+  new GitProviderError({ message, status });
+
+const assertFields = <T extends Record<string, unknown>>(
+  response: unknown,
+  fields: readonly string[],
+  context: string
+) =>
+  sharedAssertFields<GitProviderError, T>(response, fields, context, makeError);
+
+const repoExists = (gitDir: string) =>
+  Effect.promise(() =>
+    access(path.join(gitDir, 'HEAD')).then(
+      () => true,
+      () => false
+    )
+  );
+
+// Local repository operations
+const createBareRepo = (gitDir: string, templateDir: string | null) =>
+  Effect.gen(function* () {
+    yield* initBareRepo(gitDir, DEFAULT_BRANCH);
+
+    if (!templateDir) return DEFAULT_BRANCH;
+
+    // Copy the template's history so the new site starts from its commits
+    yield* runGit(gitDir, [
+      'fetch',
+      '--quiet',
+      '--no-tags',
+      templateDir,
+      '+refs/heads/*:refs/heads/*',
+    ]);
+    const branch = yield* getHeadBranch(templateDir);
+    yield* runGit(gitDir, ['symbolic-ref', 'HEAD', `refs/heads/${branch}`]);
+    return branch;
+  });
+
+const readFileOrNull = (gitDir: string, filePath: string) =>
+  Effect.gen(function* () {
+    const branch = yield* getHeadBranch(gitDir);
+    return yield* readFileAtRef(gitDir, branch, filePath);
+  });
+
+const writeFiles = (
+  gitDir: string,
+  opts: { message: string; changes: LocalFileChange[]; author?: CommitAuthor }
+) =>
+  Effect.gen(function* () {
+    const branch = yield* getHeadBranch(gitDir);
+    return yield* commitChanges(gitDir, { branch, ...opts });
+  });
+
+const deletePath = (
+  gitDir: string,
+  opts: { filePath: string; message: string; author?: CommitAuthor }
+) =>
+  Effect.gen(function* () {
+    const existing = yield* readFileOrNull(gitDir, opts.filePath);
+    if (!existing) {
+      return { deleted: false, reason: 'File not found' };
+    }
+
+    yield* writeFiles(gitDir, {
+      message: opts.message,
+      changes: [{ path: opts.filePath, content: null }],
+      author: opts.author,
+    });
+    return { deleted: true };
+  });
+
+// Composite operations
+const replaceTemplatePlaceholders = (
+  gitDir: string,
+  branch: string,
+  templateData: TemplateData,
+  tokens?: TemplatePlaceholders
+) =>
+  Effect.gen(function* () {
+    const files = yield* listTree(gitDir, branch);
+    const placeholders = buildTemplatePlaceholders(templateData, tokens);
+    const changes: LocalFileChange[] = [];
+
+    for (const file of files) {
+      if (!shouldProcessFile(file.path)) continue;
+
+      const content = (yield* readBlob(gitDir, file.sha)).toString('utf-8');
+      const updatedContent = replacePlaceholders(content, placeholders);
+
+      if (updatedContent !== content) {
+        changes.push({ path: file.path, content: Buffer.from(updatedContent) });
+      }
+    }
+
+    if (changes.length > 0) {
+      yield* commitChanges(gitDir, {
+        branch,
+        message: 'Replace template placeholders',
+        changes,
+      });
+    }
+  });
+
+// Local implementation factory. Repositories live under rootDir as
+// <owner>/<name>.git; the access token of a local integration is the
+// username that owns them, since the filesystem has no accounts of its own.
+export const makeLocalGitRepository = (config: {
+  rootDir: string;
+  publicUrl: string;
+  templateRepo?: string;
+}): GitProviderRepositoryService => {
+  const templateRepoPath = config.templateRepo ?? DEFAULT_TEMPLATE_REPO;
+  const htmlUrlFor = (repoFullName: string) =>
+    `${config.publicUrl}/${repoFullName}`;
+
+  // Resolves a repository that must already exist
+  const openRepo = (repoFullName: string) =>
+    Effect.gen(function* () {
+      const gitDir = yield* resolveRepoPath(config.rootDir, repoFullName);
+      if (!(yield* repoExists(gitDir))) {
+        return yield* makeError(`Repository not found: ${repoFullName}`, 404);
+      }
+      return gitDir;
+    });
+
+  const listArticleFiles = (
+    _accessToken: string,
+    repoFullName: string,
+    defaultBranch: string,
+    layout?: ContentLayout
+  ) =>
+    Effect.gen(function* () {
+      const gitDir = yield* openRepo(repoFullName);
+      const files = yield* listTree(gitDir, defaultBranch);
+      return files
+        .filter((file) => isArticleFile(file.path, layout))
+        .map((file): GitFile => ({ path: file.path, sha: file.sha }));
+    });
+
+  // Blobs are read by SHA, so the branch is not needed
+  const readArticleFiles = (
+    _accessToken: string,
+    repoFullName: string,
+    _defaultBranch: string,
+    files: readonly GitFile[],
+    layout?: ContentLayout
+  ) =>
+    Effect.gen(function* () {
+      const gitDir = yield* openRepo(repoFullName);
+      return yield* parseArticleFiles(files, layout, (file) =>
+        readBlob(gitDir, file.sha).pipe(
+          Effect.map((content) => content.toString('utf-8'))
+        )
+      );
+    });
+
+  // Applies a changeset to the default branch as a single commit
+  const commitFileChanges = (
+    repoFullName: string,
+    opts: {
+      message: string;
+      changes: readonly FileChange[];
+      author?: CommitAuthor;
+    }
+  ) =>
+    Effect.gen(function* () {
+      const gitDir = yield* openRepo(repoFullName);
+      const branch = yield* getHeadBranch(gitDir);
+      const files = yield* listTree(gitDir, branch).pipe(
+        Effect.catchAll(() => Effect.succeed([]))
+      );
+      const existingPaths = new Set(files.map((file) => file.path));
+
+      const changes = opts.changes
+        .filter(
+          (change) =>
+            change.base64Content !== null || existingPaths.has(change.path)
+        )
+        .map(
+          (change): LocalFileChange => ({
+            path: change.path,
+            content:
+              change.base64Content === null
+                ? null
+                : Buffer.from(change.base64Content, 'base64'),
+          })
+        );
+
+      if (changes.length === 0) {
+        return { commitSha: null, blobShas: {} };
+      }
+
+      return yield* commitChanges(gitDir, {
+        branch,
+        message: opts.message,
+        changes,
+        author: opts.author,
+      });
+    });
+
+  // Reads the workflow and template build files with placeholders filled in.
+  // Files missing from the template are skipped rather than failing the batch.
+  const buildInlandWorkflowChanges = (
+    _accessToken: string,
+    repoFullName: string,
+    templateData: TemplateData,
+    options?: { overrideExistingFiles?: boolean; template?: TemplateSource }
+  ) =>
+    Effect.gen(function* () {
+      const gitDir = yield* openRepo(repoFullName);
+      const template = options?.template;
+      const templateRepo = template?.repo ?? templateRepoPath;
+      const templateDir = yield* resolveRepoPath(config.rootDir, templateRepo);
+      const templateRef = template?.ref ?? (yield* getHeadBranch(templateDir));
+      const overrideExisting = options?.overrideExistingFiles ?? false;
+      const placeholders = buildTemplatePlaceholders(
+        templateData,
+        template?.placeholders
+      );
+
+      const filesSkipped: string[] = [];
+      const changes: FileChange[] = [];
+
+      const filesToInject = [
+        SITE_CONFIG_PATH,
+        ...(template?.files ?? INLAND_BUILD_FILES),
+      ];
+
+      for (const filePath of filesToInject) {
+        const existingFile = yield* readFileOrNull(gitDir, filePath);
+
+        if (existingFile && !overrideExisting) {
+          yield* Effect.logInfo(`Skipping existing file: ${filePath}`);
+          filesSkipped.push(filePath);
+          continue;
+        }
+
+        const templateFile = yield* readFileAtRef(
+          templateDir,
+          templateRef,
+          filePath
+        );
+        if (!templateFile) {
+          yield* Effect.logWarning(`${filePath} not found in ${templateRepo}`);
+          continue;
+        }
+
+        const content = replacePlaceholders(
+          templateFile.content.toString('utf-8'),
+          placeholders
+        );
+        changes.push({
+          path: filePath,
+          base64Content: Buffer.from(content).toString('base64'),
+        });
+      }
+
+      return { changes, filesSkipped };
+    });
+
+  return {
+    createRepositoryWithPages: (
+      accessToken: string,
+      data: CreateRepoData,
+      templateData?: TemplateData
+    ) =>
+      Effect.gen(function* () {
+        const fullName = `${accessToken}/${data.name}`;
+        const gitDir = yield* resolveRepoPath(config.rootDir, fullName);
+
+        if (yield* repoExists(gitDir)) {
+          return yield* makeError(`Repository already exists: ${fullName}`);
+        }
+
+        const templateRepo =
+          data.templateOwner && data.templateRepo
+            ? `${data.templateOwner}/${data.templateRepo}`
+            : templateRepoPath;
+        const templateDir = yield* resolveRepoPath(
+          config.rootDir,
+          templateRepo
+        );
+        const hasTemplate = yield* repoExists(templateDir);
+        if (!hasTemplate) {
+          yield* Effect.logWarning(
+            `Template ${templateRepo} not found under ${config.rootDir}, creating an empty repository`
+          );
+        }
+
+        const branch = yield* createBareRepo(
+          gitDir,
+          hasTemplate ? templateDir : null
+        );
+
+        if (templateData && hasTemplate) {
+          yield* replaceTemplatePlaceholders(
+            gitDir,
+            branch,
+            templateData,
+            data.placeholders
+          );
+        }
+
+        // Local repositories have no Pages hosting, so pagesUrl stays unset
+        return {
+          id: fullName,
+          name: data.name,
+          fullName,
+          htmlUrl: htmlUrlFor(fullName),
+          cloneUrl: gitDir,
+          defaultBranch: branch,
+        } satisfies GitRepo;
+      }).pipe(
+        Effect.catchAll(
+          (error) =>
+            new RepositoryCreationError({
+              repoName: data.name,
+              reason: error.message,
+            })
+        )
+      ),
+
+    deleteArticleFromRepo: (
+      _accessToken: string,
+      repoFullName: string,
+      articleSlug: string,
+      filePath = articleFilePath(articleSlug),
+      commitOptions?: CommitOptions
+    ) =>
+      Effect.gen(function* () {
+        const gitDir = yield* openRepo(repoFullName);
+        const result = yield* deletePath(gitDir, {
+          filePath,
+          message: commitOptions?.message ?? `Delete article: ${articleSlug}`,
+          author: commitOptions?.author,
+        });
+
+        return result.deleted ? { deleted: true, filePath } : result;
+      }),
+
+    // Local repositories are written directly; there is nowhere to review
+    proposeArticleChange: (_accessToken: string, repoFullName: string) =>
+      makeError(
+        `Pull requests are not available for local repository ${repoFullName}`,
+        400
+      ),
+
+    getPullRequest: (_accessToken: string, repoFullName: string) =>
+      makeError(
+        `Pull requests are not available for local repository ${repoFullName}`,
+        400
+      ),
+
+    getArticleFileSha: (
+      _accessToken: string,
+      repoFullName: string,
+      articleSlug: string,
+      filePath = articleFilePath(articleSlug)
+    ) =>
+      Effect.gen(function* () {
+        const gitDir = yield* openRepo(repoFullName);
+        const branch = yield* getHeadBranch(gitDir);
+        return yield* getBlobSha(gitDir, branch, filePath).pipe(
+          Effect.catchAll(() => Effect.succeed(null))
+        );
+      }),
+
+    listFileCommits: (_accessToken: string, repoFullName: string) =>
+      makeError(
+        `Article history is not available for local repository ${repoFullName} yet`,
+        501
+      ),
+
+    getFileAtRef: (
+      _accessToken: string,
+      repoFullName: string,
+      filePath: string,
+      ref: string
+    ) =>
+      Effect.gen(function* () {
+        const gitDir = yield* openRepo(repoFullName);
+        const file = yield* readFileAtRef(gitDir, ref, filePath);
+        return file ? file.content.toString('utf-8') : null;
+      }),
+
+    getBlobContent: (
+      _accessToken: string,
+      repoFullName: string,
+      blobSha: string
+    ) =>
+      Effect.gen(function* () {
+        const gitDir = yield* openRepo(repoFullName);
+        const content = yield* readBlob(gitDir, blobSha).pipe(
+          Effect.catchAll(() => Effect.succeed(null))
+        );
+        return content?.toString('utf-8') ?? null;
+      }),
+
+    getMarkdownFilesFromRepo: (
+      accessToken: string,
+      repoFullName: string,
+      defaultBranch: string,
+      layout?: ContentLayout
+    ) =>
+      Effect.gen(function* () {
+        yield* Effect.logInfo(`Reading markdown files from ${repoFullName}`);
+
+        const files = yield* listArticleFiles(
+          accessToken,
+          repoFullName,
+          defaultBranch,
+          layout
+        );
+        return yield* readArticleFiles(
+          accessToken,
+          repoFullName,
+          defaultBranch,
+          files,
+          layout
+        );
+      }),
+
+    listArticleFiles,
+
+    readArticleFiles,
+
+    getMediaFilesFromRepo: (
+      _accessToken: string,
+      repoFullName: string,
+      defaultBranch: string,
+      layout?: ContentLayout
+    ) =>
+      Effect.gen(function* () {
+        const gitDir = yield* openRepo(repoFullName);
+        const files = yield* listTree(gitDir, defaultBranch);
+
+        return files
+          .filter((file) => isMediaFile(file.path, layout))
+          .map(
+            (file): ImportedMedia => ({
+              filePath: file.path,
+              filename: file.path.split('/').pop()!,
+              sha: file.sha,
+              size: file.size,
+            })
+          );
+      }),
+
+    publishArticleToRepo: (
+      _accessToken: string,
+      repoFullName: string,
+      articleSlug: string,
+      markdownContent: string,
+      filePath = articleFilePath(articleSlug),
+      commitOptions?: CommitOptions
+    ) =>
+      Effect.gen(function* () {
+        const gitDir = yield* openRepo(repoFullName);
+        const existingFile = yield* readFileOrNull(gitDir, filePath);
+        const wasUpdate = existingFile !== null;
+
+        const result = yield* writeFiles(gitDir, {
+          message:
+            commitOptions?.message ??
+            `${wasUpdate ? 'Update' : 'Add'} article: ${articleSlug}`,
+          changes: [{ path: filePath, content: Buffer.from(markdownContent) }],
+          author: commitOptions?.author,
+        });
+
+        return {
+          published: true,
+          filePath,
+          commitSha: result.commitSha,
+          blobSha: result.blobShas[filePath],
+          wasUpdate,
+        };
+      }),
+
+    getRepositoryInfo: (_accessToken: string, repoFullName: string) =>
+      Effect.gen(function* () {
+        const gitDir = yield* openRepo(repoFullName);
+        const defaultBranch = yield* getHeadBranch(gitDir);
+
+        return {
+          fullName: repoFullName,
+          defaultBranch,
+          htmlUrl: htmlUrlFor(repoFullName),
+        };
+      }),
+
+    // Nothing deploys a local repository
+    getCommitDeployRun: (_accessToken: string, repoFullName: string) =>
+      makeError(
+        `Deploy runs are not available for local repository ${repoFullName}`,
+        501
+      ),
+
+    getBranchHead: (
+      _accessToken: string,
+      repoFullName: string,
+      branch: string
+    ) =>
+      Effect.gen(function* () {
+        const gitDir = yield* openRepo(repoFullName);
+        const sha = yield* resolveBranch(gitDir, branch);
+        if (!sha) {
+          return yield* makeError(
+            `Branch ${branch} not found in ${repoFullName}`,
+            404
+          );
+        }
+        return sha;
+      }),
+
+    checkPagesStatus: (_accessToken: string, repoFullName: string) =>
+      Effect.gen(function* () {
+        yield* openRepo(repoFullName);
+        return { enabled: false };
+      }),
+
+    buildInlandWorkflowChanges,
+
+    injectInlandWorkflow: (
+      accessToken: string,
+      repoFullName: string,
+      templateData: TemplateData,
+      options?: { overrideExistingFiles?: boolean; template?: TemplateSource }
+    ) =>
+      Effect.gen(function* () {
+        yield* Effect.logInfo(`Injecting Inland workflow into ${repoFullName}`);
+
+        const { changes, filesSkipped } = yield* buildInlandWorkflowChanges(
+          accessToken,
+          repoFullName,
+          templateData,
+          options
+        );
+        const filesCreated = changes.map((change) => change.path);
+
+        if (changes.length > 0) {
+          yield* commitFileChanges(repoFullName, {
+            message: 'Add Inland CMS workflow',
+            changes,
+          });
+          yield* Effect.logInfo(`Injected files: ${filesCreated.join(', ')}`);
+        }
+
+        return {
+          filesCreated,
+          filesSkipped,
+          workflowUrl: htmlUrlFor(repoFullName),
+        };
+      }),
+
+    enablePages: (_accessToken: string, repoFullName: string) =>
+      makeError(
+        `Pages hosting is not available for local repository ${repoFullName}`
+      ),
+
+    setPagesDomain: (_accessToken: string, repoFullName: string) =>
+      makeError(
+        `Pages hosting is not available for local repository ${repoFullName}`,
+        501
+      ),
+
+    uploadFileToRepo: (
+      _accessToken: string,
+      repoFullName: string,
+      opts: {
+        filePath: string;
+        base64Content: string;
+        commitMessage: string;
+      }
+    ) =>
+      Effect.gen(function* () {
+        const gitDir = yield* openRepo(repoFullName);
+        const result = yield* writeFiles(gitDir, {
+          message: opts.commitMessage,
+          changes: [
+            {
+              path: opts.filePath,
+              content: Buffer.from(opts.base64Content, 'base64'),
+            },
+          ],
+        });
+
+        return {
+          filePath: opts.filePath,
+          blobSha: result.blobShas[opts.filePath],
+          commitSha: result.commitSha,
+        };
+      }),
+
+    deleteFileFromRepo: (
+      _accessToken: string,
+      repoFullName: string,
+      opts: { filePath: string; commitMessage: string }
+    ) =>
+      Effect.gen(function* () {
+        const gitDir = yield* openRepo(repoFullName);
+        return yield* deletePath(gitDir, {
+          filePath: opts.filePath,
+          message: opts.commitMessage,
+        });
+      }),
+
+    commitChangeset: (
+      _accessToken: string,
+      repoFullName: string,
+      opts: {
+        message: string;
+        changes: readonly FileChange[];
+        author?: CommitAuthor;
+      }
+    ) => commitFileChanges(repoFullName, opts),
+
+    checkRepoExists: (_accessToken: string, repoFullName: string) =>
+      Effect.flatMap(resolveRepoPath(config.rootDir, repoFullName), repoExists),
+
+    pushSiteConfig: (
+      _accessToken: string,
+      repoFullName: string,
+      siteConfig: SiteConfig
+    ) =>
+      Effect.gen(function* () {
+        const gitDir = yield* openRepo(repoFullName);
+        const filePath = SITE_CONFIG_PATH;
+        const result = yield* writeFiles(gitDir, {
+          message: 'Update site configuration',
+          changes: [
+            {
+              path: filePath,
+              content: Buffer.from(JSON.stringify(siteConfig, null, 2) + '\n'),
+            },
+          ],
+        });
+
+        return { filePath, commitSha: result.commitSha };
+      }),
+
+    getSiteConfig: (_accessToken: string, repoFullName: string) =>
+      Effect.gen(function* () {
+        const gitDir = yield* openRepo(repoFullName);
+        const file = yield* readFileOrNull(gitDir, SITE_CONFIG_PATH);
+        if (!file) return null;
+
+        const parsed = yield* assertFields<{
+          name: string;
+          description: string;
+          url: string;
+          author: string;
+          avatarUrl: string;
+          authorUrl: string;
+        }>(
+          JSON.parse(file.content.toString('utf-8')),
+          ['name'],
+          SITE_CONFIG_PATH
+        );
+        return {
+          name: parsed.name,
+          description: parsed.description,
+          url: parsed.url,
+          author: parsed.author,
+          avatarUrl: parsed.avatarUrl,
+          authorUrl: parsed.authorUrl,
+        } satisfies SiteConfig;
+      }).pipe(Effect.catchAll(() => Effect.succeed(null))),
+
+    getRawFileUrl: (repoFullName: string, ref: string, filePath: string) =>
+      `${config.publicUrl}/${repoFullName}/raw/${ref}/${filePath}`,
+
+    getPublicUrls: (
+      repoFullName: string,
+      user: { username: string; avatarUrl: string }
+    ) => ({
+      pagesUrl: htmlUrlFor(repoFullName),
+      avatarUrl: user.avatarUrl,
+      authorUrl: `${config.publicUrl}/${user.username}`,
+    }),
+
+    // There is no forge to call, so the hook is recorded in the bare
+    // repository's config for whatever sends its signed push payloads
+    registerPushWebhook: (
+      _accessToken: string,
+      repoFullName: string,
+      opts: { url: string; secret: string }
+    ) =>
+      Effect.gen(function* () {
+        const gitDir = yield* openRepo(repoFullName);
+        yield* runGit(gitDir, ['config', 'inland.webhookUrl', opts.url]);
+        yield* runGit(gitDir, ['config', 'inland.webhookSecret', opts.secret]);
+      }),
+
+    parsePushEvent: (headers: WebhookHeaders, payload: unknown) =>
+      headerValue(headers, 'X-Inland-Event') === 'push'
+        ? parseGitHubPushPayload(payload)
+        : null,
+
+    verifyWebhookSignature: (
+      headers: WebhookHeaders,
+      rawBody: Buffer,
+      secret: string
+    ) =>
+      verifyHmacSignature(
+        headerValue(headers, 'X-Inland-Signature-256'),
+        rawBody,
+        secret,
+        'sha256='
+      ),
+  };
+};
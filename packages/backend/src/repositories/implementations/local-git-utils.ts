@@ -0,0 +1,253 @@
+import { Effect } from 'effect';
+import { execFile } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import type { CommitAuthor } from '../git-provider-repository';
+
+import { GitProviderError } from '../git-provider-repository';
+
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+const ZERO_OID = '0000000000000000000000000000000000000000';
+const SEGMENT_PATTERN = /^[a-zA-Z0-9_-][a-zA-Z0-9_.-]*$/;
+
+const COMMIT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'Inland CMS',
+  GIT_AUTHOR_EMAIL: 'inland@localhost',
+  GIT_COMMITTER_NAME: 'Inland CMS',
+  GIT_COMMITTER_EMAIL: 'inland@localhost',
+};
+
+// Local repository types
+export interface LocalTreeEntry {
+  readonly path: string;
+  readonly sha: string;
+  readonly size: number;
+}
+
+// Content to write at a path, or null to delete it
+export interface LocalFileChange {
+  readonly path: string;
+  readonly content: Buffer | null;
+}
+
+const gitError = (message: string, status?: number) =>
+  new GitProviderError({ message, status });
+
+interface GitRunOptions {
+  readonly input?: Buffer;
+  readonly env?: Record<string, string>;
+}
+
+const execGit = (
+  command: string,
+  args: readonly string[],
+  options: GitRunOptions = {}
+): Effect.Effect<Buffer, GitProviderError> =>
+  Effect.async<Buffer, GitProviderError>((resume) => {
+    const child = execFile(
+      'git',
+      args,
+      {
+        encoding: 'buffer',
+        maxBuffer: MAX_OUTPUT_BYTES,
+        env: { ...process.env, ...options.env },
+      },
+      (error, stdout, stderr) => {
+        if (error) {
+          const detail = stderr.toString().trim() || error.message;
+          resume(Effect.fail(gitError(`git ${command} failed: ${detail}`)));
+          return;
+        }
+        resume(Effect.succeed(stdout));
+      }
+    );
+    child.stdin?.end(options.input);
+  });
+
+// Runs git against a bare repository and resolves with its raw stdout
+export const runGit = (
+  gitDir: string,
+  args: readonly string[],
+  options?: GitRunOptions
+) => execGit(args[0], ['--git-dir', gitDir, ...args], options);
+
+export const initBareRepo = (gitDir: string, branch: string) =>
+  execGit('init', [
+    'init',
+    '--bare',
+    '--quiet',
+    `--initial-branch=${branch}`,
+    gitDir,
+  ]);
+
+const runGitText = (
+  gitDir: string,
+  args: readonly string[],
+  options?: GitRunOptions
+) =>
+  runGit(gitDir, args, options).pipe(
+    Effect.map((output) => output.toString('utf-8').trim())
+  );
+
+// Maps "owner/name" to <root>/owner/name.git, rejecting anything that could
+// escape the root directory
+export const resolveRepoPath = (
+  rootDir: string,
+  repoFullName: string
+): Effect.Effect<string, GitProviderError> => {
+  const segments = repoFullName.split('/');
+  if (
+    segments.length < 2 ||
+    !segments.every((segment) => SEGMENT_PATTERN.test(segment))
+  ) {
+    return Effect.fail(
+      gitError(`Invalid repository name: ${repoFullName}`, 400)
+    );
+  }
+  return Effect.succeed(path.join(rootDir, `${repoFullName}.git`));
+};
+
+export const resolveBranch = (gitDir: string, branch: string) =>
+  runGitText(gitDir, [
+    'rev-parse',
+    '--verify',
+    '--quiet',
+    `refs/heads/${branch}^{commit}`,
+  ]).pipe(Effect.catchAll(() => Effect.succeed(null)));
+
+export const getHeadBranch = (gitDir: string) =>
+  runGitText(gitDir, ['symbolic-ref', '--short', 'HEAD']).pipe(
+    Effect.catchAll(() => Effect.succeed('main'))
+  );
+
+// Lists every blob reachable from the ref with its SHA and size
+export const listTree = (gitDir: string, ref: string) =>
+  Effect.gen(function* () {
+    const output = yield* runGit(gitDir, ['ls-tree', '-r', '-l', '-z', ref]);
+
+    return output
+      .toString('utf-8')
+      .split('\0')
+      .filter(Boolean)
+      .flatMap((line): LocalTreeEntry[] => {
+        const tab = line.indexOf('\t');
+        const [, type, sha, size] = line.slice(0, tab).split(/\s+/);
+        if (type !== 'blob') return [];
+        return [{ path: line.slice(tab + 1), sha, size: Number(size) }];
+      });
+  });
+
+export const getBlobSha = (gitDir: string, ref: string, filePath: string) =>
+  runGitText(gitDir, ['ls-tree', '-z', ref, '--', filePath]).pipe(
+    Effect.map((line) => {
+      if (!line) return null;
+      const [, type, sha] = line.slice(0, line.indexOf('\t')).split(/\s+/);
+      return type === 'blob' ? sha : null;
+    })
+  );
+
+export const readBlob = (gitDir: string, sha: string) =>
+  runGit(gitDir, ['cat-file', 'blob', sha]);
+
+// Reads a file at a ref, or null when the ref or path does not exist
+export const readFileAtRef = (gitDir: string, ref: string, filePath: string) =>
+  Effect.gen(function* () {
+    const sha = yield* getBlobSha(gitDir, ref, filePath).pipe(
+      Effect.catchAll(() => Effect.succeed(null))
+    );
+    if (!sha) return null;
+
+    const content = yield* readBlob(gitDir, sha);
+    return { sha, content };
+  });
+
+export const hashObject = (gitDir: string, content: Buffer) =>
+  runGitText(gitDir, ['hash-object', '-w', '--stdin'], { input: content });
+
+// Writes the changes as one commit on the branch. The ref only moves if it
+// still points at the commit the changes were built on, so concurrent
+// writers get a 409 instead of silently losing each other's work.
+export const commitChanges = (
+  gitDir: string,
+  opts: {
+    branch: string;
+    message: string;
+    changes: LocalFileChange[];
+    author?: CommitAuthor;
+  }
+) =>
+  Effect.acquireUseRelease(
+    Effect.sync(() => path.join(tmpdir(), `inland-index-${randomUUID()}`)),
+    (indexFile) =>
+      Effect.gen(function* () {
+        const env = {
+          ...COMMIT_IDENTITY,
+          ...(opts.author && {
+            GIT_AUTHOR_NAME: opts.author.name,
+            GIT_AUTHOR_EMAIL: opts.author.email,
+            GIT_COMMITTER_NAME: opts.author.name,
+            GIT_COMMITTER_EMAIL: opts.author.email,
+          }),
+          GIT_INDEX_FILE: indexFile,
+        };
+        const parent = yield* resolveBranch(gitDir, opts.branch);
+
+        if (parent) {
+          yield* runGit(gitDir, ['read-tree', parent], { env });
+        }
+
+        const blobShas: Record<string, string> = {};
+        const indexLines: string[] = [];
+
+        for (const change of opts.changes) {
+          if (change.content === null) {
+            // Mode 0 removes the entry from the index
+            indexLines.push(`0 ${ZERO_OID}\t${change.path}`);
+            continue;
+          }
+
+          const sha = yield* hashObject(gitDir, change.content);
+          indexLines.push(`100644 ${sha}\t${change.path}`);
+          blobShas[change.path] = sha;
+        }
+
+        // A bare repository has no work tree, so the index is edited directly
+        yield* runGit(gitDir, ['update-index', '--index-info'], {
+          input: Buffer.from(indexLines.join('\n') + '\n'),
+          env,
+        });
+
+        const tree = yield* runGitText(gitDir, ['write-tree'], { env });
+        const commitSha = yield* runGitText(
+          gitDir,
+          [
+            'commit-tree',
+            tree,
+            ...(parent ? ['-p', parent] : []),
+            '-m',
+            opts.message,
+          ],
+          { env }
+        );
+
+        yield* runGit(gitDir, [
+          'update-ref',
+          `refs/heads/${opts.branch}`,
+          commitSha,
+          parent ?? ZERO_OID,
+        ]).pipe(
+          Effect.mapError(() =>
+            gitError(
+              `Branch ${opts.branch} was updated by another commit, retry the change`,
+              409
+            )
+          )
+        );
+
+        return { commitSha, blobShas };
+      }),
+    (indexFile) => Effect.promise(() => rm(indexFile, { force: true }))
+  );
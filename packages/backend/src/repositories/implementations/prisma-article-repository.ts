@@ -1,10 +1,15 @@
 import { Effect, Layer } from 'effect';
 
+import { Prisma } from '../../../generated/prisma/client';
 import { DatabaseService } from '../../services/database-service';
 import {
   ArticleRepository,
   type ArticleRepositoryService,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_STOP,
   type ArticleCreateData,
+  type ArticleSearchQuery,
+  type ArticleSearchRow,
   type ArticleUpdateData,
 } from '../article-repository';
 import {
@@ -15,6 +20,11 @@ import {
 import { RepositoryError } from '../repository-error';
 import { withDatabase } from '../with-database';
 
+// Prisma clears a JSON column with DbNull rather than null
+const toJsonColumn = (value: Record<string, unknown> | null) =>
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+  value === null ? Prisma.DbNull : (value as Prisma.InputJsonObject);
+
 // Individual atomic operations
 const createArticle = (data: ArticleCreateData) =>
   Effect.gen(function* () {
@@ -45,6 +55,9 @@ const createArticle = (data: ArticleCreateData) =>
             ...(data.gitSyncedHash !== undefined && {
               gitSyncedHash: data.gitSyncedHash,
             }),
+            ...(data.extraFrontMatter !== undefined && {
+              extraFrontMatter: toJsonColumn(data.extraFrontMatter),
+            }),
           },
           include: {
             site: {
@@ -53,6 +66,7 @@ const createArticle = (data: ArticleCreateData) =>
                 name: true,
                 userId: true,
                 gitRepo: true,
+                platform: true,
               },
             },
           },
@@ -62,6 +76,21 @@ const createArticle = (data: ArticleCreateData) =>
     });
   });
 
+// The site fields publishing an article needs
+const publishSiteSelect = {
+  id: true,
+  name: true,
+  userId: true,
+  gitRepo: true,
+  platform: true,
+  publishMode: true,
+  contentRoot: true,
+  fileNaming: true,
+  commitMessageTemplate: true,
+  mediaUrlStrategy: true,
+  deployUrl: true,
+} as const;
+
 const findArticleById = (id: string) =>
   Effect.gen(function* () {
     const { prisma } = yield* DatabaseService;
@@ -69,22 +98,27 @@ const findArticleById = (id: string) =>
       try: () =>
         prisma.article.findUnique({
           where: { id },
-          include: {
-            site: {
-              select: {
-                id: true,
-                name: true,
-                userId: true,
-                gitRepo: true,
-              },
-            },
-          },
+          include: { site: { select: publishSiteSelect } },
         }),
       catch: (error) =>
         new RepositoryError({ operation: 'article.findById', cause: error }),
     });
   });
 
+const findArticlesByIds = (siteId: string, ids: readonly string[]) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    return yield* Effect.tryPromise({
+      try: () =>
+        prisma.article.findMany({
+          where: { siteId, id: { in: [...ids] } },
+          include: { site: { select: publishSiteSelect } },
+        }),
+      catch: (error) =>
+        new RepositoryError({ operation: 'article.findByIds', cause: error }),
+    });
+  });
+
 const findArticleBySiteIdAndSlug = (siteId: string, slug: string) =>
   Effect.gen(function* () {
     const { prisma } = yield* DatabaseService;
@@ -125,6 +159,9 @@ const findArticlesBySiteId = (siteId: string, pagination?: PaginationOptions) =>
               gitSyncedAt: true,
               contentHash: true,
               gitSyncedHash: true,
+              pullRequestUrl: true,
+              scheduledAt: true,
+              scheduleError: true,
               createdAt: true,
               updatedAt: true,
             },
@@ -169,6 +206,7 @@ const findArticlesByUserId = (userId: string, pagination?: PaginationOptions) =>
                   name: true,
                   userId: true,
                   gitRepo: true,
+                  platform: true,
                 },
               },
             },
@@ -223,6 +261,27 @@ const updateArticle = (id: string, data: ArticleUpdateData) =>
             ...(data.gitSyncedHash !== undefined && {
               gitSyncedHash: data.gitSyncedHash,
             }),
+            ...(data.pullRequestNumber !== undefined && {
+              pullRequestNumber: data.pullRequestNumber,
+            }),
+            ...(data.pullRequestUrl !== undefined && {
+              pullRequestUrl: data.pullRequestUrl,
+            }),
+            ...(data.extraFrontMatter !== undefined && {
+              extraFrontMatter: toJsonColumn(data.extraFrontMatter),
+            }),
+            ...(data.previousSlug !== undefined && {
+              previousSlug: data.previousSlug,
+            }),
+            ...(data.previousPublishedAt !== undefined && {
+              previousPublishedAt: data.previousPublishedAt,
+            }),
+            ...(data.scheduledAt !== undefined && {
+              scheduledAt: data.scheduledAt,
+            }),
+            ...(data.scheduleError !== undefined && {
+              scheduleError: data.scheduleError,
+            }),
           },
           include: {
             site: {
@@ -231,6 +290,7 @@ const updateArticle = (id: string, data: ArticleUpdateData) =>
                 name: true,
                 userId: true,
                 gitRepo: true,
+                platform: true,
               },
             },
           },
@@ -247,7 +307,16 @@ const findAllForSync = (siteId: string) =>
       try: () =>
         prisma.article.findMany({
           where: { siteId },
-          select: { id: true, slug: true, status: true, gitSha: true },
+          select: {
+            id: true,
+            slug: true,
+            previousSlug: true,
+            status: true,
+            gitSha: true,
+            pullRequestNumber: true,
+            publishedAt: true,
+            previousPublishedAt: true,
+          },
         }),
       catch: (error) =>
         new RepositoryError({
@@ -274,6 +343,80 @@ const findAllPublishedBySiteId = (siteId: string) =>
     });
   });
 
+const findScheduledArticles = () =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    const articles = yield* Effect.tryPromise({
+      try: () =>
+        prisma.article.findMany({
+          where: { scheduledAt: { not: null } },
+          select: { id: true, scheduledAt: true },
+        }),
+      catch: (error) =>
+        new RepositoryError({
+          operation: 'article.findScheduled',
+          cause: error,
+        }),
+    });
+
+    return articles.flatMap(({ id, scheduledAt }) =>
+      scheduledAt ? [{ id, scheduledAt }] : []
+    );
+  });
+
+const TITLE_HEADLINE_OPTIONS = `HighlightAll=true, StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_STOP}`;
+const CONTENT_HEADLINE_OPTIONS = `MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" ... ", StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_STOP}`;
+
+// Ranks on the generated search_vector column; headlines are only built
+// for the page of results since they reparse the whole content
+const searchArticles = (
+  siteId: string,
+  query: ArticleSearchQuery,
+  { page, limit }: PaginationOptions
+) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    const statusFilter = query.status
+      ? Prisma.sql`AND a.status = ${query.status}`
+      : Prisma.empty;
+    const tagFilter = query.tag
+      ? Prisma.sql`AND ${query.tag.toLowerCase()} IN (
+          SELECT lower(btrim(t)) FROM unnest(string_to_array(a.tags, ',')) AS t
+        )`
+      : Prisma.empty;
+
+    return yield* Effect.tryPromise({
+      try: () =>
+        prisma.$queryRaw<ArticleSearchRow[]>`
+          WITH q AS (
+            SELECT websearch_to_tsquery('english', ${query.text}) AS query
+          ),
+          ranked AS (
+            SELECT a.id, a.title, a.slug, a.status, a.tags, a.content,
+              a.published_at, a.updated_at,
+              ts_rank_cd(a.search_vector, q.query) AS rank
+            FROM articles a, q
+            WHERE a.site_id = ${siteId}
+              AND a.search_vector @@ q.query
+              ${statusFilter}
+              ${tagFilter}
+            ORDER BY rank DESC, a.updated_at DESC
+            LIMIT ${limit} OFFSET ${(page - 1) * limit}
+          )
+          SELECT ranked.id, ranked.title, ranked.slug, ranked.status,
+            ranked.tags, ranked.published_at AS "publishedAt", ranked.rank,
+            ts_headline('english', ranked.title, q.query,
+              ${TITLE_HEADLINE_OPTIONS}) AS "titleHeadline",
+            ts_headline('english', ranked.content, q.query,
+              ${CONTENT_HEADLINE_OPTIONS}) AS "contentHeadline"
+          FROM ranked, q
+          ORDER BY ranked.rank DESC, ranked.updated_at DESC
+        `,
+      catch: (error) =>
+        new RepositoryError({ operation: 'article.search', cause: error }),
+    });
+  });
+
 const deleteArticle = (id: string) =>
   Effect.gen(function* () {
     const { prisma } = yield* DatabaseService;
@@ -296,6 +439,7 @@ export const PrismaArticleRepositoryLive = Layer.effect(
     return {
       create: bind(createArticle),
       findById: bind(findArticleById),
+      findByIds: bind(findArticlesByIds),
       findBySiteIdAndSlug: bind(findArticleBySiteIdAndSlug),
       findBySiteId: bind(findArticlesBySiteId),
       findByUserId: bind(findArticlesByUserId),
@@ -303,6 +447,8 @@ export const PrismaArticleRepositoryLive = Layer.effect(
       delete: bind(deleteArticle),
       findAllForSync: bind(findAllForSync),
       findAllPublishedBySiteId: bind(findAllPublishedBySiteId),
+      findScheduled: bind(findScheduledArticles),
+      search: bind(searchArticles),
     } satisfies ArticleRepositoryService;
   })
 );
@@ -0,0 +1,130 @@
+import { Effect, Layer } from 'effect';
+
+import { DatabaseService } from '../../services/database-service';
+import {
+  ArticleRevisionRepository,
+  type ArticleRevisionCreateData,
+  type ArticleRevisionRepositoryService,
+} from '../article-revision-repository';
+import { RepositoryError } from '../repository-error';
+import { withDatabase } from '../with-database';
+
+const summarySelect = {
+  id: true,
+  articleId: true,
+  kind: true,
+  label: true,
+  title: true,
+  slug: true,
+  excerpt: true,
+  tags: true,
+  contentHash: true,
+  createdAt: true,
+} as const;
+
+const findByArticleId = (articleId: string) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    return yield* Effect.tryPromise({
+      try: () =>
+        prisma.articleRevision.findMany({
+          where: { articleId },
+          select: summarySelect,
+          orderBy: { createdAt: 'desc' },
+        }),
+      catch: (cause) =>
+        new RepositoryError({
+          operation: 'articleRevision.findByArticleId',
+          cause,
+        }),
+    });
+  });
+
+const findById = (id: string) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    return yield* Effect.tryPromise({
+      try: () => prisma.articleRevision.findUnique({ where: { id } }),
+      catch: (cause) =>
+        new RepositoryError({ operation: 'articleRevision.findById', cause }),
+    });
+  });
+
+const findLatest = (articleId: string) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    return yield* Effect.tryPromise({
+      try: () =>
+        prisma.articleRevision.findFirst({
+          where: { articleId },
+          select: summarySelect,
+          orderBy: { createdAt: 'desc' },
+        }),
+      catch: (cause) =>
+        new RepositoryError({ operation: 'articleRevision.findLatest', cause }),
+    });
+  });
+
+const create = (data: ArticleRevisionCreateData) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    return yield* Effect.tryPromise({
+      try: () => prisma.articleRevision.create({ data }),
+      catch: (cause) =>
+        new RepositoryError({ operation: 'articleRevision.create', cause }),
+    });
+  });
+
+const pruneAutosaves = (
+  articleId: string,
+  options: { readonly keep: number; readonly before: Date }
+) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    const catchPrune = (cause: unknown) =>
+      new RepositoryError({
+        operation: 'articleRevision.pruneAutosaves',
+        cause,
+      });
+
+    const overflow = yield* Effect.tryPromise({
+      try: () =>
+        prisma.articleRevision.findMany({
+          where: { articleId, kind: 'autosave' },
+          select: { id: true },
+          orderBy: { createdAt: 'desc' },
+          skip: options.keep,
+        }),
+      catch: catchPrune,
+    });
+    const { count } = yield* Effect.tryPromise({
+      try: () =>
+        prisma.articleRevision.deleteMany({
+          where: {
+            articleId,
+            kind: 'autosave',
+            OR: [
+              { createdAt: { lt: options.before } },
+              { id: { in: overflow.map((revision) => revision.id) } },
+            ],
+          },
+        }),
+      catch: catchPrune,
+    });
+    return count;
+  });
+
+export const PrismaArticleRevisionRepositoryLive = Layer.effect(
+  ArticleRevisionRepository,
+  Effect.gen(function* () {
+    const db = yield* DatabaseService;
+    const bind = withDatabase(db);
+    return {
+      findByArticleId: bind(findByArticleId),
+      findById: bind(findById),
+      findLatest: bind(findLatest),
+      create: bind(create),
+      pruneAutosaves: bind(pruneAutosaves),
+    } satisfies ArticleRevisionRepositoryService;
+  })
+);
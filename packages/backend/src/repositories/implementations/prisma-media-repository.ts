@@ -34,6 +34,9 @@ const createMedia = (data: MediaCreateData) =>
             ...(data.externalUrl !== undefined && {
               externalUrl: data.externalUrl,
             }),
+            ...(data.commitSha !== undefined && {
+              commitSha: data.commitSha,
+            }),
             ...(data.alt !== undefined && { alt: data.alt }),
           },
         }),
@@ -51,7 +54,7 @@ const findById = (id: string) =>
           where: { id },
           include: {
             site: {
-              select: { id: true, userId: true, gitRepo: true },
+              select: { id: true, userId: true, gitRepo: true, platform: true },
             },
           },
         }),
@@ -94,6 +97,16 @@ const findBySiteId = (siteId: string, pagination?: PaginationOptions) =>
     };
   });
 
+const findAllBySiteId = (siteId: string) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    return yield* Effect.tryPromise({
+      try: () => prisma.media.findMany({ where: { siteId } }),
+      catch: (cause) =>
+        new RepositoryError({ operation: 'media.findAllBySiteId', cause }),
+    });
+  });
+
 const findBySiteIdAndHash = (siteId: string, contentHash: string) =>
   Effect.gen(function* () {
     const { prisma } = yield* DatabaseService;
@@ -145,6 +158,7 @@ export const PrismaMediaRepositoryLive = Layer.effect(
       create: bind(createMedia),
       findById: bind(findById),
       findBySiteId: bind(findBySiteId),
+      findAllBySiteId: bind(findAllBySiteId),
       findBySiteIdAndHash: bind(findBySiteIdAndHash),
       findBySiteIdAndPath: bind(findBySiteIdAndPath),
       delete: bind(deleteMedia),
@@ -56,7 +56,11 @@ const findSiteByIdWithDetails = (id: string) =>
           select: {
             id: true,
             gitRepo: true,
+            platform: true,
             userId: true,
+            contentRoot: true,
+            fileNaming: true,
+            mediaRoot: true,
           },
         }),
       catch: (error) =>
@@ -194,12 +198,48 @@ const updateSite = (id: string, data: SiteUpdateData) =>
             }),
             ...(data.gitRepo !== undefined && { gitRepo: data.gitRepo }),
             ...(data.platform !== undefined && { platform: data.platform }),
+            ...(data.publishMode !== undefined && {
+              publishMode: data.publishMode,
+            }),
+            ...(data.contentRoot !== undefined && {
+              contentRoot: data.contentRoot,
+            }),
+            ...(data.fileNaming !== undefined && {
+              fileNaming: data.fileNaming,
+            }),
+            ...(data.mediaRoot !== undefined && {
+              mediaRoot: data.mediaRoot,
+            }),
+            ...(data.commitMessageTemplate !== undefined && {
+              commitMessageTemplate: data.commitMessageTemplate,
+            }),
+            ...(data.mediaUrlStrategy !== undefined && {
+              mediaUrlStrategy: data.mediaUrlStrategy,
+            }),
+            ...(data.templateVersion !== undefined && {
+              templateVersion: data.templateVersion,
+            }),
             ...(data.deployStatus !== undefined && {
               deployStatus: data.deployStatus,
             }),
             ...(data.deployUrl !== undefined && {
               deployUrl: data.deployUrl,
             }),
+            ...(data.customDomain !== undefined && {
+              customDomain: data.customDomain,
+            }),
+            ...(data.deployCommitSha !== undefined && {
+              deployCommitSha: data.deployCommitSha,
+            }),
+            ...(data.deployRunUrl !== undefined && {
+              deployRunUrl: data.deployRunUrl,
+            }),
+            ...(data.deployStartedAt !== undefined && {
+              deployStartedAt: data.deployStartedAt,
+            }),
+            ...(data.deployDuration !== undefined && {
+              deployDuration: data.deployDuration,
+            }),
           },
         }),
       catch: (error) =>
@@ -235,6 +275,8 @@ const createSite = (data: SiteCreateData) =>
             platform: data.platform || 'github',
             deployStatus: data.deployStatus || 'pending',
             deployUrl: data.deployUrl,
+            templateId: data.templateId,
+            templateVersion: data.templateVersion,
           },
         }),
       catch: (error) =>
@@ -242,6 +284,49 @@ const createSite = (data: SiteCreateData) =>
     });
   });
 
+const findWebhooksByRepo = (platform: string, gitRepo: string) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    const webhooks = yield* Effect.tryPromise({
+      try: () =>
+        prisma.siteWebhook.findMany({
+          where: { site: { platform, gitRepo } },
+          select: {
+            secret: true,
+            site: { select: { id: true, userId: true } },
+          },
+        }),
+      catch: (error) =>
+        new RepositoryError({
+          operation: 'site.findWebhooksByRepo',
+          cause: error,
+        }),
+    });
+    return webhooks.map((webhook) => ({
+      siteId: webhook.site.id,
+      userId: webhook.site.userId,
+      secret: webhook.secret,
+    }));
+  });
+
+const saveWebhookSecret = (siteId: string, secret: string) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    yield* Effect.tryPromise({
+      try: () =>
+        prisma.siteWebhook.upsert({
+          where: { siteId },
+          create: { siteId, secret },
+          update: { secret },
+        }),
+      catch: (error) =>
+        new RepositoryError({
+          operation: 'site.saveWebhookSecret',
+          cause: error,
+        }),
+    });
+  });
+
 // Repository implementation — DatabaseService resolved at layer construction
 export const PrismaSiteRepositoryLive = Layer.effect(
   SiteRepository,
@@ -258,6 +343,8 @@ export const PrismaSiteRepositoryLive = Layer.effect(
       update: bind(updateSite),
       delete: bind(deleteSite),
       create: bind(createSite),
+      findWebhooksByRepo: bind(findWebhooksByRepo),
+      saveWebhookSecret: bind(saveWebhookSecret),
     } satisfies SiteRepositoryService;
   })
 );
@@ -0,0 +1,85 @@
+import { Effect, Layer } from 'effect';
+
+import { Prisma } from '../../../generated/prisma/client';
+import { DatabaseService } from '../../services/database-service';
+import { RepositoryError } from '../repository-error';
+import {
+  SiteTemplateRepository,
+  type SiteTemplateRepositoryService,
+  type SiteTemplateUpsertData,
+} from '../site-template-repository';
+import { withDatabase } from '../with-database';
+
+const findAll = (platform?: string) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    return yield* Effect.tryPromise({
+      try: () =>
+        prisma.siteTemplate.findMany({
+          where: platform !== undefined ? { platform } : {},
+          orderBy: { name: 'asc' },
+        }),
+      catch: (cause) =>
+        new RepositoryError({ operation: 'siteTemplate.findAll', cause }),
+    });
+  });
+
+const findById = (id: string) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    return yield* Effect.tryPromise({
+      try: () => prisma.siteTemplate.findUnique({ where: { id } }),
+      catch: (cause) =>
+        new RepositoryError({ operation: 'siteTemplate.findById', cause }),
+    });
+  });
+
+const upsert = (data: SiteTemplateUpsertData) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    const fields = {
+      name: data.name,
+      description: data.description,
+      previewUrl: data.previewUrl,
+      files: [...data.files],
+      // Prisma clears a JSON column with DbNull rather than null
+      placeholders: data.placeholders ?? Prisma.DbNull,
+      version: data.version,
+    };
+    return yield* Effect.tryPromise({
+      try: () =>
+        prisma.siteTemplate.upsert({
+          where: {
+            platform_repo: { platform: data.platform, repo: data.repo },
+          },
+          create: { platform: data.platform, repo: data.repo, ...fields },
+          update: fields,
+        }),
+      catch: (cause) =>
+        new RepositoryError({ operation: 'siteTemplate.upsert', cause }),
+    });
+  });
+
+const deleteSiteTemplate = (id: string) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    return yield* Effect.tryPromise({
+      try: () => prisma.siteTemplate.delete({ where: { id } }),
+      catch: (cause) =>
+        new RepositoryError({ operation: 'siteTemplate.delete', cause }),
+    });
+  });
+
+export const PrismaSiteTemplateRepositoryLive = Layer.effect(
+  SiteTemplateRepository,
+  Effect.gen(function* () {
+    const db = yield* DatabaseService;
+    const bind = withDatabase(db);
+    return {
+      findAll: bind(findAll),
+      findById: bind(findById),
+      upsert: bind(upsert),
+      delete: bind(deleteSiteTemplate),
+    } satisfies SiteTemplateRepositoryService;
+  })
+);
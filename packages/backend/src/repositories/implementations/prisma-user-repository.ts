@@ -7,6 +7,7 @@ import {
   type UserRepositoryService,
   type CreateUserData,
   type CreateGitIntegrationData,
+  type CommitIdentityData,
 } from '../user-repository';
 import { withDatabase } from '../with-database';
 
@@ -85,6 +86,26 @@ const upsertUser = (data: CreateUserData) =>
     });
   });
 
+const updateCommitIdentity = (userId: string, data: CommitIdentityData) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    return yield* Effect.tryPromise({
+      try: () =>
+        prisma.user.update({
+          where: { id: userId },
+          data: {
+            commitName: data.commitName,
+            commitEmail: data.commitEmail,
+          },
+        }),
+      catch: (error) =>
+        new RepositoryError({
+          operation: 'user.updateCommitIdentity',
+          cause: error,
+        }),
+    });
+  });
+
 const upsertGitIntegration = (data: CreateGitIntegrationData) =>
   Effect.gen(function* () {
     const { prisma } = yield* DatabaseService;
@@ -118,7 +139,53 @@ const upsertGitIntegration = (data: CreateGitIntegrationData) =>
     });
   });
 
-const getAuthToken = (userId: string) =>
+const findGitIntegration = (userId: string, platform = 'github') =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+    return yield* Effect.tryPromise({
+      try: () =>
+        prisma.gitIntegration.findFirst({
+          where: {
+            userId,
+            platform,
+          },
+        }),
+      catch: (error) =>
+        new RepositoryError({
+          operation: 'gitIntegration.find',
+          cause: error,
+        }),
+    });
+  });
+
+const setInstallationId = (
+  userId: string,
+  platform: string,
+  installationId: string | null
+) =>
+  Effect.gen(function* () {
+    const { prisma } = yield* DatabaseService;
+
+    yield* Effect.tryPromise({
+      try: () =>
+        prisma.gitIntegration.updateMany({
+          where: {
+            userId,
+            platform,
+          },
+          data: {
+            installationId,
+          },
+        }),
+      catch: (error) =>
+        new RepositoryError({
+          operation: 'gitIntegration.setInstallationId',
+          cause: error,
+        }),
+    });
+  });
+
+const getAuthToken = (userId: string, platform = 'github') =>
   Effect.gen(function* () {
     const { prisma } = yield* DatabaseService;
 
@@ -127,7 +194,7 @@ const getAuthToken = (userId: string) =>
         prisma.gitIntegration.findFirst({
           where: {
             userId,
-            platform: 'github',
+            platform,
           },
           select: {
             accessToken: true,
@@ -143,7 +210,7 @@ const getAuthToken = (userId: string) =>
     return gitIntegration?.accessToken || null;
   });
 
-const clearAuthToken = (userId: string) =>
+const clearAuthToken = (userId: string, platform = 'github') =>
   Effect.gen(function* () {
     const { prisma } = yield* DatabaseService;
 
@@ -152,7 +219,7 @@ const clearAuthToken = (userId: string) =>
         prisma.gitIntegration.updateMany({
           where: {
             userId,
-            platform: 'github',
+            platform,
           },
           data: {
             accessToken: '',
@@ -178,7 +245,10 @@ export const PrismaUserRepositoryLive = Layer.effect(
       findByUsername: bind(findUserByUsername),
       findById: bind(findUserById),
       upsert: bind(upsertUser),
+      updateCommitIdentity: bind(updateCommitIdentity),
       upsertGitIntegration: bind(upsertGitIntegration),
+      findGitIntegration: bind(findGitIntegration),
+      setInstallationId: bind(setInstallationId),
       getAuthToken: bind(getAuthToken),
       clearAuthToken: bind(clearAuthToken),
     } satisfies UserRepositoryService;
@@ -0,0 +1,101 @@
+import { Effect, Layer } from 'effect';
+
+import { RedisService } from '../../services/redis-service';
+import {
+  PublishQueueRepository,
+  type PublishQueueRepositoryService,
+} from '../publish-queue-repository';
+import { RepositoryError } from '../repository-error';
+
+// Article ids scored by the time their publish is due
+const QUEUE_KEY = 'publish-queue:jobs';
+// Claimed article ids scored by the time their lease runs out
+const PROCESSING_KEY = 'publish-queue:processing';
+// Failed runs per article id
+const ATTEMPTS_KEY = 'publish-queue:attempts';
+// Longer than the slowest publish, so a live worker keeps its jobs
+const LEASE_MS = 10 * 60 * 1000;
+
+// Queues jobs whose lease ran out again, then moves the due jobs to the
+// processing set. Run as one script, so each job goes to one worker only.
+// KEYS: jobs, processing. ARGV: now, lease deadline, limit
+const CLAIM_DUE_SCRIPT = `
+for _, id in ipairs(redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])) do
+  redis.call('ZREM', KEYS[2], id)
+  redis.call('ZADD', KEYS[1], 'NX', ARGV[1], id)
+end
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[3])
+for _, id in ipairs(due) do
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('ZADD', KEYS[2], ARGV[2], id)
+end
+return due
+`;
+
+export const RedisPublishQueueRepositoryLive = Layer.effect(
+  PublishQueueRepository,
+  Effect.gen(function* () {
+    const { client } = yield* RedisService;
+
+    const run = <A>(operation: string, fn: () => Promise<A>) =>
+      Effect.tryPromise({
+        try: fn,
+        catch: (error) =>
+          new RepositoryError({
+            operation: `publishQueue.${operation}`,
+            cause: error,
+          }),
+      });
+
+    return {
+      enqueue: (articleId, runAt, options) =>
+        Effect.gen(function* () {
+          if (options?.replace === false) {
+            // A job being run stays with its worker
+            const leasedUntil = yield* run('enqueue', () =>
+              client.zscore(PROCESSING_KEY, articleId)
+            );
+            if (leasedUntil !== null) return;
+            yield* run('enqueue', () =>
+              client.zadd(QUEUE_KEY, 'NX', runAt.getTime(), articleId)
+            );
+            return;
+          }
+          yield* run('enqueue', () =>
+            client.zadd(QUEUE_KEY, runAt.getTime(), articleId)
+          );
+          // Queued again by its worker, which gives up the lease
+          yield* run('enqueue', () => client.zrem(PROCESSING_KEY, articleId));
+        }),
+
+      remove: (articleId) =>
+        Effect.all([
+          run('remove', () => client.zrem(QUEUE_KEY, articleId)),
+          run('remove', () => client.zrem(PROCESSING_KEY, articleId)),
+          run('remove', () => client.hdel(ATTEMPTS_KEY, articleId)),
+        ]).pipe(Effect.asVoid),
+
+      claimDue: (now, limit) =>
+        run('claimDue', () =>
+          client.eval(
+            CLAIM_DUE_SCRIPT,
+            2,
+            QUEUE_KEY,
+            PROCESSING_KEY,
+            now.getTime(),
+            now.getTime() + LEASE_MS,
+            limit
+          )
+        ).pipe(
+          Effect.map((reply: unknown) =>
+            Array.isArray(reply)
+              ? reply.filter((member) => typeof member === 'string')
+              : []
+          )
+        ),
+
+      recordAttempt: (articleId) =>
+        run('recordAttempt', () => client.hincrby(ATTEMPTS_KEY, articleId, 1)),
+    } satisfies PublishQueueRepositoryService;
+  })
+);
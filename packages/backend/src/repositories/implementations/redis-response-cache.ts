@@ -0,0 +1,26 @@
+import type { Redis } from 'ioredis';
+
+import { Effect } from 'effect';
+
+import type { ResponseCache } from './github-utils';
+
+// Long enough to outlive a burst of syncs, short enough that bodies of
+// files nobody reads any more drop out on their own
+const RESPONSE_CACHE_TTL_SECONDS = 60 * 60 * 24;
+
+// A cache miss only costs a full request, so Redis errors are ignored
+export const makeRedisResponseCache = (redis: Redis): ResponseCache => ({
+  get: (key) =>
+    Effect.tryPromise({
+      try: async () => redis.get(key),
+      catch: (error) => error,
+    }).pipe(Effect.orElseSucceed(() => null)),
+
+  set: (key, value) =>
+    Effect.tryPromise({
+      try: async () => {
+        await redis.set(key, value, 'EX', RESPONSE_CACHE_TTL_SECONDS);
+      },
+      catch: (error) => error,
+    }).pipe(Effect.ignore),
+});
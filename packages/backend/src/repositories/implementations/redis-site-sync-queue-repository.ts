@@ -0,0 +1,94 @@
+import { Effect, Layer } from 'effect';
+import { randomUUID } from 'node:crypto';
+
+import { RedisService } from '../../services/redis-service';
+import { RepositoryError } from '../repository-error';
+import {
+  SiteSyncQueueRepository,
+  type SiteSyncQueueRepositoryService,
+} from '../site-sync-queue-repository';
+
+// Stands in for every path, after a push too large to list its files
+const ALL_PATHS = '*';
+// Longer than the slowest full sync, so a live worker keeps its lease
+const LEASE_MS = 10 * 60 * 1000;
+
+// Deletes the lease only while it holds the releasing worker's token.
+// KEYS: lease. ARGV: token
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+const pathsKey = (siteId: string) => `site-sync:${siteId}:paths`;
+const leaseKey = (siteId: string) => `site-sync:${siteId}:lease`;
+
+export const RedisSiteSyncQueueRepositoryLive = Layer.effect(
+  SiteSyncQueueRepository,
+  Effect.gen(function* () {
+    const { client } = yield* RedisService;
+
+    const run = <A>(operation: string, fn: () => Promise<A>) =>
+      Effect.tryPromise({
+        try: fn,
+        catch: (error) =>
+          new RepositoryError({
+            operation: `siteSyncQueue.${operation}`,
+            cause: error,
+          }),
+      });
+
+    return {
+      enqueue: (siteId, paths) =>
+        // SADD takes at least one member
+        paths?.length === 0
+          ? Effect.void
+          : run('enqueue', () =>
+              client.sadd(
+                pathsKey(siteId),
+                ...(paths === null ? [ALL_PATHS] : paths)
+              )
+            ).pipe(Effect.asVoid),
+
+      takePending: (siteId) =>
+        Effect.gen(function* () {
+          // Read and cleared together, so a path queued meanwhile waits for
+          // the next take instead of being lost
+          const results = yield* run('takePending', () =>
+            client
+              .multi()
+              .smembers(pathsKey(siteId))
+              .del(pathsKey(siteId))
+              .exec()
+          );
+          const reply: unknown = results?.[0]?.[1];
+          const members = Array.isArray(reply)
+            ? reply.filter((member) => typeof member === 'string')
+            : [];
+          if (members.length === 0) return null;
+          return { paths: members.includes(ALL_PATHS) ? null : members };
+        }),
+
+      hasPending: (siteId) =>
+        run('hasPending', () => client.exists(pathsKey(siteId))).pipe(
+          Effect.map((count) => count > 0)
+        ),
+
+      acquireLease: (siteId) =>
+        Effect.gen(function* () {
+          const token = randomUUID();
+          const reply = yield* run('acquireLease', () =>
+            client.set(leaseKey(siteId), token, 'PX', LEASE_MS, 'NX')
+          );
+          return reply === 'OK' ? token : null;
+        }),
+
+      releaseLease: (siteId, token) =>
+        run('releaseLease', () =>
+          client.eval(RELEASE_LEASE_SCRIPT, 1, leaseKey(siteId), token)
+        ).pipe(Effect.asVoid),
+    } satisfies SiteSyncQueueRepositoryService;
+  })
+);
@@ -0,0 +1,123 @@
+import { Option, Schema as S } from 'effect';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+import type { PushEvent, WebhookHeaders } from '../git-provider-repository';
+
+const BRANCH_REF_PREFIX = 'refs/heads/';
+
+// Node lowercases incoming header names
+export const headerValue = (
+  headers: WebhookHeaders,
+  name: string
+): string | undefined => {
+  const value = headers[name.toLowerCase()];
+  return typeof value === 'string' || value === undefined ? value : value[0];
+};
+
+export const signWebhookPayload = (secret: string, body: Buffer | string) =>
+  createHmac('sha256', secret).update(body).digest('hex');
+
+// Constant time, so response timing doesn't reveal how much of it matched
+export const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+export const verifyHmacSignature = (
+  signature: string | undefined,
+  body: Buffer,
+  secret: string,
+  prefix = ''
+): boolean =>
+  signature !== undefined &&
+  safeEqual(signature, `${prefix}${signWebhookPayload(secret, body)}`);
+
+const CommitFiles = S.Struct({
+  added: S.optionalWith(S.Array(S.String), { default: () => [] }),
+  modified: S.optionalWith(S.Array(S.String), { default: () => [] }),
+  removed: S.optionalWith(S.Array(S.String), { default: () => [] }),
+});
+
+const GitHubPushPayload = S.Struct({
+  ref: S.String,
+  forced: S.optional(S.Boolean),
+  total_commits: S.optional(S.Number),
+  repository: S.Struct({ full_name: S.String, default_branch: S.String }),
+  commits: S.Array(CommitFiles),
+});
+
+const GitLabPushPayload = S.Struct({
+  ref: S.String,
+  total_commits_count: S.optional(S.Number),
+  project: S.Struct({
+    path_with_namespace: S.String,
+    default_branch: S.String,
+  }),
+  commits: S.Array(CommitFiles),
+});
+
+const touchedPaths = (
+  commits: ReadonlyArray<S.Schema.Type<typeof CommitFiles>>
+): string[] => [
+  ...new Set(
+    commits.flatMap((commit) => [
+      ...commit.added,
+      ...commit.modified,
+      ...commit.removed,
+    ])
+  ),
+];
+
+const toPushEvent = (push: {
+  ref: string;
+  repoFullName: string;
+  defaultBranch: string;
+  commits: ReadonlyArray<S.Schema.Type<typeof CommitFiles>>;
+  // Set when the commit list alone can't say what changed
+  incomplete: boolean;
+}): PushEvent | null => {
+  if (!push.ref.startsWith(BRANCH_REF_PREFIX)) return null;
+  return {
+    repoFullName: push.repoFullName,
+    branch: push.ref.slice(BRANCH_REF_PREFIX.length),
+    defaultBranch: push.defaultBranch,
+    paths: push.incomplete ? null : touchedPaths(push.commits),
+  };
+};
+
+// GitHub, Gitea and the local stand-in all send GitHub's push payload.
+// Forced pushes may drop commits the payload never lists, and Gitea caps
+// how many commits it includes
+export const parseGitHubPushPayload = (payload: unknown): PushEvent | null =>
+  Option.getOrNull(
+    Option.flatMap(S.decodeUnknownOption(GitHubPushPayload)(payload), (push) =>
+      Option.fromNullable(
+        toPushEvent({
+          ref: push.ref,
+          repoFullName: push.repository.full_name,
+          defaultBranch: push.repository.default_branch,
+          commits: push.commits,
+          incomplete:
+            push.forced === true ||
+            (push.total_commits ?? 0) > push.commits.length,
+        })
+      )
+    )
+  );
+
+// GitLab lists at most 20 commits and reports the real total separately
+export const parseGitLabPushPayload = (payload: unknown): PushEvent | null =>
+  Option.getOrNull(
+    Option.flatMap(S.decodeUnknownOption(GitLabPushPayload)(payload), (push) =>
+      Option.fromNullable(
+        toPushEvent({
+          ref: push.ref,
+          repoFullName: push.project.path_with_namespace,
+          defaultBranch: push.project.default_branch,
+          commits: push.commits,
+          incomplete: (push.total_commits_count ?? 0) > push.commits.length,
+        })
+      )
+    )
+  );
@@ -6,6 +6,8 @@ import type { Media } from '../../generated/prisma/client';
 import type { PaginatedResult, PaginationOptions } from './pagination';
 import type { RepositoryError } from './repository-error';
 
+export type { Media };
+
 export interface MediaCreateData {
   readonly siteId: string;
   readonly filename: string;
@@ -16,6 +18,7 @@ export interface MediaCreateData {
   readonly storageType?: string;
   readonly contentHash?: string;
   readonly externalUrl?: string;
+  readonly commitSha?: string;
   readonly alt?: string;
 }
 
@@ -24,6 +27,7 @@ export interface MediaWithSite extends Media {
     readonly id: string;
     readonly userId: string;
     readonly gitRepo: string | null;
+    readonly platform: string;
   };
 }
 
@@ -38,6 +42,9 @@ export interface MediaRepositoryService {
     siteId: string,
     pagination?: PaginationOptions
   ) => Effect.Effect<PaginatedResult<Media>, RepositoryError>;
+  readonly findAllBySiteId: (
+    siteId: string
+  ) => Effect.Effect<Media[], RepositoryError>;
   readonly findBySiteIdAndHash: (
     siteId: string,
     contentHash: string
@@ -0,0 +1,37 @@
+import type { Effect } from 'effect';
+
+import { Context } from 'effect';
+
+import type { RepositoryError } from './repository-error';
+
+// Delayed jobs publishing an article at a set time. The article's
+// scheduledAt column stays the source of truth; the queue only says when
+// to look at it next
+export interface PublishQueueRepositoryService {
+  // Adds the article, or moves its job when it is already queued or being
+  // run. With replace: false a queued job keeps its time and a job being
+  // run is left alone
+  readonly enqueue: (
+    articleId: string,
+    runAt: Date,
+    options?: { readonly replace?: boolean }
+  ) => Effect.Effect<void, RepositoryError>;
+  // Drops the article's job, queued or being run, and its attempt count
+  readonly remove: (articleId: string) => Effect.Effect<void, RepositoryError>;
+  // Leases up to `limit` jobs due by `now` to the caller. Each job is handed
+  // to one caller only, even with several workers polling. A leased job
+  // stays claimed until it is removed or queued again; once its lease runs
+  // out, as when its worker stopped mid-run, it is due again
+  readonly claimDue: (
+    now: Date,
+    limit: number
+  ) => Effect.Effect<string[], RepositoryError>;
+  // Counts a failed run, returning how many runs have failed so far
+  readonly recordAttempt: (
+    articleId: string
+  ) => Effect.Effect<number, RepositoryError>;
+}
+
+export class PublishQueueRepository extends Context.Tag(
+  'PublishQueueRepository'
+)<PublishQueueRepository, PublishQueueRepositoryService>() {}
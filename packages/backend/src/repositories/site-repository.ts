@@ -6,6 +6,8 @@ import type { Site } from '../../generated/prisma/client';
 import type { PaginatedResult, PaginationOptions } from './pagination';
 import type { RepositoryError } from './repository-error';
 
+export type { Site };
+
 // Domain types for Site operations
 export interface SiteCreateData {
   readonly name: string;
@@ -16,6 +18,8 @@ export interface SiteCreateData {
   readonly platform?: string;
   readonly deployStatus?: string;
   readonly deployUrl?: string | null;
+  readonly templateId?: string | null;
+  readonly templateVersion?: string | null;
 }
 
 export interface SiteWithCounts extends Site {
@@ -50,8 +54,27 @@ export interface SiteUpdateData {
   readonly description?: string;
   readonly gitRepo?: string;
   readonly platform?: string;
+  readonly publishMode?: string;
+  readonly contentRoot?: string;
+  readonly fileNaming?: string;
+  readonly mediaRoot?: string;
+  readonly commitMessageTemplate?: string | null;
+  readonly mediaUrlStrategy?: string;
+  readonly templateVersion?: string;
   readonly deployStatus?: string;
   readonly deployUrl?: string;
+  readonly customDomain?: string | null;
+  readonly deployCommitSha?: string | null;
+  readonly deployRunUrl?: string | null;
+  readonly deployStartedAt?: Date | null;
+  readonly deployDuration?: number | null;
+}
+
+// A site's push webhook, found through the repository it watches
+export interface SiteWebhookSecret {
+  readonly siteId: string;
+  readonly userId: string;
+  readonly secret: string;
 }
 
 // Repository interface
@@ -66,7 +89,11 @@ export interface SiteRepositoryService {
     {
       readonly id: string;
       readonly gitRepo: string | null;
+      readonly platform: string;
       readonly userId: string;
+      readonly contentRoot: string;
+      readonly fileNaming: string;
+      readonly mediaRoot: string;
     } | null,
     RepositoryError
   >;
@@ -88,6 +115,14 @@ export interface SiteRepositoryService {
   readonly create: (
     data: SiteCreateData
   ) => Effect.Effect<Site, RepositoryError>;
+  readonly findWebhooksByRepo: (
+    platform: string,
+    gitRepo: string
+  ) => Effect.Effect<SiteWebhookSecret[], RepositoryError>;
+  readonly saveWebhookSecret: (
+    siteId: string,
+    secret: string
+  ) => Effect.Effect<void, RepositoryError>;
 }
 
 // Context tag for dependency injection
@@ -0,0 +1,42 @@
+import type { Effect } from 'effect';
+
+import { Context } from 'effect';
+
+import type { RepositoryError } from './repository-error';
+
+// Paths waiting to be synced per site. Pushes that arrive while a site is
+// syncing are merged into its next run instead of starting another one
+export interface SiteSyncQueueRepositoryService {
+  // Adds the pushed paths; null asks for every path, and no paths queue
+  // nothing
+  readonly enqueue: (
+    siteId: string,
+    paths: readonly string[] | null
+  ) => Effect.Effect<void, RepositoryError>;
+  // Takes everything queued for the site, or null when nothing is
+  readonly takePending: (
+    siteId: string
+  ) => Effect.Effect<
+    { readonly paths: readonly string[] | null } | null,
+    RepositoryError
+  >;
+  readonly hasPending: (
+    siteId: string
+  ) => Effect.Effect<boolean, RepositoryError>;
+  // Lets one worker sync the site at a time, returning the token that
+  // releases the lease, or null while another worker holds it. The lease
+  // runs out on its own if the worker stops without releasing it
+  readonly acquireLease: (
+    siteId: string
+  ) => Effect.Effect<string | null, RepositoryError>;
+  // Releases the lease only while the token still holds it, so a worker
+  // whose lease ran out leaves the next holder's alone
+  readonly releaseLease: (
+    siteId: string,
+    token: string
+  ) => Effect.Effect<void, RepositoryError>;
+}
+
+export class SiteSyncQueueRepository extends Context.Tag(
+  'SiteSyncQueueRepository'
+)<SiteSyncQueueRepository, SiteSyncQueueRepositoryService>() {}
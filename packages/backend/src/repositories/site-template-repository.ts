@@ -0,0 +1,39 @@
+import type { Effect } from 'effect';
+
+import { Context } from 'effect';
+
+import type { SiteTemplate } from '../../generated/prisma/client';
+import type { TemplatePlaceholders } from './git-provider-repository';
+import type { RepositoryError } from './repository-error';
+
+export type { SiteTemplate };
+
+// A template as read from its manifest, keyed by platform and repository
+export interface SiteTemplateUpsertData {
+  readonly platform: string;
+  readonly repo: string;
+  readonly name: string;
+  readonly description: string | null;
+  readonly previewUrl: string | null;
+  readonly files: readonly string[];
+  readonly placeholders: TemplatePlaceholders | null;
+  readonly version: string;
+}
+
+export interface SiteTemplateRepositoryService {
+  readonly findAll: (
+    platform?: string
+  ) => Effect.Effect<SiteTemplate[], RepositoryError>;
+  readonly findById: (
+    id: string
+  ) => Effect.Effect<SiteTemplate | null, RepositoryError>;
+  // Registering a template again refreshes it to its current manifest
+  readonly upsert: (
+    data: SiteTemplateUpsertData
+  ) => Effect.Effect<SiteTemplate, RepositoryError>;
+  readonly delete: (id: string) => Effect.Effect<SiteTemplate, RepositoryError>;
+}
+
+export class SiteTemplateRepository extends Context.Tag(
+  'SiteTemplateRepository'
+)<SiteTemplateRepository, SiteTemplateRepositoryService>() {}
@@ -20,6 +20,12 @@ export interface CreateGitIntegrationData {
   readonly installationId?: string;
 }
 
+// Name and email Inland commits as, both set or both null
+export interface CommitIdentityData {
+  readonly commitName: string | null;
+  readonly commitEmail: string | null;
+}
+
 export interface UserWithIntegrations extends User {
   readonly gitIntegrations: GitIntegration[];
 }
@@ -37,14 +43,29 @@ export interface UserRepositoryService {
   readonly upsert: (
     data: CreateUserData
   ) => Effect.Effect<User, RepositoryError>;
+  readonly updateCommitIdentity: (
+    userId: string,
+    data: CommitIdentityData
+  ) => Effect.Effect<User, RepositoryError>;
   readonly upsertGitIntegration: (
     data: CreateGitIntegrationData
   ) => Effect.Effect<GitIntegration, RepositoryError>;
+  readonly findGitIntegration: (
+    userId: string,
+    platform?: string
+  ) => Effect.Effect<GitIntegration | null, RepositoryError>;
+  readonly setInstallationId: (
+    userId: string,
+    platform: string,
+    installationId: string | null
+  ) => Effect.Effect<void, RepositoryError>;
   readonly getAuthToken: (
-    userId: string
+    userId: string,
+    platform?: string
   ) => Effect.Effect<string | null, RepositoryError>;
   readonly clearAuthToken: (
-    userId: string
+    userId: string,
+    platform?: string
   ) => Effect.Effect<void, RepositoryError>;
 }
 
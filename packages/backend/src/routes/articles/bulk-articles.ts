@@ -0,0 +1,266 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { ArticleService } from '../../services/article';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+// Each bulk action answers with how every article went, so a partial
+// failure still reports the articles that were changed
+export const bulkArticlesRoute = async (fastify: FastifyInstance) => {
+  fastify.post(
+    '/sites/:siteId/articles/bulk/publish',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.SiteIdParam,
+          body: Schemas.BulkArticlesData,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<
+        Schemas.BulkArticlesData,
+        Schemas.SiteIdParam
+      >,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { siteId } = request.validatedParams!;
+      const body = request.validatedBody!;
+
+      const runBulkAction = Effect.flatMap(ArticleService, (articleService) =>
+        articleService.bulkPublishArticles(
+          siteId,
+          userPayload.userId,
+          body.articleIds
+        )
+      );
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        runBulkAction.pipe(
+          Effect.map((results) => ({ results })),
+          Effect.catchTags({
+            SiteNotFoundError: () => httpError(404, 'Site not found'),
+            SiteAccessDeniedError: () => httpError(403, 'Access denied'),
+            GitRepositoryError: (e) => httpError(400, e.message),
+            AuthTokenError: () =>
+              httpError(
+                401,
+                'Authentication token is invalid. Please reconnect your account.'
+              ),
+          })
+        ),
+        { fallbackMessage: 'Failed to publish articles' }
+      );
+    }
+  );
+
+  fastify.post(
+    '/sites/:siteId/articles/bulk/unpublish',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.SiteIdParam,
+          body: Schemas.BulkArticlesData,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<
+        Schemas.BulkArticlesData,
+        Schemas.SiteIdParam
+      >,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { siteId } = request.validatedParams!;
+      const body = request.validatedBody!;
+
+      const runBulkAction = Effect.flatMap(ArticleService, (articleService) =>
+        articleService.bulkUnpublishArticles(
+          siteId,
+          userPayload.userId,
+          body.articleIds
+        )
+      );
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        runBulkAction.pipe(
+          Effect.map((results) => ({ results })),
+          Effect.catchTags({
+            SiteNotFoundError: () => httpError(404, 'Site not found'),
+            SiteAccessDeniedError: () => httpError(403, 'Access denied'),
+            GitRepositoryError: (e) => httpError(400, e.message),
+            AuthTokenError: () =>
+              httpError(
+                401,
+                'Authentication token is invalid. Please reconnect your account.'
+              ),
+          })
+        ),
+        { fallbackMessage: 'Failed to unpublish articles' }
+      );
+    }
+  );
+
+  fastify.post(
+    '/sites/:siteId/articles/bulk/delete',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.SiteIdParam,
+          body: Schemas.BulkArticlesData,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<
+        Schemas.BulkArticlesData,
+        Schemas.SiteIdParam
+      >,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { siteId } = request.validatedParams!;
+      const body = request.validatedBody!;
+
+      const runBulkAction = Effect.flatMap(ArticleService, (articleService) =>
+        articleService.bulkDeleteArticles(
+          siteId,
+          userPayload.userId,
+          body.articleIds
+        )
+      );
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        runBulkAction.pipe(
+          Effect.map((results) => ({ results })),
+          Effect.catchTags({
+            SiteNotFoundError: () => httpError(404, 'Site not found'),
+            SiteAccessDeniedError: () => httpError(403, 'Access denied'),
+            GitRepositoryError: (e) => httpError(400, e.message),
+            AuthTokenError: () =>
+              httpError(
+                401,
+                'Authentication token is invalid. Please reconnect your account.'
+              ),
+          })
+        ),
+        { fallbackMessage: 'Failed to delete articles' }
+      );
+    }
+  );
+
+  fastify.post(
+    '/sites/:siteId/articles/bulk/tags',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.SiteIdParam,
+          body: Schemas.BulkArticleTagsData,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<
+        Schemas.BulkArticleTagsData,
+        Schemas.SiteIdParam
+      >,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { siteId } = request.validatedParams!;
+      const body = request.validatedBody!;
+
+      const runBulkAction = Effect.flatMap(ArticleService, (articleService) =>
+        articleService.bulkUpdateArticleTags(
+          siteId,
+          userPayload.userId,
+          body.articleIds,
+          { add: body.add, remove: body.remove }
+        )
+      );
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        runBulkAction.pipe(
+          Effect.map((results) => ({ results })),
+          Effect.catchTags({
+            SiteNotFoundError: () => httpError(404, 'Site not found'),
+            SiteAccessDeniedError: () => httpError(403, 'Access denied'),
+          })
+        ),
+        { fallbackMessage: 'Failed to update article tags' }
+      );
+    }
+  );
+
+  fastify.post(
+    '/sites/:siteId/articles/bulk/date',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.SiteIdParam,
+          body: Schemas.BulkArticleDateData,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<
+        Schemas.BulkArticleDateData,
+        Schemas.SiteIdParam
+      >,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { siteId } = request.validatedParams!;
+      const body = request.validatedBody!;
+
+      const runBulkAction = Effect.flatMap(ArticleService, (articleService) =>
+        articleService.bulkUpdateArticleDate(
+          siteId,
+          userPayload.userId,
+          body.articleIds,
+          body.publishedAt
+        )
+      );
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        runBulkAction.pipe(
+          Effect.map((results) => ({ results })),
+          Effect.catchTags({
+            SiteNotFoundError: () => httpError(404, 'Site not found'),
+            SiteAccessDeniedError: () => httpError(403, 'Access denied'),
+            GitRepositoryError: (e) => httpError(400, e.message),
+            AuthTokenError: () =>
+              httpError(
+                401,
+                'Authentication token is invalid. Please reconnect your account.'
+              ),
+          })
+        ),
+        { fallbackMessage: 'Failed to update article dates' }
+      );
+    }
+  );
+};
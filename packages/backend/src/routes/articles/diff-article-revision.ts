@@ -0,0 +1,63 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { ArticleService } from '../../services/article';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const diffArticleRevisionRoute = async (fastify: FastifyInstance) => {
+  fastify.get(
+    '/articles/:id/revisions/:revisionId/diff',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.ArticleRevisionParam,
+          querystring: Schemas.ArticleRevisionDiffQuery,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<
+        unknown,
+        Schemas.ArticleRevisionParam,
+        Schemas.ArticleRevisionDiffQuery
+      >,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { id, revisionId } = request.validatedParams!;
+      const { against } = request.validatedQuery!;
+
+      const diffRevision = Effect.gen(function* () {
+        const articleService = yield* ArticleService;
+        const diff = yield* articleService.diffArticleRevision(
+          id,
+          revisionId,
+          userPayload.userId,
+          against
+        );
+        return { diff };
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        diffRevision.pipe(
+          Effect.catchTags({
+            ArticleNotFoundError: () => httpError(404, 'Article not found'),
+            ArticleAccessDeniedError: () => httpError(403, 'Access denied'),
+            ArticleRevisionNotFoundError: () =>
+              httpError(404, 'Revision not found'),
+          })
+        ),
+        { fallbackMessage: 'Failed to compare article revisions' }
+      );
+    }
+  );
+};
@@ -0,0 +1,58 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { ArticleService } from '../../services/article';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const getArticleConflictRoute = async (fastify: FastifyInstance) => {
+  fastify.get(
+    '/articles/:id/conflict',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.ArticleIdParam,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<unknown, Schemas.ArticleIdParam>,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { id } = request.validatedParams!;
+
+      const getConflict = Effect.gen(function* () {
+        const articleService = yield* ArticleService;
+        const conflict = yield* articleService.getArticleConflict(
+          id,
+          userPayload.userId
+        );
+        return { conflict };
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        getConflict.pipe(
+          Effect.catchTags({
+            ArticleNotFoundError: () => httpError(404, 'Article not found'),
+            ArticleAccessDeniedError: () => httpError(403, 'Access denied'),
+            AuthTokenError: () =>
+              httpError(
+                401,
+                'Authentication token is invalid. Please reconnect your account.'
+              ),
+          })
+        ),
+        { fallbackMessage: 'Failed to load article conflict' }
+      );
+    }
+  );
+};
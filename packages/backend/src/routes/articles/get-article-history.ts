@@ -0,0 +1,59 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { ArticleService } from '../../services/article';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const getArticleHistoryRoute = async (fastify: FastifyInstance) => {
+  fastify.get(
+    '/articles/:id/history',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.ArticleIdParam,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<unknown, Schemas.ArticleIdParam>,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { id } = request.validatedParams!;
+
+      const getHistory = Effect.flatMap(ArticleService, (articleService) =>
+        articleService.getArticleHistory(id, userPayload.userId)
+      );
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        getHistory.pipe(
+          Effect.catchTags({
+            ArticleNotFoundError: () => httpError(404, 'Article not found'),
+            ArticleAccessDeniedError: () => httpError(403, 'Access denied'),
+            GitRepositoryError: (e) => httpError(400, e.message),
+            AuthTokenError: () =>
+              httpError(
+                401,
+                'Authentication token is invalid. Please reconnect your account.'
+              ),
+            // 501: the site's host has no history support yet
+            GitProviderError: (e) =>
+              e.status === 501
+                ? httpError(501, e.message)
+                : httpError(502, `Git provider error: ${e.message}`),
+          })
+        ),
+        { fallbackMessage: 'Failed to load article history' }
+      );
+    }
+  );
+};
@@ -0,0 +1,56 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { ArticleService } from '../../services/article';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const getArticleRevisionRoute = async (fastify: FastifyInstance) => {
+  fastify.get(
+    '/articles/:id/revisions/:revisionId',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.ArticleRevisionParam,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<unknown, Schemas.ArticleRevisionParam>,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { id, revisionId } = request.validatedParams!;
+
+      const getRevision = Effect.gen(function* () {
+        const articleService = yield* ArticleService;
+        const revision = yield* articleService.getArticleRevision(
+          id,
+          revisionId,
+          userPayload.userId
+        );
+        return { revision };
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        getRevision.pipe(
+          Effect.catchTags({
+            ArticleNotFoundError: () => httpError(404, 'Article not found'),
+            ArticleAccessDeniedError: () => httpError(403, 'Access denied'),
+            ArticleRevisionNotFoundError: () =>
+              httpError(404, 'Revision not found'),
+          })
+        ),
+        { fallbackMessage: 'Failed to load article revision' }
+      );
+    }
+  );
+};
@@ -0,0 +1,64 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { ArticleService } from '../../services/article';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const getArticleVersionRoute = async (fastify: FastifyInstance) => {
+  fastify.get(
+    '/articles/:id/history/:sha',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.ArticleVersionParam,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<unknown, Schemas.ArticleVersionParam>,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { id, sha } = request.validatedParams!;
+
+      const getVersion = Effect.gen(function* () {
+        const articleService = yield* ArticleService;
+        const version = yield* articleService.getArticleVersion(
+          id,
+          userPayload.userId,
+          sha
+        );
+        return { version };
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        getVersion.pipe(
+          Effect.catchTags({
+            ArticleNotFoundError: () => httpError(404, 'Article not found'),
+            ArticleAccessDeniedError: () => httpError(403, 'Access denied'),
+            ArticleVersionNotFoundError: () =>
+              httpError(404, 'The article did not exist at that commit'),
+            GitRepositoryError: (e) => httpError(400, e.message),
+            AuthTokenError: () =>
+              httpError(
+                401,
+                'Authentication token is invalid. Please reconnect your account.'
+              ),
+            GitProviderError: (e) =>
+              httpError(502, `Git provider error: ${e.message}`),
+          })
+        ),
+        { fallbackMessage: 'Failed to load article version' }
+      );
+    }
+  );
+};
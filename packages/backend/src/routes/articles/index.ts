@@ -1,19 +1,43 @@
 import type { FastifyInstance } from 'fastify';
 
+import { bulkArticlesRoute } from './bulk-articles';
 import { createArticleRoute } from './create-article';
 import { deleteArticleRoute } from './delete-article';
+import { diffArticleRevisionRoute } from './diff-article-revision';
 import { getArticleByIdRoute } from './get-article-by-id';
+import { getArticleConflictRoute } from './get-article-conflict';
+import { getArticleHistoryRoute } from './get-article-history';
+import { getArticleRevisionRoute } from './get-article-revision';
+import { getArticleVersionRoute } from './get-article-version';
 import { getSiteArticlesRoute } from './get-site-articles';
 import { getUserArticlesRoute } from './get-user-articles';
+import { listArticleRevisionsRoute } from './list-article-revisions';
 import { publishArticleRoute } from './publish-article';
+import { resolveArticleConflictRoute } from './resolve-article-conflict';
+import { restoreArticleRevisionRoute } from './restore-article-revision';
+import { saveArticleRevisionRoute } from './save-article-revision';
+import { scheduleArticleRoute } from './schedule-article';
+import { searchSiteArticlesRoute } from './search-site-articles';
 import { updateArticleRoute } from './update-article';
 
 export const articleRoutes = async (fastify: FastifyInstance) => {
   await createArticleRoute(fastify);
   await getSiteArticlesRoute(fastify);
+  await searchSiteArticlesRoute(fastify);
   await getUserArticlesRoute(fastify);
   await getArticleByIdRoute(fastify);
   await updateArticleRoute(fastify);
   await deleteArticleRoute(fastify);
   await publishArticleRoute(fastify);
+  await scheduleArticleRoute(fastify);
+  await bulkArticlesRoute(fastify);
+  await getArticleConflictRoute(fastify);
+  await resolveArticleConflictRoute(fastify);
+  await getArticleHistoryRoute(fastify);
+  await getArticleVersionRoute(fastify);
+  await listArticleRevisionsRoute(fastify);
+  await saveArticleRevisionRoute(fastify);
+  await getArticleRevisionRoute(fastify);
+  await diffArticleRevisionRoute(fastify);
+  await restoreArticleRevisionRoute(fastify);
 };
@@ -0,0 +1,53 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { ArticleService } from '../../services/article';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const listArticleRevisionsRoute = async (fastify: FastifyInstance) => {
+  fastify.get(
+    '/articles/:id/revisions',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.ArticleIdParam,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<unknown, Schemas.ArticleIdParam>,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { id } = request.validatedParams!;
+
+      const listRevisions = Effect.gen(function* () {
+        const articleService = yield* ArticleService;
+        const revisions = yield* articleService.listArticleRevisions(
+          id,
+          userPayload.userId
+        );
+        return { revisions };
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        listRevisions.pipe(
+          Effect.catchTags({
+            ArticleNotFoundError: () => httpError(404, 'Article not found'),
+            ArticleAccessDeniedError: () => httpError(403, 'Access denied'),
+          })
+        ),
+        { fallbackMessage: 'Failed to load article revisions' }
+      );
+    }
+  );
+};
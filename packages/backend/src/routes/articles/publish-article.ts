@@ -18,21 +18,27 @@ export const publishArticleRoute = async (fastify: FastifyInstance) => {
         fastify.authenticate,
         withSchemaValidation({
           params: Schemas.ArticleIdParam,
+          body: Schemas.PublishArticleData,
         }),
       ],
     },
     async (
-      request: TypedFastifyRequest<unknown, Schemas.ArticleIdParam>,
+      request: TypedFastifyRequest<
+        Schemas.PublishArticleData,
+        Schemas.ArticleIdParam
+      >,
       reply
     ) => {
       const userPayload = request.jwtPayload!;
       const { id } = request.validatedParams!;
+      const body = request.validatedBody;
 
       const publishArticle = Effect.gen(function* () {
         const articleService = yield* ArticleService;
         const result = yield* articleService.publishArticleToGit(
           id,
-          userPayload.userId
+          userPayload.userId,
+          { message: body?.message }
         );
         return {
           message: 'Article published successfully',
@@ -50,7 +56,7 @@ export const publishArticleRoute = async (fastify: FastifyInstance) => {
             GitConflictError: () =>
               httpError(
                 409,
-                'The article has been modified on GitHub. Please sync before publishing.'
+                'The article has been modified in the repository since it was last synced.'
               ),
             AuthTokenError: () =>
               httpError(
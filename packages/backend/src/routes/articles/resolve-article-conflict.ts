@@ -0,0 +1,73 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { ArticleService } from '../../services/article';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const resolveArticleConflictRoute = async (fastify: FastifyInstance) => {
+  fastify.post(
+    '/articles/:id/conflict/resolve',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.ArticleIdParam,
+          body: Schemas.ResolveArticleConflictData,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<
+        Schemas.ResolveArticleConflictData,
+        Schemas.ArticleIdParam
+      >,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { id } = request.validatedParams!;
+      const resolution = request.validatedBody!;
+
+      const resolveConflict = Effect.gen(function* () {
+        const articleService = yield* ArticleService;
+        const result = yield* articleService.resolveArticleConflict(
+          id,
+          userPayload.userId,
+          resolution
+        );
+        return {
+          message: 'Merged article published successfully',
+          ...result,
+        };
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        resolveConflict.pipe(
+          Effect.catchTags({
+            ArticleNotFoundError: () => httpError(404, 'Article not found'),
+            ArticleAccessDeniedError: () => httpError(403, 'Access denied'),
+            ArticleValidationError: (e) => httpError(400, e.message),
+            GitConflictError: () =>
+              httpError(
+                409,
+                'The article changed again while you were merging. Review the new changes before publishing.'
+              ),
+            AuthTokenError: () =>
+              httpError(
+                401,
+                'Authentication token is invalid. Please reconnect your account.'
+              ),
+          })
+        ),
+        { fallbackMessage: 'Failed to publish merged article' }
+      );
+    }
+  );
+};
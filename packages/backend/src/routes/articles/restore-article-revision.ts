@@ -0,0 +1,56 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { ArticleService } from '../../services/article';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const restoreArticleRevisionRoute = async (fastify: FastifyInstance) => {
+  fastify.post(
+    '/articles/:id/revisions/:revisionId/restore',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.ArticleRevisionParam,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<unknown, Schemas.ArticleRevisionParam>,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { id, revisionId } = request.validatedParams!;
+
+      const restoreRevision = Effect.flatMap(ArticleService, (articleService) =>
+        articleService.restoreArticleRevision(
+          id,
+          revisionId,
+          userPayload.userId
+        )
+      );
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        restoreRevision.pipe(
+          Effect.catchTags({
+            ArticleNotFoundError: () => httpError(404, 'Article not found'),
+            ArticleAccessDeniedError: () => httpError(403, 'Access denied'),
+            ArticleRevisionNotFoundError: () =>
+              httpError(404, 'Revision not found'),
+            ArticleUpdateError: (e) => httpError(500, e.reason),
+            ArticleValidationError: (e) => httpError(400, e.message),
+          })
+        ),
+        { fallbackMessage: 'Failed to restore article revision' }
+      );
+    }
+  );
+};
@@ -0,0 +1,62 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { ArticleService } from '../../services/article';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const saveArticleRevisionRoute = async (fastify: FastifyInstance) => {
+  fastify.post(
+    '/articles/:id/revisions',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.ArticleIdParam,
+          body: Schemas.SaveArticleRevisionData,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<
+        Schemas.SaveArticleRevisionData,
+        Schemas.ArticleIdParam
+      >,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { id } = request.validatedParams!;
+      const body = request.validatedBody;
+
+      const saveRevision = Effect.gen(function* () {
+        const articleService = yield* ArticleService;
+        const revision = yield* articleService.saveArticleRevision(
+          id,
+          userPayload.userId,
+          body?.label
+        );
+        return { revision };
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        saveRevision.pipe(
+          Effect.catchTags({
+            ArticleNotFoundError: () => httpError(404, 'Article not found'),
+            ArticleAccessDeniedError: () => httpError(403, 'Access denied'),
+          })
+        ),
+        {
+          fallbackMessage: 'Failed to save article version',
+          successCode: 201,
+        }
+      );
+    }
+  );
+};
@@ -0,0 +1,90 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { ArticleService } from '../../services/article';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const scheduleArticleRoute = async (fastify: FastifyInstance) => {
+  fastify.post(
+    '/articles/:id/schedule',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.ArticleIdParam,
+          body: Schemas.ScheduleArticleData,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<
+        Schemas.ScheduleArticleData,
+        Schemas.ArticleIdParam
+      >,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { id } = request.validatedParams!;
+      const { publishAt } = request.validatedBody!;
+
+      const scheduleArticle = Effect.flatMap(ArticleService, (articleService) =>
+        articleService.scheduleArticlePublish(id, userPayload.userId, publishAt)
+      );
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        scheduleArticle.pipe(
+          Effect.catchTags({
+            ArticleNotFoundError: () => httpError(404, 'Article not found'),
+            ArticleAccessDeniedError: () => httpError(403, 'Access denied'),
+            ArticleScheduleError: (e) => httpError(400, e.reason),
+            GitRepositoryError: (e) => httpError(400, e.message),
+          })
+        ),
+        { fallbackMessage: 'Failed to schedule article' }
+      );
+    }
+  );
+
+  fastify.delete(
+    '/articles/:id/schedule',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.ArticleIdParam,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<unknown, Schemas.ArticleIdParam>,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { id } = request.validatedParams!;
+
+      const cancelSchedule = Effect.flatMap(ArticleService, (articleService) =>
+        articleService.cancelScheduledPublish(id, userPayload.userId)
+      );
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        cancelSchedule.pipe(
+          Effect.catchTags({
+            ArticleNotFoundError: () => httpError(404, 'Article not found'),
+            ArticleAccessDeniedError: () => httpError(403, 'Access denied'),
+          })
+        ),
+        { fallbackMessage: 'Failed to cancel scheduled publish' }
+      );
+    }
+  );
+};
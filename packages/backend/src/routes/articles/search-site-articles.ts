@@ -0,0 +1,62 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { ArticleService } from '../../services/article';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const searchSiteArticlesRoute = async (fastify: FastifyInstance) => {
+  fastify.get(
+    '/sites/:siteId/articles/search',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.SiteIdParam,
+          querystring: Schemas.ArticleSearchQuery,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<
+        unknown,
+        Schemas.SiteIdParam,
+        Schemas.ArticleSearchQuery
+      >,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { siteId } = request.validatedParams!;
+      const { q, status, tag, page, limit } = request.validatedQuery!;
+
+      const searchArticles = Effect.gen(function* () {
+        const articleService = yield* ArticleService;
+        const results = yield* articleService.searchSiteArticles(
+          siteId,
+          userPayload.userId,
+          { text: q, status, tag },
+          { page, limit }
+        );
+        return { results };
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        searchArticles.pipe(
+          Effect.catchTags({
+            SiteNotFoundError: () => httpError(404, 'Site not found'),
+            SiteAccessDeniedError: () =>
+              httpError(403, 'You do not have access to this site'),
+          })
+        ),
+        { fallbackMessage: 'Failed to search articles' }
+      );
+    }
+  );
+};
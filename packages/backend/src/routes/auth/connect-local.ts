@@ -0,0 +1,45 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import { UserService } from '../../services/user';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+// Local repositories need no OAuth: connecting records an integration whose
+// token is the username that owns the user's repositories on this server
+export const connectLocalRoute = async (fastify: FastifyInstance) => {
+  fastify.post(
+    '/auth/local/connect',
+    {
+      preHandler: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      const userPayload = request.jwtPayload!;
+
+      const connect = Effect.gen(function* () {
+        const userService = yield* UserService;
+        const user = yield* userService.findUserById(userPayload.userId);
+
+        yield* userService.upsertGitIntegration({
+          userId: user.id,
+          platform: 'local',
+          platformUsername: user.username,
+          accessToken: user.username,
+        });
+
+        return { platform: 'local', platformUsername: user.username };
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        connect.pipe(
+          Effect.catchTags({
+            UserNotFoundError: () => httpError(404, 'User not found'),
+          })
+        ),
+        { fallbackMessage: 'Failed to connect local repositories' }
+      );
+    }
+  );
+};
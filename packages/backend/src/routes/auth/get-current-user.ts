@@ -25,6 +25,8 @@ export const getCurrentUserRoute = async (fastify: FastifyInstance) => {
             displayName: user.displayName,
             email: user.email,
             avatarUrl: user.avatarUrl,
+            commitName: user.commitName,
+            commitEmail: user.commitEmail,
             createdAt: user.createdAt,
             gitIntegrations: user.gitIntegrations.map((integration) => ({
               platform: integration.platform,
@@ -0,0 +1,17 @@
+import type { FastifyInstance } from 'fastify';
+
+// Lists the OAuth providers configured on this instance so the login page
+// only offers the ones that can complete, and whether the GitHub App can be
+// installed
+export const getProvidersRoute = async (
+  fastify: FastifyInstance,
+  githubApp: boolean
+) => {
+  const providers = [
+    'github',
+    ...(fastify.gitlab ? ['gitlab'] : []),
+    ...(fastify.gitea ? ['gitea'] : []),
+  ];
+
+  fastify.get('/auth/providers', async () => ({ providers, githubApp }));
+};
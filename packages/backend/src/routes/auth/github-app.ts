@@ -0,0 +1,78 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import { GitHubAppRepository } from '../../repositories/github-app-repository';
+import * as Schemas from '../../schemas';
+import { AuthService } from '../../services/auth';
+import { ConfigService } from '../../services/config-service';
+import { runRouteEffect } from '../../utils/route-effect';
+
+// Installing the GitHub App happens on GitHub, which then sends the user
+// to the app's setup URL with the ID of the installation they made
+export const githubAppRoutes = async (fastify: FastifyInstance) => {
+  const { appUrl, installUrl } = await fastify.runtime.runPromise(
+    Effect.all({
+      appUrl: Effect.map(ConfigService, (c) => c.appUrl),
+      installUrl: Effect.map(GitHubAppRepository, (app) => app.installUrl),
+    })
+  );
+
+  fastify.get(
+    '/auth/github/install',
+    {
+      preHandler: [fastify.authenticate],
+    },
+    async (_request, reply) => reply.redirect(installUrl)
+  );
+
+  fastify.get(
+    '/auth/github/install/callback',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          querystring: Schemas.GitHubInstallCallbackQuery,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<
+        unknown,
+        unknown,
+        Schemas.GitHubInstallCallbackQuery
+      >,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const query = request.validatedQuery!;
+
+      const link = Effect.flatMap(AuthService, (authService) =>
+        authService.linkGitHubInstallation(
+          userPayload.userId,
+          query.installation_id
+        )
+      );
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        link.pipe(
+          Effect.map(() => {
+            reply.redirect(appUrl);
+          }),
+          Effect.catchAll((error) =>
+            Effect.gen(function* () {
+              yield* Effect.logWarning('GitHub App installation failed', error);
+              reply.redirect(`${appUrl}/auth/error?reason=installation`);
+            })
+          )
+        )
+      );
+    }
+  );
+};
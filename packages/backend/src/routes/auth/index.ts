@@ -1,13 +1,41 @@
 import type { FastifyInstance } from 'fastify';
 
+import { Effect } from 'effect';
+
+import { GitHubAppRepository } from '../../repositories/github-app-repository';
+import { ConfigService } from '../../services/config-service';
+import { connectLocalRoute } from './connect-local';
 import { getCurrentUserRoute } from './get-current-user';
-import { githubCallbackRoute } from './github-callback';
+import { getProvidersRoute } from './get-providers';
+import { githubAppRoutes } from './github-app';
 import { logoutRoute } from './logout';
+import { oauthCallbackRoute } from './oauth-callback';
 import { refreshTokenRoute } from './refresh-token';
+import { updateCurrentUserRoute } from './update-current-user';
 
 export const authRoutes = async (fastify: FastifyInstance) => {
-  await githubCallbackRoute(fastify);
+  await oauthCallbackRoute(fastify, 'github', fastify.github);
+  const githubAppEnabled = await fastify.runtime.runPromise(
+    Effect.map(GitHubAppRepository, (app) => app.enabled)
+  );
+  if (githubAppEnabled) {
+    await githubAppRoutes(fastify);
+  }
+  if (fastify.gitlab) {
+    await oauthCallbackRoute(fastify, 'gitlab', fastify.gitlab);
+  }
+  if (fastify.gitea) {
+    await oauthCallbackRoute(fastify, 'gitea', fastify.gitea);
+  }
+  const localGitRoot = await fastify.runtime.runPromise(
+    Effect.map(ConfigService, (c) => c.localGitRoot)
+  );
+  if (localGitRoot) {
+    await connectLocalRoute(fastify);
+  }
+  await getProvidersRoute(fastify, githubAppEnabled);
   await getCurrentUserRoute(fastify);
+  await updateCurrentUserRoute(fastify);
   await refreshTokenRoute(fastify);
   await logoutRoute(fastify);
 };
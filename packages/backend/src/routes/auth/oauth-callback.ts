@@ -1,3 +1,4 @@
+import type { OAuth2Namespace } from '@fastify/oauth2';
 import type { FastifyInstance } from 'fastify';
 
 import { Effect } from 'effect';
@@ -9,14 +10,18 @@ import {
 import * as Schemas from '../../schemas';
 import {
   AuthService,
-  GitHubTokenError,
+  OAuthTokenError,
   TokenGenerationError,
   generateJWTPayload,
 } from '../../services/auth';
 import { ConfigService } from '../../services/config-service';
 import { runRouteEffect } from '../../utils/route-effect';
 
-export const githubCallbackRoute = async (fastify: FastifyInstance) => {
+export const oauthCallbackRoute = async (
+  fastify: FastifyInstance,
+  platform: 'github' | 'gitlab' | 'gitea',
+  oauth: OAuth2Namespace
+) => {
   const appUrl = await fastify.runtime.runPromise(
     Effect.map(ConfigService, (c) => c.appUrl)
   );
@@ -24,25 +29,24 @@ export const githubCallbackRoute = async (fastify: FastifyInstance) => {
   const errorRedirect = (reason?: string) =>
     `${appUrl}/auth/error${reason ? `?reason=${reason}` : ''}`;
 
-  const getGitHubToken = (
-    request: TypedFastifyRequest<unknown, unknown, Schemas.GitHubCallbackQuery>
+  const getAccessToken = (
+    request: TypedFastifyRequest<unknown, unknown, Schemas.OAuthCallbackQuery>
   ) =>
     Effect.tryPromise({
-      try: () =>
-        fastify.github.getAccessTokenFromAuthorizationCodeFlow(request),
+      try: () => oauth.getAccessTokenFromAuthorizationCodeFlow(request),
       catch: (error) =>
-        new GitHubTokenError({
-          message: 'Failed to get GitHub access token',
+        new OAuthTokenError({
+          message: `Failed to get ${platform} access token`,
           cause: error,
         }),
     });
 
   fastify.get(
-    '/auth/github/callback',
+    `/auth/${platform}/callback`,
     {
       preHandler: [
         withSchemaValidation({
-          querystring: Schemas.GitHubCallbackQuery,
+          querystring: Schemas.OAuthCallbackQuery,
         }),
       ],
     },
@@ -50,7 +54,7 @@ export const githubCallbackRoute = async (fastify: FastifyInstance) => {
       request: TypedFastifyRequest<
         unknown,
         unknown,
-        Schemas.GitHubCallbackQuery
+        Schemas.OAuthCallbackQuery
       >,
       reply
     ) => {
@@ -62,15 +66,18 @@ export const githubCallbackRoute = async (fastify: FastifyInstance) => {
             `OAuth error: ${query.error} - ${query.error_description || 'No description'}`
           );
 
-          return yield* new GitHubTokenError({
+          return yield* new OAuthTokenError({
             message: query.error_description || 'OAuth authorization denied',
           });
         }
 
-        const { token } = yield* getGitHubToken(request);
+        const { token } = yield* getAccessToken(request);
 
         const authService = yield* AuthService;
-        const { user } = yield* authService.processOAuth(token.access_token);
+        const { user } = yield* authService.processOAuth(
+          token.access_token,
+          platform
+        );
 
         const sessionPayload = generateJWTPayload(user);
 
@@ -96,7 +103,7 @@ export const githubCallbackRoute = async (fastify: FastifyInstance) => {
             reply.redirect(url);
           }),
           Effect.catchTags({
-            GitHubTokenError: () =>
+            OAuthTokenError: () =>
               Effect.sync(() => reply.redirect(errorRedirect('provider'))),
             AuthProviderAPIError: () =>
               Effect.sync(() => reply.redirect(errorRedirect('provider'))),
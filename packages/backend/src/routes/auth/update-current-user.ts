@@ -0,0 +1,58 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { UserService } from '../../services/user';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const updateCurrentUserRoute = async (fastify: FastifyInstance) => {
+  fastify.put(
+    '/auth/me',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          body: Schemas.UpdateCommitIdentityData,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<Schemas.UpdateCommitIdentityData>,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const identity = request.validatedBody!;
+
+      const updateUser = Effect.gen(function* () {
+        const userService = yield* UserService;
+        const user = yield* userService.updateCommitIdentity(
+          userPayload.userId,
+          identity
+        );
+
+        return {
+          user: {
+            commitName: user.commitName,
+            commitEmail: user.commitEmail,
+          },
+        };
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        updateUser.pipe(
+          Effect.catchTags({
+            UserValidationError: (e) => httpError(400, e.message),
+          })
+        ),
+        { fallbackMessage: 'Failed to update user' }
+      );
+    }
+  );
+};
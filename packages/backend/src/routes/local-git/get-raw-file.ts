@@ -0,0 +1,75 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  readFileAtRef,
+  resolveRepoPath,
+} from '../../repositories/implementations/local-git-utils';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.avif': 'image/avif',
+  '.md': 'text/markdown; charset=utf-8',
+  '.json': 'application/json',
+};
+
+const REF_PATTERN = /^[a-zA-Z0-9_][a-zA-Z0-9_.-]*$/;
+
+const contentTypeFor = (filePath: string): string => {
+  const extension = filePath.slice(filePath.lastIndexOf('.')).toLowerCase();
+  return CONTENT_TYPES[extension] ?? 'application/octet-stream';
+};
+
+// Serves files from local bare repositories the way raw.githubusercontent.com
+// does for GitHub: /local-git/<owner>/<repo>/raw/<ref>/<path>
+export const getRawFileRoute = async (
+  fastify: FastifyInstance,
+  rootDir: string
+) => {
+  fastify.get<{ Params: { '*': string } }>(
+    '/local-git/*',
+    async (request, reply) => {
+      const target = request.params['*'];
+      const marker = target.indexOf('/raw/');
+      const repoFullName = target.slice(0, marker);
+      const rest = target.slice(marker + '/raw/'.length);
+      const slash = rest.indexOf('/');
+      const ref = rest.slice(0, slash);
+      const filePath = rest.slice(slash + 1);
+
+      const getFile = Effect.gen(function* () {
+        if (marker <= 0 || slash <= 0 || !REF_PATTERN.test(ref)) {
+          return yield* httpError(404, 'File not found');
+        }
+
+        const gitDir = yield* resolveRepoPath(rootDir, repoFullName);
+        const file = yield* readFileAtRef(gitDir, ref, filePath);
+
+        if (!file) {
+          return yield* httpError(404, 'File not found');
+        }
+
+        reply.header('Content-Type', contentTypeFor(filePath));
+        return file.content;
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        getFile.pipe(
+          Effect.catchTags({
+            GitProviderError: () => httpError(404, 'File not found'),
+          })
+        ),
+        { fallbackMessage: 'Failed to read file' }
+      );
+    }
+  );
+};
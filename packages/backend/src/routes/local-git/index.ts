@@ -0,0 +1,15 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import { ConfigService } from '../../services/config-service';
+import { getRawFileRoute } from './get-raw-file';
+
+export const localGitRoutes = async (fastify: FastifyInstance) => {
+  const rootDir = await fastify.runtime.runPromise(
+    Effect.map(ConfigService, (c) => c.localGitRoot)
+  );
+  if (!rootDir) return;
+
+  await getRawFileRoute(fastify, rootDir);
+};
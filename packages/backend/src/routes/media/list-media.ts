@@ -59,6 +59,12 @@ export const listMediaRoute = async (fastify: FastifyInstance) => {
         list.pipe(
           Effect.catchTags({
             SiteAccessDeniedError: () => httpError(403, 'Access denied'),
+            GitRepositoryError: (e) => httpError(400, e.message),
+            AuthTokenError: () =>
+              httpError(
+                401,
+                'Authentication token is invalid. Please reconnect your account.'
+              ),
           })
         ),
         { fallbackMessage: 'Failed to list media' }
@@ -23,7 +23,16 @@ export const createSiteRoute = async (fastify: FastifyInstance) => {
     },
     async (request: TypedFastifyRequest<Schemas.CreateSiteData>, reply) => {
       const userPayload = request.jwtPayload!;
-      const { name, displayName, description, author } = request.validatedBody!;
+      const {
+        name,
+        displayName,
+        description,
+        author,
+        platform,
+        templateOwner,
+        templateRepo,
+        templateId,
+      } = request.validatedBody!;
 
       const createSite = Effect.gen(function* () {
         const siteService = yield* SiteService;
@@ -36,6 +45,10 @@ export const createSiteRoute = async (fastify: FastifyInstance) => {
           displayName,
           description,
           author,
+          platform,
+          templateOwner,
+          templateRepo,
+          templateId,
         });
 
         return { site };
@@ -0,0 +1,49 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { SiteService } from '../../services/site';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const deploymentRoute = async (fastify: FastifyInstance) => {
+  fastify.get(
+    '/sites/:id/deployment',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({ params: Schemas.SiteParam }),
+      ],
+    },
+    async (request: TypedFastifyRequest<unknown, Schemas.SiteParam>, reply) => {
+      const userPayload = request.jwtPayload!;
+      const { id } = request.validatedParams!;
+
+      const deploymentEffect = Effect.gen(function* () {
+        const siteService = yield* SiteService;
+        return yield* siteService.refreshDeployStatus(id, userPayload.userId);
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        deploymentEffect.pipe(
+          Effect.catchTags({
+            SiteAccessDeniedError: () => httpError(403, 'Access denied'),
+            SiteNotFoundError: () => httpError(404, 'Site not found'),
+            AuthTokenError: () =>
+              httpError(
+                401,
+                'Authentication token is invalid. Please reconnect your account.'
+              ),
+          })
+        ),
+        { fallbackMessage: 'Failed to fetch deploy status' }
+      );
+    }
+  );
+};
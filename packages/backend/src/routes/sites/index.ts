@@ -2,12 +2,14 @@ import type { FastifyInstance } from 'fastify';
 
 import { createSiteRoute } from './create-site';
 import { deleteSiteRoute } from './delete-site';
+import { deploymentRoute } from './deployment';
 import { forceSyncRoute } from './force-sync';
 import { getSiteByIdRoute } from './get-site-by-id';
 import { getUserSitesRoute } from './get-user-sites';
 import { importRepoRoute } from './import-repo';
 import { repoConfigRoute } from './repo-config';
 import { syncArticlesRoute } from './sync-articles';
+import { templateUpgradeRoute } from './template-upgrade';
 import { updateSiteRoute } from './update-site';
 
 export const siteRoutes = async (fastify: FastifyInstance) => {
@@ -20,4 +22,6 @@ export const siteRoutes = async (fastify: FastifyInstance) => {
   await repoConfigRoute(fastify);
   await syncArticlesRoute(fastify);
   await forceSyncRoute(fastify);
+  await templateUpgradeRoute(fastify);
+  await deploymentRoute(fastify);
 };
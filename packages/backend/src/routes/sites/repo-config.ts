@@ -26,13 +26,14 @@ export const repoConfigRoute = async (fastify: FastifyInstance) => {
       reply
     ) => {
       const userPayload = request.jwtPayload!;
-      const { repo } = request.validatedQuery!;
+      const { repo, platform } = request.validatedQuery!;
 
       const getConfigEffect = Effect.gen(function* () {
         const siteService = yield* SiteService;
         const config = yield* siteService.getRepoConfig(
           userPayload.userId,
-          repo
+          repo,
+          platform
         );
         return { config };
       });
@@ -0,0 +1,111 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { SiteService } from '../../services/site';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const templateUpgradeRoute = async (fastify: FastifyInstance) => {
+  fastify.get(
+    '/sites/:id/template-upgrade',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({ params: Schemas.SiteParam }),
+      ],
+    },
+    async (request: TypedFastifyRequest<unknown, Schemas.SiteParam>, reply) => {
+      const userPayload = request.jwtPayload!;
+      const { id } = request.validatedParams!;
+
+      const previewEffect = Effect.gen(function* () {
+        const siteService = yield* SiteService;
+        return yield* siteService.previewTemplateUpgrade(
+          id,
+          userPayload.userId
+        );
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        previewEffect.pipe(
+          Effect.catchTags({
+            SiteAccessDeniedError: () => httpError(403, 'Access denied'),
+            SiteNotFoundError: () => httpError(404, 'Site not found'),
+            GitRepositoryError: (e) => httpError(400, e.message),
+            TemplateUpgradeError: (e) => httpError(400, e.reason),
+            AuthTokenError: () =>
+              httpError(
+                401,
+                'Authentication token is invalid. Please reconnect your account.'
+              ),
+            GitProviderError: (e) =>
+              httpError(502, `Git provider error: ${e.message}`),
+          })
+        ),
+        { fallbackMessage: 'Failed to preview template upgrade' }
+      );
+    }
+  );
+
+  fastify.post(
+    '/sites/:id/template-upgrade',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.SiteParam,
+          body: Schemas.ApplyTemplateUpgradeData,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<
+        Schemas.ApplyTemplateUpgradeData,
+        Schemas.SiteParam
+      >,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { id } = request.validatedParams!;
+      const { version, files } = request.validatedBody!;
+
+      const applyEffect = Effect.gen(function* () {
+        const siteService = yield* SiteService;
+        return yield* siteService.applyTemplateUpgrade({
+          siteId: id,
+          userId: userPayload.userId,
+          version,
+          files,
+        });
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        applyEffect.pipe(
+          Effect.catchTags({
+            SiteAccessDeniedError: () => httpError(403, 'Access denied'),
+            SiteNotFoundError: () => httpError(404, 'Site not found'),
+            GitRepositoryError: (e) => httpError(400, e.message),
+            TemplateUpgradeError: (e) => httpError(409, e.reason),
+            AuthTokenError: () =>
+              httpError(
+                401,
+                'Authentication token is invalid. Please reconnect your account.'
+              ),
+            GitProviderError: (e) =>
+              httpError(502, `Git provider error: ${e.message}`),
+          })
+        ),
+        { fallbackMessage: 'Failed to upgrade site template' }
+      );
+    }
+  );
+};
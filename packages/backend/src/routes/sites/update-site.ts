@@ -51,6 +51,16 @@ export const updateSiteRoute = async (fastify: FastifyInstance) => {
             DuplicateSiteNameError: () =>
               httpError(409, 'A site with this name already exists'),
             SiteValidationError: (e) => httpError(400, e.message),
+            AuthTokenError: () =>
+              httpError(
+                401,
+                'Authentication token is invalid. Please reconnect your account.'
+              ),
+            // 501: the site's host has no custom domain support
+            GitProviderError: (e) =>
+              e.status === 501
+                ? httpError(501, e.message)
+                : httpError(502, `Git provider error: ${e.message}`),
           })
         ),
         { fallbackMessage: 'Failed to update site' }
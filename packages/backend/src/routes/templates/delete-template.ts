@@ -0,0 +1,54 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { TemplateService } from '../../services/template';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const deleteTemplateRoute = async (fastify: FastifyInstance) => {
+  fastify.delete(
+    '/templates/:templateId',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          params: Schemas.TemplateIdParam,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<unknown, Schemas.TemplateIdParam>,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { templateId } = request.validatedParams!;
+
+      const del = Effect.gen(function* () {
+        const templateService = yield* TemplateService;
+        const template = yield* templateService.deleteTemplate(
+          templateId,
+          userPayload.userId
+        );
+        return { message: 'Template deleted successfully', template };
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        del.pipe(
+          Effect.catchTags({
+            TemplateAccessDeniedError: () =>
+              httpError(403, 'Only instance admins can delete templates'),
+            TemplateNotFoundError: () => httpError(404, 'Template not found'),
+          })
+        ),
+        { fallbackMessage: 'Failed to delete template' }
+      );
+    }
+  );
+};
@@ -0,0 +1,11 @@
+import type { FastifyInstance } from 'fastify';
+
+import { deleteTemplateRoute } from './delete-template';
+import { listTemplatesRoute } from './list-templates';
+import { registerTemplateRoute } from './register-template';
+
+export const templateRoutes = async (fastify: FastifyInstance) => {
+  await listTemplatesRoute(fastify);
+  await registerTemplateRoute(fastify);
+  await deleteTemplateRoute(fastify);
+};
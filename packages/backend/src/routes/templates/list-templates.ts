@@ -0,0 +1,41 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { TemplateService } from '../../services/template';
+import { runRouteEffect } from '../../utils/route-effect';
+
+export const listTemplatesRoute = async (fastify: FastifyInstance) => {
+  fastify.get(
+    '/templates',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          querystring: Schemas.TemplatesQuery,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<unknown, unknown, Schemas.TemplatesQuery>,
+      reply
+    ) => {
+      const { platform } = request.validatedQuery!;
+
+      const list = Effect.gen(function* () {
+        const templateService = yield* TemplateService;
+        const templates = yield* templateService.listTemplates(platform);
+        return { templates };
+      });
+
+      return runRouteEffect(fastify, reply, list, {
+        fallbackMessage: 'Failed to fetch templates',
+      });
+    }
+  );
+};
@@ -0,0 +1,66 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { TemplateService } from '../../services/template';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+export const registerTemplateRoute = async (fastify: FastifyInstance) => {
+  fastify.post(
+    '/templates',
+    {
+      preHandler: [
+        fastify.authenticate,
+        withSchemaValidation({
+          body: Schemas.RegisterTemplateData,
+        }),
+      ],
+    },
+    async (
+      request: TypedFastifyRequest<Schemas.RegisterTemplateData>,
+      reply
+    ) => {
+      const userPayload = request.jwtPayload!;
+      const { platform, repo } = request.validatedBody!;
+
+      const register = Effect.gen(function* () {
+        const templateService = yield* TemplateService;
+        const template = yield* templateService.registerTemplate({
+          userId: userPayload.userId,
+          platform,
+          repo,
+        });
+        return { template };
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        register.pipe(
+          Effect.catchTags({
+            TemplateAccessDeniedError: () =>
+              httpError(403, 'Only instance admins can register templates'),
+            TemplateManifestError: (e) =>
+              httpError(422, `Invalid template ${e.repo}: ${e.reason}`),
+            AuthTokenError: () =>
+              httpError(
+                401,
+                'Your connection has expired. Please reconnect your account.'
+              ),
+            GitProviderError: (e) =>
+              httpError(
+                404,
+                `Repository not found or access denied: ${e.message}`
+              ),
+          })
+        ),
+        { fallbackMessage: 'Failed to register template', successCode: 201 }
+      );
+    }
+  );
+};
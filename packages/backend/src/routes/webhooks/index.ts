@@ -0,0 +1,16 @@
+import type { FastifyInstance } from 'fastify';
+
+import { pushWebhookRoute } from './push-webhook';
+
+export const webhookRoutes = async (fastify: FastifyInstance) => {
+  // Signatures cover the exact bytes sent, so keep JSON bodies unparsed.
+  // The parser only applies inside this plugin
+  fastify.removeContentTypeParser('application/json');
+  fastify.addContentTypeParser(
+    'application/json',
+    { parseAs: 'buffer' },
+    (_request, body, done) => done(null, body)
+  );
+
+  await pushWebhookRoute(fastify);
+};
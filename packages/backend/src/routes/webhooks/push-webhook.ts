@@ -0,0 +1,58 @@
+import type { FastifyInstance } from 'fastify';
+
+import { Effect } from 'effect';
+
+import {
+  withSchemaValidation,
+  type TypedFastifyRequest,
+} from '../../plugins/schema-validation';
+import * as Schemas from '../../schemas';
+import { SiteService } from '../../services/site';
+import { httpError, runRouteEffect } from '../../utils/route-effect';
+
+// GitHub caps webhook deliveries at 25 MB
+const MAX_PAYLOAD_BYTES = 25 * 1024 * 1024;
+
+export const pushWebhookRoute = async (fastify: FastifyInstance) => {
+  fastify.post(
+    '/webhooks/:platform',
+    {
+      bodyLimit: MAX_PAYLOAD_BYTES,
+      preHandler: [withSchemaValidation({ params: Schemas.WebhookParam })],
+    },
+    async (
+      request: TypedFastifyRequest<unknown, Schemas.WebhookParam>,
+      reply
+    ) => {
+      const { platform } = request.validatedParams!;
+      const rawBody = request.body;
+
+      const handleWebhook = Effect.gen(function* () {
+        if (!Buffer.isBuffer(rawBody)) {
+          return yield* httpError(400, 'Expected a JSON payload');
+        }
+        const siteService = yield* SiteService;
+        return yield* siteService.handlePushWebhook(
+          platform,
+          request.headers,
+          rawBody
+        );
+      });
+
+      return runRouteEffect(
+        fastify,
+        reply,
+        handleWebhook.pipe(
+          Effect.catchTags({
+            WebhookPayloadError: (e) => httpError(400, e.reason),
+            WebhookSignatureError: () =>
+              httpError(401, 'Invalid webhook signature'),
+            GitProviderError: () =>
+              httpError(404, `Webhooks are not enabled for ${platform}`),
+          })
+        ),
+        { fallbackMessage: 'Failed to handle webhook', successCode: 202 }
+      );
+    }
+  );
+};
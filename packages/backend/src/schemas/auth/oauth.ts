@@ -1,13 +1,19 @@
 import { Schema as S } from 'effect';
 
 // OAuth callback query parameters
-export const GitHubCallbackQuery = S.Struct({
+export const OAuthCallbackQuery = S.Struct({
   code: S.optional(S.String),
   state: S.optional(S.String),
   error: S.optional(S.String),
   error_description: S.optional(S.String),
 });
 
+// GitHub App setup URL query, sent after an installation is created or changed
+export const GitHubInstallCallbackQuery = S.Struct({
+  installation_id: S.String.pipe(S.pattern(/^\d+$/)),
+  setup_action: S.optional(S.String),
+});
+
 // Auth callback redirect query (from frontend)
 export const AuthCallbackQuery = S.Struct({
   token: S.String.pipe(S.minLength(1)),
@@ -15,10 +21,13 @@ export const AuthCallbackQuery = S.Struct({
 
 // Auth error query parameters
 export const AuthErrorQuery = S.Struct({
-  reason: S.optional(S.Literal('provider', 'token', 'user')),
+  reason: S.optional(S.Literal('provider', 'token', 'user', 'installation')),
 });
 
 // Export types
-export type GitHubCallbackQuery = S.Schema.Type<typeof GitHubCallbackQuery>;
+export type OAuthCallbackQuery = S.Schema.Type<typeof OAuthCallbackQuery>;
+export type GitHubInstallCallbackQuery = S.Schema.Type<
+  typeof GitHubInstallCallbackQuery
+>;
 export type AuthCallbackQuery = S.Schema.Type<typeof AuthCallbackQuery>;
 export type AuthErrorQuery = S.Schema.Type<typeof AuthErrorQuery>;
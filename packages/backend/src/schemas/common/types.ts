@@ -11,10 +11,11 @@ export const Id = S.String.pipe(S.minLength(1));
 export const Email = S.String.pipe(S.pattern(/^[^\s@]+@[^\s@]+\.[^\s@]+$/));
 export const Username = S.String.pipe(S.minLength(1), S.maxLength(50));
 export const Url = S.String.pipe(S.pattern(/^https?:\/\/.+/));
+// Article path: slug segments separated by folders, e.g. guides/install/linux
 export const Slug = S.String.pipe(
-  S.pattern(/^[a-z0-9-]+$/),
+  S.pattern(/^[a-z0-9-]+(?:\/[a-z0-9-]+)*$/),
   S.minLength(1),
-  S.maxLength(100)
+  S.maxLength(200)
 );
 
 // Pagination query params (coerces string query params to numbers)
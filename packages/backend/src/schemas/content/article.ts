@@ -1,9 +1,12 @@
 import { Schema as S } from 'effect';
 
-import { Id, Slug } from '../common';
+import { Id, PaginationParams, Slug } from '../common';
+
+// Commit and blob SHAs: SHA-1, or SHA-256 in repositories that use it
+const GitSha = S.String.pipe(S.pattern(/^[0-9a-f]{40,64}$/));
 
 // Article status schemas
-export const ArticleStatus = S.Literal('draft', 'published');
+export const ArticleStatus = S.Literal('draft', 'published', 'pending_review');
 
 export const CreateArticleData = S.Struct({
   siteId: Id,
@@ -12,7 +15,8 @@ export const CreateArticleData = S.Struct({
   content: S.String,
   excerpt: S.optional(S.String.pipe(S.maxLength(500))),
   tags: S.optional(S.String.pipe(S.maxLength(500))),
-  status: S.optional(ArticleStatus),
+  // pending_review is only reached by publishing through a pull request
+  status: S.optional(S.Literal('draft', 'published')),
   publishedAt: S.optional(S.NullOr(S.String)),
 });
 
@@ -22,17 +26,115 @@ export const UpdateArticleData = S.Struct({
   content: S.optional(S.String),
   excerpt: S.optional(S.NullOr(S.String.pipe(S.maxLength(500)))),
   tags: S.optional(S.NullOr(S.String.pipe(S.maxLength(500)))),
-  status: S.optional(ArticleStatus),
+  // pending_review is only reached by publishing through a pull request
+  status: S.optional(S.Literal('draft', 'published')),
   publishedAt: S.optional(S.NullOr(S.String)),
 });
 
+// A merge of the local and remote versions of a conflicting article,
+// published on top of the remote blob it was merged with
+export const ResolveArticleConflictData = S.Struct({
+  markdown: S.String,
+  remoteSha: GitSha,
+});
+
+// The body is optional; a message is added below the commit's subject line
+export const PublishArticleData = S.UndefinedOr(
+  S.Struct({
+    message: S.optional(S.String.pipe(S.maxLength(5000))),
+  })
+);
+
+// The body is optional; a label names the saved version in the history
+export const SaveArticleRevisionData = S.UndefinedOr(
+  S.Struct({
+    label: S.optional(S.String.pipe(S.maxLength(200))),
+  })
+);
+
+// Without a revision to compare with, the diff runs to the current article
+export const ArticleRevisionDiffQuery = S.Struct({
+  against: S.optional(Id),
+});
+
+// An ISO date, decoded to a Date
+export const ScheduleArticleData = S.Struct({
+  publishAt: S.Date,
+});
+
+// One bulk action covers at most a commit's worth of articles
+const BulkArticleIds = S.Array(Id).pipe(S.minItems(1), S.maxItems(100));
+
+export const BulkArticlesData = S.Struct({
+  articleIds: BulkArticleIds,
+});
+
+const Tag = S.String.pipe(S.minLength(1), S.maxLength(100));
+
+export const BulkArticleTagsData = S.Struct({
+  articleIds: BulkArticleIds,
+  add: S.optional(S.Array(Tag)),
+  remove: S.optional(S.Array(Tag)),
+});
+
+// An ISO date or date-time, kept as the string it was sent as
+const IsoDateString = S.String.pipe(
+  S.pattern(
+    /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/
+  ),
+  S.filter((value) => !Number.isNaN(Date.parse(value)), {
+    message: () => 'Expected a valid ISO date',
+  })
+);
+
+export const BulkArticleDateData = S.Struct({
+  articleIds: BulkArticleIds,
+  publishedAt: S.NullOr(IsoDateString),
+});
+
+// Web search syntax: "quoted phrases", OR and -excluded words
+export const ArticleSearchQuery = S.Struct({
+  q: S.Trim.pipe(S.minLength(1), S.maxLength(200)),
+  status: S.optional(ArticleStatus),
+  tag: S.optional(S.String.pipe(S.minLength(1), S.maxLength(100))),
+  ...PaginationParams.fields,
+});
+
 // Parameter schemas
+
 export const ArticleIdParam = S.Struct({
   id: Id,
 });
 
+export const ArticleVersionParam = S.Struct({
+  id: Id,
+  sha: GitSha,
+});
+
+export const ArticleRevisionParam = S.Struct({
+  id: Id,
+  revisionId: Id,
+});
+
 // Export types
 export type ArticleStatus = S.Schema.Type<typeof ArticleStatus>;
 export type CreateArticleData = S.Schema.Type<typeof CreateArticleData>;
 export type UpdateArticleData = S.Schema.Type<typeof UpdateArticleData>;
+export type ResolveArticleConflictData = S.Schema.Type<
+  typeof ResolveArticleConflictData
+>;
+export type PublishArticleData = S.Schema.Type<typeof PublishArticleData>;
+export type ScheduleArticleData = S.Schema.Type<typeof ScheduleArticleData>;
+export type BulkArticlesData = S.Schema.Type<typeof BulkArticlesData>;
+export type BulkArticleTagsData = S.Schema.Type<typeof BulkArticleTagsData>;
+export type BulkArticleDateData = S.Schema.Type<typeof BulkArticleDateData>;
+export type ArticleSearchQuery = S.Schema.Type<typeof ArticleSearchQuery>;
 export type ArticleIdParam = S.Schema.Type<typeof ArticleIdParam>;
+export type ArticleVersionParam = S.Schema.Type<typeof ArticleVersionParam>;
+export type SaveArticleRevisionData = S.Schema.Type<
+  typeof SaveArticleRevisionData
+>;
+export type ArticleRevisionDiffQuery = S.Schema.Type<
+  typeof ArticleRevisionDiffQuery
+>;
+export type ArticleRevisionParam = S.Schema.Type<typeof ArticleRevisionParam>;
@@ -3,29 +3,44 @@ import { Schema as S } from 'effect';
 import { GitPlatform } from '../auth';
 import { Id, Url } from '../common';
 
+// owner/repo on GitHub, or group/subgroup/project on GitLab
+const GitRepoFullName = S.String.pipe(
+  S.pattern(/^[a-zA-Z0-9_-]+(?:\/[a-zA-Z0-9_.-]+)+$/)
+);
+
 // Site status schemas
 export const SiteStatus = S.Literal(
   'pending',
   'initializing',
   'ready',
-  'error'
+  'error',
+  'building',
+  'deployed',
+  'failed'
 );
 
+// How publishing an article reaches the default branch
+export const PublishMode = S.Literal('direct', 'pull_request');
+
+// Where links to uploaded media point: the default branch, the deployed
+// site, or the commit that added the file
+export const MediaUrlStrategy = S.Literal('raw', 'site_relative', 'pinned');
+
 export const CreateSiteData = S.Struct({
   name: S.String.pipe(S.minLength(1), S.maxLength(100)),
   displayName: S.optional(S.String.pipe(S.maxLength(200))),
   description: S.optional(S.String.pipe(S.maxLength(500))),
   author: S.optional(S.String.pipe(S.maxLength(100))),
+  platform: S.optional(GitPlatform),
   templateOwner: S.optional(S.String),
   templateRepo: S.optional(S.String),
+  templateId: S.optional(Id),
 });
 
 export const ImportRepoData = S.Struct({
   name: S.String.pipe(S.minLength(1), S.maxLength(100)),
   displayName: S.optional(S.String.pipe(S.maxLength(200))),
-  gitRepoFullName: S.String.pipe(
-    S.pattern(/^[a-zA-Z0-9_-]+\/[a-zA-Z0-9_.-]+$/)
-  ),
+  gitRepoFullName: GitRepoFullName,
   platform: S.optional(GitPlatform),
   setupWorkflow: S.optional(S.Boolean),
   enablePages: S.optional(S.Boolean),
@@ -39,6 +54,13 @@ export const UpdateSiteData = S.Struct({
   description: S.optional(S.String.pipe(S.maxLength(500))),
   gitRepo: S.optional(S.String.pipe(S.minLength(1))),
   platform: S.optional(GitPlatform),
+  publishMode: S.optional(PublishMode),
+  contentRoot: S.optional(S.String.pipe(S.maxLength(200))),
+  fileNaming: S.optional(S.String.pipe(S.minLength(1), S.maxLength(200))),
+  mediaRoot: S.optional(S.String.pipe(S.maxLength(200))),
+  commitMessageTemplate: S.optional(S.NullOr(S.String.pipe(S.maxLength(200)))),
+  mediaUrlStrategy: S.optional(MediaUrlStrategy),
+  customDomain: S.optional(S.NullOr(S.String.pipe(S.maxLength(253)))),
   deployStatus: S.optional(SiteStatus),
   deployUrl: S.optional(Url),
 });
@@ -52,6 +74,11 @@ export const SiteParam = S.Struct({
   id: Id,
 });
 
+// Local repositories can push too, through a signed-payload stand-in
+export const WebhookParam = S.Struct({
+  platform: S.Union(GitPlatform, S.Literal('local')),
+});
+
 // Template data for site creation
 export const TemplateData = S.Struct({
   siteName: S.String,
@@ -61,15 +88,57 @@ export const TemplateData = S.Struct({
 });
 
 export const RepoConfigQuery = S.Struct({
-  repo: S.String.pipe(S.pattern(/^[a-zA-Z0-9_-]+\/[a-zA-Z0-9_.-]+$/)),
+  repo: GitRepoFullName,
+  platform: S.optional(GitPlatform),
+});
+
+// Site templates registered by instance admins
+export const RegisterTemplateData = S.Struct({
+  platform: GitPlatform,
+  repo: GitRepoFullName,
+});
+
+export const TemplatesQuery = S.Struct({
+  platform: S.optional(GitPlatform),
+});
+
+export const TemplateIdParam = S.Struct({
+  templateId: Id,
+});
+
+// Per-file choices when upgrading a site to its template's latest version
+const TemplateFileDecision = S.Union(
+  S.Struct({
+    path: S.String.pipe(S.minLength(1)),
+    action: S.Literal('keep', 'replace'),
+  }),
+  S.Struct({
+    path: S.String.pipe(S.minLength(1)),
+    action: S.Literal('merge'),
+    content: S.String,
+  })
+);
+
+export const ApplyTemplateUpgradeData = S.Struct({
+  version: S.String.pipe(S.minLength(1)),
+  files: S.Array(TemplateFileDecision),
 });
 
 // Export types
 export type RepoConfigQuery = S.Schema.Type<typeof RepoConfigQuery>;
 export type SiteStatus = S.Schema.Type<typeof SiteStatus>;
+export type PublishMode = S.Schema.Type<typeof PublishMode>;
+export type MediaUrlStrategy = S.Schema.Type<typeof MediaUrlStrategy>;
 export type CreateSiteData = S.Schema.Type<typeof CreateSiteData>;
 export type ImportRepoData = S.Schema.Type<typeof ImportRepoData>;
 export type UpdateSiteData = S.Schema.Type<typeof UpdateSiteData>;
 export type SiteIdParam = S.Schema.Type<typeof SiteIdParam>;
 export type SiteParam = S.Schema.Type<typeof SiteParam>;
+export type WebhookParam = S.Schema.Type<typeof WebhookParam>;
 export type TemplateData = S.Schema.Type<typeof TemplateData>;
+export type RegisterTemplateData = S.Schema.Type<typeof RegisterTemplateData>;
+export type TemplatesQuery = S.Schema.Type<typeof TemplatesQuery>;
+export type TemplateIdParam = S.Schema.Type<typeof TemplateIdParam>;
+export type ApplyTemplateUpgradeData = S.Schema.Type<
+  typeof ApplyTemplateUpgradeData
+>;
@@ -1,4 +1,14 @@
-// User schemas — currently empty
-// User-related types are defined in repositories/user-repository.ts
-// oxlint-disable-next-line unicorn/require-module-specifiers
-export {};
+import { Schema as S } from 'effect';
+
+import { Email } from '../common';
+
+// Name and email for Inland's commits; null or empty clears them
+export const UpdateCommitIdentityData = S.Struct({
+  commitName: S.NullOr(S.String.pipe(S.maxLength(100))),
+  commitEmail: S.NullOr(S.Union(Email, S.Literal(''))),
+});
+
+// Export types
+export type UpdateCommitIdentityData = S.Schema.Type<
+  typeof UpdateCommitIdentityData
+>;
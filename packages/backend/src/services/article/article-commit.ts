@@ -0,0 +1,135 @@
+import { Effect } from 'effect';
+
+import type {
+  CommitAuthor,
+  CommitOptions,
+  FileCommit,
+} from '../../repositories/git-provider-repository';
+
+import {
+  UserRepository,
+  type UserWithIntegrations,
+} from '../../repositories/user-repository';
+
+export const DEFAULT_COMMIT_MESSAGE_TEMPLATE = '{action} article: {slug}';
+
+export type CommitAction =
+  | 'Add'
+  | 'Update'
+  | 'Delete'
+  | 'Move'
+  // Bulk actions over several articles
+  | 'Publish'
+  | 'Unpublish';
+
+export interface CommitMessageValues {
+  readonly action: CommitAction;
+  readonly title: string;
+  readonly slug: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{(action|title|slug)\}/g;
+
+// Fills in the site's template for the subject line; the note becomes the
+// body and co-authors are credited in trailers
+export const renderCommitMessage = (
+  template: string | null | undefined,
+  values: CommitMessageValues,
+  opts: { note?: string; coAuthors?: readonly CommitAuthor[] } = {}
+): string => {
+  const subject = (template || DEFAULT_COMMIT_MESSAGE_TEMPLATE).replace(
+    PLACEHOLDER_PATTERN,
+    (_, key: keyof CommitMessageValues) => values[key]
+  );
+  const note = opts.note?.trim();
+  const trailers = (opts.coAuthors ?? []).map(
+    (author) => `Co-authored-by: ${author.name} <${author.email}>`
+  );
+
+  return [
+    subject,
+    ...(note ? [note] : []),
+    ...(trailers.length > 0 ? [trailers.join('\n')] : []),
+  ].join('\n\n');
+};
+
+// Set only when the user configured both name and email, otherwise the
+// provider attributes the commit to the token owner
+export const commitAuthorFor = (user: UserWithIntegrations | null) =>
+  user?.commitName && user.commitEmail
+    ? { name: user.commitName, email: user.commitEmail }
+    : undefined;
+
+const isOwnCommit = (commit: FileCommit, user: UserWithIntegrations) => {
+  const email = commit.authorEmail?.toLowerCase();
+  const emails = [user.commitEmail, user.email].map((e) => e?.toLowerCase());
+  const names = [
+    user.commitName,
+    user.displayName,
+    user.username,
+    ...user.gitIntegrations.map((integration) => integration.platformUsername),
+  ];
+
+  return (
+    (email !== undefined && emails.includes(email)) ||
+    names.includes(commit.authorName)
+  );
+};
+
+// Everyone else who committed to the article since the user's own last
+// commit, newest first
+export const findCoAuthors = (
+  commits: readonly FileCommit[],
+  user: UserWithIntegrations
+): CommitAuthor[] => {
+  const coAuthors = new Map<string, CommitAuthor>();
+
+  for (const commit of commits) {
+    if (isOwnCommit(commit, user)) break;
+    if (!commit.authorEmail) continue;
+
+    const key = commit.authorEmail.toLowerCase();
+    if (!coAuthors.has(key)) {
+      coAuthors.set(key, {
+        name: commit.authorName,
+        email: commit.authorEmail,
+      });
+    }
+  }
+
+  return [...coAuthors.values()];
+};
+
+export const buildCommitOptions = (
+  userId: string,
+  opts: {
+    template: string | null | undefined;
+    values: CommitMessageValues;
+    note?: string;
+    // The history of each article the commit touches, newest first, for
+    // crediting collaborators
+    histories?: ReadonlyArray<readonly FileCommit[]>;
+  }
+) =>
+  Effect.gen(function* () {
+    const userRepo = yield* UserRepository;
+    const user = yield* userRepo.findById(userId);
+    const coAuthors = new Map<string, CommitAuthor>();
+    if (user) {
+      for (const commits of opts.histories ?? []) {
+        for (const author of findCoAuthors(commits, user)) {
+          const key = author.email.toLowerCase();
+          if (!coAuthors.has(key)) coAuthors.set(key, author);
+        }
+      }
+    }
+
+    const options: CommitOptions = {
+      message: renderCommitMessage(opts.template, opts.values, {
+        note: opts.note,
+        coAuthors: [...coAuthors.values()],
+      }),
+      author: commitAuthorFor(user),
+    };
+    return options;
+  });
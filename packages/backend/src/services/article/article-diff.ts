@@ -0,0 +1,67 @@
+import type { LineDiffHunk } from './article-types';
+
+// Index pairs of the lines a and b share, in order, along a longest
+// common subsequence
+const matchLines = (
+  a: readonly string[],
+  b: readonly string[]
+): Array<[number, number]> => {
+  // lengths[i][j] is the longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    Array.from({ length: b.length + 1 }, () => 0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+// Line diff from one version of an article's content to another
+export const diffLines = (from: string, to: string): LineDiffHunk[] => {
+  const fromLines = from.split('\n');
+  const toLines = to.split('\n');
+  const hunks: LineDiffHunk[] = [];
+  let same: string[] = [];
+
+  const pushChange = (removed: string[], added: string[]) => {
+    if (removed.length === 0 && added.length === 0) return;
+    if (same.length > 0) {
+      hunks.push({ kind: 'same', lines: same });
+      same = [];
+    }
+    hunks.push({ kind: 'change', removed, added });
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [matchFrom, matchTo] of matchLines(fromLines, toLines)) {
+    pushChange(fromLines.slice(i, matchFrom), toLines.slice(j, matchTo));
+    same.push(fromLines[matchFrom]);
+    i = matchFrom + 1;
+    j = matchTo + 1;
+  }
+  pushChange(fromLines.slice(i), toLines.slice(j));
+  if (same.length > 0) hunks.push({ kind: 'same', lines: same });
+
+  return hunks;
+};
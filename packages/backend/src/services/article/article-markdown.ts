@@ -1,3 +1,4 @@
+import { isRecord, stringifyFrontMatter } from '../../utils/front-matter';
 import { normalizeTags } from './article-validation';
 
 export const generateExcerpt = (content: string): string => {
@@ -34,23 +35,22 @@ export const buildArticleMarkdown = (article: {
   tags: string | null;
   publishedAt: Date | null;
   updatedAt: Date;
+  extraFrontMatter?: unknown;
 }): string => {
-  const publishDate = (article.publishedAt ?? new Date())
-    .toISOString()
-    .split('T')[0];
-  const updatedAt = article.updatedAt.toISOString().split('T')[0];
-  const excerpt = article.excerpt || generateExcerpt(article.content);
-  const tagsLine = article.tags
-    ? `\ntags: [${normalizeTags(article.tags)}]`
-    : '';
-
-  const frontMatter = `---
-title: ${article.title}
-date: ${publishDate}
-updatedAt: ${updatedAt}
-excerpt: ${excerpt}${tagsLine}
----
-
-`;
-  return frontMatter + article.content;
+  const tags = article.tags ? normalizeTags(article.tags).split(', ') : [];
+  const extra = isRecord(article.extraFrontMatter)
+    ? article.extraFrontMatter
+    : {};
+
+  // Keys the CMS owns come first; keys it imported but doesn't manage are
+  // written back as they were read
+  const frontMatter = stringifyFrontMatter({
+    title: article.title,
+    date: (article.publishedAt ?? new Date()).toISOString().split('T')[0],
+    updatedAt: article.updatedAt.toISOString().split('T')[0],
+    excerpt: article.excerpt || generateExcerpt(article.content),
+    ...(tags.length > 0 && { tags }),
+    ...extra,
+  });
+  return `${frontMatter}\n${article.content}`;
 };
@@ -6,9 +6,20 @@ import {
   validateSlug,
   generateSlugFromTitle,
 } from './article-validation';
+import { bulkDeleteArticles } from './bulk/bulk-delete-articles';
+import { bulkPublishArticles } from './bulk/bulk-publish-articles';
+import { bulkUnpublishArticles } from './bulk/bulk-unpublish-articles';
+import {
+  bulkUpdateArticleDate,
+  bulkUpdateArticleTags,
+} from './bulk/bulk-update-articles';
 import { deleteArticleFromGit } from './git/delete-article-from-git';
+import { getArticleConflict } from './git/get-article-conflict';
+import { getArticleHistory } from './git/get-article-history';
+import { getArticleVersion } from './git/get-article-version';
 import { importArticlesFromGit } from './git/import-articles-from-git';
 import { publishArticleToGit } from './git/publish-article-to-git';
+import { resolveArticleConflict } from './git/resolve-article-conflict';
 import { syncArticlesFromGit } from './git/sync-articles-from-git';
 import { createArticle } from './operations/create-article';
 import { deleteArticle } from './operations/delete-article';
@@ -16,6 +27,19 @@ import { findArticleById } from './operations/find-article-by-id';
 import { findSiteArticles } from './operations/find-site-articles';
 import { findUserArticles } from './operations/find-user-articles';
 import { updateArticle } from './operations/update-article';
+import { diffArticleRevision } from './revisions/diff-article-revision';
+import { getArticleRevision } from './revisions/get-article-revision';
+import { listArticleRevisions } from './revisions/list-article-revisions';
+import { restoreArticleRevision } from './revisions/restore-article-revision';
+import { saveArticleRevision } from './revisions/save-article-revision';
+import { cancelScheduledPublish } from './schedule/cancel-scheduled-publish';
+import { restoreScheduledPublishes } from './schedule/restore-scheduled-publishes';
+import {
+  processScheduledPublishes,
+  runScheduledPublish,
+} from './schedule/run-scheduled-publishes';
+import { scheduleArticlePublish } from './schedule/schedule-article-publish';
+import { searchSiteArticles } from './search/search-site-articles';
 
 export const ArticleServiceLive = Layer.succeed(ArticleService, {
   createArticle,
@@ -27,7 +51,27 @@ export const ArticleServiceLive = Layer.succeed(ArticleService, {
   deleteArticleFromGit,
   importArticlesFromGit,
   publishArticleToGit,
+  getArticleConflict,
+  resolveArticleConflict,
+  getArticleHistory,
+  getArticleVersion,
   syncArticlesFromGit,
+  listArticleRevisions,
+  getArticleRevision,
+  diffArticleRevision,
+  saveArticleRevision,
+  restoreArticleRevision,
+  scheduleArticlePublish,
+  cancelScheduledPublish,
+  runScheduledPublish,
+  processScheduledPublishes,
+  restoreScheduledPublishes,
+  bulkPublishArticles,
+  bulkUnpublishArticles,
+  bulkDeleteArticles,
+  bulkUpdateArticleTags,
+  bulkUpdateArticleDate,
+  searchSiteArticles,
   validateTitle,
   validateSlug,
   generateSlugFromTitle,
@@ -5,9 +5,20 @@ import type {
   validateSlug,
   generateSlugFromTitle,
 } from './article-validation';
+import type { bulkDeleteArticles } from './bulk/bulk-delete-articles';
+import type { bulkPublishArticles } from './bulk/bulk-publish-articles';
+import type { bulkUnpublishArticles } from './bulk/bulk-unpublish-articles';
+import type {
+  bulkUpdateArticleDate,
+  bulkUpdateArticleTags,
+} from './bulk/bulk-update-articles';
 import type { deleteArticleFromGit } from './git/delete-article-from-git';
+import type { getArticleConflict } from './git/get-article-conflict';
+import type { getArticleHistory } from './git/get-article-history';
+import type { getArticleVersion } from './git/get-article-version';
 import type { importArticlesFromGit } from './git/import-articles-from-git';
 import type { publishArticleToGit } from './git/publish-article-to-git';
+import type { resolveArticleConflict } from './git/resolve-article-conflict';
 import type { syncArticlesFromGit } from './git/sync-articles-from-git';
 import type { createArticle } from './operations/create-article';
 import type { deleteArticle } from './operations/delete-article';
@@ -15,6 +26,19 @@ import type { findArticleById } from './operations/find-article-by-id';
 import type { findSiteArticles } from './operations/find-site-articles';
 import type { findUserArticles } from './operations/find-user-articles';
 import type { updateArticle } from './operations/update-article';
+import type { diffArticleRevision } from './revisions/diff-article-revision';
+import type { getArticleRevision } from './revisions/get-article-revision';
+import type { listArticleRevisions } from './revisions/list-article-revisions';
+import type { restoreArticleRevision } from './revisions/restore-article-revision';
+import type { saveArticleRevision } from './revisions/save-article-revision';
+import type { cancelScheduledPublish } from './schedule/cancel-scheduled-publish';
+import type { restoreScheduledPublishes } from './schedule/restore-scheduled-publishes';
+import type {
+  processScheduledPublishes,
+  runScheduledPublish,
+} from './schedule/run-scheduled-publishes';
+import type { scheduleArticlePublish } from './schedule/schedule-article-publish';
+import type { searchSiteArticles } from './search/search-site-articles';
 
 export interface ArticleServiceInterface {
   readonly createArticle: typeof createArticle;
@@ -26,7 +50,27 @@ export interface ArticleServiceInterface {
   readonly deleteArticleFromGit: typeof deleteArticleFromGit;
   readonly importArticlesFromGit: typeof importArticlesFromGit;
   readonly publishArticleToGit: typeof publishArticleToGit;
+  readonly getArticleConflict: typeof getArticleConflict;
+  readonly resolveArticleConflict: typeof resolveArticleConflict;
+  readonly getArticleHistory: typeof getArticleHistory;
+  readonly getArticleVersion: typeof getArticleVersion;
   readonly syncArticlesFromGit: typeof syncArticlesFromGit;
+  readonly listArticleRevisions: typeof listArticleRevisions;
+  readonly getArticleRevision: typeof getArticleRevision;
+  readonly diffArticleRevision: typeof diffArticleRevision;
+  readonly saveArticleRevision: typeof saveArticleRevision;
+  readonly restoreArticleRevision: typeof restoreArticleRevision;
+  readonly scheduleArticlePublish: typeof scheduleArticlePublish;
+  readonly cancelScheduledPublish: typeof cancelScheduledPublish;
+  readonly runScheduledPublish: typeof runScheduledPublish;
+  readonly processScheduledPublishes: typeof processScheduledPublishes;
+  readonly restoreScheduledPublishes: typeof restoreScheduledPublishes;
+  readonly bulkPublishArticles: typeof bulkPublishArticles;
+  readonly bulkUnpublishArticles: typeof bulkUnpublishArticles;
+  readonly bulkDeleteArticles: typeof bulkDeleteArticles;
+  readonly bulkUpdateArticleTags: typeof bulkUpdateArticleTags;
+  readonly bulkUpdateArticleDate: typeof bulkUpdateArticleDate;
+  readonly searchSiteArticles: typeof searchSiteArticles;
   readonly validateTitle: typeof validateTitle;
   readonly validateSlug: typeof validateSlug;
   readonly generateSlugFromTitle: typeof generateSlugFromTitle;
@@ -1,5 +1,7 @@
 import { Data } from 'effect';
 
+import type { ArticleRevisionSummary } from '../../repositories/article-revision-repository';
+
 // Error types
 export class ArticleNotFoundError extends Data.TaggedError(
   'ArticleNotFoundError'
@@ -47,6 +49,27 @@ export class GitConflictError extends Data.TaggedError('GitConflictError')<{
   readonly remoteSha: string;
 }> {}
 
+export class ArticleVersionNotFoundError extends Data.TaggedError(
+  'ArticleVersionNotFoundError'
+)<{
+  readonly articleId: string;
+  readonly commitSha: string;
+}> {}
+
+export class ArticleRevisionNotFoundError extends Data.TaggedError(
+  'ArticleRevisionNotFoundError'
+)<{
+  readonly articleId: string;
+  readonly revisionId: string;
+}> {}
+
+export class ArticleScheduleError extends Data.TaggedError(
+  'ArticleScheduleError'
+)<{
+  readonly articleId: string;
+  readonly reason: string;
+}> {}
+
 // Domain types
 export interface CreateArticleData {
   readonly siteId: string;
@@ -59,6 +82,81 @@ export interface CreateArticleData {
   readonly publishedAt?: string | null;
 }
 
+// The versions of an article file a publish conflict is merged from, as
+// markdown. base is what was last synced, or null when the host no longer
+// has that blob
+export interface ArticleConflict {
+  readonly remoteSha: string;
+  readonly base: string | null;
+  readonly local: string;
+  readonly remote: string;
+}
+
+// An article as a past commit had it
+export interface ArticleVersion {
+  readonly commitSha: string;
+  readonly title: string;
+  readonly content: string;
+  readonly excerpt: string | null;
+  readonly tags: string | null;
+}
+
+// Lines two versions of an article share, and the changes between them
+export type LineDiffHunk =
+  | { readonly kind: 'same'; readonly lines: readonly string[] }
+  | {
+      readonly kind: 'change';
+      readonly removed: readonly string[];
+      readonly added: readonly string[];
+    };
+
+// A revision compared with a later revision, or with the article as it is
+// now when `to` is null
+export interface ArticleRevisionDiff {
+  readonly from: ArticleRevisionSummary;
+  readonly to: ArticleRevisionSummary | null;
+  readonly titleChanged: boolean;
+  readonly hunks: readonly LineDiffHunk[];
+}
+
+// A run of headline text, highlighted where it matched the search
+export interface SearchTextSegment {
+  readonly text: string;
+  readonly highlighted: boolean;
+}
+
+export interface ArticleSearchHit {
+  readonly id: string;
+  readonly title: string;
+  readonly slug: string;
+  readonly status: string;
+  readonly tags: string | null;
+  readonly publishedAt: Date | null;
+  readonly rank: number;
+  readonly titleHighlights: SearchTextSegment[];
+  // The best matching fragments of the content
+  readonly snippet: SearchTextSegment[];
+  // Matched words, lowercased, content first
+  readonly matches: string[];
+}
+
+export interface BulkArticleTagChanges {
+  readonly add?: readonly string[];
+  readonly remove?: readonly string[];
+}
+
+// How one article of a bulk action went; error says why it was left out
+export interface BulkArticleResult {
+  readonly articleId: string;
+  readonly success: boolean;
+  readonly error: string | null;
+}
+
+export interface ResolveConflictData {
+  readonly markdown: string;
+  readonly remoteSha: string;
+}
+
 export interface UpdateArticleData {
   readonly title?: string;
   readonly slug?: string;
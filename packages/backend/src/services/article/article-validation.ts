@@ -29,19 +29,19 @@ export const validateSlug = (slug: string) =>
         message: 'Article slug cannot be empty',
       });
     }
-    // Basic slug validation - URL safe characters
-    const validSlugPattern = /^[a-z0-9-]+$/;
+    // URL safe segments, with slashes separating folders
+    const validSlugPattern = /^[a-z0-9-]+(?:\/[a-z0-9-]+)*$/;
     if (!validSlugPattern.test(trimmedSlug)) {
       return yield* new ArticleValidationError({
         field: 'slug',
         message:
-          'Article slug can only contain lowercase letters, numbers, and hyphens',
+          'Article slug can only contain lowercase letters, numbers, and hyphens, with slashes between folders',
       });
     }
-    if (trimmedSlug.length > 100) {
+    if (trimmedSlug.length > 200) {
       return yield* new ArticleValidationError({
         field: 'slug',
-        message: 'Article slug cannot exceed 100 characters',
+        message: 'Article slug cannot exceed 200 characters',
       });
     }
     return trimmedSlug;
@@ -0,0 +1,228 @@
+import { Effect } from 'effect';
+
+import type {
+  FileChange,
+  FileCommit,
+} from '../../../repositories/git-provider-repository';
+
+import {
+  ArticleRepository,
+  type ArticleWithSite,
+} from '../../../repositories/article-repository';
+import { GitProviderRegistry } from '../../../repositories/git-provider-repository';
+import {
+  articleFilePath,
+  siteContentLayout,
+  syncedArticleFilePath,
+} from '../../../repositories/implementations/git-content-utils';
+import { SiteRepository } from '../../../repositories/site-repository';
+import { AuthService } from '../../auth';
+import {
+  SiteAccessDeniedError,
+  SiteNotFoundError,
+} from '../../site/site-types';
+import { buildCommitOptions, type CommitAction } from '../article-commit';
+import {
+  GitConflictError,
+  GitRepositoryError,
+  type BulkArticleResult,
+} from '../article-types';
+
+export const bulkSuccess = (articleId: string): BulkArticleResult => ({
+  articleId,
+  success: true,
+  error: null,
+});
+
+export const bulkFailure = (
+  articleId: string,
+  error: string
+): BulkArticleResult => ({ articleId, success: false, error });
+
+// What a failed article is reported with
+export const bulkErrorMessage = (error: {
+  readonly _tag: string;
+  readonly message: string;
+}) => {
+  switch (error._tag) {
+    case 'GitConflictError':
+      return 'The article was modified in the repository since it was last synced';
+    case 'DuplicateSlugError':
+      return 'Another article already uses this slug';
+    case 'AuthTokenError':
+      return 'The Git account needs to be reconnected';
+    default:
+      return error.message || 'Unexpected error';
+  }
+};
+
+// Runs the action on each article in turn, reporting failures per article
+// instead of stopping at the first one
+export const forEachArticle = <
+  A,
+  E extends { readonly _tag: string; readonly message: string },
+  R,
+>(
+  articles: readonly ArticleWithSite[],
+  action: (article: ArticleWithSite) => Effect.Effect<A, E, R>
+) =>
+  Effect.forEach(articles, (article) =>
+    action(article).pipe(
+      Effect.as(bulkSuccess(article.id)),
+      Effect.catchAll((error) =>
+        Effect.succeed(bulkFailure(article.id, bulkErrorMessage(error)))
+      )
+    )
+  );
+
+// The articles of a bulk action on a site the user owns. Ids that are not
+// among the site's articles come back as failed results
+export const loadBulkArticles = (
+  siteId: string,
+  userId: string,
+  articleIds: readonly string[]
+) =>
+  Effect.gen(function* () {
+    const site = yield* Effect.flatMap(SiteRepository, (siteRepo) =>
+      siteRepo.findByIdWithUserId(siteId)
+    );
+
+    if (!site) {
+      return yield* new SiteNotFoundError({ siteId });
+    }
+
+    if (site.userId !== userId) {
+      return yield* new SiteAccessDeniedError({ siteId, userId });
+    }
+
+    const ids = [...new Set(articleIds)];
+    const articles = yield* Effect.flatMap(ArticleRepository, (articleRepo) =>
+      articleRepo.findByIds(siteId, ids)
+    );
+    const found = new Set(articles.map((article) => article.id));
+
+    return {
+      articles,
+      missing: ids
+        .filter((id) => !found.has(id))
+        .map((id) => bulkFailure(id, 'Article not found')),
+    };
+  });
+
+// What committing a bulk action to the site's repository takes
+export const bulkGitContext = (site: ArticleWithSite['site'], userId: string) =>
+  Effect.gen(function* () {
+    const gitRepo = site.gitRepo;
+    if (!gitRepo) {
+      return yield* new GitRepositoryError({
+        siteId: site.id,
+        message: 'Site does not have a linked Git repository',
+      });
+    }
+
+    const platform = site.platform ?? 'github';
+    const accessToken = yield* Effect.flatMap(AuthService, (authService) =>
+      authService.getUserAuthToken(userId, platform, gitRepo)
+    );
+    const gitProvider = yield* Effect.flatMap(GitProviderRegistry, (registry) =>
+      registry.forPlatform(platform)
+    );
+
+    return { site, userId, gitRepo, accessToken, gitProvider };
+  });
+
+export type BulkGitContext = Effect.Effect.Success<
+  ReturnType<typeof bulkGitContext>
+>;
+
+// Splits off the articles whose file changed in the repository since it was
+// last synced, reporting them the way a single publish reports a conflict
+export const checkSyncedFiles = (
+  git: BulkGitContext,
+  articles: readonly ArticleWithSite[]
+) =>
+  Effect.partition(articles, (article) =>
+    Effect.gen(function* () {
+      const remoteSha = yield* git.gitProvider.getArticleFileSha(
+        git.accessToken,
+        git.gitRepo,
+        article.previousSlug ?? article.slug,
+        syncedArticleFilePath(article, siteContentLayout(article.site))
+      );
+      if (remoteSha && remoteSha !== article.gitSha) {
+        return yield* new GitConflictError({
+          articleId: article.id,
+          localSha: article.gitSha,
+          remoteSha,
+        });
+      }
+      return article;
+    }).pipe(
+      Effect.mapError((error) =>
+        bulkFailure(article.id, bulkErrorMessage(error))
+      )
+    )
+  );
+
+// Removes each article's file, at its path and at the old path of a rename
+// or date change that was never published. Paths without a file are skipped
+export const fileDeletions = (
+  articles: readonly ArticleWithSite[]
+): FileChange[] =>
+  articles.flatMap((article) => {
+    const layout = siteContentLayout(article.site);
+    const paths = new Set([
+      articleFilePath(article.slug, layout, article.publishedAt),
+      syncedArticleFilePath(article, layout),
+    ]);
+    return [...paths].map((path) => ({ path, base64Content: null }));
+  });
+
+// Stands in for the default template on a commit over several articles,
+// reading e.g. "Publish 3 articles"
+const BULK_COMMIT_MESSAGE_TEMPLATE = '{action} {slug}';
+
+// The whole action lands in one commit on the default branch. Its message
+// follows the site's template, naming the article or, for several, how many
+// there are and listing them below
+export const commitBulkChangeset = (
+  git: BulkGitContext,
+  action: Extract<CommitAction, 'Publish' | 'Unpublish' | 'Delete' | 'Move'>,
+  articles: readonly ArticleWithSite[],
+  changes: readonly FileChange[],
+  // The articles' histories, for crediting collaborators
+  histories: ReadonlyArray<readonly FileCommit[]> = []
+) =>
+  Effect.gen(function* () {
+    const count = `${articles.length} articles`;
+    const commit = yield* buildCommitOptions(
+      git.userId,
+      articles.length === 1
+        ? {
+            template: git.site.commitMessageTemplate,
+            values: {
+              action,
+              title: articles[0].title,
+              slug: articles[0].slug,
+            },
+            histories,
+          }
+        : {
+            template:
+              git.site.commitMessageTemplate || BULK_COMMIT_MESSAGE_TEMPLATE,
+            values: { action, title: count, slug: count },
+            note: articles.map(({ slug }) => `- ${slug}`).join('\n'),
+            histories,
+          }
+    );
+
+    return yield* git.gitProvider.commitChangeset(
+      git.accessToken,
+      git.gitRepo,
+      {
+        message: commit.message ?? `${action} ${count}`,
+        author: commit.author,
+        changes,
+      }
+    );
+  });
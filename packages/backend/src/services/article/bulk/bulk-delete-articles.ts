@@ -0,0 +1,74 @@
+import { Effect, Either } from 'effect';
+
+import {
+  ArticleRepository,
+  type ArticleWithSite,
+} from '../../../repositories/article-repository';
+import { trackDeploy } from '../../site/git/track-deploy';
+import {
+  bulkErrorMessage,
+  bulkFailure,
+  bulkGitContext,
+  checkSyncedFiles,
+  commitBulkChangeset,
+  fileDeletions,
+  forEachArticle,
+  loadBulkArticles,
+} from './bulk-articles';
+
+// Deletes the articles, removing the files of those in the repository in
+// one commit first. Articles whose files could not be removed, or changed
+// in the repository since they were last synced, are kept, so nothing is
+// left in the repository without an article to manage it
+export const bulkDeleteArticles = (
+  siteId: string,
+  userId: string,
+  articleIds: readonly string[]
+) =>
+  Effect.gen(function* () {
+    const { articles, missing } = yield* loadBulkArticles(
+      siteId,
+      userId,
+      articleIds
+    );
+    if (articles.length === 0) return missing;
+
+    const tracked = articles[0].site.gitRepo
+      ? articles.filter((article) => article.gitSha !== null)
+      : [];
+    let removed: readonly ArticleWithSite[] = [];
+    const failures = [...missing];
+    let commitSha: string | null = null;
+
+    if (tracked.length > 0) {
+      const git = yield* bulkGitContext(articles[0].site, userId);
+      const [conflicts, synced] = yield* checkSyncedFiles(git, tracked);
+      failures.push(...conflicts);
+
+      if (synced.length > 0) {
+        const changeset = yield* Effect.either(
+          commitBulkChangeset(git, 'Delete', synced, fileDeletions(synced))
+        );
+        if (Either.isLeft(changeset)) {
+          const error = bulkErrorMessage(changeset.left);
+          failures.push(
+            ...synced.map((article) => bulkFailure(article.id, error))
+          );
+        } else {
+          removed = synced;
+          commitSha = changeset.right.commitSha;
+        }
+      }
+    }
+
+    const deletable = articles.filter(
+      (article) => !tracked.includes(article) || removed.includes(article)
+    );
+    const articleRepo = yield* ArticleRepository;
+    const results = yield* forEachArticle(deletable, (article) =>
+      articleRepo.delete(article.id)
+    );
+    yield* trackDeploy(siteId, commitSha);
+
+    return [...results, ...failures];
+  });
@@ -0,0 +1,245 @@
+import { Effect, Either } from 'effect';
+
+import type {
+  FileChange,
+  FileCommit,
+} from '../../../repositories/git-provider-repository';
+
+import {
+  ArticleRepository,
+  type ArticleUpdateData,
+  type ArticleWithSite,
+} from '../../../repositories/article-repository';
+import {
+  addSlugRedirect,
+  articleFilePath,
+  REDIRECTS_PATH,
+  siteContentLayout,
+  syncedArticleFilePath,
+} from '../../../repositories/implementations/git-content-utils';
+import { makeMediaUrlRewriter } from '../../media/media-url';
+import { trackDeploy } from '../../site/git/track-deploy';
+import { computeContentHash } from '../article-content-hash';
+import { buildArticleMarkdown } from '../article-markdown';
+import { GitConflictError, type BulkArticleResult } from '../article-types';
+import {
+  publishArticleToGit,
+  recordPublishedRevision,
+} from '../git/publish-article-to-git';
+import {
+  bulkErrorMessage,
+  bulkFailure,
+  bulkGitContext,
+  commitBulkChangeset,
+  forEachArticle,
+  loadBulkArticles,
+  type BulkGitContext,
+} from './bulk-articles';
+
+interface ArticleFile {
+  readonly article: ArticleWithSite;
+  readonly filePath: string;
+  // Set when the slug changed since the article was last published
+  readonly fromSlug: string | null;
+  // Set when the slug or date changed the file's path
+  readonly fromPath: string | null;
+  readonly markdownContent: string;
+  // Commits to the file so far, newest first
+  readonly history: readonly FileCommit[];
+}
+
+// The file an article publishes to, checked against the repository the
+// same way a single publish is
+const prepareArticleFile = (
+  git: BulkGitContext,
+  article: ArticleWithSite,
+  rewriteMediaUrls: Effect.Effect.Success<
+    ReturnType<typeof makeMediaUrlRewriter>
+  >
+) =>
+  Effect.gen(function* () {
+    const layout = siteContentLayout(article.site);
+    const filePath = articleFilePath(article.slug, layout, article.publishedAt);
+    const fileSlug = article.previousSlug ?? article.slug;
+    const currentPath = syncedArticleFilePath(article, layout);
+
+    if (article.gitSha) {
+      const remoteSha = yield* git.gitProvider.getArticleFileSha(
+        git.accessToken,
+        git.gitRepo,
+        fileSlug,
+        currentPath
+      );
+      if (remoteSha && remoteSha !== article.gitSha) {
+        return yield* new GitConflictError({
+          articleId: article.id,
+          localSha: article.gitSha,
+          remoteSha,
+        });
+      }
+    }
+
+    const isMove = currentPath !== filePath;
+    const file: ArticleFile = {
+      article,
+      filePath,
+      fromSlug: fileSlug !== article.slug ? fileSlug : null,
+      fromPath: isMove ? currentPath : null,
+      markdownContent: yield* rewriteMediaUrls(buildArticleMarkdown(article)),
+      history: article.gitSha
+        ? yield* git.gitProvider
+            .listFileCommits(git.accessToken, git.gitRepo, currentPath)
+            .pipe(Effect.catchAll(() => Effect.succeed([])))
+        : [],
+    };
+    return file;
+  });
+
+// Publishes the articles in one commit on the default branch. Sites that
+// publish through pull requests get a review branch per article instead
+export const bulkPublishArticles = (
+  siteId: string,
+  userId: string,
+  articleIds: readonly string[]
+) =>
+  Effect.gen(function* () {
+    const { articles, missing } = yield* loadBulkArticles(
+      siteId,
+      userId,
+      articleIds
+    );
+    if (articles.length === 0) return missing;
+
+    const site = articles[0].site;
+    if (site.publishMode === 'pull_request') {
+      const results = yield* forEachArticle(articles, (article) =>
+        publishArticleToGit(article.id, userId)
+      );
+      return [...results, ...missing];
+    }
+
+    const git = yield* bulkGitContext(site, userId);
+    const rewriteMediaUrls = yield* makeMediaUrlRewriter(
+      { ...site, gitRepo: git.gitRepo },
+      git.gitProvider,
+      git.accessToken
+    );
+
+    const failures: BulkArticleResult[] = [...missing];
+    let files: ArticleFile[] = [];
+    for (const article of articles) {
+      const prepared = yield* Effect.either(
+        prepareArticleFile(git, article, rewriteMediaUrls)
+      );
+      if (Either.isLeft(prepared)) {
+        failures.push(bulkFailure(article.id, bulkErrorMessage(prepared.left)));
+      } else {
+        files.push(prepared.right);
+      }
+    }
+
+    // Every renamed article redirects its old slug in the one redirects file
+    const changes: FileChange[] = [];
+    const moves = files.filter((file) => file.fromSlug !== null);
+    if (moves.length > 0) {
+      const { defaultBranch } = yield* git.gitProvider.getRepositoryInfo(
+        git.accessToken,
+        git.gitRepo
+      );
+      const redirectsFile = yield* git.gitProvider.getFileAtRef(
+        git.accessToken,
+        git.gitRepo,
+        REDIRECTS_PATH,
+        defaultBranch
+      );
+      const redirects = moves.reduce<string | null>(
+        (file, move) =>
+          file === null
+            ? null
+            : addSlugRedirect(file, move.fromSlug ?? '', move.article.slug),
+        redirectsFile ?? '[]'
+      );
+
+      if (redirects === null) {
+        failures.push(
+          ...moves.map((move) =>
+            bulkFailure(
+              move.article.id,
+              `${REDIRECTS_PATH} is not a list of redirects`
+            )
+          )
+        );
+        files = files.filter((file) => file.fromSlug === null);
+      } else {
+        changes.push({
+          path: REDIRECTS_PATH,
+          base64Content: Buffer.from(redirects).toString('base64'),
+        });
+      }
+    }
+    if (files.length === 0) return failures;
+
+    for (const file of files) {
+      if (file.fromPath) {
+        changes.push({ path: file.fromPath, base64Content: null });
+      }
+      changes.push({
+        path: file.filePath,
+        base64Content: Buffer.from(file.markdownContent).toString('base64'),
+      });
+    }
+
+    const published = files.map((file) => file.article);
+    const changeset = yield* Effect.either(
+      commitBulkChangeset(
+        git,
+        'Publish',
+        published,
+        changes,
+        files.map((file) => file.history)
+      )
+    );
+    if (Either.isLeft(changeset)) {
+      const error = bulkErrorMessage(changeset.left);
+      return [
+        ...published.map((article) => bulkFailure(article.id, error)),
+        ...failures,
+      ];
+    }
+
+    yield* Effect.logInfo(
+      `Articles published to Git repository ${git.gitRepo}: ${published.map((article) => article.slug).join(', ')}`
+    );
+
+    const articleRepo = yield* ArticleRepository;
+    const { blobShas, commitSha } = changeset.right;
+    const results = yield* forEachArticle(published, (article) =>
+      Effect.gen(function* () {
+        const filePath = articleFilePath(
+          article.slug,
+          siteContentLayout(article.site),
+          article.publishedAt
+        );
+        const syncedHash = computeContentHash(article);
+        const repoData: ArticleUpdateData = {
+          status: 'published',
+          ...(!article.publishedAt && { publishedAt: new Date() }),
+          gitSha: blobShas[filePath],
+          gitSyncedAt: new Date(),
+          contentHash: syncedHash,
+          gitSyncedHash: syncedHash,
+          pullRequestNumber: null,
+          pullRequestUrl: null,
+          previousSlug: null,
+          previousPublishedAt: null,
+          scheduledAt: null,
+          scheduleError: null,
+        };
+        yield* articleRepo.update(article.id, repoData);
+        yield* recordPublishedRevision(article);
+      })
+    );
+    yield* trackDeploy(site.id, commitSha);
+
+    return [...results, ...failures];
+  });
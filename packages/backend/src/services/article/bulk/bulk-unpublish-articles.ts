@@ -0,0 +1,75 @@
+import { Effect, Either } from 'effect';
+
+import {
+  ArticleRepository,
+  type ArticleUpdateData,
+} from '../../../repositories/article-repository';
+import { trackDeploy } from '../../site/git/track-deploy';
+import {
+  bulkErrorMessage,
+  bulkFailure,
+  bulkGitContext,
+  checkSyncedFiles,
+  commitBulkChangeset,
+  fileDeletions,
+  forEachArticle,
+  loadBulkArticles,
+} from './bulk-articles';
+
+// Takes published articles off the site by deleting their files in one
+// commit; the articles stay as drafts. Articles whose files changed in the
+// repository since they were last synced are left alone
+export const bulkUnpublishArticles = (
+  siteId: string,
+  userId: string,
+  articleIds: readonly string[]
+) =>
+  Effect.gen(function* () {
+    const { articles: found, missing } = yield* loadBulkArticles(
+      siteId,
+      userId,
+      articleIds
+    );
+    // Articles with a file in the repository, published or not
+    const tracked = found.filter((article) => article.gitSha !== null);
+    const failures = [
+      ...missing,
+      ...found
+        .filter((article) => article.gitSha === null)
+        .map((article) => bulkFailure(article.id, 'Article is not published')),
+    ];
+    if (tracked.length === 0) return failures;
+
+    const git = yield* bulkGitContext(tracked[0].site, userId);
+    const [conflicts, articles] = yield* checkSyncedFiles(git, tracked);
+    failures.push(...conflicts);
+    if (articles.length === 0) return failures;
+
+    const changeset = yield* Effect.either(
+      commitBulkChangeset(git, 'Unpublish', articles, fileDeletions(articles))
+    );
+    if (Either.isLeft(changeset)) {
+      const error = bulkErrorMessage(changeset.left);
+      return [
+        ...articles.map((article) => bulkFailure(article.id, error)),
+        ...failures,
+      ];
+    }
+
+    const articleRepo = yield* ArticleRepository;
+    const draftData: ArticleUpdateData = {
+      status: 'draft',
+      gitSha: null,
+      gitSyncedAt: null,
+      previousSlug: null,
+      previousPublishedAt: null,
+      pullRequestNumber: null,
+      pullRequestUrl: null,
+    };
+    const results = yield* forEachArticle(articles, (article) =>
+      articleRepo.update(article.id, draftData)
+    );
+    yield* trackDeploy(siteId, changeset.right.commitSha);
+
+    return [...results, ...failures];
+  });
@@ -0,0 +1,196 @@
+import { Effect, Either } from 'effect';
+
+import type { FileChange } from '../../../repositories/git-provider-repository';
+
+import {
+  ArticleRepository,
+  type ArticleWithSite,
+} from '../../../repositories/article-repository';
+import {
+  articleFilePath,
+  siteContentLayout,
+  syncedArticleFilePath,
+} from '../../../repositories/implementations/git-content-utils';
+import { setFrontMatterValue } from '../../../utils/front-matter';
+import { trackDeploy } from '../../site/git/track-deploy';
+import {
+  GitRepositoryError,
+  type BulkArticleTagChanges,
+} from '../article-types';
+import { normalizeTags } from '../article-validation';
+import { updateArticle } from '../operations/update-article';
+import {
+  bulkErrorMessage,
+  bulkFailure,
+  bulkGitContext,
+  checkSyncedFiles,
+  commitBulkChangeset,
+  forEachArticle,
+  loadBulkArticles,
+} from './bulk-articles';
+
+const parseTags = (tags: string | null) =>
+  tags ? normalizeTags(tags).split(', ').filter(Boolean) : [];
+
+// Adds and removes tags on each article, leaving its other tags alone
+export const bulkUpdateArticleTags = (
+  siteId: string,
+  userId: string,
+  articleIds: readonly string[],
+  changes: BulkArticleTagChanges
+) =>
+  Effect.gen(function* () {
+    const { articles, missing } = yield* loadBulkArticles(
+      siteId,
+      userId,
+      articleIds
+    );
+    const remove = new Set(
+      (changes.remove ?? []).map((tag) => tag.trim().toLowerCase())
+    );
+
+    const results = yield* forEachArticle(articles, (article) => {
+      const tags = parseTags(article.tags).filter(
+        (tag) => !remove.has(tag.toLowerCase())
+      );
+      for (const tag of parseTags((changes.add ?? []).join(','))) {
+        if (!tags.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+          tags.push(tag);
+        }
+      }
+      return updateArticle(article.id, userId, {
+        tags: tags.length > 0 ? tags.join(', ') : null,
+      });
+    });
+
+    return [...results, ...missing];
+  });
+
+// Where the article's file goes in the repository on the given date
+const datedFilePath = (article: ArticleWithSite, date: Date | null) =>
+  articleFilePath(
+    article.previousSlug ?? article.slug,
+    siteContentLayout(article.site),
+    date
+  );
+
+const currentFilePath = (article: ArticleWithSite) =>
+  syncedArticleFilePath(article, siteContentLayout(article.site));
+
+// Sets the publish date of each article. Files of synced articles named
+// after the date move to the new name in one commit, with only the date in
+// their front matter changed; articles whose file could not be moved keep
+// their date
+export const bulkUpdateArticleDate = (
+  siteId: string,
+  userId: string,
+  articleIds: readonly string[],
+  publishedAt: string | null
+) =>
+  Effect.gen(function* () {
+    const { articles, missing } = yield* loadBulkArticles(
+      siteId,
+      userId,
+      articleIds
+    );
+    const date = publishedAt ? new Date(publishedAt) : null;
+    const moving = articles.filter(
+      (article) =>
+        article.site.gitRepo &&
+        article.gitSha !== null &&
+        currentFilePath(article) !== datedFilePath(article, date)
+    );
+    // Blob SHAs of the moved files by article
+    const moved = new Map<string, string | undefined>();
+    const failures = [...missing];
+    let commitSha: string | null = null;
+
+    if (moving.length > 0) {
+      const git = yield* bulkGitContext(moving[0].site, userId);
+      const [conflicts, synced] = yield* checkSyncedFiles(git, moving);
+      failures.push(...conflicts);
+
+      const [unreadable, files] = yield* Effect.partition(synced, (article) =>
+        Effect.gen(function* () {
+          const fromPath = currentFilePath(article);
+          const content = article.gitSha
+            ? yield* git.gitProvider.getBlobContent(
+                git.accessToken,
+                git.gitRepo,
+                article.gitSha
+              )
+            : null;
+          if (content === null) {
+            return yield* new GitRepositoryError({
+              siteId,
+              message: `Could not read ${fromPath} from the repository`,
+            });
+          }
+          const toPath = datedFilePath(article, date);
+          const changes: FileChange[] = [
+            { path: fromPath, base64Content: null },
+            {
+              path: toPath,
+              base64Content: Buffer.from(
+                setFrontMatterValue(
+                  content,
+                  'date',
+                  (date ?? new Date()).toISOString().split('T')[0]
+                )
+              ).toString('base64'),
+            },
+          ];
+          return { article, toPath, changes };
+        }).pipe(
+          Effect.mapError((error) =>
+            bulkFailure(article.id, bulkErrorMessage(error))
+          )
+        )
+      );
+      failures.push(...unreadable);
+
+      if (files.length > 0) {
+        const filesMoved = files.map((file) => file.article);
+        const changeset = yield* Effect.either(
+          commitBulkChangeset(
+            git,
+            'Move',
+            filesMoved,
+            files.flatMap((file) => file.changes)
+          )
+        );
+        if (Either.isLeft(changeset)) {
+          const error = bulkErrorMessage(changeset.left);
+          failures.push(
+            ...filesMoved.map((article) => bulkFailure(article.id, error))
+          );
+        } else {
+          for (const file of files) {
+            moved.set(file.article.id, changeset.right.blobShas[file.toPath]);
+          }
+          commitSha = changeset.right.commitSha;
+        }
+      }
+    }
+
+    const articleRepo = yield* ArticleRepository;
+    const results = yield* forEachArticle(
+      articles.filter(
+        (article) => !moving.includes(article) || moved.has(article.id)
+      ),
+      (article) =>
+        Effect.gen(function* () {
+          yield* updateArticle(article.id, userId, { publishedAt });
+          // The file already moved, so no publish is left to move it
+          if (moved.has(article.id)) {
+            yield* articleRepo.update(article.id, {
+              gitSha: moved.get(article.id) ?? article.gitSha,
+              previousPublishedAt: null,
+            });
+          }
+        })
+    );
+    yield* trackDeploy(siteId, commitSha);
+
+    return [...results, ...failures];
+  });
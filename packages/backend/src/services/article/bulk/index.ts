@@ -0,0 +1,7 @@
+export { bulkDeleteArticles } from './bulk-delete-articles';
+export { bulkPublishArticles } from './bulk-publish-articles';
+export { bulkUnpublishArticles } from './bulk-unpublish-articles';
+export {
+  bulkUpdateArticleDate,
+  bulkUpdateArticleTags,
+} from './bulk-update-articles';
@@ -1,8 +1,13 @@
 import { Effect } from 'effect';
 
 import { ArticleRepository } from '../../../repositories/article-repository';
-import { GitProviderRepository } from '../../../repositories/git-provider-repository';
+import { GitProviderRegistry } from '../../../repositories/git-provider-repository';
+import {
+  siteContentLayout,
+  syncedArticleFilePath,
+} from '../../../repositories/implementations/git-content-utils';
 import { AuthService } from '../../auth';
+import { buildCommitOptions } from '../article-commit';
 import {
   ArticleNotFoundError,
   ArticleAccessDeniedError,
@@ -11,7 +16,7 @@ import {
 export const deleteArticleFromGit = (articleId: string, userId: string) =>
   Effect.gen(function* () {
     const articleRepo = yield* ArticleRepository;
-    const gitProvider = yield* GitProviderRepository;
+    const gitProviders = yield* GitProviderRegistry;
 
     const article = yield* articleRepo.findById(articleId);
 
@@ -31,12 +36,27 @@ export const deleteArticleFromGit = (articleId: string, userId: string) =>
     }
 
     const authService = yield* AuthService;
-    const accessToken = yield* authService.getUserAuthToken(userId);
+    const platform = article.site.platform ?? 'github';
+    const accessToken = yield* authService.getUserAuthToken(
+      userId,
+      platform,
+      article.site.gitRepo
+    );
+    const gitProvider = yield* gitProviders.forPlatform(platform);
 
+    // A rename or date change that was never published left the file at
+    // the old path
+    const fileSlug = article.previousSlug ?? article.slug;
+    const commit = yield* buildCommitOptions(userId, {
+      template: article.site.commitMessageTemplate,
+      values: { action: 'Delete', title: article.title, slug: fileSlug },
+    });
     const result = yield* gitProvider.deleteArticleFromRepo(
       accessToken,
       article.site.gitRepo,
-      article.slug
+      fileSlug,
+      syncedArticleFilePath(article, siteContentLayout(article.site)),
+      commit
     );
 
     yield* Effect.logInfo(
@@ -0,0 +1,96 @@
+import { Effect } from 'effect';
+
+import { ArticleRepository } from '../../../repositories/article-repository';
+import { GitProviderRegistry } from '../../../repositories/git-provider-repository';
+import {
+  siteContentLayout,
+  syncedArticleFilePath,
+} from '../../../repositories/implementations/git-content-utils';
+import { AuthService } from '../../auth';
+import { makeMediaUrlRewriter } from '../../media/media-url';
+import { buildArticleMarkdown } from '../article-markdown';
+import {
+  ArticleNotFoundError,
+  ArticleAccessDeniedError,
+  GitRepositoryError,
+  type ArticleConflict,
+} from '../article-types';
+
+// Reads the versions a publish conflict has to be merged from, or null when
+// the default branch still has the file as it was last synced
+export const getArticleConflict = (articleId: string, userId: string) =>
+  Effect.gen(function* () {
+    const articleRepo = yield* ArticleRepository;
+    const gitProviders = yield* GitProviderRegistry;
+
+    const article = yield* articleRepo.findById(articleId);
+
+    if (!article) {
+      return yield* new ArticleNotFoundError({ articleId });
+    }
+
+    if (article.site.userId !== userId) {
+      return yield* new ArticleAccessDeniedError({ articleId, userId });
+    }
+
+    if (!article.site.gitRepo) {
+      return yield* new GitRepositoryError({
+        siteId: article.site.id,
+        message: 'Site does not have a linked Git repository',
+      });
+    }
+
+    // Articles that were never synced publish without a conflict check
+    if (!article.gitSha) return null;
+
+    const authService = yield* AuthService;
+    const platform = article.site.platform ?? 'github';
+    const gitRepo = article.site.gitRepo;
+    const accessToken = yield* authService.getUserAuthToken(
+      userId,
+      platform,
+      gitRepo
+    );
+    const gitProvider = yield* gitProviders.forPlatform(platform);
+    // Until a publish moves a renamed or redated article, its file keeps
+    // the old path
+    const fileSlug = article.previousSlug ?? article.slug;
+    const filePath = syncedArticleFilePath(
+      article,
+      siteContentLayout(article.site)
+    );
+
+    const remoteSha = yield* gitProvider.getArticleFileSha(
+      accessToken,
+      gitRepo,
+      fileSlug,
+      filePath
+    );
+    if (!remoteSha || remoteSha === article.gitSha) return null;
+
+    const [base, remote] = yield* Effect.all(
+      [
+        gitProvider.getBlobContent(accessToken, gitRepo, article.gitSha),
+        gitProvider.getBlobContent(accessToken, gitRepo, remoteSha),
+      ],
+      { concurrency: 2 }
+    );
+
+    if (remote === null) {
+      return yield* new GitRepositoryError({
+        siteId: article.site.id,
+        message: `Could not read ${filePath} from the repository`,
+      });
+    }
+
+    // Merged against what a publish would write, media links included
+    const rewriteMediaUrls = yield* makeMediaUrlRewriter(
+      { ...article.site, gitRepo },
+      gitProvider,
+      accessToken
+    );
+    const local = yield* rewriteMediaUrls(buildArticleMarkdown(article));
+
+    const conflict: ArticleConflict = { remoteSha, base, local, remote };
+    return conflict;
+  });
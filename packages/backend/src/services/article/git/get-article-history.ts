@@ -0,0 +1,58 @@
+import { Effect } from 'effect';
+
+import { ArticleRepository } from '../../../repositories/article-repository';
+import { GitProviderRegistry } from '../../../repositories/git-provider-repository';
+import {
+  siteContentLayout,
+  syncedArticleFilePath,
+} from '../../../repositories/implementations/git-content-utils';
+import { AuthService } from '../../auth';
+import {
+  ArticleNotFoundError,
+  ArticleAccessDeniedError,
+  GitRepositoryError,
+} from '../article-types';
+
+// Commits on the default branch that touched the article's file
+export const getArticleHistory = (articleId: string, userId: string) =>
+  Effect.gen(function* () {
+    const articleRepo = yield* ArticleRepository;
+    const gitProviders = yield* GitProviderRegistry;
+
+    const article = yield* articleRepo.findById(articleId);
+
+    if (!article) {
+      return yield* new ArticleNotFoundError({ articleId });
+    }
+
+    if (article.site.userId !== userId) {
+      return yield* new ArticleAccessDeniedError({ articleId, userId });
+    }
+
+    if (!article.site.gitRepo) {
+      return yield* new GitRepositoryError({
+        siteId: article.site.id,
+        message: 'Site does not have a linked Git repository',
+      });
+    }
+
+    const authService = yield* AuthService;
+    const platform = article.site.platform ?? 'github';
+    const accessToken = yield* authService.getUserAuthToken(
+      userId,
+      platform,
+      article.site.gitRepo
+    );
+    const gitProvider = yield* gitProviders.forPlatform(platform);
+    const filePath = syncedArticleFilePath(
+      article,
+      siteContentLayout(article.site)
+    );
+
+    const commits = yield* gitProvider.listFileCommits(
+      accessToken,
+      article.site.gitRepo,
+      filePath
+    );
+    return { filePath, commits };
+  });
@@ -0,0 +1,81 @@
+import { Effect } from 'effect';
+
+import { ArticleRepository } from '../../../repositories/article-repository';
+import { GitProviderRegistry } from '../../../repositories/git-provider-repository';
+import {
+  parseMarkdownContent,
+  siteContentLayout,
+  syncedArticleFilePath,
+} from '../../../repositories/implementations/git-content-utils';
+import { AuthService } from '../../auth';
+import {
+  ArticleNotFoundError,
+  ArticleAccessDeniedError,
+  ArticleVersionNotFoundError,
+  GitRepositoryError,
+  type ArticleVersion,
+} from '../article-types';
+import { normalizeTags } from '../article-validation';
+
+// Reads the article as it was at a commit from its history
+export const getArticleVersion = (
+  articleId: string,
+  userId: string,
+  commitSha: string
+) =>
+  Effect.gen(function* () {
+    const articleRepo = yield* ArticleRepository;
+    const gitProviders = yield* GitProviderRegistry;
+
+    const article = yield* articleRepo.findById(articleId);
+
+    if (!article) {
+      return yield* new ArticleNotFoundError({ articleId });
+    }
+
+    if (article.site.userId !== userId) {
+      return yield* new ArticleAccessDeniedError({ articleId, userId });
+    }
+
+    if (!article.site.gitRepo) {
+      return yield* new GitRepositoryError({
+        siteId: article.site.id,
+        message: 'Site does not have a linked Git repository',
+      });
+    }
+
+    const authService = yield* AuthService;
+    const platform = article.site.platform ?? 'github';
+    const accessToken = yield* authService.getUserAuthToken(
+      userId,
+      platform,
+      article.site.gitRepo
+    );
+    const gitProvider = yield* gitProviders.forPlatform(platform);
+    const layout = siteContentLayout(article.site);
+    const filePath = syncedArticleFilePath(article, layout);
+
+    const markdown = yield* gitProvider.getFileAtRef(
+      accessToken,
+      article.site.gitRepo,
+      filePath,
+      commitSha
+    );
+    const parsed =
+      markdown === null
+        ? null
+        : parseMarkdownContent(markdown, filePath, layout);
+
+    if (!parsed) {
+      return yield* new ArticleVersionNotFoundError({ articleId, commitSha });
+    }
+
+    const version: ArticleVersion = {
+      commitSha,
+      title: parsed.title,
+      content: parsed.content,
+      excerpt: parsed.excerpt ?? null,
+      tags: parsed.tags ? normalizeTags(parsed.tags) : null,
+    };
+    return version;
+  });
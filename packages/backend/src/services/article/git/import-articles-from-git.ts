@@ -4,7 +4,8 @@ import {
   ArticleRepository,
   type ArticleCreateData,
 } from '../../../repositories/article-repository';
-import { GitProviderRepository } from '../../../repositories/git-provider-repository';
+import { GitProviderRegistry } from '../../../repositories/git-provider-repository';
+import { siteContentLayout } from '../../../repositories/implementations/git-content-utils';
 import { SiteRepository } from '../../../repositories/site-repository';
 import { AuthService } from '../../auth';
 import { SiteAccessDeniedError } from '../../site/site-types';
@@ -15,7 +16,7 @@ export const importArticlesFromGit = (siteId: string, userId: string) =>
   Effect.gen(function* () {
     const siteRepo = yield* SiteRepository;
     const articleRepo = yield* ArticleRepository;
-    const gitProvider = yield* GitProviderRepository;
+    const gitProviders = yield* GitProviderRegistry;
 
     const site = yield* siteRepo.findByIdWithDetails(siteId);
 
@@ -35,7 +36,12 @@ export const importArticlesFromGit = (siteId: string, userId: string) =>
     }
 
     const authService = yield* AuthService;
-    const accessToken = yield* authService.getUserAuthToken(userId);
+    const accessToken = yield* authService.getUserAuthToken(
+      userId,
+      site.platform,
+      site.gitRepo
+    );
+    const gitProvider = yield* gitProviders.forPlatform(site.platform);
 
     const repoInfo = yield* gitProvider.getRepositoryInfo(
       accessToken,
@@ -46,7 +52,8 @@ export const importArticlesFromGit = (siteId: string, userId: string) =>
     const articles = yield* gitProvider.getMarkdownFilesFromRepo(
       accessToken,
       site.gitRepo,
-      defaultBranch
+      defaultBranch,
+      siteContentLayout(site)
     );
 
     yield* Effect.logInfo(
@@ -84,6 +91,7 @@ export const importArticlesFromGit = (siteId: string, userId: string) =>
           gitSyncedAt: new Date(),
           contentHash: hash,
           gitSyncedHash: hash,
+          extraFrontMatter: articleData.extraFrontMatter,
         };
         const article = yield* articleRepo.create(repoData);
 
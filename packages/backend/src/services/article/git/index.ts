@@ -1,5 +1,9 @@
 export { deleteArticleFromGit } from './delete-article-from-git';
+export { getArticleConflict } from './get-article-conflict';
+export { getArticleHistory } from './get-article-history';
+export { getArticleVersion } from './get-article-version';
 export { importArticlesFromGit } from './import-articles-from-git';
 export { publishArticleToGit } from './publish-article-to-git';
+export { resolveArticleConflict } from './resolve-article-conflict';
 export { syncArticlesFromGit } from './sync-articles-from-git';
 export { validateSiteGitAccess } from './validate-site-git-access';
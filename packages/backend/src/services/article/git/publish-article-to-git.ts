@@ -3,9 +3,24 @@ import { Effect } from 'effect';
 import {
   ArticleRepository,
   type ArticleUpdateData,
+  type ArticleWithSite,
 } from '../../../repositories/article-repository';
-import { GitProviderRepository } from '../../../repositories/git-provider-repository';
+import {
+  GitProviderRegistry,
+  type CommitOptions,
+  type GitProviderRepositoryService,
+} from '../../../repositories/git-provider-repository';
+import {
+  addSlugRedirect,
+  articleFilePath,
+  REDIRECTS_PATH,
+  siteContentLayout,
+  syncedArticleFilePath,
+} from '../../../repositories/implementations/git-content-utils';
 import { AuthService } from '../../auth';
+import { makeMediaUrlRewriter } from '../../media/media-url';
+import { trackDeploy } from '../../site/git/track-deploy';
+import { buildCommitOptions } from '../article-commit';
 import { computeContentHash } from '../article-content-hash';
 import { buildArticleMarkdown } from '../article-markdown';
 import {
@@ -14,11 +29,124 @@ import {
   GitRepositoryError,
   GitConflictError,
 } from '../article-types';
+import { recordArticleRevision } from '../revisions/record-article-revision';
+
+// What was published stays restorable after later edits; failing to record
+// it never fails the publish that already happened
+export const recordPublishedRevision = (
+  article: ArticleWithSite,
+  label: string | null = null
+) =>
+  recordArticleRevision(article, 'publish', label).pipe(
+    Effect.asVoid,
+    Effect.catchAll((error) =>
+      Effect.logError(
+        `Failed to record published revision of article ${article.id}`,
+        { error }
+      )
+    )
+  );
 
-export const publishArticleToGit = (articleId: string, userId: string) =>
+// Pull request mode commits each article to its own review branch
+const reviewBranchFor = (slug: string) => `inland/${slug}`;
+
+// The redirects file with the old slug of a move pointing at the new one.
+// A move that kept the slug, after a date change, redirects nothing
+const slugRedirectChanges = (
+  gitProvider: GitProviderRepositoryService,
+  accessToken: string,
+  gitRepo: string,
+  move: { siteId: string; fromSlug: string; toSlug: string }
+) =>
+  Effect.gen(function* () {
+    if (move.fromSlug === move.toSlug) return [];
+
+    const repoInfo = yield* gitProvider.getRepositoryInfo(accessToken, gitRepo);
+    const redirectsFile = yield* gitProvider.getFileAtRef(
+      accessToken,
+      gitRepo,
+      REDIRECTS_PATH,
+      repoInfo.defaultBranch
+    );
+    const redirects = addSlugRedirect(
+      redirectsFile,
+      move.fromSlug,
+      move.toSlug
+    );
+
+    if (redirects === null) {
+      return yield* new GitRepositoryError({
+        siteId: move.siteId,
+        message: `${REDIRECTS_PATH} is not a list of redirects`,
+      });
+    }
+
+    return [
+      {
+        path: REDIRECTS_PATH,
+        base64Content: Buffer.from(redirects).toString('base64'),
+      },
+    ];
+  });
+
+// Writes a renamed or redated article to its new path, deletes the old file
+// and redirects the old slug, all in one commit
+const moveArticleFile = (
+  gitProvider: GitProviderRepositoryService,
+  accessToken: string,
+  gitRepo: string,
+  move: {
+    siteId: string;
+    fromSlug: string;
+    toSlug: string;
+    fromPath: string;
+    filePath: string;
+    markdownContent: string;
+    commit: CommitOptions;
+  }
+) =>
+  Effect.gen(function* () {
+    const redirectChanges = yield* slugRedirectChanges(
+      gitProvider,
+      accessToken,
+      gitRepo,
+      move
+    );
+
+    const changeset = yield* gitProvider.commitChangeset(accessToken, gitRepo, {
+      message:
+        move.commit.message ??
+        `Move article: ${move.fromSlug} -> ${move.toSlug}`,
+      author: move.commit.author,
+      changes: [
+        { path: move.fromPath, base64Content: null },
+        {
+          path: move.filePath,
+          base64Content: Buffer.from(move.markdownContent).toString('base64'),
+        },
+        ...redirectChanges,
+      ],
+    });
+
+    return {
+      published: true,
+      filePath: move.filePath,
+      // Writing a file always makes a commit
+      commitSha: changeset.commitSha ?? '',
+      blobSha: changeset.blobShas[move.filePath],
+      wasUpdate: true,
+    };
+  });
+
+export const publishArticleToGit = (
+  articleId: string,
+  userId: string,
+  // Free text added to the commit message below the template's subject
+  options: { message?: string } = {}
+) =>
   Effect.gen(function* () {
     const articleRepo = yield* ArticleRepository;
-    const gitProvider = yield* GitProviderRepository;
+    const gitProviders = yield* GitProviderRegistry;
 
     const article = yield* articleRepo.findById(articleId);
 
@@ -38,13 +166,26 @@ export const publishArticleToGit = (articleId: string, userId: string) =>
     }
 
     const authService = yield* AuthService;
-    const accessToken = yield* authService.getUserAuthToken(userId);
+    const platform = article.site.platform ?? 'github';
+    const accessToken = yield* authService.getUserAuthToken(
+      userId,
+      platform,
+      article.site.gitRepo
+    );
+    const gitProvider = yield* gitProviders.forPlatform(platform);
+    const layout = siteContentLayout(article.site);
+    const filePath = articleFilePath(article.slug, layout, article.publishedAt);
+    // After a slug or date change the repository still has the file at the
+    // old path
+    const fileSlug = article.previousSlug ?? article.slug;
+    const currentPath = syncedArticleFilePath(article, layout);
 
     if (article.gitSha) {
       const remoteSha = yield* gitProvider.getArticleFileSha(
         accessToken,
         article.site.gitRepo,
-        article.slug
+        fileSlug,
+        currentPath
       );
       if (remoteSha && remoteSha !== article.gitSha) {
         return yield* new GitConflictError({
@@ -55,14 +196,114 @@ export const publishArticleToGit = (articleId: string, userId: string) =>
       }
     }
 
-    const markdownContent = buildArticleMarkdown(article);
-
-    const result = yield* gitProvider.publishArticleToRepo(
-      accessToken,
-      article.site.gitRepo,
-      article.slug,
-      markdownContent
+    // Links to the site's media follow its URL strategy in the repository
+    const rewriteMediaUrls = yield* makeMediaUrlRewriter(
+      { ...article.site, gitRepo: article.site.gitRepo },
+      gitProvider,
+      accessToken
+    );
+    const markdownContent = yield* rewriteMediaUrls(
+      buildArticleMarkdown(article)
     );
+    const isMove = currentPath !== filePath;
+
+    // Collaborators who committed to the file are credited as co-authors;
+    // providers without history just skip the trailers
+    const history = article.gitSha
+      ? yield* gitProvider
+          .listFileCommits(accessToken, article.site.gitRepo, currentPath)
+          .pipe(Effect.catchAll(() => Effect.succeed([])))
+      : [];
+    const commit = yield* buildCommitOptions(userId, {
+      template: article.site.commitMessageTemplate,
+      values: {
+        action: isMove ? 'Move' : article.gitSha ? 'Update' : 'Add',
+        title: article.title,
+        slug: article.slug,
+      },
+      note: options.message,
+      histories: [history],
+    });
+
+    if (article.site.publishMode === 'pull_request') {
+      // A move proposes removing the old file and redirecting the old slug
+      // along with the article
+      const moveChanges = isMove
+        ? [
+            { path: currentPath, base64Content: null },
+            ...(yield* slugRedirectChanges(
+              gitProvider,
+              accessToken,
+              article.site.gitRepo,
+              {
+                siteId: article.site.id,
+                fromSlug: fileSlug,
+                toSlug: article.slug,
+              }
+            )),
+          ]
+        : [];
+      const proposal = yield* gitProvider.proposeArticleChange(
+        accessToken,
+        article.site.gitRepo,
+        article.slug,
+        markdownContent,
+        {
+          branch: reviewBranchFor(article.slug),
+          title: `Publish article: ${article.title}`,
+          filePath,
+          commit,
+          changes: moveChanges,
+        }
+      );
+
+      yield* Effect.logInfo(
+        `Article proposed for review: ${article.title} -> ${proposal.pullRequest.url}`
+      );
+
+      // gitSha keeps tracking the default branch until a sync sees the merge
+      const reviewData: ArticleUpdateData = {
+        status: 'pending_review',
+        ...(!article.publishedAt && { publishedAt: new Date() }),
+        pullRequestNumber: proposal.pullRequest.number,
+        pullRequestUrl: proposal.pullRequest.url,
+        scheduledAt: null,
+        scheduleError: null,
+      };
+      const updatedArticle = yield* articleRepo.update(articleId, reviewData);
+      yield* recordPublishedRevision(
+        article,
+        `Pull request #${proposal.pullRequest.number}`
+      );
+
+      return {
+        article: updatedArticle,
+        published: false,
+        filePath: proposal.filePath,
+        commitSha: proposal.commitSha,
+        wasUpdate: article.gitSha !== null,
+        pullRequest: proposal.pullRequest,
+      };
+    }
+
+    const result = isMove
+      ? yield* moveArticleFile(gitProvider, accessToken, article.site.gitRepo, {
+          siteId: article.site.id,
+          fromSlug: fileSlug,
+          toSlug: article.slug,
+          fromPath: currentPath,
+          filePath,
+          markdownContent,
+          commit,
+        })
+      : yield* gitProvider.publishArticleToRepo(
+          accessToken,
+          article.site.gitRepo,
+          article.slug,
+          markdownContent,
+          filePath,
+          commit
+        );
 
     yield* Effect.logInfo(
       `Article published to Git repository: ${article.title} -> ${result.filePath}`
@@ -77,8 +318,17 @@ export const publishArticleToGit = (articleId: string, userId: string) =>
       gitSyncedAt: new Date(),
       contentHash: syncedHash,
       gitSyncedHash: syncedHash,
+      pullRequestNumber: null,
+      pullRequestUrl: null,
+      previousSlug: null,
+      previousPublishedAt: null,
+      // A publish also settles any publish that was scheduled
+      scheduledAt: null,
+      scheduleError: null,
     };
     const updatedArticle = yield* articleRepo.update(articleId, repoData);
+    yield* trackDeploy(article.site.id, result.commitSha);
+    yield* recordPublishedRevision(article);
 
     return {
       article: updatedArticle,
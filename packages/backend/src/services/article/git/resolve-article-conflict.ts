@@ -0,0 +1,82 @@
+import { Effect } from 'effect';
+
+import { ArticleRepository } from '../../../repositories/article-repository';
+import {
+  articleFilePath,
+  parseMarkdownContent,
+  siteContentLayout,
+} from '../../../repositories/implementations/git-content-utils';
+import { computeContentHash } from '../article-content-hash';
+import {
+  ArticleNotFoundError,
+  ArticleAccessDeniedError,
+  ArticleValidationError,
+  GitRepositoryError,
+  type ResolveConflictData,
+} from '../article-types';
+import { normalizeTags, validateTitle } from '../article-validation';
+import { publishArticleToGit } from './publish-article-to-git';
+
+// Saves the merge of a conflicting article and publishes it. The merge
+// already contains the remote changes, so it is recorded as based on the
+// remote blob; if the branch moved again since, publishing conflicts anew
+export const resolveArticleConflict = (
+  articleId: string,
+  userId: string,
+  data: ResolveConflictData
+) =>
+  Effect.gen(function* () {
+    const articleRepo = yield* ArticleRepository;
+
+    const article = yield* articleRepo.findById(articleId);
+
+    if (!article) {
+      return yield* new ArticleNotFoundError({ articleId });
+    }
+
+    if (article.site.userId !== userId) {
+      return yield* new ArticleAccessDeniedError({ articleId, userId });
+    }
+
+    if (!article.site.gitRepo) {
+      return yield* new GitRepositoryError({
+        siteId: article.site.id,
+        message: 'Site does not have a linked Git repository',
+      });
+    }
+
+    const layout = siteContentLayout(article.site);
+    const merged = parseMarkdownContent(
+      data.markdown,
+      articleFilePath(article.slug, layout, article.publishedAt),
+      layout
+    );
+
+    if (!merged) {
+      return yield* new ArticleValidationError({
+        field: 'content',
+        message: 'Merged article could not be parsed',
+      });
+    }
+
+    // The slug and date place the file, so a merge can't move it
+    const fields = {
+      title: yield* validateTitle(merged.title),
+      slug: article.slug,
+      content: merged.content,
+      excerpt: merged.excerpt ?? null,
+      tags: merged.tags ? normalizeTags(merged.tags) : null,
+    };
+
+    yield* articleRepo.update(articleId, {
+      title: fields.title,
+      content: fields.content,
+      excerpt: fields.excerpt,
+      tags: fields.tags,
+      extraFrontMatter: merged.extraFrontMatter ?? null,
+      contentHash: computeContentHash(fields),
+      gitSha: data.remoteSha,
+    });
+
+    return yield* publishArticleToGit(articleId, userId);
+  });
@@ -3,8 +3,15 @@ import { Effect } from 'effect';
 import {
   ArticleRepository,
   type ArticleCreateData,
+  type ArticleSyncItem,
 } from '../../../repositories/article-repository';
-import { GitProviderRepository } from '../../../repositories/git-provider-repository';
+import {
+  articleFilePath,
+  isMediaFile,
+  parseArticleFilePath,
+  siteContentLayout,
+  syncedArticleFilePath,
+} from '../../../repositories/implementations/git-content-utils';
 import { MediaService } from '../../media';
 import { computeContentHash } from '../article-content-hash';
 import { validateSiteGitAccess } from './validate-site-git-access';
@@ -14,38 +21,150 @@ const logSyncError = (action: string, slug: string) =>
     Effect.logError(`Failed to ${action} article ${slug}:`, { error })
   );
 
-export const syncArticlesFromGit = (siteId: string, userId: string) =>
+// paths limits the sync to the files a push touched; without it every
+// article in the repository is compared
+export const syncArticlesFromGit = (
+  siteId: string,
+  userId: string,
+  paths?: readonly string[]
+) =>
   Effect.gen(function* () {
     const articleRepo = yield* ArticleRepository;
-    const gitProvider = yield* GitProviderRepository;
 
-    const { site, gitRepo, accessToken } = yield* validateSiteGitAccess(
-      siteId,
-      userId
-    );
+    const { site, gitRepo, accessToken, gitProvider } =
+      yield* validateSiteGitAccess(siteId, userId);
 
     const repoInfo = yield* gitProvider.getRepositoryInfo(accessToken, gitRepo);
 
-    const remoteArticles = yield* gitProvider.getMarkdownFilesFromRepo(
+    const layout = siteContentLayout(site);
+    const scope = paths && new Set(paths);
+    const scopeSlugs =
+      paths &&
+      new Set(
+        paths.flatMap((path) => {
+          const parsed = parseArticleFilePath(path, layout);
+          return parsed ? [parsed.slug] : [];
+        })
+      );
+    const remoteFiles = (yield* gitProvider.listArticleFiles(
       accessToken,
       gitRepo,
-      repoInfo.defaultBranch
-    );
+      repoInfo.defaultBranch,
+      layout
+    )).filter((file) => !scope || scope.has(file.path));
 
     const dbArticles = yield* articleRepo.findAllForSync(site.id);
 
+    // Paths whose synced blob is still in place need no download. A renamed
+    // or redated article's blob sits at its old path until a publish moves
+    // it. Files of articles waiting on a pull request are always read, since
+    // a merge may have replaced them
+    const articlePaths = (article: ArticleSyncItem) => [
+      ...new Set([
+        articleFilePath(article.slug, layout, article.publishedAt),
+        syncedArticleFilePath(article, layout),
+      ]),
+    ];
+    const syncedShaByPath = new Map(
+      dbArticles.flatMap((a) =>
+        a.gitSha !== null && a.status !== 'pending_review'
+          ? articlePaths(a).map((path) => [path, a.gitSha] as const)
+          : []
+      )
+    );
+    const changedFiles = remoteFiles.filter(
+      (file) => syncedShaByPath.get(file.path) !== file.sha
+    );
+    const remoteShaByPath = new Map(
+      remoteFiles.map((file) => [file.path, file.sha])
+    );
+
+    const remoteArticles = yield* gitProvider.readArticleFiles(
+      accessToken,
+      gitRepo,
+      repoInfo.defaultBranch,
+      changedFiles,
+      layout
+    );
+
     const remoteBySlug = new Map(remoteArticles.map((a) => [a.slug, a]));
     const dbBySlug = new Map(dbArticles.map((a) => [a.slug, a]));
+    // A renamed article's file stays at its old slug until a publish moves
+    // it, so that file is neither imported again nor read into the article
+    const previousSlugs = new Set(
+      dbArticles.flatMap((a) =>
+        a.previousSlug !== null ? [a.previousSlug] : []
+      )
+    );
 
     const created: string[] = [];
     const updated: string[] = [];
     const markedDraft: string[] = [];
     const unchanged: string[] = [];
+    const merged: string[] = [];
+
+    // Resolve articles waiting on a pull request before comparing content
+    for (const dbArticle of dbArticles) {
+      const { slug, pullRequestNumber } = dbArticle;
+      if (dbArticle.status !== 'pending_review' || pullRequestNumber === null) {
+        continue;
+      }
+
+      yield* Effect.gen(function* () {
+        const pullRequest = yield* gitProvider.getPullRequest(
+          accessToken,
+          gitRepo,
+          pullRequestNumber
+        );
+        if (pullRequest.state === 'open') return;
+
+        const remote = remoteBySlug.get(slug);
+
+        if (pullRequest.state === 'merged' && remote?.gitSha !== undefined) {
+          const hash = computeContentHash(remote);
+          yield* articleRepo.update(dbArticle.id, {
+            title: remote.title,
+            content: remote.content,
+            excerpt: remote.excerpt,
+            tags: remote.tags,
+            status: 'published',
+            gitSha: remote.gitSha,
+            gitSyncedAt: new Date(),
+            contentHash: hash,
+            gitSyncedHash: hash,
+            extraFrontMatter: remote.extraFrontMatter ?? null,
+            pullRequestNumber: null,
+            pullRequestUrl: null,
+          });
+          dbBySlug.set(slug, {
+            ...dbArticle,
+            status: 'published',
+            gitSha: remote.gitSha,
+          });
+          merged.push(slug);
+          return;
+        }
+
+        // Closed without merging: back to whatever the default branch has
+        const status = dbArticle.gitSha ? 'published' : 'draft';
+        yield* articleRepo.update(dbArticle.id, {
+          status,
+          pullRequestNumber: null,
+          pullRequestUrl: null,
+        });
+        dbBySlug.set(slug, { ...dbArticle, status });
+      }).pipe(logSyncError('resolve pull request for', slug));
+    }
 
     for (const [slug, remote] of remoteBySlug) {
       yield* Effect.gen(function* () {
         const existing = dbBySlug.get(slug);
 
+        if (!existing && previousSlugs.has(slug)) {
+          unchanged.push(slug);
+          return;
+        }
+
         const hash = computeContentHash(remote);
 
         if (!existing) {
@@ -64,6 +183,7 @@ export const syncArticlesFromGit = (siteId: string, userId: string) =>
             gitSyncedAt: new Date(),
             contentHash: hash,
             gitSyncedHash: hash,
+            extraFrontMatter: remote.extraFrontMatter,
           };
           yield* articleRepo.create(createData);
           created.push(slug);
@@ -80,6 +200,7 @@ export const syncArticlesFromGit = (siteId: string, userId: string) =>
             gitSyncedAt: new Date(),
             contentHash: hash,
             gitSyncedHash: hash,
+            extraFrontMatter: remote.extraFrontMatter ?? null,
           });
           updated.push(slug);
         } else {
@@ -89,7 +210,23 @@ export const syncArticlesFromGit = (siteId: string, userId: string) =>
     }
 
     for (const [slug, dbArticle] of dbBySlug) {
-      if (!remoteBySlug.has(slug) && dbArticle.status === 'published') {
+      if (
+        remoteBySlug.has(slug) ||
+        (dbArticle.previousSlug !== null &&
+          remoteBySlug.has(dbArticle.previousSlug)) ||
+        (scopeSlugs && !scopeSlugs.has(slug))
+      ) {
+        continue;
+      }
+
+      if (
+        dbArticle.gitSha !== null &&
+        articlePaths(dbArticle).some(
+          (path) => remoteShaByPath.get(path) === dbArticle.gitSha
+        )
+      ) {
+        unchanged.push(slug);
+      } else if (dbArticle.status === 'published') {
         yield* articleRepo
           .update(dbArticle.id, {
             status: 'draft',
@@ -101,27 +238,35 @@ export const syncArticlesFromGit = (siteId: string, userId: string) =>
       }
     }
 
+    const apiCallsSaved = remoteFiles.length - changedFiles.length;
+
     const mediaService = yield* MediaService;
-    const mediaResult = yield* mediaService
-      .importMediaFromGit(siteId, userId)
-      .pipe(
-        Effect.catchAll((error) =>
-          Effect.logError('Failed to sync media', { error }).pipe(
-            Effect.map(() => ({ imported: 0, total: 0 }))
+    const mediaTouched =
+      !paths || paths.some((path) => isMediaFile(path, layout));
+    const mediaResult = mediaTouched
+      ? yield* mediaService
+          .importMediaFromGit(siteId, userId)
+          .pipe(
+            Effect.catchAll((error) =>
+              Effect.logError('Failed to sync media', { error }).pipe(
+                Effect.map(() => ({ imported: 0, total: 0 }))
+              )
+            )
           )
-        )
-      );
+      : { imported: 0, total: 0 };
 
     yield* Effect.logInfo(
-      `Sync complete for ${gitRepo}: ${created.length} created, ${updated.length} updated, ${markedDraft.length} marked draft, ${unchanged.length} unchanged, ${mediaResult.imported} media imported`
+      `Sync complete for ${gitRepo}: ${created.length} created, ${updated.length} updated, ${markedDraft.length} marked draft, ${merged.length} merged, ${unchanged.length} unchanged (${apiCallsSaved} downloads skipped), ${mediaResult.imported} media imported`
     );
 
     return {
       created: created.length,
       updated: updated.length,
       markedDraft: markedDraft.length,
+      merged: merged.length,
       unchanged: unchanged.length,
-      total: remoteArticles.length,
+      total: remoteFiles.length,
       mediaImported: mediaResult.imported,
+      apiCallsSaved,
     };
   });
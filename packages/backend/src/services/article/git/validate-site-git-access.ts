@@ -1,5 +1,6 @@
 import { Effect } from 'effect';
 
+import { GitProviderRegistry } from '../../../repositories/git-provider-repository';
 import { SiteRepository } from '../../../repositories/site-repository';
 import { AuthService } from '../../auth';
 import { SiteAccessDeniedError } from '../../site/site-types';
@@ -26,11 +27,19 @@ export const validateSiteGitAccess = (siteId: string, userId: string) =>
     }
 
     const authService = yield* AuthService;
-    const accessToken = yield* authService.getUserAuthToken(userId);
+    const accessToken = yield* authService.getUserAuthToken(
+      userId,
+      site.platform,
+      site.gitRepo
+    );
+
+    const gitProviders = yield* GitProviderRegistry;
+    const gitProvider = yield* gitProviders.forPlatform(site.platform);
 
     return {
       site,
       gitRepo: site.gitRepo,
       accessToken,
+      gitProvider,
     };
   });
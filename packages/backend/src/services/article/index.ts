@@ -2,6 +2,10 @@ export * from './article-types';
 export * from './operations';
 export * from './article-validation';
 export * from './git';
+export * from './revisions';
+export * from './schedule';
+export * from './bulk';
+export * from './search';
 export {
   ArticleService,
   type ArticleServiceInterface,
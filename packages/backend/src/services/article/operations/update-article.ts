@@ -2,6 +2,7 @@ import { Effect } from 'effect';
 
 import {
   ArticleRepository,
+  type Article,
   type ArticleUpdateData,
 } from '../../../repositories/article-repository';
 import { isUniqueConstraintError } from '../../../repositories/repository-error';
@@ -18,6 +19,27 @@ import {
   validateSlug,
   normalizeTags,
 } from '../article-validation';
+import { checkpointArticle } from '../revisions/record-article-revision';
+
+// The repository keeps a synced article's file at the date it was last
+// published with until the next publish moves it; changing back cancels
+// the move
+export const previousPublishDate = (
+  article: Pick<Article, 'gitSha' | 'publishedAt' | 'previousPublishedAt'>,
+  publishedAt: Date | null
+): Pick<ArticleUpdateData, 'previousPublishedAt'> => {
+  if (
+    article.gitSha === null ||
+    publishedAt?.getTime() === article.publishedAt?.getTime()
+  ) {
+    return {};
+  }
+  const fileDate = article.previousPublishedAt ?? article.publishedAt;
+  return {
+    previousPublishedAt:
+      publishedAt?.getTime() === fileDate?.getTime() ? null : fileDate,
+  };
+};
 
 export const updateArticle = (
   articleId: string,
@@ -78,6 +100,27 @@ export const updateArticle = (
       return { article: existingArticle };
     }
 
+    // The repository keeps a synced article's file at its old slug until
+    // the next publish moves it; renaming back cancels the move
+    if (
+      repoData.slug !== undefined &&
+      repoData.slug !== existingArticle.slug &&
+      existingArticle.gitSha !== null
+    ) {
+      const fileSlug = existingArticle.previousSlug ?? existingArticle.slug;
+      repoData = {
+        ...repoData,
+        previousSlug: repoData.slug === fileSlug ? null : fileSlug,
+      };
+    }
+
+    if (repoData.publishedAt !== undefined) {
+      repoData = {
+        ...repoData,
+        ...previousPublishDate(existingArticle, repoData.publishedAt),
+      };
+    }
+
     // Recompute content hash from the merged article state
     const mergedFields = {
       title: repoData.title ?? existingArticle.title,
@@ -91,6 +134,14 @@ export const updateArticle = (
     };
     repoData = { ...repoData, contentHash: computeContentHash(mergedFields) };
 
+    // Auto-save overwrites the article continuously; checkpoints keep
+    // earlier states restorable
+    yield* checkpointArticle(existingArticle).pipe(
+      Effect.catchAll((error) =>
+        Effect.logError(`Failed to checkpoint article ${articleId}`, { error })
+      )
+    );
+
     const article = yield* articleRepo.update(articleId, repoData).pipe(
       Effect.catchTag(
         'RepositoryError',
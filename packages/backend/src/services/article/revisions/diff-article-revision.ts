@@ -0,0 +1,40 @@
+import { Effect } from 'effect';
+
+import type { ArticleRevisionDiff } from '../article-types';
+
+import { diffLines } from '../article-diff';
+import { findArticleRevision } from './find-article-revision';
+
+const withoutContent = <T extends { content: string }>({
+  content: _content,
+  ...summary
+}: T) => summary;
+
+// Compares a revision's content with a later revision, or with the
+// article's current content when no revision is given
+export const diffArticleRevision = (
+  articleId: string,
+  revisionId: string,
+  userId: string,
+  againstRevisionId?: string
+) =>
+  Effect.gen(function* () {
+    const { article, revision } = yield* findArticleRevision(
+      articleId,
+      revisionId,
+      userId
+    );
+    const against = againstRevisionId
+      ? (yield* findArticleRevision(articleId, againstRevisionId, userId))
+          .revision
+      : null;
+    const target = against ?? article;
+
+    const diff: ArticleRevisionDiff = {
+      from: withoutContent(revision),
+      to: against && withoutContent(against),
+      titleChanged: revision.title !== target.title,
+      hunks: diffLines(revision.content, target.content),
+    };
+    return diff;
+  });
@@ -0,0 +1,38 @@
+import { Effect } from 'effect';
+
+import { ArticleRepository } from '../../../repositories/article-repository';
+import { ArticleRevisionRepository } from '../../../repositories/article-revision-repository';
+import {
+  ArticleNotFoundError,
+  ArticleAccessDeniedError,
+  ArticleRevisionNotFoundError,
+} from '../article-types';
+
+// A revision of an article the user owns, with the article
+export const findArticleRevision = (
+  articleId: string,
+  revisionId: string,
+  userId: string
+) =>
+  Effect.gen(function* () {
+    const articleRepo = yield* ArticleRepository;
+    const revisionRepo = yield* ArticleRevisionRepository;
+
+    const article = yield* articleRepo.findById(articleId);
+
+    if (!article) {
+      return yield* new ArticleNotFoundError({ articleId });
+    }
+
+    if (article.site.userId !== userId) {
+      return yield* new ArticleAccessDeniedError({ articleId, userId });
+    }
+
+    const revision = yield* revisionRepo.findById(revisionId);
+
+    if (!revision || revision.articleId !== articleId) {
+      return yield* new ArticleRevisionNotFoundError({ articleId, revisionId });
+    }
+
+    return { article, revision };
+  });
@@ -0,0 +1,13 @@
+import { Effect } from 'effect';
+
+import { findArticleRevision } from './find-article-revision';
+
+export const getArticleRevision = (
+  articleId: string,
+  revisionId: string,
+  userId: string
+) =>
+  Effect.map(
+    findArticleRevision(articleId, revisionId, userId),
+    ({ revision }) => revision
+  );
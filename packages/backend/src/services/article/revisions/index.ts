@@ -0,0 +1,5 @@
+export { diffArticleRevision } from './diff-article-revision';
+export { getArticleRevision } from './get-article-revision';
+export { listArticleRevisions } from './list-article-revisions';
+export { restoreArticleRevision } from './restore-article-revision';
+export { saveArticleRevision } from './save-article-revision';
@@ -0,0 +1,27 @@
+import { Effect } from 'effect';
+
+import { ArticleRepository } from '../../../repositories/article-repository';
+import { ArticleRevisionRepository } from '../../../repositories/article-revision-repository';
+import {
+  ArticleNotFoundError,
+  ArticleAccessDeniedError,
+} from '../article-types';
+
+// Revisions of the article, newest first, without their content
+export const listArticleRevisions = (articleId: string, userId: string) =>
+  Effect.gen(function* () {
+    const articleRepo = yield* ArticleRepository;
+    const revisionRepo = yield* ArticleRevisionRepository;
+
+    const article = yield* articleRepo.findById(articleId);
+
+    if (!article) {
+      return yield* new ArticleNotFoundError({ articleId });
+    }
+
+    if (article.site.userId !== userId) {
+      return yield* new ArticleAccessDeniedError({ articleId, userId });
+    }
+
+    return yield* revisionRepo.findByArticleId(articleId);
+  });
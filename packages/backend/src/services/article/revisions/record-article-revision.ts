@@ -0,0 +1,75 @@
+import { Effect } from 'effect';
+
+import type { Article } from '../../../repositories/article-repository';
+
+import {
+  ArticleRevisionRepository,
+  type ArticleRevisionKind,
+} from '../../../repositories/article-revision-repository';
+import { computeContentHash } from '../article-content-hash';
+
+// Auto-save writes the article every second of typing; a checkpoint is
+// taken at most this often
+export const AUTOSAVE_INTERVAL_MS = 10 * 60 * 1000;
+
+// Autosaves beyond the newest AUTOSAVE_LIMIT or older than AUTOSAVE_MAX_AGE_MS
+// are pruned. Manual and publish revisions are kept until the article is
+// deleted
+export const AUTOSAVE_LIMIT = 20;
+export const AUTOSAVE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+type ArticleSnapshot = Pick<
+  Article,
+  'id' | 'title' | 'slug' | 'content' | 'excerpt' | 'tags'
+>;
+
+export const recordArticleRevision = (
+  article: ArticleSnapshot,
+  kind: ArticleRevisionKind,
+  label: string | null = null
+) =>
+  Effect.gen(function* () {
+    const revisionRepo = yield* ArticleRevisionRepository;
+
+    const revision = yield* revisionRepo.create({
+      articleId: article.id,
+      kind,
+      label,
+      title: article.title,
+      slug: article.slug,
+      content: article.content,
+      excerpt: article.excerpt,
+      tags: article.tags,
+      contentHash: computeContentHash(article),
+    });
+
+    if (kind === 'autosave') {
+      yield* revisionRepo.pruneAutosaves(article.id, {
+        keep: AUTOSAVE_LIMIT,
+        before: new Date(Date.now() - AUTOSAVE_MAX_AGE_MS),
+      });
+    }
+
+    return revision;
+  });
+
+// Keeps the article as it is before it gets overwritten, unless the latest
+// revision already has this state or was taken less than minInterval ago
+export const checkpointArticle = (
+  article: ArticleSnapshot,
+  minInterval = AUTOSAVE_INTERVAL_MS
+) =>
+  Effect.gen(function* () {
+    const revisionRepo = yield* ArticleRevisionRepository;
+
+    const latest = yield* revisionRepo.findLatest(article.id);
+    if (
+      latest &&
+      (latest.contentHash === computeContentHash(article) ||
+        Date.now() - latest.createdAt.getTime() < minInterval)
+    ) {
+      return null;
+    }
+
+    return yield* recordArticleRevision(article, 'autosave');
+  });
@@ -0,0 +1,32 @@
+import { Effect } from 'effect';
+
+import { updateArticle } from '../operations/update-article';
+import { findArticleRevision } from './find-article-revision';
+import { checkpointArticle } from './record-article-revision';
+
+// Puts the revision's title, content, excerpt and tags back as the
+// article's current state. The slug stays, since the repository file is
+// only moved by publishing
+export const restoreArticleRevision = (
+  articleId: string,
+  revisionId: string,
+  userId: string
+) =>
+  Effect.gen(function* () {
+    const { article, revision } = yield* findArticleRevision(
+      articleId,
+      revisionId,
+      userId
+    );
+
+    // The state being replaced stays restorable, however recent the last
+    // checkpoint is
+    yield* checkpointArticle(article, 0);
+
+    return yield* updateArticle(articleId, userId, {
+      title: revision.title,
+      content: revision.content,
+      excerpt: revision.excerpt,
+      tags: revision.tags,
+    });
+  });
@@ -0,0 +1,34 @@
+import { Effect } from 'effect';
+
+import { ArticleRepository } from '../../../repositories/article-repository';
+import {
+  ArticleNotFoundError,
+  ArticleAccessDeniedError,
+} from '../article-types';
+import { recordArticleRevision } from './record-article-revision';
+
+// Saves the article as it is now as a named version
+export const saveArticleRevision = (
+  articleId: string,
+  userId: string,
+  label: string | null = null
+) =>
+  Effect.gen(function* () {
+    const articleRepo = yield* ArticleRepository;
+
+    const article = yield* articleRepo.findById(articleId);
+
+    if (!article) {
+      return yield* new ArticleNotFoundError({ articleId });
+    }
+
+    if (article.site.userId !== userId) {
+      return yield* new ArticleAccessDeniedError({ articleId, userId });
+    }
+
+    return yield* recordArticleRevision(
+      article,
+      'manual',
+      label?.trim() || null
+    );
+  });
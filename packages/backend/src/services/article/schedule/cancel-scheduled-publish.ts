@@ -0,0 +1,34 @@
+import { Effect } from 'effect';
+
+import { ArticleRepository } from '../../../repositories/article-repository';
+import { PublishQueueRepository } from '../../../repositories/publish-queue-repository';
+import {
+  ArticleNotFoundError,
+  ArticleAccessDeniedError,
+} from '../article-types';
+
+// Drops the article's pending publish, and the error of one that gave up.
+// The publish date it was scheduled for stays
+export const cancelScheduledPublish = (articleId: string, userId: string) =>
+  Effect.gen(function* () {
+    const articleRepo = yield* ArticleRepository;
+    const publishQueue = yield* PublishQueueRepository;
+
+    const article = yield* articleRepo.findById(articleId);
+
+    if (!article) {
+      return yield* new ArticleNotFoundError({ articleId });
+    }
+
+    if (article.site.userId !== userId) {
+      return yield* new ArticleAccessDeniedError({ articleId, userId });
+    }
+
+    const updatedArticle = yield* articleRepo.update(articleId, {
+      scheduledAt: null,
+      scheduleError: null,
+    });
+    yield* publishQueue.remove(articleId);
+
+    return { article: updatedArticle };
+  });
@@ -0,0 +1,9 @@
+export { cancelScheduledPublish } from './cancel-scheduled-publish';
+export { restoreScheduledPublishes } from './restore-scheduled-publishes';
+export {
+  processScheduledPublishes,
+  runScheduledPublish,
+  SCHEDULE_MAX_ATTEMPTS,
+  type ScheduledPublishOutcome,
+} from './run-scheduled-publishes';
+export { scheduleArticlePublish } from './schedule-article-publish';
@@ -0,0 +1,20 @@
+import { Effect } from 'effect';
+
+import { ArticleRepository } from '../../../repositories/article-repository';
+import { PublishQueueRepository } from '../../../repositories/publish-queue-repository';
+
+// Queues every article still waiting for its scheduled publish, so jobs
+// lost with Redis data are picked up again. Jobs already queued keep their
+// retry times, and jobs being run stay with their worker
+export const restoreScheduledPublishes = () =>
+  Effect.gen(function* () {
+    const articleRepo = yield* ArticleRepository;
+    const publishQueue = yield* PublishQueueRepository;
+
+    const scheduled = yield* articleRepo.findScheduled();
+    yield* Effect.forEach(scheduled, ({ id, scheduledAt }) =>
+      publishQueue.enqueue(id, scheduledAt, { replace: false })
+    );
+
+    return scheduled.length;
+  });
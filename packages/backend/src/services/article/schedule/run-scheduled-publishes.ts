@@ -0,0 +1,134 @@
+import { Effect } from 'effect';
+
+import { ArticleRepository } from '../../../repositories/article-repository';
+import { PublishQueueRepository } from '../../../repositories/publish-queue-repository';
+import { publishArticleToGit } from '../git/publish-article-to-git';
+
+// Runs of a publish the host failed transiently before it gives up
+export const SCHEDULE_MAX_ATTEMPTS = 5;
+// Doubled after every failed run: 1, 2, 4 and 8 minutes
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+// Jobs taken per poll, so one poll stays short
+const CLAIM_LIMIT = 10;
+
+type PublishFailure = Effect.Effect.Error<
+  ReturnType<typeof publishArticleToGit>
+>;
+
+export type ScheduledPublishOutcome =
+  | 'published'
+  | 'retrying'
+  | 'failed'
+  | 'skipped';
+
+// Outages and rate limits pass; anything else fails again the same way
+const isTransient = (error: PublishFailure) =>
+  error._tag === 'RateLimitedError' ||
+  (error._tag === 'GitProviderError' &&
+    (error.status === undefined ||
+      error.status === 429 ||
+      error.status >= 500));
+
+// Shown on the article until the publish is scheduled again or cancelled
+const failureMessage = (error: PublishFailure) => {
+  switch (error._tag) {
+    case 'GitConflictError':
+      return 'The article was modified in the repository since it was last synced';
+    case 'AuthTokenError':
+      return 'The Git account needs to be reconnected';
+    case 'GitRepositoryError':
+      return error.message;
+    default:
+      return error.message || 'Publishing failed';
+  }
+};
+
+const handlePublishFailure = (
+  articleId: string,
+  error: PublishFailure,
+  now: Date
+) =>
+  Effect.gen(function* () {
+    const publishQueue = yield* PublishQueueRepository;
+
+    if (isTransient(error)) {
+      const attempts = yield* publishQueue.recordAttempt(articleId);
+      if (attempts < SCHEDULE_MAX_ATTEMPTS) {
+        const retryAt =
+          error._tag === 'RateLimitedError'
+            ? error.resetAt
+            : new Date(
+                now.getTime() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)
+              );
+        yield* publishQueue.enqueue(articleId, retryAt);
+        yield* Effect.logWarning(
+          `Scheduled publish of article ${articleId} failed, retrying at ${retryAt.toISOString()}`,
+          { error }
+        );
+        return 'retrying' as const;
+      }
+    }
+
+    yield* Effect.flatMap(ArticleRepository, (articleRepo) =>
+      articleRepo.update(articleId, {
+        scheduledAt: null,
+        scheduleError: failureMessage(error),
+      })
+    );
+    yield* publishQueue.remove(articleId);
+    yield* Effect.logError(`Scheduled publish of article ${articleId} failed`, {
+      error,
+    });
+    return 'failed' as const;
+  });
+
+// Publishes a claimed article as the owner of its site
+export const runScheduledPublish = (articleId: string, now = new Date()) =>
+  Effect.gen(function* () {
+    const articleRepo = yield* ArticleRepository;
+    const publishQueue = yield* PublishQueueRepository;
+
+    const article = yield* articleRepo.findById(articleId);
+    const ownerId = article?.site.userId;
+
+    // Cancelled, published by hand or deleted since it was queued
+    if (!article?.scheduledAt || !ownerId) {
+      yield* publishQueue.remove(articleId);
+      return 'skipped' as const;
+    }
+
+    // Rescheduled to a later time while the job was being claimed
+    if (article.scheduledAt.getTime() > now.getTime()) {
+      yield* publishQueue.enqueue(articleId, article.scheduledAt);
+      return 'skipped' as const;
+    }
+
+    const outcome = yield* publishArticleToGit(articleId, ownerId).pipe(
+      Effect.as<ScheduledPublishOutcome>('published'),
+      Effect.catchAll((error) => handlePublishFailure(articleId, error, now))
+    );
+    if (outcome === 'published') {
+      // Ends the lease and clears the count of earlier failed runs
+      yield* publishQueue.remove(articleId);
+    }
+    return outcome;
+  });
+
+// Runs the publishes that are due. A job whose bookkeeping fails is only
+// logged; it keeps its lease, and runs again once the lease runs out
+export const processScheduledPublishes = (now = new Date()) =>
+  Effect.gen(function* () {
+    const publishQueue = yield* PublishQueueRepository;
+
+    const articleIds = yield* publishQueue.claimDue(now, CLAIM_LIMIT);
+    return yield* Effect.forEach(articleIds, (articleId) =>
+      runScheduledPublish(articleId, now).pipe(
+        Effect.catchAll((error) =>
+          Effect.logError(
+            `Failed to run scheduled publish of article ${articleId}`,
+            { error }
+          ).pipe(Effect.as<ScheduledPublishOutcome>('failed'))
+        )
+      )
+    );
+  });
@@ -0,0 +1,57 @@
+import { Effect } from 'effect';
+
+import { ArticleRepository } from '../../../repositories/article-repository';
+import { PublishQueueRepository } from '../../../repositories/publish-queue-repository';
+import {
+  ArticleNotFoundError,
+  ArticleAccessDeniedError,
+  ArticleScheduleError,
+  GitRepositoryError,
+} from '../article-types';
+import { previousPublishDate } from '../operations/update-article';
+
+// Publishes the article to git at publishAt, which also becomes its
+// publish date. Scheduling again moves the pending publish
+export const scheduleArticlePublish = (
+  articleId: string,
+  userId: string,
+  publishAt: Date
+) =>
+  Effect.gen(function* () {
+    const articleRepo = yield* ArticleRepository;
+    const publishQueue = yield* PublishQueueRepository;
+
+    const article = yield* articleRepo.findById(articleId);
+
+    if (!article) {
+      return yield* new ArticleNotFoundError({ articleId });
+    }
+
+    if (article.site.userId !== userId) {
+      return yield* new ArticleAccessDeniedError({ articleId, userId });
+    }
+
+    if (!article.site.gitRepo) {
+      return yield* new GitRepositoryError({
+        siteId: article.site.id,
+        message: 'Site does not have a linked Git repository',
+      });
+    }
+
+    if (publishAt.getTime() <= Date.now()) {
+      return yield* new ArticleScheduleError({
+        articleId,
+        reason: 'The publish time must be in the future',
+      });
+    }
+
+    const updatedArticle = yield* articleRepo.update(articleId, {
+      publishedAt: publishAt,
+      ...previousPublishDate(article, publishAt),
+      scheduledAt: publishAt,
+      scheduleError: null,
+    });
+    yield* publishQueue.enqueue(articleId, publishAt);
+
+    return { article: updatedArticle };
+  });
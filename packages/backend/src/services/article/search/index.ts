@@ -0,0 +1 @@
+export { parseHeadline, searchSiteArticles } from './search-site-articles';
@@ -0,0 +1,84 @@
+import { Effect } from 'effect';
+
+import type { PaginationOptions } from '../../../repositories/pagination';
+import type { ArticleSearchHit, SearchTextSegment } from '../article-types';
+
+import {
+  ArticleRepository,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_STOP,
+  type ArticleSearchQuery,
+} from '../../../repositories/article-repository';
+import { SiteRepository } from '../../../repositories/site-repository';
+import {
+  SiteAccessDeniedError,
+  SiteNotFoundError,
+} from '../../site/site-types';
+
+// Splitting on a pattern with a group keeps the highlighted words at the
+// odd indexes
+const HIGHLIGHTED = new RegExp(
+  `${SEARCH_HIGHLIGHT_START}([^${SEARCH_HIGHLIGHT_STOP}]*)${SEARCH_HIGHLIGHT_STOP}`
+);
+
+export const parseHeadline = (headline: string): SearchTextSegment[] =>
+  headline
+    .split(HIGHLIGHTED)
+    .flatMap((text, index) =>
+      text ? [{ text, highlighted: index % 2 === 1 }] : []
+    );
+
+// Words that matched, in the order the content shows them, so the editor
+// can find the first hit
+const matchedWords = (...headlines: readonly SearchTextSegment[][]) => [
+  ...new Set(
+    headlines
+      .flat()
+      .filter((segment) => segment.highlighted)
+      .map((segment) => segment.text.toLowerCase())
+  ),
+];
+
+export const searchSiteArticles = (
+  siteId: string,
+  userId: string,
+  query: ArticleSearchQuery,
+  pagination: PaginationOptions
+) =>
+  Effect.gen(function* () {
+    const site = yield* Effect.flatMap(SiteRepository, (siteRepo) =>
+      siteRepo.findByIdWithUserId(siteId)
+    );
+
+    if (!site) {
+      return yield* new SiteNotFoundError({ siteId });
+    }
+
+    if (site.userId !== userId) {
+      return yield* new SiteAccessDeniedError({ siteId, userId });
+    }
+
+    const text = query.text.trim();
+    if (!text) return [];
+
+    const rows = yield* Effect.flatMap(ArticleRepository, (articleRepo) =>
+      articleRepo.search(siteId, { ...query, text }, pagination)
+    );
+
+    return rows.map((row): ArticleSearchHit => {
+      const title = parseHeadline(row.titleHeadline);
+      const snippet = parseHeadline(row.contentHeadline);
+      return {
+        id: row.id,
+        title: row.title,
+        slug: row.slug,
+        status: row.status,
+        tags: row.tags,
+        publishedAt: row.publishedAt,
+        rank: row.rank,
+        titleHighlights: title,
+        snippet,
+        matches: matchedWords(snippet, title),
+      };
+    });
+  });
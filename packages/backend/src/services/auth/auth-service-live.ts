@@ -5,6 +5,7 @@ import { clearUserAuth } from './operations/clear-user-auth';
 import { fetchUser } from './operations/fetch-user';
 import { fetchUserEmail } from './operations/fetch-user-email';
 import { getUserAuthToken } from './operations/get-user-auth-token';
+import { linkGitHubInstallation } from './operations/link-github-installation';
 import { processOAuth } from './operations/process-oauth';
 
 export const AuthServiceLive = Layer.succeed(AuthService, {
@@ -12,5 +13,6 @@ export const AuthServiceLive = Layer.succeed(AuthService, {
   fetchUser,
   fetchUserEmail,
   getUserAuthToken,
+  linkGitHubInstallation,
   processOAuth,
 });
@@ -4,6 +4,7 @@ import type { clearUserAuth } from './operations/clear-user-auth';
 import type { fetchUser } from './operations/fetch-user';
 import type { fetchUserEmail } from './operations/fetch-user-email';
 import type { getUserAuthToken } from './operations/get-user-auth-token';
+import type { linkGitHubInstallation } from './operations/link-github-installation';
 import type { processOAuth } from './operations/process-oauth';
 
 export interface AuthServiceInterface {
@@ -11,6 +12,7 @@ export interface AuthServiceInterface {
   readonly fetchUser: typeof fetchUser;
   readonly fetchUserEmail: typeof fetchUserEmail;
   readonly getUserAuthToken: typeof getUserAuthToken;
+  readonly linkGitHubInstallation: typeof linkGitHubInstallation;
   readonly processOAuth: typeof processOAuth;
 }
 
@@ -12,11 +12,17 @@ export class TokenGenerationError extends Data.TaggedError(
   readonly reason: string;
 }> {}
 
-export class GitHubTokenError extends Data.TaggedError('GitHubTokenError')<{
+export class OAuthTokenError extends Data.TaggedError('OAuthTokenError')<{
   readonly message: string;
   readonly cause?: unknown;
 }> {}
 
+export class InstallationAccessError extends Data.TaggedError(
+  'InstallationAccessError'
+)<{
+  readonly installationId: string;
+}> {}
+
 export interface TokenResponse {
   readonly access_token: string;
   readonly token_type: string;
@@ -2,8 +2,8 @@ import { Effect } from 'effect';
 
 import { UserRepository } from '../../../repositories/user-repository';
 
-export const clearUserAuth = (userId: string) =>
+export const clearUserAuth = (userId: string, platform?: string) =>
   Effect.gen(function* () {
     const userRepo = yield* UserRepository;
-    yield* userRepo.clearAuthToken(userId);
+    yield* userRepo.clearAuthToken(userId, platform);
   });
@@ -1,9 +1,10 @@
 import { Effect } from 'effect';
 
-import { AuthProviderRepository } from '../../../repositories/auth-provider-repository';
+import { AuthProviderRegistry } from '../../../repositories/auth-provider-repository';
 
-export const fetchUser = (accessToken: string) =>
+export const fetchUser = (accessToken: string, platform = 'github') =>
   Effect.gen(function* () {
-    const authProvider = yield* AuthProviderRepository;
+    const authProviders = yield* AuthProviderRegistry;
+    const authProvider = yield* authProviders.forPlatform(platform);
     return yield* authProvider.fetchUser(accessToken);
   });
@@ -0,0 +1,84 @@
+import { Effect } from 'effect';
+
+import type { InstallationToken } from '../../../repositories/github-app-repository';
+
+import { GitHubAppRepository } from '../../../repositories/github-app-repository';
+import { UserRepository } from '../../../repositories/user-repository';
+import { RedisService } from '../../redis-service';
+
+const INSTALLATION_TOKEN_PREFIX = 'auth:installation:';
+
+// Stop handing out a cached token this long before GitHub expires it
+const EXPIRY_MARGIN_SECONDS = 5 * 60;
+
+const getInstallationTokenKey = (
+  installationId: string,
+  repoFullName: string
+) =>
+  `${INSTALLATION_TOKEN_PREFIX}${installationId}:${repoFullName.toLowerCase()}`;
+
+// The cache only saves API calls, so Redis failures fall through to minting
+const readCachedToken = (key: string) =>
+  Effect.flatMap(RedisService, ({ client: redis }) =>
+    Effect.tryPromise({
+      try: async () => redis.get(key),
+      catch: (error) => error,
+    })
+  ).pipe(Effect.orElseSucceed(() => null));
+
+const cacheToken = (key: string, minted: InstallationToken) =>
+  Effect.flatMap(RedisService, ({ client: redis }) =>
+    Effect.tryPromise({
+      try: async () => {
+        const ttl =
+          Math.floor((minted.expiresAt.getTime() - Date.now()) / 1000) -
+          EXPIRY_MARGIN_SECONDS;
+        if (ttl > 0) {
+          await redis.set(key, minted.token, 'EX', ttl);
+        }
+      },
+      catch: (error) => error,
+    })
+  ).pipe(Effect.ignore);
+
+// Token of the user's GitHub App installation, limited to one repository.
+// Null when the app doesn't cover the repository, so callers fall back to
+// the user's OAuth token
+export const getInstallationToken = (
+  userId: string,
+  platform: string,
+  repoFullName: string
+) =>
+  Effect.gen(function* () {
+    const githubApp = yield* GitHubAppRepository;
+    if (platform !== 'github' || !githubApp.enabled) return null;
+
+    const userRepo = yield* UserRepository;
+    const integration = yield* userRepo.findGitIntegration(userId, platform);
+    const installationId = integration?.installationId;
+    if (!installationId) return null;
+
+    const key = getInstallationTokenKey(installationId, repoFullName);
+    const cached = yield* readCachedToken(key);
+    if (cached) return cached;
+
+    return yield* githubApp
+      .createInstallationToken(installationId, repoFullName)
+      .pipe(
+        Effect.tap((minted) => cacheToken(key, minted)),
+        Effect.map((minted): string | null => minted.token),
+        Effect.catchTag('GitHubAppError', (error) =>
+          Effect.gen(function* () {
+            // The app was uninstalled from the account
+            if (error.status === 404) {
+              yield* userRepo.setInstallationId(userId, platform, null);
+            }
+            yield* Effect.logWarning(
+              `No installation token for ${repoFullName}, using the OAuth token`,
+              error
+            );
+            return null;
+          })
+        )
+      );
+  });
@@ -1,15 +1,31 @@
 import { Effect } from 'effect';
 
-import { AuthProviderRepository } from '../../../repositories/auth-provider-repository';
+import { AuthProviderRegistry } from '../../../repositories/auth-provider-repository';
 import { UserRepository } from '../../../repositories/user-repository';
 import { AuthTokenError } from '../auth-types';
+import { getInstallationToken } from './get-installation-token';
 
-export const getUserAuthToken = (userId: string) =>
+// Pass the repository a token is for to use the user's GitHub App
+// installation when it covers that repository
+export const getUserAuthToken = (
+  userId: string,
+  platform = 'github',
+  repoFullName?: string
+) =>
   Effect.gen(function* () {
+    if (repoFullName) {
+      const installationToken = yield* getInstallationToken(
+        userId,
+        platform,
+        repoFullName
+      );
+      if (installationToken) return installationToken;
+    }
+
     const userRepo = yield* UserRepository;
-    const authProvider = yield* AuthProviderRepository;
+    const authProviders = yield* AuthProviderRegistry;
 
-    const accessToken = yield* userRepo.getAuthToken(userId);
+    const accessToken = yield* userRepo.getAuthToken(userId, platform);
 
     if (!accessToken) {
       return yield* new AuthTokenError({
@@ -17,10 +33,11 @@ export const getUserAuthToken = (userId: string) =>
       });
     }
 
+    const authProvider = yield* authProviders.forPlatform(platform);
     const validation = yield* authProvider.validateToken(accessToken);
 
     if (!validation.isValid) {
-      yield* userRepo.clearAuthToken(userId);
+      yield* userRepo.clearAuthToken(userId, platform);
       return yield* new AuthTokenError({
         message:
           validation.reason ||
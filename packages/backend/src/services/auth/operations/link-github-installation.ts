@@ -0,0 +1,28 @@
+import { Effect } from 'effect';
+
+import { GitHubAppRepository } from '../../../repositories/github-app-repository';
+import { UserRepository } from '../../../repositories/user-repository';
+import { InstallationAccessError } from '../auth-types';
+import { getUserAuthToken } from './get-user-auth-token';
+
+// Anyone can reach the setup URL with any installation ID, so only link
+// installations GitHub lists for the signed-in user
+export const linkGitHubInstallation = (
+  userId: string,
+  installationId: string
+) =>
+  Effect.gen(function* () {
+    const githubApp = yield* GitHubAppRepository;
+    const userRepo = yield* UserRepository;
+
+    const accessToken = yield* getUserAuthToken(userId, 'github');
+    const installationIds =
+      yield* githubApp.listUserInstallationIds(accessToken);
+
+    if (!installationIds.includes(installationId)) {
+      return yield* new InstallationAccessError({ installationId });
+    }
+
+    yield* userRepo.setInstallationId(userId, 'github', installationId);
+    return { installationId };
+  });
@@ -4,14 +4,14 @@ import { UserService } from '../../user';
 import { fetchUser } from './fetch-user';
 import { fetchUserEmail } from './fetch-user-email';
 
-export const processOAuth = (accessToken: string) =>
+export const processOAuth = (accessToken: string, platform = 'github') =>
   Effect.gen(function* () {
     const userService = yield* UserService;
-    const platformUser = yield* fetchUser(accessToken);
+    const platformUser = yield* fetchUser(accessToken, platform);
 
     let email = platformUser.email;
     if (!email) {
-      email = yield* fetchUserEmail(accessToken);
+      email = yield* fetchUserEmail(accessToken, platform);
     }
 
     const user = yield* userService.upsertUser({
@@ -23,7 +23,7 @@ export const processOAuth = (accessToken: string) =>
 
     yield* userService.upsertGitIntegration({
       userId: user.id,
-      platform: 'github',
+      platform,
       platformUsername: platformUser.username,
       accessToken,
     });
@@ -8,11 +8,30 @@ export interface AppConfig {
   readonly sessionSecret: string;
   readonly githubClientId: string;
   readonly githubClientSecret: string;
+  readonly githubAppId: string;
+  readonly githubAppSlug: string;
+  readonly githubAppPrivateKey: string;
   readonly authCallbackUrl: string;
   readonly appUrl: string;
   readonly apiUrl: string;
   readonly redisUrl: string;
   readonly templateRepo: string;
+  readonly gitlabUrl: string;
+  readonly gitlabClientId: string;
+  readonly gitlabClientSecret: string;
+  readonly gitlabAuthCallbackUrl: string;
+  readonly gitlabTemplateRepo: string;
+  readonly gitlabPagesDomain: string;
+  readonly giteaUrl: string;
+  readonly giteaClientId: string;
+  readonly giteaClientSecret: string;
+  readonly giteaAuthCallbackUrl: string;
+  readonly giteaTemplateRepo: string;
+  readonly giteaPagesUrl: string;
+  readonly localGitRoot: string;
+  readonly localGitTemplateRepo: string;
+  readonly localGitPublicUrl: string;
+  readonly adminUsernames: readonly string[];
 }
 
 export class ConfigService extends Context.Tag('ConfigService')<
@@ -29,6 +48,13 @@ export function resolveConfig(): AppConfig {
     sessionSecret: process.env.SESSION_SECRET || 'fallback-session-secret',
     githubClientId: process.env.GITHUB_CLIENT_ID || '',
     githubClientSecret: process.env.GITHUB_CLIENT_SECRET || '',
+    // Optional GitHub App; the PEM key may arrive with escaped newlines
+    githubAppId: process.env.GITHUB_APP_ID || '',
+    githubAppSlug: process.env.GITHUB_APP_SLUG || '',
+    githubAppPrivateKey: (process.env.GITHUB_APP_PRIVATE_KEY || '').replace(
+      /\\n/g,
+      '\n'
+    ),
     authCallbackUrl:
       process.env.AUTH_CALLBACK_URL ||
       'http://localhost:3001/api/auth/github/callback',
@@ -37,6 +63,47 @@ export function resolveConfig(): AppConfig {
     redisUrl: process.env.REDIS_URL || 'redis://localhost:6381',
     templateRepo:
       process.env.TEMPLATE_REPO || 'Saul-Mirone/inland-template-basic',
+    gitlabUrl: (process.env.GITLAB_URL || 'https://gitlab.com').replace(
+      /\/+$/,
+      ''
+    ),
+    gitlabClientId: process.env.GITLAB_CLIENT_ID || '',
+    gitlabClientSecret: process.env.GITLAB_CLIENT_SECRET || '',
+    gitlabAuthCallbackUrl:
+      process.env.GITLAB_AUTH_CALLBACK_URL ||
+      'http://localhost:3001/api/auth/gitlab/callback',
+    gitlabTemplateRepo:
+      process.env.GITLAB_TEMPLATE_REPO ||
+      process.env.TEMPLATE_REPO ||
+      'Saul-Mirone/inland-template-basic',
+    gitlabPagesDomain: process.env.GITLAB_PAGES_DOMAIN || 'gitlab.io',
+    // Gitea and Forgejo are self-hosted, so there is no default instance
+    giteaUrl: (process.env.GITEA_URL || '').replace(/\/+$/, ''),
+    giteaClientId: process.env.GITEA_CLIENT_ID || '',
+    giteaClientSecret: process.env.GITEA_CLIENT_SECRET || '',
+    giteaAuthCallbackUrl:
+      process.env.GITEA_AUTH_CALLBACK_URL ||
+      'http://localhost:3001/api/auth/gitea/callback',
+    giteaTemplateRepo:
+      process.env.GITEA_TEMPLATE_REPO ||
+      process.env.TEMPLATE_REPO ||
+      'Saul-Mirone/inland-template-basic',
+    giteaPagesUrl: process.env.GITEA_PAGES_URL || '',
+    // Bare repositories on this server, for installs without a hosted forge
+    localGitRoot: process.env.LOCAL_GIT_ROOT || '',
+    localGitTemplateRepo:
+      process.env.LOCAL_GIT_TEMPLATE_REPO ||
+      process.env.TEMPLATE_REPO ||
+      'Saul-Mirone/inland-template-basic',
+    localGitPublicUrl: (
+      process.env.LOCAL_GIT_PUBLIC_URL ||
+      `${process.env.API_URL || 'http://localhost:3001'}/api/local-git`
+    ).replace(/\/+$/, ''),
+    // Instance admins manage the site template registry
+    adminUsernames: (process.env.ADMIN_USERNAMES || '')
+      .split(',')
+      .map((username) => username.trim())
+      .filter((username) => username !== ''),
   };
 }
 
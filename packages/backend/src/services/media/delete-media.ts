@@ -1,6 +1,6 @@
 import { Effect } from 'effect';
 
-import { GitProviderRepository } from '../../repositories/git-provider-repository';
+import { GitProviderRegistry } from '../../repositories/git-provider-repository';
 import { MediaRepository } from '../../repositories/media-repository';
 import { AuthService } from '../auth';
 import { MediaOperationError, MediaValidationError } from './media-types';
@@ -26,8 +26,13 @@ export const deleteMedia = (mediaId: string, userId: string) =>
 
     if (media.site.gitRepo) {
       const authService = yield* AuthService;
-      const accessToken = yield* authService.getUserAuthToken(userId);
-      const gitProvider = yield* GitProviderRepository;
+      const accessToken = yield* authService.getUserAuthToken(
+        userId,
+        media.site.platform,
+        media.site.gitRepo
+      );
+      const gitProviders = yield* GitProviderRegistry;
+      const gitProvider = yield* gitProviders.forPlatform(media.site.platform);
 
       yield* gitProvider
         .deleteFileFromRepo(accessToken, media.site.gitRepo, {
@@ -38,7 +43,7 @@ export const deleteMedia = (mediaId: string, userId: string) =>
           Effect.catchTag('GitProviderError', (error) =>
             Effect.fail(
               new MediaOperationError({
-                reason: `Failed to delete from GitHub: ${error.message}`,
+                reason: `Failed to delete from repository: ${error.message}`,
               })
             )
           )
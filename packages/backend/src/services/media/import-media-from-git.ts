@@ -1,25 +1,23 @@
 import { Effect } from 'effect';
 import path from 'node:path';
 
-import { GitProviderRepository } from '../../repositories/git-provider-repository';
+import { siteContentLayout } from '../../repositories/implementations/git-content-utils';
 import { MediaRepository } from '../../repositories/media-repository';
 import { validateSiteGitAccess } from '../article/git/validate-site-git-access';
 import { IMAGE_MIME_TYPES } from './media-types';
 
 export const importMediaFromGit = (siteId: string, userId: string) =>
   Effect.gen(function* () {
-    const { gitRepo, accessToken } = yield* validateSiteGitAccess(
-      siteId,
-      userId
-    );
+    const { site, gitRepo, accessToken, gitProvider } =
+      yield* validateSiteGitAccess(siteId, userId);
 
-    const gitProvider = yield* GitProviderRepository;
     const repoInfo = yield* gitProvider.getRepositoryInfo(accessToken, gitRepo);
 
     const mediaFiles = yield* gitProvider.getMediaFilesFromRepo(
       accessToken,
       gitRepo,
-      repoInfo.defaultBranch
+      repoInfo.defaultBranch,
+      siteContentLayout(site)
     );
 
     const mediaRepo = yield* MediaRepository;
@@ -3,8 +3,8 @@ import { Effect } from 'effect';
 import type { PaginationOptions } from '../../repositories/pagination';
 
 import { MediaRepository } from '../../repositories/media-repository';
-import { SiteRepository } from '../../repositories/site-repository';
-import { SiteAccessDeniedError } from '../site/site-types';
+import { validateSiteGitAccess } from '../article/git/validate-site-git-access';
+import { buildMediaUrl, type MediaUrlContext } from './media-url';
 
 export const listMedia = (
   siteId: string,
@@ -12,13 +12,26 @@ export const listMedia = (
   pagination?: PaginationOptions
 ) =>
   Effect.gen(function* () {
-    const siteRepo = yield* SiteRepository;
-    const site = yield* siteRepo.findByIdWithUserId(siteId);
-
-    if (!site || site.userId !== userId) {
-      return yield* new SiteAccessDeniedError({ siteId, userId });
-    }
+    const { site, gitRepo, accessToken, gitProvider } =
+      yield* validateSiteGitAccess(siteId, userId);
 
     const mediaRepo = yield* MediaRepository;
-    return yield* mediaRepo.findBySiteId(siteId, pagination);
+    const result = yield* mediaRepo.findBySiteId(siteId, pagination);
+
+    // Media is served from the repository, so the URL follows the site's
+    // strategy and the repository's real default branch
+    const repoInfo = yield* gitProvider.getRepositoryInfo(accessToken, gitRepo);
+    const urlContext: MediaUrlContext = {
+      site: { ...site, gitRepo },
+      defaultBranch: repoInfo.defaultBranch,
+      getRawFileUrl: gitProvider.getRawFileUrl,
+    };
+
+    return {
+      ...result,
+      items: result.items.map((item) => ({
+        ...item,
+        url: buildMediaUrl(urlContext, item),
+      })),
+    };
   });
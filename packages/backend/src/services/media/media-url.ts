@@ -0,0 +1,129 @@
+import { Effect } from 'effect';
+
+import type { GitProviderRepositoryService } from '../../repositories/git-provider-repository';
+
+import {
+  MediaRepository,
+  type Media,
+} from '../../repositories/media-repository';
+
+export interface MediaUrlSite {
+  readonly id: string;
+  readonly gitRepo: string;
+  readonly deployUrl?: string | null;
+  readonly mediaUrlStrategy?: string;
+}
+
+// Everything needed to turn a media file into the URL the site links to
+export interface MediaUrlContext {
+  readonly site: MediaUrlSite;
+  readonly defaultBranch: string;
+  readonly getRawFileUrl: GitProviderRepositoryService['getRawFileUrl'];
+}
+
+export const buildMediaUrl = (
+  context: MediaUrlContext,
+  media: Pick<Media, 'filePath' | 'commitSha'>
+): string => {
+  const { site, defaultBranch, getRawFileUrl } = context;
+
+  switch (site.mediaUrlStrategy) {
+    case 'site_relative':
+      return site.deployUrl
+        ? new URL(media.filePath, site.deployUrl.replace(/\/*$/, '/')).href
+        : `/${media.filePath}`;
+    case 'pinned':
+      // Imported media has no known commit and stays on the default branch
+      return getRawFileUrl(
+        site.gitRepo,
+        media.commitSha ?? defaultBranch,
+        media.filePath
+      );
+    default:
+      return getRawFileUrl(site.gitRepo, defaultBranch, media.filePath);
+  }
+};
+
+// Inline markdown links and images, and src attributes of HTML tags
+const REFERENCE_PATTERNS = [/(\]\(\s*<?)([^\s)>]+)/g, /(\bsrc=["'])([^"']+)/g];
+
+const hasReferences = (markdown: string): boolean =>
+  REFERENCE_PATTERNS.some((pattern) => markdown.search(pattern) !== -1);
+
+// Any URL form of a media file ends with its repository path: raw URLs at
+// any ref, site-relative paths and URLs under the deployed site
+const findMedia = <T extends Pick<Media, 'filePath'>>(
+  mediaByPath: ReadonlyMap<string, T>,
+  url: string
+): T | undefined => {
+  const path = url.replace(/[?#].*$/, '');
+  const direct = mediaByPath.get(path);
+  if (direct) return direct;
+
+  for (let i = path.indexOf('/'); i !== -1; i = path.indexOf('/', i + 1)) {
+    const media = mediaByPath.get(path.slice(i + 1));
+    if (media) return media;
+  }
+  return undefined;
+};
+
+export const rewriteMediaUrls = (
+  markdown: string,
+  resolve: (url: string) => string | undefined
+): string =>
+  REFERENCE_PATTERNS.reduce(
+    (result, pattern) =>
+      result.replace(
+        pattern,
+        (_match, prefix: string, url: string) =>
+          `${prefix}${resolve(url) ?? url}`
+      ),
+    markdown
+  );
+
+// Returns a function pointing an article's references to the site's media at
+// the site's URL strategy. The media list and default branch are only looked
+// up once, and only when some markdown links anywhere at all.
+export const makeMediaUrlRewriter = (
+  site: MediaUrlSite,
+  gitProvider: GitProviderRepositoryService,
+  accessToken: string,
+  // Skips the repository lookup when the caller already knows it
+  defaultBranch?: string
+) =>
+  Effect.gen(function* () {
+    const mediaRepo = yield* MediaRepository;
+
+    const loadContext = yield* Effect.cached(
+      Effect.gen(function* () {
+        const media = yield* mediaRepo.findAllBySiteId(site.id);
+        if (media.length === 0) return null;
+
+        const branch =
+          defaultBranch ??
+          (yield* gitProvider.getRepositoryInfo(accessToken, site.gitRepo))
+            .defaultBranch;
+        const context: MediaUrlContext = {
+          site,
+          defaultBranch: branch,
+          getRawFileUrl: gitProvider.getRawFileUrl,
+        };
+        return {
+          context,
+          mediaByPath: new Map(media.map((item) => [item.filePath, item])),
+        };
+      })
+    );
+
+    return (markdown: string) =>
+      hasReferences(markdown)
+        ? Effect.map(loadContext, (loaded) =>
+            loaded
+              ? rewriteMediaUrls(markdown, (url) => {
+                  const media = findMedia(loaded.mediaByPath, url);
+                  return media && buildMediaUrl(loaded.context, media);
+                })
+              : markdown
+          )
+        : Effect.succeed(markdown);
+  });
@@ -2,7 +2,10 @@ import { Effect } from 'effect';
 import { createHash, randomBytes } from 'node:crypto';
 import path from 'node:path';
 
-import { GitProviderRepository } from '../../repositories/git-provider-repository';
+import {
+  mediaFilePath,
+  siteContentLayout,
+} from '../../repositories/implementations/git-content-utils';
 import { MediaRepository } from '../../repositories/media-repository';
 import { validateSiteGitAccess } from '../article/git/validate-site-git-access';
 import {
@@ -13,6 +16,7 @@ import {
   isAllowedMimeType,
   isWithinSizeLimit,
 } from './media-types';
+import { buildMediaUrl, type MediaUrlContext } from './media-url';
 
 const generateUniqueFilename = (originalName: string): string => {
   const ext = path.extname(originalName).toLowerCase();
@@ -45,30 +49,33 @@ export const uploadMedia = (data: UploadMediaData) =>
       });
     }
 
-    const { site, gitRepo, accessToken } = yield* validateSiteGitAccess(
-      data.siteId,
-      data.userId
-    );
+    const { site, gitRepo, accessToken, gitProvider } =
+      yield* validateSiteGitAccess(data.siteId, data.userId);
 
     const contentHash = computeHash(data.buffer);
     const mediaRepo = yield* MediaRepository;
 
+    const repoInfo = yield* gitProvider.getRepositoryInfo(accessToken, gitRepo);
+    const urlContext: MediaUrlContext = {
+      site: { ...site, gitRepo },
+      defaultBranch: repoInfo.defaultBranch,
+      getRawFileUrl: gitProvider.getRawFileUrl,
+    };
+
     const existing = yield* mediaRepo.findBySiteIdAndHash(site.id, contentHash);
 
     if (existing) {
-      const rawUrl = `https://raw.githubusercontent.com/${gitRepo}/main/${existing.filePath}`;
       return {
         id: existing.id,
         filePath: existing.filePath,
-        url: rawUrl,
+        url: buildMediaUrl(urlContext, existing),
       } satisfies UploadMediaResult;
     }
 
     const filename = generateUniqueFilename(data.filename);
-    const filePath = `assets/images/${filename}`;
+    const filePath = mediaFilePath(filename, siteContentLayout(site));
     const base64Content = data.buffer.toString('base64');
 
-    const gitProvider = yield* GitProviderRepository;
     const result = yield* gitProvider
       .uploadFileToRepo(accessToken, gitRepo, {
         filePath,
@@ -93,14 +100,13 @@ export const uploadMedia = (data: UploadMediaData) =>
       fileSize: BigInt(data.buffer.length),
       mimeType: data.mimeType,
       contentHash,
+      commitSha: result.commitSha,
       alt: data.alt,
     });
 
-    const rawUrl = `https://raw.githubusercontent.com/${gitRepo}/main/${filePath}`;
-
     return {
       id: media.id,
       filePath: result.filePath,
-      url: rawUrl,
+      url: buildMediaUrl(urlContext, media),
     } satisfies UploadMediaResult;
   });
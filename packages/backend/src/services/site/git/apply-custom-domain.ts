@@ -0,0 +1,70 @@
+import { Effect } from 'effect';
+
+import {
+  GitProviderRegistry,
+  type FileChange,
+} from '../../../repositories/git-provider-repository';
+import { UserRepository } from '../../../repositories/user-repository';
+import { commitAuthorFor } from '../../article/article-commit';
+import { AuthService } from '../../auth';
+import { trackDeploy } from './track-deploy';
+
+export const CNAME_PATH = 'CNAME';
+
+// The CNAME file naming domain, or its deletion when there is none
+export const cnameChange = (domain: string | null): FileChange => ({
+  path: CNAME_PATH,
+  base64Content: domain ? Buffer.from(`${domain}\n`).toString('base64') : null,
+});
+
+// Points the site's Pages at domain, or back at the platform's host when
+// domain is null. The host is told first since it refuses domains that are
+// taken; the CNAME file follows so the repository records the domain too.
+// Returns the URL the site is served from
+export const applyCustomDomain = (
+  site: {
+    id: string;
+    gitRepo: string;
+    platform: string;
+    customDomain: string | null;
+  },
+  userId: string,
+  domain: string | null
+) =>
+  Effect.gen(function* () {
+    const gitProvider = yield* Effect.flatMap(GitProviderRegistry, (registry) =>
+      registry.forPlatform(site.platform)
+    );
+    const accessToken = yield* Effect.flatMap(AuthService, (authService) =>
+      authService.getUserAuthToken(userId, site.platform, site.gitRepo)
+    );
+
+    const pagesUrl = yield* gitProvider.setPagesDomain(
+      accessToken,
+      site.gitRepo,
+      domain,
+      site.customDomain
+    );
+
+    const user = yield* Effect.flatMap(UserRepository, (userRepo) =>
+      userRepo.findById(userId)
+    );
+    const changeset = yield* gitProvider.commitChangeset(
+      accessToken,
+      site.gitRepo,
+      {
+        message: domain
+          ? `Serve the site from ${domain}`
+          : 'Remove the custom domain',
+        changes: [cnameChange(domain)],
+        author: commitAuthorFor(user),
+      }
+    );
+    yield* trackDeploy(site.id, changeset.commitSha);
+
+    yield* Effect.logInfo(
+      `Pages of ${site.gitRepo} now served from ${pagesUrl}`
+    );
+
+    return pagesUrl;
+  });
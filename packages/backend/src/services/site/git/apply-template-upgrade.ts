@@ -0,0 +1,94 @@
+import { Effect } from 'effect';
+
+import type { FileChange } from '../../../repositories/git-provider-repository';
+
+import { SiteRepository } from '../../../repositories/site-repository';
+import { UserRepository } from '../../../repositories/user-repository';
+import { commitAuthorFor } from '../../article/article-commit';
+import {
+  TemplateUpgradeError,
+  type ApplyTemplateUpgradeData,
+} from '../site-types';
+import { loadTemplateUpgrade } from './load-template-upgrade';
+import { trackDeploy } from './track-deploy';
+
+export const applyTemplateUpgrade = (data: ApplyTemplateUpgradeData) =>
+  Effect.gen(function* () {
+    const { siteId, userId } = data;
+    const { gitRepo, gitProvider, accessToken, template, files } =
+      yield* loadTemplateUpgrade(siteId, userId);
+
+    // The template was registered again since the preview
+    if (data.version !== template.version) {
+      return yield* new TemplateUpgradeError({
+        siteId,
+        reason: 'The template changed since the upgrade was previewed',
+      });
+    }
+
+    const filesByPath = new Map(files.map((file) => [file.path, file]));
+    const unknown = data.files.find((file) => !filesByPath.has(file.path));
+    if (unknown) {
+      return yield* new TemplateUpgradeError({
+        siteId,
+        reason: `${unknown.path} is not a file of the template`,
+      });
+    }
+
+    // Files without a decision are kept as they are in the repository
+    const changes: FileChange[] = data.files.flatMap((decision) => {
+      if (decision.action === 'keep') return [];
+
+      const content =
+        decision.action === 'merge'
+          ? decision.content
+          : filesByPath.get(decision.path)?.incoming;
+      if (
+        content === undefined ||
+        content === filesByPath.get(decision.path)?.current
+      ) {
+        return [];
+      }
+
+      return [
+        {
+          path: decision.path,
+          base64Content: Buffer.from(content).toString('base64'),
+        },
+      ];
+    });
+
+    let commitSha: string | null = null;
+    if (changes.length > 0) {
+      const user = yield* Effect.flatMap(UserRepository, (userRepo) =>
+        userRepo.findById(userId)
+      );
+      const changeset = yield* gitProvider.commitChangeset(
+        accessToken,
+        gitRepo,
+        {
+          message: `Upgrade ${template.name} template to ${template.version.slice(0, 7)}`,
+          changes,
+          author: commitAuthorFor(user),
+        }
+      );
+      commitSha = changeset.commitSha;
+    }
+
+    // Kept files count as upgraded too, so they are compared against the
+    // new version next time
+    yield* Effect.flatMap(SiteRepository, (siteRepo) =>
+      siteRepo.update(siteId, { templateVersion: template.version })
+    );
+    yield* trackDeploy(siteId, commitSha);
+
+    yield* Effect.logInfo(
+      `Upgraded ${gitRepo} to template ${template.repo}@${template.version}: ${changes.length} files changed`
+    );
+
+    return {
+      version: template.version,
+      commitSha,
+      filesChanged: changes.map((change) => change.path),
+    };
+  });
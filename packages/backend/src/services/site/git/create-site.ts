@@ -1,34 +1,65 @@
 import { Effect } from 'effect';
 
-import { GitProviderRepository } from '../../../repositories/git-provider-repository';
+import { GitProviderRegistry } from '../../../repositories/git-provider-repository';
 import { isUniqueConstraintError } from '../../../repositories/repository-error';
 import { SiteRepository } from '../../../repositories/site-repository';
+import { SiteTemplateRepository } from '../../../repositories/site-template-repository';
 import { ArticleService } from '../../article/article-service';
 import { AuthService } from '../../auth';
+import { templateSource } from '../../template';
 import {
   SiteCreationError,
   DuplicateSiteNameError,
+  SiteValidationError,
   type CreateSiteData,
 } from '../site-types';
-import { generateSlug, resolveDisplayName } from '../site-utils';
+import {
+  generateSlug,
+  resolveDisplayName,
+  splitRepoFullName,
+} from '../site-utils';
+import { registerSiteWebhook } from './register-site-webhook';
 
 export const createSite = (data: CreateSiteData) =>
   Effect.gen(function* () {
     const siteRepo = yield* SiteRepository;
-    const gitProvider = yield* GitProviderRepository;
+    const platform = data.platform ?? 'github';
+    const gitProvider = yield* Effect.flatMap(GitProviderRegistry, (registry) =>
+      registry.forPlatform(platform)
+    );
 
     const authService = yield* AuthService;
-    const accessToken = yield* authService.getUserAuthToken(data.userId);
+    const accessToken = yield* authService.getUserAuthToken(
+      data.userId,
+      platform
+    );
 
-    const platformUser = yield* authService.fetchUser(accessToken);
+    const platformUser = yield* authService.fetchUser(accessToken, platform);
+
+    const { templateId } = data;
+    const template = templateId
+      ? yield* Effect.flatMap(SiteTemplateRepository, (templateRepo) =>
+          templateRepo.findById(templateId)
+        )
+      : null;
+    if (templateId && template?.platform !== platform) {
+      return yield* new SiteValidationError({
+        field: 'templateId',
+        message: 'Template not found',
+      });
+    }
+    const source = template ? splitRepoFullName(template.repo) : null;
 
     const gitRepo = yield* gitProvider.createRepositoryWithPages(
       accessToken,
       {
         name: data.name,
         description: data.description,
-        templateOwner: data.templateOwner || 'Saul-Mirone',
-        templateRepo: data.templateRepo || 'inland-template-basic',
+        templateOwner: source?.owner ?? data.templateOwner,
+        templateRepo: source?.repo ?? data.templateRepo,
+        placeholders: template
+          ? templateSource(template, null).placeholders
+          : undefined,
       },
       {
         siteName: resolveDisplayName(data),
@@ -47,9 +78,11 @@ export const createSite = (data: CreateSiteData) =>
         displayName: data.displayName,
         description: data.description,
         gitRepo: gitRepo.fullName,
-        platform: 'github',
+        platform,
         deployStatus: 'deployed',
         deployUrl: gitRepo.pagesUrl,
+        templateId: template?.id,
+        templateVersion: template?.version,
       })
       .pipe(
         Effect.catchTag(
@@ -75,6 +108,15 @@ export const createSite = (data: CreateSiteData) =>
         )
       );
 
+    // The new repository is reached through the user's GitHub App
+    // installation when it covers it
+    const repoToken = yield* authService.getUserAuthToken(
+      data.userId,
+      platform,
+      gitRepo.fullName
+    );
+    yield* registerSiteWebhook(site, gitProvider, repoToken);
+
     yield* Effect.gen(function* () {
       const articleService = yield* ArticleService;
       const importResult = yield* articleService.importArticlesFromGit(
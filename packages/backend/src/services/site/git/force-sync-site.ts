@@ -1,21 +1,42 @@
 import { Effect } from 'effect';
 
-import type { SiteConfig } from '../../../repositories/git-provider-repository';
+import type {
+  FileChange,
+  SiteConfig,
+} from '../../../repositories/git-provider-repository';
 
 import { ArticleRepository } from '../../../repositories/article-repository';
-import { GitProviderRepository } from '../../../repositories/git-provider-repository';
+import { GitProviderRegistry } from '../../../repositories/git-provider-repository';
+import {
+  REDIRECTS_PATH,
+  SITE_CONFIG_PATH,
+  addSlugRedirect,
+  articleFilePath,
+  siteContentLayout,
+} from '../../../repositories/implementations/git-content-utils';
 import { SiteRepository } from '../../../repositories/site-repository';
+import { SiteTemplateRepository } from '../../../repositories/site-template-repository';
+import { UserRepository } from '../../../repositories/user-repository';
+import { commitAuthorFor } from '../../article/article-commit';
 import { computeContentHash } from '../../article/article-content-hash';
 import { buildArticleMarkdown } from '../../article/article-markdown';
 import { GitRepositoryError } from '../../article/article-types';
 import { AuthService } from '../../auth';
 import { MediaService } from '../../media';
+import { makeMediaUrlRewriter } from '../../media/media-url';
+import { templateSource } from '../../template';
 import { SiteNotFoundError, SiteAccessDeniedError } from '../site-types';
-import { generateSlug, resolveDisplayName } from '../site-utils';
+import {
+  generateSlug,
+  resolveDisplayName,
+  sitePublicUrl,
+  splitRepoFullName,
+} from '../site-utils';
+import { cnameChange } from './apply-custom-domain';
+import { trackDeploy } from './track-deploy';
 
 export const forceSyncSite = (siteId: string, userId: string) =>
   Effect.gen(function* () {
-    const gitProvider = yield* GitProviderRepository;
     const articleRepo = yield* ArticleRepository;
     const siteRepo = yield* SiteRepository;
     const authService = yield* AuthService;
@@ -38,14 +59,36 @@ export const forceSyncSite = (siteId: string, userId: string) =>
       });
     }
 
-    const accessToken = yield* authService.getUserAuthToken(userId);
-    const platformUser = yield* authService.fetchUser(accessToken);
+    const gitProvider = yield* Effect.flatMap(GitProviderRegistry, (registry) =>
+      registry.forPlatform(site.platform)
+    );
+    // Repository calls go through the site's GitHub App installation when
+    // it has one; the user's own token identifies them and creates repos
+    const userToken = yield* authService.getUserAuthToken(
+      userId,
+      site.platform
+    );
+    const platformUser = yield* authService.fetchUser(userToken, site.platform);
+    const accessToken = yield* authService.getUserAuthToken(
+      userId,
+      site.platform,
+      gitRepo
+    );
 
     const siteDisplayInfo = {
       name: site.name,
       displayName: site.displayName ?? undefined,
     };
 
+    // Sites without a registered template, or whose template was removed,
+    // get the provider's configured template
+    const { templateId } = site;
+    const template = templateId
+      ? yield* Effect.flatMap(SiteTemplateRepository, (templateRepo) =>
+          templateRepo.findById(templateId)
+        )
+      : null;
+
     const repoExists = yield* gitProvider.checkRepoExists(accessToken, gitRepo);
 
     let repoRecreated = false;
@@ -53,15 +96,19 @@ export const forceSyncSite = (siteId: string, userId: string) =>
     if (!repoExists) {
       yield* Effect.logInfo(`Repository ${gitRepo} not found, recreating...`);
 
-      const [, repoName] = gitRepo.split('/');
+      const repoName = gitRepo.split('/').at(-1) ?? site.name;
+      const source = template ? splitRepoFullName(template.repo) : null;
 
       const newRepo = yield* gitProvider.createRepositoryWithPages(
-        accessToken,
+        userToken,
         {
           name: repoName,
           description: site.description ?? `Blog site: ${site.name}`,
-          templateOwner: 'Saul-Mirone',
-          templateRepo: 'inland-template-basic',
+          templateOwner: source?.owner,
+          templateRepo: source?.repo,
+          placeholders: template
+            ? templateSource(template, null).placeholders
+            : undefined,
         },
         {
           siteName: resolveDisplayName(siteDisplayInfo),
@@ -72,12 +119,30 @@ export const forceSyncSite = (siteId: string, userId: string) =>
         }
       );
 
+      // The new repository's Pages start out on the platform's host
+      const { customDomain } = site;
+      const deployUrl = customDomain
+        ? yield* gitProvider
+            .setPagesDomain(accessToken, gitRepo, customDomain, null)
+            .pipe(
+              Effect.catchAll((error) =>
+                Effect.as(
+                  Effect.logError(
+                    `Failed to restore custom domain ${customDomain}`,
+                    { error }
+                  ),
+                  newRepo.pagesUrl
+                )
+              )
+            )
+        : newRepo.pagesUrl;
+
       yield* siteRepo
         .update(siteId, {
           deployStatus: 'deployed',
-          ...(newRepo.pagesUrl !== undefined && {
-            deployUrl: newRepo.pagesUrl,
-          }),
+          ...(deployUrl !== undefined && { deployUrl }),
+          // The new repository starts from the template's current commit
+          ...(template && { templateVersion: template.version }),
         })
         .pipe(
           Effect.catchTag('RepositoryError', (error) =>
@@ -91,9 +156,13 @@ export const forceSyncSite = (siteId: string, userId: string) =>
       repoRecreated = true;
 
       yield* Effect.logInfo(`Repository ${gitRepo} recreated successfully`);
-    } else {
-      yield* gitProvider
-        .injectInlandWorkflow(
+    }
+
+    // An existing repository gets the workflow and template files refreshed
+    // in the same commit as the content
+    const workflowChanges = repoRecreated
+      ? []
+      : (yield* gitProvider.buildInlandWorkflowChanges(
           accessToken,
           gitRepo,
           {
@@ -103,114 +172,166 @@ export const forceSyncSite = (siteId: string, userId: string) =>
             siteAuthor: platformUser.displayName ?? platformUser.username,
             platformUsername: platformUser.username,
           },
-          { overrideExistingFiles: true }
-        )
-        .pipe(
-          Effect.catchAll((error) =>
-            Effect.logError(
-              'Failed to inject workflow files during force sync',
-              { error }
-            )
-          )
-        );
-    }
-
-    // Push site config
-    const [owner, repoName] = gitRepo.split('/');
-    const siteConfig: SiteConfig = {
-      name: resolveDisplayName(siteDisplayInfo),
-      description: site.description ?? '',
-      url: `https://${owner}.github.io/${repoName}`,
-      author: platformUser.displayName ?? platformUser.username,
-      avatarUrl: `https://github.com/${platformUser.username}.png`,
-      authorUrl: `https://github.com/${platformUser.username}`,
-    };
-
-    yield* gitProvider.pushSiteConfig(accessToken, gitRepo, siteConfig).pipe(
-      Effect.catchAll((error) =>
-        Effect.logError('Failed to push site config during force sync', {
-          error,
-        })
-      )
-    );
+          {
+            overrideExistingFiles: true,
+            template: template
+              ? templateSource(template, site.templateVersion)
+              : undefined,
+          }
+        )).changes;
 
     // Get remote content files to detect orphans
+    const layout = siteContentLayout(site);
     const repoInfo = yield* gitProvider.getRepositoryInfo(accessToken, gitRepo);
     const remoteArticles = yield* gitProvider
-      .getMarkdownFilesFromRepo(accessToken, gitRepo, repoInfo.defaultBranch)
+      .getMarkdownFilesFromRepo(
+        accessToken,
+        gitRepo,
+        repoInfo.defaultBranch,
+        layout
+      )
       .pipe(Effect.catchAll(() => Effect.succeed([])));
 
-    const remoteSlugs = new Set(remoteArticles.map((a) => a.slug));
-
     // Fetch all published articles from CMS
     const publishedArticles =
       yield* articleRepo.findAllPublishedBySiteId(siteId);
 
-    const publishedSlugs = new Set(publishedArticles.map((a) => a.slug));
-
-    // Delete content files that are not in CMS
-    const deleted: string[] = [];
-    for (const remoteSlug of remoteSlugs) {
-      if (!publishedSlugs.has(remoteSlug)) {
-        yield* gitProvider
-          .deleteArticleFromRepo(accessToken, gitRepo, remoteSlug)
-          .pipe(
-            Effect.tap(() => {
-              deleted.push(remoteSlug);
-              return Effect.void;
-            }),
-            Effect.catchAll((error) =>
-              Effect.logError(
-                `Failed to delete orphaned article ${remoteSlug}`,
-                { error }
-              )
-            )
+    // Articles under review keep the version already on the default branch
+    const pendingReview = (yield* articleRepo.findAllForSync(siteId)).filter(
+      (a) => a.status === 'pending_review'
+    );
+
+    const publishedFiles = publishedArticles.map((article) => ({
+      article,
+      path: articleFilePath(article.slug, layout, article.publishedAt),
+    }));
+
+    // Remote files no published article is written to, including ones left at
+    // an old path after the naming pattern or front matter slug changed
+    const keptPaths = new Set(publishedFiles.map((file) => file.path));
+    const pendingSlugs = new Set(pendingReview.map((a) => a.slug));
+    const deleted = [
+      ...new Set(
+        remoteArticles
+          .filter((a) => !pendingSlugs.has(a.slug))
+          .map((a) => a.filePath ?? articleFilePath(a.slug, layout))
+          .filter((filePath) => !keptPaths.has(filePath))
+      ),
+    ];
+
+    // Renamed articles land at their new path here too, so their old slugs
+    // are redirected the way a publish would
+    const renamed = publishedArticles.flatMap((a) =>
+      a.previousSlug !== null ? [{ from: a.previousSlug, to: a.slug }] : []
+    );
+    let redirects: string | null = null;
+    if (renamed.length > 0) {
+      redirects = yield* gitProvider.getFileAtRef(
+        accessToken,
+        gitRepo,
+        REDIRECTS_PATH,
+        repoInfo.defaultBranch
+      );
+      for (const { from, to } of renamed) {
+        redirects = addSlugRedirect(redirects, from, to);
+        if (redirects === null) {
+          yield* Effect.logWarning(
+            `${REDIRECTS_PATH} in ${gitRepo} is not a list of redirects, leaving it unchanged`
           );
+          break;
+        }
       }
     }
 
-    // Force publish all CMS articles to repo
-    const published: string[] = [];
-    const failed: string[] = [];
-
-    for (const article of publishedArticles) {
-      yield* Effect.gen(function* () {
-        const markdown = buildArticleMarkdown(article);
-        const result = yield* gitProvider.publishArticleToRepo(
-          accessToken,
-          gitRepo,
-          article.slug,
-          markdown
-        );
+    const rewriteMediaUrls = yield* makeMediaUrlRewriter(
+      { ...site, gitRepo },
+      gitProvider,
+      accessToken,
+      repoInfo.defaultBranch
+    );
+    const articleFiles = yield* Effect.forEach(
+      publishedFiles,
+      ({ article, path }) =>
+        Effect.map(
+          rewriteMediaUrls(buildArticleMarkdown(article)),
+          (markdown) => ({ path, markdown })
+        )
+    );
 
-        const syncedHash = computeContentHash(article);
-
-        yield* articleRepo
-          .update(article.id, {
-            gitSha: result.blobSha,
-            gitSyncedAt: new Date(),
-            contentHash: syncedHash,
-            gitSyncedHash: syncedHash,
-          })
-          .pipe(
-            Effect.catchTag('RepositoryError', (error) =>
-              Effect.logError(
-                `Failed to update gitSha for article ${article.slug}`,
-                { error }
-              )
-            )
-          );
+    const publicUrls = gitProvider.getPublicUrls(gitRepo, platformUser);
+    const siteConfig: SiteConfig = {
+      name: resolveDisplayName(siteDisplayInfo),
+      description: site.description ?? '',
+      url: sitePublicUrl(site.customDomain, publicUrls.pagesUrl),
+      author: platformUser.displayName ?? platformUser.username,
+      avatarUrl: publicUrls.avatarUrl,
+      authorUrl: publicUrls.authorUrl,
+    };
 
-        published.push(article.slug);
-      }).pipe(
-        Effect.catchAll((error) => {
-          failed.push(article.slug);
-          return Effect.logError(
-            `Failed to force publish article ${article.slug}`,
-            { error }
-          );
+    // Site config, orphan deletions and every published article land in a
+    // single commit, so the repo is never left half-synced
+    const contentChanges: FileChange[] = [
+      {
+        path: SITE_CONFIG_PATH,
+        base64Content: Buffer.from(
+          JSON.stringify(siteConfig, null, 2) + '\n'
+        ).toString('base64'),
+      },
+      ...(site.customDomain ? [cnameChange(site.customDomain)] : []),
+      ...deleted.map((filePath) => ({
+        path: filePath,
+        base64Content: null,
+      })),
+      ...(redirects !== null
+        ? [
+            {
+              path: REDIRECTS_PATH,
+              base64Content: Buffer.from(redirects).toString('base64'),
+            },
+          ]
+        : []),
+      ...articleFiles.map(({ path, markdown }) => ({
+        path,
+        base64Content: Buffer.from(markdown).toString('base64'),
+      })),
+    ];
+    // The generated site config wins over the template's copy
+    const contentPaths = new Set(contentChanges.map((change) => change.path));
+    const changes = [
+      ...workflowChanges.filter((change) => !contentPaths.has(change.path)),
+      ...contentChanges,
+    ];
+
+    const user = yield* Effect.flatMap(UserRepository, (userRepo) =>
+      userRepo.findById(userId)
+    );
+    const changeset = yield* gitProvider.commitChangeset(accessToken, gitRepo, {
+      message: 'Force sync from Inland CMS',
+      changes,
+      author: commitAuthorFor(user),
+    });
+
+    const syncedAt = new Date();
+    for (const { article, path } of publishedFiles) {
+      const syncedHash = computeContentHash(article);
+
+      yield* articleRepo
+        .update(article.id, {
+          gitSha: changeset.blobShas[path],
+          gitSyncedAt: syncedAt,
+          contentHash: syncedHash,
+          gitSyncedHash: syncedHash,
+          previousSlug: null,
+          previousPublishedAt: null,
         })
-      );
+        .pipe(
+          Effect.catchTag('RepositoryError', (error) =>
+            Effect.logError(
+              `Failed to update gitSha for article ${article.slug}`,
+              { error }
+            )
+          )
+        );
     }
 
     // Re-import media for recreated repos
@@ -229,15 +350,18 @@ export const forceSyncSite = (siteId: string, userId: string) =>
       mediaImported = mediaResult.imported;
     }
 
+    yield* trackDeploy(siteId, changeset.commitSha);
+
     yield* Effect.logInfo(
-      `Force sync complete for ${gitRepo}: ${published.length} published, ${deleted.length} deleted, ${failed.length} failed, repoRecreated=${repoRecreated}`
+      `Force sync complete for ${gitRepo}: ${publishedArticles.length} published, ${deleted.length} deleted in ${changeset.commitSha ?? 'no commit'}, repoRecreated=${repoRecreated}`
     );
 
     return {
       repoRecreated,
-      published: published.length,
+      published: publishedArticles.length,
       deleted: deleted.length,
-      failed: failed.length,
+      // The changeset is atomic: either every article lands or the sync fails
+      failed: 0,
       mediaImported,
       total: publishedArticles.length,
     };
@@ -0,0 +1,125 @@
+import { Effect } from 'effect';
+
+import {
+  GitProviderRegistry,
+  type WebhookHeaders,
+} from '../../../repositories/git-provider-repository';
+import { SiteRepository } from '../../../repositories/site-repository';
+import { SiteSyncQueueRepository } from '../../../repositories/site-sync-queue-repository';
+import { ArticleService } from '../../article/article-service';
+import { WebhookPayloadError, WebhookSignatureError } from '../site-types';
+
+const parsePayload = (rawBody: Buffer) =>
+  Effect.try({
+    try: (): unknown => JSON.parse(rawBody.toString('utf-8')),
+    catch: () =>
+      new WebhookPayloadError({ reason: 'Payload is not valid JSON' }),
+  });
+
+// Syncs the site until nothing is left queued for it. A site another
+// worker holds the lease for is skipped; that worker takes what was queued
+const drainSiteSyncs = (siteId: string, userId: string) =>
+  Effect.gen(function* () {
+    const syncQueue = yield* SiteSyncQueueRepository;
+    const articleService = yield* ArticleService;
+
+    let lease = yield* syncQueue.acquireLease(siteId);
+    while (lease !== null) {
+      const token = lease;
+      yield* Effect.gen(function* () {
+        let pending = yield* syncQueue.takePending(siteId);
+        while (pending) {
+          yield* articleService
+            .syncArticlesFromGit(siteId, userId, pending.paths ?? undefined)
+            .pipe(
+              Effect.catchAll((error) =>
+                Effect.logError(`Failed to sync site ${siteId}`, { error })
+              )
+            );
+          pending = yield* syncQueue.takePending(siteId);
+        }
+      }).pipe(
+        Effect.ensuring(Effect.ignore(syncQueue.releaseLease(siteId, token)))
+      );
+
+      // A push queued between the last take and the release would otherwise
+      // wait for the next delivery
+      if (!(yield* syncQueue.hasPending(siteId))) return;
+      lease = yield* syncQueue.acquireLease(siteId);
+    }
+  });
+
+// Queues a sync of every site that watches the pushed repository, limited
+// to the paths the push touched, and runs it after the delivery is
+// acknowledged so slow syncs never hit the provider's webhook timeout.
+// Events other than pushes to the default branch are acknowledged and
+// ignored
+export const handlePushWebhook = (
+  platform: string,
+  headers: WebhookHeaders,
+  rawBody: Buffer
+) =>
+  Effect.gen(function* () {
+    const siteRepo = yield* SiteRepository;
+    const syncQueue = yield* SiteSyncQueueRepository;
+    const gitProvider = yield* Effect.flatMap(GitProviderRegistry, (registry) =>
+      registry.forPlatform(platform)
+    );
+
+    const event = gitProvider.parsePushEvent(
+      headers,
+      yield* parsePayload(rawBody)
+    );
+    if (!event) return { queued: [] };
+
+    const webhooks = yield* siteRepo.findWebhooksByRepo(
+      platform,
+      event.repoFullName
+    );
+    // Sites importing the same repository share one hook, so a delivery
+    // signed with any of their secrets speaks for the repository
+    const verified = webhooks.some((webhook) =>
+      gitProvider.verifyWebhookSignature(headers, rawBody, webhook.secret)
+    );
+    if (!verified) {
+      return yield* new WebhookSignatureError({
+        repoFullName: event.repoFullName,
+      });
+    }
+
+    // Pushes that touched no files, such as empty commits, leave nothing
+    // to sync
+    if (event.branch !== event.defaultBranch || event.paths?.length === 0) {
+      return { queued: [] };
+    }
+
+    yield* Effect.forEach(
+      webhooks,
+      (webhook) => syncQueue.enqueue(webhook.siteId, event.paths),
+      { discard: true }
+    );
+
+    yield* Effect.forkDaemon(
+      Effect.forEach(
+        webhooks,
+        (webhook) =>
+          drainSiteSyncs(webhook.siteId, webhook.userId).pipe(
+            Effect.catchAll((error) =>
+              Effect.logError(
+                `Failed to run queued syncs of ${webhook.siteId}`,
+                {
+                  error,
+                }
+              )
+            )
+          ),
+        { discard: true }
+      )
+    );
+
+    yield* Effect.logInfo(
+      `Push to ${event.repoFullName} queued a sync of ${webhooks.length} site(s), ${event.paths ? `${event.paths.length} path(s)` : 'all paths'}`
+    );
+
+    return { queued: webhooks.map((webhook) => webhook.siteId) };
+  });
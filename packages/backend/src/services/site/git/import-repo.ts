@@ -1,6 +1,6 @@
 import { Effect } from 'effect';
 
-import { GitProviderRepository } from '../../../repositories/git-provider-repository';
+import { GitProviderRegistry } from '../../../repositories/git-provider-repository';
 import { isUniqueConstraintError } from '../../../repositories/repository-error';
 import { SiteRepository } from '../../../repositories/site-repository';
 import { ArticleService } from '../../article/article-service';
@@ -12,14 +12,22 @@ import {
   type ImportRepoData,
 } from '../site-types';
 import { generateSlug, resolveDisplayName } from '../site-utils';
+import { registerSiteWebhook } from './register-site-webhook';
 
 export const importRepo = (data: ImportRepoData) =>
   Effect.gen(function* () {
     const siteRepo = yield* SiteRepository;
-    const gitProvider = yield* GitProviderRepository;
+    const platform = data.platform ?? 'github';
+    const gitProvider = yield* Effect.flatMap(GitProviderRegistry, (registry) =>
+      registry.forPlatform(platform)
+    );
 
     const authService = yield* AuthService;
-    const accessToken = yield* authService.getUserAuthToken(data.userId);
+    const accessToken = yield* authService.getUserAuthToken(
+      data.userId,
+      platform,
+      data.gitRepoFullName
+    );
 
     const repoInfo = yield* gitProvider.getRepositoryInfo(
       accessToken,
@@ -43,7 +51,11 @@ export const importRepo = (data: ImportRepoData) =>
       | { filesCreated: string[]; filesSkipped: string[] }
       | undefined;
     if (data.setupWorkflow !== false) {
-      const platformUser = yield* authService.fetchUser(accessToken);
+      const userToken = yield* authService.getUserAuthToken(
+        data.userId,
+        platform
+      );
+      const platformUser = yield* authService.fetchUser(userToken, platform);
 
       workflowResult = yield* gitProvider.injectInlandWorkflow(
         accessToken,
@@ -95,11 +107,13 @@ export const importRepo = (data: ImportRepoData) =>
       displayName: data.displayName,
       description: data.description,
       gitRepo: data.gitRepoFullName,
-      platform: data.platform ?? 'github',
+      platform,
       deployStatus: pagesUrl ? 'deployed' : 'pending',
       deployUrl: pagesUrl,
     });
 
+    yield* registerSiteWebhook(site, gitProvider, accessToken);
+
     const articleService = yield* ArticleService;
     const importResult = yield* articleService
       .importArticlesFromGit(site.id, data.userId)
@@ -1,3 +1,9 @@
+export { applyTemplateUpgrade } from './apply-template-upgrade';
 export { createSite } from './create-site';
 export { forceSyncSite } from './force-sync-site';
+export { handlePushWebhook } from './handle-push-webhook';
 export { importRepo } from './import-repo';
+export { previewTemplateUpgrade } from './preview-template-upgrade';
+export { refreshDeployStatus } from './refresh-deploy-status';
+export { registerSiteWebhook } from './register-site-webhook';
+export { trackDeploy } from './track-deploy';
@@ -0,0 +1,152 @@
+import { Effect } from 'effect';
+
+import { GitProviderRegistry } from '../../../repositories/git-provider-repository';
+import {
+  buildTemplatePlaceholders,
+  replacePlaceholders,
+} from '../../../repositories/implementations/github-utils';
+import { SiteRepository } from '../../../repositories/site-repository';
+import { SiteTemplateRepository } from '../../../repositories/site-template-repository';
+import { GitRepositoryError } from '../../article/article-types';
+import { AuthService } from '../../auth';
+import { templateSource } from '../../template';
+import {
+  SiteAccessDeniedError,
+  SiteNotFoundError,
+  TemplateUpgradeError,
+  type TemplateFileDiff,
+  type TemplateFileStatus,
+} from '../site-types';
+import { generateSlug, resolveDisplayName } from '../site-utils';
+
+export const classifyTemplateFile = (
+  current: string | null,
+  base: string | null,
+  incoming: string
+): TemplateFileStatus => {
+  if (current === null) return 'added';
+  if (current === incoming) return 'unchanged';
+  if (current === base) return 'updated';
+  if (base === incoming) return 'customized';
+  return 'conflict';
+};
+
+// Compares every file of the site's registered template, rendered with the
+// site's placeholders, between the version the site was created or last
+// upgraded from and the template's registered version
+export const loadTemplateUpgrade = (siteId: string, userId: string) =>
+  Effect.gen(function* () {
+    const site = yield* Effect.flatMap(SiteRepository, (siteRepo) =>
+      siteRepo.findById(siteId)
+    );
+
+    if (!site) {
+      return yield* new SiteNotFoundError({ siteId });
+    }
+
+    if (site.userId !== userId) {
+      return yield* new SiteAccessDeniedError({ siteId, userId });
+    }
+
+    const gitRepo = site.gitRepo;
+    if (!gitRepo) {
+      return yield* new GitRepositoryError({
+        siteId,
+        message: 'Site does not have a linked Git repository',
+      });
+    }
+
+    const { templateId } = site;
+    const template = templateId
+      ? yield* Effect.flatMap(SiteTemplateRepository, (templateRepo) =>
+          templateRepo.findById(templateId)
+        )
+      : null;
+    if (!template) {
+      return yield* new TemplateUpgradeError({
+        siteId,
+        reason: 'Site was not created from a registered template',
+      });
+    }
+
+    const gitProvider = yield* Effect.flatMap(GitProviderRegistry, (registry) =>
+      registry.forPlatform(site.platform)
+    );
+    const authService = yield* AuthService;
+    // The user's own token identifies them; the files are read through the
+    // site's GitHub App installation when it has one
+    const userToken = yield* authService.getUserAuthToken(
+      userId,
+      site.platform
+    );
+    const platformUser = yield* authService.fetchUser(userToken, site.platform);
+    const accessToken = yield* authService.getUserAuthToken(
+      userId,
+      site.platform,
+      gitRepo
+    );
+
+    const placeholders = buildTemplatePlaceholders(
+      {
+        siteName: resolveDisplayName({
+          name: site.name,
+          displayName: site.displayName ?? undefined,
+        }),
+        siteDescription: site.description ?? `Blog site: ${site.name}`,
+        siteNameSlug: generateSlug(site.name),
+        siteAuthor: platformUser.displayName ?? platformUser.username,
+        platformUsername: platformUser.username,
+      },
+      templateSource(template, null).placeholders
+    );
+
+    const readTemplateFile = (path: string, ref: string) =>
+      Effect.map(
+        gitProvider.getFileAtRef(accessToken, template.repo, path, ref),
+        (content) =>
+          content === null ? null : replacePlaceholders(content, placeholders)
+      );
+
+    const { defaultBranch } = yield* gitProvider.getRepositoryInfo(
+      accessToken,
+      gitRepo
+    );
+    const fromVersion = site.templateVersion;
+
+    const files = yield* Effect.forEach(template.files, (path) =>
+      Effect.gen(function* () {
+        const incoming = yield* readTemplateFile(path, template.version);
+        // Listed in the manifest but missing at the registered version
+        if (incoming === null) return [];
+
+        const base = fromVersion
+          ? yield* readTemplateFile(path, fromVersion)
+          : null;
+        const current = yield* gitProvider.getFileAtRef(
+          accessToken,
+          gitRepo,
+          path,
+          defaultBranch
+        );
+
+        const diff: TemplateFileDiff = {
+          path,
+          status: classifyTemplateFile(current, base, incoming),
+          current,
+          base,
+          incoming,
+        };
+        return [diff];
+      })
+    );
+
+    return {
+      site,
+      gitRepo,
+      gitProvider,
+      accessToken,
+      template,
+      fromVersion,
+      files: files.flat(),
+    };
+  });
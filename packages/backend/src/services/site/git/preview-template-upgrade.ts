@@ -0,0 +1,17 @@
+import { Effect } from 'effect';
+
+import { loadTemplateUpgrade } from './load-template-upgrade';
+
+// Nothing is written: the user picks keep, replace or merge per file and
+// sends the decisions back with the version the preview was computed for
+export const previewTemplateUpgrade = (siteId: string, userId: string) =>
+  Effect.map(
+    loadTemplateUpgrade(siteId, userId),
+    ({ template, fromVersion, files }) => ({
+      templateId: template.id,
+      templateName: template.name,
+      fromVersion,
+      toVersion: template.version,
+      files,
+    })
+  );
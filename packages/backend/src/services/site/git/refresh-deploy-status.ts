@@ -0,0 +1,113 @@
+import { Effect } from 'effect';
+
+import {
+  GitProviderRegistry,
+  type DeployRun,
+} from '../../../repositories/git-provider-repository';
+import {
+  SiteRepository,
+  type Site,
+  type SiteUpdateData,
+} from '../../../repositories/site-repository';
+import { AuthService } from '../../auth';
+import {
+  SiteAccessDeniedError,
+  SiteNotFoundError,
+  type SiteDeployment,
+} from '../site-types';
+
+// A commit whose run has not shown up by then triggered none
+const RUN_START_TIMEOUT_MS = 10 * 60 * 1000;
+
+export const siteDeployment = (site: Site): SiteDeployment => ({
+  status: site.deployStatus,
+  commitSha: site.deployCommitSha,
+  runUrl: site.deployRunUrl,
+  startedAt: site.deployStartedAt,
+  duration: site.deployDuration,
+});
+
+// What the run says about the tracked deploy, or null when nothing changed
+export const deployUpdateFor = (
+  site: Site,
+  run: DeployRun | null,
+  now: Date
+): SiteUpdateData | null => {
+  if (!run) {
+    const started = site.deployStartedAt?.getTime() ?? 0;
+    return now.getTime() - started > RUN_START_TIMEOUT_MS
+      ? { deployStatus: 'pending' }
+      : null;
+  }
+
+  if (run.status === 'queued' || run.status === 'running') {
+    return run.url === site.deployRunUrl ? null : { deployRunUrl: run.url };
+  }
+
+  return {
+    deployStatus: run.status === 'success' ? 'deployed' : 'failed',
+    deployRunUrl: run.url,
+    deployDuration:
+      run.startedAt && run.finishedAt
+        ? Math.round(
+            (run.finishedAt.getTime() - run.startedAt.getTime()) / 1000
+          )
+        : null,
+  };
+};
+
+// Checks the run triggered by the site's last pushed commit while the site
+// is building, and records its outcome. Hosts without CI runs stop the
+// tracking; other lookup failures leave the status as it was
+export const refreshDeployStatus = (siteId: string, userId: string) =>
+  Effect.gen(function* () {
+    const siteRepo = yield* SiteRepository;
+    const site = yield* siteRepo.findById(siteId);
+
+    if (!site) {
+      return yield* new SiteNotFoundError({ siteId });
+    }
+
+    if (site.userId !== userId) {
+      return yield* new SiteAccessDeniedError({ siteId, userId });
+    }
+
+    const { gitRepo, deployCommitSha } = site;
+    if (site.deployStatus !== 'building' || !gitRepo || !deployCommitSha) {
+      return siteDeployment(site);
+    }
+
+    const gitProvider = yield* Effect.flatMap(GitProviderRegistry, (registry) =>
+      registry.forPlatform(site.platform)
+    );
+    const accessToken = yield* Effect.flatMap(AuthService, (authService) =>
+      authService.getUserAuthToken(userId, site.platform, gitRepo)
+    );
+
+    const update = yield* gitProvider
+      .getCommitDeployRun(accessToken, gitRepo, deployCommitSha)
+      .pipe(
+        Effect.map((run) => deployUpdateFor(site, run, new Date())),
+        Effect.catchTag('GitProviderError', (error) =>
+          error.status === 501
+            ? Effect.succeed<SiteUpdateData | null>({
+                deployStatus: 'pending',
+                deployCommitSha: null,
+              })
+            : Effect.fail(error)
+        ),
+        Effect.catchAll((error) =>
+          Effect.as(
+            Effect.logWarning(`Failed to look up deploy run of ${gitRepo}`, {
+              error,
+            }),
+            null
+          )
+        )
+      );
+
+    if (!update) return siteDeployment(site);
+
+    const updated = yield* siteRepo.update(siteId, update);
+    return siteDeployment(updated);
+  });
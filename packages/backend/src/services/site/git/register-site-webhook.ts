@@ -0,0 +1,38 @@
+import { Effect } from 'effect';
+import { randomBytes } from 'node:crypto';
+
+import type { GitProviderRepositoryService } from '../../../repositories/git-provider-repository';
+
+import { SiteRepository } from '../../../repositories/site-repository';
+import { ConfigService } from '../../config-service';
+
+export const pushWebhookUrl = (apiUrl: string, platform: string) =>
+  `${apiUrl.replace(/\/+$/, '')}/api/webhooks/${platform}`;
+
+// Points the repository's push webhook at this API with a fresh secret,
+// which rotates the secret of a hook left over from an earlier import.
+// A site still works without the hook, so failures are only logged
+export const registerSiteWebhook = (
+  site: { id: string; gitRepo: string; platform: string },
+  gitProvider: GitProviderRepositoryService,
+  accessToken: string
+) =>
+  Effect.gen(function* () {
+    const config = yield* ConfigService;
+    const siteRepo = yield* SiteRepository;
+    const secret = randomBytes(32).toString('hex');
+
+    yield* gitProvider.registerPushWebhook(accessToken, site.gitRepo, {
+      url: pushWebhookUrl(config.apiUrl, site.platform),
+      secret,
+    });
+    yield* siteRepo.saveWebhookSecret(site.id, secret);
+
+    yield* Effect.logInfo(`Registered push webhook for ${site.gitRepo}`);
+  }).pipe(
+    Effect.catchAll((error) =>
+      Effect.logError(`Failed to register push webhook for ${site.gitRepo}`, {
+        error,
+      })
+    )
+  );
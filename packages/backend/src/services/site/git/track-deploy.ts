@@ -0,0 +1,26 @@
+import { Effect } from 'effect';
+
+import { SiteRepository } from '../../../repositories/site-repository';
+
+// Marks the site as building the pushed commit. The run the commit
+// triggers is looked up when the deploy status is refreshed; a failure to
+// record it never fails the commit that was already pushed
+export const trackDeploy = (siteId: string, commitSha: string | null) =>
+  commitSha
+    ? Effect.flatMap(SiteRepository, (siteRepo) =>
+        siteRepo.update(siteId, {
+          deployStatus: 'building',
+          deployCommitSha: commitSha,
+          deployRunUrl: null,
+          deployStartedAt: new Date(),
+          deployDuration: null,
+        })
+      ).pipe(
+        Effect.asVoid,
+        Effect.catchAll((error) =>
+          Effect.logError(`Failed to track deploy of site ${siteId}`, {
+            error,
+          })
+        )
+      )
+    : Effect.void;
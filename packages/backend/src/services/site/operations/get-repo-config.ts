@@ -1,12 +1,22 @@
 import { Effect } from 'effect';
 
-import { GitProviderRepository } from '../../../repositories/git-provider-repository';
+import { GitProviderRegistry } from '../../../repositories/git-provider-repository';
 import { AuthService } from '../../auth';
 
-export const getRepoConfig = (userId: string, repo: string) =>
+export const getRepoConfig = (
+  userId: string,
+  repo: string,
+  platform = 'github'
+) =>
   Effect.gen(function* () {
     const authService = yield* AuthService;
-    const accessToken = yield* authService.getUserAuthToken(userId);
-    const gitProvider = yield* GitProviderRepository;
+    const accessToken = yield* authService.getUserAuthToken(
+      userId,
+      platform,
+      repo
+    );
+    const gitProvider = yield* Effect.flatMap(GitProviderRegistry, (registry) =>
+      registry.forPlatform(platform)
+    );
     return yield* gitProvider.getSiteConfig(accessToken, repo);
   });
@@ -2,10 +2,11 @@ import { Effect } from 'effect';
 
 import type { SiteConfig } from '../../../repositories/git-provider-repository';
 
-import { GitProviderRepository } from '../../../repositories/git-provider-repository';
+import { GitProviderRegistry } from '../../../repositories/git-provider-repository';
 import { isUniqueConstraintError } from '../../../repositories/repository-error';
 import { SiteRepository } from '../../../repositories/site-repository';
 import { AuthService } from '../../auth';
+import { applyCustomDomain } from '../git/apply-custom-domain';
 import {
   SiteNotFoundError,
   SiteUpdateError,
@@ -13,12 +14,21 @@ import {
   DuplicateSiteNameError,
   type UpdateSiteData,
 } from '../site-types';
-import { validateSiteName, validateGitRepo } from '../site-validation';
+import { sitePublicUrl } from '../site-utils';
+import {
+  validateSiteName,
+  validateGitRepo,
+  validateRepoDirectory,
+  validateFileNaming,
+  validateCommitMessageTemplate,
+  validateCustomDomain,
+} from '../site-validation';
 
 const CONFIG_FIELDS: ReadonlyArray<keyof UpdateSiteData> = [
   'name',
   'displayName',
   'description',
+  'customDomain',
 ];
 
 export const updateSite = (
@@ -55,34 +65,69 @@ export const updateSite = (
       ...(data.platform !== undefined && {
         platform: data.platform,
       }),
+      ...(data.publishMode !== undefined && {
+        publishMode: data.publishMode,
+      }),
+      ...(data.contentRoot !== undefined && {
+        contentRoot: yield* validateRepoDirectory(
+          'contentRoot',
+          data.contentRoot
+        ),
+      }),
+      ...(data.fileNaming !== undefined && {
+        fileNaming: yield* validateFileNaming(data.fileNaming),
+      }),
+      ...(data.mediaRoot !== undefined && {
+        mediaRoot: yield* validateRepoDirectory('mediaRoot', data.mediaRoot),
+      }),
+      ...(data.commitMessageTemplate !== undefined && {
+        commitMessageTemplate: yield* validateCommitMessageTemplate(
+          data.commitMessageTemplate
+        ),
+      }),
+      ...(data.mediaUrlStrategy !== undefined && {
+        mediaUrlStrategy: data.mediaUrlStrategy,
+      }),
+      ...(data.customDomain !== undefined && {
+        customDomain: yield* validateCustomDomain(data.customDomain),
+      }),
       ...(data.deployStatus !== undefined && {
         deployStatus: data.deployStatus,
       }),
     };
 
-    const updatedSite = yield* siteRepo.update(siteId, validatedData).pipe(
-      Effect.catchTag(
-        'RepositoryError',
-        (
-          error
-        ): Effect.Effect<never, DuplicateSiteNameError | SiteUpdateError> =>
-          isUniqueConstraintError(error)
-            ? Effect.fail(
-                new DuplicateSiteNameError({
-                  name: data.name ?? '',
-                  userId,
-                })
-              )
-            : Effect.fail(
-                new SiteUpdateError({
-                  reason:
-                    error.cause instanceof Error
-                      ? error.cause.message
-                      : 'Update failed',
-                })
-              )
-      )
-    );
+    // The host has to accept a new domain before the site claims it
+    const { customDomain } = validatedData;
+    const deployUrl =
+      customDomain !== undefined && customDomain !== existingSite.customDomain
+        ? yield* applyCustomDomain(existingSite, userId, customDomain)
+        : undefined;
+
+    const updatedSite = yield* siteRepo
+      .update(siteId, { ...validatedData, ...(deployUrl && { deployUrl }) })
+      .pipe(
+        Effect.catchTag(
+          'RepositoryError',
+          (
+            error
+          ): Effect.Effect<never, DuplicateSiteNameError | SiteUpdateError> =>
+            isUniqueConstraintError(error)
+              ? Effect.fail(
+                  new DuplicateSiteNameError({
+                    name: data.name ?? '',
+                    userId,
+                  })
+                )
+              : Effect.fail(
+                  new SiteUpdateError({
+                    reason:
+                      error.cause instanceof Error
+                        ? error.cause.message
+                        : 'Update failed',
+                  })
+                )
+        )
+      );
 
     const shouldPushConfig = CONFIG_FIELDS.some(
       (field) => data[field] !== undefined
@@ -103,28 +148,40 @@ const pushSiteConfigToRepo = (
   userId: string,
   site: {
     gitRepo: string | null;
+    platform: string;
     name: string;
     displayName: string | null;
     description: string | null;
+    customDomain: string | null;
   }
 ) =>
   Effect.gen(function* () {
     if (!site.gitRepo) return;
 
     const authService = yield* AuthService;
-    const gitProvider = yield* GitProviderRepository;
+    const gitProvider = yield* Effect.flatMap(GitProviderRegistry, (registry) =>
+      registry.forPlatform(site.platform)
+    );
 
-    const accessToken = yield* authService.getUserAuthToken(userId);
-    const platformUser = yield* authService.fetchUser(accessToken);
+    const userToken = yield* authService.getUserAuthToken(
+      userId,
+      site.platform
+    );
+    const platformUser = yield* authService.fetchUser(userToken, site.platform);
+    const accessToken = yield* authService.getUserAuthToken(
+      userId,
+      site.platform,
+      site.gitRepo
+    );
 
-    const [owner, repoName] = site.gitRepo.split('/');
+    const publicUrls = gitProvider.getPublicUrls(site.gitRepo, platformUser);
     const config: SiteConfig = {
       name: site.displayName ?? site.name,
       description: site.description ?? '',
-      url: `https://${owner}.github.io/${repoName}`,
+      url: sitePublicUrl(site.customDomain, publicUrls.pagesUrl),
       author: platformUser.displayName ?? platformUser.username,
-      avatarUrl: `https://github.com/${platformUser.username}.png`,
-      authorUrl: `https://github.com/${platformUser.username}`,
+      avatarUrl: publicUrls.avatarUrl,
+      authorUrl: publicUrls.authorUrl,
     };
 
     yield* gitProvider.pushSiteConfig(accessToken, site.gitRepo, config);
@@ -1,8 +1,12 @@
 import { Layer } from 'effect';
 
+import { applyTemplateUpgrade } from './git/apply-template-upgrade';
 import { createSite } from './git/create-site';
 import { forceSyncSite } from './git/force-sync-site';
+import { handlePushWebhook } from './git/handle-push-webhook';
 import { importRepo } from './git/import-repo';
+import { previewTemplateUpgrade } from './git/preview-template-upgrade';
+import { refreshDeployStatus } from './git/refresh-deploy-status';
 import { deleteSite } from './operations/delete-site';
 import { findSiteById } from './operations/find-site-by-id';
 import { findUserSites } from './operations/find-user-sites';
@@ -19,7 +23,11 @@ export const SiteServiceLive = Layer.succeed(SiteService, {
   updateSite,
   importRepo,
   forceSyncSite,
+  handlePushWebhook,
   getRepoConfig,
+  previewTemplateUpgrade,
+  applyTemplateUpgrade,
+  refreshDeployStatus,
   validateSiteName,
   validateGitRepo,
 });
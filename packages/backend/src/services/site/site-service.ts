@@ -1,8 +1,12 @@
 import { Context } from 'effect';
 
+import type { applyTemplateUpgrade } from './git/apply-template-upgrade';
 import type { createSite } from './git/create-site';
 import type { forceSyncSite } from './git/force-sync-site';
+import type { handlePushWebhook } from './git/handle-push-webhook';
 import type { importRepo } from './git/import-repo';
+import type { previewTemplateUpgrade } from './git/preview-template-upgrade';
+import type { refreshDeployStatus } from './git/refresh-deploy-status';
 import type { deleteSite } from './operations/delete-site';
 import type { findSiteById } from './operations/find-site-by-id';
 import type { findUserSites } from './operations/find-user-sites';
@@ -18,7 +22,11 @@ export interface SiteServiceInterface {
   readonly updateSite: typeof updateSite;
   readonly importRepo: typeof importRepo;
   readonly forceSyncSite: typeof forceSyncSite;
+  readonly handlePushWebhook: typeof handlePushWebhook;
   readonly getRepoConfig: typeof getRepoConfig;
+  readonly previewTemplateUpgrade: typeof previewTemplateUpgrade;
+  readonly applyTemplateUpgrade: typeof applyTemplateUpgrade;
+  readonly refreshDeployStatus: typeof refreshDeployStatus;
   readonly validateSiteName: typeof validateSiteName;
   readonly validateGitRepo: typeof validateGitRepo;
 }
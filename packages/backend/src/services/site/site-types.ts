@@ -26,10 +26,38 @@ export class DuplicateSiteNameError extends Data.TaggedError(
   readonly userId: string;
 }> {}
 
+export class WebhookPayloadError extends Data.TaggedError(
+  'WebhookPayloadError'
+)<{
+  readonly reason: string;
+}> {}
+
+export class WebhookSignatureError extends Data.TaggedError(
+  'WebhookSignatureError'
+)<{
+  readonly repoFullName: string;
+}> {}
+
+export class TemplateUpgradeError extends Data.TaggedError(
+  'TemplateUpgradeError'
+)<{
+  readonly siteId: string;
+  readonly reason: string;
+}> {}
+
 export class SiteValidationError extends Data.TaggedError(
   'SiteValidationError'
 )<{
-  readonly field: 'name' | 'displayName' | 'gitRepo';
+  readonly field:
+    | 'name'
+    | 'displayName'
+    | 'gitRepo'
+    | 'contentRoot'
+    | 'fileNaming'
+    | 'mediaRoot'
+    | 'commitMessageTemplate'
+    | 'templateId'
+    | 'customDomain';
   readonly message: string;
 }> {}
 
@@ -39,8 +67,11 @@ export interface CreateSiteData {
   readonly displayName?: string;
   readonly description?: string;
   readonly author?: string;
+  readonly platform?: string;
   readonly templateOwner?: string;
   readonly templateRepo?: string;
+  // A registered template; takes precedence over templateOwner/templateRepo
+  readonly templateId?: string;
 }
 
 export interface ImportRepoData {
@@ -61,5 +92,56 @@ export interface UpdateSiteData {
   readonly description?: string;
   readonly gitRepo?: string;
   readonly platform?: string;
+  readonly publishMode?: 'direct' | 'pull_request';
+  readonly contentRoot?: string;
+  readonly fileNaming?: string;
+  readonly mediaRoot?: string;
+  readonly commitMessageTemplate?: string | null;
+  readonly mediaUrlStrategy?: 'raw' | 'site_relative' | 'pinned';
+  // Hostname serving the site's Pages; null goes back to the platform's host
+  readonly customDomain?: string | null;
   readonly deployStatus?: string;
 }
+
+// How the repository copy of a template file relates to the site's template
+// version (base) and the version it would be upgraded to (incoming)
+export type TemplateFileStatus =
+  | 'unchanged'
+  | 'added'
+  | 'updated'
+  | 'customized'
+  | 'conflict';
+
+export interface TemplateFileDiff {
+  readonly path: string;
+  readonly status: TemplateFileStatus;
+  readonly current: string | null;
+  readonly base: string | null;
+  readonly incoming: string;
+}
+
+export type TemplateFileDecision =
+  | { readonly path: string; readonly action: 'keep' | 'replace' }
+  | {
+      readonly path: string;
+      readonly action: 'merge';
+      readonly content: string;
+    };
+
+export interface ApplyTemplateUpgradeData {
+  readonly siteId: string;
+  readonly userId: string;
+  // The version the preview was computed for
+  readonly version: string;
+  readonly files: readonly TemplateFileDecision[];
+}
+
+// The deploy run triggered by the last commit the site pushed
+export interface SiteDeployment {
+  readonly status: string;
+  readonly commitSha: string | null;
+  readonly runUrl: string | null;
+  readonly startedAt: Date | null;
+  // Seconds the run took, once finished
+  readonly duration: number | null;
+}
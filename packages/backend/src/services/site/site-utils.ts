@@ -5,3 +5,19 @@ export const resolveDisplayName = (data: {
   displayName?: string;
   name: string;
 }): string => data.displayName || data.name;
+
+// GitLab nests projects in groups, so the owner is everything before the
+// last segment
+export const splitRepoFullName = (
+  fullName: string
+): { owner: string; repo: string } => {
+  const index = fullName.lastIndexOf('/');
+  return { owner: fullName.slice(0, index), repo: fullName.slice(index + 1) };
+};
+
+// Where the site is served: its custom domain, or the Pages URL the platform
+// derives from the repository
+export const sitePublicUrl = (
+  customDomain: string | null,
+  pagesUrl: string
+): string => (customDomain ? `https://${customDomain}` : pagesUrl);
@@ -44,8 +44,8 @@ export const validateGitRepo = (gitRepo: string) =>
       });
     }
 
-    // Basic validation for GitHub repo format: username/repo-name
-    const repoPattern = /^[a-zA-Z0-9\-_.]+\/[a-zA-Z0-9\-_.]+$/;
+    // username/repo-name, or group/subgroup/repo-name on GitLab
+    const repoPattern = /^[a-zA-Z0-9\-_.]+(?:\/[a-zA-Z0-9\-_.]+)+$/;
     if (!repoPattern.test(trimmedRepo)) {
       return yield* new SiteValidationError({
         field: 'gitRepo',
@@ -55,3 +55,124 @@ export const validateGitRepo = (gitRepo: string) =>
 
     return trimmedRepo;
   });
+
+// Repo-relative directory, "" for the repository root
+export const validateRepoDirectory = (
+  field: 'contentRoot' | 'mediaRoot',
+  dir: string
+) =>
+  Effect.gen(function* () {
+    const trimmedDir = dir.trim().replace(/^\/+|\/+$/g, '');
+
+    const segmentPattern = /^[a-zA-Z0-9\-_.]+$/;
+    const segments = trimmedDir === '' ? [] : trimmedDir.split('/');
+    if (
+      segments.some(
+        (segment) =>
+          !segmentPattern.test(segment) || segment === '.' || segment === '..'
+      )
+    ) {
+      return yield* new SiteValidationError({
+        field,
+        message:
+          'Directory must be a path inside the repository, e.g. content/posts',
+      });
+    }
+
+    return trimmedDir;
+  });
+
+// Path under the content root with a {slug} and an optional {date}
+export const validateFileNaming = (pattern: string) =>
+  Effect.gen(function* () {
+    const trimmedPattern = pattern.trim().replace(/^\/+/, '');
+
+    const placeholders = trimmedPattern.match(/\{[^}]*\}/g) ?? [];
+    const slugCount = placeholders.filter((p) => p === '{slug}').length;
+    const dateCount = placeholders.filter((p) => p === '{date}').length;
+
+    if (slugCount !== 1 || dateCount > 1) {
+      return yield* new SiteValidationError({
+        field: 'fileNaming',
+        message: 'File naming must contain {slug} once and {date} at most once',
+      });
+    }
+
+    if (placeholders.length !== slugCount + dateCount) {
+      return yield* new SiteValidationError({
+        field: 'fileNaming',
+        message: 'File naming only supports the {slug} and {date} placeholders',
+      });
+    }
+
+    if (
+      !/\.(md|markdown|mdx)$/.test(trimmedPattern) ||
+      trimmedPattern.split('/').some((s) => s === '' || s === '.' || s === '..')
+    ) {
+      return yield* new SiteValidationError({
+        field: 'fileNaming',
+        message:
+          'File naming must be a relative path ending in .md, .markdown or .mdx',
+      });
+    }
+
+    return trimmedPattern;
+  });
+
+// Subject line for article commits; empty falls back to the default
+export const validateCommitMessageTemplate = (template: string | null) =>
+  Effect.gen(function* () {
+    const trimmedTemplate = template?.trim() ?? '';
+
+    if (trimmedTemplate === '') {
+      return null;
+    }
+
+    if (trimmedTemplate.includes('\n')) {
+      return yield* new SiteValidationError({
+        field: 'commitMessageTemplate',
+        message: 'Commit message template must be a single line',
+      });
+    }
+
+    const placeholders = trimmedTemplate.match(/\{[^}]*\}/g) ?? [];
+    if (
+      placeholders.some(
+        (p) => p !== '{action}' && p !== '{title}' && p !== '{slug}'
+      )
+    ) {
+      return yield* new SiteValidationError({
+        field: 'commitMessageTemplate',
+        message:
+          'Commit message template only supports the {action}, {title} and {slug} placeholders',
+      });
+    }
+
+    return trimmedTemplate;
+  });
+
+// A bare hostname such as blog.example.com; empty clears the domain
+export const validateCustomDomain = (domain: string | null) =>
+  Effect.gen(function* () {
+    const trimmedDomain = domain?.trim().toLowerCase().replace(/\.$/, '') ?? '';
+
+    if (trimmedDomain === '') {
+      return null;
+    }
+
+    const labelPattern = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+    const labels = trimmedDomain.split('.');
+    if (
+      trimmedDomain.length > 253 ||
+      labels.length < 2 ||
+      !labels.every((label) => labelPattern.test(label))
+    ) {
+      return yield* new SiteValidationError({
+        field: 'customDomain',
+        message:
+          'Custom domain must be a hostname like blog.example.com, without https:// or a path',
+      });
+    }
+
+    return trimmedDomain;
+  });
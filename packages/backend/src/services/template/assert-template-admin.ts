@@ -0,0 +1,18 @@
+import { Effect } from 'effect';
+
+import { UserRepository } from '../../repositories/user-repository';
+import { ConfigService } from '../config-service';
+import { TemplateAccessDeniedError } from './template-types';
+
+// Only instance admins, listed by username in the config, manage templates
+export const assertTemplateAdmin = (userId: string) =>
+  Effect.gen(function* () {
+    const config = yield* ConfigService;
+    const user = yield* Effect.flatMap(UserRepository, (userRepo) =>
+      userRepo.findById(userId)
+    );
+
+    if (!user || !config.adminUsernames.includes(user.username)) {
+      return yield* new TemplateAccessDeniedError({ userId });
+    }
+  });
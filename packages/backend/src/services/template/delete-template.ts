@@ -0,0 +1,20 @@
+import { Effect } from 'effect';
+
+import { SiteTemplateRepository } from '../../repositories/site-template-repository';
+import { assertTemplateAdmin } from './assert-template-admin';
+import { TemplateNotFoundError } from './template-types';
+
+// Sites created from the template keep their files and fall back to the
+// default template on their next force sync
+export const deleteTemplate = (templateId: string, userId: string) =>
+  Effect.gen(function* () {
+    yield* assertTemplateAdmin(userId);
+
+    const templateRepo = yield* SiteTemplateRepository;
+    const template = yield* templateRepo.findById(templateId);
+    if (!template) {
+      return yield* new TemplateNotFoundError({ templateId });
+    }
+
+    return yield* templateRepo.delete(templateId);
+  });
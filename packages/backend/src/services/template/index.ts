@@ -0,0 +1,11 @@
+export * from './template-types';
+export {
+  TEMPLATE_MANIFEST_PATH,
+  parseTemplateManifest,
+  templateSource,
+} from './template-manifest';
+export {
+  TemplateService,
+  type TemplateServiceInterface,
+} from './template-service';
+export { TemplateServiceLive } from './template-service-live';
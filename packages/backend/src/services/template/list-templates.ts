@@ -0,0 +1,8 @@
+import { Effect } from 'effect';
+
+import { SiteTemplateRepository } from '../../repositories/site-template-repository';
+
+export const listTemplates = (platform?: string) =>
+  Effect.flatMap(SiteTemplateRepository, (templateRepo) =>
+    templateRepo.findAll(platform)
+  );
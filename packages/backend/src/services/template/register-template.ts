@@ -0,0 +1,83 @@
+import { Effect, Either } from 'effect';
+
+import { GitProviderRegistry } from '../../repositories/git-provider-repository';
+import { SiteTemplateRepository } from '../../repositories/site-template-repository';
+import { AuthService } from '../auth';
+import { assertTemplateAdmin } from './assert-template-admin';
+import {
+  TEMPLATE_MANIFEST_PATH,
+  parseTemplateManifest,
+} from './template-manifest';
+import {
+  TemplateManifestError,
+  type RegisterTemplateData,
+} from './template-types';
+
+const isAbsoluteUrl = (value: string) => /^https?:\/\//i.test(value);
+
+// Reads the manifest at the template's current commit and records that
+// commit as the version new sites are created from. Registering a template
+// again picks up its latest manifest
+export const registerTemplate = (data: RegisterTemplateData) =>
+  Effect.gen(function* () {
+    yield* assertTemplateAdmin(data.userId);
+
+    const gitProvider = yield* Effect.flatMap(GitProviderRegistry, (registry) =>
+      registry.forPlatform(data.platform)
+    );
+    const accessToken = yield* Effect.flatMap(AuthService, (authService) =>
+      authService.getUserAuthToken(data.userId, data.platform)
+    );
+
+    const repoInfo = yield* gitProvider.getRepositoryInfo(
+      accessToken,
+      data.repo
+    );
+    const version = yield* gitProvider.getBranchHead(
+      accessToken,
+      data.repo,
+      repoInfo.defaultBranch
+    );
+
+    const raw = yield* gitProvider.getFileAtRef(
+      accessToken,
+      data.repo,
+      TEMPLATE_MANIFEST_PATH,
+      version
+    );
+    if (raw === null) {
+      return yield* new TemplateManifestError({
+        repo: data.repo,
+        reason: `${TEMPLATE_MANIFEST_PATH} not found`,
+      });
+    }
+
+    const manifest = parseTemplateManifest(raw);
+    if (Either.isLeft(manifest)) {
+      return yield* new TemplateManifestError({
+        repo: data.repo,
+        reason: manifest.left,
+      });
+    }
+
+    const { name, description, preview, files, placeholders } = manifest.right;
+
+    return yield* Effect.flatMap(SiteTemplateRepository, (templateRepo) =>
+      templateRepo.upsert({
+        platform: data.platform,
+        repo: data.repo,
+        name,
+        description: description ?? null,
+        // A repository path is pinned to the registered version
+        previewUrl:
+          preview === undefined
+            ? null
+            : isAbsoluteUrl(preview)
+              ? preview
+              : gitProvider.getRawFileUrl(data.repo, version, preview),
+        files,
+        placeholders: placeholders ?? null,
+        version,
+      })
+    );
+  });
@@ -0,0 +1,67 @@
+import { Either, Schema as S } from 'effect';
+
+import type {
+  TemplatePlaceholders,
+  TemplateSource,
+} from '../../repositories/git-provider-repository';
+import type { SiteTemplate } from '../../repositories/site-template-repository';
+
+// Describes a template repository to Inland: the build files injected into
+// sites besides the site config and deploy workflow, the placeholder tokens
+// those files use, and a preview image path or URL for the gallery
+export const TEMPLATE_MANIFEST_PATH = 'inland.template.json';
+
+const PlaceholderValue = S.Literal(
+  'siteName',
+  'siteDescription',
+  'siteNameSlug',
+  'siteAuthor',
+  'platformUsername'
+);
+
+const Placeholders = S.Record({
+  key: S.String.pipe(S.minLength(1)),
+  value: PlaceholderValue,
+});
+
+// Repository-relative, so a manifest can't reach outside the repository
+const ManifestFilePath = S.String.pipe(
+  S.filter(
+    (path) =>
+      path !== '' && !path.startsWith('/') && !path.split('/').includes('..'),
+    { message: () => 'File paths must be relative to the repository root' }
+  )
+);
+
+const TemplateManifest = S.Struct({
+  name: S.String.pipe(S.minLength(1), S.maxLength(100)),
+  description: S.optional(S.String.pipe(S.maxLength(500))),
+  preview: S.optional(S.String.pipe(S.minLength(1))),
+  files: S.Array(ManifestFilePath).pipe(S.minItems(1)),
+  placeholders: S.optional(Placeholders),
+});
+
+export type TemplateManifest = S.Schema.Type<typeof TemplateManifest>;
+
+export const parseTemplateManifest = (
+  raw: string
+): Either.Either<TemplateManifest, string> =>
+  S.decodeUnknownEither(S.parseJson(TemplateManifest))(raw).pipe(
+    Either.mapLeft((error) => error.message)
+  );
+
+// The column is plain JSON, so anything malformed falls back to the
+// default tokens
+const storedPlaceholders = (value: unknown): TemplatePlaceholders | undefined =>
+  Either.getOrUndefined(S.decodeUnknownEither(Placeholders)(value));
+
+// Files of a registered template at the version a site came from
+export const templateSource = (
+  template: SiteTemplate,
+  version: string | null
+): TemplateSource => ({
+  repo: template.repo,
+  ref: version ?? template.version,
+  files: template.files,
+  placeholders: storedPlaceholders(template.placeholders),
+});
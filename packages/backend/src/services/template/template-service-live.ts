@@ -0,0 +1,12 @@
+import { Layer } from 'effect';
+
+import { deleteTemplate } from './delete-template';
+import { listTemplates } from './list-templates';
+import { registerTemplate } from './register-template';
+import { TemplateService } from './template-service';
+
+export const TemplateServiceLive = Layer.succeed(TemplateService, {
+  listTemplates,
+  registerTemplate,
+  deleteTemplate,
+});
@@ -0,0 +1,16 @@
+import { Context } from 'effect';
+
+import type { deleteTemplate } from './delete-template';
+import type { listTemplates } from './list-templates';
+import type { registerTemplate } from './register-template';
+
+export interface TemplateServiceInterface {
+  readonly listTemplates: typeof listTemplates;
+  readonly registerTemplate: typeof registerTemplate;
+  readonly deleteTemplate: typeof deleteTemplate;
+}
+
+export class TemplateService extends Context.Tag('TemplateService')<
+  TemplateService,
+  TemplateServiceInterface
+>() {}
@@ -0,0 +1,26 @@
+import { Data } from 'effect';
+
+export class TemplateNotFoundError extends Data.TaggedError(
+  'TemplateNotFoundError'
+)<{
+  readonly templateId: string;
+}> {}
+
+export class TemplateAccessDeniedError extends Data.TaggedError(
+  'TemplateAccessDeniedError'
+)<{
+  readonly userId: string;
+}> {}
+
+export class TemplateManifestError extends Data.TaggedError(
+  'TemplateManifestError'
+)<{
+  readonly repo: string;
+  readonly reason: string;
+}> {}
+
+export interface RegisterTemplateData {
+  readonly userId: string;
+  readonly platform: string;
+  readonly repo: string;
+}
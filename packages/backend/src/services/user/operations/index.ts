@@ -1,5 +1,6 @@
 export { createUser } from './create-user';
 export { findUserById } from './find-user-by-id';
 export { findUserByUsername } from './find-user-by-username';
+export { updateCommitIdentity } from './update-commit-identity';
 export { upsertGitIntegration } from './upsert-git-integration';
 export { upsertUser } from './upsert-user';
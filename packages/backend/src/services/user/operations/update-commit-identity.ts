@@ -0,0 +1,36 @@
+import { Effect } from 'effect';
+
+import { UserRepository } from '../../../repositories/user-repository';
+import { UserValidationError, type CommitIdentityData } from '../user-types';
+
+// Providers need both to attribute a commit, so a half-set identity is
+// rejected rather than silently ignored at publish time
+export const updateCommitIdentity = (
+  userId: string,
+  data: CommitIdentityData
+) =>
+  Effect.gen(function* () {
+    const userRepo = yield* UserRepository;
+
+    const commitName = data.commitName?.trim() || null;
+    const commitEmail = data.commitEmail?.trim() || null;
+
+    if (commitName === null && commitEmail !== null) {
+      return yield* new UserValidationError({
+        field: 'commitName',
+        message: 'Commit name is required when an email is set',
+      });
+    }
+
+    if (commitEmail === null && commitName !== null) {
+      return yield* new UserValidationError({
+        field: 'commitEmail',
+        message: 'Commit email is required when a name is set',
+      });
+    }
+
+    return yield* userRepo.updateCommitIdentity(userId, {
+      commitName,
+      commitEmail,
+    });
+  });
@@ -3,6 +3,7 @@ import { Layer } from 'effect';
 import { createUser } from './operations/create-user';
 import { findUserById } from './operations/find-user-by-id';
 import { findUserByUsername } from './operations/find-user-by-username';
+import { updateCommitIdentity } from './operations/update-commit-identity';
 import { upsertGitIntegration } from './operations/upsert-git-integration';
 import { upsertUser } from './operations/upsert-user';
 import { UserService } from './user-service';
@@ -11,6 +12,7 @@ export const UserServiceLive = Layer.succeed(UserService, {
   createUser,
   findUserById,
   findUserByUsername,
+  updateCommitIdentity,
   upsertGitIntegration,
   upsertUser,
 });
@@ -3,6 +3,7 @@ import { Context } from 'effect';
 import type { createUser } from './operations/create-user';
 import type { findUserById } from './operations/find-user-by-id';
 import type { findUserByUsername } from './operations/find-user-by-username';
+import type { updateCommitIdentity } from './operations/update-commit-identity';
 import type { upsertGitIntegration } from './operations/upsert-git-integration';
 import type { upsertUser } from './operations/upsert-user';
 
@@ -10,6 +11,7 @@ export interface UserServiceInterface {
   readonly createUser: typeof createUser;
   readonly findUserById: typeof findUserById;
   readonly findUserByUsername: typeof findUserByUsername;
+  readonly updateCommitIdentity: typeof updateCommitIdentity;
   readonly upsertGitIntegration: typeof upsertGitIntegration;
   readonly upsertUser: typeof upsertUser;
 }
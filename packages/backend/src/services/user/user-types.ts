@@ -3,6 +3,7 @@ import { Data } from 'effect';
 export type {
   CreateUserData,
   CreateGitIntegrationData,
+  CommitIdentityData,
   UserWithIntegrations,
 } from '../../repositories/user-repository';
 
@@ -13,3 +14,10 @@ export class UserNotFoundError extends Data.TaggedError('UserNotFoundError')<{
 export class UserCreationError extends Data.TaggedError('UserCreationError')<{
   readonly reason: string;
 }> {}
+
+export class UserValidationError extends Data.TaggedError(
+  'UserValidationError'
+)<{
+  readonly field: 'commitName' | 'commitEmail';
+  readonly message: string;
+}> {}
@@ -16,6 +16,8 @@ declare module 'fastify' {
 
   interface FastifyInstance {
     github: OAuth2Namespace;
+    gitlab?: OAuth2Namespace;
+    gitea?: OAuth2Namespace;
     setAuthCookie: (reply: FastifyReply, payload: JWTPayload) => Promise<void>;
     clearAuthCookie: (reply: FastifyReply) => void;
     createRefreshSession: (
@@ -5,11 +5,15 @@ import { Layer, ManagedRuntime } from 'effect';
 import type { prisma } from '../database/client';
 
 import { AuthProviderLive } from '../plugins/auth-provider';
-import { GitProviderLive } from '../plugins/git-provider';
+import { GitProviderRegistryLive } from '../plugins/git-provider';
 import { PrismaArticleRepositoryLive } from '../repositories/implementations/prisma-article-repository';
+import { PrismaArticleRevisionRepositoryLive } from '../repositories/implementations/prisma-article-revision-repository';
 import { PrismaMediaRepositoryLive } from '../repositories/implementations/prisma-media-repository';
 import { PrismaSiteRepositoryLive } from '../repositories/implementations/prisma-site-repository';
+import { PrismaSiteTemplateRepositoryLive } from '../repositories/implementations/prisma-site-template-repository';
 import { PrismaUserRepositoryLive } from '../repositories/implementations/prisma-user-repository';
+import { RedisPublishQueueRepositoryLive } from '../repositories/implementations/redis-publish-queue-repository';
+import { RedisSiteSyncQueueRepositoryLive } from '../repositories/implementations/redis-site-sync-queue-repository';
 import { ArticleServiceLive } from '../services/article/article-service-live';
 import { AuthServiceLive } from '../services/auth/auth-service-live';
 import { makeConfigService } from '../services/config-service';
@@ -18,6 +22,7 @@ import { MediaServiceLive } from '../services/media';
 import { makeRedisService } from '../services/redis-service';
 import { SessionServiceLive } from '../services/session/session-service-live';
 import { SiteServiceLive } from '../services/site/site-service-live';
+import { TemplateServiceLive } from '../services/template';
 import { UserServiceLive } from '../services/user/user-service-live';
 
 export const createAppRuntime = (
@@ -31,11 +36,19 @@ export const createAppRuntime = (
   // Prisma repositories depend on DatabaseService
   const RepositoryLayer = Layer.mergeAll(
     PrismaArticleRepositoryLive,
+    PrismaArticleRevisionRepositoryLive,
     PrismaMediaRepositoryLive,
     PrismaSiteRepositoryLive,
+    PrismaSiteTemplateRepositoryLive,
     PrismaUserRepositoryLive
   ).pipe(Layer.provide(DatabaseLayer));
 
+  // The scheduled publish and push sync queues live in Redis
+  const QueueLayer = Layer.merge(
+    RedisPublishQueueRepositoryLive,
+    RedisSiteSyncQueueRepositoryLive
+  ).pipe(Layer.provide(RedisLayer));
+
   // SessionServiceLive depends on RedisService + ConfigService
   const SessionLayer = SessionServiceLive.pipe(
     Layer.provide(Layer.merge(RedisLayer, ConfigLayer))
@@ -45,13 +58,17 @@ export const createAppRuntime = (
     RedisLayer,
     ConfigLayer,
     RepositoryLayer,
-    GitProviderLive.pipe(Layer.provide(ConfigLayer)),
-    AuthProviderLive,
+    QueueLayer,
+    GitProviderRegistryLive.pipe(
+      Layer.provide(Layer.merge(ConfigLayer, RedisLayer))
+    ),
+    AuthProviderLive.pipe(Layer.provide(ConfigLayer)),
     ArticleServiceLive,
     AuthServiceLive,
     MediaServiceLive,
     SessionLayer,
     SiteServiceLive,
+    TemplateServiceLive,
     UserServiceLive
   );
 
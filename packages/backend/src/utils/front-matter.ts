@@ -0,0 +1,58 @@
+import { Document, isMap, isScalar, isSeq, parse, parseDocument } from 'yaml';
+
+export interface FrontMatterDocument {
+  readonly data: Record<string, unknown>;
+  readonly body: string;
+}
+
+// Opening fence, optional YAML block, closing fence on its own line
+const FRONT_MATTER_PATTERN =
+  /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Splits a markdown document into its YAML front matter and body.
+// Returns null when the document has no front matter block; throws on
+// front matter that is not valid YAML
+export const parseFrontMatter = (
+  content: string
+): FrontMatterDocument | null => {
+  const match = content.match(FRONT_MATTER_PATTERN);
+  if (!match) return null;
+
+  const parsed: unknown = parse(match[1] ?? '');
+  return {
+    data: isRecord(parsed) ? parsed : {},
+    body: content.slice(match[0].length),
+  };
+};
+
+// Renders front matter as a fenced YAML block. Top-level lists of plain
+// values stay on one line, the way most static site generators write tags
+export const stringifyFrontMatter = (data: Record<string, unknown>): string => {
+  const doc = new Document(data);
+  if (isMap(doc.contents)) {
+    for (const pair of doc.contents.items) {
+      if (isSeq(pair.value) && pair.value.items.every(isScalar)) {
+        pair.value.flow = true;
+      }
+    }
+  }
+  return `---\n${doc.toString({ lineWidth: 0, flowCollectionPadding: false })}---\n`;
+};
+
+// Sets one front matter key, keeping the rest of the block as it was
+// written. A document without front matter is returned unchanged
+export const setFrontMatterValue = (
+  content: string,
+  key: string,
+  value: unknown
+): string => {
+  const match = content.match(FRONT_MATTER_PATTERN);
+  if (!match) return content;
+
+  const doc = parseDocument(match[1] ?? '');
+  doc.set(key, value);
+  return `---\n${doc.toString({ lineWidth: 0 })}---\n${content.slice(match[0].length)}`;
+};
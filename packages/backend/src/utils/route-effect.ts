@@ -2,6 +2,8 @@ import type { FastifyInstance, FastifyReply } from 'fastify';
 
 import { Data, Effect } from 'effect';
 
+import { RateLimitedError } from '../repositories/git-provider-repository';
+
 export class HttpError extends Data.TaggedError('HttpError')<{
   readonly status: number;
   readonly message: string;
@@ -10,6 +12,23 @@ export class HttpError extends Data.TaggedError('HttpError')<{
 export const httpError = (status: number, message: string) =>
   Effect.fail(new HttpError({ status, message }));
 
+// Any route that talks to a git host can run out of its rate limit, so
+// the answer is the same everywhere: 429 and when to try again
+const sendRateLimited = (reply: FastifyReply, error: RateLimitedError) => {
+  const retryAfterSeconds = Math.max(
+    Math.ceil((error.resetAt.getTime() - Date.now()) / 1000),
+    1
+  );
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  return reply
+    .code(429)
+    .header('Retry-After', retryAfterSeconds)
+    .send({
+      error: `${error.platform} API rate limit reached. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+      resetAt: error.resetAt.toISOString(),
+    });
+};
+
 export function runRouteEffect<A, R>(
   fastify: FastifyInstance,
   reply: FastifyReply,
@@ -30,6 +49,9 @@ export function runRouteEffect<A, R>(
           if (error instanceof HttpError) {
             return reply.code(error.status).send({ error: error.message });
           }
+          if (error instanceof RateLimitedError) {
+            return sendRateLimited(reply, error);
+          }
           fastify.log.error(error);
           return reply.code(500).send({ error: fallbackMessage });
         }),
@@ -28,6 +28,11 @@ export const mockSite = (
   name: 'Test Site',
   gitRepo: 'user/repo',
   platform: 'github',
+  publishMode: 'direct',
+  contentRoot: 'content',
+  fileNaming: '{slug}.md',
+  mediaRoot: 'assets/images',
+  mediaUrlStrategy: 'raw',
   deployStatus: 'active',
   createdAt: '2026-01-01T00:00:00Z',
   _count: { articles: 0, media: 0 },
@@ -40,6 +45,8 @@ export const mockUser = (overrides?: Partial<AuthUser>): AuthUser => ({
   displayName: 'Test User',
   email: 'test@example.com',
   avatarUrl: null,
+  commitName: null,
+  commitEmail: null,
   createdAt: '2026-01-01T00:00:00Z',
   gitIntegrations: [{ platform: 'github', platformUsername: 'testuser' }],
   ...overrides,
@@ -4,13 +4,19 @@ import { BehaviorSubject } from 'rxjs';
 import {
   ArticlesModel,
   type Article,
+  type ArticleCommit,
+  type ArticleConflict,
+  type ArticleRevisionSummary,
+  type ArticleVersion,
   type ArticlesModelService,
   type EditingState,
+  type ViewedRevision,
 } from '@/model/articles-model';
 import {
   AuthModel,
   type AuthModelService,
   type AuthState,
+  type GitPlatform,
 } from '@/model/auth-model';
 import {
   MediaModel,
@@ -51,6 +57,13 @@ export const mockArticlesModel: ArticlesModelService = {
   deletingId$: new BehaviorSubject<string | null>(null),
   publishingId$: new BehaviorSubject<string | null>(null),
   selectedTag$: new BehaviorSubject<string | null>(null),
+  conflict$: new BehaviorSubject<ArticleConflict | null>(null),
+  history$: new BehaviorSubject<ArticleCommit[] | null>(null),
+  historyLoading$: new BehaviorSubject(false),
+  viewedVersion$: new BehaviorSubject<ArticleVersion | null>(null),
+  revisions$: new BehaviorSubject<ArticleRevisionSummary[] | null>(null),
+  revisionsLoading$: new BehaviorSubject(false),
+  viewedRevision$: new BehaviorSubject<ViewedRevision | null>(null),
 };
 
 export const resetMockArticlesModel = () => {
@@ -72,6 +85,13 @@ export const resetMockArticlesModel = () => {
   mockArticlesModel.deletingId$.next(null);
   mockArticlesModel.publishingId$.next(null);
   mockArticlesModel.selectedTag$.next(null);
+  mockArticlesModel.conflict$.next(null);
+  mockArticlesModel.history$.next(null);
+  mockArticlesModel.historyLoading$.next(false);
+  mockArticlesModel.viewedVersion$.next(null);
+  mockArticlesModel.revisions$.next(null);
+  mockArticlesModel.revisionsLoading$.next(false);
+  mockArticlesModel.viewedRevision$.next(null);
 };
 
 export const MockArticlesModelLive = Layer.succeed(
@@ -87,6 +107,8 @@ export const mockAuthModel: AuthModelService = {
     user: null,
     error: null,
   }),
+  providers$: new BehaviorSubject<GitPlatform[]>(['github']),
+  githubApp$: new BehaviorSubject<boolean>(false),
 };
 
 export const resetMockAuthModel = () => {
@@ -95,6 +117,8 @@ export const resetMockAuthModel = () => {
     user: null,
     error: null,
   });
+  mockAuthModel.providers$.next(['github']);
+  mockAuthModel.githubApp$.next(false);
 };
 
 export const MockAuthModelLive = Layer.succeed(AuthModel, mockAuthModel);
@@ -1,6 +1,10 @@
 import { describe, it, expect } from 'vitest';
 
-import { hasUnpublishedChanges } from '@/model/articles-model';
+import {
+  buildArticleTree,
+  hasUnpublishedChanges,
+  moveSlugToFolder,
+} from '@/model/articles-model';
 
 import { mockArticle } from '../helpers/mock-factories';
 
@@ -84,3 +88,37 @@ describe('hasUnpublishedChanges', () => {
     expect(hasUnpublishedChanges(article)).toBe(false);
   });
 });
+
+describe('buildArticleTree', () => {
+  it('should nest articles under their folders', () => {
+    const linux = mockArticle({ id: 'a1', slug: 'guides/install/linux' });
+    const intro = mockArticle({ id: 'a2', slug: 'guides/intro' });
+    const about = mockArticle({ id: 'a3', slug: 'about' });
+    const api = mockArticle({ id: 'a4', slug: 'api/auth' });
+
+    const tree = buildArticleTree([linux, intro, about, api]);
+
+    expect(tree.articles).toEqual([about]);
+    expect(tree.folders.map((f) => f.path)).toEqual(['api', 'guides']);
+    const guides = tree.folders[1];
+    expect(guides.articles).toEqual([intro]);
+    expect(guides.folders).toEqual([
+      {
+        name: 'install',
+        path: 'guides/install',
+        folders: [],
+        articles: [linux],
+      },
+    ]);
+  });
+});
+
+describe('moveSlugToFolder', () => {
+  it('should keep the article name when changing folders', () => {
+    expect(moveSlugToFolder('guides/install/linux', 'ops')).toBe('ops/linux');
+    expect(moveSlugToFolder('guides/linux', '')).toBe('linux');
+    expect(moveSlugToFolder('linux', 'guides/install')).toBe(
+      'guides/install/linux'
+    );
+  });
+});
@@ -176,6 +176,46 @@ describe('ArticleService', () => {
     });
   });
 
+  describe('moveArticle', () => {
+    it('should change the folder part of the slug', async () => {
+      const article = mockArticle({ id: 'a1', slug: 'guides/linux' });
+      const moved = { ...article, slug: 'ops/install/linux' };
+      mockArticlesModel.articles$.next([article]);
+      mockArticlesModel.currentArticle$.next(article);
+      mockApi.put.mockReturnValue(apiSuccess({ article: moved }));
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.moveArticle('a1', 'ops/install');
+        })
+      );
+
+      expect(mockApi.put).toHaveBeenCalledWith('/articles/a1', {
+        slug: 'ops/install/linux',
+      });
+      expect(mockArticlesModel.articles$.getValue()).toEqual([moved]);
+      expect(mockArticlesModel.editing$.getValue().slug).toBe(
+        'ops/install/linux'
+      );
+    });
+
+    it('should skip the request when the folder is unchanged', async () => {
+      mockArticlesModel.articles$.next([
+        mockArticle({ id: 'a1', slug: 'guides/linux' }),
+      ]);
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.moveArticle('a1', 'guides');
+        })
+      );
+
+      expect(mockApi.put).not.toHaveBeenCalled();
+    });
+  });
+
   describe('deleteArticle', () => {
     it('should optimistically remove article and call API', async () => {
       const articles = [mockArticle({ id: 'a1' }), mockArticle({ id: 'a2' })];
@@ -230,11 +270,504 @@ describe('ArticleService', () => {
         })
       );
 
-      expect(mockApi.post).toHaveBeenCalledWith('/articles/a1/publish');
+      expect(mockApi.post).toHaveBeenCalledWith(
+        '/articles/a1/publish',
+        undefined
+      );
       const updatedArticles = mockArticlesModel.articles$.getValue();
       expect(updatedArticles[0].status).toBe('published');
       expect(mockArticlesModel.publishingId$.getValue()).toBe(null);
     });
+
+    it('should mark the article pending review when a pull request opens', async () => {
+      mockArticlesModel.articles$.next([
+        mockArticle({ id: 'a1', status: 'draft' }),
+      ]);
+      mockApi.post.mockReturnValue(
+        apiSuccess({
+          wasUpdate: false,
+          filePath: 'content/test.md',
+          pullRequest: {
+            number: 7,
+            url: 'https://github.com/testuser/test-repo/pull/7',
+          },
+        })
+      );
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.publishArticle('a1');
+        })
+      );
+
+      const [updated] = mockArticlesModel.articles$.getValue();
+      expect(updated.status).toBe('pending_review');
+      expect(updated.pullRequestUrl).toBe(
+        'https://github.com/testuser/test-repo/pull/7'
+      );
+    });
+  });
+
+  describe('scheduled publishing', () => {
+    const publishAt = new Date('2030-01-01T09:00:00Z');
+
+    it('should save and schedule the open article', async () => {
+      const article = mockArticle({ id: 'a1' });
+      const scheduled = mockArticle({
+        id: 'a1',
+        publishedAt: publishAt.toISOString(),
+        scheduledAt: publishAt.toISOString(),
+      });
+      mockArticlesModel.currentArticle$.next(article);
+      mockArticlesModel.articles$.next([article]);
+      mockApi.put.mockReturnValue(apiSuccess({ article }));
+      mockApi.post.mockReturnValue(apiSuccess({ article: scheduled }));
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.scheduleCurrentArticle(publishAt);
+        })
+      );
+
+      expect(mockApi.put).toHaveBeenCalledWith(
+        '/articles/a1',
+        expect.anything()
+      );
+      expect(mockApi.post).toHaveBeenCalledWith('/articles/a1/schedule', {
+        publishAt: '2030-01-01T09:00:00.000Z',
+      });
+      expect(mockArticlesModel.articles$.getValue()[0].scheduledAt).toBe(
+        publishAt.toISOString()
+      );
+      expect(mockArticlesModel.currentArticle$.getValue()).toEqual(scheduled);
+      expect(mockArticlesModel.editing$.getValue().publishedAt).toBe(
+        publishAt.toISOString()
+      );
+    });
+
+    it('should cancel a scheduled publish', async () => {
+      mockArticlesModel.articles$.next([
+        mockArticle({ id: 'a1', scheduledAt: publishAt.toISOString() }),
+      ]);
+      mockApi.del.mockReturnValue(
+        apiSuccess({ article: mockArticle({ id: 'a1', scheduledAt: null }) })
+      );
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.cancelSchedule('a1');
+        })
+      );
+
+      expect(mockApi.del).toHaveBeenCalledWith('/articles/a1/schedule');
+      expect(mockArticlesModel.articles$.getValue()[0].scheduledAt).toBe(null);
+    });
+  });
+
+  describe('searchArticles', () => {
+    it('should pass the query and filters to the search route', async () => {
+      const results = [
+        {
+          id: 'a1',
+          title: 'Install',
+          slug: 'install',
+          status: 'published',
+          tags: null,
+          publishedAt: null,
+          titleHighlights: [{ text: 'Install', highlighted: true }],
+          snippet: [],
+          matches: ['install'],
+        },
+      ];
+      mockApi.get.mockReturnValue(apiSuccess({ results }));
+
+      const returned = await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          return yield* service.searchArticles('site-1', {
+            query: '"install linux"',
+            status: 'draft',
+            tag: 'guides',
+          });
+        })
+      );
+
+      expect(mockApi.get).toHaveBeenCalledWith(
+        '/sites/site-1/articles/search?q=%22install+linux%22&status=draft&tag=guides'
+      );
+      expect(returned).toEqual(results);
+    });
+  });
+
+  describe('bulk actions', () => {
+    it('should run the action and refresh the list', async () => {
+      const results = [
+        { articleId: 'a1', success: true, error: null },
+        { articleId: 'a2', success: false, error: 'Article not found' },
+      ];
+      mockApi.post.mockReturnValue(apiSuccess({ results }));
+      mockApi.get.mockReturnValue(apiSuccess({ articles: [] }));
+
+      const returned = await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          return yield* service.runBulkAction('site-1', ['a1', 'a2'], {
+            kind: 'tags',
+            add: ['news'],
+            remove: [],
+          });
+        })
+      );
+
+      expect(mockApi.post).toHaveBeenCalledWith(
+        '/sites/site-1/articles/bulk/tags',
+        { articleIds: ['a1', 'a2'], add: ['news'], remove: [] }
+      );
+      expect(mockApi.get).toHaveBeenCalledWith('/sites/site-1/articles');
+      expect(returned).toEqual(results);
+    });
+
+    it('should send large selections in batches the API accepts', async () => {
+      const ids = Array.from({ length: 150 }, (_, index) => `a${index}`);
+      mockApi.post.mockImplementation((_path, body) =>
+        apiSuccess({
+          results: (body as { articleIds: string[] }).articleIds.map(
+            (articleId) => ({ articleId, success: true, error: null })
+          ),
+        })
+      );
+      mockApi.get.mockReturnValue(apiSuccess({ articles: [] }));
+
+      const returned = await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          return yield* service.runBulkAction('site-1', ids, {
+            kind: 'publish',
+          });
+        })
+      );
+
+      expect(mockApi.post).toHaveBeenCalledTimes(2);
+      expect(mockApi.post).toHaveBeenNthCalledWith(
+        1,
+        '/sites/site-1/articles/bulk/publish',
+        { articleIds: ids.slice(0, 100) }
+      );
+      expect(mockApi.post).toHaveBeenNthCalledWith(
+        2,
+        '/sites/site-1/articles/bulk/publish',
+        { articleIds: ids.slice(100) }
+      );
+      expect(returned?.map((result) => result.articleId)).toEqual(ids);
+    });
+
+    it('should close the open article once it is deleted', async () => {
+      mockArticlesModel.currentArticle$.next(mockArticle({ id: 'a1' }));
+      mockApi.post.mockReturnValue(
+        apiSuccess({
+          results: [{ articleId: 'a1', success: true, error: null }],
+        })
+      );
+      mockApi.get.mockReturnValue(apiSuccess({ articles: [] }));
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.runBulkAction('site-1', ['a1'], { kind: 'delete' });
+        })
+      );
+
+      expect(mockArticlesModel.currentArticle$.getValue()).toBeNull();
+    });
+
+    it('should return null when the request fails', async () => {
+      mockApi.post.mockReturnValue(apiError(403, 'Access denied'));
+
+      const returned = await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          return yield* service.runBulkAction('site-1', ['a1'], {
+            kind: 'publish',
+          });
+        })
+      );
+
+      expect(returned).toBeNull();
+      expect(mockApi.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publish conflicts', () => {
+    const conflict = {
+      remoteSha: 'remote-sha',
+      base: 'Hello',
+      local: 'Hello, mine',
+      remote: 'Hello, theirs',
+    };
+
+    it('should open the conflict when the repository changed', async () => {
+      mockApi.post.mockReturnValue(apiError(409, 'Modified in the repository'));
+      mockApi.get.mockReturnValue(apiSuccess({ conflict }));
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.publishArticle('a1');
+        })
+      );
+
+      expect(mockApi.get).toHaveBeenCalledWith('/articles/a1/conflict');
+      expect(mockArticlesModel.conflict$.getValue()).toEqual({
+        articleId: 'a1',
+        ...conflict,
+      });
+    });
+
+    it('should publish the merge on top of the remote version', async () => {
+      mockArticlesModel.articles$.next([
+        mockArticle({ id: 'a1', status: 'published' }),
+      ]);
+      mockArticlesModel.conflict$.next({ articleId: 'a1', ...conflict });
+      mockApi.post.mockReturnValue(
+        apiSuccess({
+          article: mockArticle({ id: 'a1', content: 'Hello, merged' }),
+          wasUpdate: true,
+        })
+      );
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.resolveConflict('Hello, merged');
+        })
+      );
+
+      expect(mockApi.post).toHaveBeenCalledWith(
+        '/articles/a1/conflict/resolve',
+        { markdown: 'Hello, merged', remoteSha: 'remote-sha' }
+      );
+      expect(mockArticlesModel.conflict$.getValue()).toBe(null);
+      expect(mockArticlesModel.articles$.getValue()[0].content).toBe(
+        'Hello, merged'
+      );
+      expect(mockArticlesModel.publishingId$.getValue()).toBe(null);
+    });
+
+    it('should reload the conflict when the repository moved again', async () => {
+      mockArticlesModel.conflict$.next({ articleId: 'a1', ...conflict });
+      mockApi.post.mockReturnValue(apiError(409, 'Changed again'));
+      mockApi.get.mockReturnValue(
+        apiSuccess({ conflict: { ...conflict, remoteSha: 'newer-sha' } })
+      );
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.resolveConflict('Hello, merged');
+        })
+      );
+
+      expect(mockArticlesModel.conflict$.getValue()?.remoteSha).toBe(
+        'newer-sha'
+      );
+    });
+  });
+
+  describe('article history', () => {
+    const version = {
+      commitSha: 'commit-1',
+      title: 'Old Title',
+      content: '# Old content',
+      excerpt: 'Old excerpt',
+      tags: 'old',
+    };
+
+    it('should fetch the commits of the current article', async () => {
+      mockArticlesModel.currentArticle$.next(mockArticle({ id: 'a1' }));
+      const commits = [
+        {
+          sha: 'commit-1',
+          message: 'Publish article',
+          authorName: 'Test User',
+          authorDate: '2024-01-01T00:00:00Z',
+          url: null,
+        },
+      ];
+      mockApi.get.mockReturnValue(
+        apiSuccess({ filePath: 'content/a1.md', commits })
+      );
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.fetchHistory();
+        })
+      );
+
+      expect(mockApi.get).toHaveBeenCalledWith('/articles/a1/history');
+      expect(mockArticlesModel.history$.getValue()).toEqual(commits);
+      expect(mockArticlesModel.historyLoading$.getValue()).toBe(false);
+    });
+
+    it('should open a version of the current article', async () => {
+      mockArticlesModel.currentArticle$.next(mockArticle({ id: 'a1' }));
+      mockApi.get.mockReturnValue(apiSuccess({ version }));
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.viewVersion('commit-1');
+        })
+      );
+
+      expect(mockApi.get).toHaveBeenCalledWith('/articles/a1/history/commit-1');
+      expect(mockArticlesModel.viewedVersion$.getValue()).toEqual(version);
+    });
+
+    it('should restore the viewed version into the editing state', async () => {
+      mockArticlesModel.editing$.next({
+        ...mockArticlesModel.editing$.getValue(),
+        title: 'New Title',
+        slug: 'new-title',
+        content: '# New content',
+      });
+      mockArticlesModel.viewedVersion$.next(version);
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.restoreVersion();
+        })
+      );
+
+      expect(mockArticlesModel.editing$.getValue()).toMatchObject({
+        title: 'Old Title',
+        slug: 'new-title',
+        content: '# Old content',
+        excerpt: 'Old excerpt',
+        tags: 'old',
+      });
+      expect(mockArticlesModel.viewedVersion$.getValue()).toBe(null);
+    });
+  });
+
+  describe('article revisions', () => {
+    const revision = {
+      id: 'r1',
+      articleId: 'a1',
+      kind: 'autosave' as const,
+      label: null,
+      title: 'Old Title',
+      slug: 'test-article',
+      content: '# Old content',
+      excerpt: 'Old excerpt',
+      tags: 'old',
+      contentHash: 'hash',
+      createdAt: '2024-01-01T00:00:00Z',
+    };
+
+    it('should save a labelled version and list it first', async () => {
+      const article = mockArticle({ id: 'a1' });
+      mockArticlesModel.currentArticle$.next(article);
+      mockArticlesModel.revisions$.next([]);
+      mockApi.put.mockReturnValue(apiSuccess({ article }));
+      mockApi.post.mockReturnValue(
+        apiSuccess({
+          revision: { ...revision, kind: 'manual', label: 'First draft' },
+        })
+      );
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.saveRevision('First draft');
+        })
+      );
+
+      expect(mockApi.put).toHaveBeenCalledWith(
+        '/articles/a1',
+        expect.anything()
+      );
+      expect(mockApi.post).toHaveBeenCalledWith('/articles/a1/revisions', {
+        label: 'First draft',
+      });
+      expect(mockArticlesModel.revisions$.getValue()).toEqual([
+        expect.objectContaining({ id: 'r1', label: 'First draft' }),
+      ]);
+      expect(mockArticlesModel.revisions$.getValue()?.[0]).not.toHaveProperty(
+        'content'
+      );
+    });
+
+    it('should open a revision with its changes', async () => {
+      mockArticlesModel.currentArticle$.next(mockArticle({ id: 'a1' }));
+      const hunks = [
+        { kind: 'change', removed: ['# Old content'], added: ['# New'] },
+      ];
+      mockApi.get.mockImplementation((path: string) =>
+        path.endsWith('/diff')
+          ? apiSuccess({ diff: { titleChanged: true, hunks } })
+          : apiSuccess({ revision })
+      );
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.viewRevision('r1');
+        })
+      );
+
+      expect(mockApi.get).toHaveBeenCalledWith('/articles/a1/revisions/r1');
+      expect(mockApi.get).toHaveBeenCalledWith(
+        '/articles/a1/revisions/r1/diff'
+      );
+      expect(mockArticlesModel.viewedRevision$.getValue()).toEqual({
+        revision,
+        titleChanged: true,
+        hunks,
+      });
+    });
+
+    it('should restore the viewed revision', async () => {
+      const restored = mockArticle({
+        id: 'a1',
+        title: 'Old Title',
+        content: '# Old content',
+        excerpt: 'Old excerpt',
+        tags: 'old',
+      });
+      mockArticlesModel.currentArticle$.next(mockArticle({ id: 'a1' }));
+      mockArticlesModel.viewedRevision$.next({
+        revision,
+        titleChanged: true,
+        hunks: [],
+      });
+      mockApi.post.mockReturnValue(apiSuccess({ article: restored }));
+      mockApi.get.mockReturnValue(apiSuccess({ revisions: [revision] }));
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* ArticleService;
+          yield* service.restoreRevision();
+        })
+      );
+
+      expect(mockApi.post).toHaveBeenCalledWith(
+        '/articles/a1/revisions/r1/restore'
+      );
+      expect(mockArticlesModel.currentArticle$.getValue()).toEqual(restored);
+      expect(mockArticlesModel.editing$.getValue()).toMatchObject({
+        title: 'Old Title',
+        content: '# Old content',
+        excerpt: 'Old excerpt',
+        tags: 'old',
+      });
+      expect(mockArticlesModel.viewedRevision$.getValue()).toBe(null);
+      expect(mockArticlesModel.revisions$.getValue()).toEqual([revision]);
+    });
   });
 
   describe('openArticle', () => {
@@ -579,11 +1112,13 @@ describe('ArticleService', () => {
       await testRuntime.runPromise(
         Effect.gen(function* () {
           const service = yield* ArticleService;
-          yield* service.publishCurrentArticle();
+          yield* service.publishCurrentArticle('Fix typo');
         })
       );
 
-      expect(mockApi.post).toHaveBeenCalledWith('/articles/a1/publish');
+      expect(mockApi.post).toHaveBeenCalledWith('/articles/a1/publish', {
+        message: 'Fix typo',
+      });
       expect(mockArticlesModel.editing$.getValue().status).toBe('published');
     });
 
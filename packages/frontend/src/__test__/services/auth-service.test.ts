@@ -127,6 +127,72 @@ describe('AuthService', () => {
         'http://localhost:3001/auth/github'
       );
     });
+
+    it('should navigate to the requested platform', async () => {
+      mockApi.buildUrl.mockReturnValue('http://localhost:3001/auth/gitlab');
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* AuthService;
+          yield* service.login('gitlab');
+        })
+      );
+
+      expect(mockApi.buildUrl).toHaveBeenCalledWith('/auth/gitlab');
+      expect(mockNav.navigate).toHaveBeenCalledWith(
+        'http://localhost:3001/auth/gitlab'
+      );
+    });
+  });
+
+  describe('fetchProviders', () => {
+    it('should store the enabled providers', async () => {
+      mockApi.get.mockReturnValue(
+        apiSuccess({ providers: ['github', 'gitlab'] })
+      );
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* AuthService;
+          const providers = yield* service.fetchProviders();
+          expect(providers).toEqual(['github', 'gitlab']);
+        })
+      );
+
+      expect(mockApi.get).toHaveBeenCalledWith('/auth/providers');
+      expect(mockAuthModel.providers$.getValue()).toEqual(['github', 'gitlab']);
+      expect(mockAuthModel.githubApp$.getValue()).toBe(false);
+    });
+
+    it('should record whether the GitHub App can be installed', async () => {
+      mockApi.get.mockReturnValue(
+        apiSuccess({ providers: ['github'], githubApp: true })
+      );
+
+      await testRuntime.runPromise(
+        Effect.flatMap(AuthService, (service) => service.fetchProviders())
+      );
+
+      expect(mockAuthModel.githubApp$.getValue()).toBe(true);
+    });
+
+    it('should keep the GitHub default when the request fails', async () => {
+      mockApi.get.mockReturnValue(
+        Effect.fail({
+          _tag: 'ApiError',
+          status: 500,
+          message: 'Server error',
+        })
+      );
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* AuthService;
+          const providers = yield* service.fetchProviders();
+          expect(providers).toEqual(['github']);
+        })
+      );
+    });
   });
 
   describe('logout', () => {
@@ -175,4 +241,28 @@ describe('AuthService', () => {
       expect(mockNav.navigate).toHaveBeenCalledWith('/');
     });
   });
+
+  describe('updateCommitIdentity', () => {
+    it('should save the identity and update the current user', async () => {
+      mockAuthModel.authState$.next({
+        status: 'authenticated',
+        user: mockUser(),
+        error: null,
+      });
+      const identity = {
+        commitName: 'Jane Doe',
+        commitEmail: 'jane@example.com',
+      };
+      mockApi.put.mockReturnValue(apiSuccess({ user: identity }));
+
+      await testRuntime.runPromise(
+        Effect.flatMap(AuthService, (service) =>
+          service.updateCommitIdentity(identity)
+        )
+      );
+
+      expect(mockApi.put).toHaveBeenCalledWith('/auth/me', identity);
+      expect(mockAuthModel.authState$.getValue().user).toMatchObject(identity);
+    });
+  });
 });
@@ -23,6 +23,7 @@ const mockMediaItem = (overrides?: Partial<MediaItem>): MediaItem => ({
   filePath: 'assets/images/photo.png',
   fileSize: '1024',
   mimeType: 'image/png',
+  url: 'https://raw.githubusercontent.com/user/repo/main/assets/images/photo.png',
   alt: null,
   createdAt: '2026-01-01T00:00:00Z',
   ...overrides,
@@ -421,7 +421,7 @@ describe('SiteService', () => {
 
       expect(result).toEqual(config);
       expect(mockApi.get).toHaveBeenCalledWith(
-        '/sites/repo-config?repo=user%2Fmy-blog'
+        '/sites/repo-config?repo=user%2Fmy-blog&platform=github'
       );
     });
 
@@ -452,6 +452,157 @@ describe('SiteService', () => {
     });
   });
 
+  describe('applyTemplateUpgrade', () => {
+    it('should send the decisions and refresh sites', async () => {
+      const upgrade = {
+        version: 'templatesha2',
+        commitSha: 'commit-1',
+        filesChanged: ['build/index.js'],
+      };
+      mockApi.post.mockReturnValue(apiSuccess(upgrade));
+      mockApi.get.mockReturnValue(
+        apiSuccess({
+          sites: [],
+          total: 0,
+          page: 1,
+          limit: 20,
+          totalPages: 0,
+        })
+      );
+
+      const files = [
+        { path: 'build/index.js', action: 'replace' as const },
+        {
+          path: 'templates/layout.html',
+          action: 'merge' as const,
+          content: '<main></main>',
+        },
+      ];
+      const result = await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* SiteService;
+          return yield* service.applyTemplateUpgrade(
+            'site-1',
+            'templatesha2',
+            files
+          );
+        })
+      );
+
+      expect(result).toEqual(upgrade);
+      expect(mockApi.post).toHaveBeenCalledWith(
+        '/sites/site-1/template-upgrade',
+        { version: 'templatesha2', files }
+      );
+      expect(mockApi.get).toHaveBeenCalledWith('/sites?page=1&limit=20');
+    });
+
+    it('should return undefined when the template changed', async () => {
+      mockApi.post.mockReturnValue(
+        apiError(409, 'The template changed since the upgrade was previewed')
+      );
+
+      const result = await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* SiteService;
+          return yield* service.applyTemplateUpgrade('site-1', 'stale', []);
+        })
+      );
+
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe('fetchTemplates', () => {
+    it('should return the templates for a platform', async () => {
+      const templates = [
+        {
+          id: 'template-1',
+          platform: 'github',
+          repo: 'acme/inland-template-docs',
+          name: 'Docs',
+          description: null,
+          previewUrl: null,
+          version: 'templatesha1',
+        },
+      ];
+      mockApi.get.mockReturnValue(apiSuccess({ templates }));
+
+      const result = await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* SiteService;
+          return yield* service.fetchTemplates('github');
+        })
+      );
+
+      expect(result).toEqual(templates);
+      expect(mockApi.get).toHaveBeenCalledWith('/templates?platform=github');
+    });
+
+    it('should return an empty list on error', async () => {
+      mockApi.get.mockReturnValue(apiError(500, 'Server error'));
+
+      const result = await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* SiteService;
+          return yield* service.fetchTemplates('gitlab');
+        })
+      );
+
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('refreshDeployment', () => {
+    it('should update the deploy status of the site', async () => {
+      mockSitesModel.sites$.next([
+        mockSite({ id: 's1', deployStatus: 'building' }),
+        mockSite({ id: 's2', deployStatus: 'building' }),
+      ]);
+      mockApi.get.mockReturnValue(
+        apiSuccess({
+          status: 'deployed',
+          commitSha: 'commit-1',
+          runUrl: 'https://github.com/testuser/test-site/actions/runs/1',
+          startedAt: '2026-01-01T00:00:00.000Z',
+          duration: 90,
+        })
+      );
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* SiteService;
+          yield* service.refreshDeployment('s1');
+        })
+      );
+
+      expect(mockApi.get).toHaveBeenCalledWith('/sites/s1/deployment');
+      const [first, second] = mockSitesModel.sites$.getValue();
+      expect(first).toMatchObject({
+        deployStatus: 'deployed',
+        deployRunUrl: 'https://github.com/testuser/test-site/actions/runs/1',
+        deployDuration: 90,
+      });
+      expect(second.deployStatus).toBe('building');
+    });
+
+    it('should keep the last known status on error', async () => {
+      const sites = [mockSite({ id: 's1', deployStatus: 'building' })];
+      mockSitesModel.sites$.next(sites);
+      mockApi.get.mockReturnValue(apiError(500, 'Server error'));
+
+      await testRuntime.runPromise(
+        Effect.gen(function* () {
+          const service = yield* SiteService;
+          yield* service.refreshDeployment('s1');
+        })
+      );
+
+      expect(mockSitesModel.sites$.getValue()).toEqual(sites);
+      expect(mockSitesModel.error$.getValue()).toBeNull();
+    });
+  });
+
   describe('forceSyncSite', () => {
     it('should force sync and return result', async () => {
       mockApi.post.mockReturnValue(
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+
+import { applyMerge, mergeLines } from '@/utils/three-way-merge';
+
+describe('mergeLines', () => {
+  const base = 'title\n\nintro\nbody\noutro';
+
+  it('should keep changes only one side made', () => {
+    const hunks = mergeLines(
+      base,
+      'title\n\nintro\nbody, edited here\noutro',
+      'title fixed\n\nintro\nbody\noutro'
+    );
+
+    expect(hunks).toMatchObject([
+      { kind: 'change', changedBy: 'remote', remote: ['title fixed'] },
+      { kind: 'same', lines: ['', 'intro'] },
+      { kind: 'change', changedBy: 'local', local: ['body, edited here'] },
+      { kind: 'same', lines: ['outro'] },
+    ]);
+    expect(applyMerge(hunks, {})).toBe(
+      'title fixed\n\nintro\nbody, edited here\noutro'
+    );
+  });
+
+  it('should flag lines both sides changed differently', () => {
+    const hunks = mergeLines(
+      base,
+      'title\n\nintro\nmy body\noutro',
+      'title\n\nintro\ntheir body\noutro'
+    );
+
+    expect(hunks[1]).toEqual({
+      kind: 'change',
+      changedBy: 'both',
+      base: ['body'],
+      local: ['my body'],
+      remote: ['their body'],
+    });
+    expect(applyMerge(hunks, { 1: 'remote' })).toBe(
+      'title\n\nintro\ntheir body\noutro'
+    );
+  });
+
+  it('should treat identical edits on both sides as unchanged', () => {
+    const edited = 'title\n\nintro\nbody fixed\noutro';
+
+    expect(mergeLines(base, edited, edited)).toEqual([
+      { kind: 'same', lines: edited.split('\n') },
+    ]);
+  });
+
+  it('should merge long files edited in a few places', () => {
+    const lines = Array.from({ length: 20000 }, (_, i) => `line ${i}`);
+    const edit = (index: number, text: string) =>
+      lines.map((line, i) => (i === index ? text : line)).join('\n');
+
+    const hunks = mergeLines(
+      lines.join('\n'),
+      edit(100, 'local edit'),
+      edit(19900, 'remote edit')
+    );
+
+    expect(hunks.filter((hunk) => hunk.kind === 'change')).toMatchObject([
+      { changedBy: 'local', local: ['local edit'] },
+      { changedBy: 'remote', remote: ['remote edit'] },
+    ]);
+  });
+
+  it('should ask about every difference without a base', () => {
+    const hunks = mergeLines(null, 'a\nmine\nc', 'a\nc\ntheirs');
+
+    expect(
+      hunks.filter((hunk) => hunk.kind === 'change').map((h) => h.changedBy)
+    ).toEqual(['both', 'both']);
+    expect(applyMerge(hunks, { 1: 'local', 3: 'remote' })).toBe(
+      'a\nmine\nc\ntheirs'
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { Effect } from 'effect';
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { type AuthUser, authModel } from '@/model/auth-model';
+import { AuthService } from '@/services/auth';
+import { runEffect } from '@/utils/effect-runtime';
+import { useObservable } from '@/utils/use-observable';
+
+export function CommitIdentityDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const authState = useObservable(authModel.authState$);
+  const user = authState.user;
+
+  if (!user) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Commit Identity</DialogTitle>
+          <DialogDescription>
+            The author of commits Inland makes on your behalf. Leave both empty
+            to commit as the account that owns the repository token.
+          </DialogDescription>
+        </DialogHeader>
+        <CommitIdentityForm
+          key={open ? 'open' : 'closed'}
+          user={user}
+          onSuccess={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CommitIdentityForm({
+  user,
+  onSuccess,
+}: {
+  user: Pick<AuthUser, 'commitName' | 'commitEmail' | 'displayName' | 'email'>;
+  onSuccess: () => void;
+}) {
+  const [form, setForm] = useState({
+    commitName: user.commitName ?? '',
+    commitEmail: user.commitEmail ?? '',
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDirty =
+    form.commitName !== (user.commitName ?? '') ||
+    form.commitEmail !== (user.commitEmail ?? '');
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    runEffect(
+      Effect.flatMap(AuthService, (svc) =>
+        svc.updateCommitIdentity({
+          commitName: form.commitName.trim() || null,
+          commitEmail: form.commitEmail.trim() || null,
+        })
+      )
+    )
+      .then(
+        () => {
+          onSuccess();
+          return undefined;
+        },
+        () => {
+          setError('Failed to update commit identity');
+          return undefined;
+        }
+      )
+      .finally(() => setLoading(false));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 pt-2">
+      <div className="space-y-1.5">
+        <label className="flex flex-col gap-1.5 text-sm font-medium">
+          Name
+          <Input
+            type="text"
+            value={form.commitName}
+            onChange={(e) =>
+              setForm((prev) => ({ ...prev, commitName: e.target.value }))
+            }
+            placeholder={user.displayName ?? 'Jane Doe'}
+            disabled={loading}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-1.5">
+        <label className="flex flex-col gap-1.5 text-sm font-medium">
+          Email
+          <Input
+            type="email"
+            value={form.commitEmail}
+            onChange={(e) =>
+              setForm((prev) => ({ ...prev, commitEmail: e.target.value }))
+            }
+            placeholder={user.email ?? 'jane@example.com'}
+            disabled={loading}
+          />
+        </label>
+      </div>
+
+      {error && <div className="text-sm text-destructive">{error}</div>}
+
+      <Button type="submit" disabled={loading || !isDirty} className="w-full">
+        {loading ? 'Saving...' : 'Save Changes'}
+      </Button>
+    </form>
+  );
+}
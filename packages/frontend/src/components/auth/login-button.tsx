@@ -1,17 +1,22 @@
 import { Effect } from 'effect';
 
 import { Button } from '@/components/ui/button';
+import { PLATFORM_LABELS, type GitPlatform } from '@/model/auth-model';
 import { AuthService } from '@/services/auth';
 import { runEffect } from '@/utils/effect-runtime';
 
-export const LoginButton = () => {
+export const LoginButton = ({
+  platform = 'github',
+}: {
+  platform?: GitPlatform;
+}) => {
   return (
     <Button
       onClick={() =>
-        void runEffect(Effect.flatMap(AuthService, (s) => s.login()))
+        void runEffect(Effect.flatMap(AuthService, (s) => s.login(platform)))
       }
     >
-      Login with GitHub
+      Login with {PLATFORM_LABELS[platform]}
     </Button>
   );
 };
@@ -33,6 +33,7 @@ export function ConfirmDialog() {
           <DialogTitle>{state.options.title}</DialogTitle>
           <DialogDescription>{state.options.description}</DialogDescription>
         </DialogHeader>
+        {state.options.content}
         <DialogFooter>
           <DialogClose render={<Button variant="outline" />}>
             {state.options.cancelText ?? 'Cancel'}
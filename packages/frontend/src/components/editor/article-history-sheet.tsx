@@ -0,0 +1,402 @@
+import { Effect } from 'effect';
+import { useEffect, useState } from 'react';
+
+import { MarkdownViewer } from '@/components/editor/markdown-viewer';
+import { LineDiff } from '@/components/line-diff';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  type ArticleCommit,
+  type ArticleRevisionKind,
+  type ArticleRevisionSummary,
+  articlesModel,
+} from '@/model/articles-model';
+import { ArticleService } from '@/services/article';
+import { EditorService } from '@/services/editor';
+import { runEffect } from '@/utils/effect-runtime';
+import { useObservable } from '@/utils/use-observable';
+
+function formatCommitDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+function formatRevisionTime(date: string): string {
+  return new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+const REVISION_KIND_LABELS: Record<ArticleRevisionKind, string> = {
+  autosave: 'Auto-saved',
+  manual: 'Saved version',
+  publish: 'Published',
+};
+
+// Versions the CMS kept, which drafts have too, and the commits of articles
+// that reached the repository
+export function ArticleHistorySheet({
+  open,
+  onOpenChange,
+  gitSynced,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  gitSynced: boolean;
+}) {
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent>
+          <SheetHeader>
+            <SheetTitle>History</SheetTitle>
+            <SheetDescription>
+              Restore an earlier version of this article.
+            </SheetDescription>
+          </SheetHeader>
+          <Tabs defaultValue="versions" className="flex-1 overflow-hidden px-4">
+            {gitSynced && (
+              <TabsList className="w-full">
+                <TabsTrigger value="versions">Versions</TabsTrigger>
+                <TabsTrigger value="commits">Commits</TabsTrigger>
+              </TabsList>
+            )}
+            <TabsContent value="versions" className="overflow-y-auto pb-4">
+              {open && <RevisionList />}
+            </TabsContent>
+            {gitSynced && (
+              <TabsContent value="commits" className="overflow-y-auto pb-4">
+                {open && <CommitList />}
+              </TabsContent>
+            )}
+          </Tabs>
+        </SheetContent>
+      </Sheet>
+      <RevisionDialog />
+      <VersionDialog />
+    </>
+  );
+}
+
+// Mounted while the sheet is open, so every opening loads afresh
+function RevisionList() {
+  const revisions = useObservable(articlesModel.revisions$);
+  const revisionsLoading = useObservable(articlesModel.revisionsLoading$);
+  const [label, setLabel] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    void runEffect(
+      Effect.flatMap(ArticleService, (svc) => svc.fetchRevisions())
+    );
+  }, []);
+
+  const handleSave = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+    runEffect(
+      Effect.flatMap(ArticleService, (svc) =>
+        svc.saveRevision(label.trim() || undefined)
+      )
+    )
+      .then(
+        () => setLabel(''),
+        () => undefined
+      )
+      .finally(() => setSaving(false));
+  };
+
+  const handleView = (revisionId: string) => {
+    void runEffect(
+      Effect.flatMap(ArticleService, (svc) => svc.viewRevision(revisionId))
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={handleSave} className="flex gap-2">
+        <Input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Version name (optional)"
+          maxLength={200}
+          disabled={saving}
+        />
+        <Button type="submit" variant="outline" disabled={saving}>
+          {saving ? 'Saving...' : 'Save version'}
+        </Button>
+      </form>
+      {revisionsLoading && !revisions ? (
+        <p className="text-muted-foreground">Loading versions...</p>
+      ) : revisions && revisions.length > 0 ? (
+        <ul className="space-y-1">
+          {revisions.map((revision) => (
+            <RevisionRow
+              key={revision.id}
+              revision={revision}
+              onView={() => handleView(revision.id)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-muted-foreground">
+          No versions yet. Versions are kept as you edit, publish or save them.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function RevisionRow({
+  revision,
+  onView,
+}: {
+  revision: ArticleRevisionSummary;
+  onView: () => void;
+}) {
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={onView}
+        className="w-full rounded-sm px-2 py-1.5 text-left hover:bg-muted/50"
+      >
+        <span className="block truncate">
+          {revision.label ?? revision.title}
+        </span>
+        <span className="block text-xs text-muted-foreground">
+          {REVISION_KIND_LABELS[revision.kind]} ·{' '}
+          {formatRevisionTime(revision.createdAt)}
+        </span>
+      </button>
+    </li>
+  );
+}
+
+function CommitList() {
+  const history = useObservable(articlesModel.history$);
+  const historyLoading = useObservable(articlesModel.historyLoading$);
+
+  useEffect(() => {
+    void runEffect(Effect.flatMap(ArticleService, (svc) => svc.fetchHistory()));
+  }, []);
+
+  const handleView = (sha: string) => {
+    void runEffect(
+      Effect.flatMap(ArticleService, (svc) => svc.viewVersion(sha))
+    );
+  };
+
+  if (historyLoading && !history) {
+    return <p className="text-muted-foreground">Loading history...</p>;
+  }
+  if (!history || history.length === 0) {
+    return <p className="text-muted-foreground">No commits found.</p>;
+  }
+  return (
+    <ul className="space-y-1">
+      {history.map((commit) => (
+        <CommitRow
+          key={commit.sha}
+          commit={commit}
+          onView={() => handleView(commit.sha)}
+        />
+      ))}
+    </ul>
+  );
+}
+
+function CommitRow({
+  commit,
+  onView,
+}: {
+  commit: ArticleCommit;
+  onView: () => void;
+}) {
+  const summary = commit.message.split('\n')[0];
+
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={onView}
+        className="w-full rounded-sm px-2 py-1.5 text-left hover:bg-muted/50"
+      >
+        <span className="block truncate">{summary}</span>
+        <span className="block text-xs text-muted-foreground">
+          {commit.authorName} · {formatCommitDate(commit.authorDate)} ·{' '}
+          <code>{commit.sha.slice(0, 7)}</code>
+        </span>
+      </button>
+    </li>
+  );
+}
+
+function RevisionDialog() {
+  const viewed = useObservable(articlesModel.viewedRevision$);
+  const [restoring, setRestoring] = useState(false);
+  const revision = viewed?.revision;
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    void runEffect(
+      Effect.flatMap(ArticleService, (svc) => svc.closeRevision())
+    );
+  };
+
+  const handleRestore = () => {
+    if (!revision) return;
+    setRestoring(true);
+    // The editor reports its content back, so it has to be replaced there
+    runEffect(
+      Effect.gen(function* () {
+        const articleService = yield* ArticleService;
+        const editorService = yield* EditorService;
+        yield* articleService.restoreRevision();
+        // The dialog stays open when the restore failed
+        if (articlesModel.viewedRevision$.getValue() === null) {
+          yield* editorService.replaceContent(revision.content);
+        }
+      })
+    )
+      .catch(() => undefined)
+      .finally(() => setRestoring(false));
+  };
+
+  return (
+    <Dialog open={viewed !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{revision?.title || 'Untitled'}</DialogTitle>
+          <DialogDescription>
+            {revision &&
+              [
+                revision.label,
+                REVISION_KIND_LABELS[revision.kind],
+                formatRevisionTime(revision.createdAt),
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+          </DialogDescription>
+        </DialogHeader>
+        {viewed && (
+          <Tabs defaultValue="changes">
+            <TabsList>
+              <TabsTrigger value="changes">Changes since</TabsTrigger>
+              <TabsTrigger value="content">Content</TabsTrigger>
+            </TabsList>
+            <TabsContent value="changes" className="space-y-2">
+              {viewed.titleChanged && (
+                <p className="text-sm text-muted-foreground">
+                  The title has changed since this version.
+                </p>
+              )}
+              <LineDiff hunks={viewed.hunks} />
+            </TabsContent>
+            <TabsContent value="content">
+              <MarkdownViewer
+                markdown={viewed.revision.content}
+                className="max-h-[60vh] overflow-y-auto rounded-md border"
+              />
+            </TabsContent>
+          </Tabs>
+        )}
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={restoring}
+          >
+            Close
+          </Button>
+          <Button onClick={handleRestore} disabled={restoring}>
+            {restoring ? 'Restoring...' : 'Restore this version'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function VersionDialog() {
+  const version = useObservable(articlesModel.viewedVersion$);
+  const history = useObservable(articlesModel.history$);
+  const commit = history?.find((c) => c.sha === version?.commitSha);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    void runEffect(Effect.flatMap(ArticleService, (svc) => svc.closeVersion()));
+  };
+
+  const handleRestore = () => {
+    if (!version) return;
+    // The editor reports its content back, so it has to be replaced there
+    void runEffect(
+      Effect.gen(function* () {
+        const articleService = yield* ArticleService;
+        const editorService = yield* EditorService;
+        yield* articleService.restoreVersion();
+        yield* editorService.replaceContent(version.content);
+      })
+    );
+  };
+
+  return (
+    <Dialog open={version !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{version?.title || 'Untitled'}</DialogTitle>
+          <DialogDescription>
+            {commit
+              ? `${commit.message.split('\n')[0]} — ${commit.authorName}, ${formatCommitDate(commit.authorDate)}`
+              : version?.commitSha.slice(0, 7)}
+          </DialogDescription>
+        </DialogHeader>
+        {version && (
+          <MarkdownViewer
+            markdown={version.content}
+            className="max-h-[60vh] overflow-y-auto rounded-md border"
+          />
+        )}
+        <DialogFooter>
+          {commit?.url && (
+            <a
+              href={commit.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="mr-auto self-center text-sm text-primary hover:underline"
+            >
+              View commit
+            </a>
+          )}
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleRestore}>Restore as draft</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
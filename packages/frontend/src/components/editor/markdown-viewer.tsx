@@ -0,0 +1,34 @@
+import { Crepe } from '@milkdown/crepe';
+import { useEffect, useRef } from 'react';
+
+import { logger } from '@/utils/logger';
+
+// Renders markdown with the editor's look, without letting it be edited
+export function MarkdownViewer({
+  markdown,
+  className,
+}: {
+  markdown: string;
+  className?: string;
+}) {
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    const crepe = new Crepe({ root, defaultValue: markdown });
+    crepe.setReadonly(true);
+    crepe.create().catch((error: unknown) => {
+      logger.error(error, 'Failed to create markdown viewer');
+    });
+
+    return () => {
+      crepe.destroy().catch((error: unknown) => {
+        logger.error(error, 'Failed to destroy markdown viewer');
+      });
+    };
+  }, [markdown]);
+
+  return <div ref={rootRef} className={className} />;
+}
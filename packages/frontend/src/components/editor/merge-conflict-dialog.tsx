@@ -0,0 +1,123 @@
+import { Effect } from 'effect';
+import { useMemo, useState } from 'react';
+
+import { type MergeHunkLabels, MergeHunks } from '@/components/merge-hunks';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { type ArticleConflict, articlesModel } from '@/model/articles-model';
+import { ArticleService } from '@/services/article';
+import { runEffect } from '@/utils/effect-runtime';
+import {
+  applyMerge,
+  defaultSide,
+  type MergeSide,
+  mergeLines,
+} from '@/utils/three-way-merge';
+import { useObservable } from '@/utils/use-observable';
+
+const MERGE_LABELS: MergeHunkLabels = {
+  sides: { local: 'Mine', remote: 'Repository' },
+  changedBy: {
+    local: 'Changed here',
+    remote: 'Changed in the repository',
+    both: 'Changed in both places',
+  },
+  accept: { local: 'Accept mine', remote: 'Accept theirs' },
+};
+
+export function MergeConflictDialog() {
+  const conflict = useObservable(articlesModel.conflict$);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    void runEffect(
+      Effect.flatMap(ArticleService, (svc) => svc.closeConflict())
+    );
+  };
+
+  return (
+    <Dialog open={conflict !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Resolve publish conflict</DialogTitle>
+          <DialogDescription>
+            The article changed in the repository since it was last synced. Pick
+            which version to keep for each change, then publish the merge.
+          </DialogDescription>
+        </DialogHeader>
+        {conflict && (
+          <MergeConflictForm key={conflict.remoteSha} conflict={conflict} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MergeConflictForm({ conflict }: { conflict: ArticleConflict }) {
+  const publishingId = useObservable(articlesModel.publishingId$);
+  const hunks = useMemo(
+    () => mergeLines(conflict.base, conflict.local, conflict.remote),
+    [conflict]
+  );
+  const [choices, setChoices] = useState<Record<number, MergeSide>>({});
+
+  const unresolved = hunks.filter(
+    (hunk, index) =>
+      hunk.kind === 'change' &&
+      defaultSide(hunk) === null &&
+      choices[index] === undefined
+  ).length;
+  const publishing = publishingId === conflict.articleId;
+
+  const handlePublish = () => {
+    const markdown = applyMerge(hunks, choices);
+    void runEffect(
+      Effect.flatMap(ArticleService, (svc) => svc.resolveConflict(markdown))
+    );
+  };
+
+  const handleCancel = () => {
+    void runEffect(
+      Effect.flatMap(ArticleService, (svc) => svc.closeConflict())
+    );
+  };
+
+  return (
+    <>
+      <MergeHunks
+        hunks={hunks}
+        choiceAt={(index) => {
+          const hunk = hunks[index];
+          return hunk.kind === 'change'
+            ? (choices[index] ?? defaultSide(hunk))
+            : null;
+        }}
+        onChoose={(index, side) =>
+          setChoices((current) => ({ ...current, [index]: side }))
+        }
+        labels={MERGE_LABELS}
+      />
+      <DialogFooter>
+        {unresolved > 0 && (
+          <span className="mr-auto self-center text-sm text-muted-foreground">
+            {unresolved} {unresolved === 1 ? 'change needs' : 'changes need'} a
+            choice
+          </span>
+        )}
+        <Button variant="outline" onClick={handleCancel}>
+          Cancel
+        </Button>
+        <Button disabled={unresolved > 0 || publishing} onClick={handlePublish}>
+          {publishing ? 'Publishing...' : 'Publish merge'}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
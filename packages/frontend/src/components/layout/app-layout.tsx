@@ -3,6 +3,7 @@ import { Moon, Sun, X } from 'lucide-react';
 import { Outlet, useLocation, useNavigate } from 'react-router';
 
 import { ConfirmDialog } from '@/components/confirm-dialog';
+import { MergeConflictDialog } from '@/components/editor/merge-conflict-dialog';
 import { Button } from '@/components/ui/button';
 import {
   SidebarInset,
@@ -63,6 +64,7 @@ export function AppLayout() {
         </div>
       </SidebarInset>
       <ConfirmDialog />
+      <MergeConflictDialog />
     </SidebarProvider>
   );
 }
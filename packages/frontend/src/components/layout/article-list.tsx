@@ -1,9 +1,17 @@
 import { Effect } from 'effect';
 import {
+  CalendarDays,
+  ChevronRight,
+  Clock,
+  CloudOff,
+  CloudUpload,
   FileText,
+  Folder,
+  FolderOpen,
   MoreHorizontal,
   Plus,
   RefreshCw,
+  Tag,
   Trash2,
   X,
 } from 'lucide-react';
@@ -11,12 +19,15 @@ import { useMemo, useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router';
 
 import { confirm } from '@/components/confirm-dialog';
+import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
 import {
   SidebarGroup,
   SidebarGroupAction,
@@ -28,14 +39,19 @@ import {
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarMenuSkeleton,
+  SidebarMenuSub,
 } from '@/components/ui/sidebar';
+import { cn } from '@/csslib/utils';
 import {
+  type Article,
+  type ArticleFolder,
   articlesModel,
+  buildArticleTree,
   hasUnpublishedChanges,
   parseTags,
 } from '@/model/articles-model';
 import { sitesModel } from '@/model/sites-model';
-import { ArticleService } from '@/services/article';
+import { ArticleService, type BulkArticleAction } from '@/services/article';
 import { SiteService } from '@/services/site';
 import { runEffect } from '@/utils/effect-runtime';
 import { fireAndForget } from '@/utils/fire-and-forget';
@@ -43,6 +59,29 @@ import { useObservable } from '@/utils/use-observable';
 
 const DROPDOWN_CLOSE_DELAY = 150;
 
+// dataTransfer type carrying the id of the article being dragged
+const ARTICLE_DRAG_TYPE = 'application/x-inland-article';
+
+const isArticleDrag = (e: React.DragEvent) =>
+  e.dataTransfer.types.includes(ARTICLE_DRAG_TYPE);
+
+// Article ids in the order the tree shows them, skipping collapsed folders
+const visibleArticleIds = (
+  folder: ArticleFolder,
+  collapsed: ReadonlySet<string>
+): string[] => [
+  ...folder.folders.flatMap((child) =>
+    collapsed.has(child.path) ? [] : visibleArticleIds(child, collapsed)
+  ),
+  ...folder.articles.map((article) => article.id),
+];
+
+const splitTagInput = (value: string) =>
+  value
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
 export function ArticleList() {
   const location = useLocation();
   const navigate = useNavigate();
@@ -51,6 +90,12 @@ export function ArticleList() {
   const selectedTag = useObservable(articlesModel.selectedTag$);
   const selectedSiteId = useObservable(sitesModel.selectedSiteId$);
   const [syncing, setSyncing] = useState(false);
+  const [collapsed, setCollapsed] = useState<ReadonlySet<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [selected, setSelected] = useState<ReadonlySet<string>>(new Set());
+  // Where shift-click ranges start from
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const [bulkRunning, setBulkRunning] = useState(false);
 
   const filteredArticles = useMemo(() => {
     if (!selectedTag) return articles;
@@ -59,6 +104,220 @@ export function ArticleList() {
     );
   }, [articles, selectedTag]);
 
+  const tree = useMemo(
+    () => buildArticleTree(filteredArticles),
+    [filteredArticles]
+  );
+
+  // Only articles the current filter shows stay selected
+  const selectedIds = useMemo(
+    () =>
+      filteredArticles
+        .filter((article) => selected.has(article.id))
+        .map((article) => article.id),
+    [filteredArticles, selected]
+  );
+
+  const handleSelectArticle = (articleId: string, range: boolean) => {
+    const order = visibleArticleIds(tree, collapsed);
+    const from = anchorId ? order.indexOf(anchorId) : -1;
+    const to = order.indexOf(articleId);
+
+    if (range && from !== -1 && to !== -1) {
+      const rangeIds = order.slice(Math.min(from, to), Math.max(from, to) + 1);
+      setSelected((prev) => new Set([...prev, ...rangeIds]));
+      return;
+    }
+
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(articleId)) {
+        next.delete(articleId);
+      } else {
+        next.add(articleId);
+      }
+      return next;
+    });
+    setAnchorId(articleId);
+  };
+
+  const clearSelection = () => {
+    setSelected(new Set());
+    setAnchorId(null);
+  };
+
+  const runBulkAction = (action: BulkArticleAction) => {
+    if (!selectedSiteId || selectedIds.length === 0) return;
+    setBulkRunning(true);
+    void runEffect(
+      Effect.flatMap(ArticleService, (svc) =>
+        svc.runBulkAction(selectedSiteId, selectedIds, action)
+      )
+    )
+      .then(
+        (results) => {
+          if (!results) return undefined;
+          // What failed stays selected to retry or act on otherwise
+          setSelected(
+            new Set(
+              results
+                .filter((result) => !result.success)
+                .map((result) => result.articleId)
+            )
+          );
+          const deletedOpen =
+            action.kind === 'delete' &&
+            results.some(
+              (result) =>
+                result.success &&
+                location.pathname === `/articles/${result.articleId}`
+            );
+          if (deletedOpen) fireAndForget(navigate('/'));
+          return undefined;
+        },
+        () => undefined
+      )
+      .finally(() => setBulkRunning(false));
+  };
+
+  // A filtered list offers to select what it shows before anything is
+  // selected
+  const showSelectionBar =
+    selectedIds.length > 0 ||
+    (Boolean(selectedTag) && filteredArticles.length > 0);
+
+  const selectionLabel = `${selectedIds.length} ${selectedIds.length === 1 ? 'article' : 'articles'}`;
+
+  const handleBulkPublish = (kind: 'publish' | 'unpublish') => {
+    setTimeout(async () => {
+      const confirmed = await confirm({
+        title: kind === 'publish' ? 'Publish articles' : 'Unpublish articles',
+        description:
+          kind === 'publish'
+            ? `This will push ${selectionLabel} to the repository in one commit. Continue?`
+            : `This will remove ${selectionLabel} from the repository in one commit and keep them as drafts. Continue?`,
+        confirmText: kind === 'publish' ? 'Publish' : 'Unpublish',
+      });
+      if (confirmed) runBulkAction({ kind });
+    }, DROPDOWN_CLOSE_DELAY);
+  };
+
+  const handleBulkDelete = () => {
+    setTimeout(async () => {
+      const confirmed = await confirm({
+        title: 'Delete articles',
+        description: `Are you sure you want to delete ${selectionLabel}? Published articles are removed from the repository in one commit. This action cannot be undone.`,
+        confirmText: 'Delete',
+        confirmVariant: 'destructive',
+      });
+      if (confirmed) runBulkAction({ kind: 'delete' });
+    }, DROPDOWN_CLOSE_DELAY);
+  };
+
+  const handleBulkTags = (mode: 'add' | 'remove') => {
+    setTimeout(async () => {
+      let value = mode === 'remove' && selectedTag ? selectedTag : '';
+      const confirmed = await confirm({
+        title: mode === 'add' ? 'Add tags' : 'Remove tags',
+        description: `Separate tags with commas. Other tags of the ${selectionLabel} are kept.`,
+        content: (
+          <Input
+            aria-label="Tags"
+            placeholder="news, releases"
+            defaultValue={value}
+            onChange={(e) => {
+              value = e.target.value;
+            }}
+          />
+        ),
+        confirmText: mode === 'add' ? 'Add' : 'Remove',
+      });
+      const tags = splitTagInput(value);
+      if (!confirmed || tags.length === 0) return;
+      runBulkAction(
+        mode === 'add'
+          ? { kind: 'tags', add: tags, remove: [] }
+          : { kind: 'tags', add: [], remove: tags }
+      );
+    }, DROPDOWN_CLOSE_DELAY);
+  };
+
+  const handleBulkDate = () => {
+    setTimeout(async () => {
+      let value = '';
+      const confirmed = await confirm({
+        title: 'Change date',
+        description: `Sets the publish date of ${selectionLabel}. Leave it empty to clear the date.`,
+        content: (
+          <Input
+            type="date"
+            aria-label="Publish date"
+            onChange={(e) => {
+              value = e.target.value;
+            }}
+          />
+        ),
+        confirmText: 'Change date',
+      });
+      if (!confirmed) return;
+      runBulkAction({
+        kind: 'date',
+        // Midnight local time, as the editor's date picker sets it
+        publishedAt: value ? new Date(`${value}T00:00`).toISOString() : null,
+      });
+    }, DROPDOWN_CLOSE_DELAY);
+  };
+
+  const toggleFolder = (path: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const handleOpenArticle = (articleId: string) => {
+    void runEffect(
+      Effect.flatMap(ArticleService, (svc) => svc.openArticle(articleId))
+    );
+  };
+
+  // Drop targets are folder paths, "" being the top level
+  const dropHandlers = (folder: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!isArticleDrag(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(folder);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (
+        e.relatedTarget instanceof Node &&
+        e.currentTarget.contains(e.relatedTarget)
+      ) {
+        return;
+      }
+      setDropTarget((prev) => (prev === folder ? null : prev));
+    },
+    onDrop: (e: React.DragEvent) => {
+      const articleId = e.dataTransfer.getData(ARTICLE_DRAG_TYPE);
+      if (!articleId) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      void runEffect(
+        Effect.flatMap(ArticleService, (svc) =>
+          svc.moveArticle(articleId, folder)
+        )
+      );
+    },
+  });
+
   const handleSync = () => {
     if (!selectedSiteId || syncing) return;
     setSyncing(true);
@@ -67,6 +326,12 @@ export function ArticleList() {
     ).finally(() => setSyncing(false));
   };
 
+  const handleCancelSchedule = (articleId: string) => {
+    void runEffect(
+      Effect.flatMap(ArticleService, (svc) => svc.cancelSchedule(articleId))
+    );
+  };
+
   const handleDeleteArticle = (articleId: string, title: string) => {
     setTimeout(async () => {
       const confirmed = await confirm({
@@ -131,7 +396,84 @@ export function ArticleList() {
         <Plus />
       </SidebarGroupAction>
       <SidebarGroupContent>
-        <SidebarMenu>
+        {showSelectionBar && (
+          <div className="mb-1 flex items-center gap-1 px-2 text-xs text-sidebar-foreground/70">
+            <span className="mr-auto">{selectedIds.length} selected</span>
+            <Button
+              variant="ghost"
+              size="xs"
+              disabled={selectedIds.length === filteredArticles.length}
+              onClick={() =>
+                setSelected(
+                  new Set(filteredArticles.map((article) => article.id))
+                )
+              }
+            >
+              Select all
+            </Button>
+            {selectedIds.length > 0 && (
+              <>
+                <Button variant="ghost" size="xs" onClick={clearSelection}>
+                  Clear
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger
+                    render={
+                      <Button
+                        variant="outline"
+                        size="xs"
+                        disabled={bulkRunning}
+                      />
+                    }
+                  >
+                    {bulkRunning ? 'Working...' : 'Actions'}
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent side="right" align="start">
+                    <DropdownMenuItem
+                      onClick={() => handleBulkPublish('publish')}
+                    >
+                      <CloudUpload />
+                      Publish
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => handleBulkPublish('unpublish')}
+                    >
+                      <CloudOff />
+                      Unpublish
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => handleBulkTags('add')}>
+                      <Tag />
+                      Add tags
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleBulkTags('remove')}>
+                      <Tag />
+                      Remove tags
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleBulkDate}>
+                      <CalendarDays />
+                      Change date
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      className="text-destructive"
+                      onClick={handleBulkDelete}
+                    >
+                      <Trash2 />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </>
+            )}
+          </div>
+        )}
+        <SidebarMenu
+          {...dropHandlers('')}
+          className={
+            dropTarget === '' ? 'rounded-md ring-1 ring-primary/40' : undefined
+          }
+        >
           {articlesLoading ? (
             <>
               <SidebarMenuSkeleton />
@@ -145,64 +487,195 @@ export function ArticleList() {
                 : 'No articles yet'}
             </li>
           ) : (
-            filteredArticles.map((article) => {
-              const unpublished = hasUnpublishedChanges(article);
-              return (
-                <SidebarMenuItem key={article.id}>
-                  <SidebarMenuButton
-                    isActive={location.pathname === `/articles/${article.id}`}
-                    tooltip={article.title}
-                    className={
-                      article.status === 'draft' ? 'pr-16!' : undefined
-                    }
-                    render={<Link to={`/articles/${article.id}`} />}
-                    onClick={() => {
-                      void runEffect(
-                        Effect.flatMap(ArticleService, (svc) =>
-                          svc.openArticle(article.id)
-                        )
-                      );
-                    }}
-                  >
-                    {unpublished ? (
-                      <div className="relative">
-                        <FileText />
-                        <span className="absolute -top-0.5 -right-0.5 size-2 rounded-full bg-red-500" />
-                      </div>
-                    ) : (
-                      <FileText />
-                    )}
-                    <span>{article.title}</span>
-                  </SidebarMenuButton>
-                  {article.status === 'draft' && (
-                    <SidebarMenuBadge className="right-7">
-                      draft
-                    </SidebarMenuBadge>
-                  )}
-                  <DropdownMenu>
-                    <DropdownMenuTrigger
-                      render={<SidebarMenuAction showOnHover />}
-                    >
-                      <MoreHorizontal />
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent side="right" align="start">
-                      <DropdownMenuItem
-                        className="text-destructive"
-                        onClick={() =>
-                          handleDeleteArticle(article.id, article.title)
-                        }
-                      >
-                        <Trash2 />
-                        Delete
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                </SidebarMenuItem>
-              );
-            })
+            <ArticleTreeLevel
+              folder={tree}
+              collapsed={collapsed}
+              dropTarget={dropTarget}
+              activePath={location.pathname}
+              selected={selected}
+              onToggleFolder={toggleFolder}
+              onOpenArticle={handleOpenArticle}
+              onSelectArticle={handleSelectArticle}
+              onCancelSchedule={handleCancelSchedule}
+              onDeleteArticle={handleDeleteArticle}
+              dropHandlers={dropHandlers}
+            />
           )}
         </SidebarMenu>
       </SidebarGroupContent>
     </SidebarGroup>
   );
 }
+
+interface ArticleTreeProps {
+  collapsed: ReadonlySet<string>;
+  dropTarget: string | null;
+  activePath: string;
+  selected: ReadonlySet<string>;
+  onToggleFolder: (path: string) => void;
+  onOpenArticle: (articleId: string) => void;
+  // range extends the selection from the last clicked article
+  onSelectArticle: (articleId: string, range: boolean) => void;
+  onCancelSchedule: (articleId: string) => void;
+  onDeleteArticle: (articleId: string, title: string) => void;
+  dropHandlers: (folder: string) => {
+    onDragOver: (e: React.DragEvent) => void;
+    onDragLeave: (e: React.DragEvent) => void;
+    onDrop: (e: React.DragEvent) => void;
+  };
+}
+
+function ArticleTreeLevel({
+  folder,
+  ...props
+}: ArticleTreeProps & { folder: ArticleFolder }) {
+  return (
+    <>
+      {folder.folders.map((child) => (
+        <ArticleFolderItem key={child.path} folder={child} {...props} />
+      ))}
+      {folder.articles.map((article) => (
+        <ArticleItem
+          key={article.id}
+          article={article}
+          isActive={props.activePath === `/articles/${article.id}`}
+          isSelected={props.selected.has(article.id)}
+          onOpen={props.onOpenArticle}
+          onSelect={props.onSelectArticle}
+          onCancelSchedule={props.onCancelSchedule}
+          onDelete={props.onDeleteArticle}
+        />
+      ))}
+    </>
+  );
+}
+
+function ArticleFolderItem({
+  folder,
+  ...props
+}: ArticleTreeProps & { folder: ArticleFolder }) {
+  const open = !props.collapsed.has(folder.path);
+
+  return (
+    <SidebarMenuItem {...props.dropHandlers(folder.path)}>
+      <SidebarMenuButton
+        tooltip={folder.path}
+        onClick={() => props.onToggleFolder(folder.path)}
+        className={
+          props.dropTarget === folder.path
+            ? 'ring-1 ring-primary/40'
+            : undefined
+        }
+      >
+        <ChevronRight
+          className={
+            open ? 'rotate-90 transition-transform' : 'transition-transform'
+          }
+        />
+        {open ? <FolderOpen /> : <Folder />}
+        <span>{folder.name}</span>
+      </SidebarMenuButton>
+      {open && (
+        <SidebarMenuSub className="mr-0 pr-0">
+          <ArticleTreeLevel folder={folder} {...props} />
+        </SidebarMenuSub>
+      )}
+    </SidebarMenuItem>
+  );
+}
+
+function ArticleItem({
+  article,
+  isActive,
+  isSelected,
+  onOpen,
+  onSelect,
+  onCancelSchedule,
+  onDelete,
+}: {
+  article: Article;
+  isActive: boolean;
+  isSelected: boolean;
+  onOpen: (articleId: string) => void;
+  onSelect: (articleId: string, range: boolean) => void;
+  onCancelSchedule: (articleId: string) => void;
+  onDelete: (articleId: string, title: string) => void;
+}) {
+  const unpublished = hasUnpublishedChanges(article);
+
+  return (
+    <SidebarMenuItem
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(ARTICLE_DRAG_TYPE, article.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+    >
+      <SidebarMenuButton
+        isActive={isActive}
+        tooltip={article.title}
+        className={cn(
+          (article.status !== 'published' || article.scheduledAt) && 'pr-16!',
+          isSelected && 'bg-sidebar-accent/70 ring-1 ring-sidebar-ring/50'
+        )}
+        render={<Link to={`/articles/${article.id}`} />}
+        onClick={(e) => {
+          // Ctrl/Cmd-click toggles an article, shift-click selects a range
+          if (e.shiftKey || e.metaKey || e.ctrlKey) {
+            e.preventDefault();
+            onSelect(article.id, e.shiftKey);
+            return;
+          }
+          onOpen(article.id);
+        }}
+      >
+        {unpublished ? (
+          <div className="relative">
+            <FileText />
+            <span className="absolute -top-0.5 -right-0.5 size-2 rounded-full bg-red-500" />
+          </div>
+        ) : (
+          <FileText />
+        )}
+        <span>{article.title}</span>
+      </SidebarMenuButton>
+      {article.scheduledAt ? (
+        <SidebarMenuBadge
+          className="right-7"
+          title={`Publishes ${new Date(article.scheduledAt).toLocaleString()}`}
+        >
+          scheduled
+        </SidebarMenuBadge>
+      ) : (
+        <>
+          {article.status === 'draft' && (
+            <SidebarMenuBadge className="right-7">draft</SidebarMenuBadge>
+          )}
+          {article.status === 'pending_review' && (
+            <SidebarMenuBadge className="right-7">review</SidebarMenuBadge>
+          )}
+        </>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger render={<SidebarMenuAction showOnHover />}>
+          <MoreHorizontal />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="right" align="start">
+          {article.scheduledAt && (
+            <DropdownMenuItem onClick={() => onCancelSchedule(article.id)}>
+              <Clock />
+              Cancel schedule
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            className="text-destructive"
+            onClick={() => onDelete(article.id, article.title)}
+          >
+            <Trash2 />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </SidebarMenuItem>
+  );
+}
@@ -0,0 +1,236 @@
+import { Effect } from 'effect';
+import { FileText } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import {
+  type ArticleStatus,
+  articlesModel,
+  parseTags,
+} from '@/model/articles-model';
+import { sitesModel } from '@/model/sites-model';
+import {
+  type ArticleSearchHit,
+  ArticleService,
+  type SearchTextSegment,
+} from '@/services/article';
+import { EditorService } from '@/services/editor';
+import { runEffect } from '@/utils/effect-runtime';
+import { fireAndForget } from '@/utils/fire-and-forget';
+import { useObservable } from '@/utils/use-observable';
+
+// Waits for a pause in typing before searching
+const SEARCH_DELAY = 300;
+
+const ANY = 'any';
+
+const STATUS_LABELS: Record<ArticleStatus | typeof ANY, string> = {
+  any: 'Any status',
+  draft: 'Drafts',
+  published: 'Published',
+  pending_review: 'In review',
+};
+
+export function ArticleSearch() {
+  const navigate = useNavigate();
+  const articles = useObservable(articlesModel.articles$);
+  const selectedSiteId = useObservable(sitesModel.selectedSiteId$);
+  const [query, setQuery] = useState('');
+  const [status, setStatus] = useState<ArticleStatus | typeof ANY>(ANY);
+  const [tag, setTag] = useState(ANY);
+  // undefined until the current query is answered, null when it failed
+  const [results, setResults] = useState<ArticleSearchHit[] | null>();
+  const [answeredQuery, setAnsweredQuery] = useState('');
+
+  const tags = useMemo(
+    () =>
+      [
+        ...new Set(articles.flatMap((article) => parseTags(article.tags))),
+      ].toSorted((a, b) => a.localeCompare(b)),
+    [articles]
+  );
+
+  const trimmed = query.trim();
+
+  useEffect(() => {
+    if (!selectedSiteId || !trimmed) return undefined;
+
+    let current = true;
+    const timer = setTimeout(() => {
+      void runEffect(
+        Effect.flatMap(ArticleService, (svc) =>
+          svc.searchArticles(selectedSiteId, {
+            query: trimmed,
+            status: status === ANY ? undefined : status,
+            tag: tag === ANY ? undefined : tag,
+          })
+        )
+      ).then((hits) => {
+        if (!current) return undefined;
+        setResults(hits);
+        setAnsweredQuery(trimmed);
+        return undefined;
+      });
+    }, SEARCH_DELAY);
+
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [selectedSiteId, trimmed, status, tag]);
+
+  const handleOpenHit = (hit: ArticleSearchHit) => {
+    // The editor scrolls to the first hit once the article has loaded
+    void runEffect(
+      Effect.flatMap(EditorService, (svc) =>
+        svc.revealText(hit.id, hit.matches)
+      )
+    );
+    void runEffect(
+      Effect.flatMap(ArticleService, (svc) => svc.openArticle(hit.id))
+    );
+    fireAndForget(navigate(`/articles/${hit.id}`));
+  };
+
+  const showResults = trimmed !== '' && answeredQuery === trimmed;
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupContent className="space-y-2">
+        <SidebarInput
+          type="search"
+          aria-label="Search articles"
+          placeholder='Search, e.g. "exact phrase"'
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <Select
+            value={status}
+            onValueChange={(next) => {
+              if (next) setStatus(next);
+            }}
+          >
+            <SelectTrigger size="sm" className="min-w-0 flex-1">
+              <SelectValue>{STATUS_LABELS[status]}</SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {([ANY, 'draft', 'published', 'pending_review'] as const).map(
+                (option) => (
+                  <SelectItem key={option} value={option}>
+                    {STATUS_LABELS[option]}
+                  </SelectItem>
+                )
+              )}
+            </SelectContent>
+          </Select>
+          <Select
+            value={tag}
+            onValueChange={(next) => {
+              if (next) setTag(next);
+            }}
+          >
+            <SelectTrigger size="sm" className="min-w-0 flex-1">
+              <SelectValue>{tag === ANY ? 'Any tag' : tag}</SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any tag</SelectItem>
+              {tags.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {showResults && (
+          <SearchResults results={results} onOpen={handleOpenHit} />
+        )}
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+}
+
+function SearchResults({
+  results,
+  onOpen,
+}: {
+  results: ArticleSearchHit[] | null | undefined;
+  onOpen: (hit: ArticleSearchHit) => void;
+}) {
+  if (!results) {
+    return (
+      <p className="px-2 text-xs text-sidebar-foreground/50">
+        {results === null ? 'Search failed' : 'Searching...'}
+      </p>
+    );
+  }
+  if (results.length === 0) {
+    return (
+      <p className="px-2 text-xs text-sidebar-foreground/50">
+        No matching articles
+      </p>
+    );
+  }
+
+  return (
+    <SidebarMenu>
+      {results.map((hit) => (
+        <SidebarMenuItem key={hit.id}>
+          <SidebarMenuButton
+            tooltip={hit.title}
+            className="h-auto items-start py-1.5"
+            onClick={() => onOpen(hit)}
+          >
+            <FileText className="mt-0.5" />
+            <div className="min-w-0 space-y-0.5">
+              <div className="truncate">
+                <Highlighted segments={hit.titleHighlights} />
+                {hit.status !== 'published' && (
+                  <span className="ml-1.5 text-xs text-sidebar-foreground/50">
+                    {STATUS_LABELS[hit.status].toLowerCase()}
+                  </span>
+                )}
+              </div>
+              {hit.snippet.length > 0 && (
+                <p className="line-clamp-3 text-xs whitespace-normal text-sidebar-foreground/60">
+                  <Highlighted segments={hit.snippet} />
+                </p>
+              )}
+            </div>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      ))}
+    </SidebarMenu>
+  );
+}
+
+function Highlighted({ segments }: { segments: SearchTextSegment[] }) {
+  return segments.map((segment, index) =>
+    segment.highlighted ? (
+      <mark
+        key={index}
+        className="rounded-sm bg-yellow-200/70 text-inherit dark:bg-yellow-500/30"
+      >
+        {segment.text}
+      </mark>
+    ) : (
+      <span key={index}>{segment.text}</span>
+    )
+  );
+}
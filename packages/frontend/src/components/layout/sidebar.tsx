@@ -1,4 +1,4 @@
-import { FileText, Tag } from 'lucide-react';
+import { FileText, Search, Tag } from 'lucide-react';
 import { useState } from 'react';
 
 import {
@@ -13,6 +13,7 @@ import { sitesModel } from '@/model/sites-model';
 import { useObservable } from '@/utils/use-observable';
 
 import { ArticleList } from './article-list';
+import { ArticleSearch } from './article-search';
 import { SiteSelector } from './site-selector';
 import { TagList } from './tag-list';
 import { UserMenu } from './user-menu';
@@ -38,6 +39,9 @@ export function AppSidebar() {
               <TabsTrigger value="articles" title="Articles">
                 <FileText className="size-4" />
               </TabsTrigger>
+              <TabsTrigger value="search" title="Search">
+                <Search className="size-4" />
+              </TabsTrigger>
               <TabsTrigger value="tags" title="Tags">
                 <Tag className="size-4" />
               </TabsTrigger>
@@ -48,6 +52,12 @@ export function AppSidebar() {
             >
               <ArticleList />
             </TabsContent>
+            <TabsContent
+              value="search"
+              className="min-h-0 flex-1 overflow-y-auto"
+            >
+              <ArticleSearch />
+            </TabsContent>
             <TabsContent
               value="tags"
               className="min-h-0 flex-1 overflow-y-auto"
@@ -4,6 +4,7 @@ import {
   ExternalLink,
   Globe,
   Plus,
+  Rocket,
   Settings,
   Trash2,
 } from 'lucide-react';
@@ -12,6 +13,10 @@ import { useNavigate } from 'react-router';
 
 import { confirm } from '@/components/confirm-dialog';
 import { CreateSiteDialog } from '@/components/sites/create-site-dialog';
+import {
+  DeployStatusDot,
+  deployStatusLabel,
+} from '@/components/sites/deploy-status';
 import { SiteSettingsDialog } from '@/components/sites/site-settings-dialog';
 import {
   DropdownMenu,
@@ -28,6 +33,7 @@ import {
   SidebarMenuItem,
   useSidebar,
 } from '@/components/ui/sidebar';
+import { useDeployTracking } from '@/hooks/use-deploy-tracking';
 import { sitesModel } from '@/model/sites-model';
 import { ArticleService } from '@/services/article';
 import { SiteService } from '@/services/site';
@@ -44,6 +50,11 @@ export function SiteSelector() {
   const navigate = useNavigate();
 
   const selectedSite = sites.find((s) => s.id === selectedSiteId);
+  useDeployTracking(
+    selectedSite?.id ?? null,
+    selectedSite?.deployStatus === 'building'
+  );
+  const deployLabel = selectedSite ? deployStatusLabel(selectedSite) : null;
   const siteLabel =
     selectedSite?.displayName ??
     selectedSite?.name ??
@@ -109,8 +120,9 @@ export function SiteSelector() {
               <div className="grid flex-1 text-left text-sm leading-tight">
                 <span className="truncate font-medium">{siteLabel}</span>
                 {selectedSite && (
-                  <span className="truncate text-xs">
-                    {selectedSite.gitRepo}
+                  <span className="flex items-center gap-1.5 text-xs">
+                    <span className="truncate">{selectedSite.gitRepo}</span>
+                    <DeployStatusDot site={selectedSite} />
                   </span>
                 )}
               </div>
@@ -185,6 +197,28 @@ export function SiteSelector() {
                         </span>
                       </DropdownMenuItem>
                     )}
+                    {deployLabel && (
+                      <DropdownMenuItem
+                        className="gap-2 p-2"
+                        disabled={!selectedSite.deployRunUrl}
+                        onClick={() => {
+                          const url = selectedSite.deployRunUrl;
+                          if (url)
+                            window.open(url, '_blank', 'noopener,noreferrer');
+                        }}
+                      >
+                        <div className="flex size-6 items-center justify-center rounded-md border bg-transparent">
+                          <Rocket className="size-4" />
+                        </div>
+                        <span className="font-medium text-muted-foreground">
+                          {deployLabel}
+                        </span>
+                        <DeployStatusDot
+                          site={selectedSite}
+                          className="ml-auto"
+                        />
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuItem
                       className="gap-2 p-2"
                       onClick={() => setSettingsOpen(true)}
@@ -1,7 +1,9 @@
 import { Effect } from 'effect';
-import { ImageIcon, LogOut } from 'lucide-react';
+import { GitCommitHorizontal, ImageIcon, LogOut, Plug } from 'lucide-react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router';
 
+import { CommitIdentityDialog } from '@/components/auth/commit-identity-dialog';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -25,69 +27,98 @@ export function UserMenu() {
   const navigate = useNavigate();
   const authState = useObservable(authModel.authState$);
   const selectedSiteId = useObservable(sitesModel.selectedSiteId$);
+  const githubApp = useObservable(authModel.githubApp$);
+  const [identityOpen, setIdentityOpen] = useState(false);
   const user = authState.user;
 
   if (!user) return null;
 
+  const canInstallGitHubApp =
+    githubApp && user.gitIntegrations.some((i) => i.platform === 'github');
+
   return (
-    <SidebarMenu>
-      <SidebarMenuItem>
-        <DropdownMenu>
-          <DropdownMenuTrigger render={<SidebarMenuButton size="lg" />}>
-            {user.avatarUrl ? (
-              <img
-                src={user.avatarUrl}
-                alt={user.displayName ?? user.username}
-                className="size-6 rounded-full"
-              />
-            ) : (
-              <div className="flex size-6 items-center justify-center rounded-full bg-sidebar-accent text-xs font-medium">
-                {(user.displayName ?? user.username).charAt(0).toUpperCase()}
-              </div>
-            )}
-            <div className="grid flex-1 text-left leading-tight">
-              <span className="truncate text-sm font-medium">
-                {user.displayName ?? user.username}
-              </span>
-              {user.email && (
-                <span className="truncate text-xs text-sidebar-foreground/60">
-                  {user.email}
+    <>
+      <SidebarMenu>
+        <SidebarMenuItem>
+          <DropdownMenu>
+            <DropdownMenuTrigger render={<SidebarMenuButton size="lg" />}>
+              {user.avatarUrl ? (
+                <img
+                  src={user.avatarUrl}
+                  alt={user.displayName ?? user.username}
+                  className="size-6 rounded-full"
+                />
+              ) : (
+                <div className="flex size-6 items-center justify-center rounded-full bg-sidebar-accent text-xs font-medium">
+                  {(user.displayName ?? user.username).charAt(0).toUpperCase()}
+                </div>
+              )}
+              <div className="grid flex-1 text-left leading-tight">
+                <span className="truncate text-sm font-medium">
+                  {user.displayName ?? user.username}
                 </span>
+                {user.email && (
+                  <span className="truncate text-xs text-sidebar-foreground/60">
+                    {user.email}
+                  </span>
+                )}
+              </div>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent
+              side="top"
+              align="start"
+              className="w-[--radix-dropdown-menu-trigger-width]"
+            >
+              <DropdownMenuItem
+                onClick={() => {
+                  if (selectedSiteId) {
+                    void runEffect(
+                      Effect.flatMap(MediaService, (svc) =>
+                        svc.fetchMedia(selectedSiteId)
+                      )
+                    );
+                  }
+                  fireAndForget(navigate('/media'));
+                }}
+              >
+                <ImageIcon />
+                Media
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setIdentityOpen(true)}>
+                <GitCommitHorizontal />
+                Commit Identity
+              </DropdownMenuItem>
+              {canInstallGitHubApp && (
+                <DropdownMenuItem
+                  onClick={() => {
+                    void runEffect(
+                      Effect.flatMap(AuthService, (s) => s.installGitHubApp())
+                    );
+                  }}
+                >
+                  <Plug />
+                  Install GitHub App
+                </DropdownMenuItem>
               )}
-            </div>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent
-            side="top"
-            align="start"
-            className="w-[--radix-dropdown-menu-trigger-width]"
-          >
-            <DropdownMenuItem
-              onClick={() => {
-                if (selectedSiteId) {
+              <DropdownMenuItem
+                className="text-destructive"
+                onClick={() => {
                   void runEffect(
-                    Effect.flatMap(MediaService, (svc) =>
-                      svc.fetchMedia(selectedSiteId)
-                    )
+                    Effect.flatMap(AuthService, (s) => s.logout())
                   );
-                }
-                fireAndForget(navigate('/media'));
-              }}
-            >
-              <ImageIcon />
-              Media
-            </DropdownMenuItem>
-            <DropdownMenuItem
-              className="text-destructive"
-              onClick={() => {
-                void runEffect(Effect.flatMap(AuthService, (s) => s.logout()));
-              }}
-            >
-              <LogOut />
-              Log out
-            </DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
-      </SidebarMenuItem>
-    </SidebarMenu>
+                }}
+              >
+                <LogOut />
+                Log out
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </SidebarMenuItem>
+      </SidebarMenu>
+      <CommitIdentityDialog
+        open={identityOpen}
+        onOpenChange={setIdentityOpen}
+      />
+    </>
   );
 }
@@ -0,0 +1,84 @@
+import type { LineDiffHunk } from '@/model/articles-model';
+
+import { cn } from '@/csslib/utils';
+
+// Unchanged runs longer than this only show their edges
+const CONTEXT_LINES = 3;
+
+// Unified view of a line diff, removed lines above the lines added in
+// their place
+export function LineDiff({ hunks }: { hunks: readonly LineDiffHunk[] }) {
+  if (hunks.every((hunk) => hunk.kind === 'same')) {
+    return (
+      <p className="text-sm text-muted-foreground">The content is the same.</p>
+    );
+  }
+
+  return (
+    <div className="max-h-[60vh] overflow-y-auto rounded-md border font-mono text-xs">
+      {hunks.map((hunk, index) =>
+        hunk.kind === 'same' ? (
+          <UnchangedLines
+            key={index}
+            lines={hunk.lines}
+            first={index === 0}
+            last={index === hunks.length - 1}
+          />
+        ) : (
+          <div key={index}>
+            <LineBlock lines={hunk.removed} marker="-" />
+            <LineBlock lines={hunk.added} marker="+" />
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+function UnchangedLines({
+  lines,
+  first,
+  last,
+}: {
+  lines: readonly string[];
+  first: boolean;
+  last: boolean;
+}) {
+  // Only the lines next to a change give it context
+  const head = first ? [] : lines.slice(0, CONTEXT_LINES);
+  const tail = last ? [] : lines.slice(-CONTEXT_LINES);
+  const hidden = lines.length - head.length - tail.length;
+
+  if (hidden <= 0) return <LineBlock lines={lines} marker=" " />;
+
+  return (
+    <div>
+      <LineBlock lines={head} marker=" " />
+      <div className="py-1 text-center font-sans text-muted-foreground/70">
+        {hidden} unchanged {hidden === 1 ? 'line' : 'lines'}
+      </div>
+      <LineBlock lines={tail} marker=" " />
+    </div>
+  );
+}
+
+function LineBlock({
+  lines,
+  marker,
+}: {
+  lines: readonly string[];
+  marker: '-' | '+' | ' ';
+}) {
+  if (lines.length === 0) return null;
+  return (
+    <pre
+      className={cn(
+        'px-2 break-words whitespace-pre-wrap',
+        marker === '-' && 'bg-destructive/10 text-destructive',
+        marker === '+' && 'bg-primary/10'
+      )}
+    >
+      {lines.map((line) => `${marker} ${line}`).join('\n')}
+    </pre>
+  );
+}
@@ -0,0 +1,144 @@
+import type { MergeHunk, MergeSide } from '@/utils/three-way-merge';
+
+import { cn } from '@/csslib/utils';
+
+// Unchanged runs longer than this only show their edges
+const CONTEXT_LINES = 3;
+
+export interface MergeHunkLabels {
+  // Column headings
+  readonly sides: Record<MergeSide, string>;
+  readonly changedBy: Record<MergeSide | 'both', string>;
+  readonly accept: Record<MergeSide, string>;
+}
+
+// Side-by-side view of a three-way merge. Without onChoose the view is read
+// only and shows which side each change is taken from
+export function MergeHunks({
+  hunks,
+  choiceAt,
+  onChoose,
+  labels,
+}: {
+  hunks: readonly MergeHunk[];
+  choiceAt: (index: number) => MergeSide | null;
+  onChoose?: (index: number, side: MergeSide) => void;
+  labels: MergeHunkLabels;
+}) {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-2 text-xs font-medium text-muted-foreground">
+        <span>{labels.sides.local}</span>
+        <span>{labels.sides.remote}</span>
+      </div>
+      <div className="max-h-[60vh] space-y-2 overflow-y-auto font-mono text-xs">
+        {hunks.map((hunk, index) =>
+          hunk.kind === 'same' ? (
+            <UnchangedLines
+              key={index}
+              lines={hunk.lines}
+              first={index === 0}
+              last={index === hunks.length - 1}
+            />
+          ) : (
+            <ChangedLines
+              key={index}
+              hunk={hunk}
+              choice={choiceAt(index)}
+              onChoose={onChoose && ((side) => onChoose(index, side))}
+              labels={labels}
+            />
+          )
+        )}
+      </div>
+    </>
+  );
+}
+
+function UnchangedLines({
+  lines,
+  first,
+  last,
+}: {
+  lines: readonly string[];
+  first: boolean;
+  last: boolean;
+}) {
+  // Only the lines next to a change give it context
+  const head = first ? [] : lines.slice(0, CONTEXT_LINES);
+  const tail = last ? [] : lines.slice(-CONTEXT_LINES);
+  const hidden = lines.length - head.length - tail.length;
+
+  if (hidden <= 0) return <LineBlock lines={lines} />;
+
+  return (
+    <div>
+      <LineBlock lines={head} />
+      <div className="py-1 text-center text-muted-foreground/70">
+        {hidden} unchanged {hidden === 1 ? 'line' : 'lines'}
+      </div>
+      <LineBlock lines={tail} />
+    </div>
+  );
+}
+
+function ChangedLines({
+  hunk,
+  choice,
+  onChoose,
+  labels,
+}: {
+  hunk: Extract<MergeHunk, { kind: 'change' }>;
+  choice: MergeSide | null;
+  onChoose?: (side: MergeSide) => void;
+  labels: MergeHunkLabels;
+}) {
+  return (
+    <div className="space-y-1">
+      <div
+        className={cn(
+          'text-[0.7rem] font-sans',
+          hunk.changedBy === 'both'
+            ? 'text-destructive'
+            : 'text-muted-foreground'
+        )}
+      >
+        {labels.changedBy[hunk.changedBy]}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {(['local', 'remote'] as const).map((side) => (
+          <button
+            key={side}
+            type="button"
+            disabled={!onChoose}
+            onClick={() => onChoose?.(side)}
+            className={cn(
+              'rounded-md border p-1 text-left',
+              choice === side
+                ? 'border-primary bg-primary/5'
+                : 'border-dashed opacity-60 enabled:hover:opacity-100'
+            )}
+          >
+            <LineBlock lines={side === 'local' ? hunk.local : hunk.remote} />
+            <span className="mt-1 block font-sans text-[0.7rem] text-muted-foreground">
+              {choice === side ? 'Keeping this version' : labels.accept[side]}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function LineBlock({ lines }: { lines: readonly string[] }) {
+  if (lines.length === 0) {
+    return (
+      <div className="px-2 text-muted-foreground/50 italic">(removed)</div>
+    );
+  }
+  return (
+    <pre className="px-2 break-words whitespace-pre-wrap">
+      {lines.join('\n')}
+    </pre>
+  );
+}
@@ -3,16 +3,29 @@ import { useState } from 'react';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { PLATFORM_LABELS, type GitPlatform } from '@/model/auth-model';
 import { SiteService } from '@/services/site';
 import { runEffect } from '@/utils/effect-runtime';
 
+import { PlatformSelect } from './platform-select';
+import { TemplateGallery } from './template-gallery';
+
+const GITHUB_TEMPLATE = {
+  templateOwner: 'Saul-Mirone',
+  templateRepo: 'inland-template-basic',
+};
+
+// GitLab and Gitea use the template configured on the server unless overridden
+const SERVER_TEMPLATE = { templateOwner: '', templateRepo: '' };
+
 const initialFormState = {
   name: '',
   displayName: '',
   description: '',
   author: '',
-  templateOwner: 'Saul-Mirone',
-  templateRepo: 'inland-template-basic',
+  platform: 'github' as GitPlatform,
+  templateId: '',
+  ...GITHUB_TEMPLATE,
 };
 
 export function CreateSiteForm({ onSuccess }: { onSuccess: () => void }) {
@@ -25,6 +38,14 @@ export function CreateSiteForm({ onSuccess }: { onSuccess: () => void }) {
     (e: React.ChangeEvent<HTMLInputElement>) =>
       setForm((prev) => ({ ...prev, [field]: e.target.value }));
 
+  const updatePlatform = (platform: GitPlatform) =>
+    setForm((prev) => ({
+      ...prev,
+      platform,
+      templateId: '',
+      ...(platform === 'github' ? GITHUB_TEMPLATE : SERVER_TEMPLATE),
+    }));
+
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
 
@@ -43,8 +64,13 @@ export function CreateSiteForm({ onSuccess }: { onSuccess: () => void }) {
           displayName: form.displayName.trim() || undefined,
           description: form.description.trim() || undefined,
           author: form.author.trim() || undefined,
-          templateOwner: form.templateOwner,
-          templateRepo: form.templateRepo,
+          platform: form.platform,
+          ...(form.templateId
+            ? { templateId: form.templateId }
+            : {
+                templateOwner: form.templateOwner.trim() || undefined,
+                templateRepo: form.templateRepo.trim() || undefined,
+              }),
         })
       )
     )
@@ -64,6 +90,11 @@ export function CreateSiteForm({ onSuccess }: { onSuccess: () => void }) {
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4 pt-2">
+      <PlatformSelect
+        value={form.platform}
+        onChange={updatePlatform}
+        disabled={loading}
+      />
       <div className="space-y-1.5">
         <label className="flex flex-col gap-1.5 text-sm font-medium">
           Repository Name
@@ -75,7 +106,7 @@ export function CreateSiteForm({ onSuccess }: { onSuccess: () => void }) {
             disabled={loading}
           />
           <span className="text-xs text-muted-foreground">
-            Used as the GitHub repository name
+            Used as the {PLATFORM_LABELS[form.platform]} repository name
           </span>
         </label>
       </div>
@@ -117,39 +148,50 @@ export function CreateSiteForm({ onSuccess }: { onSuccess: () => void }) {
             disabled={loading}
           />
           <span className="text-xs text-muted-foreground">
-            Defaults to your GitHub display name
+            Defaults to your {PLATFORM_LABELS[form.platform]} display name
           </span>
         </label>
       </div>
 
-      <details className="group rounded-md border border-border">
-        <summary className="cursor-pointer px-3 py-2 text-sm font-medium">
-          Template Configuration
-        </summary>
-        <div className="space-y-3 border-t border-border px-3 py-3">
-          <label className="flex flex-col gap-1.5 text-sm font-medium">
-            Template Owner
-            <input
-              type="text"
-              value={form.templateOwner}
-              onChange={updateField('templateOwner')}
-              disabled={loading}
-            />
-          </label>
-          <label className="flex flex-col gap-1.5 text-sm font-medium">
-            Template Repository
-            <input
-              type="text"
-              value={form.templateRepo}
-              onChange={updateField('templateRepo')}
-              disabled={loading}
-            />
-          </label>
-          <p className="text-xs text-muted-foreground">
-            Default: Saul-Mirone/inland-template-basic
-          </p>
-        </div>
-      </details>
+      <TemplateGallery
+        platform={form.platform}
+        value={form.templateId}
+        onChange={(templateId) => setForm((prev) => ({ ...prev, templateId }))}
+        disabled={loading}
+      />
+
+      {!form.templateId && (
+        <details className="group rounded-md border border-border">
+          <summary className="cursor-pointer px-3 py-2 text-sm font-medium">
+            Template Configuration
+          </summary>
+          <div className="space-y-3 border-t border-border px-3 py-3">
+            <label className="flex flex-col gap-1.5 text-sm font-medium">
+              Template Owner
+              <input
+                type="text"
+                value={form.templateOwner}
+                onChange={updateField('templateOwner')}
+                disabled={loading}
+              />
+            </label>
+            <label className="flex flex-col gap-1.5 text-sm font-medium">
+              Template Repository
+              <input
+                type="text"
+                value={form.templateRepo}
+                onChange={updateField('templateRepo')}
+                disabled={loading}
+              />
+            </label>
+            <p className="text-xs text-muted-foreground">
+              {form.platform === 'github'
+                ? 'Default: Saul-Mirone/inland-template-basic'
+                : `Leave empty to use the template configured for ${PLATFORM_LABELS[form.platform]}`}
+            </p>
+          </div>
+        </details>
+      )}
 
       {error && <div className="text-sm text-destructive">{error}</div>}
 
@@ -0,0 +1,87 @@
+import type { SiteWithCounts } from '@/model/sites-model';
+
+import { cn } from '@/csslib/utils';
+
+type DeploySite = Pick<
+  SiteWithCounts,
+  'deployStatus' | 'deployRunUrl' | 'deployDuration'
+>;
+
+const DOT_CLASSES: Record<string, string> = {
+  building: 'bg-amber-500 animate-pulse',
+  deployed: 'bg-emerald-500',
+  failed: 'bg-destructive',
+};
+
+const formatDuration = (seconds: number) =>
+  seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+
+export function deployStatusLabel(site: DeploySite): string | null {
+  switch (site.deployStatus) {
+    case 'building':
+      return 'Deploying...';
+    case 'deployed':
+      return site.deployDuration != null
+        ? `Deployed in ${formatDuration(site.deployDuration)}`
+        : 'Deployed';
+    case 'failed':
+      return 'Deploy failed';
+    default:
+      return null;
+  }
+}
+
+// Nothing is shown for sites whose pushes are not tracked
+export function DeployStatusDot({
+  site,
+  className,
+}: {
+  site: DeploySite;
+  className?: string;
+}) {
+  const label = deployStatusLabel(site);
+  if (!label) return null;
+
+  return (
+    <span
+      role="img"
+      aria-label={label}
+      title={label}
+      className={cn(
+        'inline-block size-2 shrink-0 rounded-full',
+        DOT_CLASSES[site.deployStatus],
+        className
+      )}
+    />
+  );
+}
+
+// The dot and label, linking to the run once the host reported one
+export function DeployStatus({ site }: { site: DeploySite }) {
+  const label = deployStatusLabel(site);
+  if (!label) return null;
+
+  const content = (
+    <>
+      <DeployStatusDot site={site} />
+      <span className="truncate">{label}</span>
+    </>
+  );
+
+  return site.deployRunUrl ? (
+    <a
+      href={site.deployRunUrl}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex min-w-0 items-center gap-1.5 text-primary hover:underline"
+    >
+      {content}
+    </a>
+  ) : (
+    <span className="flex min-w-0 items-center gap-1.5 text-muted-foreground/70">
+      {content}
+    </span>
+  );
+}
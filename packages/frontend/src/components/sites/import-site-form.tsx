@@ -3,9 +3,12 @@ import { useState } from 'react';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { PLATFORM_LABELS, type GitPlatform } from '@/model/auth-model';
 import { SiteService } from '@/services/site';
 import { runEffect } from '@/utils/effect-runtime';
 
+import { PlatformSelect } from './platform-select';
+
 const slugify = (text: string): string =>
   text
     .toLowerCase()
@@ -13,9 +16,11 @@ const slugify = (text: string): string =>
     .replace(/[^a-z0-9-_.]+/g, '-')
     .replace(/^-+|-+$/g, '');
 
-const repoPattern = /^[a-zA-Z0-9_-]+\/[a-zA-Z0-9_.-]+$/;
+// GitLab projects may live in nested groups: group/subgroup/project
+const repoPattern = /^[a-zA-Z0-9_-]+(?:\/[a-zA-Z0-9_.-]+)+$/;
 
 const initialFormState = {
+  platform: 'github' as GitPlatform,
   gitRepoFullName: '',
   displayName: '',
   name: '',
@@ -36,12 +41,14 @@ export function ImportSiteForm({ onSuccess }: { onSuccess: () => void }) {
   const [configLoading, setConfigLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchConfigForRepo = (repo: string) => {
+  const fetchConfigForRepo = (repo: string, platform: GitPlatform) => {
     if (!repoPattern.test(repo.trim())) return;
 
     setConfigLoading(true);
     runEffect(
-      Effect.flatMap(SiteService, (svc) => svc.fetchRepoConfig(repo.trim()))
+      Effect.flatMap(SiteService, (svc) =>
+        svc.fetchRepoConfig(repo.trim(), platform)
+      )
     )
       .then(
         (config) => {
@@ -75,7 +82,12 @@ export function ImportSiteForm({ onSuccess }: { onSuccess: () => void }) {
   };
 
   const handleRepoBlur = () => {
-    fetchConfigForRepo(form.gitRepoFullName);
+    fetchConfigForRepo(form.gitRepoFullName, form.platform);
+  };
+
+  const updatePlatform = (platform: GitPlatform) => {
+    setForm((prev) => ({ ...prev, platform }));
+    fetchConfigForRepo(form.gitRepoFullName, platform);
   };
 
   const updateDisplayName = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -138,6 +150,7 @@ export function ImportSiteForm({ onSuccess }: { onSuccess: () => void }) {
           name: form.name.trim() || slugify(form.displayName),
           displayName: form.displayName.trim() || undefined,
           gitRepoFullName: form.gitRepoFullName.trim(),
+          platform: form.platform,
           description: form.description.trim() || undefined,
           setupWorkflow: form.setupWorkflow,
           enablePages: form.enablePages,
@@ -164,6 +177,11 @@ export function ImportSiteForm({ onSuccess }: { onSuccess: () => void }) {
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4 pt-2">
+      <PlatformSelect
+        value={form.platform}
+        onChange={updatePlatform}
+        disabled={loading}
+      />
       <div className="space-y-1.5">
         <label className="flex flex-col gap-1.5 text-sm font-medium">
           Repository (owner/repo)
@@ -249,7 +267,7 @@ export function ImportSiteForm({ onSuccess }: { onSuccess: () => void }) {
               disabled={loading}
               className="rounded border-border"
             />
-            Enable GitHub Pages
+            Enable {PLATFORM_LABELS[form.platform]} Pages
           </label>
 
           <label className="flex items-center gap-2 text-sm">
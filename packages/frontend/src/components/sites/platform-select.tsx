@@ -0,0 +1,65 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  authModel,
+  PLATFORM_LABELS,
+  type GitPlatform,
+} from '@/model/auth-model';
+import { useObservable } from '@/utils/use-observable';
+
+// Platforms the user has connected, GitHub first
+export const useConnectedPlatforms = (): GitPlatform[] => {
+  const authState = useObservable(authModel.authState$);
+  const connected = new Set(
+    authState.user?.gitIntegrations.map((i) => i.platform) ?? []
+  );
+  return (['github', 'gitlab', 'gitea', 'local'] as const).filter((p) =>
+    connected.has(p)
+  );
+};
+
+export function PlatformSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: GitPlatform;
+  onChange: (platform: GitPlatform) => void;
+  disabled?: boolean;
+}) {
+  const platforms = useConnectedPlatforms();
+
+  // Nothing to choose between until a second platform is connected
+  if (platforms.length < 2) return null;
+
+  return (
+    <div className="space-y-1.5">
+      <label className="flex flex-col gap-1.5 text-sm font-medium">
+        Platform
+        <Select
+          value={value}
+          onValueChange={(next) => {
+            if (next) onChange(next);
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue>{PLATFORM_LABELS[value]}</SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            {platforms.map((platform) => (
+              <SelectItem key={platform} value={platform}>
+                {PLATFORM_LABELS[platform]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </label>
+    </div>
+  );
+}
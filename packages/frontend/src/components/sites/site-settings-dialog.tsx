@@ -1,5 +1,5 @@
 import { Effect } from 'effect';
-import { ExternalLink, RefreshCw } from 'lucide-react';
+import { ExternalLink, FileDiff, RefreshCw } from 'lucide-react';
 import { useMemo, useState } from 'react';
 import { toast } from 'sonner';
 
@@ -13,12 +13,45 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { type SiteWithCounts, sitesModel } from '@/model/sites-model';
+import {
+  type MediaUrlStrategy,
+  type PublishMode,
+  type SiteWithCounts,
+  sitesModel,
+} from '@/model/sites-model';
 import { SiteService } from '@/services/site';
 import { runEffect } from '@/utils/effect-runtime';
 import { useObservable } from '@/utils/use-observable';
 
+import { TemplateUpgradeDialog } from './template-upgrade-dialog';
+
+const PUBLISH_MODES: readonly PublishMode[] = ['direct', 'pull_request'];
+
+const PUBLISH_MODE_LABELS: Record<PublishMode, string> = {
+  direct: 'Commit to the default branch',
+  pull_request: 'Open a pull request',
+};
+
+const MEDIA_URL_STRATEGIES: readonly MediaUrlStrategy[] = [
+  'raw',
+  'site_relative',
+  'pinned',
+];
+
+const MEDIA_URL_STRATEGY_LABELS: Record<MediaUrlStrategy, string> = {
+  raw: 'Raw file on the default branch',
+  site_relative: 'Path on the published site',
+  pinned: 'Raw file pinned to its commit',
+};
+
 export function SiteSettingsDialog({
   open,
   onOpenChange,
@@ -62,20 +95,49 @@ function SiteSettingsForm({
 }: {
   site: Pick<
     SiteWithCounts,
-    'id' | 'name' | 'displayName' | 'description' | 'gitRepo' | 'deployUrl'
+    | 'id'
+    | 'name'
+    | 'displayName'
+    | 'description'
+    | 'gitRepo'
+    | 'deployUrl'
+    | 'customDomain'
+    | 'publishMode'
+    | 'contentRoot'
+    | 'fileNaming'
+    | 'mediaRoot'
+    | 'commitMessageTemplate'
+    | 'mediaUrlStrategy'
+    | 'templateId'
   >;
   onSuccess: () => void;
 }) {
   const [form, setForm] = useState({
     displayName: site.displayName ?? '',
     description: site.description ?? '',
+    customDomain: site.customDomain ?? '',
+    publishMode: site.publishMode,
+    contentRoot: site.contentRoot,
+    fileNaming: site.fileNaming,
+    mediaRoot: site.mediaRoot,
+    commitMessageTemplate: site.commitMessageTemplate ?? '',
+    mediaUrlStrategy: site.mediaUrlStrategy,
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const customDomainChanged =
+    form.customDomain.trim() !== (site.customDomain ?? '');
   const isDirty =
     form.displayName !== (site.displayName ?? '') ||
-    form.description !== (site.description ?? '');
+    form.description !== (site.description ?? '') ||
+    customDomainChanged ||
+    form.publishMode !== site.publishMode ||
+    form.contentRoot !== site.contentRoot ||
+    form.fileNaming !== site.fileNaming ||
+    form.mediaRoot !== site.mediaRoot ||
+    form.commitMessageTemplate !== (site.commitMessageTemplate ?? '') ||
+    form.mediaUrlStrategy !== site.mediaUrlStrategy;
 
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -93,6 +155,21 @@ function SiteSettingsForm({
             form.description.trim() !== ''
               ? form.description.trim()
               : undefined,
+          // Changing the domain reconfigures Pages, so it is only sent when
+          // it changed
+          ...(customDomainChanged && {
+            customDomain:
+              form.customDomain.trim() !== '' ? form.customDomain.trim() : null,
+          }),
+          publishMode: form.publishMode,
+          contentRoot: form.contentRoot.trim(),
+          fileNaming: form.fileNaming.trim(),
+          mediaRoot: form.mediaRoot.trim(),
+          commitMessageTemplate:
+            form.commitMessageTemplate.trim() !== ''
+              ? form.commitMessageTemplate.trim()
+              : null,
+          mediaUrlStrategy: form.mediaUrlStrategy,
         })
       )
     )
@@ -136,6 +213,28 @@ function SiteSettingsForm({
         </div>
       )}
 
+      <div className="space-y-1.5">
+        <label className="flex flex-col gap-1.5 text-sm font-medium">
+          Custom Domain
+          <Input
+            type="text"
+            value={form.customDomain}
+            onChange={(e) =>
+              setForm((prev) => ({
+                ...prev,
+                customDomain: e.target.value,
+              }))
+            }
+            placeholder="blog.example.com"
+            disabled={loading}
+          />
+          <span className="text-xs text-muted-foreground">
+            Add a CNAME record pointing the domain at your Pages host first.
+            Leave empty to serve the site from its default address.
+          </span>
+        </label>
+      </div>
+
       <div className="space-y-1.5">
         <label className="flex flex-col gap-1.5 text-sm font-medium">
           Display Name
@@ -175,12 +274,153 @@ function SiteSettingsForm({
         </label>
       </div>
 
+      <div className="space-y-1.5">
+        <label className="flex flex-col gap-1.5 text-sm font-medium">
+          Publishing
+          <Select
+            value={form.publishMode}
+            onValueChange={(next) => {
+              if (next) {
+                setForm((prev) => ({ ...prev, publishMode: next }));
+              }
+            }}
+            disabled={loading}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue>{PUBLISH_MODE_LABELS[form.publishMode]}</SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {PUBLISH_MODES.map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {PUBLISH_MODE_LABELS[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">
+            Pull requests keep articles pending review until they are merged.
+          </span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1.5 text-sm font-medium">
+          Content Folder
+          <Input
+            type="text"
+            value={form.contentRoot}
+            onChange={(e) =>
+              setForm((prev) => ({
+                ...prev,
+                contentRoot: e.target.value,
+              }))
+            }
+            placeholder="content"
+            disabled={loading}
+          />
+        </label>
+        <label className="flex flex-col gap-1.5 text-sm font-medium">
+          Media Folder
+          <Input
+            type="text"
+            value={form.mediaRoot}
+            onChange={(e) =>
+              setForm((prev) => ({
+                ...prev,
+                mediaRoot: e.target.value,
+              }))
+            }
+            placeholder="assets/images"
+            disabled={loading}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-1.5">
+        <label className="flex flex-col gap-1.5 text-sm font-medium">
+          Article File Name
+          <Input
+            type="text"
+            value={form.fileNaming}
+            onChange={(e) =>
+              setForm((prev) => ({
+                ...prev,
+                fileNaming: e.target.value,
+              }))
+            }
+            placeholder="{slug}.md"
+            disabled={loading}
+          />
+          <span className="text-xs text-muted-foreground">
+            Use {'{slug}'} and optionally {'{date}'}, e.g. {'{date}-{slug}.md'}{' '}
+            for Jekyll or {'{slug}/index.md'} for Hugo page bundles.
+          </span>
+        </label>
+      </div>
+
+      <div className="space-y-1.5">
+        <label className="flex flex-col gap-1.5 text-sm font-medium">
+          Media URLs
+          <Select
+            value={form.mediaUrlStrategy}
+            onValueChange={(next) => {
+              if (next) {
+                setForm((prev) => ({ ...prev, mediaUrlStrategy: next }));
+              }
+            }}
+            disabled={loading}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue>
+                {MEDIA_URL_STRATEGY_LABELS[form.mediaUrlStrategy]}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {MEDIA_URL_STRATEGIES.map((strategy) => (
+                <SelectItem key={strategy} value={strategy}>
+                  {MEDIA_URL_STRATEGY_LABELS[strategy]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">
+            Image links in articles are rewritten to match when publishing.
+          </span>
+        </label>
+      </div>
+
+      <div className="space-y-1.5">
+        <label className="flex flex-col gap-1.5 text-sm font-medium">
+          Commit Message
+          <Input
+            type="text"
+            value={form.commitMessageTemplate}
+            onChange={(e) =>
+              setForm((prev) => ({
+                ...prev,
+                commitMessageTemplate: e.target.value,
+              }))
+            }
+            placeholder="{action} article: {slug}"
+            disabled={loading}
+          />
+          <span className="text-xs text-muted-foreground">
+            Use {'{action}'}, {'{title}'} and {'{slug}'}, e.g.{' '}
+            {'docs: {action} "{title}"'}.
+          </span>
+        </label>
+      </div>
+
       {error && <div className="text-sm text-destructive">{error}</div>}
 
       <Button type="submit" disabled={loading || !isDirty} className="w-full">
         {loading ? 'Saving...' : 'Save Changes'}
       </Button>
 
+      {site.templateId && (
+        <TemplateUpgradeSection siteId={site.id} disabled={loading} />
+      )}
+
       <ForceSyncSection
         siteId={site.id}
         disabled={loading}
@@ -190,6 +430,40 @@ function SiteSettingsForm({
   );
 }
 
+function TemplateUpgradeSection({
+  siteId,
+  disabled,
+}: {
+  siteId: string;
+  disabled: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="border-t pt-4 space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Upgrading the template shows how each template file differs from the
+        latest version, and keeps your customizations unless you replace them.
+      </p>
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        disabled={disabled}
+        onClick={() => setOpen(true)}
+      >
+        <FileDiff />
+        Upgrade Template
+      </Button>
+      <TemplateUpgradeDialog
+        siteId={siteId}
+        open={open}
+        onOpenChange={setOpen}
+      />
+    </div>
+  );
+}
+
 function ForceSyncSection({
   siteId,
   disabled,
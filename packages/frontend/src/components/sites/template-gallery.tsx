@@ -0,0 +1,116 @@
+import { Effect } from 'effect';
+import { useEffect, useState } from 'react';
+
+import type { GitPlatform } from '@/model/auth-model';
+
+import { cn } from '@/csslib/utils';
+import { SiteService, type SiteTemplate } from '@/services/site';
+import { runEffect } from '@/utils/effect-runtime';
+
+function TemplateCard({
+  name,
+  description,
+  previewUrl,
+  selected,
+  disabled,
+  onSelect,
+}: {
+  name: string;
+  description?: string | null;
+  previewUrl?: string | null;
+  selected: boolean;
+  disabled?: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={selected}
+      disabled={disabled}
+      onClick={onSelect}
+      className={cn(
+        'flex flex-col overflow-hidden rounded-md border text-left transition-colors disabled:opacity-50',
+        selected
+          ? 'border-primary ring-1 ring-primary'
+          : 'border-border hover:border-muted-foreground'
+      )}
+    >
+      <div className="aspect-video w-full bg-muted">
+        {previewUrl && (
+          <img
+            src={previewUrl}
+            alt=""
+            loading="lazy"
+            className="h-full w-full object-cover"
+          />
+        )}
+      </div>
+      <div className="space-y-0.5 px-2 py-1.5">
+        <div className="truncate text-sm font-medium">{name}</div>
+        {description && (
+          <div className="line-clamp-2 text-xs text-muted-foreground">
+            {description}
+          </div>
+        )}
+      </div>
+    </button>
+  );
+}
+
+// Templates registered for the platform, plus the default one. An empty
+// value selects the default template
+export function TemplateGallery({
+  platform,
+  value,
+  onChange,
+  disabled,
+}: {
+  platform: GitPlatform;
+  value: string;
+  onChange: (templateId: string) => void;
+  disabled?: boolean;
+}) {
+  const [templates, setTemplates] = useState<readonly SiteTemplate[]>([]);
+
+  useEffect(() => {
+    let current = true;
+    void runEffect(
+      Effect.flatMap(SiteService, (svc) => svc.fetchTemplates(platform))
+    ).then((result) => {
+      if (current) setTemplates(result);
+      return undefined;
+    });
+    return () => {
+      current = false;
+    };
+  }, [platform]);
+
+  // Nothing to choose between until a template is registered
+  if (templates.length === 0) return null;
+
+  return (
+    <div className="space-y-1.5">
+      <span className="text-sm font-medium">Template</span>
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+        <TemplateCard
+          name="Default"
+          description="The basic Inland blog template"
+          selected={value === ''}
+          disabled={disabled}
+          onSelect={() => onChange('')}
+        />
+        {templates.map((template) => (
+          <TemplateCard
+            key={template.id}
+            name={template.name}
+            description={template.description}
+            previewUrl={template.previewUrl}
+            selected={value === template.id}
+            disabled={disabled}
+            onSelect={() => onChange(template.id)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
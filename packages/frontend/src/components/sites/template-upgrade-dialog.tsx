@@ -0,0 +1,383 @@
+import { Effect } from 'effect';
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+
+import { type MergeHunkLabels, MergeHunks } from '@/components/merge-hunks';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  SiteService,
+  type TemplateFileDecision,
+  type TemplateFileDiff,
+  type TemplateFileStatus,
+  type TemplateUpgradePreview,
+} from '@/services/site';
+import { runEffect } from '@/utils/effect-runtime';
+import {
+  applyMerge,
+  defaultSide,
+  type MergeHunk,
+  type MergeSide,
+  mergeLines,
+} from '@/utils/three-way-merge';
+
+type FileAction = TemplateFileDecision['action'];
+
+const STATUS_LABELS: Record<
+  Exclude<TemplateFileStatus, 'unchanged'>,
+  string
+> = {
+  added: 'New in the template',
+  updated: 'Updated in the template',
+  customized: 'Customized in the repository',
+  conflict: 'Changed in both places',
+};
+
+// Files the user never touched follow the template, customized files stay
+// and files both sides changed start out merged
+const DEFAULT_ACTIONS: Record<TemplateFileStatus, FileAction> = {
+  unchanged: 'keep',
+  added: 'replace',
+  updated: 'replace',
+  customized: 'keep',
+  conflict: 'merge',
+};
+
+const ACTION_LABELS: Record<FileAction, string> = {
+  keep: 'Keep repository version',
+  replace: 'Use template version',
+  merge: 'Merge both',
+};
+
+const MERGE_LABELS: MergeHunkLabels = {
+  sides: { local: 'Repository', remote: 'Template' },
+  changedBy: {
+    local: 'Changed in the repository',
+    remote: 'Changed in the template',
+    both: 'Changed in both places',
+  },
+  accept: { local: 'Keep repository', remote: 'Take template' },
+};
+
+const shortVersion = (version: string) => version.slice(0, 7);
+
+export function TemplateUpgradeDialog({
+  siteId,
+  open,
+  onOpenChange,
+}: {
+  siteId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Upgrade template</DialogTitle>
+          <DialogDescription>
+            Compare the repository's template files with the latest version of
+            the template, and pick what to do with each before anything is
+            committed.
+          </DialogDescription>
+        </DialogHeader>
+        {open && (
+          <TemplateUpgradePreviewLoader
+            siteId={siteId}
+            onDone={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Mounted while the dialog is open, so every opening compares afresh
+function TemplateUpgradePreviewLoader({
+  siteId,
+  onDone,
+}: {
+  siteId: string;
+  onDone: () => void;
+}) {
+  // undefined while loading, null when the preview failed
+  const [preview, setPreview] = useState<TemplateUpgradePreview | null>();
+
+  useEffect(() => {
+    let current = true;
+    void runEffect(
+      Effect.flatMap(SiteService, (svc) => svc.previewTemplateUpgrade(siteId))
+    ).then((result) => {
+      if (current) setPreview(result ?? null);
+      return undefined;
+    });
+    return () => {
+      current = false;
+    };
+  }, [siteId]);
+
+  if (preview === undefined) {
+    return <p className="text-sm text-muted-foreground">Comparing files...</p>;
+  }
+  if (preview === null) {
+    return (
+      <p className="text-sm text-destructive">
+        Failed to compare the template files
+      </p>
+    );
+  }
+  return (
+    <TemplateUpgradeForm siteId={siteId} preview={preview} onDone={onDone} />
+  );
+}
+
+function TemplateUpgradeForm({
+  siteId,
+  preview,
+  onDone,
+}: {
+  siteId: string;
+  preview: TemplateUpgradePreview;
+  onDone: () => void;
+}) {
+  const files = useMemo(
+    () => preview.files.filter((file) => file.status !== 'unchanged'),
+    [preview]
+  );
+  const hunksByPath = useMemo(
+    () =>
+      new Map(
+        files.map((file) => [
+          file.path,
+          mergeLines(file.base, file.current ?? '', file.incoming),
+        ])
+      ),
+    [files]
+  );
+  const [actions, setActions] = useState<Record<string, FileAction>>(() =>
+    Object.fromEntries(
+      files.map((file) => [file.path, DEFAULT_ACTIONS[file.status]])
+    )
+  );
+  const [choices, setChoices] = useState<
+    Record<string, Record<number, MergeSide>>
+  >({});
+  const [expanded, setExpanded] = useState<string | null>(
+    files[0]?.path ?? null
+  );
+  const [applying, setApplying] = useState(false);
+
+  const unresolved = files.filter(
+    (file) =>
+      actions[file.path] === 'merge' &&
+      (hunksByPath.get(file.path) ?? []).some(
+        (hunk, index) =>
+          hunk.kind === 'change' &&
+          defaultSide(hunk) === null &&
+          choices[file.path]?.[index] === undefined
+      )
+  ).length;
+  const upToDate = preview.fromVersion === preview.toVersion;
+
+  const handleApply = () => {
+    const decisions = files.map((file): TemplateFileDecision => {
+      const action = actions[file.path];
+      return action === 'merge'
+        ? {
+            path: file.path,
+            action,
+            content: applyMerge(
+              hunksByPath.get(file.path) ?? [],
+              choices[file.path] ?? {}
+            ),
+          }
+        : { path: file.path, action };
+    });
+
+    setApplying(true);
+    runEffect(
+      Effect.flatMap(SiteService, (svc) =>
+        svc.applyTemplateUpgrade(siteId, preview.toVersion, decisions)
+      )
+    )
+      .then(
+        (result) => {
+          if (!result) return undefined;
+          toast.success(
+            result.filesChanged.length > 0
+              ? `Template upgraded: ${result.filesChanged.length} ${result.filesChanged.length === 1 ? 'file' : 'files'} changed`
+              : 'Template upgraded with no file changes'
+          );
+          onDone();
+          return undefined;
+        },
+        () => undefined
+      )
+      .finally(() => setApplying(false));
+  };
+
+  return (
+    <>
+      <p className="text-sm">
+        <span className="font-medium">{preview.templateName}</span>{' '}
+        {preview.fromVersion
+          ? shortVersion(preview.fromVersion)
+          : 'unknown version'}{' '}
+        → {shortVersion(preview.toVersion)}
+      </p>
+      {files.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {upToDate
+            ? 'The site is already on the latest version of its template.'
+            : 'Every template file in the repository already matches the latest version.'}
+        </p>
+      ) : (
+        <ul className="max-h-[60vh] space-y-2 overflow-y-auto">
+          {files.map((file) => (
+            <TemplateFileRow
+              key={file.path}
+              file={file}
+              hunks={hunksByPath.get(file.path) ?? []}
+              action={actions[file.path]}
+              onActionChange={(action) =>
+                setActions((current) => ({ ...current, [file.path]: action }))
+              }
+              choices={choices[file.path] ?? {}}
+              onChoose={(index, side) =>
+                setChoices((current) => ({
+                  ...current,
+                  [file.path]: { ...current[file.path], [index]: side },
+                }))
+              }
+              expanded={expanded === file.path}
+              onToggle={() =>
+                setExpanded((current) =>
+                  current === file.path ? null : file.path
+                )
+              }
+              disabled={applying}
+            />
+          ))}
+        </ul>
+      )}
+      <DialogFooter>
+        {unresolved > 0 && (
+          <span className="mr-auto self-center text-sm text-muted-foreground">
+            {unresolved} {unresolved === 1 ? 'merge needs' : 'merges need'}{' '}
+            choices
+          </span>
+        )}
+        <Button variant="outline" onClick={onDone} disabled={applying}>
+          Cancel
+        </Button>
+        <Button
+          disabled={
+            unresolved > 0 || applying || (upToDate && files.length === 0)
+          }
+          onClick={handleApply}
+        >
+          {applying ? 'Upgrading...' : 'Upgrade template'}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+function TemplateFileRow({
+  file,
+  hunks,
+  action,
+  onActionChange,
+  choices,
+  onChoose,
+  expanded,
+  onToggle,
+  disabled,
+}: {
+  file: TemplateFileDiff;
+  hunks: readonly MergeHunk[];
+  action: FileAction;
+  onActionChange: (action: FileAction) => void;
+  choices: Readonly<Record<number, MergeSide>>;
+  onChoose: (index: number, side: MergeSide) => void;
+  expanded: boolean;
+  onToggle: () => void;
+  disabled: boolean;
+}) {
+  // A file missing from the repository has nothing to merge with
+  const options: readonly FileAction[] =
+    file.current === null ? ['replace', 'keep'] : ['keep', 'replace', 'merge'];
+
+  const choiceAt = (index: number): MergeSide | null => {
+    const hunk = hunks[index];
+    if (hunk.kind !== 'change') return null;
+    if (action === 'keep') return 'local';
+    if (action === 'replace') return 'remote';
+    return choices[index] ?? defaultSide(hunk);
+  };
+
+  return (
+    <li className="rounded-md border border-border">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <button
+          type="button"
+          onClick={onToggle}
+          className="min-w-0 flex-1 text-left"
+        >
+          <span className="block truncate font-mono text-sm">{file.path}</span>
+          <span
+            className={
+              file.status === 'conflict'
+                ? 'text-xs text-destructive'
+                : 'text-xs text-muted-foreground'
+            }
+          >
+            {file.status !== 'unchanged' && STATUS_LABELS[file.status]}
+          </span>
+        </button>
+        <Select
+          value={action}
+          onValueChange={(next) => {
+            if (next) onActionChange(next);
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-52">
+            <SelectValue>{ACTION_LABELS[action]}</SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {ACTION_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {expanded && (
+        <div className="space-y-2 border-t border-border px-3 py-2">
+          <MergeHunks
+            hunks={hunks}
+            choiceAt={choiceAt}
+            onChoose={action === 'merge' ? onChoose : undefined}
+            labels={MERGE_LABELS}
+          />
+        </div>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,38 @@
+import { Effect } from 'effect';
+import { useEffect } from 'react';
+import { filter, pairwise } from 'rxjs';
+
+import { articlesModel } from '@/model/articles-model';
+import { SiteService } from '@/services/site';
+import { runEffect } from '@/utils/effect-runtime';
+
+const POLL_INTERVAL_MS = 10_000;
+
+const refreshDeployment = (siteId: string) =>
+  void runEffect(
+    Effect.flatMap(SiteService, (svc) => svc.refreshDeployment(siteId))
+  );
+
+// Keeps the site's deploy status current: a publish that just finished may
+// have pushed a commit, and a building site is polled until its run ends
+export function useDeployTracking(siteId: string | null, building: boolean) {
+  useEffect(() => {
+    if (!siteId) return;
+    const subscription = articlesModel.publishingId$
+      .pipe(
+        pairwise(),
+        filter(([previous, current]) => previous !== null && current === null)
+      )
+      .subscribe(() => refreshDeployment(siteId));
+    return () => subscription.unsubscribe();
+  }, [siteId]);
+
+  useEffect(() => {
+    if (!siteId || !building) return;
+    const timer = setInterval(
+      () => refreshDeployment(siteId),
+      POLL_INTERVAL_MS
+    );
+    return () => clearInterval(timer);
+  }, [siteId, building]);
+}
@@ -1,6 +1,9 @@
 import { Context, Layer } from 'effect';
 import { BehaviorSubject } from 'rxjs';
 
+// pending_review: published through a pull request that has not merged yet
+export type ArticleStatus = 'draft' | 'published' | 'pending_review';
+
 export interface Article {
   id: string;
   title: string;
@@ -8,11 +11,17 @@ export interface Article {
   content: string;
   excerpt: string | null;
   tags: string | null;
-  status: 'draft' | 'published';
+  status: ArticleStatus;
   publishedAt: string | null;
   gitSyncedAt: string | null;
   contentHash: string | null;
   gitSyncedHash: string | null;
+  pullRequestUrl?: string | null;
+  // Slug the repository file still has after a rename, until it is published
+  previousSlug?: string | null;
+  // Pending scheduled publish, and why the last one gave up
+  scheduledAt?: string | null;
+  scheduleError?: string | null;
   siteId: string;
   createdAt: string;
   updatedAt: string;
@@ -28,11 +37,72 @@ export interface EditingState {
   content: string;
   excerpt: string;
   tags: string;
-  status: 'draft' | 'published';
+  status: ArticleStatus;
   publishedAt: string;
   saving: boolean;
 }
 
+// A publish that collided with changes made in the repository, as the
+// markdown versions to merge. base is null when the synced version is gone
+export interface ArticleConflict {
+  articleId: string;
+  remoteSha: string;
+  base: string | null;
+  local: string;
+  remote: string;
+}
+
+// A commit that touched the article's file
+export interface ArticleCommit {
+  sha: string;
+  message: string;
+  authorName: string;
+  authorDate: string;
+  url: string | null;
+}
+
+// The article as a commit from its history had it
+export interface ArticleVersion {
+  commitSha: string;
+  title: string;
+  content: string;
+  excerpt: string | null;
+  tags: string | null;
+}
+
+// autosave: checkpoint taken while editing; manual: saved by the author;
+// publish: the article as it was published
+export type ArticleRevisionKind = 'autosave' | 'manual' | 'publish';
+
+// A snapshot of the article kept by the CMS, listed without its content
+export interface ArticleRevisionSummary {
+  id: string;
+  articleId: string;
+  kind: ArticleRevisionKind;
+  label: string | null;
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  tags: string | null;
+  contentHash: string;
+  createdAt: string;
+}
+
+export interface ArticleRevision extends ArticleRevisionSummary {
+  content: string;
+}
+
+export type LineDiffHunk =
+  | { kind: 'same'; lines: string[] }
+  | { kind: 'change'; removed: string[]; added: string[] };
+
+// A revision's content compared with the article as it is now
+export interface ViewedRevision {
+  revision: ArticleRevision;
+  titleChanged: boolean;
+  hunks: LineDiffHunk[];
+}
+
 export const INITIAL_EDITING: EditingState = {
   title: '',
   slug: '',
@@ -54,6 +124,13 @@ export interface ArticlesModelService {
   readonly deletingId$: BehaviorSubject<string | null>;
   readonly publishingId$: BehaviorSubject<string | null>;
   readonly selectedTag$: BehaviorSubject<string | null>;
+  readonly conflict$: BehaviorSubject<ArticleConflict | null>;
+  readonly history$: BehaviorSubject<ArticleCommit[] | null>;
+  readonly historyLoading$: BehaviorSubject<boolean>;
+  readonly viewedVersion$: BehaviorSubject<ArticleVersion | null>;
+  readonly revisions$: BehaviorSubject<ArticleRevisionSummary[] | null>;
+  readonly revisionsLoading$: BehaviorSubject<boolean>;
+  readonly viewedRevision$: BehaviorSubject<ViewedRevision | null>;
 }
 
 const instance: ArticlesModelService = {
@@ -66,6 +143,13 @@ const instance: ArticlesModelService = {
   deletingId$: new BehaviorSubject<string | null>(null),
   publishingId$: new BehaviorSubject<string | null>(null),
   selectedTag$: new BehaviorSubject<string | null>(null),
+  conflict$: new BehaviorSubject<ArticleConflict | null>(null),
+  history$: new BehaviorSubject<ArticleCommit[] | null>(null),
+  historyLoading$: new BehaviorSubject(false),
+  viewedVersion$: new BehaviorSubject<ArticleVersion | null>(null),
+  revisions$: new BehaviorSubject<ArticleRevisionSummary[] | null>(null),
+  revisionsLoading$: new BehaviorSubject(false),
+  viewedRevision$: new BehaviorSubject<ViewedRevision | null>(null),
 };
 
 export class ArticlesModel extends Context.Tag('ArticlesModel')<
@@ -101,3 +185,54 @@ export function parseTags(tags: string | null): string[] {
     .map((t) => t.trim())
     .filter(Boolean);
 }
+
+// Folder part of an article path: "guides/install" for guides/install/linux
+export function articleFolder(slug: string): string {
+  const index = slug.lastIndexOf('/');
+  return index === -1 ? '' : slug.slice(0, index);
+}
+
+// Slug of the article once moved into folder ("" for the top level)
+export function moveSlugToFolder(slug: string, folder: string): string {
+  const name = slug.slice(slug.lastIndexOf('/') + 1);
+  return folder ? `${folder}/${name}` : name;
+}
+
+export interface ArticleFolder {
+  name: string;
+  path: string;
+  folders: ArticleFolder[];
+  articles: Article[];
+}
+
+function sortFolders(folder: ArticleFolder): ArticleFolder {
+  return {
+    ...folder,
+    folders: folder.folders
+      .toSorted((a, b) => a.name.localeCompare(b.name))
+      .map(sortFolders),
+  };
+}
+
+// Groups articles into nested folders by their path, keeping article order
+// and listing folders alphabetically before the articles at each level
+export function buildArticleTree(articles: Article[]): ArticleFolder {
+  const root: ArticleFolder = { name: '', path: '', folders: [], articles: [] };
+
+  for (const article of articles) {
+    let folder = root;
+    const folderPath = articleFolder(article.slug);
+    for (const name of folderPath ? folderPath.split('/') : []) {
+      const path = folder.path ? `${folder.path}/${name}` : name;
+      let child = folder.folders.find((f) => f.name === name);
+      if (!child) {
+        child = { name, path, folders: [], articles: [] };
+        folder.folders.push(child);
+      }
+      folder = child;
+    }
+    folder.articles.push(article);
+  }
+
+  return sortFolders(root);
+}
@@ -7,6 +7,9 @@ export interface AuthUser {
   displayName: string | null;
   email: string | null;
   avatarUrl: string | null;
+  // Who Inland commits as; the token owner when unset
+  commitName: string | null;
+  commitEmail: string | null;
   createdAt: string;
   gitIntegrations: Array<{
     platform: string;
@@ -14,14 +17,31 @@ export interface AuthUser {
   }>;
 }
 
+export interface CommitIdentity {
+  commitName: string | null;
+  commitEmail: string | null;
+}
+
 export interface AuthState {
   status: 'loading' | 'anonymous' | 'authenticated';
   user: AuthUser | null;
   error: string | null;
 }
 
+export type GitPlatform = 'github' | 'gitlab' | 'gitea' | 'local';
+
+export const PLATFORM_LABELS: Record<GitPlatform, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  gitea: 'Gitea',
+  local: 'Local',
+};
+
 export interface AuthModelService {
   readonly authState$: BehaviorSubject<AuthState>;
+  readonly providers$: BehaviorSubject<GitPlatform[]>;
+  // Whether this instance offers a GitHub App for private repositories
+  readonly githubApp$: BehaviorSubject<boolean>;
 }
 
 const instance: AuthModelService = {
@@ -30,6 +50,8 @@ const instance: AuthModelService = {
     user: null,
     error: null,
   }),
+  providers$: new BehaviorSubject<GitPlatform[]>(['github']),
+  githubApp$: new BehaviorSubject<boolean>(false),
 };
 
 export class AuthModel extends Context.Tag('AuthModel')<
@@ -8,6 +8,8 @@ export interface MediaItem {
   filePath: string;
   fileSize: string;
   mimeType: string;
+  // Where the site links to the file, following its media URL setting
+  url: string;
   alt: string | null;
   createdAt: string;
 }
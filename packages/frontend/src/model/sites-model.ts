@@ -1,6 +1,12 @@
 import { Context, Layer } from 'effect';
 import { BehaviorSubject } from 'rxjs';
 
+// How publishing an article reaches the default branch
+export type PublishMode = 'direct' | 'pull_request';
+
+// Where links to uploaded media point
+export type MediaUrlStrategy = 'raw' | 'site_relative' | 'pinned';
+
 export interface SiteWithCounts {
   id: string;
   name: string;
@@ -8,8 +14,24 @@ export interface SiteWithCounts {
   description?: string | null;
   gitRepo: string;
   platform: string;
+  publishMode: PublishMode;
+  contentRoot: string;
+  fileNaming: string;
+  mediaRoot: string;
+  commitMessageTemplate?: string | null;
+  mediaUrlStrategy: MediaUrlStrategy;
+  // Registered template the site was created from, if any
+  templateId?: string | null;
+  // pending, building, deployed or failed for the last pushed commit
   deployStatus: string;
   deployUrl?: string | null;
+  // Hostname serving the site instead of the platform's Pages host
+  customDomain?: string | null;
+  deployCommitSha?: string | null;
+  deployRunUrl?: string | null;
+  deployStartedAt?: string | null;
+  // Seconds the last deploy run took
+  deployDuration?: number | null;
   createdAt: string;
   _count: {
     articles: number;
@@ -17,6 +39,22 @@ export interface SiteWithCounts {
   };
 }
 
+// Repository file an article is published to, mirroring the backend layout
+export function articleFilePath(
+  site: Pick<SiteWithCounts, 'contentRoot' | 'fileNaming'>,
+  slug: string,
+  date: string | null
+): string {
+  const index = slug.lastIndexOf('/');
+  const root = site.contentRoot.replace(/^\/+|\/+$/g, '');
+  const fileName = site.fileNaming
+    .replace('{slug}', slug.slice(index + 1))
+    .replace('{date}', (date ?? new Date().toISOString()).slice(0, 10));
+  return [root, slug.slice(0, Math.max(index, 0)), fileName]
+    .filter(Boolean)
+    .join('/');
+}
+
 export interface PaginationMeta {
   total: number;
   page: number;
@@ -4,27 +4,68 @@ import { Effect } from 'effect';
 import {
   Calendar as CalendarIcon,
   AlignLeft,
+  CircleAlert,
+  Clock,
+  GitPullRequest,
+  History as HistoryIcon,
   Link,
   RefreshCw,
+  Rocket,
   Tag,
   Upload,
 } from 'lucide-react';
+import { useState } from 'react';
 
 import { confirm } from '@/components/confirm-dialog';
+import { ArticleHistorySheet } from '@/components/editor/article-history-sheet';
 import { MarkdownEditor } from '@/components/editor/markdown-editor';
+import {
+  DeployStatus,
+  deployStatusLabel,
+} from '@/components/sites/deploy-status';
 import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { Separator } from '@/components/ui/separator';
-import { articlesModel } from '@/model/articles-model';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  articleFolder,
+  articlesModel,
+  moveSlugToFolder,
+} from '@/model/articles-model';
+import { articleFilePath, sitesModel } from '@/model/sites-model';
 import { ArticleService } from '@/services/article';
 import { runEffect } from '@/utils/effect-runtime';
 import { toKebabCase } from '@/utils/to-kebab-case';
 import { useObservable } from '@/utils/use-observable';
 
+// The hours and minutes of an ISO date in local time, as HH:MM
+const timeOfDay = (iso: string) => {
+  const date = new Date(iso);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+const withTimeOfDay = (date: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const next = new Date(date);
+  next.setHours(hours, minutes, 0, 0);
+  return next;
+};
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+
+// A publish date still to come schedules the publish instead
+const isFuture = (iso: string) =>
+  iso !== '' && new Date(iso).getTime() > Date.now();
+
 type PropertyRowProps = {
   icon: React.ComponentType<{ className?: string }>;
   label: string;
@@ -64,6 +105,8 @@ export function ArticleEditPage() {
   const currentArticle = useObservable(articlesModel.currentArticle$);
   const editing = useObservable(articlesModel.editing$);
   const loading = useObservable(articlesModel.articleLoading$);
+  const sites = useObservable(sitesModel.sites$);
+  const [historyOpen, setHistoryOpen] = useState(false);
 
   const updateField = <K extends keyof typeof editing>(
     field: K,
@@ -75,24 +118,104 @@ export function ArticleEditPage() {
   };
 
   const isPublished = currentArticle?.status === 'published';
+  const isPendingReview = currentArticle?.status === 'pending_review';
+  const site = sites.find((s) => s.id === currentArticle?.siteId);
+  const viaPullRequest = site?.publishMode === 'pull_request';
+  const slug = editing.slug || 'untitled';
+  const filePath = site
+    ? articleFilePath(site, slug, editing.publishedAt || null)
+    : `content/${slug}.md`;
+  // Direct publishes move a renamed article's file; pull requests don't
+  const previousSlug = viaPullRequest ? null : currentArticle?.previousSlug;
+  const previousFilePath =
+    site && previousSlug
+      ? articleFilePath(site, previousSlug, editing.publishedAt || null)
+      : null;
 
   const handlePublish = async () => {
+    // The dialog keeps its content as rendered, so the note is read on change
+    let note = '';
     const confirmed = await confirm({
-      title: isPublished ? 'Re-publish article' : 'Publish article',
-      description: (
+      title: viaPullRequest
+        ? 'Propose article'
+        : isPublished
+          ? 'Re-publish article'
+          : 'Publish article',
+      description: previousFilePath ? (
         <>
-          This will push "{editing.title || 'Untitled'}" to GitHub as{' '}
+          This will move "{editing.title || 'Untitled'}" on GitHub from{' '}
           <code className="rounded bg-muted px-1 py-0.5">
-            content/{editing.slug || 'untitled'}.md
-          </code>
-          . Continue?
+            {previousFilePath}
+          </code>{' '}
+          to <code className="rounded bg-muted px-1 py-0.5">{filePath}</code>{' '}
+          and redirect the old slug. Continue?
+        </>
+      ) : (
+        <>
+          {viaPullRequest
+            ? 'This will open a pull request with '
+            : 'This will push '}
+          "{editing.title || 'Untitled'}" to GitHub as{' '}
+          <code className="rounded bg-muted px-1 py-0.5">{filePath}</code>.
+          Continue?
+        </>
+      ),
+      content: (
+        <Textarea
+          aria-label="Commit message"
+          placeholder="Describe the change (optional)"
+          onChange={(e) => {
+            note = e.target.value;
+          }}
+        />
+      ),
+      confirmText: viaPullRequest
+        ? 'Open Pull Request'
+        : isPublished
+          ? 'Re-publish'
+          : 'Publish',
+    });
+    if (!confirmed) return;
+    void runEffect(
+      Effect.flatMap(ArticleService, (svc) => svc.publishCurrentArticle(note))
+    );
+  };
+
+  const scheduling = isFuture(editing.publishedAt);
+
+  const handleSchedule = async () => {
+    const publishAt = new Date(editing.publishedAt);
+    const confirmed = await confirm({
+      title: currentArticle?.scheduledAt
+        ? 'Reschedule publish'
+        : 'Schedule publish',
+      description: (
+        <>
+          {viaPullRequest
+            ? 'This will open a pull request with '
+            : 'This will push '}
+          "{editing.title || 'Untitled'}" to GitHub as{' '}
+          <code className="rounded bg-muted px-1 py-0.5">{filePath}</code> on{' '}
+          {formatDateTime(editing.publishedAt)}. Edits saved before then are
+          included. Continue?
         </>
       ),
-      confirmText: isPublished ? 'Re-publish' : 'Publish',
+      confirmText: 'Schedule',
     });
     if (!confirmed) return;
     void runEffect(
-      Effect.flatMap(ArticleService, (svc) => svc.publishCurrentArticle())
+      Effect.flatMap(ArticleService, (svc) =>
+        svc.scheduleCurrentArticle(publishAt)
+      )
+    );
+  };
+
+  const handleCancelSchedule = () => {
+    if (!currentArticle) return;
+    void runEffect(
+      Effect.flatMap(ArticleService, (svc) =>
+        svc.cancelSchedule(currentArticle.id)
+      )
     );
   };
 
@@ -132,7 +255,15 @@ export function ArticleEditPage() {
               type="button"
               title="Regenerate from title"
               className="shrink-0 text-muted-foreground/50 hover:text-muted-foreground"
-              onClick={() => updateField('slug', toKebabCase(editing.title))}
+              onClick={() =>
+                updateField(
+                  'slug',
+                  moveSlugToFolder(
+                    toKebabCase(editing.title),
+                    articleFolder(editing.slug)
+                  )
+                )
+              }
             >
               <RefreshCw className="size-3" />
             </button>
@@ -163,6 +294,11 @@ export function ArticleEditPage() {
                     year: 'numeric',
                     month: 'long',
                     day: 'numeric',
+                    // Times only matter for scheduling, so midnight is left out
+                    ...(timeOfDay(editing.publishedAt) !== '00:00' && {
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    }),
                   })
                 ) : (
                   <span className="text-muted-foreground/50">Pick a date</span>
@@ -177,10 +313,40 @@ export function ArticleEditPage() {
                       : undefined
                   }
                   onSelect={(date) =>
-                    updateField('publishedAt', date ? date.toISOString() : '')
+                    updateField(
+                      'publishedAt',
+                      date
+                        ? withTimeOfDay(
+                            date,
+                            editing.publishedAt
+                              ? timeOfDay(editing.publishedAt)
+                              : '00:00'
+                          ).toISOString()
+                        : ''
+                    )
                   }
                   captionLayout="dropdown"
                 />
+                <div className="border-t border-border p-2">
+                  <Input
+                    type="time"
+                    aria-label="Time"
+                    disabled={!editing.publishedAt}
+                    value={
+                      editing.publishedAt ? timeOfDay(editing.publishedAt) : ''
+                    }
+                    onChange={(e) => {
+                      if (!editing.publishedAt || !e.target.value) return;
+                      updateField(
+                        'publishedAt',
+                        withTimeOfDay(
+                          new Date(editing.publishedAt),
+                          e.target.value
+                        ).toISOString()
+                      );
+                    }}
+                  />
+                </div>
               </PopoverContent>
             </Popover>
           </PropertyRow>
@@ -189,10 +355,77 @@ export function ArticleEditPage() {
             label="Publish"
             as="button"
             type="button"
-            onClick={handlePublish}
+            onClick={scheduling ? handleSchedule : handlePublish}
+          >
+            <span className="text-muted-foreground/70">
+              {scheduling
+                ? `${currentArticle.scheduledAt ? 'Reschedule' : 'Schedule'} for ${formatDateTime(editing.publishedAt)}`
+                : isPendingReview
+                  ? 'Update pull request'
+                  : viaPullRequest
+                    ? 'Open pull request'
+                    : isPublished
+                      ? 'Re-publish to GitHub'
+                      : 'Publish to GitHub'}
+            </span>
+          </PropertyRow>
+          {currentArticle.scheduledAt && (
+            <PropertyRow icon={Clock} label="Scheduled">
+              <span className="flex-1 truncate">
+                Publishes {formatDateTime(currentArticle.scheduledAt)}
+              </span>
+              <button
+                type="button"
+                className="shrink-0 text-xs text-muted-foreground hover:text-foreground"
+                onClick={handleCancelSchedule}
+              >
+                Cancel
+              </button>
+            </PropertyRow>
+          )}
+          {currentArticle.scheduleError && (
+            <PropertyRow icon={CircleAlert} label="Scheduled">
+              <span
+                className="flex-1 truncate text-destructive"
+                title={currentArticle.scheduleError}
+              >
+                Publish failed: {currentArticle.scheduleError}
+              </span>
+              <button
+                type="button"
+                className="shrink-0 text-xs text-muted-foreground hover:text-foreground"
+                onClick={handleCancelSchedule}
+              >
+                Dismiss
+              </button>
+            </PropertyRow>
+          )}
+          {isPendingReview && currentArticle.pullRequestUrl && (
+            <PropertyRow icon={GitPullRequest} label="Review">
+              <a
+                href={currentArticle.pullRequestUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="truncate text-primary hover:underline"
+              >
+                Waiting for the pull request to merge
+              </a>
+            </PropertyRow>
+          )}
+          {site && deployStatusLabel(site) && (
+            <PropertyRow icon={Rocket} label="Deploy">
+              <DeployStatus site={site} />
+            </PropertyRow>
+          )}
+          <PropertyRow
+            icon={HistoryIcon}
+            label="History"
+            as="button"
+            type="button"
+            onClick={() => setHistoryOpen(true)}
           >
             <span className="text-muted-foreground/70">
-              {isPublished ? 'Re-publish to GitHub' : 'Publish to GitHub'}
+              Browse past versions
             </span>
           </PropertyRow>
         </div>
@@ -201,6 +434,11 @@ export function ArticleEditPage() {
       </div>
 
       <MarkdownEditor />
+      <ArticleHistorySheet
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        gitSynced={currentArticle.gitSyncedAt !== null}
+      />
     </div>
   );
 }
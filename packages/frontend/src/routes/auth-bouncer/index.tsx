@@ -30,6 +30,8 @@ export function AuthBouncer() {
             const article = yield* ArticleService;
             yield* article.fetchArticles(selectedSiteId);
           }
+        } else {
+          yield* auth.fetchProviders();
         }
       })
     );
@@ -6,6 +6,7 @@ import { useObservable } from '@/utils/use-observable';
 
 export function Home() {
   const authState = useObservable(authModel.authState$);
+  const providers = useObservable(authModel.providers$);
 
   if (authState.status !== 'authenticated') {
     return (
@@ -15,7 +16,11 @@ export function Home() {
           <p className="text-sm text-muted-foreground">
             Please log in to continue.
           </p>
-          <LoginButton />
+          <div className="flex flex-col items-center gap-2">
+            {providers.map((platform) => (
+              <LoginButton key={platform} platform={platform} />
+            ))}
+          </div>
         </div>
       </div>
     );
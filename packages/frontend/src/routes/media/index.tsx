@@ -1,11 +1,9 @@
 import { Effect } from 'effect';
 import { ImageIcon, Trash2 } from 'lucide-react';
-import { useMemo } from 'react';
 
 import { confirm } from '@/components/confirm-dialog';
 import { Button } from '@/components/ui/button';
 import { mediaModel } from '@/model/media-model';
-import { sitesModel } from '@/model/sites-model';
 import { MediaService } from '@/services/media';
 import { runEffect } from '@/utils/effect-runtime';
 import { useObservable } from '@/utils/use-observable';
@@ -17,20 +15,9 @@ function formatFileSize(sizeStr: string): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
-function buildRawGitHubUrl(gitRepo: string, filePath: string): string {
-  return `https://raw.githubusercontent.com/${gitRepo}/main/${filePath}`;
-}
-
 export function MediaPage() {
   const media = useObservable(mediaModel.media$);
   const loading = useObservable(mediaModel.loading$);
-  const selectedSiteId = useObservable(sitesModel.selectedSiteId$);
-  const sites = useObservable(sitesModel.sites$);
-
-  const currentGitRepo = useMemo(
-    () => sites.find((s) => s.id === selectedSiteId)?.gitRepo,
-    [sites, selectedSiteId]
-  );
 
   const handleDelete = async (id: string, filename: string) => {
     const confirmed = await confirm({
@@ -44,13 +31,6 @@ export function MediaPage() {
     await runEffect(Effect.flatMap(MediaService, (svc) => svc.deleteMedia(id)));
   };
 
-  const handleCopyUrl = (filePath: string) => {
-    if (!currentGitRepo) return;
-    void navigator.clipboard.writeText(
-      buildRawGitHubUrl(currentGitRepo, filePath)
-    );
-  };
-
   if (loading) {
     return (
       <div className="px-6 text-sm text-muted-foreground">Loading media...</div>
@@ -89,13 +69,13 @@ export function MediaPage() {
             <button
               type="button"
               className="block w-full"
-              onClick={() => handleCopyUrl(item.filePath)}
+              onClick={() => void navigator.clipboard.writeText(item.url)}
               title="Copy image URL"
             >
               <div className="aspect-square">
-                {item.mimeType.startsWith('image/') && currentGitRepo ? (
+                {item.mimeType.startsWith('image/') ? (
                   <img
-                    src={buildRawGitHubUrl(currentGitRepo, item.filePath)}
+                    src={item.url}
                     alt={item.alt ?? item.originalName}
                     className="size-full object-cover"
                   />
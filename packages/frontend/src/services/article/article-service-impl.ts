@@ -3,17 +3,27 @@ import { toast } from 'sonner';
 
 import type {
   Article,
+  ArticleCommit,
+  ArticleConflict,
+  ArticleRevision,
+  ArticleRevisionSummary,
+  ArticleVersion,
   ArticlesModelService,
   EditingState,
+  LineDiffHunk,
 } from '@/model/articles-model';
 import type { ApiClientService, ApiError } from '@/services/api';
 import type { NavigationServiceInterface } from '@/services/navigation';
 
-import { INITIAL_EDITING } from '@/model/articles-model';
+import { INITIAL_EDITING, moveSlugToFolder } from '@/model/articles-model';
 import { pushServiceError } from '@/services/shared/push-error';
 
 import type {
+  ArticleSearchHit,
+  ArticleSearchParams,
   ArticleServiceInterface,
+  BulkArticleAction,
+  BulkArticleResult,
   CreateArticleData,
   UpdateArticleData,
 } from './article-service';
@@ -28,11 +38,63 @@ interface DeleteArticleResponse {
   gitHubError?: string;
 }
 
+interface ArticleConflictResponse {
+  conflict: Omit<ArticleConflict, 'articleId'> | null;
+}
+
+interface ArticleHistoryResponse {
+  filePath: string;
+  commits: ArticleCommit[];
+}
+
+interface ArticleVersionResponse {
+  version: ArticleVersion;
+}
+
+interface ArticleRevisionsResponse {
+  revisions: ArticleRevisionSummary[];
+}
+
+interface ArticleRevisionResponse {
+  revision: ArticleRevision;
+}
+
+interface ArticleRevisionDiffResponse {
+  diff: { titleChanged: boolean; hunks: LineDiffHunk[] };
+}
+
 interface PublishArticleResponse {
+  article?: Article;
   wasUpdate?: boolean;
   filePath?: string;
+  pullRequest?: {
+    number: number;
+    url: string;
+  };
 }
 
+interface SearchArticlesResponse {
+  results: ArticleSearchHit[];
+}
+
+interface BulkArticlesResponse {
+  results: BulkArticleResult[];
+}
+
+const BULK_ACTION_DONE: Record<BulkArticleAction['kind'], string> = {
+  publish: 'published',
+  unpublish: 'unpublished',
+  delete: 'deleted',
+  tags: 'retagged',
+  date: 'redated',
+};
+
+// The most articles the API takes in one bulk request
+const BULK_BATCH_SIZE = 100;
+
+const articleCount = (count: number) =>
+  `${count} ${count === 1 ? 'article' : 'articles'}`;
+
 export class ArticleServiceImpl implements ArticleServiceInterface {
   constructor(
     private readonly model: ArticlesModelService,
@@ -44,6 +106,18 @@ export class ArticleServiceImpl implements ArticleServiceInterface {
     pushServiceError(this.model, this.nav, error);
   }
 
+  // Replaces the article in the list, and in the editor when it is open
+  private applyArticleUpdate(article: Article): void {
+    this.model.articles$.next(
+      this.model.articles$
+        .getValue()
+        .map((a) => (a.id === article.id ? { ...a, ...article } : a))
+    );
+    if (this.model.currentArticle$.getValue()?.id === article.id) {
+      this.model.currentArticle$.next(article);
+    }
+  }
+
   openArticle = (id: string): Effect.Effect<void> =>
     Effect.gen(this, function* () {
       const current = this.model.currentArticle$.getValue();
@@ -70,6 +144,10 @@ export class ArticleServiceImpl implements ArticleServiceInterface {
       const data = yield* this.api.get<{ article: Article }>(`/articles/${id}`);
 
       this.model.currentArticle$.next(data.article);
+      this.model.history$.next(null);
+      this.model.viewedVersion$.next(null);
+      this.model.revisions$.next(null);
+      this.model.viewedRevision$.next(null);
       this.model.editing$.next({
         title: data.article.title,
         slug: data.article.slug,
@@ -136,14 +214,17 @@ export class ArticleServiceImpl implements ArticleServiceInterface {
       this.model.currentArticle$.next(null);
     });
 
-  publishCurrentArticle = (): Effect.Effect<void> =>
+  publishCurrentArticle = (message?: string): Effect.Effect<void> =>
     Effect.gen(this, function* () {
       const article = this.model.currentArticle$.getValue();
       if (!article) return;
-      yield* this.publishArticle(article.id);
+      yield* this.publishArticle(article.id, message);
+      const published = this.model.articles$
+        .getValue()
+        .find((a) => a.id === article.id);
       this.model.editing$.next({
         ...this.model.editing$.getValue(),
-        status: 'published',
+        status: published?.status ?? 'published',
       });
     });
 
@@ -215,6 +296,35 @@ export class ArticleServiceImpl implements ArticleServiceInterface {
       Effect.catchAll((error) => Effect.sync(() => this.pushError(error)))
     );
 
+  moveArticle = (id: string, folder: string): Effect.Effect<void> =>
+    Effect.gen(this, function* () {
+      const article = this.model.articles$.getValue().find((a) => a.id === id);
+      if (!article) return;
+
+      const slug = moveSlugToFolder(article.slug, folder);
+      if (slug === article.slug) return;
+
+      const result = yield* this.api.put<{ article: Article }>(
+        `/articles/${id}`,
+        { slug }
+      );
+
+      const moved = result.article;
+      this.model.articles$.next(
+        this.model.articles$.getValue().map((a) => (a.id === id ? moved : a))
+      );
+
+      if (this.model.currentArticle$.getValue()?.id === id) {
+        this.model.currentArticle$.next(moved);
+        this.model.editing$.next({
+          ...this.model.editing$.getValue(),
+          slug: moved.slug,
+        });
+      }
+    }).pipe(
+      Effect.catchAll((error) => Effect.sync(() => this.pushError(error)))
+    );
+
   deleteArticle = (id: string): Effect.Effect<void> =>
     Effect.gen(this, function* () {
       this.model.deletingId$.next(id);
@@ -247,14 +357,33 @@ export class ArticleServiceImpl implements ArticleServiceInterface {
       Effect.ensuring(Effect.sync(() => this.model.deletingId$.next(null)))
     );
 
-  publishArticle = (id: string): Effect.Effect<void> =>
+  publishArticle = (id: string, message?: string): Effect.Effect<void> =>
     Effect.gen(this, function* () {
       this.model.publishingId$.next(id);
 
       const result = yield* this.api.post<PublishArticleResponse>(
-        `/articles/${id}/publish`
+        `/articles/${id}/publish`,
+        message ? { message } : undefined
       );
 
+      if (result.pullRequest) {
+        this.model.articles$.next(
+          this.model.articles$.getValue().map((a) =>
+            a.id === id
+              ? {
+                  ...a,
+                  status: 'pending_review' as const,
+                  pullRequestUrl: result.pullRequest?.url ?? null,
+                }
+              : a
+          )
+        );
+        toast.success(
+          `Pull request #${result.pullRequest.number} is ready for review`
+        );
+        return;
+      }
+
       const publishedAt = new Date().toISOString();
       this.model.articles$.next(
         this.model.articles$.getValue().map((a) =>
@@ -274,14 +403,386 @@ export class ArticleServiceImpl implements ArticleServiceInterface {
       toast.success(
         `Article ${action} successfully!${result.filePath ? ` File: ${result.filePath}` : ''}`
       );
+    }).pipe(
+      // 409: the file changed in the repository, so offer to merge
+      Effect.catchAll((error) =>
+        error.status === 409
+          ? this.openConflict(id)
+          : Effect.sync(() => {
+              toast.error(error.message);
+            })
+      ),
+      Effect.ensuring(Effect.sync(() => this.model.publishingId$.next(null)))
+    );
+
+  scheduleCurrentArticle = (publishAt: Date): Effect.Effect<void> =>
+    Effect.gen(this, function* () {
+      const article = this.model.currentArticle$.getValue();
+      if (!article) return;
+
+      // The scheduled publish pushes what is saved by then
+      yield* this.saveCurrentArticle();
+      const data = yield* this.api.post<{ article: Article }>(
+        `/articles/${article.id}/schedule`,
+        { publishAt: publishAt.toISOString() }
+      );
+      this.applyArticleUpdate(data.article);
+      this.model.editing$.next({
+        ...this.model.editing$.getValue(),
+        publishedAt: data.article.publishedAt ?? '',
+      });
+      toast.success(
+        `Publish scheduled for ${publishAt.toLocaleString('en-US', {
+          dateStyle: 'medium',
+          timeStyle: 'short',
+        })}`
+      );
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.sync(() => {
+          toast.error(error.message);
+        })
+      )
+    );
+
+  cancelSchedule = (id: string): Effect.Effect<void> =>
+    Effect.gen(this, function* () {
+      // Cancelling also dismisses the error of a publish that gave up
+      const wasScheduled = this.model.articles$
+        .getValue()
+        .some((a) => a.id === id && a.scheduledAt);
+      const data = yield* this.api.del<{ article: Article }>(
+        `/articles/${id}/schedule`
+      );
+      this.applyArticleUpdate(data.article);
+      if (wasScheduled) toast.success('Scheduled publish cancelled');
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.sync(() => {
+          toast.error(error.message);
+        })
+      )
+    );
+
+  runBulkAction = (
+    siteId: string,
+    articleIds: readonly string[],
+    action: BulkArticleAction
+  ): Effect.Effect<BulkArticleResult[] | null> =>
+    Effect.gen(this, function* () {
+      const { kind, ...options } = action;
+      // A large selection goes in batches, one after another, so each
+      // stays within the API's limit
+      const batches = Array.from(
+        { length: Math.ceil(articleIds.length / BULK_BATCH_SIZE) },
+        (_, index) =>
+          articleIds.slice(
+            index * BULK_BATCH_SIZE,
+            (index + 1) * BULK_BATCH_SIZE
+          )
+      );
+      const responses = yield* Effect.forEach(batches, (batch) =>
+        this.api.post<BulkArticlesResponse>(
+          `/sites/${siteId}/articles/bulk/${kind}`,
+          { articleIds: batch, ...options }
+        )
+      );
+      const results = responses.flatMap((response) => response.results);
+      yield* this.fetchArticles(siteId);
+
+      // The open article picks up what the action changed
+      const current = this.model.currentArticle$.getValue();
+      const changedCurrent = results.some(
+        (result) => result.success && result.articleId === current?.id
+      );
+      if (changedCurrent && kind === 'delete') {
+        this.model.currentArticle$.next(null);
+      } else if (changedCurrent) {
+        yield* this.refreshCurrentArticle();
+      }
+
+      const failed = results.filter((result) => !result.success);
+      const verb = BULK_ACTION_DONE[kind];
+      if (failed.length === 0) {
+        toast.success(`${articleCount(results.length)} ${verb}`);
+      } else {
+        toast.error(
+          `${failed.length} of ${articleCount(results.length)} could not be ${verb}: ${failed[0].error ?? 'Unexpected error'}`
+        );
+      }
+      return results;
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.sync(() => {
+          toast.error(error.message);
+          return null;
+        })
+      )
+    );
+
+  searchArticles = (
+    siteId: string,
+    params: ArticleSearchParams
+  ): Effect.Effect<ArticleSearchHit[] | null> =>
+    Effect.gen(this, function* () {
+      const search = new URLSearchParams({ q: params.query });
+      if (params.status) search.set('status', params.status);
+      if (params.tag) search.set('tag', params.tag);
+
+      const data = yield* this.api.get<SearchArticlesResponse>(
+        `/sites/${siteId}/articles/search?${search.toString()}`
+      );
+      return data.results;
     }).pipe(
       Effect.catchAll((error) =>
         Effect.sync(() => {
           toast.error(error.message);
+          return null;
+        })
+      )
+    );
+
+  openConflict = (id: string): Effect.Effect<void> =>
+    Effect.gen(this, function* () {
+      const data = yield* this.api.get<ArticleConflictResponse>(
+        `/articles/${id}/conflict`
+      );
+
+      if (!data.conflict) {
+        toast.info(
+          'The article no longer conflicts with the repository. Try publishing again.'
+        );
+        return;
+      }
+      this.model.conflict$.next({ articleId: id, ...data.conflict });
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.sync(() => {
+          toast.error(error.message);
+        })
+      )
+    );
+
+  closeConflict = (): Effect.Effect<void> =>
+    Effect.sync(() => {
+      this.model.conflict$.next(null);
+    });
+
+  resolveConflict = (markdown: string): Effect.Effect<void> => {
+    const conflict = this.model.conflict$.getValue();
+    if (!conflict) return Effect.void;
+    const id = conflict.articleId;
+
+    return Effect.gen(this, function* () {
+      this.model.publishingId$.next(id);
+
+      const result = yield* this.api.post<PublishArticleResponse>(
+        `/articles/${id}/conflict/resolve`,
+        { markdown, remoteSha: conflict.remoteSha }
+      );
+
+      this.model.conflict$.next(null);
+      const merged = result.article;
+      if (merged) {
+        this.model.articles$.next(
+          this.model.articles$
+            .getValue()
+            .map((a) => (a.id === id ? { ...a, ...merged } : a))
+        );
+      }
+      if (this.model.currentArticle$.getValue()?.id === id) {
+        yield* this.loadArticleIntoEditor(id);
+      }
+
+      toast.success(
+        result.pullRequest
+          ? `Merged article proposed in pull request #${result.pullRequest.number}`
+          : 'Merged article published successfully!'
+      );
+    }).pipe(
+      // The repository moved on again; merge against its latest version
+      Effect.catchAll((error) =>
+        Effect.gen(this, function* () {
+          toast.error(error.message);
+          if (error.status === 409) yield* this.openConflict(id);
         })
       ),
       Effect.ensuring(Effect.sync(() => this.model.publishingId$.next(null)))
     );
+  };
+
+  fetchHistory = (): Effect.Effect<void> =>
+    Effect.gen(this, function* () {
+      const article = this.model.currentArticle$.getValue();
+      if (!article) return;
+
+      this.model.historyLoading$.next(true);
+      const data = yield* this.api.get<ArticleHistoryResponse>(
+        `/articles/${article.id}/history`
+      );
+      // Another article may have opened while the history loaded
+      if (this.model.currentArticle$.getValue()?.id === article.id) {
+        this.model.history$.next(data.commits);
+      }
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.sync(() => {
+          toast.error(error.message);
+        })
+      ),
+      Effect.ensuring(Effect.sync(() => this.model.historyLoading$.next(false)))
+    );
+
+  viewVersion = (sha: string): Effect.Effect<void> =>
+    Effect.gen(this, function* () {
+      const article = this.model.currentArticle$.getValue();
+      if (!article) return;
+
+      const data = yield* this.api.get<ArticleVersionResponse>(
+        `/articles/${article.id}/history/${sha}`
+      );
+      this.model.viewedVersion$.next(data.version);
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.sync(() => {
+          toast.error(error.message);
+        })
+      )
+    );
+
+  closeVersion = (): Effect.Effect<void> =>
+    Effect.sync(() => {
+      this.model.viewedVersion$.next(null);
+    });
+
+  // Puts the viewed version in the editor; saving it makes it the draft
+  restoreVersion = (): Effect.Effect<void> =>
+    Effect.sync(() => {
+      const version = this.model.viewedVersion$.getValue();
+      if (!version) return;
+
+      this.model.editing$.next({
+        ...this.model.editing$.getValue(),
+        title: version.title,
+        content: version.content,
+        excerpt: version.excerpt ?? '',
+        tags: version.tags ?? '',
+      });
+      this.model.viewedVersion$.next(null);
+      toast.success(
+        `Restored the version from ${version.commitSha.slice(0, 7)}`
+      );
+    });
+
+  fetchRevisions = (): Effect.Effect<void> =>
+    Effect.gen(this, function* () {
+      const article = this.model.currentArticle$.getValue();
+      if (!article) return;
+
+      this.model.revisionsLoading$.next(true);
+      const data = yield* this.api.get<ArticleRevisionsResponse>(
+        `/articles/${article.id}/revisions`
+      );
+      // Another article may have opened while the revisions loaded
+      if (this.model.currentArticle$.getValue()?.id === article.id) {
+        this.model.revisions$.next(data.revisions);
+      }
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.sync(() => {
+          toast.error(error.message);
+        })
+      ),
+      Effect.ensuring(
+        Effect.sync(() => this.model.revisionsLoading$.next(false))
+      )
+    );
+
+  // Saves pending edits first, so the version has what the editor shows
+  saveRevision = (label?: string): Effect.Effect<void> =>
+    Effect.gen(this, function* () {
+      const article = this.model.currentArticle$.getValue();
+      if (!article) return;
+
+      yield* this.saveCurrentArticle();
+      const data = yield* this.api.post<ArticleRevisionResponse>(
+        `/articles/${article.id}/revisions`,
+        { label }
+      );
+      const { content: _, ...summary } = data.revision;
+      const revisions = this.model.revisions$.getValue();
+      if (revisions) this.model.revisions$.next([summary, ...revisions]);
+      toast.success('Version saved');
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.sync(() => {
+          toast.error(error.message);
+        })
+      )
+    );
+
+  viewRevision = (revisionId: string): Effect.Effect<void> =>
+    Effect.gen(this, function* () {
+      const article = this.model.currentArticle$.getValue();
+      if (!article) return;
+
+      const path = `/articles/${article.id}/revisions/${revisionId}`;
+      const [{ revision }, { diff }] = yield* Effect.all([
+        this.api.get<ArticleRevisionResponse>(path),
+        this.api.get<ArticleRevisionDiffResponse>(`${path}/diff`),
+      ]);
+      this.model.viewedRevision$.next({
+        revision,
+        titleChanged: diff.titleChanged,
+        hunks: diff.hunks,
+      });
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.sync(() => {
+          toast.error(error.message);
+        })
+      )
+    );
+
+  closeRevision = (): Effect.Effect<void> =>
+    Effect.sync(() => {
+      this.model.viewedRevision$.next(null);
+    });
+
+  // The server keeps the state being replaced as a revision of its own
+  restoreRevision = (): Effect.Effect<void> =>
+    Effect.gen(this, function* () {
+      const viewed = this.model.viewedRevision$.getValue();
+      if (!viewed) return;
+      const { revision } = viewed;
+
+      const data = yield* this.api.post<{ article: Article }>(
+        `/articles/${revision.articleId}/revisions/${revision.id}/restore`
+      );
+      const restored = data.article;
+      this.model.currentArticle$.next(restored);
+      this.model.articles$.next(
+        this.model.articles$
+          .getValue()
+          .map((a) => (a.id === restored.id ? restored : a))
+      );
+      this.model.editing$.next({
+        ...this.model.editing$.getValue(),
+        title: restored.title,
+        content: restored.content,
+        excerpt: restored.excerpt ?? '',
+        tags: restored.tags ?? '',
+      });
+      this.model.viewedRevision$.next(null);
+      toast.success('Version restored');
+      yield* this.fetchRevisions();
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.sync(() => {
+          toast.error(error.message);
+        })
+      )
+    );
 
   selectTag = (tag: string | null): Effect.Effect<void> =>
     Effect.sync(() => {
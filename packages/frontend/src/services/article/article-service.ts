@@ -2,7 +2,7 @@ import type { Effect } from 'effect';
 
 import { Context } from 'effect';
 
-import type { EditingState } from '@/model/articles-model';
+import type { ArticleStatus, EditingState } from '@/model/articles-model';
 
 export interface ArticleData {
   siteId: string;
@@ -18,6 +18,47 @@ export interface ArticleData {
 export type CreateArticleData = ArticleData;
 export type UpdateArticleData = ArticleData;
 
+export type BulkArticleAction =
+  | { readonly kind: 'publish' | 'unpublish' | 'delete' }
+  | {
+      readonly kind: 'tags';
+      readonly add: readonly string[];
+      readonly remove: readonly string[];
+    }
+  | { readonly kind: 'date'; readonly publishedAt: string | null };
+
+export interface BulkArticleResult {
+  articleId: string;
+  success: boolean;
+  error: string | null;
+}
+
+export interface ArticleSearchParams {
+  // Web search syntax: "quoted phrases", OR and -excluded words
+  query: string;
+  status?: ArticleStatus;
+  tag?: string;
+}
+
+// A run of text, highlighted where it matched the search
+export interface SearchTextSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface ArticleSearchHit {
+  id: string;
+  title: string;
+  slug: string;
+  status: ArticleStatus;
+  tags: string | null;
+  publishedAt: string | null;
+  titleHighlights: SearchTextSegment[];
+  snippet: SearchTextSegment[];
+  // Matched words, lowercased, in the order the content has them
+  matches: string[];
+}
+
 export interface ArticleServiceInterface {
   readonly clearArticles: () => Effect.Effect<void>;
   readonly fetchArticles: (siteId?: string) => Effect.Effect<void>;
@@ -34,10 +75,39 @@ export interface ArticleServiceInterface {
     id: string,
     data: UpdateArticleData
   ) => Effect.Effect<void>;
+  readonly moveArticle: (id: string, folder: string) => Effect.Effect<void>;
   readonly deleteCurrentArticle: () => Effect.Effect<void>;
   readonly deleteArticle: (id: string) => Effect.Effect<void>;
-  readonly publishCurrentArticle: () => Effect.Effect<void>;
-  readonly publishArticle: (id: string) => Effect.Effect<void>;
+  readonly publishCurrentArticle: (message?: string) => Effect.Effect<void>;
+  readonly publishArticle: (
+    id: string,
+    message?: string
+  ) => Effect.Effect<void>;
+  readonly scheduleCurrentArticle: (publishAt: Date) => Effect.Effect<void>;
+  readonly cancelSchedule: (id: string) => Effect.Effect<void>;
+  // null when the request itself failed
+  readonly runBulkAction: (
+    siteId: string,
+    articleIds: readonly string[],
+    action: BulkArticleAction
+  ) => Effect.Effect<BulkArticleResult[] | null>;
+  // null when the search itself failed
+  readonly searchArticles: (
+    siteId: string,
+    params: ArticleSearchParams
+  ) => Effect.Effect<ArticleSearchHit[] | null>;
+  readonly openConflict: (id: string) => Effect.Effect<void>;
+  readonly closeConflict: () => Effect.Effect<void>;
+  readonly resolveConflict: (markdown: string) => Effect.Effect<void>;
+  readonly fetchHistory: () => Effect.Effect<void>;
+  readonly viewVersion: (sha: string) => Effect.Effect<void>;
+  readonly closeVersion: () => Effect.Effect<void>;
+  readonly restoreVersion: () => Effect.Effect<void>;
+  readonly fetchRevisions: () => Effect.Effect<void>;
+  readonly saveRevision: (label?: string) => Effect.Effect<void>;
+  readonly viewRevision: (revisionId: string) => Effect.Effect<void>;
+  readonly closeRevision: () => Effect.Effect<void>;
+  readonly restoreRevision: () => Effect.Effect<void>;
   readonly selectTag: (tag: string | null) => Effect.Effect<void>;
 }
 
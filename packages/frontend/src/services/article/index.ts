@@ -1,7 +1,12 @@
 export { ArticleService } from './article-service';
 export type {
+  ArticleSearchHit,
+  ArticleSearchParams,
   ArticleServiceInterface,
+  BulkArticleAction,
+  BulkArticleResult,
   CreateArticleData,
+  SearchTextSegment,
   UpdateArticleData,
 } from './article-service';
 export { ArticleServiceLive } from './article-service-live';
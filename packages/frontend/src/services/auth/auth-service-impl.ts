@@ -1,7 +1,13 @@
 import { Effect } from 'effect';
 
-import type { AuthModelService, AuthState, AuthUser } from '@/model/auth-model';
-import type { ApiClientService } from '@/services/api';
+import type {
+  AuthModelService,
+  AuthState,
+  AuthUser,
+  CommitIdentity,
+  GitPlatform,
+} from '@/model/auth-model';
+import type { ApiClientService, ApiError } from '@/services/api';
 import type { NavigationServiceInterface } from '@/services/navigation';
 
 import type { AuthServiceInterface } from './auth-service';
@@ -62,9 +68,29 @@ export class AuthServiceImpl implements AuthServiceInterface {
       );
     });
 
-  login = (): Effect.Effect<void> =>
+  fetchProviders = (): Effect.Effect<GitPlatform[]> =>
+    this.api
+      .get<{ providers: GitPlatform[]; githubApp?: boolean }>('/auth/providers')
+      .pipe(
+        Effect.map(({ providers, githubApp }) => {
+          this.model.providers$.next(providers);
+          this.model.githubApp$.next(githubApp ?? false);
+          return providers;
+        }),
+        // Keep the GitHub-only default when the list can't be loaded
+        Effect.catchTag('ApiError', () =>
+          Effect.succeed(this.model.providers$.getValue())
+        )
+      );
+
+  login = (platform: GitPlatform = 'github'): Effect.Effect<void> =>
+    Effect.sync(() => {
+      this.nav.navigate(this.api.buildUrl(`/auth/${platform}`));
+    });
+
+  installGitHubApp = (): Effect.Effect<void> =>
     Effect.sync(() => {
-      this.nav.navigate(this.api.buildUrl('/auth/github'));
+      this.nav.navigate(this.api.buildUrl('/auth/github/install'));
     });
 
   logout = (): Effect.Effect<void> =>
@@ -75,4 +101,18 @@ export class AuthServiceImpl implements AuthServiceInterface {
       this.clearState();
       this.nav.navigate('/');
     });
+
+  updateCommitIdentity = (
+    identity: CommitIdentity
+  ): Effect.Effect<void, ApiError> =>
+    Effect.gen(this, function* () {
+      const data = yield* this.api.put<{ user: CommitIdentity }>(
+        '/auth/me',
+        identity
+      );
+      const state = this.model.authState$.getValue();
+      if (state.user) {
+        this.setAuthState({ ...state, user: { ...state.user, ...data.user } });
+      }
+    });
 }
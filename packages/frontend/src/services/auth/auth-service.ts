@@ -2,12 +2,22 @@ import type { Effect } from 'effect';
 
 import { Context } from 'effect';
 
-import type { AuthState } from '@/model/auth-model';
+import type {
+  AuthState,
+  CommitIdentity,
+  GitPlatform,
+} from '@/model/auth-model';
+import type { ApiError } from '@/services/api';
 
 export interface AuthServiceInterface {
   readonly bootstrap: (force?: boolean) => Effect.Effect<AuthState>;
-  readonly login: () => Effect.Effect<void>;
+  readonly fetchProviders: () => Effect.Effect<GitPlatform[]>;
+  readonly login: (platform?: GitPlatform) => Effect.Effect<void>;
+  readonly installGitHubApp: () => Effect.Effect<void>;
   readonly logout: () => Effect.Effect<void>;
+  readonly updateCommitIdentity: (
+    identity: CommitIdentity
+  ) => Effect.Effect<void, ApiError>;
 }
 
 export class AuthService extends Context.Tag('AuthService')<
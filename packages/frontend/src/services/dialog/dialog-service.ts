@@ -10,6 +10,8 @@ import type { Button } from '@/components/ui/button';
 export interface ConfirmOptions {
   title: string;
   description: React.ReactNode;
+  // Rendered between the description and the buttons, e.g. extra inputs
+  content?: React.ReactNode;
   confirmText?: string;
   cancelText?: string;
   confirmVariant?: React.ComponentProps<typeof Button>['variant'];
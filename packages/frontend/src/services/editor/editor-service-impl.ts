@@ -1,7 +1,9 @@
 import type { Node } from '@milkdown/kit/prose/model';
 
 import { Crepe, CrepeFeature } from '@milkdown/crepe';
+import { editorViewCtx } from '@milkdown/kit/core';
 import { upload, uploadConfig } from '@milkdown/kit/plugin/upload';
+import { TextSelection } from '@milkdown/kit/prose/state';
 import { replaceAll } from '@milkdown/kit/utils';
 import { Effect } from 'effect';
 import {
@@ -19,6 +21,27 @@ import { logger } from '@/utils/logger';
 
 import type { EditorServiceInterface } from './editor-service';
 
+// Position of the earliest occurrence of any of the words, ignoring case.
+// Matches are looked for within single text nodes
+const findFirstWord = (doc: Node, words: readonly string[]) => {
+  const match = { from: -1, to: -1 };
+  doc.descendants((node, pos) => {
+    if (match.from !== -1) return false;
+    if (!node.isText || !node.text) return true;
+
+    const text = node.text.toLowerCase();
+    for (const word of words) {
+      const index = text.indexOf(word);
+      if (index !== -1 && (match.from === -1 || pos + index < match.from)) {
+        match.from = pos + index;
+        match.to = pos + index + word.length;
+      }
+    }
+    return false;
+  });
+  return match.from === -1 ? null : match;
+};
+
 export type SaveFn = () => Promise<void>;
 export type UploadImageFn = (file: File) => Promise<string>;
 
@@ -26,6 +49,12 @@ export class EditorServiceImpl implements EditorServiceInterface {
   private autoSaveSubscription: Subscription | null = null;
   private editorSettled = true;
   private settleTimer: ReturnType<typeof setTimeout> | null = null;
+  // The article the editor was created for
+  private editorArticleId: string | null = null;
+  private pendingReveal: {
+    articleId: string;
+    words: readonly string[];
+  } | null = null;
 
   constructor(
     private readonly model: EditorModelService,
@@ -39,6 +68,8 @@ export class EditorServiceImpl implements EditorServiceInterface {
       yield* this.destroy();
 
       this.editorSettled = false;
+      this.editorArticleId =
+        this.articles.currentArticle$.getValue()?.id ?? null;
       const editing = this.articles.editing$.getValue();
       const uploadFn = this.uploadImage;
       const crepe = new Crepe({
@@ -91,6 +122,7 @@ export class EditorServiceImpl implements EditorServiceInterface {
 
       this.model.ready$.next(true);
       this.startAutoSave();
+      this.applyPendingReveal();
 
       // Let editor settle before enabling auto-save to prevent
       // Milkdown's markdown normalization from triggering a save
@@ -136,6 +168,45 @@ export class EditorServiceImpl implements EditorServiceInterface {
       crepe.editor.action(replaceAll(markdown));
     });
 
+  revealText = (
+    articleId: string,
+    words: readonly string[]
+  ): Effect.Effect<void> =>
+    Effect.sync(() => {
+      this.pendingReveal = { articleId, words };
+      this.applyPendingReveal();
+    });
+
+  // Waits for the editor of the article, which is only created once the
+  // article has loaded
+  private applyPendingReveal(): void {
+    const pending = this.pendingReveal;
+    const crepe = this.model.crepe$.getValue();
+    if (
+      !pending ||
+      !crepe ||
+      !this.model.ready$.getValue() ||
+      pending.articleId !== this.editorArticleId
+    ) {
+      return;
+    }
+    this.pendingReveal = null;
+
+    crepe.editor.action((ctx) => {
+      const view = ctx.get(editorViewCtx);
+      const match = findFirstWord(view.state.doc, pending.words);
+      if (!match) return;
+      view.dispatch(
+        view.state.tr
+          .setSelection(
+            TextSelection.create(view.state.doc, match.from, match.to)
+          )
+          .scrollIntoView()
+      );
+      view.focus();
+    });
+  }
+
   private startAutoSave(): void {
     this.autoSaveSubscription = this.articles.editing$
       .pipe(
@@ -6,6 +6,12 @@ export interface EditorServiceInterface {
   readonly initialize: (root: HTMLElement) => Effect.Effect<void>;
   readonly destroy: () => Effect.Effect<void>;
   readonly replaceContent: (markdown: string) => Effect.Effect<void>;
+  // Selects and scrolls to the first of the words in the article, once
+  // its editor is ready
+  readonly revealText: (
+    articleId: string,
+    words: readonly string[]
+  ) => Effect.Effect<void>;
 }
 
 export class EditorService extends Context.Tag('EditorService')<
@@ -4,6 +4,13 @@ export type {
   ForceSyncResult,
   ImportSiteData,
   RepoConfig,
+  SiteDeployment,
+  SiteTemplate,
+  TemplateFileDecision,
+  TemplateFileDiff,
+  TemplateFileStatus,
+  TemplateUpgradePreview,
+  TemplateUpgradeResult,
   UpdateSiteData,
   SiteServiceInterface,
   SyncResult,
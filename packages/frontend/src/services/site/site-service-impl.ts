@@ -1,5 +1,6 @@
 import { Effect } from 'effect';
 
+import type { GitPlatform } from '@/model/auth-model';
 import type {
   PaginationMeta,
   SitesModelService,
@@ -16,6 +17,11 @@ import type {
   ForceSyncResult,
   ImportSiteData,
   RepoConfig,
+  SiteDeployment,
+  SiteTemplate,
+  TemplateFileDecision,
+  TemplateUpgradePreview,
+  TemplateUpgradeResult,
   UpdateSiteData,
   SiteServiceInterface,
   SyncResult,
@@ -153,14 +159,84 @@ export class SiteServiceImpl implements SiteServiceInterface {
       )
     );
 
-  fetchRepoConfig = (repo: string): Effect.Effect<RepoConfig | null> =>
+  fetchRepoConfig = (
+    repo: string,
+    platform: GitPlatform = 'github'
+  ): Effect.Effect<RepoConfig | null> =>
     Effect.gen(this, function* () {
       const result = yield* this.api.get<{ config: RepoConfig | null }>(
-        `/sites/repo-config?repo=${encodeURIComponent(repo)}`
+        `/sites/repo-config?repo=${encodeURIComponent(repo)}&platform=${platform}`
       );
       return result.config;
     }).pipe(Effect.catchAll(() => Effect.succeed(null)));
 
+  previewTemplateUpgrade = (
+    siteId: string
+  ): Effect.Effect<TemplateUpgradePreview | undefined> =>
+    this.api
+      .get<TemplateUpgradePreview>(`/sites/${siteId}/template-upgrade`)
+      .pipe(
+        Effect.catchAll((error) =>
+          Effect.sync(() => {
+            this.pushError(error);
+            return undefined;
+          })
+        )
+      );
+
+  applyTemplateUpgrade = (
+    siteId: string,
+    version: string,
+    files: readonly TemplateFileDecision[]
+  ): Effect.Effect<TemplateUpgradeResult | undefined> =>
+    Effect.gen(this, function* () {
+      const result = yield* this.api.post<TemplateUpgradeResult>(
+        `/sites/${siteId}/template-upgrade`,
+        { version, files }
+      );
+      yield* this.fetchSites();
+      return result;
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.sync(() => {
+          this.pushError(error);
+          return undefined;
+        })
+      )
+    );
+
+  fetchTemplates = (
+    platform: GitPlatform
+  ): Effect.Effect<readonly SiteTemplate[]> =>
+    Effect.gen(this, function* () {
+      const result = yield* this.api.get<{ templates: SiteTemplate[] }>(
+        `/templates?platform=${platform}`
+      );
+      return result.templates;
+    }).pipe(Effect.catchAll(() => Effect.succeed([])));
+
+  // Polled while a deploy runs, so failures are left for the next poll
+  refreshDeployment = (siteId: string): Effect.Effect<void> =>
+    Effect.gen(this, function* () {
+      const deployment = yield* this.api.get<SiteDeployment>(
+        `/sites/${siteId}/deployment`
+      );
+      this.model.sites$.next(
+        this.model.sites$.getValue().map((site) =>
+          site.id === siteId
+            ? {
+                ...site,
+                deployStatus: deployment.status,
+                deployCommitSha: deployment.commitSha,
+                deployRunUrl: deployment.runUrl,
+                deployStartedAt: deployment.startedAt,
+                deployDuration: deployment.duration,
+              }
+            : site
+        )
+      );
+    }).pipe(Effect.catchAll(() => Effect.void));
+
   forceSyncSite = (
     siteId: string
   ): Effect.Effect<ForceSyncResult | undefined> =>
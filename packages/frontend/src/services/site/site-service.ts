@@ -2,6 +2,9 @@ import type { Effect } from 'effect';
 
 import { Context } from 'effect';
 
+import type { GitPlatform } from '@/model/auth-model';
+import type { MediaUrlStrategy, PublishMode } from '@/model/sites-model';
+
 // ── Request / Response types ────────────────────────────────────────
 
 export interface CreateSiteData {
@@ -9,14 +12,18 @@ export interface CreateSiteData {
   displayName?: string;
   description?: string;
   author?: string;
-  templateOwner: string;
-  templateRepo: string;
+  platform?: GitPlatform;
+  // A registered template; takes precedence over templateOwner/templateRepo
+  templateId?: string;
+  templateOwner?: string;
+  templateRepo?: string;
 }
 
 export interface ImportSiteData {
   name: string;
   displayName?: string;
   gitRepoFullName: string;
+  platform?: GitPlatform;
   description?: string;
   setupWorkflow: boolean;
   enablePages: boolean;
@@ -27,6 +34,14 @@ export interface UpdateSiteData {
   name?: string;
   displayName?: string;
   description?: string;
+  publishMode?: PublishMode;
+  contentRoot?: string;
+  fileNaming?: string;
+  mediaRoot?: string;
+  commitMessageTemplate?: string | null;
+  mediaUrlStrategy?: MediaUrlStrategy;
+  // null serves the site from the platform's Pages host again
+  customDomain?: string | null;
 }
 
 // ── Service interface ───────────────────────────────────────────────
@@ -40,6 +55,60 @@ export interface RepoConfig {
   authorUrl: string;
 }
 
+export interface SiteTemplate {
+  id: string;
+  platform: GitPlatform;
+  repo: string;
+  name: string;
+  description: string | null;
+  previewUrl: string | null;
+  version: string;
+}
+
+// How the repository copy of a template file relates to the site's template
+// version (base) and the version it would be upgraded to (incoming)
+export type TemplateFileStatus =
+  | 'unchanged'
+  | 'added'
+  | 'updated'
+  | 'customized'
+  | 'conflict';
+
+export interface TemplateFileDiff {
+  path: string;
+  status: TemplateFileStatus;
+  current: string | null;
+  base: string | null;
+  incoming: string;
+}
+
+export interface TemplateUpgradePreview {
+  templateId: string;
+  templateName: string;
+  fromVersion: string | null;
+  toVersion: string;
+  files: TemplateFileDiff[];
+}
+
+export type TemplateFileDecision =
+  | { path: string; action: 'keep' | 'replace' }
+  | { path: string; action: 'merge'; content: string };
+
+export interface TemplateUpgradeResult {
+  version: string;
+  commitSha: string | null;
+  filesChanged: string[];
+}
+
+// The deploy run triggered by the last commit the site pushed
+export interface SiteDeployment {
+  status: string;
+  commitSha: string | null;
+  runUrl: string | null;
+  startedAt: string | null;
+  duration: number | null;
+}
+
 export interface SiteServiceInterface {
   readonly bootstrap: () => Effect.Effect<void>;
   readonly fetchSites: (page?: number, limit?: number) => Effect.Effect<void>;
@@ -60,15 +129,33 @@ export interface SiteServiceInterface {
   readonly forceSyncSite: (
     siteId: string
   ) => Effect.Effect<ForceSyncResult | undefined>;
-  readonly fetchRepoConfig: (repo: string) => Effect.Effect<RepoConfig | null>;
+  readonly fetchRepoConfig: (
+    repo: string,
+    platform?: GitPlatform
+  ) => Effect.Effect<RepoConfig | null>;
+  readonly previewTemplateUpgrade: (
+    siteId: string
+  ) => Effect.Effect<TemplateUpgradePreview | undefined>;
+  readonly applyTemplateUpgrade: (
+    siteId: string,
+    version: string,
+    files: readonly TemplateFileDecision[]
+  ) => Effect.Effect<TemplateUpgradeResult | undefined>;
+  readonly fetchTemplates: (
+    platform: GitPlatform
+  ) => Effect.Effect<readonly SiteTemplate[]>;
+  readonly refreshDeployment: (siteId: string) => Effect.Effect<void>;
 }
 
 export interface SyncResult {
   created: number;
   updated: number;
   markedDraft: number;
+  merged: number;
   unchanged: number;
   total: number;
+  // File downloads skipped because their blobs were already synced
+  apiCallsSaved: number;
 }
 
 export interface ForceSyncResult {
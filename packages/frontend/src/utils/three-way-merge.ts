@@ -0,0 +1,214 @@
+// Line-based three-way merge of two versions of a file against the version
+// both were edited from
+
+export type MergeSide = 'local' | 'remote';
+
+export type MergeHunk =
+  | { readonly kind: 'same'; readonly lines: readonly string[] }
+  | {
+      readonly kind: 'change';
+      // Who edited these lines; 'both' means the edits collide
+      readonly changedBy: MergeSide | 'both';
+      readonly base: readonly string[];
+      readonly local: readonly string[];
+      readonly remote: readonly string[];
+    };
+
+function splitLines(text: string): string[] {
+  return text.split('\n');
+}
+
+function sameLines(a: readonly string[], b: readonly string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+// Index pairs along a shortest edit script from a to b, found with Myers'
+// diff in O((n + m) · d) time for d edited lines
+function shortestEditMatches(
+  a: readonly string[],
+  b: readonly string[]
+): Array<[number, number]> {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  // furthest[k + offset] is the furthest x reached on diagonal k = x - y
+  const furthest = Array.from({ length: 2 * max + 3 }, () => 0);
+  // Each round's diagonals -d..d as they stood before it, for walking back
+  const trace: number[][] = [];
+
+  let rounds = 0;
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(furthest.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d ||
+        (k !== d && furthest[offset + k - 1] < furthest[offset + k + 1])
+          ? furthest[offset + k + 1]
+          : furthest[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      furthest[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        rounds = d;
+        break search;
+      }
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = rounds; d > 0; d--) {
+    const before = trace[d];
+    const k = x - y;
+    const fromAbove =
+      k === -d || (k !== d && before[d + k - 1] < before[d + k + 1]);
+    const previousK = fromAbove ? k + 1 : k - 1;
+    const previousX = before[d + previousK];
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      x--;
+      y--;
+      pairs.push([x, y]);
+    }
+    x = previousX;
+    y = previousY;
+  }
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    pairs.push([x, y]);
+  }
+  return pairs.toReversed();
+}
+
+// Index pairs of the lines a and b share, in order. The untouched start and
+// end of the file are matched directly, so the diff only covers the edits
+function matchLines(
+  a: readonly string[],
+  b: readonly string[]
+): Array<[number, number]> {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < start; i++) pairs.push([i, i]);
+  for (const [i, j] of shortestEditMatches(
+    a.slice(start, endA),
+    b.slice(start, endB)
+  )) {
+    pairs.push([start + i, start + j]);
+  }
+  for (let i = 0; endA + i < a.length; i++) pairs.push([endA + i, endB + i]);
+  return pairs;
+}
+
+// Splits the two versions into runs both agree on and changes between them.
+// Without a base, the lines both versions share stand in for it and every
+// difference counts as a collision
+export function mergeLines(
+  base: string | null,
+  local: string,
+  remote: string
+): MergeHunk[] {
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+  const baseLines =
+    base === null
+      ? matchLines(localLines, remoteLines).map(([i]) => localLines[i])
+      : splitLines(base);
+
+  const toLocal = new Map(matchLines(baseLines, localLines));
+  const toRemote = new Map(matchLines(baseLines, remoteLines));
+  const hunks: MergeHunk[] = [];
+  // Lines both agree on since the last change, added as one hunk
+  let same: string[] = [];
+
+  const pushSame = (lines: readonly string[]) => {
+    for (const line of lines) same.push(line);
+  };
+  const flushSame = () => {
+    if (same.length === 0) return;
+    hunks.push({ kind: 'same', lines: same });
+    same = [];
+  };
+
+  let b = 0;
+  let l = 0;
+  let r = 0;
+  const pushGap = (baseEnd: number, localEnd: number, remoteEnd: number) => {
+    const baseGap = baseLines.slice(b, baseEnd);
+    const localGap = localLines.slice(l, localEnd);
+    const remoteGap = remoteLines.slice(r, remoteEnd);
+
+    if (sameLines(localGap, remoteGap)) {
+      pushSame(localGap);
+      return;
+    }
+    const changedBy =
+      base === null
+        ? 'both'
+        : sameLines(localGap, baseGap)
+          ? 'remote'
+          : sameLines(remoteGap, baseGap)
+            ? 'local'
+            : 'both';
+    flushSame();
+    hunks.push({
+      kind: 'change',
+      changedBy,
+      base: baseGap,
+      local: localGap,
+      remote: remoteGap,
+    });
+  };
+
+  // Lines neither side touched anchor the hunks in between
+  for (let i = 0; i < baseLines.length; i++) {
+    const localIndex = toLocal.get(i);
+    const remoteIndex = toRemote.get(i);
+    if (localIndex === undefined || remoteIndex === undefined) continue;
+
+    pushGap(i, localIndex, remoteIndex);
+    pushSame([baseLines[i]]);
+    b = i + 1;
+    l = localIndex + 1;
+    r = remoteIndex + 1;
+  }
+  pushGap(baseLines.length, localLines.length, remoteLines.length);
+  flushSame();
+
+  return hunks;
+}
+
+// Changes only one side made keep that side; collisions have no default
+export function defaultSide(
+  hunk: Extract<MergeHunk, { kind: 'change' }>
+): MergeSide | null {
+  return hunk.changedBy === 'both' ? null : hunk.changedBy;
+}
+
+// Joins the hunks back into a file, taking each change from the chosen side
+// or its default. choices is indexed like hunks
+export function applyMerge(
+  hunks: readonly MergeHunk[],
+  choices: Readonly<Record<number, MergeSide>>
+): string {
+  return hunks
+    .flatMap((hunk, index) => {
+      if (hunk.kind === 'same') return hunk.lines;
+      const side = choices[index] ?? defaultSide(hunk) ?? 'local';
+      return side === 'local' ? hunk.local : hunk.remote;
+    })
+    .join('\n');
+}